@@ -50,7 +50,7 @@ export function AIVerifyButton({ cinemaId, anomaly }: AIVerifyButtonProps) {
           cinemaId,
           anomalyType: anomaly.type,
           todayCount: anomaly.todayCount,
-          lastWeekCount: anomaly.lastWeekCount,
+          expectedCount: anomaly.expectedCount,
         }),
       });
 
@@ -20,7 +20,9 @@ export interface DetectedAnomaly {
   type: "low_count" | "zero_results" | "high_variance";
   severity: "warning" | "error";
   todayCount: number;
-  lastWeekCount: number;
+  /** Expected count for today from the cinema's rolling baseline */
+  expectedCount: number;
+  tolerancePercent: number;
   percentChange: number;
   detectedAt: string;
 }
@@ -55,7 +57,7 @@ export function AnomalyList({ anomalies }: AnomalyListProps) {
         <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
         <p className="text-lg font-medium text-text-primary">All systems healthy</p>
         <p className="text-sm text-text-secondary mt-1">
-          No anomalies detected comparing today with last week
+          No anomalies detected comparing today with cinema baselines
         </p>
       </Card>
     );
@@ -84,7 +86,7 @@ const typeLabels = {
 };
 
 const typeDescriptions = {
-  zero_results: "No screenings found but had listings last week",
+  zero_results: "No screenings today but the baseline expects some",
   low_count: "Significantly fewer screenings than expected",
   high_variance: "Unusually high count - possible duplicates",
 };
@@ -130,8 +132,9 @@ function AnomalyCard({
             <span className="font-mono ml-1 text-text-primary">{anomaly.todayCount}</span>
           </div>
           <div>
-            <span className="text-text-tertiary">Last week:</span>
-            <span className="font-mono ml-1 text-text-primary">{anomaly.lastWeekCount}</span>
+            <span className="text-text-tertiary">Expected:</span>
+            <span className="font-mono ml-1 text-text-primary">{anomaly.expectedCount}</span>
+            <span className="text-text-tertiary ml-1">±{anomaly.tolerancePercent}%</span>
           </div>
           <div>
             <span className="text-text-tertiary">Change:</span>
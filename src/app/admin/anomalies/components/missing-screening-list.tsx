@@ -0,0 +1,168 @@
+"use client";
+
+/**
+ * Missing Screening List Component
+ * Screenings the pipeline has flagged as possibly cancelled / cancelled,
+ * with admin overrides to restore, confirm, or hand back to the scrapers
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Ban, CheckCircle, ExternalLink, Lock, RotateCcw, Unlock } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/cn";
+import type { ScreeningStatus } from "@/types/screening";
+
+export interface MissingScreening {
+  id: string;
+  filmTitle: string;
+  cinemaName: string;
+  datetime: string;
+  bookingUrl: string;
+  status: ScreeningStatus;
+  missedScrapeCount: number;
+  statusOverridden: boolean;
+}
+
+interface MissingScreeningListProps {
+  screenings: MissingScreening[];
+}
+
+const statusConfig: Record<ScreeningStatus, { label: string; className: string }> = {
+  possibly_cancelled: { label: "Possibly cancelled", className: "bg-yellow-500/10 text-yellow-600" },
+  cancelled: { label: "Cancelled", className: "bg-red-500/10 text-red-600" },
+  scheduled: { label: "Restored", className: "bg-green-500/10 text-green-600" },
+};
+
+export function MissingScreeningList({ screenings: initialScreenings }: MissingScreeningListProps) {
+  const [screenings, setScreenings] = useState(initialScreenings);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function setStatus(id: string, status: "scheduled" | "cancelled" | null) {
+    setPendingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/screenings/${id}/status`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update status");
+      }
+
+      setScreenings((prev) =>
+        prev.map((s) =>
+          s.id === id
+            ? { ...s, status: data.status, statusOverridden: data.overridden, missedScrapeCount: 0 }
+            : s
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  if (screenings.length === 0) {
+    return (
+      <Card className="text-center py-8">
+        <CheckCircle className="w-10 h-10 text-green-500 mx-auto mb-3" />
+        <p className="text-sm text-text-secondary">
+          No upcoming screenings are missing from recent scrapes
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {screenings.map((screening) => {
+        const config = statusConfig[screening.status];
+        const isPending = pendingId === screening.id;
+
+        return (
+          <Card key={screening.id} className="p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-text-primary truncate">
+                    {screening.filmTitle}
+                  </span>
+                  <span className={cn("text-xs px-2 py-0.5 rounded", config.className)}>
+                    {config.label}
+                  </span>
+                  {screening.statusOverridden && (
+                    <span className="inline-flex items-center gap-1 text-xs text-text-tertiary">
+                      <Lock className="w-3 h-3" />
+                      Pinned
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-text-secondary mt-1">
+                  {screening.cinemaName} · {format(new Date(screening.datetime), "EEE d MMM HH:mm")}
+                  {screening.missedScrapeCount > 0 && (
+                    <> · missed {screening.missedScrapeCount} scrapes</>
+                  )}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                <a
+                  href={screening.bookingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="p-2 text-text-tertiary hover:text-text-primary"
+                  title="Check booking page"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+                {screening.status !== "scheduled" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => setStatus(screening.id, "scheduled")}
+                    leftIcon={<RotateCcw className="w-4 h-4" />}
+                  >
+                    Restore
+                  </Button>
+                )}
+                {(screening.status !== "cancelled" || !screening.statusOverridden) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => setStatus(screening.id, "cancelled")}
+                    leftIcon={<Ban className="w-4 h-4" />}
+                  >
+                    Confirm cancelled
+                  </Button>
+                )}
+                {screening.statusOverridden && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => setStatus(screening.id, null)}
+                    leftIcon={<Unlock className="w-4 h-4" />}
+                    title="Clear the override and let scrapers decide again"
+                  >
+                    Unpin
+                  </Button>
+                )}
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,25 +4,31 @@
  */
 
 import { db } from "@/db";
-import { cinemas, screenings } from "@/db/schema";
-import { eq, gte, lte, count, and } from "drizzle-orm";
-import { startOfDay, endOfDay, subWeeks, format } from "date-fns";
+import { cinemas, films, screenings } from "@/db/schema";
+import { eq, gte, lt, ne, count, and, or } from "drizzle-orm";
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertTriangle, CheckCircle, XCircle, Zap } from "lucide-react";
 import { AnomalyList, type DetectedAnomaly } from "./components/anomaly-list";
 import { RescanAllButton } from "./components/rescan-all-button";
+import { MissingScreeningList, type MissingScreening } from "./components/missing-screening-list";
+import { getCinemaBaselines } from "@/db/repositories";
+import {
+  BASELINE_WINDOW_WEEKS,
+  evaluateAgainstBaseline,
+  getExpectedCount,
+  isLondonWeekend,
+  startOfLondonDay,
+} from "@/lib/cinema-baselines";
 
 export const dynamic = "force-dynamic";
 
-// Independent cinemas (top tier)
+// Independent cinemas (top tier - drops are errors rather than warnings)
 const INDEPENDENT_CHAINS = ["independent", null];
 
 export default async function AdminAnomaliesPage() {
   const now = new Date();
-  const today = startOfDay(now);
-  const todayEnd = endOfDay(now);
-  const lastWeekSameDay = subWeeks(today, 1);
-  const lastWeekSameDayEnd = endOfDay(lastWeekSameDay);
+  const today = startOfLondonDay(now);
+  const tomorrow = startOfLondonDay(now, 1);
 
   // Fetch all active cinemas
   const allCinemas = await db
@@ -35,7 +41,7 @@ export default async function AdminAnomaliesPage() {
     .from(cinemas)
     .where(eq(cinemas.isActive, true));
 
-  // Get today's counts
+  // Get today's counts (cancelled screenings don't count towards the day)
   const todayCounts = await db
     .select({
       cinemaId: screenings.cinemaId,
@@ -45,85 +51,95 @@ export default async function AdminAnomaliesPage() {
     .where(
       and(
         gte(screenings.datetime, today),
-        lte(screenings.datetime, todayEnd)
+        lt(screenings.datetime, tomorrow),
+        ne(screenings.status, "cancelled")
       )
     )
     .groupBy(screenings.cinemaId);
 
-  // Get last week same day counts
-  const lastWeekCounts = await db
+  // Rolling weekday/weekend baselines (recomputed nightly)
+  const baselines = await getCinemaBaselines();
+
+  // Upcoming screenings flagged as missing from recent scrapes (or pinned by an admin)
+  const flaggedScreenings = await db
     .select({
-      cinemaId: screenings.cinemaId,
-      count: count(screenings.id),
+      id: screenings.id,
+      datetime: screenings.datetime,
+      bookingUrl: screenings.bookingUrl,
+      status: screenings.status,
+      missedScrapeCount: screenings.missedScrapeCount,
+      statusOverridden: screenings.statusOverridden,
+      filmTitle: films.title,
+      cinemaName: cinemas.name,
+      cinemaShortName: cinemas.shortName,
     })
     .from(screenings)
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
     .where(
       and(
-        gte(screenings.datetime, lastWeekSameDay),
-        lte(screenings.datetime, lastWeekSameDayEnd)
+        gte(screenings.datetime, now),
+        or(ne(screenings.status, "scheduled"), eq(screenings.statusOverridden, true))
       )
     )
-    .groupBy(screenings.cinemaId);
+    .orderBy(screenings.datetime)
+    .limit(100);
+
+  const missingScreenings: MissingScreening[] = flaggedScreenings.map((s) => ({
+    id: s.id,
+    filmTitle: s.filmTitle,
+    cinemaName: s.cinemaShortName || s.cinemaName,
+    datetime: s.datetime.toISOString(),
+    bookingUrl: s.bookingUrl,
+    status: s.status,
+    missedScrapeCount: s.missedScrapeCount,
+    statusOverridden: s.statusOverridden,
+  }));
 
   // Build maps
   const todayMap = new Map(todayCounts.map(c => [c.cinemaId, c.count]));
-  const lastWeekMap = new Map(lastWeekCounts.map(c => [c.cinemaId, c.count]));
 
   // Detect anomalies
   const anomalies: DetectedAnomaly[] = [];
+  let withoutBaseline = 0;
 
   for (const cinema of allCinemas) {
+    const baseline = baselines.get(cinema.id);
+    const expectedCount = baseline ? getExpectedCount(baseline, today) : null;
+    if (!baseline || expectedCount === null) {
+      withoutBaseline++;
+      continue;
+    }
+
     const todayCount = todayMap.get(cinema.id) || 0;
-    const lastWeekCount = lastWeekMap.get(cinema.id) || 0;
-
-    // Skip if both are zero (cinema might not have listings for this day)
-    if (todayCount === 0 && lastWeekCount === 0) continue;
-
-    const percentChange = lastWeekCount > 0
-      ? ((todayCount - lastWeekCount) / lastWeekCount) * 100
-      : todayCount > 0 ? 100 : -100;
-
-    const isTopTier = INDEPENDENT_CHAINS.includes(cinema.chain);
-    const threshold = isTopTier ? 30 : 50;
-
-    // Zero results is always an error for cinemas that had screenings last week
-    if (todayCount === 0 && lastWeekCount > 0) {
-      anomalies.push({
-        cinemaId: cinema.id,
-        cinemaName: cinema.shortName || cinema.name,
-        type: "zero_results",
-        severity: "error",
-        todayCount,
-        lastWeekCount,
-        percentChange,
-        detectedAt: now.toISOString(),
-      });
+    const isTopTier = baseline.tier === "top" || INDEPENDENT_CHAINS.includes(cinema.chain);
+    const { status, percentChange } = evaluateAgainstBaseline(
+      todayCount,
+      expectedCount,
+      baseline.tolerancePercent
+    );
+
+    const base = {
+      cinemaId: cinema.id,
+      cinemaName: cinema.shortName || cinema.name,
+      todayCount,
+      expectedCount,
+      tolerancePercent: baseline.tolerancePercent,
+      percentChange,
+      detectedAt: now.toISOString(),
+    };
+
+    // Zero results is always an error for cinemas that normally have screenings
+    if (status === "zero") {
+      anomalies.push({ ...base, type: "zero_results", severity: "error" });
     }
     // Significant drop
-    else if (percentChange < -threshold && lastWeekCount >= 3) {
-      anomalies.push({
-        cinemaId: cinema.id,
-        cinemaName: cinema.shortName || cinema.name,
-        type: "low_count",
-        severity: isTopTier ? "error" : "warning",
-        todayCount,
-        lastWeekCount,
-        percentChange,
-        detectedAt: now.toISOString(),
-      });
+    else if (status === "low") {
+      anomalies.push({ ...base, type: "low_count", severity: isTopTier ? "error" : "warning" });
     }
     // Unusual increase (might indicate duplicate scraping)
-    else if (percentChange > 100 && todayCount > lastWeekCount + 10) {
-      anomalies.push({
-        cinemaId: cinema.id,
-        cinemaName: cinema.shortName || cinema.name,
-        type: "high_variance",
-        severity: "warning",
-        todayCount,
-        lastWeekCount,
-        percentChange,
-        detectedAt: now.toISOString(),
-      });
+    else if (status === "high") {
+      anomalies.push({ ...base, type: "high_variance", severity: "warning" });
     }
   }
 
@@ -178,7 +194,7 @@ export default async function AdminAnomaliesPage() {
               <span className="text-sm text-text-secondary">Healthy</span>
             </div>
             <p className="text-2xl font-mono text-text-primary mt-1">
-              {allCinemas.length - anomalies.length}
+              {allCinemas.length - anomalies.length - withoutBaseline}
             </p>
           </div>
         </Card>
@@ -188,9 +204,18 @@ export default async function AdminAnomaliesPage() {
       <Card>
         <CardContent>
           <p className="text-sm text-text-secondary">
-            Comparing <strong>{format(today, "EEEE, d MMMM")}</strong> (today)
-            with <strong>{format(lastWeekSameDay, "EEEE, d MMMM")}</strong> (same day last week).
-            Independent cinemas alert at &gt;30% change, chains at &gt;50%.
+            Comparing <strong>{today.toLocaleDateString("en-GB", {
+              timeZone: "Europe/London",
+              weekday: "long",
+              day: "numeric",
+              month: "long",
+            })}</strong> (today) with each
+            cinema&apos;s rolling {isLondonWeekend(today) ? "weekend" : "weekday"} baseline
+            ({BASELINE_WINDOW_WEEKS} weeks of history, recalculated nightly) and its
+            configured tolerance.
+            {withoutBaseline > 0 && (
+              <> {withoutBaseline} cinemas have no baseline yet and aren&apos;t checked.</>
+            )}
           </p>
         </CardContent>
       </Card>
@@ -198,6 +223,20 @@ export default async function AdminAnomaliesPage() {
       {/* Anomaly List (client component handles dismiss filtering) */}
       <AnomalyList anomalies={sortedAnomalies} />
 
+      {/* Screenings missing from recent scrapes */}
+      <div className="space-y-3">
+        <div>
+          <h2 className="text-lg font-display text-text-primary">
+            Missing Screenings ({missingScreenings.length})
+          </h2>
+          <p className="text-sm text-text-secondary mt-1">
+            Upcoming screenings absent from consecutive successful scrapes. Cancelled
+            screenings are hidden from the calendar; restoring or confirming pins the status.
+          </p>
+        </div>
+        <MissingScreeningList screenings={missingScreenings} />
+      </div>
+
       {/* Phase 2 Notice */}
       <Card className="bg-accent-primary/5 border-accent-primary/20">
         <CardContent>
@@ -0,0 +1,227 @@
+"use client";
+
+/**
+ * API Key Manager Component
+ * Issue form plus the key list with revoke actions
+ *
+ * A newly issued key is shown once - only its hash is stored.
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Ban, Check, Copy, KeyRound, Plus } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/cn";
+
+export interface ApiKeyRow {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyManagerProps {
+  keys: ApiKeyRow[];
+}
+
+const DEFAULT_RATE_LIMIT = 60;
+
+export function ApiKeyManager({ keys: initialKeys }: ApiKeyManagerProps) {
+  const [keys, setKeys] = useState(initialKeys);
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState(DEFAULT_RATE_LIMIT);
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (isCreating) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, rateLimitPerMinute: rateLimit }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to issue key");
+      }
+
+      setKeys((prev) => [data.apiKey, ...prev]);
+      setIssuedKey(data.key);
+      setCopied(false);
+      setName("");
+      setRateLimit(DEFAULT_RATE_LIMIT);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleRevoke(key: ApiKeyRow) {
+    const confirmed = window.confirm(
+      `Revoke "${key.name}"? Clients using it will get 401 responses immediately.`
+    );
+    if (!confirmed) return;
+
+    setPendingId(key.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/api-keys/${key.id}`, { method: "DELETE" });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke key");
+      }
+
+      setKeys((prev) =>
+        prev.map((k) =>
+          k.id === key.id ? { ...k, revokedAt: k.revokedAt ?? new Date().toISOString() } : k
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  async function handleCopy() {
+    if (!issuedKey) return;
+    await navigator.clipboard.writeText(issuedKey);
+    setCopied(true);
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Issue form */}
+      <Card className="p-4">
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="api-key-name" className="block text-xs text-text-tertiary mb-1">
+              Name
+            </label>
+            <input
+              id="api-key-name"
+              type="text"
+              required
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Letterboxd list bot"
+              className="w-full px-3 py-2 bg-background-secondary border border-border-subtle rounded-lg text-text-primary placeholder:text-text-tertiary"
+            />
+          </div>
+          <div className="w-40">
+            <label htmlFor="api-key-rate-limit" className="block text-xs text-text-tertiary mb-1">
+              Requests / Minute
+            </label>
+            <input
+              id="api-key-rate-limit"
+              type="number"
+              min="1"
+              max="1000"
+              required
+              value={rateLimit}
+              onChange={(e) => setRateLimit(parseInt(e.target.value) || DEFAULT_RATE_LIMIT)}
+              className="w-full px-3 py-2 bg-background-secondary border border-border-subtle rounded-lg text-text-primary placeholder:text-text-tertiary"
+            />
+          </div>
+          <Button
+            type="submit"
+            isLoading={isCreating}
+            disabled={!name.trim()}
+            leftIcon={<Plus className="w-4 h-4" />}
+          >
+            Issue Key
+          </Button>
+        </form>
+      </Card>
+
+      {/* Newly issued key - shown once */}
+      {issuedKey && (
+        <Card className="p-4 bg-green-500/5 border-green-500/20">
+          <p className="text-sm text-text-primary font-medium">
+            Copy this key now - it won&apos;t be shown again
+          </p>
+          <div className="flex items-center gap-2 mt-2">
+            <code className="flex-1 px-3 py-2 bg-background-secondary rounded-lg text-sm font-mono text-text-primary break-all">
+              {issuedKey}
+            </code>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleCopy}
+              leftIcon={copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            >
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Key list */}
+      {keys.length === 0 ? (
+        <Card className="text-center py-8">
+          <KeyRound className="w-10 h-10 text-text-tertiary mx-auto mb-3" />
+          <p className="text-sm text-text-secondary">No API keys issued yet</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {keys.map((key) => (
+            <Card key={key.id} className={cn("p-4", key.revokedAt && "opacity-60")}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-text-primary truncate">{key.name}</span>
+                    <code className="text-xs font-mono text-text-tertiary">{key.keyPrefix}…</code>
+                    {key.revokedAt && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-red-500/10 text-red-600">
+                        Revoked
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-text-secondary mt-1">
+                    {key.rateLimitPerMinute} req/min · created{" "}
+                    {format(new Date(key.createdAt), "d MMM yyyy")} ·{" "}
+                    {key.lastUsedAt
+                      ? `last used ${formatDistanceToNow(new Date(key.lastUsedAt), { addSuffix: true })}`
+                      : "never used"}
+                  </p>
+                </div>
+
+                {!key.revokedAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pendingId === key.id}
+                    onClick={() => handleRevoke(key)}
+                    leftIcon={<Ban className="w-4 h-4" />}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
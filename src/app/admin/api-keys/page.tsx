@@ -0,0 +1,49 @@
+/**
+ * API Keys Admin Page
+ * Issue and revoke keys for the public /api/v1 surface
+ */
+
+import Link from "next/link";
+import { FileJson } from "lucide-react";
+import { listApiKeys } from "@/db/repositories";
+import { ApiKeyManager, type ApiKeyRow } from "./components/api-key-manager";
+
+export const dynamic = "force-dynamic";
+
+export default async function ApiKeysAdminPage() {
+  const keys = await listApiKeys();
+
+  const rows: ApiKeyRow[] = keys.map((key) => ({
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    rateLimitPerMinute: key.rateLimitPerMinute,
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    revokedAt: key.revokedAt?.toISOString() ?? null,
+    createdAt: key.createdAt.toISOString(),
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-display text-text-primary">API Keys</h1>
+          <p className="text-text-secondary mt-1">
+            Keys for the read-only public API at /api/v1
+          </p>
+        </div>
+        <Link
+          href="/api/v1/openapi.json"
+          target="_blank"
+          className="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-text-primary"
+        >
+          <FileJson className="w-4 h-4" />
+          OpenAPI spec
+        </Link>
+      </div>
+
+      <ApiKeyManager keys={rows} />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Admin Screening Changes Page
+ * "What changed this week" - reschedules, format swaps, sell-outs and booking link changes
+ * detected when scrapers re-visit existing screenings
+ */
+
+import Link from "next/link";
+import { subDays, format, parseISO, isValid } from "date-fns";
+import { Ban, Clock, Film, Ticket, Link2, Monitor, Sparkles } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/cn";
+import {
+  getScreeningChanges,
+  getScreeningChangeCounts,
+  type ScreeningChangeWithDetails,
+} from "@/db/repositories";
+import type { TrackedScreeningField } from "@/db/schema";
+
+export const dynamic = "force-dynamic";
+
+const FIELD_CONFIG: Record<
+  TrackedScreeningField,
+  { label: string; icon: React.ReactNode; color: string }
+> = {
+  datetime: { label: "Rescheduled", icon: <Clock className="w-4 h-4" />, color: "text-yellow-500" },
+  availabilityStatus: { label: "Availability", icon: <Ticket className="w-4 h-4" />, color: "text-red-500" },
+  format: { label: "Format", icon: <Film className="w-4 h-4" />, color: "text-accent-primary" },
+  screen: { label: "Screen", icon: <Monitor className="w-4 h-4" />, color: "text-text-secondary" },
+  eventType: { label: "Event", icon: <Sparkles className="w-4 h-4" />, color: "text-accent-highlight" },
+  bookingUrl: { label: "Booking link", icon: <Link2 className="w-4 h-4" />, color: "text-text-tertiary" },
+  status: { label: "Status", icon: <Ban className="w-4 h-4" />, color: "text-orange-500" },
+};
+
+const FIELD_ORDER: TrackedScreeningField[] = [
+  "datetime",
+  "availabilityStatus",
+  "format",
+  "screen",
+  "eventType",
+  "bookingUrl",
+  "status",
+];
+
+function formatValue(field: TrackedScreeningField, value: string | null): string {
+  if (value === null) return "—";
+  if (field === "datetime") {
+    const date = parseISO(value);
+    return isValid(date) ? format(date, "EEE d MMM HH:mm") : value;
+  }
+  return value;
+}
+
+interface PageProps {
+  searchParams: Promise<{ field?: string; cinema?: string }>;
+}
+
+export default async function AdminChangesPage({ searchParams }: PageProps) {
+  const { field, cinema } = await searchParams;
+  const selectedField = FIELD_ORDER.includes(field as TrackedScreeningField)
+    ? (field as TrackedScreeningField)
+    : undefined;
+
+  const since = subDays(new Date(), 7);
+  const filters = { since, field: selectedField, cinemaId: cinema || undefined };
+
+  const [changes, counts] = await Promise.all([
+    getScreeningChanges(filters, 500),
+    getScreeningChangeCounts({ since, cinemaId: cinema || undefined }),
+  ]);
+
+  const totalChanges = Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+  // Group by day detected
+  const changesByDay = new Map<string, ScreeningChangeWithDetails[]>();
+  for (const change of changes) {
+    const dayKey = format(change.detectedAt, "yyyy-MM-dd");
+    if (!changesByDay.has(dayKey)) {
+      changesByDay.set(dayKey, []);
+    }
+    changesByDay.get(dayKey)!.push(change);
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-display text-text-primary">What Changed This Week</h1>
+        <p className="text-text-secondary mt-1">
+          {totalChanges} change{totalChanges !== 1 ? "s" : ""} detected on re-scrape since{" "}
+          {format(since, "EEEE d MMMM")}
+        </p>
+      </div>
+
+      {/* Summary by field (click to filter) */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-3">
+        {FIELD_ORDER.map((f) => {
+          const config = FIELD_CONFIG[f];
+          const isSelected = selectedField === f;
+          return (
+            <Link
+              key={f}
+              href={isSelected ? "/admin/changes" : `/admin/changes?field=${f}`}
+              className={cn(
+                "rounded-lg border p-3 transition-colors",
+                isSelected
+                  ? "border-accent-primary bg-accent-primary/5"
+                  : "border-border-subtle bg-background-secondary hover:border-accent-primary/30"
+              )}
+            >
+              <div className={cn("flex items-center gap-2 text-sm", config.color)}>
+                {config.icon}
+                <span className="text-text-secondary">{config.label}</span>
+              </div>
+              <p className="text-2xl font-mono text-text-primary mt-1">{counts[f]}</p>
+            </Link>
+          );
+        })}
+      </div>
+
+      {/* Change list */}
+      {changes.length === 0 ? (
+        <Card className="text-center py-12">
+          <p className="text-lg font-medium text-text-primary">No changes detected</p>
+          <p className="text-sm text-text-secondary mt-1">
+            Re-scrapes haven&apos;t altered any existing screenings in the last 7 days
+          </p>
+        </Card>
+      ) : (
+        Array.from(changesByDay.entries()).map(([day, dayChanges]) => (
+          <section key={day} className="space-y-2">
+            <h2 className="text-sm font-medium text-text-tertiary uppercase tracking-wide">
+              {format(parseISO(day), "EEEE d MMMM")}
+            </h2>
+            <Card padding="none">
+              <CardContent className="divide-y divide-border-subtle p-0">
+                {dayChanges.map((change) => {
+                  const config = FIELD_CONFIG[change.field];
+                  return (
+                    <div key={change.id} className="flex items-start gap-3 px-4 py-3">
+                      <span className={cn("mt-0.5", config.color)}>{config.icon}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-text-primary truncate">
+                          <Link
+                            href={`/film/${change.film.id}`}
+                            className="font-medium hover:text-accent-primary"
+                          >
+                            {change.film.title}
+                          </Link>
+                          <span className="text-text-tertiary">
+                            {" "}at{" "}
+                            <Link
+                              href={`/admin/changes?cinema=${change.cinema.id}`}
+                              className="hover:text-accent-primary"
+                            >
+                              {change.cinema.shortName || change.cinema.name}
+                            </Link>
+                            {" · "}
+                            {format(change.screening.datetime, "EEE d MMM HH:mm")}
+                          </span>
+                        </p>
+                        <p className="text-xs text-text-secondary mt-0.5 font-mono break-all">
+                          {config.label}: {formatValue(change.field, change.oldValue)} →{" "}
+                          {formatValue(change.field, change.newValue)}
+                        </p>
+                      </div>
+                      <span className="text-xs text-text-tertiary shrink-0">
+                        {format(change.detectedAt, "HH:mm")}
+                      </span>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 /**
  * Cinema Config Modal
- * Configure tier and anomaly detection thresholds for a cinema
+ * Configure tier, anomaly detection thresholds and scrape schedule for a cinema
  */
 
 import { useState, useEffect } from "react";
@@ -10,13 +10,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { X, Loader2, CheckCircle, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/cn";
+import { BASELINE_WINDOW_WEEKS } from "@/lib/cinema-baselines";
+import { DEFAULT_INTERVAL_HOURS } from "@/lib/scrape-schedule";
+import type { CinemaTier } from "@/db/schema";
 
 interface CinemaConfig {
-  tier: "top" | "standard";
+  tier: CinemaTier;
   tolerancePercent: number;
   weekdayAvg: number | null;
   weekendAvg: number | null;
   manualOverride: boolean;
+  scrapeIntervalHours: number | null;
+  adaptiveSchedule: boolean;
   notes: string | null;
 }
 
@@ -143,7 +148,7 @@ export function CinemaConfigModal({
                 <label className="block text-sm font-medium text-text-primary mb-2">
                   Tier
                 </label>
-                <div className="grid grid-cols-2 gap-2">
+                <div className="grid grid-cols-3 gap-2">
                   <button
                     type="button"
                     onClick={() => setConfig({ ...config, tier: "top" })}
@@ -168,9 +173,22 @@ export function CinemaConfigModal({
                   >
                     Standard
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfig({ ...config, tier: "small" })}
+                    className={cn(
+                      "px-4 py-2 rounded-lg border text-sm font-medium transition-colors",
+                      config.tier === "small"
+                        ? "border-accent-primary bg-accent-primary/10 text-accent-primary"
+                        : "border-border-subtle text-text-secondary hover:border-border-default"
+                    )}
+                  >
+                    Small
+                  </button>
                 </div>
                 <p className="text-xs text-text-tertiary mt-1">
-                  Top tier triggers on any anomaly; standard tolerates more variance
+                  Top tier triggers on any anomaly; standard and small tolerate more variance.
+                  Small venues are scraped every two days by default
                 </p>
               </div>
 
@@ -221,7 +239,8 @@ export function CinemaConfigModal({
                         setConfig({
                           ...config,
                           weekdayAvg: e.target.value ? parseInt(e.target.value) : null,
-                          manualOverride: true,
+                          // Typed values pin the baseline; clearing both hands it back to the nightly job
+                          manualOverride: !!e.target.value || config.weekendAvg !== null,
                         })
                       }
                       placeholder="Auto"
@@ -240,7 +259,7 @@ export function CinemaConfigModal({
                         setConfig({
                           ...config,
                           weekendAvg: e.target.value ? parseInt(e.target.value) : null,
-                          manualOverride: true,
+                          manualOverride: !!e.target.value || config.weekdayAvg !== null,
                         })
                       }
                       placeholder="Auto"
@@ -249,10 +268,46 @@ export function CinemaConfigModal({
                   </div>
                 </div>
                 <p className="text-xs text-text-tertiary mt-1">
-                  Leave empty to calculate from historical data
+                  Recalculated nightly from the last {BASELINE_WINDOW_WEEKS} weeks unless you enter
+                  values here - clear both to go back to automatic
                 </p>
               </div>
 
+              {/* Scrape Schedule */}
+              <div>
+                <label
+                  htmlFor="scrape-interval-hours"
+                  className="block text-sm font-medium text-text-primary mb-2"
+                >
+                  Scrape Every (Hours)
+                </label>
+                <input
+                  id="scrape-interval-hours"
+                  type="number"
+                  min="1"
+                  max="168"
+                  value={config.scrapeIntervalHours ?? ""}
+                  onChange={(e) =>
+                    setConfig({
+                      ...config,
+                      scrapeIntervalHours: e.target.value ? parseInt(e.target.value) : null,
+                    })
+                  }
+                  placeholder={`Auto (${DEFAULT_INTERVAL_HOURS[config.tier]})`}
+                  className="w-full px-3 py-2 bg-background-secondary border border-border-subtle rounded-lg text-text-primary placeholder:text-text-tertiary"
+                />
+                <label className="flex items-center gap-2 mt-2 text-sm text-text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={config.adaptiveSchedule}
+                    onChange={(e) =>
+                      setConfig({ ...config, adaptiveSchedule: e.target.checked })
+                    }
+                  />
+                  Scrape more often while listings change or screenings sell out
+                </label>
+              </div>
+
               {/* Notes */}
               <div>
                 <label className="block text-sm font-medium text-text-primary mb-2">
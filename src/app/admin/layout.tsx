@@ -15,6 +15,8 @@ import {
   Bot,
   ChevronLeft,
   Calendar,
+  History,
+  KeyRound,
 } from "lucide-react";
 import { cn } from "@/lib/cn";
 
@@ -44,6 +46,12 @@ const navItems: NavItem[] = [
     icon: <Film className="w-5 h-5" />,
     description: "Browse and manage screenings",
   },
+  {
+    href: "/admin/changes",
+    label: "Changes",
+    icon: <History className="w-5 h-5" />,
+    description: "What changed this week",
+  },
   {
     href: "/admin/cinemas",
     label: "Cinemas",
@@ -68,6 +76,12 @@ const navItems: NavItem[] = [
     icon: <Bot className="w-5 h-5" />,
     description: "Run data quality agents",
   },
+  {
+    href: "/admin/api-keys",
+    label: "API Keys",
+    icon: <KeyRound className="w-5 h-5" />,
+    description: "Public API access",
+  },
 ];
 
 export default function AdminLayout({
@@ -20,7 +20,10 @@ interface VerifyRequest {
   cinemaId: string;
   anomalyType: "low_count" | "zero_results" | "high_variance";
   todayCount: number;
-  lastWeekCount: number;
+  /** Expected count from the cinema baseline */
+  expectedCount?: number;
+  /** Legacy clients - same-day-last-week count */
+  lastWeekCount?: number;
 }
 
 interface VerifyResponse {
@@ -39,7 +42,7 @@ export async function POST(request: Request) {
 
   try {
     const body: VerifyRequest = await request.json();
-    const { cinemaId, anomalyType, todayCount, lastWeekCount } = body;
+    const { cinemaId, anomalyType, todayCount, expectedCount, lastWeekCount } = body;
 
     if (!cinemaId || !anomalyType) {
       return Response.json({ error: "Missing required fields" }, { status: 400 });
@@ -88,7 +91,7 @@ Website: ${cinemaData.website || "Unknown"}
 Chain: ${cinemaData.chain || "Independent"}
 Anomaly Type: ${anomalyType}
 Today's Screening Count: ${todayCount}
-Last Week Same Day Count: ${lastWeekCount}
+${expectedCount !== undefined ? `Expected Count (rolling baseline): ${expectedCount}` : `Last Week Same Day Count: ${lastWeekCount}`}
 Total Screenings (last 7 days): ${totalRecent}
 Date: ${format(now, "EEEE, d MMMM yyyy")}
 `;
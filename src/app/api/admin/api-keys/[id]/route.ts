@@ -0,0 +1,35 @@
+/**
+ * Admin API Key API
+ * DELETE /api/admin/api-keys/[id] - Revoke a key (it stops working immediately)
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { ForbiddenError, NotFoundError, handleApiError } from "@/lib/api-errors";
+import { isCurrentUserAdmin } from "@/lib/auth";
+import { revokeApiKey } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isCurrentUserAdmin())) {
+      throw new ForbiddenError("Admin access required");
+    }
+
+    const { id } = await params;
+    if (!z.uuid().safeParse(id).success || !(await revokeApiKey(id))) {
+      throw new NotFoundError("API key not found");
+    }
+
+    return Response.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "DELETE /api/admin/api-keys/[id]");
+  }
+}
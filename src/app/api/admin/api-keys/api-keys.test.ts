@@ -0,0 +1,86 @@
+/**
+ * Admin API Keys API Tests
+ * Signed-in users who aren't on the admin allowlist can't list, issue or revoke keys
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { auth, currentUser } from "@clerk/nextjs/server";
+
+vi.mock("@/db/repositories", () => ({
+  listApiKeys: vi.fn().mockResolvedValue([]),
+  createApiKey: vi.fn().mockResolvedValue({ apiKey: { id: "key-id" }, key: "lfc_test" }),
+  revokeApiKey: vi.fn().mockResolvedValue(true),
+}));
+
+import { GET, POST } from "./route";
+import { DELETE } from "./[id]/route";
+import { createApiKey, listApiKeys, revokeApiKey } from "@/db/repositories";
+
+type AuthResult = Awaited<ReturnType<typeof auth>>;
+type ClerkUser = NonNullable<Awaited<ReturnType<typeof currentUser>>>;
+
+const KEY_ID = "6f1c2b9e-3d4a-4f5b-8c7d-9e0a1b2c3d4e";
+
+function signInAs(email: string) {
+  vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as AuthResult);
+  vi.mocked(currentUser).mockResolvedValue({
+    emailAddresses: [{ emailAddress: email }],
+  } as ClerkUser);
+}
+
+function createRequest() {
+  return new Request("http://localhost/api/admin/api-keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "Partner" }),
+  });
+}
+
+const params = { params: Promise.resolve({ id: KEY_ID }) };
+
+describe("Admin API Keys API", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("non-admin users", () => {
+    beforeEach(() => signInAs("someone@example.com"));
+
+    it("can't list keys", async () => {
+      const response = await GET();
+
+      expect(response.status).toBe(403);
+      expect(listApiKeys).not.toHaveBeenCalled();
+    });
+
+    it("can't issue keys", async () => {
+      const response = await POST(createRequest());
+
+      expect(response.status).toBe(403);
+      expect(createApiKey).not.toHaveBeenCalled();
+    });
+
+    it("can't revoke keys", async () => {
+      const response = await DELETE(new Request(`http://localhost/api/admin/api-keys/${KEY_ID}`), params);
+
+      expect(response.status).toBe(403);
+      expect(revokeApiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("admins", () => {
+    beforeEach(() => signInAs("JDWBarge@gmail.com"));
+
+    it("list, issue and revoke keys", async () => {
+      expect((await GET()).status).toBe(200);
+      expect((await POST(createRequest())).status).toBe(201);
+      expect((await DELETE(new Request(`http://localhost/api/admin/api-keys/${KEY_ID}`), params)).status).toBe(200);
+    });
+  });
+
+  it("returns 401 when signed out", async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as AuthResult);
+
+    expect((await GET()).status).toBe(401);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Admin API Keys API
+ * Issue and list keys for the public /api/v1 surface
+ *
+ * GET /api/admin/api-keys - List keys (hashes are never returned)
+ * POST /api/admin/api-keys - Issue a key; the full key is only in this response
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { BadRequestError, ForbiddenError, handleApiError } from "@/lib/api-errors";
+import { isCurrentUserAdmin } from "@/lib/auth";
+import { createApiKey, listApiKeys } from "@/db/repositories";
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+});
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isCurrentUserAdmin())) {
+      throw new ForbiddenError("Admin access required");
+    }
+
+    return Response.json({ keys: await listApiKeys() });
+  } catch (error) {
+    return handleApiError(error, "GET /api/admin/api-keys");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isCurrentUserAdmin())) {
+      throw new ForbiddenError("Admin access required");
+    }
+
+    const parseResult = createApiKeySchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      throw new BadRequestError("Invalid request body", parseResult.error.flatten());
+    }
+
+    const { apiKey, key } = await createApiKey({
+      name: parseResult.data.name,
+      rateLimitPerMinute: parseResult.data.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      createdBy: userId,
+    });
+
+    return Response.json({ apiKey, key }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "POST /api/admin/api-keys");
+  }
+}
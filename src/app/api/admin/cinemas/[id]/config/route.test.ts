@@ -38,6 +38,7 @@ vi.mock("@/db", () => ({
 vi.mock("@/db/schema", () => ({
   cinemaBaselines: { cinemaId: "cinema_id" },
   cinemas: { id: "id" },
+  cinemaTierEnum: { enumValues: ["top", "standard", "small"] },
 }));
 
 import { auth } from "@clerk/nextjs/server";
@@ -121,6 +122,8 @@ describe("Cinema Config API", () => {
       expect(data.weekdayAvg).toBeNull();
       expect(data.weekendAvg).toBeNull();
       expect(data.manualOverride).toBe(false);
+      expect(data.scrapeIntervalHours).toBeNull();
+      expect(data.adaptiveSchedule).toBe(true);
     });
   });
 
@@ -222,6 +225,23 @@ describe("Cinema Config API", () => {
       expect(data.details.fieldErrors.scrapeHorizonDays).toBeDefined();
     });
 
+    it("returns 400 for scrapeIntervalHours outside 1-168", async () => {
+      vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as unknown as Awaited<ReturnType<typeof auth>>);
+
+      for (const scrapeIntervalHours of [0, 200, 1.5]) {
+        const request = new Request("http://localhost/api/admin/cinemas/bfi-southbank/config", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ scrapeIntervalHours }),
+        });
+        const response = await PUT(request, { params: Promise.resolve({ id: "bfi-southbank" }) });
+
+        expect(response.status).toBe(400);
+        const data = await response.json();
+        expect(data.details.fieldErrors.scrapeIntervalHours).toBeDefined();
+      }
+    });
+
     it("returns 400 for invalid maxScrapeDate", async () => {
       vi.mocked(auth).mockResolvedValue({ userId: "user_123" } as unknown as Awaited<ReturnType<typeof auth>>);
 
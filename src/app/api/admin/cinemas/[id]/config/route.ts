@@ -8,7 +8,7 @@
 
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
-import { cinemaBaselines, cinemas } from "@/db/schema";
+import { cinemaBaselines, cinemas, cinemaTierEnum } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { BadRequestError, handleApiError } from "@/lib/api-errors";
@@ -19,7 +19,7 @@ interface RouteParams {
 
 // Zod schema for PUT - update cinema config
 const cinemaConfigSchema = z.object({
-  tier: z.enum(["top", "standard"]).optional(),
+  tier: z.enum(cinemaTierEnum.enumValues).optional(),
   tolerancePercent: z.number().min(10).max(100).optional(),
   weekdayAvg: z.number().nullable().optional(),
   weekendAvg: z.number().nullable().optional(),
@@ -27,6 +27,9 @@ const cinemaConfigSchema = z.object({
   notes: z.string().nullable().optional(),
   scrapeHorizonDays: z.number().min(7).max(365).optional(),
   maxScrapeDate: z.string().datetime().nullable().optional(),
+  // null = default interval for the tier
+  scrapeIntervalHours: z.number().int().min(1).max(168).nullable().optional(),
+  adaptiveSchedule: z.boolean().optional(),
 });
 
 // Default config for cinemas without baselines
@@ -39,6 +42,8 @@ const DEFAULT_CONFIG = {
   notes: null,
   scrapeHorizonDays: 60,
   maxScrapeDate: null,
+  scrapeIntervalHours: null,
+  adaptiveSchedule: true,
 };
 
 export async function GET(request: Request, { params }: RouteParams) {
@@ -79,6 +84,8 @@ export async function GET(request: Request, { params }: RouteParams) {
         notes: baseline.notes,
         scrapeHorizonDays: baseline.scrapeHorizonDays,
         maxScrapeDate: baseline.maxScrapeDate,
+        scrapeIntervalHours: baseline.scrapeIntervalHours,
+        adaptiveSchedule: baseline.adaptiveSchedule,
       });
     }
 
@@ -140,6 +147,8 @@ export async function PUT(request: Request, { params }: RouteParams) {
       notes: body.notes ?? null,
       scrapeHorizonDays: body.scrapeHorizonDays ?? 60,
       maxScrapeDate,
+      scrapeIntervalHours: body.scrapeIntervalHours ?? null,
+      adaptiveSchedule: body.adaptiveSchedule ?? true,
       updatedAt: new Date(),
     };
 
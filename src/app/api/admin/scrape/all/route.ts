@@ -1,61 +1,14 @@
 /**
  * Admin Scrape All API
- * Triggers ALL scrapers via Inngest (including Playwright ones that may fail on Vercel)
+ * Triggers every registered venue's scraper via Inngest
+ * (Playwright scrapers report that they can't run on Vercel rather than scraping)
  *
  * POST /api/admin/scrape/all
  */
 
 import { auth } from "@clerk/nextjs/server";
 import { inngest } from "@/inngest/client";
-
-// All cinema IDs that have scrapers configured
-// Note: Playwright-based scrapers will fail gracefully on Vercel
-const ALL_CINEMA_IDS = [
-  // Independent cinemas (Cheerio-based - work on Vercel)
-  "rio-dalston",
-  "prince-charles",
-  "ica",
-  "genesis",
-  "peckhamplex",
-  "nickel",
-  "garden",
-  "castle",
-  "rich-mix",
-  // Independent cinemas (Playwright-based - may fail on Vercel)
-  "bfi-southbank",
-  "barbican",
-  "electric-portobello",
-  "lexi",
-  "phoenix",
-  // Chain cinemas (Playwright-based - may fail on Vercel)
-  // These trigger full chain scrapes
-  "curzon-soho", // Triggers curzon chain scraper
-  "picturehouse-central", // Triggers picturehouse chain scraper
-  "everyman-belsize-park", // Triggers everyman chain scraper
-];
-
-// Map cinema IDs to their scraper IDs
-const CINEMA_TO_SCRAPER: Record<string, string> = {
-  // Independent cinemas
-  "rio-dalston": "rio",
-  "prince-charles": "pcc",
-  "ica": "ica",
-  "barbican": "barbican",
-  "genesis": "genesis",
-  "peckhamplex": "peckhamplex",
-  "nickel": "nickel",
-  "electric-portobello": "electric",
-  "lexi": "lexi",
-  "garden": "garden",
-  "castle": "castle",
-  "phoenix": "phoenix",
-  "rich-mix": "rich-mix",
-  "bfi-southbank": "bfi",
-  // Chain cinemas (one representative per chain)
-  "curzon-soho": "curzon",
-  "picturehouse-central": "picturehouse",
-  "everyman-belsize-park": "everyman",
-};
+import { getRegisteredVenues } from "@/scrapers/registry";
 
 export async function POST() {
   // Verify admin auth
@@ -65,12 +18,13 @@ export async function POST() {
   }
 
   try {
-    // Create events for all scrapers
-    const events = ALL_CINEMA_IDS.map((cinemaId) => ({
+    // One event per venue - chain venues are scraped individually
+    const venues = getRegisteredVenues();
+    const events = venues.map((venue) => ({
       name: "scraper/run" as const,
       data: {
-        cinemaId,
-        scraperId: CINEMA_TO_SCRAPER[cinemaId] || cinemaId,
+        cinemaId: venue.id,
+        scraperId: venue.scraperId,
         triggeredBy: userId,
       },
     }));
@@ -83,7 +37,7 @@ export async function POST() {
       message: `Queued ${events.length} scrapers`,
       count: events.length,
       eventIds: ids,
-      cinemas: ALL_CINEMA_IDS,
+      cinemas: venues.map((venue) => venue.id),
     });
   } catch (error) {
     console.error("Error triggering all scrapers:", error);
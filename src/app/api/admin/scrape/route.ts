@@ -6,61 +6,7 @@
 
 import { auth } from "@clerk/nextjs/server";
 import { inngest } from "@/inngest/client";
-
-// Map cinema IDs (from database) to CLI scraper IDs
-const CINEMA_TO_SCRAPER: Record<string, string> = {
-  // Independent cinemas
-  "rio-dalston": "rio",
-  "prince-charles": "pcc",
-  "ica": "ica",
-  "barbican": "barbican",
-  "genesis": "genesis",
-  "peckhamplex": "peckhamplex",
-  "nickel": "nickel",
-  "electric-portobello": "electric",
-  "lexi": "lexi",
-  "garden": "garden",
-  "castle": "castle",
-  "phoenix": "phoenix",
-  "rich-mix": "rich-mix",
-  "bfi-southbank": "bfi",
-  "close-up": "close-up",
-  "cine-lumiere": "cine-lumiere",
-  "arthouse-crouch-end": "arthouse",
-  "regent-street": "regent-street",
-  "riverside-studios": "riverside",
-  "olympic": "olympic",
-  "david-lean": "david-lean",
-  // Chain cinemas use full chain scraper
-  // Curzon venues
-  "curzon-soho": "curzon",
-  "curzon-mayfair": "curzon",
-  "curzon-bloomsbury": "curzon",
-  "curzon-victoria": "curzon",
-  "curzon-hoxton": "curzon",
-  "curzon-kingston": "curzon",
-  "curzon-aldgate": "curzon",
-  // Picturehouse venues
-  "picturehouse-central": "picturehouse",
-  "hackney-picturehouse": "picturehouse",
-  "crouch-end-picturehouse": "picturehouse",
-  "east-dulwich-picturehouse": "picturehouse",
-  "greenwich-picturehouse": "picturehouse",
-  "finsbury-park-picturehouse": "picturehouse",
-  "gate-picturehouse": "picturehouse",
-  "picturehouse-ritzy": "picturehouse",
-  "clapham-picturehouse": "picturehouse",
-  // Everyman venues
-  "everyman-belsize-park": "everyman",
-  "everyman-baker-street": "everyman",
-  "everyman-canary-wharf": "everyman",
-  "everyman-hampstead": "everyman",
-  "everyman-kings-cross": "everyman",
-  "everyman-maida-vale": "everyman",
-  "everyman-muswell-hill": "everyman",
-  "everyman-screen-on-the-green": "everyman",
-  "everyman-stratford": "everyman",
-};
+import { getScraperForCinema, resolveCinemaId } from "@/scrapers/registry";
 
 export async function POST(request: Request) {
   // Verify admin auth
@@ -76,8 +22,8 @@ export async function POST(request: Request) {
       return Response.json({ error: "Missing cinemaId" }, { status: 400 });
     }
 
-    const scraperId = CINEMA_TO_SCRAPER[cinemaId];
-    if (!scraperId) {
+    const scraper = getScraperForCinema(cinemaId);
+    if (!scraper) {
       return Response.json(
         { error: `No scraper configured for cinema: ${cinemaId}` },
         { status: 400 }
@@ -85,10 +31,11 @@ export async function POST(request: Request) {
     }
 
     // Send event to Inngest to trigger the scraper
+    const scraperId = scraper.id;
     const { ids } = await inngest.send({
       name: "scraper/run",
       data: {
-        cinemaId,
+        cinemaId: resolveCinemaId(cinemaId),
         scraperId,
         triggeredBy: userId,
       },
@@ -0,0 +1,78 @@
+/**
+ * Admin Screening Changes API
+ * GET /api/admin/screening-changes - Field-level changes detected on re-scrape
+ *
+ * Query params:
+ * - since: ISO datetime (default: 7 days ago)
+ * - cinemaId: limit to one cinema
+ * - screeningId: history for a single screening
+ * - field: datetime | screen | format | eventType | bookingUrl | availabilityStatus
+ * - limit: max rows (default 200, max 1000)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { subDays } from "date-fns";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { TRACKED_SCREENING_FIELDS } from "@/scrapers/utils/screening-changes";
+import {
+  getScreeningChanges,
+  getScreeningChangeCounts,
+  type ScreeningChangeFilters,
+} from "@/db/repositories";
+
+const querySchema = z.object({
+  since: z.string().datetime().optional(),
+  cinemaId: z.string().max(100).optional(),
+  screeningId: z.string().max(100).optional(),
+  field: z.enum(TRACKED_SCREENING_FIELDS as [string, ...string[]]).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin auth
+    const { userId } = await auth();
+    if (!userId) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const parseResult = querySchema.safeParse({
+      since: searchParams.get("since") || undefined,
+      cinemaId: searchParams.get("cinemaId") || undefined,
+      screeningId: searchParams.get("screeningId") || undefined,
+      field: searchParams.get("field") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    if (!parseResult.success) {
+      throw new BadRequestError("Invalid query parameters", parseResult.error.flatten());
+    }
+
+    const params = parseResult.data;
+    const filters: ScreeningChangeFilters = {
+      since: params.since ? new Date(params.since) : subDays(new Date(), 7),
+      cinemaId: params.cinemaId,
+      screeningId: params.screeningId,
+      field: params.field as ScreeningChangeFilters["field"],
+    };
+
+    const [changes, counts] = await Promise.all([
+      getScreeningChanges(filters, params.limit),
+      getScreeningChangeCounts(filters),
+    ]);
+
+    return NextResponse.json({
+      changes,
+      meta: {
+        total: changes.length,
+        since: filters.since.toISOString(),
+        countsByField: counts,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/admin/screening-changes");
+  }
+}
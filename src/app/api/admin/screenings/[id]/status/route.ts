@@ -0,0 +1,80 @@
+/**
+ * Admin Screening Status API
+ * PATCH - Override the lifecycle status of a screening flagged as missing
+ *
+ * Setting a status pins it (status_overridden) so later scrapes leave it alone.
+ * Sending `status: null` clears the override and hands the screening back to
+ * the pipeline as scheduled.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { screenings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { recordScreeningChanges } from "@/scrapers/utils/screening-changes";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const statusSchema = z.object({
+  status: z.enum(["scheduled", "cancelled"]).nullable(),
+});
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    // Verify admin auth
+    const { userId } = await auth();
+    if (!userId) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: screeningId } = await params;
+
+    const parseResult = statusSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      throw new BadRequestError("Invalid request body", parseResult.error.flatten());
+    }
+    const { status } = parseResult.data;
+
+    const [existing] = await db
+      .select({
+        id: screenings.id,
+        cinemaId: screenings.cinemaId,
+        status: screenings.status,
+      })
+      .from(screenings)
+      .where(eq(screenings.id, screeningId))
+      .limit(1);
+
+    if (!existing) {
+      return Response.json({ error: "Screening not found" }, { status: 404 });
+    }
+
+    const newStatus = status ?? "scheduled";
+    const now = new Date();
+
+    await db
+      .update(screenings)
+      .set({
+        status: newStatus,
+        statusOverridden: status !== null,
+        missedScrapeCount: 0,
+        ...(existing.status !== newStatus && { statusChangedAt: now }),
+        updatedAt: now,
+      })
+      .where(eq(screenings.id, screeningId));
+
+    if (existing.status !== newStatus) {
+      await recordScreeningChanges(screeningId, existing.cinemaId, [
+        { field: "status", oldValue: existing.status, newValue: newStatus },
+      ]);
+    }
+
+    return Response.json({ success: true, status: newStatus, overridden: status !== null });
+  } catch (error) {
+    return handleApiError(error, "PATCH /api/admin/screenings/[id]/status");
+  }
+}
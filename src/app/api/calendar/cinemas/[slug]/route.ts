@@ -0,0 +1,65 @@
+/**
+ * Cinema Calendar Feed
+ * GET /api/calendar/cinemas/[slug] - Subscribable .ics feed of a cinema's upcoming screenings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { addDays } from "date-fns";
+import { db } from "@/db";
+import { cinemas } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { NotFoundError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { buildCalendar, calendarResponse, screeningToEvent } from "@/lib/ical";
+import { getScreenings } from "@/db/repositories";
+
+// How far ahead the feed looks
+const FEED_HORIZON_DAYS = 60;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.public, prefix: "calendar" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const { slug } = await params;
+
+    const [cinema] = await db
+      .select({ id: cinemas.id, name: cinemas.name })
+      .from(cinemas)
+      .where(eq(cinemas.id, slug))
+      .limit(1);
+
+    if (!cinema) {
+      throw new NotFoundError(`Cinema not found: ${slug}`);
+    }
+
+    const now = new Date();
+    const results = await getScreenings({
+      startDate: now,
+      endDate: addDays(now, FEED_HORIZON_DAYS),
+      cinemaIds: [cinema.id],
+    });
+
+    const body = buildCalendar({
+      name: `${cinema.name} | Pictures`,
+      description: `Upcoming screenings at ${cinema.name}`,
+      events: results.map(screeningToEvent),
+    });
+
+    return calendarResponse(body, cinema.id);
+  } catch (error) {
+    return handleApiError(error, "GET /api/calendar/cinemas/[slug]");
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Festival Calendar Feed
+ * GET /api/calendar/festivals/[slug] - Subscribable .ics feed of a festival programme
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { addDays } from "date-fns";
+import { db } from "@/db";
+import { festivals } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { NotFoundError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { buildCalendar, calendarResponse, screeningToEvent } from "@/lib/ical";
+import { getScreeningsByFestival } from "@/db/repositories";
+
+// Festivals are announced well ahead, so look further than cinema feeds
+const FEED_HORIZON_DAYS = 365;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.public, prefix: "calendar" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const { slug } = await params;
+
+    const [festival] = await db
+      .select({ name: festivals.name, description: festivals.description })
+      .from(festivals)
+      .where(eq(festivals.slug, slug))
+      .limit(1);
+
+    if (!festival) {
+      throw new NotFoundError(`Festival not found: ${slug}`);
+    }
+
+    const now = new Date();
+    const { screenings } = await getScreeningsByFestival(slug, {
+      startDate: now,
+      endDate: addDays(now, FEED_HORIZON_DAYS),
+    });
+
+    const body = buildCalendar({
+      name: `${festival.name} | Pictures`,
+      description: festival.description ?? undefined,
+      events: screenings.map(screeningToEvent),
+    });
+
+    return calendarResponse(body, slug);
+  } catch (error) {
+    return handleApiError(error, "GET /api/calendar/festivals/[slug]");
+  }
+}
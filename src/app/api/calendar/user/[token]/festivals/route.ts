@@ -0,0 +1,42 @@
+/**
+ * Festival Schedule Calendar Feed
+ * GET /api/calendar/user/[token]/festivals - Festival screenings the user has booked
+ *
+ * Authenticated by the secret feed token rather than a session, since
+ * calendar apps fetch subscriptions without cookies.
+ */
+
+import { NextRequest } from "next/server";
+import { NotFoundError, handleApiError } from "@/lib/api-errors";
+import { buildCalendar, calendarResponse, screeningToEvent } from "@/lib/ical";
+import {
+  getUserIdForFeedToken,
+  getBookedFestivalFeedScreenings,
+} from "@/db/repositories";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const userId = await getUserIdForFeedToken(token);
+    if (!userId) {
+      throw new NotFoundError("Calendar feed not found");
+    }
+
+    const results = await getBookedFestivalFeedScreenings(userId);
+
+    const body = buildCalendar({
+      name: "My Festival Bookings | Pictures",
+      description: "Festival screenings you've marked as booked on Pictures",
+      events: results.map(screeningToEvent),
+    });
+
+    // Personal feed - never cache in shared caches
+    return calendarResponse(body, "festival-bookings", "private, max-age=900");
+  } catch (error) {
+    return handleApiError(error, "GET /api/calendar/user/[token]/festivals");
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Watchlist Plan Calendar Feed
+ * GET /api/calendar/user/[token]/plan - Screenings the user accepted from the watchlist planner
+ *
+ * Authenticated by the secret feed token rather than a session, since
+ * calendar apps fetch subscriptions without cookies.
+ */
+
+import { NextRequest } from "next/server";
+import { NotFoundError, handleApiError } from "@/lib/api-errors";
+import { buildCalendar, calendarResponse, screeningToEvent } from "@/lib/ical";
+import { getUserIdForFeedToken, getPlanFeedScreenings } from "@/db/repositories";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const userId = await getUserIdForFeedToken(token);
+    if (!userId) {
+      throw new NotFoundError("Calendar feed not found");
+    }
+
+    const results = await getPlanFeedScreenings(userId);
+
+    const body = buildCalendar({
+      name: "My Plan | Pictures",
+      description: "Screenings you've planned with the Pictures watchlist planner",
+      events: results.map(screeningToEvent),
+    });
+
+    // Personal feed - never cache in shared caches
+    return calendarResponse(body, "my-plan", "private, max-age=900");
+  } catch (error) {
+    return handleApiError(error, "GET /api/calendar/user/[token]/plan");
+  }
+}
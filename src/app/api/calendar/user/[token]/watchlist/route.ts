@@ -0,0 +1,42 @@
+/**
+ * Watchlist Calendar Feed
+ * GET /api/calendar/user/[token]/watchlist - Upcoming screenings of the user's want-to-see films
+ *
+ * Authenticated by the secret feed token rather than a session, since
+ * calendar apps fetch subscriptions without cookies.
+ */
+
+import { NextRequest } from "next/server";
+import { NotFoundError, handleApiError } from "@/lib/api-errors";
+import { buildCalendar, calendarResponse, screeningToEvent } from "@/lib/ical";
+import {
+  getUserIdForFeedToken,
+  getWatchlistFeedScreenings,
+} from "@/db/repositories";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const userId = await getUserIdForFeedToken(token);
+    if (!userId) {
+      throw new NotFoundError("Calendar feed not found");
+    }
+
+    const results = await getWatchlistFeedScreenings(userId);
+
+    const body = buildCalendar({
+      name: "My Watchlist | Pictures",
+      description: "Upcoming screenings of films on your Pictures watchlist",
+      events: results.map(screeningToEvent),
+    });
+
+    // Personal feed - never cache in shared caches
+    return calendarResponse(body, "watchlist", "private, max-age=900");
+  } catch (error) {
+    return handleApiError(error, "GET /api/calendar/user/[token]/watchlist");
+  }
+}
@@ -27,6 +27,11 @@ vi.mock("@/db/schema", () => ({
   },
 }));
 
+// Mock the daily count recording (see cinema-baseline.test.ts)
+vi.mock("@/db/repositories/cinema-baseline", () => ({
+  recordDailyScreeningCounts: vi.fn(() => Promise.resolve(3)),
+}));
+
 // Mock drizzle-orm operators
 vi.mock("drizzle-orm", () => ({
   lt: vi.fn((field, value) => ({ field, value })),
@@ -102,9 +107,25 @@ describe("Cleanup Cron Route", () => {
     const response = await GET(request);
     const body = await response.json();
 
+    expect(body.results.dailyCountsRecorded).toBe(3);
     expect(body.results).toHaveProperty("pastScreeningsRemoved");
     expect(body.results).toHaveProperty("orphanedFilmsRemoved");
     expect(body.results).toHaveProperty("errors");
     expect(body.timestamp).toBeDefined();
   });
+
+  it("records daily counts before removing past screenings", async () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.resetModules();
+
+    const { db } = await import("@/db");
+    const { recordDailyScreeningCounts } = await import("@/db/repositories/cinema-baseline");
+    const { GET } = await import("./route");
+
+    await GET(new NextRequest("http://localhost/api/cron/cleanup"));
+
+    expect(vi.mocked(recordDailyScreeningCounts).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(db.delete).mock.invocationCallOrder[0]
+    );
+  });
 });
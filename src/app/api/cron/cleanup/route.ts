@@ -2,6 +2,7 @@
  * Cleanup Cron Job
  *
  * Scheduled task to clean up old/expired data:
+ * - Record past days' screening counts for the cinema baselines
  * - Remove past screenings (older than 24 hours)
  * - Remove orphaned film records (no screenings)
  *
@@ -12,6 +13,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { screenings, films } from "@/db/schema";
 import { lt, notInArray } from "drizzle-orm";
+import { recordDailyScreeningCounts } from "@/db/repositories/cinema-baseline";
+import { startOfLondonDay } from "@/lib/cinema-baselines";
+
+/** Past days re-recorded each run, so a missed run doesn't lose a day */
+const RECORD_COUNTS_DAYS = 7;
 
 /**
  * Verify the request is from Vercel Cron
@@ -31,13 +37,28 @@ export async function GET(request: NextRequest) {
   }
 
   const results = {
+    dailyCountsRecorded: 0,
     pastScreeningsRemoved: 0,
     orphanedFilmsRemoved: 0,
     errors: [] as string[],
   };
 
   try {
-    // 1. Remove past screenings (older than 24 hours to account for timezone differences)
+    // 1. Keep per-day counts before the screenings go (see recalculateCinemaBaselines)
+    const now = new Date();
+    results.dailyCountsRecorded = await recordDailyScreeningCounts(
+      startOfLondonDay(now, -RECORD_COUNTS_DAYS),
+      startOfLondonDay(now)
+    );
+    console.log(`[Cleanup] Recorded ${results.dailyCountsRecorded} cinema daily counts`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    results.errors.push(`Failed to record daily counts: ${message}`);
+    console.error("[Cleanup] Error recording daily counts:", error);
+  }
+
+  try {
+    // 2. Remove past screenings (older than 24 hours to account for timezone differences)
     const cutoffDate = new Date();
     cutoffDate.setHours(cutoffDate.getHours() - 24);
 
@@ -55,7 +76,7 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // 2. Remove orphaned films (films with no screenings)
+    // 3. Remove orphaned films (films with no screenings)
     // First, get all film IDs that have at least one screening
     const filmsWithScreenings = await db
       .selectDistinct({ filmId: screenings.filmId })
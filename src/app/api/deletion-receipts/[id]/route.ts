@@ -0,0 +1,50 @@
+/**
+ * Deletion Receipt API Route
+ * GET /api/deletion-receipts/[id] - Look up an account deletion receipt
+ *
+ * Public, so a receipt can be checked after the account is gone. Receipts
+ * hold no personal data, only a hash of the user ID. `verified` says whether
+ * the stored receipt still matches its digest (signed with a server secret,
+ * so only we can check it) - false for receipts saved unsigned, or while the
+ * secret isn't set.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, NotFoundError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { verifyDeletionReceipt } from "@/lib/account-data";
+import { getDeletionReceipt } from "@/db/repositories";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.public, prefix: "deletion-receipts" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const id = z.string().uuid().safeParse((await params).id);
+    if (!id.success) {
+      throw new BadRequestError("Invalid receipt ID", id.error.flatten());
+    }
+
+    const receipt = await getDeletionReceipt(id.data);
+    if (!receipt) {
+      throw new NotFoundError(`Receipt not found: ${id.data}`);
+    }
+
+    return NextResponse.json({ receipt, verified: verifyDeletionReceipt(receipt) });
+  } catch (error) {
+    return handleApiError(error, "GET /api/deletion-receipts/[id]");
+  }
+}
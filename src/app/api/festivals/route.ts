@@ -7,25 +7,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { festivals, userFestivalInterests } from "@/db/schema";
 import { eq, and, gte, asc, sql } from "drizzle-orm";
-import { z } from "zod";
 import { BadRequestError, handleApiError } from "@/lib/api-errors";
 import { getCurrentUserId } from "@/lib/auth";
-
-// Input validation schema
-const querySchema = z.object({
-  year: z.coerce.number().int().min(2020).max(2030).optional(),
-  active: z.enum(["true", "false"]).optional(),
-  upcoming: z.enum(["true", "false"]).optional(),
-  genre: z.string().max(50).optional(),
-  limit: z.coerce.number().int().min(1).max(100).optional(),
-});
+import { festivalsQuerySchema } from "@/lib/public-api/schemas";
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
 
     // Validate query parameters
-    const parseResult = querySchema.safeParse({
+    const parseResult = festivalsQuerySchema.safeParse({
       year: searchParams.get("year") || undefined,
       active: searchParams.get("active") || undefined,
       upcoming: searchParams.get("upcoming") || undefined,
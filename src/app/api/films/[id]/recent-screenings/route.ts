@@ -0,0 +1,58 @@
+/**
+ * Recent Screenings API Route
+ * GET /api/films/[id]/recent-screenings - Screenings of a film in the last two weeks
+ *
+ * Used by the diary to ask which screening a film was seen at.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { subDays } from "date-fns";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { getScreenings } from "@/db/repositories";
+
+const LOOKBACK_DAYS = 14;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.public, prefix: "recent-screenings" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests", screenings: [] },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      throw new BadRequestError("Invalid film ID");
+    }
+
+    const now = new Date();
+    const screenings = await getScreenings({
+      filmIds: [id],
+      startDate: subDays(now, LOOKBACK_DAYS),
+      endDate: now,
+    });
+
+    return NextResponse.json({
+      screenings: screenings.reverse().map((s) => ({
+        id: s.id,
+        datetime: s.datetime,
+        format: s.format,
+        cinema: s.cinema,
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/films/[id]/recent-screenings");
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { films, screenings, cinemas } from "@/db/schema";
-import { ilike, or, sql, asc, gte, lte, eq, and } from "drizzle-orm";
+import { asc, gte, lte, eq, and } from "drizzle-orm";
 import { addDays } from "date-fns";
 import { z } from "zod";
+import { searchCinemas, searchFilms } from "@/db/repositories";
 import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
 import type { CinemaAddress } from "@/types/cinema";
 
@@ -110,59 +111,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ results: [], cinemas: [] });
     }
 
-    const searchPattern = `%${query}%`;
-
+    // Ranked full-text + fuzzy matching on title, original title, director and cast
     const [filmResults, cinemaResults] = await Promise.all([
-      db
-        .selectDistinct({
-          id: films.id,
-          title: films.title,
-          year: films.year,
-          directors: films.directors,
-          posterUrl: films.posterUrl,
-        })
-        .from(films)
-        .innerJoin(screenings, eq(films.id, screenings.filmId))
-        .where(
-          and(
-            gte(screenings.datetime, startDate),
-            lte(screenings.datetime, endDate),
-            or(
-              ilike(films.title, searchPattern),
-              sql`array_to_string(${films.directors}, ', ') ILIKE ${searchPattern}`
-            )
-          )
-        )
-        .orderBy(asc(films.title))
-        .limit(50),
-      db
-        .select({
-          id: cinemas.id,
-          name: cinemas.name,
-          shortName: cinemas.shortName,
-          address: cinemas.address,
-        })
-        .from(cinemas)
-        .where(
-          and(
-            eq(cinemas.isActive, true),
-            or(
-              ilike(cinemas.name, searchPattern),
-              ilike(cinemas.shortName, searchPattern)
-            )
-          )
-        )
-        .orderBy(asc(cinemas.name))
-        .limit(10),
+      searchFilms(query, { limit: 50, showingWithinDays: 30 }),
+      searchCinemas(query, 10),
     ]);
 
-    const formattedCinemas = cinemaResults.map((cinema) => ({
-      ...cinema,
-      address: formatCinemaAddress(cinema.address),
-    }));
-
     return NextResponse.json(
-      { results: filmResults, cinemas: formattedCinemas },
+      { results: filmResults, cinemas: cinemaResults },
       {
         headers: {
           // Cache search results for 5 minutes
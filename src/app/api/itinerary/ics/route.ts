@@ -0,0 +1,55 @@
+/**
+ * Itinerary Calendar Download
+ * GET /api/itinerary/ics?ids=a,b,c - One-off .ics file of a planned itinerary
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { addDays, subDays } from "date-fns";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { buildCalendar, calendarResponse, screeningToEvent } from "@/lib/ical";
+import { getScreenings } from "@/db/repositories";
+
+const MAX_SCREENINGS = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.public, prefix: "calendar" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const ids = (request.nextUrl.searchParams.get("ids") ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (ids.length === 0 || ids.length > MAX_SCREENINGS) {
+      throw new BadRequestError(`Provide between 1 and ${MAX_SCREENINGS} screening IDs`);
+    }
+
+    const now = new Date();
+    const screenings = await getScreenings({
+      startDate: subDays(now, 1),
+      endDate: addDays(now, 365),
+      screeningIds: ids,
+    });
+
+    const body = buildCalendar({
+      name: "My Plan | Pictures",
+      description: "Screenings planned with the Pictures watchlist planner",
+      events: screenings.map(screeningToEvent),
+    });
+
+    return calendarResponse(body, "my-plan", "private, no-store");
+  } catch (error) {
+    return handleApiError(error, "GET /api/itinerary/ics");
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Watchlist Itinerary API Route
+ * POST /api/itinerary - Plan screenings of watchlist films into the user's free time
+ *
+ * The watchlist lives in the browser (and syncs when signed in), so the
+ * client sends the film IDs rather than this route reading them.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { addDays } from "date-fns";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { planItinerary } from "@/lib/itinerary-planner";
+import { getItineraryScreenings } from "@/db/repositories";
+
+/** Furthest ahead a window can end, and how far ahead rarity is judged */
+const PLANNING_HORIZON_DAYS = 60;
+
+const requestSchema = z.object({
+  filmIds: z.array(z.string().min(1)).min(1).max(200),
+  windows: z
+    .array(
+      z
+        .object({ start: z.coerce.date(), end: z.coerce.date() })
+        .refine((w) => w.end > w.start, { message: "Window must end after it starts" })
+    )
+    .min(1)
+    .max(14),
+  cinemaIds: z.array(z.string().min(1)).max(100).optional(),
+  home: z
+    .object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    })
+    .nullish(),
+  travelMode: z.enum(["transit", "walking", "bicycling"]).default("transit"),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.search, prefix: "itinerary" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const parsed = requestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid itinerary request", parsed.error.flatten());
+    }
+
+    const now = new Date();
+    const horizon = addDays(now, PLANNING_HORIZON_DAYS);
+    const { filmIds, windows, cinemaIds, home, travelMode } = parsed.data;
+
+    if (windows.some((w) => w.end > horizon)) {
+      throw new BadRequestError(`Windows must end within ${PLANNING_HORIZON_DAYS} days`);
+    }
+
+    const screenings = await getItineraryScreenings(filmIds, now, horizon);
+    const itinerary = planItinerary({ screenings, windows, cinemaIds, home, travelMode, now });
+
+    return NextResponse.json({ itinerary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/itinerary");
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Letterboxd Export API Route
+ * POST /api/letterboxd/export - Seen films or the watchlist as a Letterboxd import CSV
+ *
+ * The browser sends its film statuses (they live in localStorage); this adds
+ * the TMDB IDs, Letterboxd URLs and directors Letterboxd matches on.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { buildLetterboxdCsv } from "@/lib/letterboxd/export";
+import { ratingSchema } from "@/lib/sync/film-status-payload";
+import { getLetterboxdExportFilms } from "@/db/repositories";
+
+const requestSchema = z.object({
+  list: z.enum(["diary", "watchlist"]),
+  films: z
+    .array(
+      z.object({
+        filmId: z.string().min(1),
+        rating: ratingSchema.nullable().optional(),
+        seenAt: z.string().datetime().nullable().optional(),
+      })
+    )
+    .max(10000),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.sync, prefix: "letterboxd" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const parsed = requestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid export request", parsed.error.flatten());
+    }
+
+    const { list, films } = parsed.data;
+    const details = new Map(
+      (await getLetterboxdExportFilms(films.map((f) => f.filmId))).map((f) => [f.id, f])
+    );
+
+    const csv = buildLetterboxdCsv(
+      films.flatMap((f) => {
+        const film = details.get(f.filmId);
+        return film ? [{ ...film, rating: f.rating ?? null, seenAt: f.seenAt ?? null }] : [];
+      }),
+      list
+    );
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="pictures-letterboxd-${list}.csv"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "POST /api/letterboxd/export");
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Letterboxd Match API Route
+ * POST /api/letterboxd/match - Match rows from a Letterboxd export to our films
+ *
+ * The CSVs are parsed in the browser; only titles, years and IDs are sent.
+ * Film statuses live in the browser too, so nothing is saved here.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { matchLetterboxdEntries } from "@/db/repositories";
+
+const requestSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        key: z.string().min(1).max(600),
+        name: z.string().min(1).max(500),
+        year: z.number().int().min(1800).max(2100).nullable(),
+        letterboxdUrl: z.string().url().max(500).nullable(),
+        tmdbId: z.number().int().positive().nullable(),
+      })
+    )
+    .min(1)
+    .max(10000),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.sync, prefix: "letterboxd" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const parsed = requestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid Letterboxd entries", parsed.error.flatten());
+    }
+
+    const matches = await matchLetterboxdEntries(parsed.data.entries);
+    return NextResponse.json({ matches });
+  } catch (error) {
+    return handleApiError(error, "POST /api/letterboxd/match");
+  }
+}
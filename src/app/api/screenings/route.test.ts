@@ -34,6 +34,9 @@ vi.mock("@/db/schema", () => ({
   cinemas: {},
   festivalScreenings: {},
   festivals: {},
+  seasons: {},
+  seasonFilms: {},
+  apiKeys: {},
 }));
 
 import { GET } from "./route";
@@ -92,4 +95,29 @@ describe("Screenings API", () => {
       expect(response.headers.get("Retry-After")).toBe("30");
     });
   });
+
+  describe("query validation", () => {
+    it("should accept the SQL-evaluated filters", async () => {
+      const request = new NextRequest(
+        "http://localhost/api/screenings?decades=1970s&genres=Horror&timeFrom=17&timeTo=20&types=repertory,preview&accessibility=subtitled&availability=available,low&singleShowing=true&q=kubrick"
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should return 400 for an unknown programming type", async () => {
+      const request = new NextRequest("http://localhost/api/screenings?types=repertory,blockbuster");
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for an hour outside 0-23", async () => {
+      const request = new NextRequest("http://localhost/api/screenings?timeFrom=24");
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+    });
+  });
 });
@@ -4,32 +4,16 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { endOfDay, addDays } from "date-fns";
-import { z } from "zod";
-import type { ScreeningFormat } from "@/types/screening";
 import { BadRequestError, handleApiError } from "@/lib/api-errors";
 import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { screeningsQuerySchema } from "@/lib/public-api/schemas";
+import { toScreeningFilters } from "@/lib/public-api/screening-filters";
 import {
   getScreenings,
   getScreeningsByFestival,
   getScreeningsBySeason,
-  type ScreeningFilters,
 } from "@/db/repositories";
 
-// Input validation schema
-const querySchema = z.object({
-  startDate: z.string().datetime().optional(),
-  endDate: z.string().datetime().optional(),
-  cinemas: z.string().max(500).optional(), // comma-separated UUIDs
-  formats: z.string().max(200).optional(),
-  repertory: z.enum(["true", "false"]).optional(),
-  // Festival filtering
-  festival: z.string().max(100).optional(), // festival slug
-  festivalOnly: z.enum(["true", "false"]).optional(), // only show festival screenings
-  // Season filtering
-  season: z.string().max(100).optional(), // season slug (director retrospectives)
-});
-
 const CACHE_HEADERS = {
   "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
 };
@@ -52,7 +36,7 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
 
     // Validate query parameters
-    const parseResult = querySchema.safeParse({
+    const parseResult = screeningsQuerySchema.safeParse({
       startDate: searchParams.get("startDate") || undefined,
       endDate: searchParams.get("endDate") || undefined,
       cinemas: searchParams.get("cinemas") || undefined,
@@ -61,6 +45,17 @@ export async function GET(request: NextRequest) {
       festival: searchParams.get("festival") || undefined,
       festivalOnly: searchParams.get("festivalOnly") || undefined,
       season: searchParams.get("season") || undefined,
+      includeCancelled: searchParams.get("includeCancelled") || undefined,
+      decades: searchParams.get("decades") || undefined,
+      genres: searchParams.get("genres") || undefined,
+      timeFrom: searchParams.get("timeFrom") || undefined,
+      timeTo: searchParams.get("timeTo") || undefined,
+      types: searchParams.get("types") || undefined,
+      accessibility: searchParams.get("accessibility") || undefined,
+      availability: searchParams.get("availability") || undefined,
+      maxPrice: searchParams.get("maxPrice") || undefined,
+      singleShowing: searchParams.get("singleShowing") || undefined,
+      q: searchParams.get("q") || undefined,
     });
 
     if (!parseResult.success) {
@@ -72,22 +67,9 @@ export async function GET(request: NextRequest) {
 
     const params = parseResult.data;
 
-    // Parse filters with validated data
-    const startDate = params.startDate
-      ? new Date(params.startDate)
-      : new Date();
-    const endDate = params.endDate
-      ? new Date(params.endDate)
-      : endOfDay(addDays(new Date(), 14)); // Default: 2 weeks ahead
-
-    const filters: ScreeningFilters = {
-      startDate,
-      endDate,
-      cinemaIds: params.cinemas?.split(",").filter(Boolean),
-      formats: params.formats?.split(",").filter(Boolean) as ScreeningFormat[] | undefined,
-      isRepertory: params.repertory === "true" ? true : params.repertory === "false" ? false : undefined,
-      festivalOnly: params.festivalOnly === "true",
-    };
+    // Parse filters with validated data (default: now to 2 weeks ahead)
+    const filters = toScreeningFilters(params);
+    const { startDate, endDate } = filters;
 
     // Festival-specific query
     if (params.festival) {
@@ -1,6 +1,6 @@
 /**
  * Search API Tests
- * Tests rate limiting on GET endpoint
+ * Tests rate limiting and grouped results on GET endpoint
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
@@ -16,26 +16,13 @@ vi.mock("@/lib/rate-limit", () => ({
   },
 }));
 
-// Mock database
-vi.mock("@/db", () => ({
-  db: {
-    select: vi.fn().mockReturnThis(),
-    from: vi.fn().mockReturnThis(),
-    leftJoin: vi.fn().mockReturnThis(),
-    where: vi.fn().mockReturnThis(),
-    groupBy: vi.fn().mockReturnThis(),
-    orderBy: vi.fn().mockReturnThis(),
-    limit: vi.fn().mockResolvedValue([]),
-  },
-}));
-
-vi.mock("@/db/schema", () => ({
-  screenings: {},
-  films: {},
+vi.mock("@/db/repositories", () => ({
+  searchAll: vi.fn().mockResolvedValue({ films: [], people: [], cinemas: [], seasons: [] }),
 }));
 
 import { GET } from "./route";
 import { checkRateLimit } from "@/lib/rate-limit";
+import { searchAll } from "@/db/repositories";
 
 describe("Search API", () => {
   beforeEach(() => {
@@ -105,4 +92,32 @@ describe("Search API", () => {
       expect(data.films).toEqual([]);
     });
   });
+
+  describe("results", () => {
+    it("searches with the trimmed query and returns every group", async () => {
+      const film = { id: "f1", title: "In the Mood for Love", href: "/film/f1" };
+      const person = { name: "Tony Leung", roles: ["cast"], films: [], href: "/film/f1" };
+      vi.mocked(searchAll).mockResolvedValueOnce({
+        films: [film],
+        people: [person],
+        cinemas: [],
+        seasons: [],
+      } as never);
+
+      const request = new NextRequest("http://localhost/api/search?q=%20tony%20leung%20");
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(searchAll).toHaveBeenCalledWith("tony leung");
+      expect(data).toEqual({ films: [film], people: [person], cinemas: [], seasons: [] });
+    });
+
+    it("does not search for short queries", async () => {
+      const request = new NextRequest("http://localhost/api/search?q=%20a%20");
+      const response = await GET(request);
+
+      expect(await response.json()).toEqual({ films: [], people: [], cinemas: [], seasons: [] });
+      expect(searchAll).not.toHaveBeenCalled();
+    });
+  });
 });
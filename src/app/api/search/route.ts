@@ -1,13 +1,15 @@
 /**
  * Search API Route
- * Searches films by title with upcoming screening counts
+ * Ranked search across films (title, original title, director, cast), people,
+ * cinemas, and seasons/festivals, grouped by type for the search dialog
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/db";
-import { films, screenings } from "@/db/schema";
-import { ilike, sql, count } from "drizzle-orm";
+import { searchAll } from "@/db/repositories";
 import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { isSearchable } from "@/lib/search-query";
+
+const EMPTY_RESULTS = { films: [], people: [], cinemas: [], seasons: [] };
 
 export async function GET(request: NextRequest) {
   // Rate limit check
@@ -15,7 +17,7 @@ export async function GET(request: NextRequest) {
   const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.search, prefix: "search-legacy" });
   if (!rateLimitResult.success) {
     return NextResponse.json(
-      { error: "Too many requests", films: [] },
+      { error: "Too many requests", ...EMPTY_RESULTS },
       {
         status: 429,
         headers: { "Retry-After": String(rateLimitResult.resetIn) },
@@ -23,52 +25,18 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get("q");
+  const query = request.nextUrl.searchParams.get("q")?.trim().slice(0, 100);
 
-  if (!query || query.trim().length < 2) {
-    return NextResponse.json({ films: [] });
+  if (!isSearchable(query)) {
+    return NextResponse.json(EMPTY_RESULTS);
   }
 
-  const searchTerm = `%${query.trim()}%`;
-  const now = new Date();
-
-  // Search films and count upcoming screenings
-  const results = await db
-    .select({
-      id: films.id,
-      title: films.title,
-      year: films.year,
-      directors: films.directors,
-      posterUrl: films.posterUrl,
-      screeningCount: count(screenings.id),
-    })
-    .from(films)
-    .leftJoin(
-      screenings,
-      sql`${screenings.filmId} = ${films.id} AND ${screenings.datetime} >= ${now}`
-    )
-    .where(ilike(films.title, searchTerm))
-    .groupBy(films.id)
-    .orderBy(sql`COUNT(${screenings.id}) DESC`, films.title)
-    .limit(10);
+  const results = await searchAll(query);
 
-  return NextResponse.json(
-    {
-      films: results.map((r) => ({
-        id: r.id,
-        title: r.title,
-        year: r.year,
-        directors: r.directors,
-        posterUrl: r.posterUrl,
-        screeningCount: Number(r.screeningCount),
-      })),
+  return NextResponse.json(results, {
+    headers: {
+      // Cache for 5 minutes at edge, serve stale for 10 min while revalidating
+      "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
     },
-    {
-      headers: {
-        // Cache for 5 minutes at edge, serve stale for 10 min while revalidating
-        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
-      },
-    }
-  );
+  });
 }
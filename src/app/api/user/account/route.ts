@@ -0,0 +1,45 @@
+/**
+ * Account API Route
+ * DELETE /api/user/account - Delete the signed-in user's account and all their data
+ *
+ * Removes their database rows, PostHog person and Clerk account, and returns
+ * the deletion receipt. The body must be { "confirm": true }.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { deleteAccount } from "@/lib/account-deletion";
+
+const requestSchema = z.object({
+  confirm: z.literal(true),
+});
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.user, prefix: "account" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const userId = await requireAuth();
+    const parsed = requestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      throw new BadRequestError("Account deletion must be confirmed", parsed.error.flatten());
+    }
+
+    const receipt = await deleteAccount(userId, "self_service");
+    return NextResponse.json({ receipt });
+  } catch (error) {
+    return handleApiError(error, "DELETE /api/user/account");
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * User Calendar Feeds API Route
+ * GET /api/user/calendar-feeds - Get the user's personal feed URLs (creates a token on first use)
+ * POST /api/user/calendar-feeds - Rotate the feed token, invalidating existing subscriptions
+ */
+
+import { NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { getFeedUrl } from "@/lib/ical";
+import { getOrCreateFeedToken, rotateFeedToken } from "@/db/repositories";
+
+function buildFeedUrls(token: string) {
+  return {
+    watchlist: getFeedUrl(`/api/calendar/user/${token}/watchlist`),
+    festivals: getFeedUrl(`/api/calendar/user/${token}/festivals`),
+    plan: getFeedUrl(`/api/calendar/user/${token}/plan`),
+  };
+}
+
+export async function GET() {
+  try {
+    const userId = await requireAuth();
+    const token = await getOrCreateFeedToken(userId);
+
+    return NextResponse.json({ feeds: buildFeedUrls(token) });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/calendar-feeds");
+  }
+}
+
+export async function POST() {
+  try {
+    const userId = await requireAuth();
+    const token = await rotateFeedToken(userId);
+
+    return NextResponse.json({ success: true, feeds: buildFeedUrls(token) });
+  } catch (error) {
+    return handleApiError(error, "POST /api/user/calendar-feeds");
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Account Export API Route
+ * GET /api/user/export - Download everything stored about the signed-in user
+ *
+ * A zip of account.json plus CSVs of the lists (film statuses with ratings
+ * and notes, festival schedule and follows, planned screenings, preferences).
+ * ?format=json returns just the JSON.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { format } from "date-fns";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { buildAccountExportBundle } from "@/lib/account-data";
+import { getAccountExport } from "@/db/repositories";
+
+const querySchema = z.object({
+  format: z.enum(["zip", "json"]).default("zip"),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.sync, prefix: "export" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const userId = await requireAuth();
+    const parsed = querySchema.safeParse({
+      format: request.nextUrl.searchParams.get("format") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid format", parsed.error.flatten());
+    }
+
+    const data = await getAccountExport(userId);
+    const filename = `pictures-data-${format(data.exportedAt, "yyyy-MM-dd")}`;
+
+    if (parsed.data.format === "json") {
+      return NextResponse.json(data, {
+        headers: {
+          "Content-Disposition": `attachment; filename="${filename}.json"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return new NextResponse(Buffer.from(buildAccountExportBundle(data)), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${filename}.zip"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/export");
+  }
+}
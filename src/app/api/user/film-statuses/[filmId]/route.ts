@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/db";
-import { userFilmStatuses } from "@/db/schema";
-import { and, eq } from "drizzle-orm";
+import { z } from "zod";
 import { requireAuth, unauthorizedResponse } from "@/lib/auth";
 import { syncUserToPostHog } from "@/lib/posthog-supabase-sync";
+import { applyFilmStatusWrites } from "@/db/repositories";
+import { filmStatusPayloadSchema } from "@/lib/sync/film-status-payload";
+
+// The film ID comes from the path
+const putBodySchema = filmStatusPayloadSchema.omit({ filmId: true });
+
+// When the client deleted it (defaults to now)
+const deletedAtSchema = z.string().datetime().optional();
 
 interface RouteParams {
   params: Promise<{ filmId: string }>;
@@ -16,70 +22,23 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const userId = await requireAuth();
     const { filmId } = await params;
-    const body = await request.json();
-
-    const {
-      status,
-      addedAt,
-      seenAt,
-      rating,
-      notes,
-      filmTitle,
-      filmYear,
-      filmDirectors,
-      filmPosterUrl,
-      updatedAt,
-    } = body;
-
-    // Check if entry exists
-    const existing = await db.query.userFilmStatuses.findFirst({
-      where: and(
-        eq(userFilmStatuses.userId, userId),
-        eq(userFilmStatuses.filmId, filmId)
-      ),
-    });
-
-    if (existing) {
-      // Update existing
-      await db
-        .update(userFilmStatuses)
-        .set({
-          status,
-          addedAt: addedAt ? new Date(addedAt) : undefined,
-          seenAt: seenAt ? new Date(seenAt) : null,
-          rating: rating ?? null,
-          notes: notes ?? null,
-          filmTitle: filmTitle ?? null,
-          filmYear: filmYear ?? null,
-          filmDirectors: filmDirectors ?? null,
-          filmPosterUrl: filmPosterUrl ?? null,
-          updatedAt: new Date(updatedAt || Date.now()),
-        })
-        .where(eq(userFilmStatuses.id, existing.id));
-    } else {
-      // Insert new
-      await db.insert(userFilmStatuses).values({
-        userId,
-        filmId,
-        status,
-        addedAt: new Date(addedAt || Date.now()),
-        seenAt: seenAt ? new Date(seenAt) : null,
-        rating: rating ?? null,
-        notes: notes ?? null,
-        filmTitle: filmTitle ?? null,
-        filmYear: filmYear ?? null,
-        filmDirectors: filmDirectors ?? null,
-        filmPosterUrl: filmPosterUrl ?? null,
-        updatedAt: new Date(updatedAt || Date.now()),
-      });
+    const parseResult = putBodySchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: parseResult.error.flatten() },
+        { status: 400 }
+      );
     }
 
+    // Skipped if the server has a newer edit or deletion
+    const result = await applyFilmStatusWrites(userId, [{ ...parseResult.data, filmId }]);
+
     // Sync updated user metrics to PostHog (async, non-blocking)
     syncUserToPostHog(userId).catch((err) => {
       console.error("[PostHog Sync] Failed to sync user data:", err);
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, applied: result.upserted > 0 });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return unauthorizedResponse();
@@ -91,20 +50,24 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
 /**
  * DELETE /api/user/film-statuses/[filmId] - Remove a film status
+ * Optional ?deletedAt= is when the client removed it, so newer edits survive
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const userId = await requireAuth();
     const { filmId } = await params;
 
-    await db
-      .delete(userFilmStatuses)
-      .where(
-        and(
-          eq(userFilmStatuses.userId, userId),
-          eq(userFilmStatuses.filmId, filmId)
-        )
-      );
+    const parsedDeletedAt = deletedAtSchema.safeParse(
+      request.nextUrl.searchParams.get("deletedAt") ?? undefined
+    );
+    if (!parsedDeletedAt.success) {
+      return NextResponse.json({ error: "Invalid deletedAt" }, { status: 400 });
+    }
+
+    // Leaves a tombstone so the deletion reaches the user's other devices
+    await applyFilmStatusWrites(userId, [], [
+      { filmId, deletedAt: parsedDeletedAt.data ?? new Date().toISOString() },
+    ]);
 
     // Sync updated user metrics to PostHog (async, non-blocking)
     syncUserToPostHog(userId).catch((err) => {
@@ -0,0 +1,25 @@
+/**
+ * Film Status Changes API Route
+ * GET /api/user/film-statuses/changes?since= - Statuses and deletions written after a cursor
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { cursorSchema } from "@/lib/sync/film-status-changes";
+import { getFilmStatusChanges } from "@/db/repositories";
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    const since = cursorSchema.safeParse(request.nextUrl.searchParams.get("since") ?? undefined);
+    if (!since.success) {
+      throw new BadRequestError("Invalid cursor", since.error.flatten());
+    }
+
+    const changes = await getFilmStatusChanges(userId, since.data);
+    return NextResponse.json(changes);
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/film-statuses/changes");
+  }
+}
@@ -1,28 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { userFilmStatuses } from "@/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { requireAuth, unauthorizedResponse } from "@/lib/auth";
 import { z } from "zod";
-
-// Validation schema for film status
-const filmStatusSchema = z.object({
-  filmId: z.string().uuid(),
-  status: z.enum(["want_to_see", "seen", "not_interested"]),
-  addedAt: z.string().datetime(),
-  seenAt: z.string().datetime().nullable().optional(),
-  rating: z.number().int().min(1).max(5).nullable().optional(),
-  notes: z.string().max(1000).nullable().optional(),
-  filmTitle: z.string().max(500).nullable().optional(),
-  filmYear: z.number().int().min(1800).max(2100).nullable().optional(),
-  filmDirectors: z.array(z.string().max(200)).nullable().optional(),
-  filmPosterUrl: z.string().url().max(500).nullable().optional(),
-  updatedAt: z.string().datetime(),
-});
+import { applyFilmStatusWrites } from "@/db/repositories";
+import { filmStatusPayloadSchema } from "@/lib/sync/film-status-payload";
+import {
+  FILM_STATUS_CHANGES_PAGE_SIZE,
+  filmStatusTombstoneSchema,
+} from "@/lib/sync/film-status-changes";
 
 // Validation for POST body
 const postBodySchema = z.object({
-  statuses: z.array(filmStatusSchema).max(500), // Limit batch size
+  statuses: z.array(filmStatusPayloadSchema).max(FILM_STATUS_CHANGES_PAGE_SIZE), // Limit batch size
+  deleted: z.array(filmStatusTombstoneSchema).max(FILM_STATUS_CHANGES_PAGE_SIZE).default([]),
 });
 
 /**
@@ -52,16 +44,12 @@ export async function GET() {
   }
 }
 
-// Type exported for use in other modules if needed
-export type FilmStatusPayload = z.infer<typeof filmStatusSchema>;
-
 /**
- * POST /api/user/film-statuses - Bulk upsert film statuses
+ * POST /api/user/film-statuses - Push changed film statuses and deletions
  * Used for syncing local state to server
  *
- * Optimized: Uses batch fetch + conditional upsert instead of N+1 queries
- * Before: 2N queries (check + update/insert per status)
- * After: 2 queries (fetch all existing + batch upsert)
+ * Each write only applies if it's newer than what the server has for that
+ * film, including a deletion, so a stale device can't bring a status back
  */
 export async function POST(request: NextRequest) {
   try {
@@ -77,82 +65,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { statuses } = parseResult.data;
-
-    if (statuses.length === 0) {
-      return NextResponse.json({ success: true, results: { processed: 0, skipped: 0 } });
-    }
-
-    // 1. Fetch all existing statuses for this user in ONE query
-    const existingStatuses = await db.query.userFilmStatuses.findMany({
-      where: eq(userFilmStatuses.userId, userId),
-    });
-
-    // Build a map for O(1) lookups
-    const existingMap = new Map(
-      existingStatuses.map((s) => [s.filmId, s])
-    );
-
-    // 2. Filter statuses to only those that need updating (incoming is newer)
-    const toUpsert = statuses.filter((status) => {
-      const existing = existingMap.get(status.filmId);
-      if (!existing) return true; // New entry, always insert
-
-      // Only update if incoming timestamp is newer
-      const existingTime = new Date(existing.updatedAt).getTime();
-      const incomingTime = new Date(status.updatedAt).getTime();
-      return incomingTime > existingTime;
-    });
-
-    if (toUpsert.length === 0) {
-      return NextResponse.json({
-        success: true,
-        results: { processed: 0, skipped: statuses.length }
-      });
-    }
-
-    // 3. Batch upsert using ON CONFLICT DO UPDATE
-    // This handles both inserts and updates in a single query
-    await db
-      .insert(userFilmStatuses)
-      .values(
-        toUpsert.map((status) => ({
-          userId,
-          filmId: status.filmId,
-          status: status.status,
-          addedAt: new Date(status.addedAt),
-          seenAt: status.seenAt ? new Date(status.seenAt) : null,
-          rating: status.rating ?? null,
-          notes: status.notes ?? null,
-          filmTitle: status.filmTitle ?? null,
-          filmYear: status.filmYear ?? null,
-          filmDirectors: status.filmDirectors ?? null,
-          filmPosterUrl: status.filmPosterUrl ?? null,
-          updatedAt: new Date(status.updatedAt),
-        }))
-      )
-      .onConflictDoUpdate({
-        target: [userFilmStatuses.userId, userFilmStatuses.filmId],
-        set: {
-          status: sql`excluded.status`,
-          addedAt: sql`excluded.added_at`,
-          seenAt: sql`excluded.seen_at`,
-          rating: sql`excluded.rating`,
-          notes: sql`excluded.notes`,
-          filmTitle: sql`excluded.film_title`,
-          filmYear: sql`excluded.film_year`,
-          filmDirectors: sql`excluded.film_directors`,
-          filmPosterUrl: sql`excluded.film_poster_url`,
-          updatedAt: sql`excluded.updated_at`,
-        },
-      });
+    const { statuses, deleted } = parseResult.data;
+    const result = await applyFilmStatusWrites(userId, statuses, deleted);
 
     return NextResponse.json({
       success: true,
       results: {
-        processed: toUpsert.length,
-        skipped: statuses.length - toUpsert.length
-      }
+        processed: result.upserted + result.deleted,
+        deleted: result.deleted,
+        skipped: result.skipped,
+      },
     });
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
@@ -0,0 +1,115 @@
+/**
+ * Film Status Stream API Route
+ * GET /api/user/film-statuses/stream?since= - Server-sent events with film status changes
+ *
+ * Sends a `changes` event (the same shape as /changes) whenever the user's
+ * statuses change, with the cursor as the event ID. The stream closes before
+ * the function time limit; EventSource reconnects with Last-Event-ID and
+ * carries on from there. Clients only hold a stream open while their tab is
+ * visible.
+ */
+
+import { NextRequest } from "next/server";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { cursorSchema, type FilmStatusChanges } from "@/lib/sync/film-status-changes";
+import { getFilmStatusChanges } from "@/db/repositories";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/** How often the database is checked for changes */
+const POLL_INTERVAL_MS = 10_000;
+
+/** Close a little before maxDuration so the client reconnects cleanly */
+const STREAM_DURATION_MS = 50_000;
+
+/** Comment lines keep proxies from closing an idle stream */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/** Tells EventSource how soon to reconnect after the stream closes */
+const RECONNECT_MS = 1000;
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+function changesEvent(changes: FilmStatusChanges): string {
+  return `event: changes\nid: ${changes.cursor}\ndata: ${JSON.stringify(changes)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    // A reconnecting EventSource sends the last cursor it saw
+    const since = cursorSchema.safeParse(
+      request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("since") ?? undefined
+    );
+    if (!since.success) {
+      throw new BadRequestError("Invalid cursor", since.error.flatten());
+    }
+
+    const { signal } = request;
+    const encoder = new TextEncoder();
+    let cursor = since.data;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (text: string) => controller.enqueue(encoder.encode(text));
+        const closeAt = Date.now() + STREAM_DURATION_MS;
+        let lastSentAt = Date.now();
+        // Changes past the cursor are sent before they settle; don't repeat them
+        let sentThrough = cursor;
+
+        try {
+          send(`retry: ${RECONNECT_MS}\n\n`);
+
+          while (!signal.aborted && Date.now() < closeAt) {
+            const changes = await getFilmStatusChanges(userId, cursor);
+
+            if (changes.latest > sentThrough || changes.cursor > cursor) {
+              cursor = changes.cursor;
+              sentThrough = Math.max(sentThrough, changes.latest);
+              send(changesEvent(changes));
+              lastSentAt = Date.now();
+              if (changes.hasMore) continue;
+            } else if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+              send(": ping\n\n");
+              lastSentAt = Date.now();
+            }
+
+            await sleep(POLL_INTERVAL_MS, signal);
+          }
+        } catch (error) {
+          // The client reconnects from its last event ID
+          if (!signal.aborted) {
+            console.error("[Film status stream] Stopped:", error);
+          }
+        }
+
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/film-statuses/stream");
+  }
+}
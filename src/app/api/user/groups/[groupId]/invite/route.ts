@@ -0,0 +1,27 @@
+/**
+ * Watch Group Invite API Route
+ * POST /api/user/groups/[groupId]/invite - New invite link; old links stop working (owner)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { rotateWatchGroupInvite } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId } = await params;
+    await requireWatchGroupRole(groupId, userId, "owner");
+
+    const inviteToken = await rotateWatchGroupInvite(groupId);
+    return NextResponse.json({ inviteToken });
+  } catch (error) {
+    return handleApiError(error, "POST /api/user/groups/[groupId]/invite");
+  }
+}
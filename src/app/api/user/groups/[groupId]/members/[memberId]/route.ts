@@ -0,0 +1,36 @@
+/**
+ * Watch Group Member API Route
+ * DELETE /api/user/groups/[groupId]/members/[memberId] - Leave the group, or
+ * remove someone from it (owner)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { BadRequestError, handleApiError, NotFoundError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { removeWatchGroupMember } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string; memberId: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId, memberId } = await params;
+    const leaving = memberId === userId;
+    const role = await requireWatchGroupRole(groupId, userId, leaving ? undefined : "owner");
+
+    if (leaving && role === "owner") {
+      throw new BadRequestError("Owners can't leave their group - delete it instead");
+    }
+
+    if (!(await removeWatchGroupMember(groupId, memberId))) {
+      throw new NotFoundError("Member not found");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "DELETE /api/user/groups/[groupId]/members/[memberId]");
+  }
+}
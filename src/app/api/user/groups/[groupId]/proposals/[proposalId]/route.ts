@@ -0,0 +1,36 @@
+/**
+ * Watch Group Proposal API Route
+ * DELETE /api/user/groups/[groupId]/proposals/[proposalId] - Withdraw a
+ * proposal (whoever proposed it, or the owner)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ForbiddenError, handleApiError, NotFoundError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { deleteWatchGroupProposal, getWatchGroupProposal } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string; proposalId: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId, proposalId } = await params;
+    const role = await requireWatchGroupRole(groupId, userId);
+
+    const proposal = await getWatchGroupProposal(groupId, proposalId);
+    if (!proposal) {
+      throw new NotFoundError("Proposal not found");
+    }
+    if (proposal.proposedBy !== userId && role !== "owner") {
+      throw new ForbiddenError("Only whoever proposed it or the group owner can remove this");
+    }
+
+    await deleteWatchGroupProposal(proposalId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "DELETE /api/user/groups/[groupId]/proposals/[proposalId]");
+  }
+}
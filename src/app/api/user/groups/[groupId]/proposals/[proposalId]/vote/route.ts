@@ -0,0 +1,42 @@
+/**
+ * Watch Group Vote API Route
+ * PUT /api/user/groups/[groupId]/proposals/[proposalId]/vote - Vote yes,
+ * maybe or no on a proposed screening (null clears the vote)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError, NotFoundError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { getWatchGroupProposal, setWatchGroupVote } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string; proposalId: string }>;
+}
+
+const voteSchema = z.object({
+  vote: z.enum(["yes", "maybe", "no"]).nullable(),
+});
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId, proposalId } = await params;
+    await requireWatchGroupRole(groupId, userId);
+
+    const parsed = voteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid vote", parsed.error.flatten());
+    }
+
+    if (!(await getWatchGroupProposal(groupId, proposalId))) {
+      throw new NotFoundError("Proposal not found");
+    }
+
+    await setWatchGroupVote(proposalId, userId, parsed.data.vote);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "PUT /api/user/groups/[groupId]/proposals/[proposalId]/vote");
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Watch Group Proposals API Route
+ * POST /api/user/groups/[groupId]/proposals - Propose a screening for the group
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError, NotFoundError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { addWatchGroupProposal } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const proposalSchema = z.object({
+  screeningId: z.string().min(1),
+  note: z.string().trim().max(500).optional(),
+});
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId } = await params;
+    await requireWatchGroupRole(groupId, userId);
+
+    const parsed = proposalSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid proposal", parsed.error.flatten());
+    }
+
+    const proposalId = await addWatchGroupProposal(
+      groupId,
+      userId,
+      parsed.data.screeningId,
+      parsed.data.note || null
+    );
+    if (!proposalId) {
+      throw new NotFoundError("Screening not found or already started");
+    }
+
+    return NextResponse.json({ proposalId }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "POST /api/user/groups/[groupId]/proposals");
+  }
+}
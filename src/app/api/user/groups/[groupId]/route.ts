@@ -0,0 +1,111 @@
+/**
+ * Watch Group API Route
+ * GET /api/user/groups/[groupId] - Members, combined watchlists and proposals
+ * PATCH /api/user/groups/[groupId] - Rename the group (owner)
+ * DELETE /api/user/groups/[groupId] - Delete the group (owner)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { combineWatchlists, GROUP_NAME_MAX_LENGTH, rankProposals, tallyVotes } from "@/lib/watch-groups";
+import {
+  deleteWatchGroup,
+  getUpcomingScreeningCounts,
+  getWatchGroup,
+  getWatchGroupMembers,
+  getWatchGroupProposals,
+  getWatchGroupWants,
+  renameWatchGroup,
+} from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const renameSchema = z.object({
+  name: z.string().trim().min(1).max(GROUP_NAME_MAX_LENGTH),
+});
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId } = await params;
+    const role = await requireWatchGroupRole(groupId, userId);
+
+    const now = new Date();
+    const [group, members, proposals] = await Promise.all([
+      getWatchGroup(groupId),
+      getWatchGroupMembers(groupId),
+      getWatchGroupProposals(groupId, now),
+    ]);
+
+    const memberIds = members.map((m) => m.userId);
+    const wants = await getWatchGroupWants(memberIds);
+    const combined = combineWatchlists(memberIds, wants);
+    const upcoming = await getUpcomingScreeningCounts(combined.map((f) => f.filmId), now);
+    const details = new Map(wants.map((w) => [w.filmId, w]));
+
+    return NextResponse.json({
+      group: {
+        id: group!.id,
+        name: group!.name,
+        inviteToken: group!.inviteToken,
+        createdAt: group!.createdAt,
+        role,
+      },
+      currentUserId: userId,
+      members,
+      films: combined.map((film) => ({
+        ...film,
+        year: details.get(film.filmId)?.year ?? null,
+        posterUrl: details.get(film.filmId)?.posterUrl ?? null,
+        upcomingCount: upcoming.get(film.filmId)?.count ?? 0,
+        nextScreening: upcoming.get(film.filmId)?.next ?? null,
+      })),
+      proposals: rankProposals(
+        proposals.map((proposal) => ({
+          ...proposal,
+          datetime: proposal.screening.datetime,
+          tally: tallyVotes(memberIds, proposal.votes),
+          myVote: proposal.votes.find((v) => v.userId === userId)?.vote ?? null,
+        }))
+      ),
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/groups/[groupId]");
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId } = await params;
+    await requireWatchGroupRole(groupId, userId, "owner");
+
+    const parsed = renameSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid group", parsed.error.flatten());
+    }
+
+    await renameWatchGroup(groupId, parsed.data.name);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "PATCH /api/user/groups/[groupId]");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId } = await params;
+    await requireWatchGroupRole(groupId, userId, "owner");
+
+    await deleteWatchGroup(groupId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "DELETE /api/user/groups/[groupId]");
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Watch Group Screenings API Route
+ * GET /api/user/groups/[groupId]/screenings?filmId= - Upcoming screenings of a
+ * film, to pick one to propose
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { addDays } from "date-fns";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { requireWatchGroupRole } from "@/lib/watch-group-access";
+import { getScreenings } from "@/db/repositories";
+
+interface RouteParams {
+  params: Promise<{ groupId: string }>;
+}
+
+const HORIZON_DAYS = 60;
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await requireAuth();
+    const { groupId } = await params;
+    await requireWatchGroupRole(groupId, userId);
+
+    const filmId = request.nextUrl.searchParams.get("filmId");
+    if (!filmId) {
+      throw new BadRequestError("filmId is required");
+    }
+
+    const now = new Date();
+    const screenings = await getScreenings({
+      filmIds: [filmId],
+      startDate: now,
+      endDate: addDays(now, HORIZON_DAYS),
+    });
+
+    return NextResponse.json({ screenings });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/groups/[groupId]/screenings");
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Join Watch Group API Route
+ * POST /api/user/groups/join - Join a group with an invite link token
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, NotFoundError, handleApiError } from "@/lib/api-errors";
+import { getCurrentUserDisplayName, requireAuth } from "@/lib/auth";
+import { checkRateLimit, getClientIP, RATE_LIMITS } from "@/lib/rate-limit";
+import { MAX_GROUP_MEMBERS } from "@/lib/watch-groups";
+import { joinWatchGroup } from "@/db/repositories";
+
+const joinSchema = z.object({
+  token: z.string().min(1).max(100),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limited so invite tokens can't be guessed
+    const ip = getClientIP(request);
+    const rateLimitResult = checkRateLimit(ip, { ...RATE_LIMITS.user, prefix: "group-join" });
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: "Too many requests" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimitResult.resetIn) },
+        }
+      );
+    }
+
+    const userId = await requireAuth();
+    const parsed = joinSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid invite", parsed.error.flatten());
+    }
+
+    const result = await joinWatchGroup(parsed.data.token, userId, await getCurrentUserDisplayName());
+    if (!result) {
+      throw new NotFoundError("This invite link is no longer valid");
+    }
+    if (result.status === "full") {
+      throw new BadRequestError(`This group already has ${MAX_GROUP_MEMBERS} members`);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error, "POST /api/user/groups/join");
+  }
+}
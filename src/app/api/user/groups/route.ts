@@ -0,0 +1,46 @@
+/**
+ * Watch Groups API Route
+ * GET /api/user/groups - Groups the user belongs to
+ * POST /api/user/groups - Create a group (the user becomes its owner)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { getCurrentUserDisplayName, requireAuth } from "@/lib/auth";
+import { GROUP_NAME_MAX_LENGTH, MAX_GROUPS_PER_USER } from "@/lib/watch-groups";
+import { countOwnedWatchGroups, createWatchGroup, listWatchGroups } from "@/db/repositories";
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(GROUP_NAME_MAX_LENGTH),
+});
+
+export async function GET() {
+  try {
+    const userId = await requireAuth();
+    const groups = await listWatchGroups(userId);
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/groups");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    const parsed = createSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid group", parsed.error.flatten());
+    }
+
+    if ((await countOwnedWatchGroups(userId)) >= MAX_GROUPS_PER_USER) {
+      throw new BadRequestError(`You can own up to ${MAX_GROUPS_PER_USER} groups`);
+    }
+
+    const group = await createWatchGroup(userId, parsed.data.name, await getCurrentUserDisplayName());
+    return NextResponse.json({ group: { id: group.id, name: group.name } }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "POST /api/user/groups");
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * User Itinerary API Route
+ * GET /api/user/itinerary - Upcoming screenings in the user's accepted plan
+ * POST /api/user/itinerary - Add screenings to the plan
+ * DELETE /api/user/itinerary - Remove screenings (or clear the plan when no IDs are sent)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { addDays, subDays } from "date-fns";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import {
+  addPlannedScreenings,
+  getPlannedScreenings,
+  removePlannedScreenings,
+} from "@/db/repositories";
+
+const addSchema = z.object({
+  screeningIds: z.array(z.string().min(1)).min(1).max(100),
+});
+
+const removeSchema = z.object({
+  screeningIds: z.array(z.string().min(1)).max(100).optional(),
+});
+
+export async function GET() {
+  try {
+    const userId = await requireAuth();
+    const now = new Date();
+    const screenings = await getPlannedScreenings(userId, subDays(now, 1), addDays(now, 365));
+
+    return NextResponse.json({ screenings });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/itinerary");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    const parsed = addSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid plan", parsed.error.flatten());
+    }
+
+    const added = await addPlannedScreenings(userId, parsed.data.screeningIds);
+    return NextResponse.json({ success: true, added });
+  } catch (error) {
+    return handleApiError(error, "POST /api/user/itinerary");
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    const parsed = removeSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid plan", parsed.error.flatten());
+    }
+
+    const removed = await removePlannedScreenings(userId, parsed.data.screeningIds);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    return handleApiError(error, "DELETE /api/user/itinerary");
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * User Notification Settings API Route
+ * GET /api/user/notifications - Get the user's watchlist notification opt-ins
+ * PUT /api/user/notifications - Save them
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import { getNotificationSettings, updateNotificationSettings } from "@/db/repositories";
+
+const settingsSchema = z.object({
+  newScreenings: z.boolean(),
+  lastChance: z.boolean(),
+  lastChanceDays: z.number().int().min(1).max(30),
+  sellingFast: z.boolean(),
+});
+
+export async function GET() {
+  try {
+    const userId = await requireAuth();
+    const settings = await getNotificationSettings(userId);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/notifications");
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    const parsed = settingsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid notification settings", parsed.error.flatten());
+    }
+
+    const settings = await updateNotificationSettings(userId, parsed.data);
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    return handleApiError(error, "PUT /api/user/notifications");
+  }
+}
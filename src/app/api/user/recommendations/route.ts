@@ -0,0 +1,52 @@
+/**
+ * Recommendations API Route
+ * GET /api/user/recommendations - Upcoming films the user might like, with the reasons why
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BadRequestError, handleApiError } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth";
+import {
+  DEFAULT_RECOMMENDATION_LIMIT,
+  MAX_RECOMMENDATION_LIMIT,
+  recommendFilms,
+} from "@/lib/recommendations";
+import { getRecommendationCandidates, getTasteSignals } from "@/db/repositories";
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_RECOMMENDATION_LIMIT).default(DEFAULT_RECOMMENDATION_LIMIT),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await requireAuth();
+    const parsed = querySchema.safeParse({
+      limit: request.nextUrl.searchParams.get("limit") ?? undefined,
+    });
+    if (!parsed.success) {
+      throw new BadRequestError("Invalid limit", parsed.error.flatten());
+    }
+
+    const [signals, candidates] = await Promise.all([getTasteSignals(userId), getRecommendationCandidates()]);
+    const scored = recommendFilms(signals, candidates, parsed.data.limit);
+
+    const recommendations = scored.map(({ film, score, reasons }) => ({
+      film: {
+        id: film.id,
+        title: film.title,
+        year: film.year,
+        directors: film.directors,
+        posterUrl: film.posterUrl,
+      },
+      score,
+      reasons: reasons.map((reason) => reason.text),
+      nextScreening: film.nextScreening,
+      upcomingCount: film.upcomingCount,
+    }));
+
+    return NextResponse.json({ recommendations });
+  } catch (error) {
+    return handleApiError(error, "GET /api/user/recommendations");
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { db } from "@/db";
 import { users, userFilmStatuses, userPreferences } from "@/db/schema";
 import { eq } from "drizzle-orm";
@@ -9,36 +10,46 @@ import type { StoredPreferences, StoredFilters } from "@/db/schema/user-preferen
 import { RateLimitError, handleApiError } from "@/lib/api-errors";
 import { captureServerEvent, setServerUserProperties } from "@/lib/posthog-server";
 import { syncUserToPostHog } from "@/lib/posthog-supabase-sync";
-
-interface FilmStatusPayload {
-  filmId: string;
-  status: "want_to_see" | "seen" | "not_interested";
-  addedAt: string;
-  seenAt?: string | null;
-  rating?: number | null;
-  notes?: string | null;
-  filmTitle?: string | null;
-  filmYear?: number | null;
-  filmDirectors?: string[] | null;
-  filmPosterUrl?: string | null;
-  updatedAt: string;
-}
+import { applyFilmStatusWrites, getFilmStatusCursor } from "@/db/repositories";
+import {
+  filmStatusPayloadSchema,
+  rowToPayload,
+  type FilmStatusPayload,
+} from "@/lib/sync/film-status-payload";
+import { filmStatusTombstoneSchema } from "@/lib/sync/film-status-changes";
 
 interface SyncRequest {
-  filmStatuses: FilmStatusPayload[];
+  filmStatuses: unknown[];
+  /** Statuses deleted on the client since its last sync */
+  deletedFilmStatuses?: unknown[];
   preferences: StoredPreferences | null;
   persistedFilters: StoredFilters | null;
   preferencesUpdatedAt: string | null;
 }
 
+/**
+ * Parse each item, dropping (and logging) the ones that don't match
+ */
+function parseEach<T>(items: unknown[] | undefined, schema: z.ZodType<T>, label: string): T[] {
+  return (items ?? []).flatMap((raw) => {
+    const parsed = schema.safeParse(raw);
+    if (!parsed.success) {
+      console.warn(`[Sync] Skipping invalid ${label}:`, parsed.error.issues[0]?.message);
+      return [];
+    }
+    return [parsed.data];
+  });
+}
+
 /**
  * POST /api/user/sync - Full bidirectional sync
  *
  * This endpoint:
  * 1. Ensures the user record exists
- * 2. Merges client film statuses with server (timestamp-based)
+ * 2. Merges client film statuses and deletions with server (timestamp-based)
  * 3. Merges client preferences with server (timestamp-based)
- * 4. Returns the merged data for client to apply
+ * 4. Returns the merged data for client to apply, with the change cursor
+ *    to stream film status changes from
  */
 export async function POST(request: NextRequest) {
   try {
@@ -93,90 +104,23 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // 2. Merge film statuses
+    // 2. Merge film statuses (newest wins, deletions included)
+    // Skip malformed entries rather than failing the whole sync
+    const clientStatuses = parseEach(body.filmStatuses, filmStatusPayloadSchema, "film status");
+    const clientDeletions = parseEach(body.deletedFilmStatuses, filmStatusTombstoneSchema, "deletion");
+
+    await applyFilmStatusWrites(userId, clientStatuses, clientDeletions);
+
+    // Read the cursor before the statuses: anything written in between is
+    // sent again as a change, rather than missed
+    const filmStatusCursor = await getFilmStatusCursor(userId);
     const serverStatuses = await db.query.userFilmStatuses.findMany({
       where: eq(userFilmStatuses.userId, userId),
     });
 
     const mergedStatuses: Record<string, FilmStatusPayload> = {};
-
-    // First, add all server statuses
     for (const status of serverStatuses) {
-      mergedStatuses[status.filmId] = {
-        filmId: status.filmId,
-        status: status.status,
-        addedAt: status.addedAt.toISOString(),
-        seenAt: status.seenAt?.toISOString() || null,
-        rating: status.rating,
-        notes: status.notes,
-        filmTitle: status.filmTitle,
-        filmYear: status.filmYear,
-        filmDirectors: status.filmDirectors,
-        filmPosterUrl: status.filmPosterUrl,
-        updatedAt: status.updatedAt.toISOString(),
-      };
-    }
-
-    // Then, merge client statuses (newer wins)
-    const statusesToUpsert: FilmStatusPayload[] = [];
-
-    for (const clientStatus of body.filmStatuses) {
-      const serverStatus = mergedStatuses[clientStatus.filmId];
-
-      if (!serverStatus) {
-        // New on client, add to merged and upsert
-        mergedStatuses[clientStatus.filmId] = clientStatus;
-        statusesToUpsert.push(clientStatus);
-      } else {
-        // Compare timestamps
-        const clientTime = new Date(clientStatus.updatedAt).getTime();
-        const serverTime = new Date(serverStatus.updatedAt).getTime();
-
-        if (clientTime > serverTime) {
-          // Client is newer - update server and merged
-          mergedStatuses[clientStatus.filmId] = clientStatus;
-          statusesToUpsert.push(clientStatus);
-        }
-        // else: server is newer - already in mergedStatuses
-      }
-    }
-
-    // Upsert client changes to server
-    for (const status of statusesToUpsert) {
-      const existing = serverStatuses.find((s) => s.filmId === status.filmId);
-
-      if (existing) {
-        await db
-          .update(userFilmStatuses)
-          .set({
-            status: status.status,
-            addedAt: new Date(status.addedAt),
-            seenAt: status.seenAt ? new Date(status.seenAt) : null,
-            rating: status.rating,
-            notes: status.notes,
-            filmTitle: status.filmTitle,
-            filmYear: status.filmYear,
-            filmDirectors: status.filmDirectors,
-            filmPosterUrl: status.filmPosterUrl,
-            updatedAt: new Date(status.updatedAt),
-          })
-          .where(eq(userFilmStatuses.id, existing.id));
-      } else {
-        await db.insert(userFilmStatuses).values({
-          userId,
-          filmId: status.filmId,
-          status: status.status,
-          addedAt: new Date(status.addedAt),
-          seenAt: status.seenAt ? new Date(status.seenAt) : null,
-          rating: status.rating,
-          notes: status.notes,
-          filmTitle: status.filmTitle,
-          filmYear: status.filmYear,
-          filmDirectors: status.filmDirectors,
-          filmPosterUrl: status.filmPosterUrl,
-          updatedAt: new Date(status.updatedAt),
-        });
-      }
+      mergedStatuses[status.filmId] = rowToPayload(status);
     }
 
     // 3. Merge preferences
@@ -247,6 +191,7 @@ export async function POST(request: NextRequest) {
       success: true,
       isNewUser,
       filmStatuses: mergedStatuses,
+      filmStatusCursor,
       preferences: mergedPreferences,
       persistedFilters: mergedFilters,
       preferencesUpdatedAt,
@@ -0,0 +1,27 @@
+/**
+ * Public API: Cinema
+ * GET /api/v1/cinemas/[id] - Get an active cinema (API key required)
+ */
+
+import { getPublicCinema } from "@/db/repositories";
+import { NotFoundError } from "@/lib/api-errors";
+import { itemResponse, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import { parseFields } from "@/lib/public-api/pagination";
+import { cinemaResource, itemQuerySchema } from "@/lib/public-api/schemas";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withApiKey<RouteParams>("GET /api/v1/cinemas/[id]", async (request, { params }) => {
+  const { id } = await params;
+  const { fields } = parseQuery(request, itemQuerySchema);
+  const selected = parseFields(fields, cinemaResource.keyof().options);
+
+  const cinema = await getPublicCinema(id);
+  if (!cinema) {
+    throw new NotFoundError(`Cinema not found: ${id}`);
+  }
+
+  return itemResponse(cinema, selected);
+});
@@ -0,0 +1,22 @@
+/**
+ * Public API: Cinemas
+ * GET /api/v1/cinemas - List active cinemas (API key required)
+ */
+
+import { listPublicCinemas } from "@/db/repositories";
+import { listResponse, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import { decodeCursor, parseFields, resolvePageSize, toPage } from "@/lib/public-api/pagination";
+import { cinemaResource, v1CinemasQuerySchema } from "@/lib/public-api/schemas";
+
+export const GET = withApiKey("GET /api/v1/cinemas", async (request) => {
+  const params = parseQuery(request, v1CinemasQuerySchema);
+  const fields = parseFields(params.fields, cinemaResource.keyof().options);
+  const limit = resolvePageSize(params.limit);
+
+  const rows = await listPublicCinemas(
+    { chain: params.chain },
+    { after: params.cursor ? decodeCursor(params.cursor, 1) : null, limit }
+  );
+
+  return listResponse(toPage(rows, limit, (cinema) => [cinema.id]), fields);
+});
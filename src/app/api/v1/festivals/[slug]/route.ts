@@ -0,0 +1,27 @@
+/**
+ * Public API: Festival
+ * GET /api/v1/festivals/[slug] - Get a festival (API key required)
+ */
+
+import { getPublicFestival } from "@/db/repositories";
+import { NotFoundError } from "@/lib/api-errors";
+import { itemResponse, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import { parseFields } from "@/lib/public-api/pagination";
+import { festivalResource, itemQuerySchema } from "@/lib/public-api/schemas";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export const GET = withApiKey<RouteParams>("GET /api/v1/festivals/[slug]", async (request, { params }) => {
+  const { slug } = await params;
+  const { fields } = parseQuery(request, itemQuerySchema);
+  const selected = parseFields(fields, festivalResource.keyof().options);
+
+  const festival = await getPublicFestival(slug);
+  if (!festival) {
+    throw new NotFoundError(`Festival not found: ${slug}`);
+  }
+
+  return itemResponse(festival, selected);
+});
@@ -0,0 +1,33 @@
+/**
+ * Public API: Festivals
+ * GET /api/v1/festivals - List festivals by start date (API key required)
+ */
+
+import { listPublicFestivals } from "@/db/repositories";
+import { listResponse, parseBooleanParam, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import {
+  decodeCursor,
+  isDateCursor,
+  parseFields,
+  resolvePageSize,
+  toPage,
+} from "@/lib/public-api/pagination";
+import { festivalResource, v1FestivalsQuerySchema } from "@/lib/public-api/schemas";
+
+export const GET = withApiKey("GET /api/v1/festivals", async (request) => {
+  const params = parseQuery(request, v1FestivalsQuerySchema);
+  const fields = parseFields(params.fields, festivalResource.keyof().options);
+  const limit = resolvePageSize(params.limit);
+
+  const rows = await listPublicFestivals(
+    {
+      year: params.year,
+      isActive: parseBooleanParam(params.active),
+      upcoming: params.upcoming === "true",
+      genre: params.genre,
+    },
+    { after: params.cursor ? decodeCursor(params.cursor, 2, isDateCursor) : null, limit }
+  );
+
+  return listResponse(toPage(rows, limit, (festival) => [festival.startDate, festival.id]), fields);
+});
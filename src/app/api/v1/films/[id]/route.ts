@@ -0,0 +1,27 @@
+/**
+ * Public API: Film
+ * GET /api/v1/films/[id] - Get a film (API key required)
+ */
+
+import { getPublicFilm } from "@/db/repositories";
+import { NotFoundError } from "@/lib/api-errors";
+import { itemResponse, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import { parseFields } from "@/lib/public-api/pagination";
+import { filmResource, itemQuerySchema } from "@/lib/public-api/schemas";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withApiKey<RouteParams>("GET /api/v1/films/[id]", async (request, { params }) => {
+  const { id } = await params;
+  const { fields } = parseQuery(request, itemQuerySchema);
+  const selected = parseFields(fields, filmResource.keyof().options);
+
+  const film = await getPublicFilm(id);
+  if (!film) {
+    throw new NotFoundError(`Film not found: ${id}`);
+  }
+
+  return itemResponse(film, selected);
+});
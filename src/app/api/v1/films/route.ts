@@ -0,0 +1,26 @@
+/**
+ * Public API: Films
+ * GET /api/v1/films - List films (API key required)
+ */
+
+import { listPublicFilms } from "@/db/repositories";
+import { listResponse, parseBooleanParam, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import { decodeCursor, parseFields, resolvePageSize, toPage } from "@/lib/public-api/pagination";
+import { filmResource, v1FilmsQuerySchema } from "@/lib/public-api/schemas";
+
+export const GET = withApiKey("GET /api/v1/films", async (request) => {
+  const params = parseQuery(request, v1FilmsQuerySchema);
+  const fields = parseFields(params.fields, filmResource.keyof().options);
+  const limit = resolvePageSize(params.limit);
+
+  const rows = await listPublicFilms(
+    {
+      showing: params.showing === "true",
+      isRepertory: parseBooleanParam(params.repertory),
+      year: params.year,
+    },
+    { after: params.cursor ? decodeCursor(params.cursor, 1) : null, limit }
+  );
+
+  return listResponse(toPage(rows, limit, (film) => [film.id]), fields);
+});
@@ -0,0 +1,15 @@
+/**
+ * Public API: OpenAPI Document
+ * GET /api/v1/openapi.json - OpenAPI 3.1 description of /api/v1 (no key required)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/public-api/openapi";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: {
+      "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+    },
+  });
+}
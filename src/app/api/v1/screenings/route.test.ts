@@ -0,0 +1,182 @@
+/**
+ * Public Screenings API Tests
+ * Tests API key auth, per-key rate limiting, pagination and field selection
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: vi.fn().mockReturnValue({ success: true, remaining: 59, resetIn: 60 }),
+}));
+
+vi.mock("@/db/repositories/api-key", () => ({
+  findActiveApiKey: vi.fn(),
+}));
+
+vi.mock("@/db/repositories", () => ({
+  getScreeningsPage: vi.fn().mockResolvedValue([]),
+  getFestivalScreeningIds: vi.fn(),
+  getSeasonFilmIds: vi.fn(),
+}));
+
+import { GET } from "./route";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { findActiveApiKey } from "@/db/repositories/api-key";
+import { getFestivalScreeningIds, getScreeningsPage } from "@/db/repositories";
+import { decodeCursor, encodeCursor } from "@/lib/public-api/pagination";
+
+const apiKey = {
+  id: "key-1",
+  name: "Test",
+  keyPrefix: "pl_abcdefg",
+  rateLimitPerMinute: 120,
+  createdBy: null,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+};
+
+function screening(id: string, datetime: string) {
+  return {
+    id,
+    datetime: new Date(datetime),
+    format: null,
+    bookingUrl: `https://example.com/${id}`,
+    film: { id: "film-1", title: "Stalker" },
+    cinema: { id: "bfi-southbank", name: "BFI Southbank" },
+  };
+}
+
+function request(query = "", headers: Record<string, string> = { "x-api-key": "pl_test" }) {
+  return new NextRequest(`http://localhost/api/v1/screenings${query}`, { headers });
+}
+
+// The route takes no params, so an empty context object stands in for Next's
+const context = {};
+
+describe("GET /api/v1/screenings", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findActiveApiKey).mockResolvedValue(apiKey);
+  });
+
+  describe("authentication", () => {
+    it("returns 401 without a key", async () => {
+      const response = await GET(request("", {}), context);
+
+      expect(response.status).toBe(401);
+      expect(findActiveApiKey).not.toHaveBeenCalled();
+    });
+
+    it("returns 401 for an unknown or revoked key", async () => {
+      vi.mocked(findActiveApiKey).mockResolvedValueOnce(null);
+
+      const response = await GET(request("", { authorization: "Bearer pl_revoked" }), context);
+
+      expect(response.status).toBe(401);
+      expect(findActiveApiKey).toHaveBeenCalledWith("pl_revoked");
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("limits per key using the key's own limit", async () => {
+      const response = await GET(request(), context);
+
+      expect(response.status).toBe(200);
+      expect(checkRateLimit).toHaveBeenCalledWith(
+        "key-1",
+        expect.objectContaining({ limit: 120, windowSec: 60, prefix: "api-v1" })
+      );
+      expect(response.headers.get("X-RateLimit-Limit")).toBe("120");
+      expect(response.headers.get("X-RateLimit-Remaining")).toBe("59");
+    });
+
+    it("returns 429 when the key's limit is exceeded", async () => {
+      vi.mocked(checkRateLimit).mockReturnValueOnce({ success: false, remaining: 0, resetIn: 30 });
+
+      const response = await GET(request(), context);
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("30");
+      expect(getScreeningsPage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pagination", () => {
+    it("returns a next cursor when more rows exist", async () => {
+      vi.mocked(getScreeningsPage).mockResolvedValueOnce([
+        screening("s1", "2026-10-18T18:00:00Z"),
+        screening("s2", "2026-10-18T20:00:00Z"),
+        screening("s3", "2026-10-18T21:00:00Z"),
+      ] as never);
+
+      const response = await GET(request("?limit=2"), context);
+      const body = await response.json();
+
+      expect(getScreeningsPage).toHaveBeenCalledWith(expect.any(Object), { after: null, limit: 2 });
+      expect(body.data.map((s: { id: string }) => s.id)).toEqual(["s1", "s2"]);
+      expect(body.meta.count).toBe(2);
+      expect(decodeCursor(body.meta.nextCursor, 2)).toEqual(["2026-10-18T20:00:00.000Z", "s2"]);
+    });
+
+    it("passes the decoded cursor to the repository", async () => {
+      const cursor = encodeCursor(["2026-10-18T20:00:00.000Z", "s2"]);
+
+      const response = await GET(request(`?cursor=${cursor}`), context);
+      const body = await response.json();
+
+      expect(getScreeningsPage).toHaveBeenCalledWith(expect.any(Object), {
+        after: ["2026-10-18T20:00:00.000Z", "s2"],
+        limit: 50,
+      });
+      expect(body.meta.nextCursor).toBeNull();
+    });
+
+    it("rejects a malformed cursor", async () => {
+      const response = await GET(request(`?cursor=${encodeCursor(["soon", "s2"])}`), context);
+
+      expect(response.status).toBe(400);
+      expect(getScreeningsPage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("field selection", () => {
+    it("returns only the requested fields", async () => {
+      vi.mocked(getScreeningsPage).mockResolvedValueOnce([
+        screening("s1", "2026-10-18T18:00:00Z"),
+      ] as never);
+
+      const response = await GET(request("?fields=id,datetime"), context);
+      const body = await response.json();
+
+      expect(body.data).toEqual([{ id: "s1", datetime: "2026-10-18T18:00:00.000Z" }]);
+    });
+
+    it("rejects unknown fields", async () => {
+      const response = await GET(request("?fields=id,price"), context);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("scopes", () => {
+    it("returns 400 for an unknown festival", async () => {
+      vi.mocked(getFestivalScreeningIds).mockResolvedValueOnce(null);
+
+      const response = await GET(request("?festival=nope"), context);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("returns an empty page for a festival without screenings", async () => {
+      vi.mocked(getFestivalScreeningIds).mockResolvedValueOnce([]);
+
+      const response = await GET(request("?festival=bfi-lff-2026"), context);
+      const body = await response.json();
+
+      expect(body).toEqual({ data: [], meta: { count: 0, nextCursor: null } });
+      expect(getScreeningsPage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Public API: Screenings
+ * GET /api/v1/screenings - List screenings in time order (API key required)
+ *
+ * Takes the same filters as /api/screenings, plus `film` and pagination.
+ */
+
+import {
+  getFestivalScreeningIds,
+  getScreeningsPage,
+  getSeasonFilmIds,
+} from "@/db/repositories";
+import { BadRequestError } from "@/lib/api-errors";
+import { listResponse, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import {
+  decodeCursor,
+  isDateTimeCursor,
+  parseFields,
+  resolvePageSize,
+  toPage,
+} from "@/lib/public-api/pagination";
+import { screeningResource, v1ScreeningsQuerySchema } from "@/lib/public-api/schemas";
+import { toScreeningFilters } from "@/lib/public-api/screening-filters";
+
+export const GET = withApiKey("GET /api/v1/screenings", async (request) => {
+  const params = parseQuery(request, v1ScreeningsQuerySchema);
+  const fields = parseFields(params.fields, screeningResource.keyof().options);
+  const limit = resolvePageSize(params.limit);
+  const after = params.cursor ? decodeCursor(params.cursor, 2, isDateTimeCursor) : null;
+
+  let filmIds = params.film ? [params.film] : undefined;
+  let screeningIds: string[] | undefined;
+
+  if (params.festival) {
+    const festivalScreeningIds = await getFestivalScreeningIds(params.festival);
+    if (!festivalScreeningIds) {
+      throw new BadRequestError(`Festival not found: ${params.festival}`);
+    }
+    screeningIds = festivalScreeningIds;
+  }
+
+  if (params.season) {
+    const seasonFilmIds = await getSeasonFilmIds(params.season);
+    if (!seasonFilmIds) {
+      throw new BadRequestError(`Season not found: ${params.season}`);
+    }
+    filmIds = filmIds ? filmIds.filter((id) => seasonFilmIds.includes(id)) : seasonFilmIds;
+  }
+
+  // An empty scope would otherwise mean "no filter"
+  if (filmIds?.length === 0 || screeningIds?.length === 0) {
+    return listResponse({ data: [], nextCursor: null }, fields);
+  }
+
+  const rows = await getScreeningsPage(
+    { ...toScreeningFilters(params), filmIds, screeningIds },
+    { after, limit }
+  );
+
+  return listResponse(
+    toPage(rows, limit, (screening) => [screening.datetime.toISOString(), screening.id]),
+    fields
+  );
+});
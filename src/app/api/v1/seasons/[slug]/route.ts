@@ -0,0 +1,27 @@
+/**
+ * Public API: Season
+ * GET /api/v1/seasons/[slug] - Get a season (API key required)
+ */
+
+import { getPublicSeason } from "@/db/repositories";
+import { NotFoundError } from "@/lib/api-errors";
+import { itemResponse, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import { parseFields } from "@/lib/public-api/pagination";
+import { itemQuerySchema, seasonResource } from "@/lib/public-api/schemas";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+export const GET = withApiKey<RouteParams>("GET /api/v1/seasons/[slug]", async (request, { params }) => {
+  const { slug } = await params;
+  const { fields } = parseQuery(request, itemQuerySchema);
+  const selected = parseFields(fields, seasonResource.keyof().options);
+
+  const season = await getPublicSeason(slug);
+  if (!season) {
+    throw new NotFoundError(`Season not found: ${slug}`);
+  }
+
+  return itemResponse(season, selected);
+});
@@ -0,0 +1,28 @@
+/**
+ * Public API: Seasons
+ * GET /api/v1/seasons - List seasons by start date (API key required)
+ */
+
+import { listPublicSeasons } from "@/db/repositories";
+import { listResponse, parseBooleanParam, parseQuery, withApiKey } from "@/lib/public-api/handler";
+import {
+  decodeCursor,
+  isDateCursor,
+  parseFields,
+  resolvePageSize,
+  toPage,
+} from "@/lib/public-api/pagination";
+import { seasonResource, v1SeasonsQuerySchema } from "@/lib/public-api/schemas";
+
+export const GET = withApiKey("GET /api/v1/seasons", async (request) => {
+  const params = parseQuery(request, v1SeasonsQuerySchema);
+  const fields = parseFields(params.fields, seasonResource.keyof().options);
+  const limit = resolvePageSize(params.limit);
+
+  const rows = await listPublicSeasons(
+    { isActive: parseBooleanParam(params.active), upcoming: params.upcoming === "true" },
+    { after: params.cursor ? decodeCursor(params.cursor, 2, isDateCursor) : null, limit }
+  );
+
+  return listResponse(toPage(rows, limit, (season) => [season.startDate, season.id]), fields);
+});
@@ -3,19 +3,20 @@
  * Handles user lifecycle events from Clerk
  * - user.created: Track new signups, set initial properties
  * - user.updated: Sync profile changes to Supabase and PostHog
- * - user.deleted: Clean up user data (GDPR compliance)
+ * - user.deleted: Delete the user's data and PostHog person (GDPR compliance)
  * - session.created: Track login events
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { Webhook } from "svix";
 import { db } from "@/db";
-import { users, userFilmStatuses, userPreferences } from "@/db/schema";
+import { users } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import {
   captureServerEvent,
   setServerUserProperties,
 } from "@/lib/posthog-server";
+import { deleteAccount } from "@/lib/account-deletion";
 
 // Clerk webhook event types
 interface ClerkUserData {
@@ -154,31 +155,19 @@ async function handleUserUpdated(userData: ClerkUserData) {
 
 /**
  * Handle user.deleted event
- * - Remove user data from Supabase (GDPR compliance)
- * - Track deletion in PostHog
+ * - Remove all user data from Supabase and their PostHog person (GDPR compliance)
+ * - Record a deletion receipt
+ * No PostHog event is captured: it would recreate the person we just deleted.
  */
 async function handleUserDeleted(userData: ClerkUserData) {
-  // Track deletion before removing data
-  captureServerEvent(userData.id, "user_deleted", {
-    source: "webhook",
-    deletion_timestamp: new Date().toISOString(),
-  });
-
-  // Delete user data from Supabase
-  // Delete film statuses first (foreign key constraint)
-  await db
-    .delete(userFilmStatuses)
-    .where(eq(userFilmStatuses.userId, userData.id));
-
-  // Delete user preferences
-  await db
-    .delete(userPreferences)
-    .where(eq(userPreferences.userId, userData.id));
-
-  // Delete user record
-  await db.delete(users).where(eq(users.id, userData.id));
-
-  console.log("[Webhook] Processed user.deleted for:", userData.id);
+  const receipt = await deleteAccount(userData.id, "clerk_webhook");
+
+  // No receipt when the account was deleted in-app and its data is already gone
+  console.log(
+    "[Webhook] Processed user.deleted for:",
+    userData.id,
+    receipt ? `(receipt ${receipt.id})` : "(nothing left to delete)"
+  );
 }
 
 /**
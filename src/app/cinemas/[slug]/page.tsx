@@ -7,10 +7,10 @@
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 import Link from "next/link";
-import { ChevronLeft, MapPin, ExternalLink, Clock, Film } from "lucide-react";
+import { ChevronLeft, MapPin, ExternalLink, Clock, Film, CalendarPlus } from "lucide-react";
 import { db } from "@/db";
 import { cinemas, screenings, films } from "@/db/schema";
-import { eq, gte, and } from "drizzle-orm";
+import { eq, gte, ne, and } from "drizzle-orm";
 import { format } from "date-fns";
 import {
   MovieTheaterSchema,
@@ -18,6 +18,7 @@ import {
   BreadcrumbSchema,
 } from "@/components/seo/json-ld";
 import type { Cinema } from "@/types/cinema";
+import { getWebcalUrl } from "@/lib/ical";
 
 export const dynamic = "force-dynamic"; // Avoid build timeout on DB connection
 
@@ -63,7 +64,11 @@ export default async function CinemaPage({ params }: CinemaPageProps) {
     .from(screenings)
     .innerJoin(films, eq(screenings.filmId, films.id))
     .where(
-      and(eq(screenings.cinemaId, slug), gte(screenings.datetime, now))
+      and(
+        eq(screenings.cinemaId, slug),
+        gte(screenings.datetime, now),
+        ne(screenings.status, "cancelled")
+      )
     )
     .orderBy(screenings.datetime)
     .limit(50);
@@ -203,16 +208,27 @@ export default async function CinemaPage({ params }: CinemaPageProps) {
             )}
           </div>
 
-          {/* Website link */}
-          <a
-            href={cinemaData.website}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="inline-flex items-center gap-2 text-accent-primary hover:underline"
-          >
-            <ExternalLink className="w-4 h-4" />
-            Visit Website
-          </a>
+          <div className="flex flex-wrap items-center gap-6">
+            {/* Website link */}
+            <a
+              href={cinemaData.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 text-accent-primary hover:underline"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Visit Website
+            </a>
+
+            {/* Calendar subscription (webcal:// opens the user's calendar app) */}
+            <a
+              href={getWebcalUrl(`/api/calendar/cinemas/${slug}`)}
+              className="inline-flex items-center gap-2 text-accent-primary hover:underline"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Subscribe in Calendar
+            </a>
+          </div>
         </div>
       </div>
 
@@ -12,10 +12,11 @@ import Link from "next/link";
 import { ChevronLeft } from "lucide-react";
 import { db } from "@/db";
 import { films, screenings, cinemas } from "@/db/schema";
-import { eq, gte, and } from "drizzle-orm";
+import { eq, gte, ne, and } from "drizzle-orm";
 import { FilmHeader } from "@/components/film/film-header";
 import { FilmScreenings } from "@/components/film/film-screenings";
 import { StatusToggle } from "@/components/film/status-toggle";
+import { DiaryButton } from "@/components/film/diary-button";
 import { FilmViewTracker } from "@/components/film/film-view-tracker";
 import { MovieSchema, BreadcrumbSchema } from "@/components/seo/json-ld";
 import type { Film } from "@/types/film";
@@ -40,6 +41,9 @@ export default async function FilmPage({ params }: FilmPageProps) {
         screen: screenings.screen,
         eventType: screenings.eventType,
         bookingUrl: screenings.bookingUrl,
+        priceCurrency: screenings.priceCurrency,
+        priceStandard: screenings.priceStandard,
+        availabilityStatus: screenings.availabilityStatus,
         cinema: {
           id: cinemas.id,
           name: cinemas.name,
@@ -52,7 +56,8 @@ export default async function FilmPage({ params }: FilmPageProps) {
       .where(
         and(
           eq(screenings.filmId, id),
-          gte(screenings.datetime, now)
+          gte(screenings.datetime, now),
+          ne(screenings.status, "cancelled")
         )
       )
       .orderBy(screenings.datetime),
@@ -122,8 +127,17 @@ export default async function FilmPage({ params }: FilmPageProps) {
       <FilmHeader film={filmData} />
 
       {/* Status Toggle */}
-      <div className="max-w-4xl mx-auto px-4 mt-6">
+      <div className="max-w-4xl mx-auto px-4 mt-6 flex flex-wrap items-center gap-3">
         <StatusToggle filmId={id} />
+        <DiaryButton
+          film={{
+            id: filmData.id,
+            title: filmData.title,
+            year: filmData.year,
+            directors: filmData.directors,
+            posterUrl: filmData.posterUrl,
+          }}
+        />
       </div>
 
       {/* Answer-first summary for GEO */}
@@ -0,0 +1,444 @@
+/**
+ * Group Page Client Component
+ * Shows members, the films they want to see (everyone / anyone) and proposed
+ * screenings with votes. Members propose screenings from a film's upcoming
+ * showings and vote yes, maybe or no.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft, Copy, ExternalLink, Loader2, RefreshCw, Trash2, X } from "lucide-react";
+import { useUser } from "@/hooks/useClerkSafe";
+import { cn } from "@/lib/cn";
+import type { GroupFilm, VoteTally } from "@/lib/watch-groups";
+import type { WatchGroupRole, WatchGroupVote } from "@/db/schema";
+import type { ScreeningWithDetails } from "@/db/repositories/screening";
+
+type ApiScreening = Omit<ScreeningWithDetails, "datetime"> & { datetime: string };
+
+interface GroupDetail {
+  group: { id: string; name: string; inviteToken: string; role: WatchGroupRole };
+  currentUserId: string;
+  members: { userId: string; displayName: string | null; role: WatchGroupRole }[];
+  films: (GroupFilm & {
+    year: number | null;
+    posterUrl: string | null;
+    upcomingCount: number;
+    nextScreening: string | null;
+  })[];
+  proposals: {
+    id: string;
+    proposedBy: string | null;
+    note: string | null;
+    screening: ApiScreening;
+    votes: { userId: string; vote: WatchGroupVote }[];
+    tally: VoteTally;
+    myVote: WatchGroupVote | null;
+  }[];
+}
+
+const VOTES: { value: WatchGroupVote; label: string; activeClassName: string }[] = [
+  { value: "yes", label: "Yes", activeClassName: "bg-green-500/20 text-green-400 border-green-500/50" },
+  { value: "maybe", label: "Maybe", activeClassName: "bg-yellow-500/20 text-yellow-400 border-yellow-500/50" },
+  { value: "no", label: "No", activeClassName: "bg-red-500/20 text-red-400 border-red-500/50" },
+];
+
+const buttonClassName =
+  "inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-border-default text-text-secondary hover:text-text-primary hover:border-border-emphasis transition-colors disabled:opacity-50";
+
+function screeningLine(screening: ApiScreening): string {
+  return `${format(new Date(screening.datetime), "EEE d MMM, HH:mm")} · ${screening.cinema.shortName ?? screening.cinema.name}`;
+}
+
+export function GroupPageClient({ groupId }: { groupId: string }) {
+  const router = useRouter();
+  const { isLoaded, isSignedIn } = useUser();
+  const [detail, setDetail] = useState<GroupDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [proposingFilm, setProposingFilm] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = useCallback(
+    () =>
+      fetch(`/api/user/groups/${groupId}`)
+        .then(async (res) => {
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || "Failed to load the group");
+          return data;
+        })
+        .then((data: GroupDetail) => setDetail(data))
+        .catch((err: Error) => setError(err.message)),
+    [groupId]
+  );
+
+  useEffect(() => {
+    if (isSignedIn) load();
+  }, [isSignedIn, load]);
+
+  /** Run a change against the API, then reload the group */
+  const mutate = async (url: string, init: RequestInit) => {
+    setError(null);
+    const res = await fetch(url, {
+      ...init,
+      headers: init.body ? { "Content-Type": "application/json" } : undefined,
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Something went wrong");
+      return false;
+    }
+    await load();
+    return true;
+  };
+
+  if (isLoaded && !isSignedIn) {
+    return (
+      <div className="min-h-screen bg-background-primary flex items-center justify-center px-4">
+        <p className="text-sm text-text-secondary">
+          Sign in to see this group. <Link href="/groups" className="text-accent-primary">Groups</Link>
+        </p>
+      </div>
+    );
+  }
+
+  const isOwner = detail?.group.role === "owner";
+  const memberName = (userId: string | null) => {
+    if (userId === detail?.currentUserId) return "You";
+    return detail?.members.find((m) => m.userId === userId)?.displayName ?? "A member";
+  };
+  const films = detail ? detail.films.filter((f) => showAll || f.wantedByAll) : [];
+  const inviteUrl = detail && typeof window !== "undefined"
+    ? `${window.location.origin}/groups/join/${detail.group.inviteToken}`
+    : "";
+
+  const copyInvite = async () => {
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const leaveOrDelete = async () => {
+    if (!detail) return;
+    const ok = isOwner
+      ? confirm(`Delete "${detail.group.name}" for everyone?`) &&
+        (await mutate(`/api/user/groups/${groupId}`, { method: "DELETE" }))
+      : confirm(`Leave "${detail.group.name}"?`) &&
+        (await mutate(`/api/user/groups/${groupId}/members/${detail.currentUserId}`, { method: "DELETE" }));
+    if (ok) router.push("/groups");
+  };
+
+  return (
+    <div className="min-h-screen bg-background-primary flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background-primary border-b border-border-subtle">
+        <div className="px-4 sm:px-6 lg:px-8 h-14 flex items-center">
+          <Link
+            href="/groups"
+            className="flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-display text-lg">{detail?.group.name ?? "Group"}</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 sm:px-6 lg:px-8 py-6">
+        <div className="max-w-2xl mx-auto space-y-8">
+          {error && <p className="text-sm text-error-text">{error}</p>}
+          {!detail && !error && <Loader2 className="w-5 h-5 animate-spin text-text-tertiary" />}
+
+          {detail && (
+            <>
+              {/* Members & invite */}
+              <section className="space-y-3">
+                <h1 className="text-2xl sm:text-3xl font-display text-text-primary text-balance">
+                  {detail.group.name}
+                </h1>
+                <ul className="flex flex-wrap gap-2">
+                  {detail.members.map((member) => (
+                    <li
+                      key={member.userId}
+                      className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-background-secondary border border-border-subtle text-sm text-text-secondary"
+                    >
+                      {memberName(member.userId)}
+                      {member.role === "owner" && <span className="text-text-tertiary"> (owner)</span>}
+                      {isOwner && member.userId !== detail.currentUserId && (
+                        <button
+                          onClick={() =>
+                            confirm(`Remove ${memberName(member.userId)} from the group?`) &&
+                            mutate(`/api/user/groups/${groupId}/members/${member.userId}`, { method: "DELETE" })
+                          }
+                          className="text-text-tertiary hover:text-text-primary"
+                          aria-label={`Remove ${memberName(member.userId)}`}
+                        >
+                          <X className="w-3.5 h-3.5" aria-hidden="true" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={copyInvite} className={buttonClassName}>
+                    <Copy className="w-4 h-4" aria-hidden="true" />
+                    {copied ? "Copied!" : "Copy invite link"}
+                  </button>
+                  {isOwner && (
+                    <button
+                      onClick={() => mutate(`/api/user/groups/${groupId}/invite`, { method: "POST" })}
+                      className={buttonClassName}
+                      title="Old invite links will stop working"
+                    >
+                      <RefreshCw className="w-4 h-4" aria-hidden="true" />
+                      New link
+                    </button>
+                  )}
+                  <button onClick={leaveOrDelete} className={buttonClassName}>
+                    <Trash2 className="w-4 h-4" aria-hidden="true" />
+                    {isOwner ? "Delete group" : "Leave group"}
+                  </button>
+                </div>
+              </section>
+
+              {/* Proposals */}
+              <section className="space-y-3">
+                <h2 className="text-lg font-display text-text-primary">Proposed screenings</h2>
+                {detail.proposals.length === 0 && (
+                  <p className="text-sm text-text-tertiary">
+                    Nothing proposed yet. Pick a film below and propose a screening.
+                  </p>
+                )}
+                <ul className="space-y-2">
+                  {detail.proposals.map((proposal) => (
+                    <li
+                      key={proposal.id}
+                      className="p-3 rounded-lg border border-border-subtle bg-background-secondary space-y-2"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <Link
+                            href={`/film/${proposal.screening.film.id}`}
+                            className="text-text-primary hover:text-accent-primary"
+                          >
+                            {proposal.screening.film.title}
+                          </Link>
+                          <p className="text-sm text-text-secondary">{screeningLine(proposal.screening)}</p>
+                          <p className="text-xs text-text-tertiary">
+                            Proposed by {memberName(proposal.proposedBy)}
+                            {proposal.note && <> &ldquo;{proposal.note}&rdquo;</>}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <a
+                            href={proposal.screening.bookingUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="p-1.5 text-text-tertiary hover:text-accent-primary"
+                            aria-label="Book"
+                          >
+                            <ExternalLink className="w-4 h-4" aria-hidden="true" />
+                          </a>
+                          {(isOwner || proposal.proposedBy === detail.currentUserId) && (
+                            <button
+                              onClick={() =>
+                                mutate(`/api/user/groups/${groupId}/proposals/${proposal.id}`, { method: "DELETE" })
+                              }
+                              className="p-1.5 text-text-tertiary hover:text-text-primary"
+                              aria-label="Remove proposal"
+                            >
+                              <Trash2 className="w-4 h-4" aria-hidden="true" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {VOTES.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() =>
+                              mutate(`/api/user/groups/${groupId}/proposals/${proposal.id}/vote`, {
+                                method: "PUT",
+                                body: JSON.stringify({
+                                  vote: proposal.myVote === option.value ? null : option.value,
+                                }),
+                              })
+                            }
+                            aria-pressed={proposal.myVote === option.value}
+                            className={cn(
+                              "px-2.5 py-1 text-xs rounded-lg border transition-colors",
+                              proposal.myVote === option.value
+                                ? option.activeClassName
+                                : "border-border-default text-text-secondary hover:text-text-primary"
+                            )}
+                          >
+                            {option.label} {proposal.tally[option.value]}
+                          </button>
+                        ))}
+                        {proposal.tally.pending > 0 && (
+                          <span className="text-xs text-text-tertiary">{proposal.tally.pending} yet to vote</span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              {/* Films */}
+              <section className="space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <h2 className="text-lg font-display text-text-primary">Films</h2>
+                  <div className="flex rounded-lg border border-border-default overflow-hidden text-sm">
+                    {[false, true].map((all) => (
+                      <button
+                        key={String(all)}
+                        onClick={() => setShowAll(all)}
+                        aria-pressed={showAll === all}
+                        className={cn(
+                          "px-3 py-1",
+                          showAll === all ? "bg-accent-primary/20 text-text-primary" : "text-text-secondary"
+                        )}
+                      >
+                        {all ? "Anyone wants" : "Everyone wants"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {films.length === 0 && (
+                  <p className="text-sm text-text-tertiary">
+                    {showAll
+                      ? "No one in the group has anything on their watchlist yet."
+                      : "No film is on everyone's watchlist yet. Try “Anyone wants”."}
+                  </p>
+                )}
+                <ul className="space-y-2">
+                  {films.map((film) => (
+                    <li
+                      key={film.filmId}
+                      className="p-3 rounded-lg border border-border-subtle bg-background-secondary space-y-2"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <Link href={`/film/${film.filmId}`} className="text-text-primary hover:text-accent-primary">
+                            {film.title}
+                            {film.year && <span className="text-text-tertiary"> ({film.year})</span>}
+                          </Link>
+                          <p className="text-xs text-text-tertiary">
+                            {film.wantedByAll ? "Everyone" : film.memberIds.map(memberName).join(", ")}
+                            {" · "}
+                            {film.upcomingCount > 0
+                              ? `${film.upcomingCount} upcoming screening${film.upcomingCount !== 1 ? "s" : ""}`
+                              : "Not showing"}
+                          </p>
+                        </div>
+                        {film.upcomingCount > 0 && (
+                          <button
+                            onClick={() => setProposingFilm(proposingFilm === film.filmId ? null : film.filmId)}
+                            className={buttonClassName}
+                          >
+                            Propose
+                          </button>
+                        )}
+                      </div>
+                      {proposingFilm === film.filmId && (
+                        <ProposeForm
+                          groupId={groupId}
+                          filmId={film.filmId}
+                          onPropose={async (screeningId, note) => {
+                            const ok = await mutate(`/api/user/groups/${groupId}/proposals`, {
+                              method: "POST",
+                              body: JSON.stringify({ screeningId, note }),
+                            });
+                            if (ok) setProposingFilm(null);
+                          }}
+                        />
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function ProposeForm({
+  groupId,
+  filmId,
+  onPropose,
+}: {
+  groupId: string;
+  filmId: string;
+  onPropose: (screeningId: string, note: string) => Promise<void>;
+}) {
+  const [screenings, setScreenings] = useState<ApiScreening[] | null>(null);
+  const [screeningId, setScreeningId] = useState("");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/user/groups/${groupId}/screenings?filmId=${encodeURIComponent(filmId)}`)
+      .then((res) => (res.ok ? res.json() : { screenings: [] }))
+      .then((data: { screenings: ApiScreening[] }) => {
+        setScreenings(data.screenings);
+        setScreeningId(data.screenings[0]?.id ?? "");
+      });
+  }, [groupId, filmId]);
+
+  if (!screenings) {
+    return <Loader2 className="w-4 h-4 animate-spin text-text-tertiary" />;
+  }
+
+  return (
+    <form
+      className="flex flex-wrap gap-2"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        if (!screeningId) return;
+        setIsSaving(true);
+        await onPropose(screeningId, note);
+        setIsSaving(false);
+      }}
+    >
+      <label htmlFor={`propose-${filmId}`} className="sr-only">
+        Screening
+      </label>
+      <select
+        id={`propose-${filmId}`}
+        value={screeningId}
+        onChange={(e) => setScreeningId(e.target.value)}
+        className="flex-1 min-w-[12rem] bg-background-primary border border-border-default rounded-lg px-2 py-1.5 text-sm text-text-primary"
+      >
+        {screenings.map((screening) => (
+          <option key={screening.id} value={screening.id}>
+            {screeningLine(screening)}
+          </option>
+        ))}
+      </select>
+      <label htmlFor={`propose-note-${filmId}`} className="sr-only">
+        Note
+      </label>
+      <input
+        id={`propose-note-${filmId}`}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={500}
+        placeholder="Note (optional)"
+        className="flex-1 min-w-[8rem] bg-background-primary border border-border-default rounded-lg px-2 py-1.5 text-sm text-text-primary"
+      />
+      <button
+        type="submit"
+        disabled={!screeningId || isSaving}
+        className="px-3 py-1.5 text-sm rounded-lg bg-accent-primary text-text-inverse disabled:opacity-50"
+      >
+        Propose
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Watch Group Page
+ * A group's combined watchlists and the screenings proposed for an outing
+ */
+
+import { GroupPageClient } from "./group-page-client";
+
+export const metadata = {
+  title: "Group | Pictures",
+  description: "Films your group wants to see, and screenings to go to together",
+  robots: { index: false },
+};
+
+export default async function GroupPage({ params }: { params: Promise<{ groupId: string }> }) {
+  const { groupId } = await params;
+  return <GroupPageClient groupId={groupId} />;
+}
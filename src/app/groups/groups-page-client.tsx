@@ -0,0 +1,161 @@
+/**
+ * Groups Page Client Component
+ * Lists the user's groups and creates new ones
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, Plus, Users } from "lucide-react";
+import { useUser } from "@/hooks/useClerkSafe";
+import { SafeSignInButton as SignInButton } from "@/components/clerk-components-safe";
+import { GROUP_NAME_MAX_LENGTH } from "@/lib/watch-groups";
+import type { WatchGroupSummary } from "@/db/repositories/watch-group";
+
+type ApiGroup = Omit<WatchGroupSummary, "createdAt"> & { createdAt: string };
+
+export function GroupsPageClient() {
+  const router = useRouter();
+  const { isLoaded, isSignedIn } = useUser();
+  const [groups, setGroups] = useState<ApiGroup[] | null>(null);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGroups = useCallback(
+    () =>
+      fetch("/api/user/groups")
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load your groups");
+          return res.json();
+        })
+        .then((data: { groups: ApiGroup[] }) => setGroups(data.groups))
+        .catch((err: Error) => setError(err.message)),
+    []
+  );
+
+  useEffect(() => {
+    if (isSignedIn) loadGroups();
+  }, [isSignedIn, loadGroups]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/user/groups", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create the group");
+      router.push(`/groups/${data.group.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create the group");
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background-primary flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background-primary border-b border-border-subtle">
+        <div className="px-4 sm:px-6 lg:px-8 h-14 flex items-center">
+          <Link
+            href="/watchlist"
+            className="flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-display text-lg">Groups</span>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 px-4 sm:px-6 lg:px-8 py-6">
+        <div className="max-w-2xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-display text-text-primary mb-2 text-balance">
+              Go to the cinema together
+            </h1>
+            <p className="text-text-secondary text-sm sm:text-base text-pretty">
+              Start a group and share its invite link. Everyone sees the films the group wants
+              to see, and can propose a screening for the rest to vote on. Members can see your
+              watchlist while you&apos;re in a group.
+            </p>
+          </div>
+
+          {isLoaded && !isSignedIn && (
+            <div className="p-4 rounded-lg border border-border-subtle bg-background-secondary flex items-center justify-between gap-4">
+              <p className="text-sm text-text-secondary">Sign in to create or join a group.</p>
+              <SignInButton mode="modal">
+                <button className="px-4 py-2 text-sm font-medium text-white bg-accent-primary hover:bg-accent-primary-hover rounded-lg transition-colors">
+                  Sign In
+                </button>
+              </SignInButton>
+            </div>
+          )}
+
+          {isSignedIn && (
+            <>
+              <form onSubmit={handleCreate} className="flex gap-2">
+                <label htmlFor="group-name" className="sr-only">
+                  Group name
+                </label>
+                <input
+                  id="group-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={GROUP_NAME_MAX_LENGTH}
+                  placeholder="e.g. Thursday film club"
+                  className="flex-1 bg-background-secondary border border-border-default rounded-lg px-3 py-2 text-sm text-text-primary focus:outline-none focus:border-accent-primary/50"
+                />
+                <button
+                  type="submit"
+                  disabled={isCreating || !name.trim()}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm rounded-lg bg-accent-primary text-text-inverse disabled:opacity-50"
+                >
+                  {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                  New group
+                </button>
+              </form>
+
+              {error && <p className="text-sm text-error-text">{error}</p>}
+
+              {groups === null ? (
+                !error && <Loader2 className="w-5 h-5 animate-spin text-text-tertiary" />
+              ) : groups.length === 0 ? (
+                <p className="text-sm text-text-tertiary">
+                  You&apos;re not in any groups yet. Create one, or open an invite link from a friend.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {groups.map((group) => (
+                    <li key={group.id}>
+                      <Link
+                        href={`/groups/${group.id}`}
+                        className="flex items-center justify-between gap-3 p-4 rounded-lg border border-border-subtle bg-background-secondary hover:border-border-emphasis transition-colors"
+                      >
+                        <span className="text-text-primary">{group.name}</span>
+                        <span className="inline-flex items-center gap-1 text-sm text-text-tertiary">
+                          <Users className="w-4 h-4" aria-hidden="true" />
+                          {group.memberCount}
+                          {group.role === "owner" && " · owner"}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
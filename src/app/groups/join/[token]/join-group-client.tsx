@@ -0,0 +1,73 @@
+/**
+ * Join Group Client Component
+ * Asks signed-out visitors to sign in, then joins the group and opens it
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2, Users } from "lucide-react";
+import { useUser } from "@/hooks/useClerkSafe";
+import { SafeSignInButton as SignInButton } from "@/components/clerk-components-safe";
+
+export function JoinGroupClient({ token }: { token: string }) {
+  const router = useRouter();
+  const { isLoaded, isSignedIn } = useUser();
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/user/groups/join", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to join the group");
+      router.push(`/groups/${data.groupId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to join the group");
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background-primary flex items-center justify-center px-4">
+      <div className="max-w-sm w-full p-6 rounded-xl border border-border-subtle bg-background-secondary text-center space-y-4">
+        <Users className="w-10 h-10 mx-auto text-accent-primary" aria-hidden="true" />
+        <h1 className="text-xl font-display text-text-primary">You&apos;ve been invited to a group</h1>
+        <p className="text-sm text-text-secondary">
+          Members see each other&apos;s watchlists and vote on screenings to go to together.
+        </p>
+
+        {isLoaded && !isSignedIn ? (
+          <SignInButton mode="modal">
+            <button className="w-full px-4 py-2 text-sm font-medium text-white bg-accent-primary hover:bg-accent-primary-hover rounded-lg transition-colors">
+              Sign in to join
+            </button>
+          </SignInButton>
+        ) : (
+          <button
+            onClick={handleJoin}
+            disabled={!isLoaded || isJoining}
+            className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-lg bg-accent-primary text-text-inverse disabled:opacity-50"
+          >
+            {isJoining && <Loader2 className="w-4 h-4 animate-spin" />}
+            Join group
+          </button>
+        )}
+
+        {error && <p className="text-sm text-error-text">{error}</p>}
+
+        <Link href="/groups" className="block text-sm text-text-tertiary hover:text-text-primary">
+          My groups
+        </Link>
+      </div>
+    </div>
+  );
+}
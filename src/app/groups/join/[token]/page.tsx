@@ -0,0 +1,17 @@
+/**
+ * Join Group Page
+ * Landing page for group invite links
+ */
+
+import { JoinGroupClient } from "./join-group-client";
+
+export const metadata = {
+  title: "Join a group | Pictures",
+  description: "You've been invited to a group on Pictures",
+  robots: { index: false },
+};
+
+export default async function JoinGroupPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <JoinGroupClient token={token} />;
+}
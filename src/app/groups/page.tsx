@@ -0,0 +1,15 @@
+/**
+ * Watch Groups Page
+ * Groups the user goes to the cinema with, and a form to start a new one
+ */
+
+import { GroupsPageClient } from "./groups-page-client";
+
+export const metadata = {
+  title: "Groups | Pictures",
+  description: "Share watchlists with friends and pick a screening to go to together",
+};
+
+export default function GroupsPage() {
+  return <GroupsPageClient />;
+}
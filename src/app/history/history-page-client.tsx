@@ -0,0 +1,184 @@
+/**
+ * History Page Client Component
+ * Stats and the diary, built from the films marked seen in the local store
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { format } from "date-fns";
+import { ArrowLeft, MapPin, Pencil } from "lucide-react";
+import { useHydrated } from "@/hooks/useHydrated";
+import { useFilmStatus } from "@/stores/film-status";
+import { buildHistoryStats, formatLabel, getDiaryItems, groupDiaryByMonth } from "@/lib/film-history";
+import { StarRating } from "@/components/film/star-rating";
+import { DiaryEntryDialog, type DiaryFilm } from "@/components/film/diary-entry-dialog";
+
+function StatList({ title, rows }: { title: string; rows: { label: string; count: number }[] }) {
+  return (
+    <div className="p-4 rounded-lg border border-border-subtle bg-background-secondary">
+      <h3 className="text-sm font-medium text-text-primary mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-text-tertiary">Nothing yet</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {rows.map((row) => (
+            <li key={row.label} className="flex justify-between gap-2">
+              <span className="text-text-secondary truncate">{row.label}</span>
+              <span className="text-text-primary tabular-nums">{row.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function HistoryPageClient() {
+  const hydrated = useHydrated();
+  const films = useFilmStatus((state) => state.films);
+  const [editing, setEditing] = useState<DiaryFilm | null>(null);
+
+  const stats = useMemo(() => buildHistoryStats(hydrated ? films : {}), [hydrated, films]);
+  const months = useMemo(() => groupDiaryByMonth(getDiaryItems(hydrated ? films : {})), [hydrated, films]);
+  const busiestMonth = Math.max(1, ...stats.perMonth.map((m) => m.count));
+
+  return (
+    <div className="min-h-screen bg-background-primary flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background-primary border-b border-border-subtle">
+        <div className="px-4 sm:px-6 lg:px-8 h-14 flex items-center">
+          <Link
+            href="/watchlist"
+            className="flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-display text-lg">My Film Diary</span>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 px-4 sm:px-6 lg:px-8 py-6">
+        <div className="max-w-2xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-display text-text-primary mb-2 text-balance">
+              Your film history
+            </h1>
+            <p className="text-text-secondary text-sm sm:text-base text-pretty">
+              {stats.seenCount} film{stats.seenCount !== 1 ? "s" : ""} seen
+              {stats.averageRating !== null &&
+                `, ${stats.ratedCount} rated (average ${stats.averageRating} stars)`}
+              . Use &ldquo;I&apos;ve seen it&rdquo; on a film&apos;s page to add it to your diary.
+            </p>
+          </div>
+
+          {/* Stats */}
+          <section className="space-y-4">
+            <div className="p-4 rounded-lg border border-border-subtle bg-background-secondary">
+              <h3 className="text-sm font-medium text-text-primary mb-3">Films per month</h3>
+              <div className="flex items-end gap-1 h-24">
+                {stats.perMonth.map((month) => (
+                  <div key={month.month} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                    <div
+                      className="w-full rounded-t bg-accent-primary/70"
+                      style={{ height: `${(month.count / busiestMonth) * 100}%` }}
+                      title={`${month.count} in ${month.label}`}
+                    />
+                    <span className="text-[10px] text-text-tertiary">{month.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <StatList
+                title="Favourite cinemas"
+                rows={stats.cinemas.map((c) => ({ label: c.name, count: c.count }))}
+              />
+              <StatList title="Formats" rows={stats.formats} />
+              <StatList
+                title="Decades"
+                rows={stats.decades.map((d) => ({ label: d.decade, count: d.count }))}
+              />
+            </div>
+          </section>
+
+          {/* Diary */}
+          <section className="space-y-6">
+            <h2 className="text-lg font-display text-text-primary">Diary</h2>
+            {months.length === 0 && (
+              <p className="text-sm text-text-tertiary">
+                Nothing logged yet. Films you mark as seen with a date show up here.
+              </p>
+            )}
+            {months.map((month) => (
+              <div key={month.month}>
+                <h3 className="text-sm font-medium text-text-tertiary mb-2">{month.label}</h3>
+                <ul className="space-y-2">
+                  {month.items.map(({ filmId, entry }) => {
+                    const title = entry.filmTitle ?? "Untitled film";
+                    const formatName = entry.seenFormat ? formatLabel(entry.seenFormat) : null;
+                    return (
+                      <li
+                        key={filmId}
+                        className="flex gap-3 p-3 rounded-lg border border-border-subtle bg-background-secondary"
+                      >
+                        <div className="relative w-10 h-15 shrink-0 rounded overflow-hidden bg-background-tertiary">
+                          {entry.filmPosterUrl && (
+                            <Image src={entry.filmPosterUrl} alt={title} fill className="object-cover" sizes="40px" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-start justify-between gap-2">
+                            <Link href={`/film/${filmId}`} className="text-text-primary hover:text-accent-primary">
+                              {title}
+                              {entry.filmYear && <span className="text-text-tertiary"> ({entry.filmYear})</span>}
+                            </Link>
+                            <button
+                              onClick={() =>
+                                setEditing({
+                                  id: filmId,
+                                  title,
+                                  year: entry.filmYear,
+                                  directors: entry.filmDirectors,
+                                  posterUrl: entry.filmPosterUrl,
+                                })
+                              }
+                              className="p-1 text-text-tertiary hover:text-text-primary"
+                              aria-label={`Edit diary entry for ${title}`}
+                            >
+                              <Pencil className="w-4 h-4" aria-hidden="true" />
+                            </button>
+                          </div>
+                          <p className="flex flex-wrap items-center gap-x-2 text-xs text-text-tertiary">
+                            <span>{format(new Date(entry.seenAt!), "EEE d MMM")}</span>
+                            {entry.seenCinemaName && (
+                              <span className="inline-flex items-center gap-1">
+                                <MapPin className="w-3 h-3" aria-hidden="true" />
+                                {entry.seenCinemaName}
+                              </span>
+                            )}
+                            {formatName && <span>{formatName}</span>}
+                            <StarRating value={entry.rating ?? null} size="sm" />
+                          </p>
+                          {entry.notes && (
+                            <p className="text-sm text-text-secondary whitespace-pre-line">{entry.notes}</p>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </section>
+        </div>
+      </main>
+
+      {editing && <DiaryEntryDialog film={editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Film History Page
+ * The user's film diary - what they've seen, where, and what they thought - with stats
+ */
+
+import { HistoryPageClient } from "./history-page-client";
+
+export const metadata = {
+  title: "My Film Diary | Pictures",
+  description: "The films you've seen, where you saw them and what you thought",
+};
+
+export default function HistoryPage() {
+  return <HistoryPageClient />;
+}
@@ -1,9 +1,10 @@
 import { db, isDatabaseAvailable } from "@/db";
 import { screenings, films, cinemas, seasons } from "@/db/schema";
-import { eq, gte, lte, and, countDistinct, count } from "drizzle-orm";
+import { eq, gte, lte, ne, and, countDistinct, count } from "drizzle-orm";
 import { endOfDay, addDays, format } from "date-fns";
 import { unstable_cache } from "next/cache";
 import { CalendarViewWithLoader } from "@/components/calendar/calendar-view-loader";
+import { ForYouSection } from "@/components/calendar/for-you-section";
 import { Header } from "@/components/layout/header";
 import { FeatureDiscoveryBanner } from "@/components/discovery/feature-discovery-banner";
 import { WebSiteSchema, FAQSchema } from "@/components/seo/json-ld";
@@ -55,13 +56,15 @@ const getCachedScreenings = unstable_cache(
       .where(
         and(
           gte(screenings.datetime, now),
-          lte(screenings.datetime, endDate)
+          lte(screenings.datetime, endDate),
+          // Hidden once the scrape lifecycle has marked them cancelled
+          ne(screenings.status, "cancelled")
         )
       )
       .orderBy(screenings.datetime);
       // No limit - date range constraint ensures reasonable size (~2500 for 3 days)
   },
-  ["home-screenings-v2"], // New cache key
+  ["home-screenings-v3"], // New cache key
   { revalidate: 60, tags: ["screenings"] }
 );
 
@@ -106,7 +109,7 @@ const getCachedStats = unstable_cache(
           uniqueFilms: countDistinct(screenings.filmId),
         })
         .from(screenings)
-        .where(gte(screenings.datetime, now)),
+        .where(and(gte(screenings.datetime, now), ne(screenings.status, "cancelled"))),
       db
         .select({ count: count(cinemas.id) })
         .from(cinemas)
@@ -229,6 +232,9 @@ export default async function Home() {
 
       {/* Main Content - Full Width */}
       <main className="px-4 sm:px-6 lg:px-8 pb-6">
+        {/* Personal recommendations - only rendered for signed-in users */}
+        <ForYouSection />
+
         {/* Calendar View with Load More */}
         <CalendarViewWithLoader initialScreenings={initialScreenings} />
 
@@ -0,0 +1,15 @@
+/**
+ * Watchlist Planner Page
+ * "Plan My Watchlist" - Build a non-overlapping schedule of watchlist films for some free time
+ */
+
+import { PlannerPageClient } from "./planner-page-client";
+
+export const metadata = {
+  title: "Plan My Watchlist | Pictures",
+  description: "Fit as many films from your watchlist as possible into your free time",
+};
+
+export default function PlannerPage() {
+  return <PlannerPageClient />;
+}
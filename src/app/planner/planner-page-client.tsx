@@ -0,0 +1,478 @@
+/**
+ * Planner Page Client Component
+ * Collects free time windows, asks the itinerary API for a plan and lets the
+ * user download it or save it to their plan (which has its own calendar feed)
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { addDays, format, nextSaturday } from "date-fns";
+import {
+  ArrowLeft,
+  CalendarPlus,
+  Download,
+  ExternalLink,
+  Loader2,
+  MapPin,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useHydrated } from "@/hooks/useHydrated";
+import { useUser } from "@/hooks/useClerkSafe";
+import { useFilmStatus } from "@/stores/film-status";
+import { useFilters } from "@/stores/filters";
+import { useReachable } from "@/stores/reachable";
+import { TravelModeToggle } from "@/components/reachable/travel-mode-toggle";
+import type { Itinerary, ItineraryStop, PriorityReason } from "@/lib/itinerary-planner";
+import type { ScreeningWithDetails } from "@/db/repositories/screening";
+
+interface WindowInput {
+  id: number;
+  date: string;
+  from: string;
+  to: string;
+}
+
+/** Dates arrive from the API as ISO strings */
+type ApiStop = Omit<ItineraryStop, "datetime"> & { datetime: string };
+type ApiItinerary = Omit<Itinerary, "stops"> & { stops: ApiStop[] };
+type SavedScreening = Omit<ScreeningWithDetails, "datetime"> & { datetime: string };
+
+const MAX_WINDOWS = 14;
+
+const REASON_LABELS: Record<PriorityReason, string> = {
+  last_chance: "Last chance",
+  rare: "Rare",
+};
+
+const inputClassName =
+  "bg-background-secondary border border-border-default rounded-lg px-3 py-1.5 text-sm text-text-primary focus:outline-none focus:border-accent-primary/50";
+
+/** Next Saturday and Sunday afternoons and evenings */
+function defaultWindows(): WindowInput[] {
+  const saturday = nextSaturday(new Date());
+  return [saturday, addDays(saturday, 1)].map((day, i) => ({
+    id: i,
+    date: format(day, "yyyy-MM-dd"),
+    from: "12:00",
+    to: "23:00",
+  }));
+}
+
+/** Travel from the previous stop, or from home at the start of a window */
+function travelLine(stop: ApiStop): string | null {
+  if (stop.travelMinutesBefore === null) return null;
+  if (stop.travelMinutesBefore === 0) return "Same cinema";
+  return `~${stop.travelMinutesBefore} min travel`;
+}
+
+export function PlannerPageClient() {
+  const hydrated = useHydrated();
+  const { isSignedIn } = useUser();
+  const getWatchlist = useFilmStatus((state) => state.getWatchlist);
+  const selectedCinemaIds = useFilters((state) => state.cinemaIds);
+  const { postcode, coordinates, travelMode, setTravelMode } = useReachable();
+
+  const [windows, setWindows] = useState<WindowInput[]>(defaultWindows);
+  const [onlyMyCinemas, setOnlyMyCinemas] = useState(true);
+  const [startFromHome, setStartFromHome] = useState(true);
+  const [itinerary, setItinerary] = useState<ApiItinerary | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<SavedScreening[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const filmIds = useMemo(() => (hydrated ? getWatchlist() : []), [hydrated, getWatchlist]);
+
+  const loadSaved = useCallback(
+    () =>
+      fetch("/api/user/itinerary")
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load your plan");
+          return res.json();
+        })
+        .then((data: { screenings: SavedScreening[] }) => setSaved(data.screenings))
+        .catch((err: Error) => setError(err.message)),
+    []
+  );
+
+  useEffect(() => {
+    if (isSignedIn) loadSaved();
+  }, [isSignedIn, loadSaved]);
+
+  const updateWindow = (id: number, changes: Partial<WindowInput>) =>
+    setWindows((current) => current.map((w) => (w.id === id ? { ...w, ...changes } : w)));
+
+  const addWindow = () =>
+    setWindows((current) => {
+      const last = current.at(-1);
+      const date = last ? addDays(new Date(`${last.date}T00:00`), 1) : new Date();
+      const id = Math.max(-1, ...current.map((w) => w.id)) + 1;
+      return [...current, { id, date: format(date, "yyyy-MM-dd"), from: "18:00", to: "23:00" }];
+    });
+
+  const handlePlan = async () => {
+    setIsPlanning(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/itinerary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          filmIds,
+          windows: windows.map((w) => ({
+            start: new Date(`${w.date}T${w.from}`).toISOString(),
+            end: new Date(`${w.date}T${w.to}`).toISOString(),
+          })),
+          cinemaIds: onlyMyCinemas && selectedCinemaIds.length > 0 ? selectedCinemaIds : undefined,
+          home: startFromHome ? coordinates : null,
+          travelMode,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to plan your watchlist");
+      setItinerary(data.itinerary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to plan your watchlist");
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!itinerary) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/user/itinerary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ screeningIds: itinerary.stops.map((s) => s.screeningId) }),
+      });
+      if (!res.ok) throw new Error("Failed to save your plan");
+      await loadSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save your plan");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // No IDs clears the whole plan
+  const handleRemove = async (screeningIds?: string[]) => {
+    const res = await fetch("/api/user/itinerary", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ screeningIds }),
+    });
+    if (res.ok) await loadSaved();
+  };
+
+  const invalidWindow = windows.some((w) => !w.date || w.to <= w.from);
+
+  const days = new Map<string, ApiStop[]>();
+  for (const stop of itinerary?.stops ?? []) {
+    const key = format(new Date(stop.datetime), "yyyy-MM-dd");
+    days.set(key, [...(days.get(key) ?? []), stop]);
+  }
+
+  return (
+    <div className="min-h-screen bg-background-primary flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background-primary border-b border-border-subtle">
+        <div className="px-4 sm:px-6 lg:px-8 h-14 flex items-center">
+          <Link
+            href="/watchlist"
+            className="flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-display text-lg">Plan My Watchlist</span>
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 px-4 sm:px-6 lg:px-8 py-6">
+        <div className="max-w-2xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-display text-text-primary mb-2 text-balance">
+              Fit your watchlist into your free time
+            </h1>
+            <p className="text-text-secondary text-sm sm:text-base text-pretty">
+              Tell us when you&apos;re free and we&apos;ll pick one screening each of as many
+              films as we can, putting films that are about to leave cinemas or are rarely
+              shown first.
+            </p>
+          </div>
+
+          {/* Input Section */}
+          <div className="space-y-6">
+            <div>
+              <span className="block text-sm font-medium text-text-primary mb-2">
+                When are you free?
+              </span>
+              <div className="space-y-2">
+                {windows.map((w) => (
+                  <div key={w.id} className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="date"
+                      aria-label="Date"
+                      value={w.date}
+                      onChange={(e) => updateWindow(w.id, { date: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <input
+                      type="time"
+                      aria-label="Free from"
+                      value={w.from}
+                      onChange={(e) => updateWindow(w.id, { from: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <span className="text-text-tertiary text-sm">to</span>
+                    <input
+                      type="time"
+                      aria-label="Free until"
+                      value={w.to}
+                      onChange={(e) => updateWindow(w.id, { to: e.target.value })}
+                      className={inputClassName}
+                    />
+                    {windows.length > 1 && (
+                      <button
+                        onClick={() => setWindows((current) => current.filter((c) => c.id !== w.id))}
+                        className="p-1.5 text-text-tertiary hover:text-text-primary"
+                        aria-label="Remove time"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {windows.length < MAX_WINDOWS && (
+                <button
+                  onClick={addWindow}
+                  className="mt-2 flex items-center gap-1 text-sm text-accent-primary hover:underline"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add time
+                </button>
+              )}
+            </div>
+
+            {hydrated && selectedCinemaIds.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-text-primary">
+                <input
+                  type="checkbox"
+                  checked={onlyMyCinemas}
+                  onChange={(e) => setOnlyMyCinemas(e.target.checked)}
+                />
+                Only my selected cinemas ({selectedCinemaIds.length})
+              </label>
+            )}
+
+            {hydrated && coordinates && (
+              <label className="flex items-center gap-2 text-sm text-text-primary">
+                <input
+                  type="checkbox"
+                  checked={startFromHome}
+                  onChange={(e) => setStartFromHome(e.target.checked)}
+                />
+                Start and finish at {postcode || "my location"}
+              </label>
+            )}
+
+            <div>
+              <span className="block text-sm font-medium text-text-primary mb-2">
+                How are you travelling?
+              </span>
+              <TravelModeToggle value={hydrated ? travelMode : "transit"} onChange={setTravelMode} />
+            </div>
+
+            <button
+              onClick={handlePlan}
+              disabled={!hydrated || filmIds.length === 0 || invalidWindow || isPlanning}
+              className="px-4 py-2 rounded-lg bg-accent-primary text-text-inverse font-medium disabled:opacity-50 flex items-center gap-2"
+            >
+              {isPlanning && <Loader2 className="w-4 h-4 animate-spin" />}
+              Plan {filmIds.length} watchlist film{filmIds.length !== 1 ? "s" : ""}
+            </button>
+            {hydrated && filmIds.length === 0 && (
+              <p className="text-sm text-text-tertiary">
+                Add films to your{" "}
+                <Link href="/watchlist" className="underline">
+                  watchlist
+                </Link>{" "}
+                to plan them.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-4 bg-error-surface border border-error-border rounded-lg">
+              <p className="text-sm text-error-text">{error}</p>
+            </div>
+          )}
+
+          {/* Results */}
+          {itinerary && (
+            <section className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-display text-text-primary">
+                  {itinerary.stops.length} film{itinerary.stops.length !== 1 ? "s" : ""} planned
+                </h2>
+                {itinerary.stops.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <a
+                      href={`/api/itinerary/ics?ids=${itinerary.stops.map((s) => s.screeningId).join(",")}`}
+                      className="flex items-center gap-1 text-sm px-3 py-1.5 rounded-lg border border-border-default text-text-primary hover:bg-background-secondary"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download .ics
+                    </a>
+                    {isSignedIn && (
+                      <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="flex items-center gap-1 text-sm px-3 py-1.5 rounded-lg bg-accent-primary text-text-inverse disabled:opacity-50"
+                      >
+                        <CalendarPlus className="w-4 h-4" />
+                        Save to my plan
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {!itinerary.complete && (
+                <p className="text-xs text-text-tertiary">
+                  Lots of options - this is a good plan, though there may be a slightly better one.
+                </p>
+              )}
+
+              {[...days.entries()].map(([day, stops]) => (
+                <div key={day}>
+                  <h3 className="text-sm font-medium text-text-secondary mb-2">
+                    {format(new Date(`${day}T00:00`), "EEEE d MMMM")}
+                  </h3>
+                  <ul className="space-y-2">
+                    {stops.map((stop) => {
+                      const travel = travelLine(stop);
+                      return (
+                        <li
+                          key={stop.screeningId}
+                          className="p-3 rounded-lg border border-border-subtle bg-background-secondary"
+                        >
+                          {travel && (
+                            <p className="text-xs text-text-tertiary mb-1 flex items-center gap-1">
+                              <MapPin className="w-3 h-3" />
+                              {travel}
+                            </p>
+                          )}
+                          <div className="flex items-start justify-between gap-3">
+                            <div>
+                              <Link
+                                href={`/film/${stop.filmId}`}
+                                className="text-text-primary font-medium hover:underline"
+                              >
+                                {stop.filmTitle}
+                              </Link>
+                              <p className="text-sm text-text-secondary">
+                                {format(new Date(stop.datetime), "HH:mm")} · {stop.cinemaName}
+                              </p>
+                              {stop.reasons.length > 0 && (
+                                <div className="flex gap-1 mt-1">
+                                  {stop.reasons.map((reason) => (
+                                    <span
+                                      key={reason}
+                                      className="text-xs px-1.5 py-0.5 rounded bg-accent-primary/10 text-accent-primary"
+                                    >
+                                      {REASON_LABELS[reason]}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                            <a
+                              href={stop.bookingUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="shrink-0 flex items-center gap-1 text-sm text-accent-primary hover:underline"
+                            >
+                              Book
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+
+              {itinerary.unscheduled.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-text-secondary mb-2">Not in this plan</h3>
+                  <ul className="space-y-1 text-sm text-text-tertiary">
+                    {itinerary.unscheduled.map((film) => (
+                      <li key={film.filmId}>
+                        {film.filmTitle} -{" "}
+                        {film.reason === "no_showing"
+                          ? "no showings in your free time"
+                          : "clashes with higher priority films"}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </section>
+          )}
+
+          {/* Saved plan */}
+          {isSignedIn && saved.length > 0 && (
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-display text-text-primary">My plan</h2>
+                <button
+                  onClick={() => handleRemove()}
+                  className="text-sm text-text-tertiary hover:text-text-primary"
+                >
+                  Clear
+                </button>
+              </div>
+              <p className="text-xs text-text-tertiary">
+                Subscribe to your plan from{" "}
+                <Link href="/settings" className="underline">
+                  settings
+                </Link>{" "}
+                to keep it in your calendar app.
+              </p>
+              <ul className="space-y-2">
+                {saved.map((screening) => (
+                  <li key={screening.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-text-primary">
+                      {format(new Date(screening.datetime), "EEE d MMM HH:mm")} · {screening.film.title} ·{" "}
+                      <span className="text-text-secondary">
+                        {screening.cinema.shortName ?? screening.cinema.name}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => handleRemove([screening.id])}
+                      className="p-1 text-text-tertiary hover:text-text-primary"
+                      aria-label={`Remove ${screening.film.title} from my plan`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
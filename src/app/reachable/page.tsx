@@ -5,7 +5,7 @@
 
 import { db } from "@/db";
 import { screenings, films, cinemas } from "@/db/schema";
-import { eq, gte, and } from "drizzle-orm";
+import { eq, gte, ne, and } from "drizzle-orm";
 import { endOfDay, addDays } from "date-fns";
 import { ReachablePageClient } from "./reachable-page-client";
 
@@ -54,8 +54,7 @@ export default async function ReachablePage() {
     .where(
       and(
         gte(screenings.datetime, now), // Only future screenings
-        gte(screenings.datetime, now),
-        // Using the same condition twice is intentional - avoids importing lte
+        ne(screenings.status, "cancelled")
       )
     )
     .orderBy(screenings.datetime)
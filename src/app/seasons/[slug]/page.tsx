@@ -19,7 +19,7 @@ import {
 } from "lucide-react";
 import { db } from "@/db";
 import { seasons, seasonFilms, films, screenings } from "@/db/schema";
-import { eq, and, gte, inArray } from "drizzle-orm";
+import { eq, and, gte, ne, inArray } from "drizzle-orm";
 import { format } from "date-fns";
 import { BreadcrumbSchema } from "@/components/seo/json-ld";
 import { isFeatureEnabled } from "@/lib/features";
@@ -94,7 +94,11 @@ export default async function SeasonPage({ params }: SeasonPageProps) {
       })
       .from(screenings)
       .where(
-        and(inArray(screenings.filmId, filmIds), gte(screenings.datetime, now))
+        and(
+          inArray(screenings.filmId, filmIds),
+          gte(screenings.datetime, now),
+          ne(screenings.status, "cancelled")
+        )
       )
       .orderBy(screenings.datetime)
       .limit(50);
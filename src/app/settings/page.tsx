@@ -8,6 +8,10 @@ import { ChevronLeft } from "lucide-react";
 import { ThemeSetting } from "@/components/settings/theme-setting";
 import { NotInterestedList } from "@/components/settings/not-interested-list";
 import { CalendarViewSetting } from "@/components/settings/calendar-view-setting";
+import { CalendarFeedsSetting } from "@/components/settings/calendar-feeds-setting";
+import { NotificationsSetting } from "@/components/settings/notifications-setting";
+import { LetterboxdSetting } from "@/components/settings/letterboxd-setting";
+import { AccountDataSetting } from "@/components/settings/account-data-setting";
 import { CookieConsentSettings } from "@/components/cookie-consent-banner";
 
 export default function SettingsPage() {
@@ -54,6 +58,44 @@ export default function SettingsPage() {
           <CalendarViewSetting />
         </section>
 
+        {/* Calendar Subscriptions Section */}
+        <section className="mb-12">
+          <h2 className="text-xl font-display text-text-primary mb-4">
+            Calendar Subscriptions
+          </h2>
+          <p className="text-text-secondary text-sm mb-6">
+            Add these links to Google Calendar, Apple Calendar or Outlook to keep
+            screenings in sync automatically. Keep them private &mdash; anyone with the
+            link can see the feed.
+          </p>
+
+          <CalendarFeedsSetting />
+        </section>
+
+        {/* Notifications Section */}
+        <section className="mb-12">
+          <h2 className="text-xl font-display text-text-primary mb-4">
+            Watchlist Notifications
+          </h2>
+          <p className="text-text-secondary text-sm mb-6">
+            Get an email when something changes for films you want to see.
+          </p>
+
+          <NotificationsSetting />
+        </section>
+
+        {/* Letterboxd Section */}
+        <section className="mb-12">
+          <h2 className="text-xl font-display text-text-primary mb-4">
+            Letterboxd
+          </h2>
+          <p className="text-text-secondary text-sm mb-6">
+            Bring your film history over from Letterboxd, or take it back there.
+          </p>
+
+          <LetterboxdSetting />
+        </section>
+
         {/* Not Interested Section */}
         <section className="mb-12">
           <h2 className="text-xl font-display text-text-primary mb-4">
@@ -78,6 +120,18 @@ export default function SettingsPage() {
 
           <CookieConsentSettings />
         </section>
+
+        {/* Your Data Section */}
+        <section className="mb-12">
+          <h2 className="text-xl font-display text-text-primary mb-4">
+            Your Data
+          </h2>
+          <p className="text-text-secondary text-sm mb-6">
+            Download a copy of everything stored with your account, or delete it for good.
+          </p>
+
+          <AccountDataSetting />
+        </section>
       </div>
     </div>
   );
@@ -10,7 +10,7 @@ export const dynamic = "force-dynamic";
 
 import { db } from "@/db";
 import { films, screenings, cinemas } from "@/db/schema";
-import { eq, gte, sql } from "drizzle-orm";
+import { and, eq, gte, ne, sql } from "drizzle-orm";
 import { WatchlistView } from "@/components/watchlist/watchlist-view";
 import Link from "next/link";
 import { ChevronLeft } from "lucide-react";
@@ -58,7 +58,7 @@ export default async function WatchlistPage() {
     })
     .from(screenings)
     .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
-    .where(gte(screenings.datetime, now))
+    .where(and(gte(screenings.datetime, now), ne(screenings.status, "cancelled")))
     .orderBy(screenings.datetime);
 
   // Group screenings by film ID for easy lookup
@@ -8,8 +8,10 @@ import { ErrorBoundary } from "@/components/error-boundary";
 import { Loader2, X, Clapperboard, Film } from "lucide-react";
 import { useFilters } from "@/stores/filters";
 import { useUrlFilters } from "@/hooks/useUrlFilters";
+import { filtersToScreeningsQuery } from "@/lib/url-filters";
+import type { ScreeningAccessibility } from "@/lib/filter-constants";
 
-interface Screening {
+interface Screening extends ScreeningAccessibility {
   id: string;
   datetime: Date;
   format?: string | null;
@@ -17,6 +19,7 @@ interface Screening {
   eventType?: string | null;
   eventDescription?: string | null;
   isSpecialEvent?: boolean;
+  priceStandard?: number | null;
   bookingUrl: string;
   film: {
     id: string;
@@ -46,23 +49,28 @@ interface FetchOptions {
   festivalSlug?: string | null;
   festivalOnly?: boolean;
   seasonSlug?: string | null;
+  /** Store filters the API applies in SQL (see filtersToScreeningsQuery) */
+  filterQuery?: string;
 }
 
+// Wait for a pause in typing before refetching for a new search
+const SEARCH_DEBOUNCE_MS = 300;
+
 async function fetchMoreScreenings({
   startDay,
   endDay,
   festivalSlug,
   festivalOnly,
   seasonSlug,
+  filterQuery,
 }: FetchOptions): Promise<Screening[]> {
   const now = new Date();
   const startDate = addDays(now, startDay);
   const endDate = addDays(now, endDay);
 
-  const params = new URLSearchParams({
-    startDate: startDate.toISOString(),
-    endDate: endDate.toISOString(),
-  });
+  const params = new URLSearchParams(filterQuery);
+  params.set("startDate", startDate.toISOString());
+  params.set("endDate", endDate.toISOString());
 
   // Add festival filter if specified
   if (festivalSlug) {
@@ -104,6 +112,55 @@ export function CalendarViewWithLoader({ initialScreenings }: CalendarViewWithLo
   const seasonSlug = useFilters((state) => state.seasonSlug);
   const clearSeasonFilter = useFilters((state) => state.clearSeasonFilter);
 
+  // Filters the API can apply, so only matching screenings are downloaded
+  const filmSearch = useFilters((state) => state.filmSearch);
+  const cinemaIds = useFilters((state) => state.cinemaIds);
+  const timeFrom = useFilters((state) => state.timeFrom);
+  const timeTo = useFilters((state) => state.timeTo);
+  const formats = useFilters((state) => state.formats);
+  const programmingTypes = useFilters((state) => state.programmingTypes);
+  const decades = useFilters((state) => state.decades);
+  const genres = useFilters((state) => state.genres);
+  const accessibility = useFilters((state) => state.accessibility);
+  const maxPrice = useFilters((state) => state.maxPrice);
+  const onlySingleShowings = useFilters((state) => state.onlySingleShowings);
+
+  const [debouncedSearch, setDebouncedSearch] = useState(filmSearch);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(filmSearch), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filmSearch]);
+
+  const filterQuery = useMemo(
+    () =>
+      filtersToScreeningsQuery({
+        filmSearch: debouncedSearch,
+        cinemaIds,
+        timeFrom,
+        timeTo,
+        formats,
+        programmingTypes,
+        decades,
+        genres,
+        accessibility,
+        maxPrice,
+        onlySingleShowings,
+      }).toString(),
+    [
+      debouncedSearch,
+      cinemaIds,
+      timeFrom,
+      timeTo,
+      formats,
+      programmingTypes,
+      decades,
+      genres,
+      accessibility,
+      maxPrice,
+      onlySingleShowings,
+    ]
+  );
+
   // URL filter sync - handles all filter params including festival
   useUrlFilters();
 
@@ -135,60 +192,73 @@ export function CalendarViewWithLoader({ initialScreenings }: CalendarViewWithLo
     }
   }, [dateTo, loadState, maxLoadState]);
 
-  // Include festival and season in query key so React Query refetches when filter changes
-  const festivalKey = festivalSlug || "all";
+  // Include festival, season and filters in query keys so React Query refetches when they change
+  const festivalKey = `${festivalSlug || "all"}${festivalOnly ? "-only" : ""}`;
   const seasonKey = seasonSlug || "all";
-  const filterKey = `${festivalKey}-${seasonKey}`;
+  const scopeKey = `${festivalKey}-${seasonKey}`;
+  const hasScope = !!festivalSlug || festivalOnly || !!seasonSlug;
+
+  // While refetching for changed filters, keep the previous rows: the calendar re-applies
+  // every filter client-side, so they are narrowed immediately. A different festival or
+  // season isn't re-applied client-side, so a scope change starts empty.
+  const keepRowsInScope = useCallback(
+    (previous: Screening[] | undefined, previousQuery?: { queryKey: readonly unknown[] }) =>
+      previousQuery?.queryKey[2] === scopeKey ? previous : undefined,
+    [scopeKey]
+  );
+
+  const fetchDays = (startDay: number, endDay: number) =>
+    fetchMoreScreenings({ startDay, endDay, festivalSlug, festivalOnly, seasonSlug, filterQuery });
 
-  // When festival or season filter is active, fetch initial 3 days with filter (server data is unfiltered)
+  // When a scope or filter is active, fetch initial 3 days with it (server data is unfiltered)
   const initialFilterQuery = useQuery({
-    queryKey: ["screenings", "initial-filter", festivalSlug, seasonSlug],
-    queryFn: () => fetchMoreScreenings({ startDay: 0, endDay: 3, festivalSlug, festivalOnly, seasonSlug }),
-    enabled: !!festivalSlug || !!seasonSlug, // Only fetch when a filter is active
+    queryKey: ["screenings", "initial-filter", scopeKey, filterQuery],
+    queryFn: () => fetchDays(0, 3),
+    enabled: hasScope || filterQuery !== "",
     staleTime: 5 * 60 * 1000,
   });
 
   // Fetch rest of week 1 (days 4-7) - server only sends 3 days for fast initial load
   const week1RestQuery = useQuery({
-    queryKey: ["screenings", "week1-rest", filterKey],
-    queryFn: () => fetchMoreScreenings({ startDay: 3, endDay: 7, festivalSlug, festivalOnly, seasonSlug }),
+    queryKey: ["screenings", "week1-rest", scopeKey, filterQuery],
+    queryFn: () => fetchDays(3, 7),
     enabled: loadState >= 1,
     staleTime: 5 * 60 * 1000,
+    placeholderData: keepRowsInScope,
   });
 
   // Fetch week 2 (days 8-14)
   const week2Query = useQuery({
-    queryKey: ["screenings", "week2", filterKey],
-    queryFn: () => fetchMoreScreenings({ startDay: 7, endDay: 14, festivalSlug, festivalOnly, seasonSlug }),
+    queryKey: ["screenings", "week2", scopeKey, filterQuery],
+    queryFn: () => fetchDays(7, 14),
     enabled: loadState >= 2,
     staleTime: 5 * 60 * 1000,
+    placeholderData: keepRowsInScope,
   });
 
   // Fetch week 3 (days 15-21)
   const week3Query = useQuery({
-    queryKey: ["screenings", "week3", filterKey],
-    queryFn: () => fetchMoreScreenings({ startDay: 14, endDay: 21, festivalSlug, festivalOnly, seasonSlug }),
+    queryKey: ["screenings", "week3", scopeKey, filterQuery],
+    queryFn: () => fetchDays(14, 21),
     enabled: loadState >= 3,
     staleTime: 5 * 60 * 1000,
+    placeholderData: keepRowsInScope,
   });
 
   // Fetch week 4 (days 22-28)
   const week4Query = useQuery({
-    queryKey: ["screenings", "week4", filterKey],
-    queryFn: () => fetchMoreScreenings({ startDay: 21, endDay: 28, festivalSlug, festivalOnly, seasonSlug }),
+    queryKey: ["screenings", "week4", scopeKey, filterQuery],
+    queryFn: () => fetchDays(21, 28),
     enabled: loadState >= 4,
     staleTime: 5 * 60 * 1000,
+    placeholderData: keepRowsInScope,
   });
 
   // Merge all loaded screenings
   const allScreenings = useMemo(() => {
-    // Use filtered initial data when festival or season filter is active, otherwise use server data
-    const hasFilter = festivalSlug || seasonSlug;
-    const baseScreenings = hasFilter && initialFilterQuery.data
-      ? initialFilterQuery.data
-      : hasFilter
-        ? [] // Loading filtered data
-        : initialScreenings;
+    // Use filtered initial data once loaded. Until then, the unfiltered server data works for
+    // plain filters (re-applied client-side) but not for a festival or season scope.
+    const baseScreenings = initialFilterQuery.data ?? (hasScope ? [] : initialScreenings);
 
     const screenings = [...baseScreenings];
 
@@ -214,10 +284,10 @@ export function CalendarViewWithLoader({ initialScreenings }: CalendarViewWithLo
     return Array.from(uniqueMap.values()).sort(
       (a, b) => new Date(a.datetime).getTime() - new Date(b.datetime).getTime()
     );
-  }, [initialScreenings, festivalSlug, seasonSlug, initialFilterQuery.data, week1RestQuery.data, week2Query.data, week3Query.data, week4Query.data]);
+  }, [initialScreenings, hasScope, initialFilterQuery.data, week1RestQuery.data, week2Query.data, week3Query.data, week4Query.data]);
 
   const isLoading =
-    ((festivalSlug || seasonSlug) && initialFilterQuery.isLoading) ||
+    (hasScope && initialFilterQuery.isLoading) ||
     (loadState >= 1 && week1RestQuery.isLoading) ||
     (loadState >= 2 && week2Query.isLoading) ||
     (loadState >= 3 && week3Query.isLoading) ||
@@ -9,7 +9,8 @@ import { useMemo, useState, useEffect } from "react";
 import { startOfDay, endOfDay, format, isWithinInterval, getHours } from "date-fns";
 import { DaySection } from "./day-section";
 import { TableView } from "./table-view";
-import { useFilters, getTimeOfDayFromHour, isIndependentCinema } from "@/stores/filters";
+import { useFilters, getTimeOfDayFromHour, hasAccessibilityFlag, isIndependentCinema } from "@/stores/filters";
+import type { ScreeningAccessibility } from "@/lib/filter-constants";
 import { useFilmStatus } from "@/stores/film-status";
 import { usePreferences } from "@/stores/preferences";
 import { useHydrated } from "@/hooks/useHydrated";
@@ -21,7 +22,7 @@ import { Film, Search, MapPin } from "lucide-react";
 // Stable reference for empty set (prevents unnecessary re-renders)
 const EMPTY_SET = new Set<string>();
 
-interface Screening {
+interface Screening extends ScreeningAccessibility {
   id: string;
   datetime: Date;
   format?: string | null;
@@ -29,6 +30,7 @@ interface Screening {
   eventType?: string | null;
   eventDescription?: string | null;
   isSpecialEvent?: boolean;
+  priceStandard?: number | null;
   bookingUrl: string;
   film: {
     id: string;
@@ -259,6 +261,20 @@ export function CalendarView({ screenings }: CalendarViewProps) {
         }
       }
 
+      // Accessibility filter - screening must have every selected feature
+      if (filters.accessibility.length > 0) {
+        if (!filters.accessibility.every((flag) => hasAccessibilityFlag(s, flag))) {
+          return false;
+        }
+      }
+
+      // Max price filter - standard ticket in pence vs. pounds; unpriced screenings hidden
+      if (filters.maxPrice !== null) {
+        if (s.priceStandard == null || s.priceStandard > filters.maxPrice * 100) {
+          return false;
+        }
+      }
+
       // Only single showings per day across London - uses pre-parsed dateKey
       if (filters.onlySingleShowings && singleShowingSet) {
         const key = `${s._dateKey}|${s.film.id}`;
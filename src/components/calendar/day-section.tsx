@@ -11,6 +11,7 @@ import { format } from "date-fns";
 import { ScreeningCard } from "./screening-card";
 import { FilmCard } from "./film-card";
 import { useSafeDateLabels } from "@/hooks/useSafeDateLabels";
+import type { ScreeningAccessibility } from "@/lib/filter-constants";
 
 interface FilmGroup {
   film: {
@@ -34,7 +35,7 @@ interface FilmGroup {
 
 interface DaySectionProps {
   date: Date;
-  screenings: Array<{
+  screenings: Array<ScreeningAccessibility & {
     id: string;
     datetime: Date;
     format?: string | null;
@@ -0,0 +1,110 @@
+/**
+ * For You Section
+ * A row of upcoming films picked from the signed-in user's watchlist and
+ * ratings, each with the reason it was picked
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { format } from "date-fns";
+import { Film, Sparkles } from "lucide-react";
+import { useUser } from "@/hooks/useClerkSafe";
+import { useHydrated } from "@/hooks/useHydrated";
+import { useFilmStatus } from "@/stores/film-status";
+import { POSTER_BLUR_PLACEHOLDER } from "@/lib/constants";
+
+interface Recommendation {
+  film: {
+    id: string;
+    title: string;
+    year: number | null;
+    directors: string[];
+    posterUrl: string | null;
+  };
+  score: number;
+  reasons: string[];
+  nextScreening: string;
+  upcomingCount: number;
+}
+
+export function ForYouSection() {
+  const hydrated = useHydrated();
+  const { isSignedIn } = useUser();
+  const statuses = useFilmStatus((state) => state.films);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    let cancelled = false;
+
+    fetch("/api/user/recommendations")
+      .then((res) => (res.ok ? res.json() : { recommendations: [] }))
+      .then((data) => {
+        if (!cancelled) setRecommendations(data.recommendations ?? []);
+      })
+      .catch(() => {
+        // Recommendations are a nice-to-have - stay hidden on failure
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn]);
+
+  // Drop films the user has marked since the recommendations were loaded
+  const visible = recommendations.filter((rec) => !statuses[rec.film.id]?.status);
+
+  if (!hydrated || !isSignedIn || visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="for-you-heading" className="mb-6">
+      <h2 id="for-you-heading" className="flex items-center gap-2 text-lg font-display text-text-primary mb-3">
+        <Sparkles className="w-4 h-4 text-accent-primary" aria-hidden="true" />
+        For you
+      </h2>
+
+      <ul className="flex gap-3 overflow-x-auto pb-2 -mx-1 px-1">
+        {visible.map((rec) => (
+          <li key={rec.film.id} className="w-36 shrink-0">
+            <Link href={`/film/${rec.film.id}`} className="group block">
+              <div className="relative aspect-[2/3] rounded-lg overflow-hidden bg-background-tertiary">
+                {rec.film.posterUrl ? (
+                  <Image
+                    src={rec.film.posterUrl}
+                    alt={rec.film.title}
+                    fill
+                    className="object-cover"
+                    sizes="144px"
+                    placeholder="blur"
+                    blurDataURL={POSTER_BLUR_PLACEHOLDER}
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Film className="w-8 h-8 text-text-tertiary" aria-hidden="true" />
+                  </div>
+                )}
+              </div>
+              <h3 className="mt-2 text-sm font-medium text-text-primary group-hover:text-accent-primary transition-colors truncate">
+                {rec.film.title}
+              </h3>
+            </Link>
+            <p className="text-xs text-text-tertiary">
+              Next {format(new Date(rec.nextScreening), "EEE d MMM")}
+              {rec.upcomingCount > 1 && ` · ${rec.upcomingCount} showings`}
+            </p>
+            {rec.reasons[0] && (
+              <p className="mt-1 text-xs text-text-secondary line-clamp-2" title={rec.reasons.join("\n")}>
+                {rec.reasons[0]}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
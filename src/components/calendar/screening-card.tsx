@@ -15,6 +15,13 @@ import { cn } from "@/lib/cn";
 import { POSTER_BLUR_PLACEHOLDER, getSpecialFormat } from "@/lib/constants";
 import { useFilmStatus } from "@/stores/film-status";
 import { useFilters } from "@/stores/filters";
+import {
+  ACCESSIBILITY_FLAGS,
+  getAccessibilityLabel,
+  hasAccessibilityFlag,
+  type AccessibilityFlag,
+  type ScreeningAccessibility,
+} from "@/lib/filter-constants";
 import { memo } from "react";
 import { useHydrated } from "@/hooks/useHydrated";
 import { usePostHog } from "posthog-js/react";
@@ -24,7 +31,7 @@ import { FilmStatusButtons } from "./film-status-buttons";
 type AvailabilityStatus = "available" | "low" | "sold_out" | "returns" | "unknown" | null;
 
 interface ScreeningCardProps {
-  screening: {
+  screening: ScreeningAccessibility & {
     id: string;
     datetime: Date;
     format?: string | null;
@@ -52,8 +59,8 @@ interface ScreeningCardProps {
 
 const AVAILABILITY_CONFIG: Record<string, { label: string; bgClass: string; textClass: string }> = {
   sold_out: { label: "Sold Out", bgClass: "bg-accent-danger/90", textClass: "text-white" },
-  low: { label: "Low Availability", bgClass: "bg-amber-500/90", textClass: "text-white" },
-  returns: { label: "Returns Only", bgClass: "bg-accent-gold/90", textClass: "text-black" },
+  low: { label: "Selling Fast", bgClass: "bg-amber-500/90", textClass: "text-white" },
+  returns: { label: "Returns Available", bgClass: "bg-accent-gold/90", textClass: "text-black" },
 };
 
 function AvailabilityBadge({ status }: { status: AvailabilityStatus }): React.ReactElement | null {
@@ -72,6 +79,33 @@ function AvailabilityBadge({ status }: { status: AvailabilityStatus }): React.Re
   );
 }
 
+// Short badge text - the full label is the tooltip and screen reader text
+const ACCESSIBILITY_BADGES: Record<AccessibilityFlag, string> = {
+  subtitled: "CC",
+  audio_described: "AD",
+  relaxed: "Relaxed",
+  baby_friendly: "Baby",
+  dementia_friendly: "DF",
+};
+
+function AccessibilityBadges({ screening }: { screening: ScreeningAccessibility }): React.ReactElement | null {
+  const flags = ACCESSIBILITY_FLAGS.filter((flag) => hasAccessibilityFlag(screening, flag));
+  if (flags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {flags.map((flag) => (
+        <span
+          key={flag}
+          title={getAccessibilityLabel(flag)}
+          className="px-1.5 py-0.5 text-[9px] font-medium uppercase tracking-wide rounded border border-accent-primary/30 text-accent-primary"
+        >
+          <span aria-hidden="true">{ACCESSIBILITY_BADGES[flag]}</span>
+          <span className="sr-only">{getAccessibilityLabel(flag)}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
 
 export const ScreeningCard = memo(function ScreeningCard({ screening }: ScreeningCardProps) {
   const { film, cinema, datetime } = screening;
@@ -226,6 +260,8 @@ export const ScreeningCard = memo(function ScreeningCard({ screening }: Screenin
             {film.directors[0]}
           </p>
         )}
+
+        <AccessibilityBadges screening={screening} />
       </Link>
     </article>
   );
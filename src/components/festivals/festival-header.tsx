@@ -6,9 +6,10 @@
  */
 
 import { Badge } from "@/components/ui/badge";
-import { Calendar } from "lucide-react";
+import { Calendar, CalendarPlus } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import type { FestivalSelect } from "@/db/schema/festivals";
+import { getWebcalUrl } from "@/lib/ical";
 
 interface FestivalHeaderProps {
   festival: FestivalSelect;
@@ -71,6 +72,15 @@ export function FestivalHeader({ festival, status }: FestivalHeaderProps) {
           {formatDateRange()}
         </span>
         <Badge variant={statusBadge.variant}>{statusBadge.text}</Badge>
+        {status !== "past" && (
+          <a
+            href={getWebcalUrl(`/api/calendar/festivals/${festival.slug}`)}
+            className="inline-flex items-center gap-1.5 text-sm text-accent-primary hover:underline"
+          >
+            <CalendarPlus className="w-4 h-4" aria-hidden="true" />
+            Subscribe in Calendar
+          </a>
+        )}
       </div>
 
       {/* Description */}
@@ -0,0 +1,268 @@
+/**
+ * Festival Planner Component
+ * Lays out the user's festival plan day by day and flags what won't work:
+ * overlapping screenings, changeovers too short to get between venues, and
+ * other showings of a clashing film that would fit instead
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowRightLeft, CheckCircle2, Footprints } from "lucide-react";
+import { useFestivalStore } from "@/stores/festival";
+import { useReachable, type TravelMode } from "@/stores/reachable";
+import { useHydrated } from "@/hooks/useHydrated";
+import { estimateTravelMinutes, fetchTravelTimes } from "@/lib/travel-time";
+import {
+  detectClashes,
+  findGaps,
+  screeningEnd,
+  suggestAlternatives,
+  venueHops,
+  type PlanClash,
+  type PlanGap,
+  type PlannerScreening,
+  type TravelLookup,
+} from "@/lib/festival-planner";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/cn";
+
+/** A programme screening as passed from the server (dates as ISO strings) */
+export type PlannerProgrammeScreening = Omit<PlannerScreening, "datetime"> & { datetime: string };
+
+interface FestivalPlannerProps {
+  festivalId: string;
+  programme: PlannerProgrammeScreening[];
+}
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  transit: "by public transport",
+  walking: "on foot",
+  bicycling: "by bike",
+};
+
+function timeRange(screening: PlannerScreening): string {
+  return `${format(screening.datetime, "HH:mm")}–${format(screeningEnd(screening), "HH:mm")}`;
+}
+
+export function FestivalPlanner({ festivalId, programme: rawProgramme }: FestivalPlannerProps) {
+  const hydrated = useHydrated();
+  const schedule = useFestivalStore((state) => state.schedule);
+  const addToSchedule = useFestivalStore((state) => state.addToSchedule);
+  const removeFromSchedule = useFestivalStore((state) => state.removeFromSchedule);
+  const travelMode = useReachable((state) => state.travelMode);
+  const [fetchedTimes, setFetchedTimes] = useState<Record<string, number>>({});
+
+  const programme = useMemo(
+    () => rawProgramme.map((s) => ({ ...s, datetime: new Date(s.datetime) })),
+    [rawProgramme]
+  );
+
+  // Wishlisted and booked screenings from this festival's programme
+  const { plan, booked } = useMemo(() => {
+    const entries = Object.values(schedule).filter(
+      (e) => e.festivalId === festivalId && (e.status === "wishlist" || e.status === "booked")
+    );
+    const ids = new Set(entries.map((e) => e.screeningId));
+    return {
+      plan: programme.filter((s) => ids.has(s.screeningId)),
+      booked: new Set(entries.filter((e) => e.status === "booked").map((e) => e.screeningId)),
+    };
+  }, [schedule, festivalId, programme]);
+
+  const coordinates = useMemo(
+    () => new Map(programme.map((s) => [s.cinemaId, s.coordinates])),
+    [programme]
+  );
+
+  // Distance Matrix times between the venues the plan moves between
+  useEffect(() => {
+    const missing = venueHops(plan).filter(
+      ({ from, to }) =>
+        from.coordinates && to.coordinates && !(`${travelMode}:${from.cinemaId}->${to.cinemaId}` in fetchedTimes)
+    );
+    if (missing.length === 0) return;
+
+    const byOrigin = new Map<string, PlannerScreening[]>();
+    for (const { from, to } of missing) {
+      byOrigin.set(from.cinemaId, [...(byOrigin.get(from.cinemaId) ?? []), to]);
+    }
+
+    let cancelled = false;
+    Promise.all(
+      [...byOrigin.entries()].map(async ([originId, destinations]) => {
+        const times = await fetchTravelTimes(
+          coordinates.get(originId)!,
+          destinations.map((d) => ({ id: d.cinemaId, coordinates: d.coordinates })),
+          travelMode
+        ).catch(() => ({}) as Record<string, { minutes: number }>);
+        return destinations.map((d) => [
+          `${travelMode}:${originId}->${d.cinemaId}`,
+          // Fall back to an estimate so failed lookups aren't retried
+          times[d.cinemaId]?.minutes ?? estimateTravelMinutes(coordinates.get(originId)!, d.coordinates!, travelMode),
+        ] as const);
+      })
+    ).then((results) => {
+      if (!cancelled) setFetchedTimes((prev) => ({ ...prev, ...Object.fromEntries(results.flat()) }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plan, travelMode, coordinates, fetchedTimes]);
+
+  const travel: TravelLookup = (fromId, toId) => {
+    const fetched = fetchedTimes[`${travelMode}:${fromId}->${toId}`];
+    if (fetched !== undefined) return fetched;
+    const from = coordinates.get(fromId);
+    const to = coordinates.get(toId);
+    return from && to ? estimateTravelMinutes(from, to, travelMode) : null;
+  };
+
+  if (!hydrated) return null;
+
+  if (plan.length === 0) {
+    return (
+      <div className="bg-background-secondary border border-border-subtle rounded-lg p-6 text-sm text-text-secondary">
+        Add screenings to your plan below and we&apos;ll check for clashes and travel time between venues.
+      </div>
+    );
+  }
+
+  const clashes = detectClashes(plan);
+  const gaps = findGaps(plan, travel);
+  const tightGaps = gaps.filter((g) => g.tight);
+
+  const clashesFor = (s: PlannerScreening): { other: PlannerScreening; clash: PlanClash }[] =>
+    clashes.flatMap((clash) =>
+      clash.first === s ? [{ other: clash.second, clash }] : clash.second === s ? [{ other: clash.first, clash }] : []
+    );
+  const gapBefore = new Map<string, PlanGap>(gaps.map((g) => [g.to.screeningId, g]));
+
+  const days = new Map<string, PlannerScreening[]>();
+  for (const s of [...plan].sort((a, b) => a.datetime.getTime() - b.datetime.getTime())) {
+    const key = format(s.datetime, "yyyy-MM-dd");
+    days.set(key, [...(days.get(key) ?? []), s]);
+  }
+
+  const swap = (from: PlannerScreening, to: PlannerScreening) => {
+    removeFromSchedule(from.screeningId);
+    addToSchedule({
+      festivalId,
+      screeningId: to.screeningId,
+      status: "wishlist",
+      filmId: to.filmId,
+      filmTitle: to.filmTitle,
+      datetime: to.datetime.toISOString(),
+      cinemaId: to.cinemaId,
+      cinemaName: to.cinemaName,
+    });
+  };
+
+  return (
+    <div className="bg-background-card border border-border-subtle rounded-lg p-4 sm:p-6">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <h3 className="text-lg font-display text-text-primary mr-auto">Your Plan</h3>
+        <Badge variant="default">{plan.length} screenings</Badge>
+        {clashes.length > 0 && <Badge variant="danger">{clashes.length} clashes</Badge>}
+        {tightGaps.length > 0 && <Badge variant="warning">{tightGaps.length} tight changeovers</Badge>}
+        {clashes.length === 0 && tightGaps.length === 0 && (
+          <Badge variant="success" icon={<CheckCircle2 className="w-3 h-3" aria-hidden="true" />}>
+            All doable
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {[...days.entries()].map(([dayKey, screenings]) => (
+          <section key={dayKey}>
+            <h4 className="text-sm font-medium text-text-tertiary uppercase tracking-wide mb-2">
+              {format(screenings[0].datetime, "EEEE d MMMM")}
+            </h4>
+
+            <ol className="border-l-2 border-border-default ml-2 space-y-1">
+              {screenings.map((s) => {
+                const gap = gapBefore.get(s.screeningId);
+                const sClashes = clashesFor(s);
+                const alternatives =
+                  sClashes.length > 0 && !booked.has(s.screeningId)
+                    ? suggestAlternatives(s, plan, programme, travel)
+                    : [];
+
+                return (
+                  <li key={s.screeningId} className="pl-4 relative">
+                    {gap && gap.from.cinemaId !== gap.to.cinemaId && (
+                      <p
+                        className={cn(
+                          "flex items-center gap-1.5 text-xs py-1",
+                          gap.tight ? "text-amber-700" : "text-text-tertiary"
+                        )}
+                      >
+                        {gap.tight ? (
+                          <AlertTriangle className="w-3.5 h-3.5" aria-hidden="true" />
+                        ) : (
+                          <Footprints className="w-3.5 h-3.5" aria-hidden="true" />
+                        )}
+                        {gap.tight ? "Only " : ""}
+                        {gap.gapMinutes} min to get to {s.cinemaName}
+                        {gap.travelMinutes !== null &&
+                          ` (about ${gap.travelMinutes} min ${MODE_LABELS[travelMode]})`}
+                      </p>
+                    )}
+
+                    <div
+                      className={cn(
+                        "rounded-md border p-3",
+                        sClashes.length > 0
+                          ? "border-accent-danger/40 bg-accent-danger/5"
+                          : "border-border-subtle"
+                      )}
+                    >
+                      <div className="flex items-baseline gap-3">
+                        <span className="text-sm font-mono text-text-secondary shrink-0">{timeRange(s)}</span>
+                        <span className="font-medium text-text-primary truncate">{s.filmTitle}</span>
+                        {booked.has(s.screeningId) && (
+                          <Badge variant="success" size="sm" className="ml-auto">
+                            Booked
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-text-tertiary mt-0.5">{s.cinemaName}</p>
+
+                      {sClashes.map(({ other, clash }) => (
+                        <p key={other.screeningId} className="text-xs text-accent-danger mt-2">
+                          Overlaps {other.filmTitle} by {clash.overlapMinutes} min
+                        </p>
+                      ))}
+
+                      {alternatives.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {alternatives.map((alt) => (
+                            <li key={alt.screeningId} className="flex items-center gap-2 text-xs text-text-secondary">
+                              <span>
+                                Try {format(alt.datetime, "EEE d MMM, HH:mm")} at {alt.cinemaName}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => swap(s, alt)}
+                                className="inline-flex items-center gap-1 text-accent-primary hover:text-accent-primary-hover font-medium"
+                              >
+                                <ArrowRightLeft className="w-3 h-3" aria-hidden="true" />
+                                Swap
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
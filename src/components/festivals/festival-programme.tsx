@@ -5,6 +5,8 @@ import { format } from "date-fns";
 import Image from "next/image";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, MapPin } from "lucide-react";
+import { FestivalPlanner, type PlannerProgrammeScreening } from "./festival-planner";
+import { PlanButton } from "./plan-button";
 
 // Blur placeholder for poster images to prevent CLS
 const POSTER_BLUR = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAPCAYAAADd/14OAAAACXBIWXMAAAsTAAALEwEAmpwYAAAAKklEQVQoz2Nk+M/AQAxgZGBg+M9AB2BkYGBgZGRgYGCgF2D4T7wexAAGABPmAhHXnXDuAAAAAElFTkSuQmCC";
@@ -39,6 +41,18 @@ export async function FestivalProgramme({ festivalId }: FestivalProgrammeProps)
     );
   }
 
+  const plannerProgramme: PlannerProgrammeScreening[] = results.map(({ screening, film, cinema }) => ({
+    screeningId: screening.id,
+    filmId: film.id,
+    filmTitle: film.title,
+    datetime: screening.datetime.toISOString(),
+    runtime: film.runtime,
+    cinemaId: cinema.id,
+    cinemaName: cinema.shortName ?? cinema.name,
+    coordinates: cinema.coordinates,
+    bookingUrl: screening.bookingUrl,
+  }));
+
   // Group by date
   const byDate = new Map<string, typeof results>();
   for (const item of results) {
@@ -51,6 +65,8 @@ export async function FestivalProgramme({ festivalId }: FestivalProgrammeProps)
 
   return (
     <div className="space-y-12 mt-8">
+      <FestivalPlanner festivalId={festivalId} programme={plannerProgramme} />
+
       {Array.from(byDate.entries()).map(([dateKey, items]) => {
         const date = new Date(dateKey);
         return (
@@ -129,14 +145,25 @@ export async function FestivalProgramme({ festivalId }: FestivalProgrammeProps)
                       <span className="truncate">{cinema.shortName}</span>
                     </div>
                     
-                    <a
-                      href={screening.bookingUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="block w-full text-center py-2 px-4 bg-background-secondary hover:bg-background-hover border border-border-default rounded text-sm font-medium transition-colors"
-                    >
-                      Book Ticket
-                    </a>
+                    <div className="space-y-2">
+                      <PlanButton
+                        festivalId={festivalId}
+                        screeningId={screening.id}
+                        filmId={film.id}
+                        filmTitle={film.title}
+                        datetime={screening.datetime.toISOString()}
+                        cinemaId={cinema.id}
+                        cinemaName={cinema.shortName ?? cinema.name}
+                      />
+                      <a
+                        href={screening.bookingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block w-full text-center py-2 px-4 bg-background-secondary hover:bg-background-hover border border-border-default rounded text-sm font-medium transition-colors"
+                      >
+                        Book Ticket
+                      </a>
+                    </div>
                   </div>
                 </div>
               ))}
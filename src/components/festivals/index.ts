@@ -14,3 +14,6 @@ export type { FollowButtonProps } from "./follow-button";
 export { FestivalHeader } from "./festival-header";
 export { FestivalKeyDates } from "./festival-key-dates";
 export { FestivalVenues } from "./festival-venues";
+export { FestivalPlanner } from "./festival-planner";
+export { PlanButton } from "./plan-button";
+export type { PlanButtonProps } from "./plan-button";
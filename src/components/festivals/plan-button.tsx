@@ -0,0 +1,53 @@
+/**
+ * Plan Button Component
+ * Adds a festival screening to (or removes it from) the user's festival plan
+ */
+
+"use client";
+
+import { Check, Plus } from "lucide-react";
+import { useFestivalStore } from "@/stores/festival";
+import { useHydrated } from "@/hooks/useHydrated";
+import { cn } from "@/lib/cn";
+
+export interface PlanButtonProps {
+  festivalId: string;
+  screeningId: string;
+  filmId: string;
+  filmTitle: string;
+  datetime: string;
+  cinemaId: string;
+  cinemaName: string;
+}
+
+export function PlanButton({ festivalId, screeningId, ...screening }: PlanButtonProps) {
+  const hydrated = useHydrated();
+  const entry = useFestivalStore((state) => state.schedule[screeningId]);
+  const addToSchedule = useFestivalStore((state) => state.addToSchedule);
+  const removeFromSchedule = useFestivalStore((state) => state.removeFromSchedule);
+
+  const inPlan = hydrated && !!entry;
+  const isBooked = hydrated && entry?.status === "booked";
+
+  return (
+    <button
+      type="button"
+      disabled={isBooked}
+      onClick={() =>
+        inPlan
+          ? removeFromSchedule(screeningId)
+          : addToSchedule({ festivalId, screeningId, status: "wishlist", ...screening })
+      }
+      aria-pressed={inPlan}
+      className={cn(
+        "flex items-center justify-center gap-1.5 w-full py-2 px-4 rounded text-sm font-medium border transition-colors",
+        inPlan
+          ? "bg-accent-primary/10 border-accent-primary/40 text-accent-primary"
+          : "bg-background-secondary hover:bg-background-hover border-border-default text-text-primary"
+      )}
+    >
+      {inPlan ? <Check className="w-4 h-4" aria-hidden="true" /> : <Plus className="w-4 h-4" aria-hidden="true" />}
+      {isBooked ? "Booked" : inPlan ? "In Plan" : "Add to Plan"}
+    </button>
+  );
+}
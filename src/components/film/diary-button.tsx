@@ -0,0 +1,55 @@
+/**
+ * Diary Button Component
+ * "I've seen it" on the film page - opens the diary entry dialog, and shows
+ * the logged date and rating once the film is in the diary
+ */
+
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { BookOpen, Check } from "lucide-react";
+import { useFilmStatus } from "@/stores/film-status";
+import { useHydrated } from "@/hooks/useHydrated";
+import { cn } from "@/lib/cn";
+import { DiaryEntryDialog, type DiaryFilm } from "./diary-entry-dialog";
+import { StarRating } from "./star-rating";
+
+export function DiaryButton({ film }: { film: DiaryFilm }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const hydrated = useHydrated();
+  const entry = useFilmStatus((state) => state.films[film.id]);
+
+  const logged = hydrated && entry?.status === "seen" ? entry : null;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={cn(
+          "flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors",
+          logged
+            ? "bg-green-500/20 text-green-400 border-green-500/50"
+            : "border-border-default text-text-secondary hover:border-border-emphasis hover:text-text-primary"
+        )}
+      >
+        {logged ? (
+          <>
+            <Check className="w-4 h-4" aria-hidden="true" />
+            <span className="text-sm font-medium">
+              Seen{logged.seenAt && ` ${format(new Date(logged.seenAt), "d MMM yyyy")}`}
+            </span>
+            {logged.rating && <StarRating value={logged.rating} size="sm" />}
+          </>
+        ) : (
+          <>
+            <BookOpen className="w-4 h-4" aria-hidden="true" />
+            <span className="text-sm">I&apos;ve seen it</span>
+          </>
+        )}
+      </button>
+
+      {isOpen && <DiaryEntryDialog film={film} onClose={() => setIsOpen(false)} />}
+    </>
+  );
+}
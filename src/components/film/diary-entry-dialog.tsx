@@ -0,0 +1,244 @@
+/**
+ * Diary Entry Dialog Component
+ * Logs a film as seen: the date, a half-star rating, notes, and the screening
+ * it was seen at (picked from its screenings in the last two weeks)
+ */
+
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import { format } from "date-fns";
+import { X } from "lucide-react";
+import { useFilmStatus, type FilmMetadata } from "@/stores/film-status";
+import { useBodyScrollLock } from "@/hooks/useBodyScrollLock";
+import { formatLabel } from "@/lib/film-history";
+import { StarRating } from "./star-rating";
+
+export interface DiaryFilm extends FilmMetadata {
+  id: string;
+}
+
+interface RecentScreening {
+  id: string;
+  datetime: string;
+  format: string | null;
+  cinema: { id: string; name: string; shortName: string | null };
+}
+
+interface DiaryEntryDialogProps {
+  film: DiaryFilm;
+  onClose: () => void;
+}
+
+const ELSEWHERE = "";
+
+/** Watch dates without a time are stored at midday, like Letterboxd imports */
+function dateToSeenAt(date: string): string {
+  return `${date}T12:00:00.000Z`;
+}
+
+function screeningLabel(screening: RecentScreening): string {
+  const formatName = screening.format ? formatLabel(screening.format) : null;
+  return [
+    format(new Date(screening.datetime), "EEE d MMM, HH:mm"),
+    screening.cinema.shortName ?? screening.cinema.name,
+    formatName,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function DiaryEntryDialog({ film, onClose }: DiaryEntryDialogProps) {
+  const existing = useFilmStatus((state) => state.films[film.id]);
+  const logDiaryEntry = useFilmStatus((state) => state.logDiaryEntry);
+  const fieldId = useId();
+
+  const [date, setDate] = useState(() =>
+    format(existing?.status === "seen" && existing.seenAt ? new Date(existing.seenAt) : new Date(), "yyyy-MM-dd")
+  );
+  const [rating, setRating] = useState<number | null>(existing?.rating ?? null);
+  const [notes, setNotes] = useState(existing?.notes ?? "");
+  const [screenings, setScreenings] = useState<RecentScreening[]>([]);
+  const [screeningId, setScreeningId] = useState(existing?.seenScreeningId ?? ELSEWHERE);
+
+  useBodyScrollLock(true);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/films/${film.id}/recent-screenings`, { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : { screenings: [] }))
+      .then((data: { screenings: RecentScreening[] }) => setScreenings(data.screenings))
+      .catch((error) => {
+        if (error instanceof Error && error.name === "AbortError") return;
+        console.error("Failed to load recent screenings:", error);
+      });
+
+    return () => controller.abort();
+  }, [film.id]);
+
+  const selected = screenings.find((s) => s.id === screeningId);
+  // A screening logged earlier may have dropped out of the two-week window
+  const keepExisting = !selected && screeningId !== ELSEWHERE && existing?.seenScreeningId === screeningId;
+
+  const handleScreeningChange = (id: string) => {
+    setScreeningId(id);
+    const screening = screenings.find((s) => s.id === id);
+    if (screening) setDate(format(new Date(screening.datetime), "yyyy-MM-dd"));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { id, ...filmData } = film;
+    logDiaryEntry(
+      id,
+      {
+        seenAt: selected ? new Date(selected.datetime).toISOString() : keepExisting ? existing.seenAt! : dateToSeenAt(date),
+        rating,
+        notes,
+        screening: selected
+          ? {
+              id: selected.id,
+              cinemaId: selected.cinema.id,
+              cinemaName: selected.cinema.name,
+              format: selected.format,
+            }
+          : keepExisting
+            ? {
+                id: existing.seenScreeningId!,
+                cinemaId: existing.seenCinemaId!,
+                cinemaName: existing.seenCinemaName!,
+                format: existing.seenFormat ?? null,
+              }
+            : null,
+      },
+      filmData
+    );
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <button
+        type="button"
+        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 cursor-default"
+        onClick={onClose}
+        aria-label="Close"
+        tabIndex={-1}
+      />
+
+      {/* Dialog */}
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={`${fieldId}-title`}
+        className="fixed inset-x-4 top-[10%] sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-full sm:max-w-md z-50"
+      >
+        <form
+          onSubmit={handleSave}
+          className="bg-background-secondary border border-border-default rounded-xl shadow-elevated p-5 space-y-4"
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-text-tertiary">I saw</p>
+              <h2 id={`${fieldId}-title`} className="text-lg font-display text-text-primary">
+                {film.title}
+                {film.year && <span className="text-text-tertiary font-normal"> ({film.year})</span>}
+              </h2>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 rounded-lg hover:bg-background-tertiary transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5 text-text-secondary" aria-hidden="true" />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor={`${fieldId}-screening`} className="block text-sm text-text-secondary">
+              Where
+            </label>
+            <select
+              id={`${fieldId}-screening`}
+              value={screeningId}
+              onChange={(e) => handleScreeningChange(e.target.value)}
+              className="w-full bg-background-primary border border-border-default rounded-lg px-3 py-2 text-sm text-text-primary"
+            >
+              <option value={ELSEWHERE}>Elsewhere / not listed</option>
+              {keepExisting && (
+                <option value={screeningId}>{existing.seenCinemaName ?? "Earlier screening"}</option>
+              )}
+              {screenings.map((screening) => (
+                <option key={screening.id} value={screening.id}>
+                  {screeningLabel(screening)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {!selected && !keepExisting && (
+            <div className="space-y-1">
+              <label htmlFor={`${fieldId}-date`} className="block text-sm text-text-secondary">
+                When
+              </label>
+              <input
+                id={`${fieldId}-date`}
+                type="date"
+                required
+                value={date}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full bg-background-primary border border-border-default rounded-lg px-3 py-2 text-sm text-text-primary"
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <span className="block text-sm text-text-secondary">Rating</span>
+            <StarRating value={rating} onChange={setRating} />
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor={`${fieldId}-notes`} className="block text-sm text-text-secondary">
+              Notes
+            </label>
+            <textarea
+              id={`${fieldId}-notes`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={5000}
+              rows={4}
+              placeholder="What did you think?"
+              className="w-full bg-background-primary border border-border-default rounded-lg px-3 py-2 text-sm text-text-primary placeholder:text-text-tertiary"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm rounded-lg border border-border-default text-text-secondary hover:text-text-primary"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="px-3 py-1.5 text-sm rounded-lg bg-accent-primary text-text-inverse">
+              Save to diary
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -2,6 +2,7 @@
  * Film Screenings Component
  * Shows upcoming screenings for a film, grouped by cinema
  * Includes filters for cinema search, time range, and date selection
+ * Highlights the cheapest showing when cinemas publish ticket prices
  *
  * IMPORTANT: Reads initial filter values from global store to persist
  * filters applied on homepage when navigating to film detail.
@@ -11,12 +12,12 @@
 
 import { useState, useMemo, useEffect, useCallback } from "react";
 import { format, isSameDay, getHours, startOfDay, endOfDay } from "date-fns";
-import { MapPin, ExternalLink, Search, Filter } from "lucide-react";
+import { MapPin, ExternalLink, Search, Filter, Tag } from "lucide-react";
 import { cn } from "@/lib/cn";
 import { usePostHog } from "posthog-js/react";
 import { ScreeningFilters, type FilmScreeningFilters } from "./screening-filters";
 import { EmptyState } from "@/components/ui";
-import { useFilters } from "@/stores/filters";
+import { useFilters, formatPrice } from "@/stores/filters";
 import { useSafeDateLabels } from "@/hooks/useSafeDateLabels";
 
 interface Screening {
@@ -26,6 +27,10 @@ interface Screening {
   screen?: string | null;
   eventType?: string | null;
   bookingUrl: string;
+  /** Standard adult price in minor units (pence), when the cinema publishes it */
+  priceStandard?: number | null;
+  priceCurrency?: string | null;
+  availabilityStatus?: string | null;
   cinema: {
     id: string;
     name: string;
@@ -57,6 +62,13 @@ const eventTypeBadges: Record<string, { label: string; className: string }> = {
   discussion: { label: "Discussion", className: "bg-accent-primary/20 text-accent-primary" },
 };
 
+// Kept fresh for upcoming screenings by the availability checker
+const availabilityBadges: Record<string, { label: string; className: string }> = {
+  low: { label: "Selling Fast", className: "bg-amber-500/15 text-amber-700" },
+  sold_out: { label: "Sold Out", className: "bg-accent-danger/20 text-accent-danger" },
+  returns: { label: "Returns Available", className: "bg-accent-gold/20 text-accent-gold" },
+};
+
 function formatScreeningDate(
   date: Date,
   checks: { isToday: (d: Date) => boolean; isTomorrow: (d: Date) => boolean }
@@ -69,6 +81,23 @@ function formatScreeningDate(
 // Threshold: show filters when there are enough screenings to warrant filtering
 const FILTER_THRESHOLD = 5;
 
+/**
+ * IDs of the cheapest showings by standard price. Empty unless at least two
+ * showings are priced and they differ - "cheapest" of one price means nothing.
+ */
+function findCheapestScreeningIds(screenings: Screening[]): Set<string> {
+  const priced = screenings.filter(
+    (s): s is Screening & { priceStandard: number } => s.priceStandard != null
+  );
+  if (priced.length < 2) return new Set();
+
+  const lowest = Math.min(...priced.map((s) => s.priceStandard));
+  const cheapest = priced.filter((s) => s.priceStandard === lowest);
+  if (cheapest.length === priced.length) return new Set();
+
+  return new Set(cheapest.map((s) => s.id));
+}
+
 export function FilmScreenings({ screenings, film }: FilmScreeningsProps) {
   const posthog = usePostHog();
   const { isClientToday, isClientTomorrow } = useSafeDateLabels();
@@ -219,6 +248,8 @@ export function FilmScreenings({ screenings, film }: FilmScreeningsProps) {
     });
   }, [screenings, filters, globalFilters.cinemaIds, globalFilters.formats, ignoreGlobalFilters]);
 
+  const cheapestIds = useMemo(() => findCheapestScreeningIds(filteredScreenings), [filteredScreenings]);
+
   // Show filters only if there are enough screenings
   const showFilters = screenings.length >= FILTER_THRESHOLD;
 
@@ -373,7 +404,10 @@ export function FilmScreenings({ screenings, film }: FilmScreeningsProps) {
                   .map((screening) => (
                     <div
                       key={screening.id}
-                      className="px-4 py-3 flex items-center gap-4 hover:bg-surface-overlay-hover transition-colors"
+                      className={cn(
+                        "px-4 py-3 flex items-center gap-4 hover:bg-surface-overlay-hover transition-colors",
+                        cheapestIds.has(screening.id) && "bg-accent-success/5"
+                      )}
                     >
                       {/* Date & Time */}
                       <div className="w-28 shrink-0">
@@ -408,8 +442,29 @@ export function FilmScreenings({ screenings, film }: FilmScreeningsProps) {
                             {screening.screen}
                           </span>
                         )}
+                        {screening.availabilityStatus && availabilityBadges[screening.availabilityStatus] && (
+                          <span className={cn(
+                            "px-2 py-0.5 text-xs font-medium rounded",
+                            availabilityBadges[screening.availabilityStatus].className
+                          )}>
+                            {availabilityBadges[screening.availabilityStatus].label}
+                          </span>
+                        )}
+                        {cheapestIds.has(screening.id) && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded bg-accent-success/20 text-accent-success flex items-center gap-1">
+                            <Tag className="w-3 h-3" aria-hidden="true" />
+                            Cheapest
+                          </span>
+                        )}
                       </div>
 
+                      {/* Price */}
+                      {screening.priceStandard != null && (
+                        <span className="shrink-0 text-sm font-mono text-text-secondary">
+                          {formatPrice(screening.priceStandard, screening.priceCurrency ?? undefined)}
+                        </span>
+                      )}
+
                       {/* Book Button */}
                       <a
                         href={screening.bookingUrl}
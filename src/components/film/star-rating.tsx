@@ -0,0 +1,80 @@
+/**
+ * Star Rating Component
+ * Half-star ratings from 0.5 to 5; read-only when there's no onChange
+ */
+
+"use client";
+
+import { Star, StarHalf } from "lucide-react";
+import { cn } from "@/lib/cn";
+
+interface StarRatingProps {
+  value: number | null;
+  onChange?: (rating: number | null) => void;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+function formatStars(rating: number): string {
+  return `${rating} star${rating !== 1 ? "s" : ""}`;
+}
+
+function StarIcon({ fill, size }: { fill: "full" | "half" | "empty"; size: "sm" | "md" }) {
+  const iconSize = size === "sm" ? "w-3.5 h-3.5" : "w-6 h-6";
+
+  return (
+    <span className={cn("relative inline-block", iconSize)}>
+      <Star className={cn("absolute inset-0 text-text-tertiary", iconSize)} aria-hidden="true" />
+      {fill === "full" && (
+        <Star className={cn("absolute inset-0 fill-accent-primary text-accent-primary", iconSize)} aria-hidden="true" />
+      )}
+      {fill === "half" && (
+        <StarHalf className={cn("absolute inset-0 fill-accent-primary text-accent-primary", iconSize)} aria-hidden="true" />
+      )}
+    </span>
+  );
+}
+
+function starFill(value: number | null, star: number): "full" | "half" | "empty" {
+  if (value == null) return "empty";
+  if (value >= star) return "full";
+  if (value >= star - 0.5) return "half";
+  return "empty";
+}
+
+export function StarRating({ value, onChange, size = "md", className }: StarRatingProps) {
+  if (!onChange) {
+    if (value == null) return null;
+    return (
+      <span className={cn("inline-flex items-center", className)} role="img" aria-label={formatStars(value)}>
+        {STARS.map((star) => (
+          <StarIcon key={star} fill={starFill(value, star)} size={size} />
+        ))}
+      </span>
+    );
+  }
+
+  // Each star is two buttons: the left half and the whole star. Picking the
+  // current rating again clears it.
+  return (
+    <div className={cn("inline-flex items-center gap-0.5", className)} role="group" aria-label="Rating">
+      {STARS.map((star) => (
+        <span key={star} className="relative inline-flex">
+          <StarIcon fill={starFill(value, star)} size={size} />
+          {[star - 0.5, star].map((rating, i) => (
+            <button
+              key={rating}
+              type="button"
+              onClick={() => onChange(value === rating ? null : rating)}
+              className={cn("absolute inset-y-0 w-1/2", i === 0 ? "left-0" : "right-0")}
+              aria-label={formatStars(rating)}
+              aria-pressed={value === rating}
+            />
+          ))}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -15,8 +15,13 @@ import {
   FORMAT_OPTIONS,
   DECADES,
   COMMON_GENRES,
+  ACCESSIBILITY_FLAGS,
+  MAX_PRICE_OPTIONS,
+  formatPrice,
+  getAccessibilityLabel,
   getProgrammingTypeLabel,
   getTimeOfDayLabel,
+  type AccessibilityFlag,
   type ProgrammingType,
   type TimeOfDay,
 } from "@/stores/filters";
@@ -60,6 +65,8 @@ function FilterBarContent({ festivals }: { festivals: { id: string; name: string
       filters.decades.length +
       filters.genres.length +
       filters.timesOfDay.length +
+      filters.accessibility.length +
+      (filters.maxPrice !== null ? 1 : 0) +
       (filters.hideSeen ? 1 : 0) +
       (filters.onlySingleShowings ? 1 : 0) +
       (filters.festivalSlug ? 1 : 0)
@@ -128,6 +135,23 @@ function FilterBarContent({ festivals }: { festivals: { id: string; name: string
             onToggle={filters.toggleGenre}
           />
 
+          {/* Accessibility */}
+          <FilterDropdown
+            label="Accessibility"
+            options={ACCESSIBILITY_FLAGS.map((a) => ({ value: a, label: getAccessibilityLabel(a) }))}
+            selected={mounted ? filters.accessibility : []}
+            onToggle={(v) => filters.toggleAccessibility(v as AccessibilityFlag)}
+          />
+
+          {/* Max Price */}
+          <FilterDropdown
+            label="Price"
+            options={MAX_PRICE_OPTIONS.map((p) => ({ value: String(p), label: `Up to ${formatPrice(p * 100)}` }))}
+            selected={mounted && filters.maxPrice !== null ? [String(filters.maxPrice)] : []}
+            onToggle={(v) => filters.setMaxPrice(filters.maxPrice === Number(v) ? null : Number(v))}
+            singleSelect
+          />
+
           {/* Time of Day */}
           <FilterDropdown
             label="Time"
@@ -321,6 +345,15 @@ function ActiveFilterPills({ festivals = [] }: { festivals?: { id: string; name:
   addArrayPills(filters.decades, pills, (d) => d, filters.toggleDecade);
   addArrayPills(filters.genres, pills, (g) => g, filters.toggleGenre);
   addArrayPills(filters.timesOfDay, pills, (t) => getTimeOfDayLabel(t).split(" ")[0], filters.toggleTimeOfDay);
+  addArrayPills(filters.accessibility, pills, getAccessibilityLabel, filters.toggleAccessibility);
+
+  // Max price
+  if (filters.maxPrice !== null) {
+    pills.push({
+      label: `Up to ${formatPrice(filters.maxPrice * 100)}`,
+      onRemove: () => filters.setMaxPrice(null),
+    });
+  }
 
   // Festival
   if (filters.festivalSlug) {
@@ -25,6 +25,8 @@ import {
   CheckCircle,
   Image,
   List,
+  Accessibility,
+  PoundSterling,
 } from "lucide-react";
 import { HeaderNavButtons } from "@/components/layout/header-nav-buttons";
 import { format, addDays, startOfToday, isSameDay, isSaturday, isSunday, differenceInDays } from "date-fns";
@@ -32,7 +34,17 @@ import { MobileDatePickerModal } from "@/components/filters/mobile-date-picker-m
 import { MobileCinemaPickerModal } from "@/components/filters/mobile-cinema-picker-modal";
 import { DayPicker } from "react-day-picker";
 import { cn } from "@/lib/cn";
-import { useFilters, TIME_PRESETS, FORMAT_OPTIONS, formatTimeRange, formatHour } from "@/stores/filters";
+import {
+  useFilters,
+  TIME_PRESETS,
+  FORMAT_OPTIONS,
+  ACCESSIBILITY_FLAGS,
+  MAX_PRICE_OPTIONS,
+  getAccessibilityLabel,
+  formatPrice,
+  formatTimeRange,
+  formatHour,
+} from "@/stores/filters";
 import { usePreferences } from "@/stores/preferences";
 import { Button } from "@/components/ui";
 import { Clock } from "lucide-react";
@@ -140,6 +152,22 @@ export function Header({ cinemas, seasons, availableFormats }: HeaderProps) {
               </div>
             )}
 
+            {/* Accessibility */}
+            <div className="py-4">
+              <div className="block text-[11px] font-semibold text-text-tertiary uppercase tracking-wider mb-3">
+                Accessibility
+              </div>
+              <AccessibilityFilter mounted={mounted} fullWidth />
+            </div>
+
+            {/* Price */}
+            <div className="py-4">
+              <div className="block text-[11px] font-semibold text-text-tertiary uppercase tracking-wider mb-3">
+                Ticket Price
+              </div>
+              <PriceFilter mounted={mounted} fullWidth />
+            </div>
+
             {/* View Mode */}
             <div className="py-4">
               <div className="block text-[11px] font-semibold text-text-tertiary uppercase tracking-wider mb-3">
@@ -175,6 +203,12 @@ export function Header({ cinemas, seasons, availableFormats }: HeaderProps) {
           {/* Format Filter */}
           <FormatFilter mounted={mounted} availableFormats={availableFormats} />
 
+          {/* Accessibility Filter */}
+          <AccessibilityFilter mounted={mounted} />
+
+          {/* Price Filter */}
+          <PriceFilter mounted={mounted} />
+
           {/* View Mode Toggle */}
           <ViewModeToggle mounted={mounted} />
 
@@ -211,6 +245,8 @@ function MobileFiltersButton({
       filters.decades.length +
       filters.genres.length +
       filters.timesOfDay.length +
+      filters.accessibility.length +
+      (filters.maxPrice !== null ? 1 : 0) +
       (filters.festivalSlug ? 1 : 0) +
       (filters.festivalOnly ? 1 : 0) +
       (filters.seasonSlug ? 1 : 0) +
@@ -304,6 +340,22 @@ function ActiveFilterChips({ cinemas, seasons, mounted }: { cinemas: Cinema[]; s
       });
     }
 
+    // Accessibility chips (one per feature - they narrow rather than widen)
+    for (const flag of filters.accessibility) {
+      chips.push({
+        label: getAccessibilityLabel(flag),
+        onRemove: () => filters.toggleAccessibility(flag),
+      });
+    }
+
+    // Max price chip
+    if (filters.maxPrice !== null) {
+      chips.push({
+        label: `Up to ${formatPrice(filters.maxPrice * 100)}`,
+        onRemove: () => filters.setMaxPrice(null),
+      });
+    }
+
     // Season chip (only when seasons feature is enabled)
     if (filters.seasonSlug && isFeatureEnabled("seasons")) {
       const season = seasons.find(s => s.slug === filters.seasonSlug);
@@ -1359,6 +1411,186 @@ function FormatFilter({ mounted, availableFormats, fullWidth }: { mounted: boole
   );
 }
 
+// Accessibility Filter Component - subtitled, audio described, relaxed, etc.
+function AccessibilityFilter({ mounted, fullWidth }: { mounted: boolean; fullWidth?: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { accessibility, toggleAccessibility, setAccessibility } = useFilters();
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const displayText = useMemo(() => {
+    if (!mounted || accessibility.length === 0) return "Accessibility";
+    if (accessibility.length === 1) return getAccessibilityLabel(accessibility[0]);
+    return `${accessibility.length} Features`;
+  }, [mounted, accessibility]);
+
+  const hasSelection = mounted && accessibility.length > 0;
+
+  return (
+    <div ref={containerRef} className={cn("relative", fullWidth && "w-full")}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors",
+          fullWidth ? "w-full" : "min-w-[140px]",
+          hasSelection
+            ? "bg-accent-primary/10 border-accent-primary/30 text-accent-primary"
+            : "bg-background-secondary border-border-default text-text-secondary hover:border-border-emphasis hover:text-text-primary"
+        )}
+      >
+        <Accessibility className="w-4 h-4 shrink-0" aria-hidden="true" />
+        <span className="flex-1 text-left truncate">{displayText}</span>
+        <ChevronDown className={cn("w-4 h-4 shrink-0 transition-transform", isOpen && "rotate-180")} aria-hidden="true" />
+      </button>
+
+      {isOpen && (
+        <div className={cn(
+          "absolute top-full mt-2 z-50 bg-background-secondary border border-border-default rounded-xl shadow-elevated overflow-hidden",
+          fullWidth ? "left-0 right-0" : "left-0 w-64"
+        )}>
+          {/* Header */}
+          <div className="p-3 border-b border-border-subtle">
+            <p className="text-xs text-text-tertiary">
+              Only show screenings with all of the selected features.
+            </p>
+          </div>
+
+          {/* Feature Options */}
+          <div className="max-h-64 overflow-y-auto p-2">
+            {ACCESSIBILITY_FLAGS.map((flag) => {
+              const isSelected = accessibility.includes(flag);
+              return (
+                <button
+                  key={flag}
+                  onClick={() => toggleAccessibility(flag)}
+                  className={cn(
+                    "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors flex items-center gap-2",
+                    isSelected
+                      ? "bg-accent-primary/10 text-accent-primary"
+                      : "text-text-secondary hover:bg-background-hover hover:text-text-primary"
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "w-4 h-4 rounded border flex items-center justify-center shrink-0",
+                      isSelected ? "bg-accent-primary border-accent-primary" : "border-border-default"
+                    )}
+                  >
+                    {isSelected && <Check className="w-3 h-3 text-text-inverse" aria-hidden="true" />}
+                  </div>
+                  <span>{getAccessibilityLabel(flag)}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Clear Selection */}
+          {accessibility.length > 0 && (
+            <div className="border-t border-border-subtle p-2">
+              <button
+                onClick={() => {
+                  setAccessibility([]);
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 rounded-lg text-sm text-text-tertiary hover:bg-background-hover hover:text-text-primary transition-colors"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Price Filter Component - highest standard ticket price
+function PriceFilter({ mounted, fullWidth }: { mounted: boolean; fullWidth?: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { maxPrice, setMaxPrice } = useFilters();
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const hasSelection = mounted && maxPrice !== null;
+  const displayText = hasSelection ? `Up to ${formatPrice(maxPrice * 100)}` : "Any Price";
+
+  return (
+    <div ref={containerRef} className={cn("relative", fullWidth && "w-full")}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors",
+          fullWidth ? "w-full" : "min-w-[120px]",
+          hasSelection
+            ? "bg-accent-primary/10 border-accent-primary/30 text-accent-primary"
+            : "bg-background-secondary border-border-default text-text-secondary hover:border-border-emphasis hover:text-text-primary"
+        )}
+      >
+        <PoundSterling className="w-4 h-4 shrink-0" aria-hidden="true" />
+        <span className="flex-1 text-left truncate">{displayText}</span>
+        <ChevronDown className={cn("w-4 h-4 shrink-0 transition-transform", isOpen && "rotate-180")} aria-hidden="true" />
+      </button>
+
+      {isOpen && (
+        <div className={cn(
+          "absolute top-full mt-2 z-50 bg-background-secondary border border-border-default rounded-xl shadow-elevated overflow-hidden",
+          fullWidth ? "left-0 right-0" : "left-0 w-56"
+        )}>
+          {/* Header */}
+          <div className="p-3 border-b border-border-subtle">
+            <p className="text-xs text-text-tertiary">
+              Standard ticket price. Only cinemas that publish prices are shown.
+            </p>
+          </div>
+
+          {/* Price Options */}
+          <div className="p-2">
+            {[null, ...MAX_PRICE_OPTIONS].map((price) => {
+              const isSelected = mounted && maxPrice === price;
+              return (
+                <button
+                  key={price ?? "any"}
+                  onClick={() => {
+                    setMaxPrice(price);
+                    setIsOpen(false);
+                  }}
+                  className={cn(
+                    "w-full text-left px-3 py-2 rounded-lg text-sm transition-colors flex items-center gap-2",
+                    isSelected
+                      ? "bg-accent-primary/10 text-accent-primary"
+                      : "text-text-secondary hover:bg-background-hover hover:text-text-primary"
+                  )}
+                >
+                  <span className="flex-1">{price === null ? "Any price" : `Up to ${formatPrice(price * 100)}`}</span>
+                  {isSelected && <Check className="w-4 h-4 shrink-0" aria-hidden="true" />}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Clear All Filters Button
 function ClearFiltersButton({ fullWidth }: { fullWidth?: boolean } = {}) {
   const filters = useFilters();
@@ -1376,6 +1608,8 @@ function ClearFiltersButton({ fullWidth }: { fullWidth?: boolean } = {}) {
     filters.decades.length +
     filters.genres.length +
     filters.timesOfDay.length +
+    filters.accessibility.length +
+    (filters.maxPrice !== null ? 1 : 0) +
     (filters.festivalSlug ? 1 : 0) +
     (filters.festivalOnly ? 1 : 0) +
     (filters.seasonSlug ? 1 : 0) +
@@ -1420,6 +1654,8 @@ function ShareFiltersButton({ fullWidth }: { fullWidth?: boolean } = {}) {
     filters.decades.length +
     filters.genres.length +
     filters.timesOfDay.length +
+    filters.accessibility.length +
+    (filters.maxPrice !== null ? 1 : 0) +
     (filters.festivalSlug ? 1 : 0) +
     (filters.festivalOnly ? 1 : 0) +
     (filters.seasonSlug ? 1 : 0) +
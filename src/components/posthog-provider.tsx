@@ -6,23 +6,9 @@ import { useEffect, Suspense, useRef } from "react";
 import { usePathname, useSearchParams } from "next/navigation";
 import { useUser } from "@/hooks/useClerkSafe";
 import { useCookieConsent } from "@/stores/cookie-consent";
+// Admins are excluded from all PostHog tracking - invisible in analytics
+import { ADMIN_EMAILS, isAdminEmail } from "@/lib/admin";
 
-/**
- * Admin emails to exclude from all PostHog tracking.
- * These users will be completely invisible in analytics.
- */
-const ADMIN_EMAILS = [
-  "jdwbarge@gmail.com",
-  // Add other admin emails here
-];
-
-/**
- * Check if an email belongs to an admin who should be excluded from tracking
- */
-function isAdminEmail(email: string | undefined | null): boolean {
-  if (!email) return false;
-  return ADMIN_EMAILS.includes(email.toLowerCase());
-}
 
 /**
  * Determine if tracking should be enabled based on consent and admin status.
@@ -1,36 +1,56 @@
 /**
  * Search Dialog Component
- * Cmd+K style search palette for finding films
+ * Cmd+K style search palette for films, people, cinemas and seasons
  */
 
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { usePrefetch } from "@/hooks/usePrefetch";
 import Image from "next/image";
-import { Search, X, Film, Calendar, Loader2 } from "lucide-react";
+import { Search, X, Film, Calendar, Loader2, User, MapPin, Sparkles } from "lucide-react";
 import { cn } from "@/lib/cn";
 import { trackSearch, trackSearchResultClick } from "@/lib/analytics";
+import type {
+  SearchCinemaResult,
+  SearchFilmResult,
+  SearchPersonResult,
+  SearchResults,
+  SearchSeasonResult,
+} from "@/db/repositories/search";
 
-interface SearchResult {
-  id: string;
-  title: string;
-  year: number | null;
-  directors: string[];
-  posterUrl: string | null;
-  screeningCount: number;
+const EMPTY_RESULTS: SearchResults = { films: [], people: [], cinemas: [], seasons: [] };
+
+/** One selectable row - results are flattened so arrow keys move across groups */
+type SearchItem =
+  | { type: "film"; href: string; result: SearchFilmResult }
+  | { type: "person"; href: string; result: SearchPersonResult }
+  | { type: "cinema"; href: string; result: SearchCinemaResult }
+  | { type: "season"; href: string; result: SearchSeasonResult };
+
+const GROUPS: { type: SearchItem["type"]; label: string }[] = [
+  { type: "film", label: "Films" },
+  { type: "person", label: "People" },
+  { type: "cinema", label: "Cinemas" },
+  { type: "season", label: "Seasons & festivals" },
+];
+
+function toItems(results: SearchResults): SearchItem[] {
+  return [
+    ...results.films.map((result) => ({ type: "film" as const, href: result.href, result })),
+    ...results.people.map((result) => ({ type: "person" as const, href: result.href, result })),
+    ...results.cinemas.map((result) => ({ type: "cinema" as const, href: result.href, result })),
+    ...results.seasons.map((result) => ({ type: "season" as const, href: result.href, result })),
+  ];
 }
 
+/**
+ * Search Dialog
+ * Manages its own open state and opens on Cmd+K
+ */
 export function SearchDialog() {
   const [isOpen, setIsOpen] = useState(false);
-  const [query, setQuery] = useState("");
-  const [results, setResults] = useState<SearchResult[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [selectedIndex, setSelectedIndex] = useState(0);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const router = useRouter();
 
   // Handle keyboard shortcut to open
   useEffect(() => {
@@ -39,29 +59,51 @@ export function SearchDialog() {
         e.preventDefault();
         setIsOpen(true);
       }
-      if (e.key === "Escape") {
-        setIsOpen(false);
-      }
     };
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
   }, []);
 
-  // Focus input when dialog opens
+  if (!isOpen) {
+    return null;
+  }
+
+  return <SearchPalette onClose={() => setIsOpen(false)} />;
+}
+
+/**
+ * Search Palette
+ * The dialog itself - mount it while open, it closes via onClose
+ */
+export function SearchPalette({ onClose }: { onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults>(EMPTY_RESULTS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const router = useRouter();
+
+  const items = useMemo(() => toItems(results), [results]);
+
+  // Focus input on mount + handle escape
   useEffect(() => {
-    if (isOpen) {
-      inputRef.current?.focus();
-      setQuery("");
-      setResults([]);
-      setSelectedIndex(0);
-    }
-  }, [isOpen]);
+    inputRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
 
   // Search debounce with abort controller to prevent race conditions
   useEffect(() => {
     if (!query.trim()) {
-      setResults([]);
+      setResults(EMPTY_RESULTS);
       return;
     }
 
@@ -77,11 +119,11 @@ export function SearchDialog() {
           signal: controller.signal,
         });
         if (res.ok) {
-          const data = await res.json();
-          setResults(data.films);
+          const data: SearchResults = { ...EMPTY_RESULTS, ...(await res.json()) };
+          setResults(data);
           setSelectedIndex(0);
           // Track search performed
-          trackSearch(query, data.films.length);
+          trackSearch(query, toItems(data).length);
         }
       } catch (error) {
         // Ignore abort errors - they're expected when user types quickly
@@ -104,44 +146,45 @@ export function SearchDialog() {
     };
   }, [query]);
 
-  const navigateToFilm = useCallback((film: SearchResult, resultIndex: number) => {
-    // Track search result click
-    trackSearchResultClick(
-      query,
-      { filmId: film.id, filmTitle: film.title, filmYear: film.year },
-      resultIndex
-    );
-    setIsOpen(false);
-    router.push(`/film/${film.id}`);
-  }, [router, query]);
+  const navigateTo = useCallback(
+    (item: SearchItem, resultIndex: number) => {
+      if (item.type === "film") {
+        // Track search result click
+        trackSearchResultClick(
+          query,
+          { filmId: item.result.id, filmTitle: item.result.title, filmYear: item.result.year },
+          resultIndex
+        );
+      }
+      onClose();
+      router.push(item.href);
+    },
+    [router, query, onClose]
+  );
 
   // Handle keyboard navigation
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === "ArrowDown") {
         e.preventDefault();
-        setSelectedIndex((i) => Math.min(i + 1, results.length - 1));
+        setSelectedIndex((i) => Math.min(i + 1, items.length - 1));
       } else if (e.key === "ArrowUp") {
         e.preventDefault();
         setSelectedIndex((i) => Math.max(i - 1, 0));
-      } else if (e.key === "Enter" && results[selectedIndex]) {
+      } else if (e.key === "Enter" && items[selectedIndex]) {
         e.preventDefault();
-        navigateToFilm(results[selectedIndex], selectedIndex);
+        navigateTo(items[selectedIndex], selectedIndex);
       }
     },
-    [results, selectedIndex, navigateToFilm]
+    [items, selectedIndex, navigateTo]
   );
 
-  if (!isOpen) {
-    return null;
-  }
-
   return (
     <>
       {/* Backdrop */}
       <div
         className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
-        onClick={() => setIsOpen(false)}
+        onClick={onClose}
       />
 
       {/* Dialog */}
@@ -156,14 +199,14 @@ export function SearchDialog() {
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Search films..."
+              placeholder="Search films, directors, actors, cinemas..."
               className="flex-1 py-4 bg-transparent text-text-primary placeholder:text-text-tertiary outline-none text-lg"
             />
             {isLoading && (
               <Loader2 className="w-5 h-5 text-text-tertiary animate-spin" aria-hidden="true" />
             )}
             <button
-              onClick={() => setIsOpen(false)}
+              onClick={onClose}
               aria-label="Close search"
               className="p-1 rounded-lg hover:bg-surface-overlay-hover text-text-tertiary hover:text-text-primary transition-colors"
             >
@@ -173,22 +216,37 @@ export function SearchDialog() {
 
           {/* Results */}
           <div className="max-h-[60vh] overflow-y-auto">
-            {results.length > 0 ? (
+            {items.length > 0 ? (
               <div className="py-2">
-                {results.map((film, index) => (
-                  <SearchResultItem
-                    key={film.id}
-                    film={film}
-                    index={index}
-                    isSelected={selectedIndex === index}
-                    onSelect={navigateToFilm}
-                  />
-                ))}
+                {GROUPS.map(({ type, label }) => {
+                  const groupItems = items.filter((item) => item.type === type);
+                  if (groupItems.length === 0) return null;
+
+                  return (
+                    <div key={type}>
+                      <p className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-text-tertiary">
+                        {label}
+                      </p>
+                      {groupItems.map((item) => {
+                        const index = items.indexOf(item);
+                        return (
+                          <SearchResultItem
+                            key={`${item.type}-${item.href}-${index}`}
+                            item={item}
+                            index={index}
+                            isSelected={selectedIndex === index}
+                            onSelect={navigateTo}
+                          />
+                        );
+                      })}
+                    </div>
+                  );
+                })}
               </div>
             ) : query.trim() && !isLoading ? (
               <div className="py-12 text-center">
                 <Film className="w-10 h-10 text-text-tertiary mx-auto mb-3" aria-hidden="true" />
-                <p className="text-text-secondary">No films found</p>
+                <p className="text-text-secondary">Nothing found</p>
                 <p className="text-sm text-text-tertiary mt-1">
                   Try a different search term
                 </p>
@@ -196,7 +254,7 @@ export function SearchDialog() {
             ) : !query.trim() ? (
               <div className="py-8 px-4 text-center">
                 <p className="text-text-tertiary text-sm">
-                  Start typing to search films...
+                  Search by title, director, actor, cinema or season...
                 </p>
                 <div className="flex justify-center gap-4 mt-4 text-xs text-text-tertiary">
                   <span>
@@ -229,24 +287,24 @@ export function SearchDialog() {
 
 /**
  * Search Result Item with hover prefetching
- * Prefetches the film page when user hovers for instant navigation
+ * Prefetches the result's page when user hovers for instant navigation
  */
 function SearchResultItem({
-  film,
+  item,
   index,
   isSelected,
   onSelect,
 }: {
-  film: SearchResult;
+  item: SearchItem;
   index: number;
   isSelected: boolean;
-  onSelect: (film: SearchResult, index: number) => void;
+  onSelect: (item: SearchItem, index: number) => void;
 }) {
-  const prefetch = usePrefetch(`/film/${film.id}`);
+  const prefetch = usePrefetch(item.href);
 
   return (
     <button
-      onClick={() => onSelect(film, index)}
+      onClick={() => onSelect(item, index)}
       onMouseEnter={prefetch.onMouseEnter}
       onMouseLeave={prefetch.onMouseLeave}
       onTouchStart={prefetch.onTouchStart}
@@ -255,6 +313,29 @@ function SearchResultItem({
         isSelected ? "bg-accent-primary/10" : "hover:bg-surface-overlay-hover"
       )}
     >
+      {item.type === "film" ? (
+        <FilmResult film={item.result} />
+      ) : item.type === "person" ? (
+        <PersonResult person={item.result} />
+      ) : item.type === "cinema" ? (
+        <IconResult icon={MapPin} title={item.result.name} subtitle={item.result.address} />
+      ) : (
+        <IconResult
+          icon={item.result.kind === "festival" ? Sparkles : Calendar}
+          title={item.result.name}
+          subtitle={item.result.subtitle}
+        />
+      )}
+    </button>
+  );
+}
+
+function FilmResult({ film }: { film: SearchFilmResult }) {
+  // Show the original title when it's what matched, e.g. "花樣年華" for In the Mood for Love
+  const altTitle = film.originalTitle && film.originalTitle !== film.title ? film.originalTitle : null;
+
+  return (
+    <>
       {/* Poster */}
       <div className="w-10 h-14 rounded overflow-hidden bg-background-tertiary shrink-0">
         {film.posterUrl ? (
@@ -284,9 +365,9 @@ function SearchResultItem({
             </span>
           )}
         </div>
-        {film.directors.length > 0 && (
+        {(film.directors.length > 0 || altTitle) && (
           <p className="text-sm text-text-secondary truncate">
-            {film.directors.join(", ")}
+            {[film.directors.join(", "), altTitle].filter(Boolean).join(" · ")}
           </p>
         )}
       </div>
@@ -298,13 +379,47 @@ function SearchResultItem({
           <span>{film.screeningCount}</span>
         </div>
       )}
-    </button>
+    </>
+  );
+}
+
+function PersonResult({ person }: { person: SearchPersonResult }) {
+  const role = person.roles.includes("director") ? "Director" : "Cast";
+
+  return (
+    <IconResult
+      icon={User}
+      title={person.name}
+      subtitle={`${role} · ${person.films.map((f) => f.title).join(", ")}`}
+    />
+  );
+}
+
+function IconResult({
+  icon: Icon,
+  title,
+  subtitle,
+}: {
+  icon: typeof Film;
+  title: string;
+  subtitle: string | null;
+}) {
+  return (
+    <>
+      <div className="w-10 h-10 rounded-full bg-background-tertiary shrink-0 flex items-center justify-center">
+        <Icon className="w-5 h-5 text-text-tertiary" aria-hidden="true" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <span className="block text-text-primary truncate">{title}</span>
+        {subtitle && <p className="text-sm text-text-secondary truncate">{subtitle}</p>}
+      </div>
+    </>
   );
 }
 
 /**
  * Search Trigger Button
- * Shows in the header and opens the search dialog
+ * Shows in the header and opens the search palette
  */
 export function SearchTrigger() {
   const [isOpen, setIsOpen] = useState(false);
@@ -314,19 +429,12 @@ export function SearchTrigger() {
       <button
         onClick={() => setIsOpen(true)}
         className="p-2 rounded-lg hover:bg-surface-overlay-hover text-text-secondary hover:text-text-primary transition-colors"
-        aria-label="Search films (⌘K)"
+        aria-label="Search (⌘K)"
         title="Search (⌘K)"
       >
         <Search className="w-5 h-5" aria-hidden="true" />
       </button>
-      {isOpen && <SearchDialogPortal onClose={() => setIsOpen(false)} />}
+      {isOpen && <SearchPalette onClose={() => setIsOpen(false)} />}
     </>
   );
 }
-
-function SearchDialogPortal(_: { onClose: () => void }) {
-  // This is a simplified version - in practice you'd use a portal
-  // For now, the SearchDialog handles its own open state
-  void _; // Acknowledge unused parameter
-  return null;
-}
@@ -0,0 +1,212 @@
+/**
+ * Account Data Setting Component
+ * Downloads everything we store about the user, and deletes their account
+ * (showing the deletion receipt afterwards)
+ */
+
+"use client";
+
+import { useState } from "react";
+import posthog from "posthog-js";
+import { Download, Loader2, Trash2 } from "lucide-react";
+import { useAuth, useUser } from "@/hooks/useClerkSafe";
+import { useFilmStatus } from "@/stores/film-status";
+import { useFestivalStore } from "@/stores/festival";
+
+/** Typed to confirm, so the account can't be deleted by a stray click */
+const CONFIRM_TEXT = "delete";
+
+interface DeletionReceipt {
+  id: string;
+  completedAt: string;
+  posthogStatus: string;
+  accountStatus: string;
+  digest: string | null;
+}
+
+export function AccountDataSetting() {
+  const { isLoaded, isSignedIn } = useUser();
+  const { signOut } = useAuth();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [confirmText, setConfirmText] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/user/export");
+      if (!res.ok) throw new Error("Failed to export your data");
+
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "pictures-data.zip";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export your data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/user/account", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirm: true }),
+      });
+      if (!res.ok) throw new Error("Failed to delete your account");
+      const data: { receipt: DeletionReceipt } = await res.json();
+      setReceipt(data.receipt);
+
+      // Sign out before clearing local data, so nothing is synced back up
+      await signOut();
+      useFilmStatus.getState().reset();
+      useFestivalStore.getState().reset();
+      posthog.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete your account");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (receipt) {
+    return (
+      <div className="p-4 rounded-lg border border-border-subtle space-y-2">
+        <span className="text-text-primary font-medium">Your account has been deleted</span>
+        <p className="text-text-secondary text-sm">
+          Keep this receipt. You can check it at{" "}
+          <a
+            href={`/api/deletion-receipts/${receipt.id}`}
+            className="underline hover:text-text-primary"
+          >
+            /api/deletion-receipts/{receipt.id}
+          </a>
+          ; the digest there should match the one below, unless a step has since been retried.
+        </p>
+        <dl className="text-xs font-mono text-text-secondary space-y-1 break-all">
+          <div>
+            <dt className="inline text-text-tertiary">Receipt: </dt>
+            <dd className="inline">{receipt.id}</dd>
+          </div>
+          <div>
+            <dt className="inline text-text-tertiary">Digest: </dt>
+            <dd className="inline">{receipt.digest ?? "not signed"}</dd>
+          </div>
+        </dl>
+        {(receipt.accountStatus === "failed" || receipt.posthogStatus === "failed") && (
+          <p className="text-sm text-text-secondary">
+            Your data was deleted, but we couldn&apos;t yet{" "}
+            {receipt.accountStatus === "failed" ? "close your sign-in account" : "remove your analytics data"}.
+            We&apos;ll keep retrying, and the receipt (and its digest) will update once it&apos;s done.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (!isLoaded) {
+    return <div className="h-32 rounded-lg bg-background-secondary animate-pulse" />;
+  }
+
+  if (!isSignedIn) {
+    return (
+      <p className="text-text-tertiary text-sm p-4 rounded-lg border border-border-subtle">
+        Sign in to download or delete the data stored with your account.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div className="p-4 rounded-lg border border-border-subtle space-y-3">
+        <div>
+          <span className="text-text-primary font-medium">Download my data</span>
+          <p className="text-text-secondary text-sm mt-1">
+            A zip with everything in one JSON file, plus spreadsheets of your film statuses, ratings
+            and notes, festival schedule, planned screenings and preferences.
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-border-default text-text-primary hover:bg-background-secondary disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Download my data
+        </button>
+      </div>
+
+      {/* Deletion */}
+      <div className="p-4 rounded-lg border border-border-subtle space-y-3">
+        <div>
+          <span className="text-text-primary font-medium">Delete my account</span>
+          <p className="text-text-secondary text-sm mt-1">
+            Permanently removes your account, film statuses, festival plans, groups you own and
+            analytics data. This can&apos;t be undone, so download your data first if you want it.
+          </p>
+        </div>
+
+        {isConfirming ? (
+          <div className="space-y-3">
+            <label htmlFor="delete-account-confirm" className="block text-sm text-text-secondary">
+              Type <span className="font-mono text-text-primary">{CONFIRM_TEXT}</span> to confirm
+            </label>
+            <input
+              id="delete-account-confirm"
+              type="text"
+              value={confirmText}
+              onChange={(e) => setConfirmText(e.target.value)}
+              autoComplete="off"
+              className="w-full max-w-xs px-3 py-2 text-sm rounded border border-border-subtle bg-background-secondary text-text-primary"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleDelete}
+                disabled={isDeleting || confirmText.trim().toLowerCase() !== CONFIRM_TEXT}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                Delete permanently
+              </button>
+              <button
+                onClick={() => {
+                  setIsConfirming(false);
+                  setConfirmText("");
+                }}
+                disabled={isDeleting}
+                className="px-3 py-1.5 text-sm rounded-lg border border-border-default text-text-primary hover:bg-background-secondary disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsConfirming(true)}
+            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-red-500/50 text-red-500 hover:bg-red-500/10"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete my account
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
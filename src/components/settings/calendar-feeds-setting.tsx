@@ -0,0 +1,152 @@
+/**
+ * Calendar Feeds Setting Component
+ * Shows the user's personal .ics subscription URLs and lets them reset the secret link
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, RefreshCw } from "lucide-react";
+import { useUser } from "@/hooks/useClerkSafe";
+
+interface FeedUrls {
+  watchlist: string;
+  festivals: string;
+  plan: string;
+}
+
+const FEEDS: { key: keyof FeedUrls; label: string; description: string }[] = [
+  {
+    key: "watchlist",
+    label: "Watchlist screenings",
+    description: "Every upcoming screening of films you want to see",
+  },
+  {
+    key: "festivals",
+    label: "Festival bookings",
+    description: "Festival screenings you've marked as booked",
+  },
+  {
+    key: "plan",
+    label: "My plan",
+    description: "Screenings you've accepted from the watchlist planner",
+  },
+];
+
+export function CalendarFeedsSetting() {
+  const { isLoaded, isSignedIn } = useUser();
+  const [feeds, setFeeds] = useState<FeedUrls | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<keyof FeedUrls | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    fetch("/api/user/calendar-feeds")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load calendar feeds");
+        return res.json();
+      })
+      .then((data: { feeds: FeedUrls }) => setFeeds(data.feeds))
+      .catch((err: Error) => setError(err.message));
+  }, [isSignedIn]);
+
+  const handleCopy = async (key: keyof FeedUrls) => {
+    if (!feeds) return;
+    await navigator.clipboard.writeText(feeds[key]);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleReset = async () => {
+    if (
+      !confirm(
+        "Reset your calendar links? Existing subscriptions will stop updating until you re-subscribe."
+      )
+    ) {
+      return;
+    }
+
+    setIsResetting(true);
+    try {
+      const res = await fetch("/api/user/calendar-feeds", { method: "POST" });
+      if (!res.ok) throw new Error("Failed to reset calendar links");
+      const data: { feeds: FeedUrls } = await res.json();
+      setFeeds(data.feeds);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset calendar links");
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  if (!isLoaded) {
+    return <div className="h-32 rounded-lg bg-background-secondary animate-pulse" />;
+  }
+
+  if (!isSignedIn) {
+    return (
+      <p className="text-text-tertiary text-sm p-4 rounded-lg border border-border-subtle">
+        Sign in to get personal calendar links for your watchlist and festival bookings.
+      </p>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error}</p>;
+  }
+
+  if (!feeds) {
+    return <div className="h-32 rounded-lg bg-background-secondary animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {FEEDS.map((feed) => (
+        <div
+          key={feed.key}
+          className="p-4 rounded-lg border border-border-subtle space-y-2"
+        >
+          <div>
+            <span className="text-text-primary font-medium">{feed.label}</span>
+            <p className="text-text-secondary text-sm mt-1">{feed.description}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feeds[feed.key]}
+              aria-label={`${feed.label} calendar URL`}
+              className="flex-1 min-w-0 px-3 py-2 text-xs font-mono rounded bg-background-secondary text-text-secondary border border-border-subtle"
+              onFocus={(e) => e.currentTarget.select()}
+            />
+            <button
+              type="button"
+              onClick={() => handleCopy(feed.key)}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded border border-border-subtle text-text-primary hover:bg-background-secondary transition-colors"
+            >
+              {copied === feed.key ? (
+                <Check className="w-4 h-4" aria-hidden="true" />
+              ) : (
+                <Copy className="w-4 h-4" aria-hidden="true" />
+              )}
+              {copied === feed.key ? "Copied" : "Copy"}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={handleReset}
+        disabled={isResetting}
+        className="inline-flex items-center gap-1.5 text-sm text-text-tertiary hover:text-text-primary transition-colors disabled:opacity-50"
+      >
+        <RefreshCw className={isResetting ? "w-4 h-4 animate-spin" : "w-4 h-4"} aria-hidden="true" />
+        Reset calendar links
+      </button>
+    </div>
+  );
+}
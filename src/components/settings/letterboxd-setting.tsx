@@ -0,0 +1,302 @@
+/**
+ * Letterboxd Setting Component
+ * Imports a Letterboxd data export into film statuses (with a review step for
+ * uncertain matches) and exports seen films and the watchlist for Letterboxd
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2, Upload } from "lucide-react";
+import { useFilmStatus } from "@/stores/film-status";
+import {
+  mergeLetterboxdEntries,
+  parseLetterboxdFile,
+  planLetterboxdImport,
+  type ImportChoice,
+  type ImportPlan,
+  type ImportStatus,
+  type LetterboxdEntry,
+  type LetterboxdMatch,
+  type ParsedLetterboxdFile,
+} from "@/lib/letterboxd/import";
+import type { ExportList } from "@/lib/letterboxd/export";
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  seen: "Seen",
+  want_to_see: "Watchlist",
+  not_interested: "Not interested",
+};
+
+const SKIP = "";
+
+function entryLabel(entry: Pick<LetterboxdEntry, "name" | "year">): string {
+  return entry.year ? `${entry.name} (${entry.year})` : entry.name;
+}
+
+export function LetterboxdSetting() {
+  const importFilms = useFilmStatus((state) => state.importFilms);
+
+  const [files, setFiles] = useState<ParsedLetterboxdFile[]>([]);
+  const [entries, setEntries] = useState<LetterboxdEntry[]>([]);
+  const [matches, setMatches] = useState<Record<string, LetterboxdMatch> | null>(null);
+  // Film chosen for each ambiguous entry (SKIP to leave it out)
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ImportPlan | null>(null);
+  const [isMatching, setIsMatching] = useState(false);
+  const [exporting, setExporting] = useState<ExportList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    setError(null);
+    setResult(null);
+    setMatches(null);
+    setChoices({});
+
+    const parsed = await Promise.all(
+      [...fileList].map(async (file) => parseLetterboxdFile(file.name, await file.text()))
+    );
+    const merged = mergeLetterboxdEntries(parsed);
+    setFiles(parsed);
+    setEntries(merged);
+
+    if (merged.length === 0) {
+      setError("No films found. Choose the CSV files from your unzipped Letterboxd export.");
+      return;
+    }
+
+    setIsMatching(true);
+    try {
+      const res = await fetch("/api/letterboxd/match", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          entries: merged.map(({ key, name, year, letterboxdUrl, tmdbId }) => ({
+            key,
+            name,
+            year,
+            letterboxdUrl,
+            tmdbId,
+          })),
+        }),
+      });
+      if (!res.ok) throw new Error("Failed to match your films");
+      const data: { matches: Record<string, LetterboxdMatch> } = await res.json();
+      setMatches(data.matches);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to match your films");
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const matched = matches ? entries.filter((e) => matches[e.key]?.status === "matched") : [];
+  const ambiguous = matches ? entries.filter((e) => matches[e.key]?.status === "ambiguous") : [];
+  const unmatched = matches ? entries.filter((e) => !matches[e.key] || matches[e.key].status === "unmatched") : [];
+
+  const handleImport = () => {
+    if (!matches) return;
+
+    const selected: ImportChoice[] = [];
+    for (const entry of entries) {
+      const match = matches[entry.key];
+      if (match?.status === "matched") {
+        selected.push({ entry, film: match.film });
+      } else if (match?.status === "ambiguous") {
+        const film = match.candidates.find((c) => c.id === choices[entry.key]);
+        if (film) selected.push({ entry, film });
+      }
+    }
+
+    const plan = planLetterboxdImport(useFilmStatus.getState().films, selected);
+    importFilms(plan.changes);
+    setResult(plan);
+    setMatches(null);
+    setFiles([]);
+    setEntries([]);
+  };
+
+  const handleExport = async (list: ExportList) => {
+    setExporting(list);
+    setError(null);
+
+    try {
+      const status = list === "diary" ? "seen" : "want_to_see";
+      const films = Object.entries(useFilmStatus.getState().films)
+        .filter(([, entry]) => entry.status === status)
+        .map(([filmId, entry]) => ({
+          filmId,
+          rating: entry.rating ?? null,
+          seenAt: entry.seenAt ?? null,
+        }));
+
+      const res = await fetch("/api/letterboxd/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ list, films }),
+      });
+      if (!res.ok) throw new Error("Failed to export your films");
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `pictures-letterboxd-${list}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export your films");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Import */}
+      <div className="p-4 rounded-lg border border-border-subtle space-y-3">
+        <div>
+          <span className="text-text-primary font-medium">Import from Letterboxd</span>
+          <p className="text-text-secondary text-sm mt-1">
+            Export your data from Letterboxd (Settings &rarr; Import &amp; Export), unzip it and
+            choose <code>watched.csv</code>, <code>diary.csv</code>, <code>ratings.csv</code> and{" "}
+            <code>watchlist.csv</code>. Add any list you keep of films you don&apos;t want to see
+            (from the <code>lists</code> folder) to hide them here.
+          </p>
+        </div>
+
+        <label className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-border-default text-text-primary hover:bg-background-secondary cursor-pointer">
+          {isMatching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Choose CSV files
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            multiple
+            className="sr-only"
+            disabled={isMatching}
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {files.length > 0 && (
+          <ul className="text-sm text-text-secondary space-y-0.5">
+            {files.map((file) => (
+              <li key={file.fileName}>
+                <span className="text-text-primary">{file.fileName}</span>{" "}
+                {file.status
+                  ? `- ${STATUS_LABELS[file.status]} (${file.entries.length})`
+                  : "- not recognised, skipped"}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {matches && (
+          <div className="space-y-4">
+            <p className="text-sm text-text-primary">
+              {matched.length} matched, {ambiguous.length} to check, {unmatched.length} not found
+            </p>
+
+            {ambiguous.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-text-secondary">
+                  These could be more than one film. Pick the right one, or skip it.
+                </p>
+                {ambiguous.map((entry) => {
+                  const match = matches[entry.key];
+                  if (match.status !== "ambiguous") return null;
+                  const id = `letterboxd-${entry.key}`;
+                  return (
+                    <div key={entry.key} className="flex flex-wrap items-center gap-2 text-sm">
+                      <label htmlFor={id} className="text-text-primary min-w-[12rem]">
+                        {entryLabel(entry)}
+                      </label>
+                      <select
+                        id={id}
+                        value={choices[entry.key] ?? SKIP}
+                        onChange={(e) => setChoices((current) => ({ ...current, [entry.key]: e.target.value }))}
+                        className="bg-background-secondary border border-border-default rounded-lg px-2 py-1 text-sm text-text-primary"
+                      >
+                        <option value={SKIP}>Skip</option>
+                        {match.candidates.map((film) => (
+                          <option key={film.id} value={film.id}>
+                            {entryLabel({ name: film.title, year: film.year })}
+                            {film.directors.length > 0 ? ` - ${film.directors.slice(0, 2).join(", ")}` : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {unmatched.length > 0 && (
+              <details className="text-sm text-text-secondary">
+                <summary className="cursor-pointer">
+                  {unmatched.length} film{unmatched.length !== 1 ? "s" : ""} we don&apos;t know yet
+                </summary>
+                <p className="mt-1">
+                  We only list films that have screened in London. They&apos;ll be skipped.
+                </p>
+                <ul className="mt-1 max-h-48 overflow-y-auto">
+                  {unmatched.map((entry) => (
+                    <li key={entry.key}>{entryLabel(entry)}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <button
+              onClick={handleImport}
+              className="px-3 py-1.5 text-sm rounded-lg bg-accent-primary text-text-inverse"
+            >
+              Import {matched.length + Object.values(choices).filter((c) => c !== SKIP).length} films
+            </button>
+          </div>
+        )}
+
+        {result && (
+          <p className="text-sm text-text-primary">
+            Imported: {result.added} added, {result.updated} updated, {result.unchanged} already up to
+            date.
+          </p>
+        )}
+      </div>
+
+      {/* Export */}
+      <div className="p-4 rounded-lg border border-border-subtle space-y-3">
+        <div>
+          <span className="text-text-primary font-medium">Export to Letterboxd</span>
+          <p className="text-text-secondary text-sm mt-1">
+            Download CSVs to upload at letterboxd.com/import: seen films with your ratings, and
+            your watchlist.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(["diary", "watchlist"] as const).map((list) => (
+            <button
+              key={list}
+              onClick={() => handleExport(list)}
+              disabled={exporting !== null}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-border-default text-text-primary hover:bg-background-secondary disabled:opacity-50"
+            >
+              {exporting === list ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+              {list === "diary" ? "Seen films & ratings" : "Watchlist"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-error-text">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Notifications Setting Component
+ * Per-type opt-ins for watchlist email digests
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useUser } from "@/hooks/useClerkSafe";
+import { cn } from "@/lib/cn";
+
+interface NotificationSettings {
+  newScreenings: boolean;
+  lastChance: boolean;
+  lastChanceDays: number;
+  sellingFast: boolean;
+}
+
+type ToggleKey = "newScreenings" | "lastChance" | "sellingFast";
+
+const TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  {
+    key: "newScreenings",
+    label: "New screenings",
+    description: "When a film on your watchlist gets new screenings",
+  },
+  {
+    key: "lastChance",
+    label: "Last chance",
+    description: "When a watchlist film's final screening is coming up",
+  },
+  {
+    key: "sellingFast",
+    label: "Selling fast",
+    description: "When a screening of a watchlist film is running low on seats",
+  },
+];
+
+const LAST_CHANCE_DAY_OPTIONS = [3, 7, 14];
+
+export function NotificationsSetting() {
+  const { isLoaded, isSignedIn } = useUser();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    fetch("/api/user/notifications")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load notification settings");
+        return res.json();
+      })
+      .then((data: { settings: NotificationSettings }) => setSettings(data.settings))
+      .catch((err: Error) => setError(err.message));
+  }, [isSignedIn]);
+
+  const save = async (next: NotificationSettings) => {
+    const previous = settings;
+    setSettings(next);
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/user/notifications", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+      if (!res.ok) throw new Error("Failed to save notification settings");
+      setError(null);
+    } catch (err) {
+      setSettings(previous);
+      setError(err instanceof Error ? err.message : "Failed to save notification settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isLoaded) {
+    return <div className="h-32 rounded-lg bg-background-secondary animate-pulse" />;
+  }
+
+  if (!isSignedIn) {
+    return (
+      <p className="text-text-tertiary text-sm p-4 rounded-lg border border-border-subtle">
+        Sign in to get emails about films on your watchlist.
+      </p>
+    );
+  }
+
+  if (!settings) {
+    return error ? (
+      <p className="text-sm text-red-500">{error}</p>
+    ) : (
+      <div className="h-32 rounded-lg bg-background-secondary animate-pulse" />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {TOGGLES.map((toggle) => (
+        <label
+          key={toggle.key}
+          htmlFor={`notify-${toggle.key}`}
+          className={cn(
+            "flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors text-text-primary font-medium",
+            settings[toggle.key]
+              ? "border-accent-primary bg-accent-primary/5"
+              : "border-border-subtle hover:bg-background-secondary"
+          )}
+        >
+          <input
+            id={`notify-${toggle.key}`}
+            type="checkbox"
+            checked={settings[toggle.key]}
+            disabled={isSaving}
+            onChange={(e) => save({ ...settings, [toggle.key]: e.target.checked })}
+            className="mt-1 accent-accent-primary"
+          />
+          <span>
+            {toggle.label}
+            <span className="block text-text-secondary text-sm font-normal mt-1">
+              {toggle.description}
+            </span>
+          </span>
+        </label>
+      ))}
+
+      {settings.lastChance && (
+        <div className="flex items-center gap-2 text-sm text-text-secondary">
+          <label htmlFor="last-chance-days">Warn me when the final screening is within</label>
+          <select
+            id="last-chance-days"
+            value={settings.lastChanceDays}
+            disabled={isSaving}
+            onChange={(e) => save({ ...settings, lastChanceDays: Number(e.target.value) })}
+            className="px-2 py-1 rounded border border-border-subtle bg-background-secondary text-text-primary"
+          >
+            {LAST_CHANCE_DAY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <p className="text-text-tertiary text-xs">
+        Updates arrive as one email digest, at most twice a day. You won&apos;t hear about the same
+        screening twice.
+      </p>
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/cn";
 import { Button } from "@/components/ui";
+import { DiaryEntryDialog, type DiaryFilm } from "@/components/film/diary-entry-dialog";
 import { SafeSignInButton as SignInButton, SafeSignedOut as SignedOut } from "@/components/clerk-components-safe";
 
 interface Film {
@@ -71,6 +72,7 @@ export function WatchlistView({ films, screeningsByFilm }: WatchlistViewProps) {
   const [sortBy, setSortBy] = useState<SortOption>("next_screening");
   const [expandedFilms, setExpandedFilms] = useState<Set<string>>(new Set());
   const [syncBannerDismissed, setSyncBannerDismissed] = useState(false);
+  const [diaryFilm, setDiaryFilm] = useState<DiaryFilm | null>(null);
 
   useEffect(() => {
     // eslint-disable-next-line react-hooks/set-state-in-effect -- Standard hydration pattern
@@ -153,10 +155,16 @@ export function WatchlistView({ films, screeningsByFilm }: WatchlistViewProps) {
     setStatus(filmId, null);
   };
 
-  const handleMarkAsSeen = (filmId: string, e: React.MouseEvent) => {
+  const handleMarkAsSeen = (film: Film, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    setStatus(filmId, "seen");
+    setDiaryFilm({
+      id: film.id,
+      title: film.title,
+      year: film.year,
+      directors: film.directors,
+      posterUrl: film.posterUrl,
+    });
   };
 
   if (!mounted) {
@@ -180,6 +188,22 @@ export function WatchlistView({ films, screeningsByFilm }: WatchlistViewProps) {
       <div className="flex items-center justify-between">
         <p className="text-sm text-text-tertiary">
           {watchlistIds.length} film{watchlistIds.length !== 1 ? "s" : ""} on your watchlist
+          {currentlyShowing.length > 0 && (
+            <>
+              {" · "}
+              <Link href="/planner" className="text-accent-primary hover:underline">
+                Plan my watchlist
+              </Link>
+            </>
+          )}
+          {" · "}
+          <Link href="/history" className="text-accent-primary hover:underline">
+            My film diary
+          </Link>
+          {" · "}
+          <Link href="/groups" className="text-accent-primary hover:underline">
+            Groups
+          </Link>
         </p>
         <div className="flex items-center gap-2">
           <span className="text-sm text-text-tertiary">Sort by:</span>
@@ -195,6 +219,8 @@ export function WatchlistView({ films, screeningsByFilm }: WatchlistViewProps) {
         </div>
       </div>
 
+      {diaryFilm && <DiaryEntryDialog film={diaryFilm} onClose={() => setDiaryFilm(null)} />}
+
       {/* Currently Showing Section */}
       {currentlyShowing.length > 0 && (
         <section>
@@ -212,7 +238,7 @@ export function WatchlistView({ films, screeningsByFilm }: WatchlistViewProps) {
                 isExpanded={expandedFilms.has(film.id)}
                 onToggleExpand={() => toggleExpanded(film.id)}
                 onRemove={(e) => handleRemoveFromWatchlist(film.id, e)}
-                onMarkSeen={(e) => handleMarkAsSeen(film.id, e)}
+                onMarkSeen={(e) => handleMarkAsSeen(film, e)}
               />
             ))}
           </div>
@@ -236,7 +262,7 @@ export function WatchlistView({ films, screeningsByFilm }: WatchlistViewProps) {
                 isExpanded={false}
                 onToggleExpand={() => {}}
                 onRemove={(e) => handleRemoveFromWatchlist(film.id, e)}
-                onMarkSeen={(e) => handleMarkAsSeen(film.id, e)}
+                onMarkSeen={(e) => handleMarkAsSeen(film, e)}
                 isNotPlaying
               />
             ))}
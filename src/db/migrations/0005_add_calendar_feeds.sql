@@ -0,0 +1,23 @@
+-- Add per-user calendar feed tokens for .ics subscriptions
+-- Calendar apps fetch feeds without a session, so the token in the URL is the credential
+
+CREATE TABLE IF NOT EXISTS "user_calendar_feeds" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"token" text NOT NULL,
+	"last_accessed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "user_calendar_feeds_token_unique" UNIQUE("token")
+);
+
+-- Foreign keys
+ALTER TABLE "user_calendar_feeds" ADD CONSTRAINT "user_calendar_feeds_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Row Level Security (user data: service_role only)
+ALTER TABLE public.user_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to user_calendar_feeds"
+  ON public.user_calendar_feeds FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,32 @@
+-- Add per-screening change log
+-- Records field-level changes (time, format, availability, booking URL...) when a re-scrape updates a screening
+
+CREATE TABLE IF NOT EXISTS "screening_changes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"screening_id" text NOT NULL,
+	"cinema_id" text NOT NULL,
+	"field" text NOT NULL,
+	"old_value" text,
+	"new_value" text,
+	"scraper_run_id" uuid,
+	"detected_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Foreign keys
+ALTER TABLE "screening_changes" ADD CONSTRAINT "screening_changes_screening_id_screenings_id_fk" FOREIGN KEY ("screening_id") REFERENCES "public"."screenings"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "screening_changes" ADD CONSTRAINT "screening_changes_cinema_id_cinemas_id_fk" FOREIGN KEY ("cinema_id") REFERENCES "public"."cinemas"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "screening_changes" ADD CONSTRAINT "screening_changes_scraper_run_id_scraper_runs_id_fk" FOREIGN KEY ("scraper_run_id") REFERENCES "public"."scraper_runs"("id") ON DELETE set null ON UPDATE no action;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_screening_changes_screening" ON "screening_changes" USING btree ("screening_id");
+CREATE INDEX IF NOT EXISTS "idx_screening_changes_detected" ON "screening_changes" USING btree ("detected_at");
+CREATE INDEX IF NOT EXISTS "idx_screening_changes_cinema_detected" ON "screening_changes" USING btree ("cinema_id","detected_at");
+
+-- Row Level Security (admin/internal: service_role only)
+ALTER TABLE public.screening_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to screening_changes"
+  ON public.screening_changes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,11 @@
+-- Add screening lifecycle status
+-- Screenings missing from consecutive successful scrapes are flagged possibly_cancelled, then cancelled,
+-- instead of staying bookable forever. Admins can pin the status via status_overridden.
+
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'scheduled' NOT NULL;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "missed_scrape_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "status_changed_at" timestamp with time zone;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "status_overridden" boolean DEFAULT false NOT NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_screenings_status_datetime" ON "screenings" USING btree ("status","datetime");
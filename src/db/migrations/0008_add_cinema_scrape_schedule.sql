@@ -0,0 +1,14 @@
+-- Add per-cinema scrape scheduling
+-- scrape_interval_hours overrides the tier default (NULL = use the default for the cinema's tier).
+-- adaptive_schedule lets the hourly dispatcher scrape sooner when the programme or availability is moving.
+
+ALTER TABLE "cinema_baselines" ADD COLUMN IF NOT EXISTS "scrape_interval_hours" integer;
+ALTER TABLE "cinema_baselines" ADD COLUMN IF NOT EXISTS "adaptive_schedule" boolean DEFAULT true NOT NULL;
+
+-- Busy programmes that sell out quickly are checked several times a day
+INSERT INTO "cinema_baselines" ("cinema_id", "tier", "scrape_interval_hours")
+SELECT "id", 'top', 6 FROM "cinemas" WHERE "id" IN ('prince-charles', 'bfi-southbank', 'bfi-imax')
+ON CONFLICT ("cinema_id") DO UPDATE SET "scrape_interval_hours" = 6, "updated_at" = now();
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_scraper_runs_cinema_started" ON "scraper_runs" USING btree ("cinema_id","started_at");
@@ -0,0 +1,24 @@
+-- Add API keys for the public /api/v1 surface
+-- Keys are issued and revoked from the admin dashboard; only their SHA-256 hash is stored
+
+CREATE TABLE IF NOT EXISTS "api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"rate_limit_per_minute" integer DEFAULT 60 NOT NULL,
+	"created_by" text,
+	"last_used_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+
+-- Row Level Security (credentials: service_role only)
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to api_keys"
+  ON public.api_keys FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,39 @@
+-- Add full-text and fuzzy search over films
+-- search_vector covers title and original title (A), directors (B) and the top five billed cast (C).
+-- Text is unaccented and uses the 'simple' configuration: titles and names are multilingual,
+-- and English stemming would mangle names.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() is only STABLE (it depends on the dictionary search path), so indexes and
+-- generated columns go through this wrapper pinned to the default dictionary.
+CREATE OR REPLACE FUNCTION immutable_unaccent(text)
+RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+
+-- Lower-cased, unaccented text for trigram comparisons
+CREATE OR REPLACE FUNCTION search_normalize(text)
+RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT lower(immutable_unaccent($1)) $$;
+
+CREATE OR REPLACE FUNCTION film_search_vector(title text, original_title text, directors text[], cast_members jsonb)
+RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', search_normalize(coalesce(title, ''))), 'A') ||
+    setweight(to_tsvector('simple', search_normalize(coalesce(original_title, ''))), 'A') ||
+    setweight(to_tsvector('simple', search_normalize(array_to_string(coalesce(directors, '{}'), ' '))), 'B') ||
+    setweight(to_tsvector('simple', search_normalize(coalesce(jsonb_path_query_array(cast_members, '$[0 to 4].name')::text, ''))), 'C')
+$$;
+
+ALTER TABLE "films" ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+  GENERATED ALWAYS AS (film_search_vector("title", "original_title", "directors", "cast")) STORED;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_films_search_vector" ON "films" USING gin ("search_vector");
+CREATE INDEX IF NOT EXISTS "idx_films_title_trgm" ON "films" USING gin (search_normalize("title") gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_films_original_title_trgm" ON "films" USING gin (search_normalize("original_title") gin_trgm_ops);
@@ -0,0 +1,5 @@
+-- Add parent-and-baby and dementia-friendly flags to screenings
+-- Subtitles, audio description and relaxed screenings already have columns
+
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "is_baby_friendly" boolean DEFAULT false NOT NULL;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "is_dementia_friendly" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,11 @@
+-- Ticket prices captured from booking systems that list them
+-- Amounts are in minor units (pence); null when the source doesn't say
+
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "price_currency" text;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "price_standard" integer;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "price_concession" integer;
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "price_member" integer;
+
+-- Max-price filter compares the standard price
+CREATE INDEX IF NOT EXISTS "idx_screenings_price_standard" ON "screenings" ("price_standard")
+  WHERE "price_standard" IS NOT NULL;
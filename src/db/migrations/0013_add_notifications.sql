@@ -0,0 +1,49 @@
+-- Add watchlist notification opt-ins and the delivery log that deduplicates digests
+
+-- When a screening was first scraped, so digests can tell new screenings apart.
+-- Existing rows get the migration time, so they never count as new.
+ALTER TABLE "screenings" ADD COLUMN IF NOT EXISTS "created_at" timestamp with time zone DEFAULT now() NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "user_notification_settings" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"new_screenings" boolean DEFAULT false NOT NULL,
+	"last_chance" boolean DEFAULT false NOT NULL,
+	"last_chance_days" integer DEFAULT 7 NOT NULL,
+	"selling_fast" boolean DEFAULT false NOT NULL,
+	"last_digest_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "notification_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"type" text NOT NULL,
+	"screening_id" text NOT NULL,
+	"sent_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Foreign keys
+ALTER TABLE "user_notification_settings" ADD CONSTRAINT "user_notification_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_screening_id_screenings_id_fk" FOREIGN KEY ("screening_id") REFERENCES "public"."screenings"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_notification_deliveries_unique" ON "notification_deliveries" USING btree ("user_id","type","screening_id");
+CREATE INDEX IF NOT EXISTS "idx_notification_deliveries_sent" ON "notification_deliveries" USING btree ("sent_at");
+
+-- Row Level Security (user data: service_role only)
+ALTER TABLE public.user_notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to user_notification_settings"
+  ON public.user_notification_settings FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service_role full access to notification_deliveries"
+  ON public.notification_deliveries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
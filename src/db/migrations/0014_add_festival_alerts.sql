@@ -0,0 +1,36 @@
+-- Add programme tracking to festivals and the delivery log for festival alerts
+
+-- Last seen number of festival_screenings, and when it last jumped (a programme announcement)
+ALTER TABLE "festivals" ADD COLUMN IF NOT EXISTS "programme_screening_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "festivals" ADD COLUMN IF NOT EXISTS "programme_updated_at" timestamp with time zone;
+
+-- Start from the current counts so existing programmes aren't announced again
+UPDATE "festivals" f SET "programme_screening_count" = (
+	SELECT count(*) FROM "festival_screenings" fs WHERE fs."festival_id" = f."id"
+);
+
+CREATE TABLE IF NOT EXISTS "festival_alert_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"festival_id" text NOT NULL,
+	"type" text NOT NULL,
+	"alert_key" text NOT NULL,
+	"sent_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Foreign keys
+ALTER TABLE "festival_alert_deliveries" ADD CONSTRAINT "festival_alert_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "festival_alert_deliveries" ADD CONSTRAINT "festival_alert_deliveries_festival_id_festivals_id_fk" FOREIGN KEY ("festival_id") REFERENCES "public"."festivals"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_festival_alert_deliveries_unique" ON "festival_alert_deliveries" USING btree ("user_id","festival_id","alert_key");
+CREATE INDEX IF NOT EXISTS "idx_festival_alert_deliveries_sent" ON "festival_alert_deliveries" USING btree ("sent_at");
+
+-- Row Level Security (user data: service_role only)
+ALTER TABLE public.festival_alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to festival_alert_deliveries"
+  ON public.festival_alert_deliveries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
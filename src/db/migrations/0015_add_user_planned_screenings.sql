@@ -0,0 +1,27 @@
+-- Add accepted watchlist itineraries (the planner's festival-style schedule)
+
+CREATE TABLE IF NOT EXISTS "user_planned_screenings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"screening_id" text NOT NULL,
+	"status" text DEFAULT 'planned' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Foreign keys
+ALTER TABLE "user_planned_screenings" ADD CONSTRAINT "user_planned_screenings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "user_planned_screenings" ADD CONSTRAINT "user_planned_screenings_screening_id_screenings_id_fk" FOREIGN KEY ("screening_id") REFERENCES "public"."screenings"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_user_planned_screenings_unique" ON "user_planned_screenings" USING btree ("user_id","screening_id");
+CREATE INDEX IF NOT EXISTS "idx_user_planned_screenings_user" ON "user_planned_screenings" USING btree ("user_id");
+
+-- Row Level Security (user data: service_role only)
+ALTER TABLE public.user_planned_screenings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to user_planned_screenings"
+  ON public.user_planned_screenings FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
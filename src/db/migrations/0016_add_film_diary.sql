@@ -0,0 +1,9 @@
+-- Half-star ratings and where films were seen, for the film diary
+
+ALTER TABLE "user_film_statuses" ALTER COLUMN "rating" TYPE real;
+
+ALTER TABLE "user_film_statuses" ADD COLUMN IF NOT EXISTS "seen_screening_id" text;
+ALTER TABLE "user_film_statuses" ADD COLUMN IF NOT EXISTS "seen_cinema_id" text;
+ALTER TABLE "user_film_statuses" ADD COLUMN IF NOT EXISTS "seen_cinema_name" text;
+ALTER TABLE "user_film_statuses" ADD COLUMN IF NOT EXISTS "seen_format" text;
+
@@ -0,0 +1,81 @@
+-- Add watch groups: shared watchlists and screening proposals for group outings
+
+CREATE TABLE IF NOT EXISTS "watch_groups" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"owner_id" text NOT NULL,
+	"invite_token" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "watch_groups_invite_token_unique" UNIQUE("invite_token")
+);
+
+CREATE TABLE IF NOT EXISTS "watch_group_members" (
+	"group_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"role" text DEFAULT 'member' NOT NULL,
+	"joined_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "watch_group_members_group_id_user_id_pk" PRIMARY KEY("group_id","user_id")
+);
+
+CREATE TABLE IF NOT EXISTS "watch_group_proposals" (
+	"id" text PRIMARY KEY NOT NULL,
+	"group_id" text NOT NULL,
+	"screening_id" text NOT NULL,
+	"proposed_by" text,
+	"note" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "watch_group_votes" (
+	"proposal_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"vote" text NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "watch_group_votes_proposal_id_user_id_pk" PRIMARY KEY("proposal_id","user_id")
+);
+
+-- Foreign keys
+ALTER TABLE "watch_groups" ADD CONSTRAINT "watch_groups_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "watch_group_members" ADD CONSTRAINT "watch_group_members_group_id_watch_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."watch_groups"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "watch_group_members" ADD CONSTRAINT "watch_group_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "watch_group_proposals" ADD CONSTRAINT "watch_group_proposals_group_id_watch_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."watch_groups"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "watch_group_proposals" ADD CONSTRAINT "watch_group_proposals_screening_id_screenings_id_fk" FOREIGN KEY ("screening_id") REFERENCES "public"."screenings"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "watch_group_proposals" ADD CONSTRAINT "watch_group_proposals_proposed_by_users_id_fk" FOREIGN KEY ("proposed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+ALTER TABLE "watch_group_votes" ADD CONSTRAINT "watch_group_votes_proposal_id_watch_group_proposals_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."watch_group_proposals"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "watch_group_votes" ADD CONSTRAINT "watch_group_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_watch_group_members_user" ON "watch_group_members" USING btree ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_watch_group_proposals_unique" ON "watch_group_proposals" USING btree ("group_id","screening_id");
+CREATE INDEX IF NOT EXISTS "idx_watch_group_votes_user" ON "watch_group_votes" USING btree ("user_id");
+
+-- Row Level Security (user data: service_role only)
+ALTER TABLE public.watch_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.watch_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.watch_group_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.watch_group_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to watch_groups"
+  ON public.watch_groups FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service_role full access to watch_group_members"
+  ON public.watch_group_members FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service_role full access to watch_group_proposals"
+  ON public.watch_group_proposals FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service_role full access to watch_group_votes"
+  ON public.watch_group_votes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
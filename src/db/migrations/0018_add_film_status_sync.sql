@@ -0,0 +1,31 @@
+-- Incremental film status sync: a change cursor on every status, and
+-- tombstones so deletions reach the user's other devices
+
+CREATE SEQUENCE IF NOT EXISTS "user_film_status_version_seq";
+
+-- Existing rows each get their own version from the sequence
+ALTER TABLE "user_film_statuses" ADD COLUMN IF NOT EXISTS "version" bigint DEFAULT nextval('user_film_status_version_seq') NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "user_film_status_tombstones" (
+	"user_id" text NOT NULL,
+	"film_id" text NOT NULL,
+	"deleted_at" timestamp with time zone NOT NULL,
+	"version" bigint DEFAULT nextval('user_film_status_version_seq') NOT NULL,
+	CONSTRAINT "user_film_status_tombstones_user_id_film_id_pk" PRIMARY KEY("user_id","film_id")
+);
+
+-- Foreign keys
+ALTER TABLE "user_film_status_tombstones" ADD CONSTRAINT "user_film_status_tombstones_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_user_film_statuses_version" ON "user_film_statuses" USING btree ("user_id","version");
+CREATE INDEX IF NOT EXISTS "idx_user_film_status_tombstones_version" ON "user_film_status_tombstones" USING btree ("user_id","version");
+
+-- Row Level Security (user data: service_role only)
+ALTER TABLE public.user_film_status_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to user_film_status_tombstones"
+  ON public.user_film_status_tombstones FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
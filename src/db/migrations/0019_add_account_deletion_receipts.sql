@@ -0,0 +1,27 @@
+-- Account deletion receipts: an audit of what was removed when a user
+-- deleted their account (no FK to users, the receipt outlives the account)
+
+CREATE TABLE IF NOT EXISTS "account_deletion_receipts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"subject_hash" text NOT NULL,
+	"source" text NOT NULL,
+	"requested_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone NOT NULL,
+	"rows_deleted" jsonb NOT NULL,
+	"rows_anonymised" jsonb NOT NULL,
+	"posthog_status" text NOT NULL,
+	"account_status" text NOT NULL,
+	"digest" text NOT NULL
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "idx_account_deletion_receipts_subject" ON "account_deletion_receipts" USING btree ("subject_hash");
+
+-- Row Level Security (service_role only)
+ALTER TABLE public.account_deletion_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to account_deletion_receipts"
+  ON public.account_deletion_receipts FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,6 @@
+-- Scraper runs are opened as 'running' and get their final status when the
+-- venue finishes, so in-progress and crashed runs aren't counted as failures.
+-- (Older unfinished rows keep 'failed': a new enum value can't be used in the
+-- transaction that adds it.)
+
+ALTER TYPE "public"."scraper_run_status" ADD VALUE IF NOT EXISTS 'running';
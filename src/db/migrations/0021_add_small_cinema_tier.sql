@@ -0,0 +1,6 @@
+-- Add a "small" cinema tier for quiet venues, scraped every 48h by default
+-- (see DEFAULT_INTERVAL_HOURS in src/lib/scrape-schedule.ts).
+-- The new value can't be used in the transaction that adds it, so venues are
+-- moved to the tier from the admin cinema config rather than here.
+
+ALTER TYPE "cinema_tier" ADD VALUE IF NOT EXISTS 'small';
@@ -0,0 +1,5 @@
+-- When each film status change took its version, so change reads only move
+-- the cursor past versions old enough to have committed
+
+ALTER TABLE "user_film_statuses" ADD COLUMN IF NOT EXISTS "changed_at" timestamp with time zone DEFAULT clock_timestamp() NOT NULL;
+ALTER TABLE "user_film_status_tombstones" ADD COLUMN IF NOT EXISTS "changed_at" timestamp with time zone DEFAULT clock_timestamp() NOT NULL;
@@ -0,0 +1,22 @@
+-- Screenings per cinema per London day, recorded before the cleanup cron
+-- deletes past screenings, so the nightly baselines have history to use
+
+CREATE TABLE IF NOT EXISTS "cinema_daily_counts" (
+	"cinema_id" text NOT NULL,
+	"day" date NOT NULL,
+	"screening_count" integer NOT NULL,
+	"recorded_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "cinema_daily_counts_cinema_id_day_pk" PRIMARY KEY("cinema_id","day")
+);
+
+-- Foreign keys
+ALTER TABLE "cinema_daily_counts" ADD CONSTRAINT "cinema_daily_counts_cinema_id_cinemas_id_fk" FOREIGN KEY ("cinema_id") REFERENCES "public"."cinemas"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Row Level Security (service_role only)
+ALTER TABLE public.cinema_daily_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service_role full access to cinema_daily_counts"
+  ON public.cinema_daily_counts FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
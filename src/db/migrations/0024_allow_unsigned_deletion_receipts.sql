@@ -0,0 +1,4 @@
+-- Deletion receipts are saved unsigned (null digest) when
+-- DELETION_RECEIPT_SECRET isn't set, rather than holding up the deletion
+
+ALTER TABLE "account_deletion_receipts" ALTER COLUMN "digest" DROP NOT NULL;
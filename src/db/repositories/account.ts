@@ -0,0 +1,263 @@
+/**
+ * Account Repository
+ * Everything stored about a user, for their data export, and removing it all
+ * when they delete their account
+ */
+
+import { db } from "@/db";
+import {
+  accountDeletionReceipts,
+  cinemas,
+  festivalAlertDeliveries,
+  festivals,
+  films,
+  notificationDeliveries,
+  screenings,
+  userCalendarFeeds,
+  userFestivalInterests,
+  userFestivalSchedule,
+  userFilmStatuses,
+  userFilmStatusTombstones,
+  userNotificationSettings,
+  userPlannedScreenings,
+  userPreferences,
+  users,
+  watchGroupMembers,
+  watchGroupProposals,
+  watchGroups,
+  watchGroupVotes,
+  type AccountDeletionReceiptSelect,
+  type DeletionRowCounts,
+} from "@/db/schema";
+import { asc, eq, getTableName } from "drizzle-orm";
+import type { AccountExport } from "@/lib/account-data";
+
+/**
+ * The user's data for export. Secrets (the calendar feed token, group invite
+ * tokens) are left out.
+ */
+export async function getAccountExport(userId: string): Promise<AccountExport> {
+  const [
+    [profile],
+    filmStatuses,
+    [preferences],
+    [notificationSettings],
+    festivalInterests,
+    festivalSchedule,
+    plannedScreenings,
+    groups,
+    [calendarFeed],
+  ] = await Promise.all([
+    db
+      .select({
+        id: users.id,
+        email: users.email,
+        displayName: users.displayName,
+        createdAt: users.createdAt,
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1),
+    db
+      .select({
+        filmId: userFilmStatuses.filmId,
+        filmTitle: userFilmStatuses.filmTitle,
+        filmYear: userFilmStatuses.filmYear,
+        status: userFilmStatuses.status,
+        rating: userFilmStatuses.rating,
+        notes: userFilmStatuses.notes,
+        addedAt: userFilmStatuses.addedAt,
+        seenAt: userFilmStatuses.seenAt,
+        seenCinemaName: userFilmStatuses.seenCinemaName,
+        seenFormat: userFilmStatuses.seenFormat,
+        updatedAt: userFilmStatuses.updatedAt,
+      })
+      .from(userFilmStatuses)
+      .where(eq(userFilmStatuses.userId, userId))
+      .orderBy(asc(userFilmStatuses.addedAt)),
+    db
+      .select({
+        preferences: userPreferences.preferences,
+        persistedFilters: userPreferences.persistedFilters,
+        updatedAt: userPreferences.updatedAt,
+      })
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId))
+      .limit(1),
+    db
+      .select({
+        newScreenings: userNotificationSettings.newScreenings,
+        lastChance: userNotificationSettings.lastChance,
+        lastChanceDays: userNotificationSettings.lastChanceDays,
+        sellingFast: userNotificationSettings.sellingFast,
+      })
+      .from(userNotificationSettings)
+      .where(eq(userNotificationSettings.userId, userId))
+      .limit(1),
+    db
+      .select({
+        festivalId: userFestivalInterests.festivalId,
+        festivalName: festivals.name,
+        interestLevel: userFestivalInterests.interestLevel,
+        notifyOnSale: userFestivalInterests.notifyOnSale,
+        notifyProgramme: userFestivalInterests.notifyProgramme,
+        notifyReminders: userFestivalInterests.notifyReminders,
+        createdAt: userFestivalInterests.createdAt,
+      })
+      .from(userFestivalInterests)
+      .innerJoin(festivals, eq(userFestivalInterests.festivalId, festivals.id))
+      .where(eq(userFestivalInterests.userId, userId))
+      .orderBy(asc(userFestivalInterests.createdAt)),
+    db
+      .select({
+        festivalName: festivals.name,
+        filmTitle: films.title,
+        datetime: screenings.datetime,
+        cinemaName: cinemas.name,
+        status: userFestivalSchedule.status,
+        bookingConfirmation: userFestivalSchedule.bookingConfirmation,
+        notes: userFestivalSchedule.notes,
+        createdAt: userFestivalSchedule.createdAt,
+      })
+      .from(userFestivalSchedule)
+      .innerJoin(festivals, eq(userFestivalSchedule.festivalId, festivals.id))
+      .innerJoin(screenings, eq(userFestivalSchedule.screeningId, screenings.id))
+      .innerJoin(films, eq(screenings.filmId, films.id))
+      .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
+      .where(eq(userFestivalSchedule.userId, userId))
+      .orderBy(asc(screenings.datetime)),
+    db
+      .select({
+        filmTitle: films.title,
+        datetime: screenings.datetime,
+        cinemaName: cinemas.name,
+        status: userPlannedScreenings.status,
+        createdAt: userPlannedScreenings.createdAt,
+      })
+      .from(userPlannedScreenings)
+      .innerJoin(screenings, eq(userPlannedScreenings.screeningId, screenings.id))
+      .innerJoin(films, eq(screenings.filmId, films.id))
+      .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
+      .where(eq(userPlannedScreenings.userId, userId))
+      .orderBy(asc(screenings.datetime)),
+    db
+      .select({
+        name: watchGroups.name,
+        role: watchGroupMembers.role,
+        joinedAt: watchGroupMembers.joinedAt,
+      })
+      .from(watchGroupMembers)
+      .innerJoin(watchGroups, eq(watchGroupMembers.groupId, watchGroups.id))
+      .where(eq(watchGroupMembers.userId, userId))
+      .orderBy(asc(watchGroupMembers.joinedAt)),
+    db
+      .select({ userId: userCalendarFeeds.userId })
+      .from(userCalendarFeeds)
+      .where(eq(userCalendarFeeds.userId, userId))
+      .limit(1),
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: profile ?? null,
+    filmStatuses,
+    preferences: preferences ?? null,
+    notificationSettings: notificationSettings ?? null,
+    festivalInterests,
+    festivalSchedule,
+    plannedScreenings,
+    watchGroups: groups,
+    hasCalendarFeed: Boolean(calendarFeed),
+  };
+}
+
+export interface AccountDeletionResult {
+  rowsDeleted: DeletionRowCounts;
+  rowsAnonymised: DeletionRowCounts;
+}
+
+/**
+ * Remove every row belonging to the user, with counts per table.
+ * Most of these would cascade from the users row; deleting them one table at
+ * a time is what lets the receipt say what was removed. Proposals the user
+ * made in other people's groups stay for the group, without their name or note.
+ * One transaction, so a failure part-way leaves the account as it was.
+ */
+export async function deleteAccountData(userId: string): Promise<AccountDeletionResult> {
+  return db.transaction(async (tx) => {
+    const rowsDeleted: DeletionRowCounts = {};
+
+    // Groups they own go entirely, with everyone's proposals and votes in them
+    const ownedGroups = await tx
+      .delete(watchGroups)
+      .where(eq(watchGroups.ownerId, userId))
+      .returning({ id: watchGroups.id });
+    rowsDeleted[getTableName(watchGroups)] = ownedGroups.length;
+
+    const anonymisedProposals = await tx
+      .update(watchGroupProposals)
+      .set({ proposedBy: null, note: null })
+      .where(eq(watchGroupProposals.proposedBy, userId))
+      .returning({ id: watchGroupProposals.id });
+
+    const userTables = [
+      watchGroupVotes,
+      watchGroupMembers,
+      userFilmStatuses,
+      userFilmStatusTombstones,
+      userPreferences,
+      userNotificationSettings,
+      notificationDeliveries,
+      festivalAlertDeliveries,
+      userCalendarFeeds,
+      userFestivalInterests,
+      userFestivalSchedule,
+      userPlannedScreenings,
+    ];
+
+    for (const table of userTables) {
+      const rows = await tx
+        .delete(table)
+        .where(eq(table.userId, userId))
+        .returning({ userId: table.userId });
+      rowsDeleted[getTableName(table)] = rows.length;
+    }
+
+    // Last, so nothing above is left pointing at a missing user
+    const deletedUsers = await tx.delete(users).where(eq(users.id, userId)).returning({ id: users.id });
+    rowsDeleted[getTableName(users)] = deletedUsers.length;
+
+    return {
+      rowsDeleted,
+      rowsAnonymised: { [getTableName(watchGroupProposals)]: anonymisedProposals.length },
+    };
+  });
+}
+
+export async function saveDeletionReceipt(receipt: AccountDeletionReceiptSelect): Promise<void> {
+  await db.insert(accountDeletionReceipts).values(receipt);
+}
+
+/**
+ * Replace a receipt's statuses and digest, e.g. once a failed step succeeds
+ */
+export async function updateDeletionReceipt(receipt: AccountDeletionReceiptSelect): Promise<void> {
+  await db
+    .update(accountDeletionReceipts)
+    .set({
+      posthogStatus: receipt.posthogStatus,
+      accountStatus: receipt.accountStatus,
+      digest: receipt.digest,
+    })
+    .where(eq(accountDeletionReceipts.id, receipt.id));
+}
+
+export async function getDeletionReceipt(id: string): Promise<AccountDeletionReceiptSelect | null> {
+  const [receipt] = await db
+    .select()
+    .from(accountDeletionReceipts)
+    .where(eq(accountDeletionReceipts.id, id))
+    .limit(1);
+
+  return receipt ?? null;
+}
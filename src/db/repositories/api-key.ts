@@ -0,0 +1,96 @@
+/**
+ * API Key Repository
+ * Issues, lists, revokes and resolves keys for the public /api/v1 surface
+ */
+
+import { db } from "@/db";
+import { apiKeys, type ApiKeySelect } from "@/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { subMinutes } from "date-fns";
+import { generateApiKey, hashApiKey } from "@/lib/public-api/keys";
+
+/**
+ * lastUsedAt is only rewritten when older than this, so busy keys
+ * don't cost a write per request
+ */
+const LAST_USED_RESOLUTION_MINUTES = 5;
+
+/** Key metadata safe to show in the admin dashboard */
+export type ApiKeySummary = Omit<ApiKeySelect, "keyHash">;
+
+const summarySelect = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  keyPrefix: apiKeys.keyPrefix,
+  rateLimitPerMinute: apiKeys.rateLimitPerMinute,
+  createdBy: apiKeys.createdBy,
+  lastUsedAt: apiKeys.lastUsedAt,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+} as const;
+
+/**
+ * Issue a new key
+ * The returned `key` is the only time the full key is available
+ */
+export async function createApiKey(input: {
+  name: string;
+  rateLimitPerMinute: number;
+  createdBy: string | null;
+}): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const { key, keyPrefix, keyHash } = generateApiKey();
+
+  const [apiKey] = await db
+    .insert(apiKeys)
+    .values({ ...input, keyPrefix, keyHash })
+    .returning(summarySelect);
+
+  return { apiKey, key };
+}
+
+/**
+ * All keys, newest first (revoked keys included)
+ */
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  return db.select(summarySelect).from(apiKeys).orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * Revoke a key - returns false if it doesn't exist
+ * Revoking an already revoked key keeps the original revocation time
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const [existing] = await db
+    .select({ revokedAt: apiKeys.revokedAt })
+    .from(apiKeys)
+    .where(eq(apiKeys.id, id))
+    .limit(1);
+
+  if (!existing) return false;
+
+  if (!existing.revokedAt) {
+    await db.update(apiKeys).set({ revokedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+  return true;
+}
+
+/**
+ * Resolve a presented key to its active record, recording the use
+ * Returns null for unknown or revoked keys
+ */
+export async function findActiveApiKey(key: string): Promise<ApiKeySummary | null> {
+  const [apiKey] = await db
+    .select(summarySelect)
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, hashApiKey(key)))
+    .limit(1);
+
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || apiKey.lastUsedAt < subMinutes(now, LAST_USED_RESOLUTION_MINUTES)) {
+    await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, apiKey.id));
+  }
+
+  return apiKey;
+}
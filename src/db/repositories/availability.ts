@@ -0,0 +1,72 @@
+/**
+ * Availability Repository
+ * Finds the screenings the availability checker should poll
+ */
+
+import { db } from "@/db";
+import { screenings, userFestivalSchedule } from "@/db/schema";
+import { and, asc, eq, exists, gte, inArray, isNotNull, lt, ne, or } from "drizzle-orm";
+import { addHours } from "date-fns";
+import type { AvailabilityStatus } from "@/types/screening";
+import { AVAILABILITY_WINDOW_HOURS, isAvailabilityCheckDue } from "@/lib/availability";
+
+export interface AvailabilityTarget {
+  id: string;
+  cinemaId: string;
+  filmId: string;
+  sourceId: string;
+  datetime: Date;
+  availabilityStatus: AvailabilityStatus | null;
+  availabilityCheckedAt: Date | null;
+}
+
+/**
+ * Upcoming screenings at the given cinemas that are due an availability check:
+ * everything in the next 72 hours, plus later screenings someone has on their
+ * festival schedule (wishlist or booked). Screenings without a booking-system
+ * ID can't be matched to a check and are skipped.
+ */
+export async function getAvailabilityTargets(
+  cinemaIds: string[],
+  now = new Date()
+): Promise<AvailabilityTarget[]> {
+  if (cinemaIds.length === 0) return [];
+
+  const onFestivalSchedule = exists(
+    db
+      .select({ id: userFestivalSchedule.id })
+      .from(userFestivalSchedule)
+      .where(
+        and(
+          eq(userFestivalSchedule.screeningId, screenings.id),
+          inArray(userFestivalSchedule.status, ["wishlist", "booked"])
+        )
+      )
+  );
+
+  const rows = await db
+    .select({
+      id: screenings.id,
+      cinemaId: screenings.cinemaId,
+      filmId: screenings.filmId,
+      sourceId: screenings.sourceId,
+      datetime: screenings.datetime,
+      availabilityStatus: screenings.availabilityStatus,
+      availabilityCheckedAt: screenings.availabilityCheckedAt,
+    })
+    .from(screenings)
+    .where(
+      and(
+        inArray(screenings.cinemaId, cinemaIds),
+        isNotNull(screenings.sourceId),
+        ne(screenings.status, "cancelled"),
+        gte(screenings.datetime, now),
+        or(lt(screenings.datetime, addHours(now, AVAILABILITY_WINDOW_HOURS)), onFestivalSchedule)
+      )
+    )
+    .orderBy(asc(screenings.datetime));
+
+  return rows
+    .filter((row) => isAvailabilityCheckDue(row.availabilityCheckedAt, row.datetime, now))
+    .map((row) => ({ ...row, sourceId: row.sourceId! }));
+}
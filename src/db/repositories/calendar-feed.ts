@@ -0,0 +1,157 @@
+/**
+ * Calendar Feed Repository
+ * Manages per-user feed tokens and loads the screenings behind personal .ics feeds
+ */
+
+import { randomBytes } from "crypto";
+import { db } from "@/db";
+import { userCalendarFeeds, userFilmStatuses, userFestivalSchedule } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { addDays, subDays } from "date-fns";
+import { getScreenings, type ScreeningWithDetails } from "./screening";
+import { getPlannedScreenings } from "./itinerary";
+
+/**
+ * How far ahead personal feeds look for screenings
+ */
+const WATCHLIST_HORIZON_DAYS = 60;
+const FESTIVAL_HORIZON_DAYS = 365;
+
+/**
+ * Keep recently-past events in feeds so they don't vanish mid-screening
+ */
+const PAST_EVENTS_DAYS = 7;
+
+function generateToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Get the user's feed token, creating one on first use
+ */
+export async function getOrCreateFeedToken(userId: string): Promise<string> {
+  const existing = await db.query.userCalendarFeeds.findFirst({
+    where: eq(userCalendarFeeds.userId, userId),
+  });
+
+  if (existing) {
+    return existing.token;
+  }
+
+  const [created] = await db
+    .insert(userCalendarFeeds)
+    .values({ userId, token: generateToken() })
+    .onConflictDoNothing({ target: userCalendarFeeds.userId })
+    .returning();
+
+  if (created) {
+    return created.token;
+  }
+
+  // Lost a race with a concurrent request - read the winner's token
+  const winner = await db.query.userCalendarFeeds.findFirst({
+    where: eq(userCalendarFeeds.userId, userId),
+  });
+  return winner!.token;
+}
+
+/**
+ * Replace the user's feed token, invalidating existing subscriptions
+ */
+export async function rotateFeedToken(userId: string): Promise<string> {
+  const token = generateToken();
+
+  await db
+    .insert(userCalendarFeeds)
+    .values({ userId, token })
+    .onConflictDoUpdate({
+      target: userCalendarFeeds.userId,
+      set: { token, updatedAt: new Date() },
+    });
+
+  return token;
+}
+
+/**
+ * Resolve a feed token to its user ID, recording the access
+ * Returns null for unknown tokens
+ */
+export async function getUserIdForFeedToken(token: string): Promise<string | null> {
+  const [feed] = await db
+    .update(userCalendarFeeds)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(userCalendarFeeds.token, token))
+    .returning({ userId: userCalendarFeeds.userId });
+
+  return feed?.userId ?? null;
+}
+
+/**
+ * Upcoming screenings of every film on the user's watchlist
+ */
+export async function getWatchlistFeedScreenings(
+  userId: string
+): Promise<ScreeningWithDetails[]> {
+  const watchlist = await db
+    .select({ filmId: userFilmStatuses.filmId })
+    .from(userFilmStatuses)
+    .where(
+      and(
+        eq(userFilmStatuses.userId, userId),
+        eq(userFilmStatuses.status, "want_to_see")
+      )
+    );
+
+  if (watchlist.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  return getScreenings({
+    startDate: subDays(now, PAST_EVENTS_DAYS),
+    endDate: addDays(now, WATCHLIST_HORIZON_DAYS),
+    filmIds: watchlist.map((w) => w.filmId),
+  });
+}
+
+/**
+ * Festival screenings the user has marked as booked
+ */
+export async function getBookedFestivalFeedScreenings(
+  userId: string
+): Promise<ScreeningWithDetails[]> {
+  const booked = await db
+    .select({ screeningId: userFestivalSchedule.screeningId })
+    .from(userFestivalSchedule)
+    .where(
+      and(
+        eq(userFestivalSchedule.userId, userId),
+        eq(userFestivalSchedule.status, "booked")
+      )
+    );
+
+  if (booked.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  return getScreenings({
+    startDate: subDays(now, PAST_EVENTS_DAYS),
+    endDate: addDays(now, FESTIVAL_HORIZON_DAYS),
+    screeningIds: booked.map((b) => b.screeningId),
+  });
+}
+
+/**
+ * Screenings in the user's accepted watchlist plan
+ */
+export async function getPlanFeedScreenings(
+  userId: string
+): Promise<ScreeningWithDetails[]> {
+  const now = new Date();
+  return getPlannedScreenings(
+    userId,
+    subDays(now, PAST_EVENTS_DAYS),
+    addDays(now, WATCHLIST_HORIZON_DAYS)
+  );
+}
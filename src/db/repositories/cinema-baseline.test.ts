@@ -0,0 +1,108 @@
+/**
+ * Cinema Baseline Repository Tests
+ *
+ * The database is faked per table: queries resolve to that table's rows, and
+ * inserts are captured. Enough to follow recalculateCinemaBaselines through
+ * recording, reading and saving without Postgres.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getTableName, type Table } from "drizzle-orm";
+
+const fake = vi.hoisted(() => ({
+  rows: {} as Record<string, unknown[]>,
+  inserts: [] as { table: string; values: unknown }[],
+}));
+
+vi.mock("@/db", () => {
+  // Any chain of where/groupBy/limit resolves to the table's rows
+  const query = (table: Table) => {
+    const chain = {
+      where: () => chain,
+      groupBy: () => chain,
+      limit: () => chain,
+      then: (resolve: (rows: unknown[]) => unknown) => resolve(fake.rows[getTableName(table)] ?? []),
+    };
+    return chain;
+  };
+
+  return {
+    db: {
+      select: vi.fn(() => ({ from: query })),
+      insert: vi.fn((table: Table) => ({
+        values: (values: unknown) => {
+          fake.inserts.push({ table: getTableName(table), values });
+          return { onConflictDoUpdate: async () => {} };
+        },
+      })),
+    },
+  };
+});
+
+import { recalculateCinemaBaselines } from "./cinema-baseline";
+
+const NOW = new Date("2026-10-18T05:00:00Z");
+
+/** Recorded counts for the 28 London days before NOW: 20 on weekdays, 30 at weekends */
+function recordedDays(cinemaId: string) {
+  const rows = [];
+  for (let i = 1; i <= 28; i++) {
+    const day = new Date(Date.UTC(2026, 9, 18 - i)).toISOString().slice(0, 10);
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    rows.push({ cinemaId, day, count: weekday === 0 || weekday === 6 ? 30 : 20 });
+  }
+  return rows;
+}
+
+beforeEach(() => {
+  fake.rows = {};
+  fake.inserts = [];
+});
+
+describe("recalculateCinemaBaselines", () => {
+  it("averages recorded daily counts once the past screenings have been cleaned up", async () => {
+    fake.rows = {
+      cinemas: [{ id: "rio-dalston" }],
+      cinema_baselines: [],
+      // The cleanup cron has already deleted everything before yesterday
+      screenings: [],
+      cinema_daily_counts: recordedDays("rio-dalston"),
+    };
+
+    const result = await recalculateCinemaBaselines(4, NOW);
+
+    expect(result).toMatchObject({ updated: 1, insufficientData: 0 });
+    const saved = fake.inserts.find((insert) => insert.table === "cinema_baselines");
+    expect(saved?.values).toMatchObject({ cinemaId: "rio-dalston", weekdayAvg: 20, weekendAvg: 30 });
+  });
+
+  it("records the days it can still see before averaging", async () => {
+    fake.rows = {
+      cinemas: [{ id: "rio-dalston" }],
+      cinema_baselines: [],
+      screenings: [{ cinemaId: "rio-dalston", day: "2026-10-17", count: 30 }],
+    };
+
+    const result = await recalculateCinemaBaselines(4, NOW);
+
+    expect(fake.inserts[0]).toEqual({
+      table: "cinema_daily_counts",
+      values: [{ cinemaId: "rio-dalston", day: "2026-10-17", screeningCount: 30 }],
+    });
+    // One day isn't enough to trust an average
+    expect(result).toMatchObject({ updated: 0, insufficientData: 1 });
+  });
+
+  it("leaves manual overrides alone", async () => {
+    fake.rows = {
+      cinemas: [{ id: "rio-dalston" }],
+      cinema_baselines: [{ cinemaId: "rio-dalston", manualOverride: true }],
+      cinema_daily_counts: recordedDays("rio-dalston"),
+    };
+
+    const result = await recalculateCinemaBaselines(4, NOW);
+
+    expect(result).toMatchObject({ updated: 0, skippedManual: 1 });
+    expect(fake.inserts.some((insert) => insert.table === "cinema_baselines")).toBe(false);
+  });
+});
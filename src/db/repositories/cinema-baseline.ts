@@ -0,0 +1,211 @@
+/**
+ * Cinema Baseline Repository
+ * Loads expected screening counts and recomputes them from recent screenings.
+ * Past screenings are deleted by the cleanup cron after a day, so per-day
+ * counts are recorded in cinema_daily_counts first and averaged from there.
+ */
+
+import { db } from "@/db";
+import {
+  cinemaBaselines,
+  cinemaDailyCounts,
+  cinemas,
+  screenings,
+  type CinemaBaselineSelect,
+} from "@/db/schema";
+import { and, count, eq, gte, lt, ne, sql } from "drizzle-orm";
+import {
+  BASELINE_WINDOW_WEEKS,
+  computeBaselineAverages,
+  startOfLondonDay,
+  toDayKey,
+  type BaselineAverages,
+} from "@/lib/cinema-baselines";
+
+export interface BaselineRecalculationResult {
+  updated: number;
+  skippedManual: number;
+  insufficientData: number;
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+/**
+ * Get all baselines keyed by cinema ID
+ */
+export async function getCinemaBaselines(): Promise<Map<string, CinemaBaselineSelect>> {
+  const rows = await db.select().from(cinemaBaselines);
+  return new Map(rows.map((row) => [row.cinemaId, row]));
+}
+
+/**
+ * Get the baseline for a single cinema
+ */
+export async function getCinemaBaseline(cinemaId: string): Promise<CinemaBaselineSelect | null> {
+  const [baseline] = await db
+    .select()
+    .from(cinemaBaselines)
+    .where(eq(cinemaBaselines.cinemaId, cinemaId))
+    .limit(1);
+  return baseline ?? null;
+}
+
+/**
+ * Count screenings per cinema per London calendar day in [from, to)
+ * Cancelled screenings are excluded
+ */
+export async function getDailyScreeningCounts(
+  from: Date,
+  to: Date
+): Promise<Map<string, Map<string, number>>> {
+  const day = sql<string>`to_char(${screenings.datetime} AT TIME ZONE 'Europe/London', 'YYYY-MM-DD')`;
+
+  const rows = await db
+    .select({
+      cinemaId: screenings.cinemaId,
+      day,
+      count: count(screenings.id),
+    })
+    .from(screenings)
+    .where(
+      and(
+        gte(screenings.datetime, from),
+        lt(screenings.datetime, to),
+        ne(screenings.status, "cancelled")
+      )
+    )
+    .groupBy(screenings.cinemaId, day);
+
+  const byCinema = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    if (!byCinema.has(row.cinemaId)) {
+      byCinema.set(row.cinemaId, new Map());
+    }
+    byCinema.get(row.cinemaId)!.set(row.day, row.count);
+  }
+  return byCinema;
+}
+
+/**
+ * Save per-day screening counts for [from, to) to cinema_daily_counts, so
+ * they outlive the screenings. A day already recorded keeps the higher count:
+ * once cleanup has removed some of a day's screenings, re-recording it would
+ * otherwise lower it. Returns the number of cinema-days written.
+ */
+export async function recordDailyScreeningCounts(from: Date, to: Date): Promise<number> {
+  const dailyCounts = await getDailyScreeningCounts(from, to);
+  const rows = [...dailyCounts].flatMap(([cinemaId, days]) =>
+    [...days].map(([day, screeningCount]) => ({ cinemaId, day, screeningCount }))
+  );
+  if (rows.length === 0) return 0;
+
+  await db
+    .insert(cinemaDailyCounts)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [cinemaDailyCounts.cinemaId, cinemaDailyCounts.day],
+      set: {
+        screeningCount: sql`greatest(${cinemaDailyCounts.screeningCount}, excluded.screening_count)`,
+        recordedAt: sql`now()`,
+      },
+    });
+  return rows.length;
+}
+
+/**
+ * Recorded screening counts per cinema per London day in [from, to)
+ */
+export async function getRecordedDailyCounts(
+  from: Date,
+  to: Date
+): Promise<Map<string, Map<string, number>>> {
+  const rows = await db
+    .select({
+      cinemaId: cinemaDailyCounts.cinemaId,
+      day: cinemaDailyCounts.day,
+      count: cinemaDailyCounts.screeningCount,
+    })
+    .from(cinemaDailyCounts)
+    .where(and(gte(cinemaDailyCounts.day, toDayKey(from)), lt(cinemaDailyCounts.day, toDayKey(to))));
+
+  const byCinema = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    if (!byCinema.has(row.cinemaId)) {
+      byCinema.set(row.cinemaId, new Map());
+    }
+    byCinema.get(row.cinemaId)!.set(row.day, row.count);
+  }
+  return byCinema;
+}
+
+/**
+ * Recompute weekday/weekend averages for every active cinema
+ *
+ * Uses the last `weeks` complete weeks of recorded daily counts, after
+ * recording whatever past screenings are still held. Cinemas whose baseline
+ * has `manualOverride` set are left untouched.
+ */
+export async function recalculateCinemaBaselines(
+  weeks = BASELINE_WINDOW_WEEKS,
+  now = new Date()
+): Promise<BaselineRecalculationResult> {
+  const windowEnd = startOfLondonDay(now);
+  const windowStart = startOfLondonDay(now, -7 * weeks);
+
+  await recordDailyScreeningCounts(windowStart, windowEnd);
+
+  const [activeCinemas, existing, dailyCounts] = await Promise.all([
+    db.select({ id: cinemas.id }).from(cinemas).where(eq(cinemas.isActive, true)),
+    getCinemaBaselines(),
+    getRecordedDailyCounts(windowStart, windowEnd),
+  ]);
+
+  const result: BaselineRecalculationResult = {
+    updated: 0,
+    skippedManual: 0,
+    insufficientData: 0,
+    windowStart,
+    windowEnd,
+  };
+
+  for (const cinema of activeCinemas) {
+    if (existing.get(cinema.id)?.manualOverride) {
+      result.skippedManual++;
+      continue;
+    }
+
+    const averages = computeBaselineAverages(
+      dailyCounts.get(cinema.id) ?? new Map(),
+      windowStart,
+      windowEnd
+    );
+
+    if (averages.weekdayAvg === null && averages.weekendAvg === null) {
+      result.insufficientData++;
+      continue;
+    }
+
+    await saveComputedBaseline(cinema.id, averages, now);
+    result.updated++;
+  }
+
+  return result;
+}
+
+async function saveComputedBaseline(
+  cinemaId: string,
+  averages: BaselineAverages,
+  calculatedAt: Date
+): Promise<void> {
+  const values = {
+    weekdayAvg: averages.weekdayAvg,
+    weekendAvg: averages.weekendAvg,
+    lastCalculated: calculatedAt,
+    updatedAt: calculatedAt,
+  };
+
+  await db
+    .insert(cinemaBaselines)
+    .values({ cinemaId, ...values })
+    .onConflictDoUpdate({ target: cinemaBaselines.cinemaId, set: values });
+}
@@ -0,0 +1,215 @@
+/**
+ * Festival Alert Repository
+ * Programme announcement tracking and the followers behind festival alerts
+ */
+
+import { db } from "@/db";
+import {
+  cinemas,
+  festivalAlertDeliveries,
+  festivalScreenings,
+  festivals,
+  films,
+  screenings,
+  userFestivalInterests,
+  userFestivalSchedule,
+  users,
+} from "@/db/schema";
+import { and, asc, count, eq, gt, gte, inArray, isNotNull, lte, ne, or } from "drizzle-orm";
+import { addHours } from "date-fns";
+import type { DigestRecipient } from "@/lib/notifications/digest";
+import {
+  REMINDER_LEAD_HOURS,
+  isProgrammeAnnouncement,
+  type BookedScreening,
+  type FestivalAlert,
+  type FestivalFollow,
+} from "@/lib/notifications/festival-alerts";
+
+export interface FestivalAlertRecipient extends DigestRecipient {
+  follows: FestivalFollow[];
+  /** Alert keys already sent, by festival ID */
+  delivered: Map<string, Set<string>>;
+}
+
+function todayDate(now: Date): string {
+  return now.toISOString().split("T")[0];
+}
+
+/**
+ * Compare each current festival's screening count with the last one seen.
+ * A big enough jump is recorded as a programme announcement (and sets the
+ * announced date if it wasn't known). Returns the announced festival IDs.
+ */
+export async function refreshProgrammeCounts(now = new Date()): Promise<string[]> {
+  const rows = await db
+    .select({
+      id: festivals.id,
+      previous: festivals.programmeScreeningCount,
+      current: count(festivalScreenings.screeningId),
+      announcedDate: festivals.programmAnnouncedDate,
+    })
+    .from(festivals)
+    .leftJoin(festivalScreenings, eq(festivalScreenings.festivalId, festivals.id))
+    .where(and(eq(festivals.isActive, true), gte(festivals.endDate, todayDate(now))))
+    .groupBy(festivals.id);
+
+  const announced: string[] = [];
+
+  for (const row of rows) {
+    if (row.current === row.previous) continue;
+
+    if (isProgrammeAnnouncement(row.previous, row.current)) {
+      announced.push(row.id);
+      await db
+        .update(festivals)
+        .set({
+          programmeScreeningCount: row.current,
+          programmeUpdatedAt: now,
+          programmAnnouncedDate: row.announcedDate ?? todayDate(now),
+          updatedAt: now,
+        })
+        .where(eq(festivals.id, row.id));
+    } else {
+      await db
+        .update(festivals)
+        .set({ programmeScreeningCount: row.current })
+        .where(eq(festivals.id, row.id));
+    }
+  }
+
+  return announced;
+}
+
+/**
+ * Users with an email who follow a current festival with at least one
+ * notify flag on, with their follows, upcoming booked screenings and the
+ * alerts they've already had
+ */
+export async function getFestivalAlertRecipients(now = new Date()): Promise<FestivalAlertRecipient[]> {
+  const followRows = await db
+    .select({
+      userId: users.id,
+      email: users.email,
+      displayName: users.displayName,
+      festivalId: festivals.id,
+      festivalName: festivals.name,
+      festivalSlug: festivals.slug,
+      interestLevel: userFestivalInterests.interestLevel,
+      notifyOnSale: userFestivalInterests.notifyOnSale,
+      notifyProgramme: userFestivalInterests.notifyProgramme,
+      notifyReminders: userFestivalInterests.notifyReminders,
+      followedAt: userFestivalInterests.createdAt,
+      memberSaleDate: festivals.memberSaleDate,
+      publicSaleDate: festivals.publicSaleDate,
+      programmeScreeningCount: festivals.programmeScreeningCount,
+      programmeUpdatedAt: festivals.programmeUpdatedAt,
+    })
+    .from(userFestivalInterests)
+    .innerJoin(users, eq(userFestivalInterests.userId, users.id))
+    .innerJoin(festivals, eq(userFestivalInterests.festivalId, festivals.id))
+    .where(
+      and(
+        isNotNull(users.email),
+        eq(festivals.isActive, true),
+        gte(festivals.endDate, todayDate(now)),
+        or(
+          eq(userFestivalInterests.notifyOnSale, true),
+          eq(userFestivalInterests.notifyProgramme, true),
+          eq(userFestivalInterests.notifyReminders, true)
+        )
+      )
+    );
+
+  if (followRows.length === 0) return [];
+
+  const userIds = [...new Set(followRows.map((row) => row.userId))];
+
+  const bookedRows = await db
+    .select({
+      userId: userFestivalSchedule.userId,
+      festivalId: userFestivalSchedule.festivalId,
+      screeningId: screenings.id,
+      filmTitle: films.title,
+      cinemaName: cinemas.name,
+      datetime: screenings.datetime,
+      bookingConfirmation: userFestivalSchedule.bookingConfirmation,
+    })
+    .from(userFestivalSchedule)
+    .innerJoin(screenings, eq(userFestivalSchedule.screeningId, screenings.id))
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
+    .where(
+      and(
+        inArray(userFestivalSchedule.userId, userIds),
+        eq(userFestivalSchedule.status, "booked"),
+        ne(screenings.status, "cancelled"),
+        gt(screenings.datetime, now),
+        lte(screenings.datetime, addHours(now, REMINDER_LEAD_HOURS))
+      )
+    )
+    .orderBy(asc(screenings.datetime));
+
+  const deliveryRows = await db
+    .select({
+      userId: festivalAlertDeliveries.userId,
+      festivalId: festivalAlertDeliveries.festivalId,
+      alertKey: festivalAlertDeliveries.alertKey,
+    })
+    .from(festivalAlertDeliveries)
+    .where(inArray(festivalAlertDeliveries.userId, userIds));
+
+  const recipients = new Map<string, FestivalAlertRecipient>();
+
+  for (const row of followRows) {
+    const { userId, email, displayName, ...follow } = row;
+    let recipient = recipients.get(userId);
+    if (!recipient) {
+      recipient = { userId, email: email!, displayName, follows: [], delivered: new Map() };
+      recipients.set(userId, recipient);
+    }
+
+    const booked: BookedScreening[] = bookedRows
+      .filter((b) => b.userId === userId && b.festivalId === follow.festivalId)
+      .map((b) => ({
+        screeningId: b.screeningId,
+        filmTitle: b.filmTitle,
+        cinemaName: b.cinemaName,
+        datetime: b.datetime,
+        bookingConfirmation: b.bookingConfirmation,
+      }));
+    recipient.follows.push({ userId, ...follow, booked });
+  }
+
+  for (const row of deliveryRows) {
+    const delivered = recipients.get(row.userId)?.delivered;
+    if (!delivered) continue;
+    delivered.set(row.festivalId, (delivered.get(row.festivalId) ?? new Set()).add(row.alertKey));
+  }
+
+  return [...recipients.values()];
+}
+
+/**
+ * Record sent alerts so they aren't sent again
+ */
+export async function recordFestivalAlertDeliveries(
+  userId: string,
+  alerts: FestivalAlert[],
+  now = new Date()
+): Promise<void> {
+  if (alerts.length === 0) return;
+
+  await db
+    .insert(festivalAlertDeliveries)
+    .values(
+      alerts.map((alert) => ({
+        userId,
+        festivalId: alert.festivalId,
+        type: alert.type,
+        alertKey: alert.key,
+        sentAt: now,
+      }))
+    )
+    .onConflictDoNothing();
+}
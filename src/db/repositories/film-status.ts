@@ -0,0 +1,233 @@
+/**
+ * Film Status Repository
+ * Writes to a user's film statuses and reads the changes since a cursor.
+ * Every write bumps the row's version so other devices can pick it up.
+ */
+
+import { db } from "@/db";
+import {
+  filmStatusChangedAt,
+  nextFilmStatusVersion,
+  userFilmStatuses,
+  userFilmStatusTombstones,
+} from "@/db/schema";
+import { and, asc, eq, getTableColumns, gt, inArray, sql, type AnyColumn } from "drizzle-orm";
+import { payloadToRow, rowToPayload, type FilmStatusPayload } from "@/lib/sync/film-status-payload";
+import {
+  FILM_STATUS_CHANGES_PAGE_SIZE,
+  FILM_STATUS_SETTLE_SECONDS,
+  resolveFilmStatusWrites,
+  settledCursor,
+  type FilmStatusChanges,
+  type FilmStatusTombstone,
+} from "@/lib/sync/film-status-changes";
+
+function chunk<T>(items: T[], size: number = FILM_STATUS_CHANGES_PAGE_SIZE): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    pages.push(items.slice(i, i + size));
+  }
+  return pages;
+}
+
+/** Whether a change's version is old enough to be sure it has committed */
+function isSettled(changedAt: AnyColumn) {
+  return sql<boolean>`${changedAt} < now() - make_interval(secs => ${FILM_STATUS_SETTLE_SECONDS})`;
+}
+
+export interface FilmStatusWriteResult {
+  upserted: number;
+  deleted: number;
+  skipped: number;
+}
+
+/**
+ * Apply statuses and deletions from a client, newest wins. Stale writes
+ * (older than what's stored, or than the film's deletion) are skipped.
+ */
+export async function applyFilmStatusWrites(
+  userId: string,
+  statuses: FilmStatusPayload[],
+  deleted: FilmStatusTombstone[] = []
+): Promise<FilmStatusWriteResult> {
+  const filmIds = [...new Set([...statuses, ...deleted].map((write) => write.filmId))];
+  if (filmIds.length === 0) {
+    return { upserted: 0, deleted: 0, skipped: 0 };
+  }
+
+  const [storedRows, tombstoneRows] = await Promise.all([
+    db
+      .select({ filmId: userFilmStatuses.filmId, updatedAt: userFilmStatuses.updatedAt })
+      .from(userFilmStatuses)
+      .where(and(eq(userFilmStatuses.userId, userId), inArray(userFilmStatuses.filmId, filmIds))),
+    db
+      .select({ filmId: userFilmStatusTombstones.filmId, deletedAt: userFilmStatusTombstones.deletedAt })
+      .from(userFilmStatusTombstones)
+      .where(and(eq(userFilmStatusTombstones.userId, userId), inArray(userFilmStatusTombstones.filmId, filmIds))),
+  ]);
+
+  const { upserts, deletions } = resolveFilmStatusWrites(
+    {
+      statuses: new Map(storedRows.map((row) => [row.filmId, row.updatedAt])),
+      tombstones: new Map(tombstoneRows.map((row) => [row.filmId, row.deletedAt])),
+    },
+    { statuses, deleted }
+  );
+
+  // In pages, to stay well under Postgres' parameter limit on big imports
+  for (const page of chunk(upserts)) {
+    await db
+      .insert(userFilmStatuses)
+      .values(page.map((status) => ({ userId, ...payloadToRow(status) })))
+      .onConflictDoUpdate({
+        target: [userFilmStatuses.userId, userFilmStatuses.filmId],
+        set: {
+          status: sql`excluded.status`,
+          addedAt: sql`excluded.added_at`,
+          seenAt: sql`excluded.seen_at`,
+          rating: sql`excluded.rating`,
+          notes: sql`excluded.notes`,
+          seenScreeningId: sql`excluded.seen_screening_id`,
+          seenCinemaId: sql`excluded.seen_cinema_id`,
+          seenCinemaName: sql`excluded.seen_cinema_name`,
+          seenFormat: sql`excluded.seen_format`,
+          filmTitle: sql`excluded.film_title`,
+          filmYear: sql`excluded.film_year`,
+          filmDirectors: sql`excluded.film_directors`,
+          filmPosterUrl: sql`excluded.film_poster_url`,
+          updatedAt: sql`excluded.updated_at`,
+          version: nextFilmStatusVersion,
+          changedAt: filmStatusChangedAt,
+        },
+      });
+
+    // Re-added films are no longer deleted
+    await db
+      .delete(userFilmStatusTombstones)
+      .where(
+        and(
+          eq(userFilmStatusTombstones.userId, userId),
+          inArray(
+            userFilmStatusTombstones.filmId,
+            page.map((status) => status.filmId)
+          )
+        )
+      );
+  }
+
+  for (const page of chunk(deletions)) {
+    await db
+      .delete(userFilmStatuses)
+      .where(
+        and(
+          eq(userFilmStatuses.userId, userId),
+          inArray(
+            userFilmStatuses.filmId,
+            page.map((deletion) => deletion.filmId)
+          )
+        )
+      );
+
+    await db
+      .insert(userFilmStatusTombstones)
+      .values(
+        page.map((deletion) => ({
+          userId,
+          filmId: deletion.filmId,
+          deletedAt: new Date(deletion.deletedAt),
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [userFilmStatusTombstones.userId, userFilmStatusTombstones.filmId],
+        set: {
+          deletedAt: sql`excluded.deleted_at`,
+          version: nextFilmStatusVersion,
+          changedAt: filmStatusChangedAt,
+        },
+      });
+  }
+
+  return {
+    upserted: upserts.length,
+    deleted: deletions.length,
+    skipped: statuses.length + deleted.length - upserts.length - deletions.length,
+  };
+}
+
+/**
+ * Statuses and deletions written after `since`, oldest first. The cursor
+ * stops short of recent changes (see settledCursor), so a write that commits
+ * after a later version was read isn't skipped.
+ */
+export async function getFilmStatusChanges(
+  userId: string,
+  since: number,
+  limit: number = FILM_STATUS_CHANGES_PAGE_SIZE
+): Promise<FilmStatusChanges> {
+  const [rows, tombstones] = await Promise.all([
+    db
+      .select({ ...getTableColumns(userFilmStatuses), settled: isSettled(userFilmStatuses.changedAt) })
+      .from(userFilmStatuses)
+      .where(and(eq(userFilmStatuses.userId, userId), gt(userFilmStatuses.version, since)))
+      .orderBy(asc(userFilmStatuses.version))
+      .limit(limit + 1),
+    db
+      .select({
+        ...getTableColumns(userFilmStatusTombstones),
+        settled: isSettled(userFilmStatusTombstones.changedAt),
+      })
+      .from(userFilmStatusTombstones)
+      .where(and(eq(userFilmStatusTombstones.userId, userId), gt(userFilmStatusTombstones.version, since)))
+      .orderBy(asc(userFilmStatusTombstones.version))
+      .limit(limit + 1),
+  ]);
+
+  const changes = [
+    ...rows.map((row) => ({ version: row.version, settled: row.settled, status: row })),
+    ...tombstones.map((row) => ({ version: row.version, settled: row.settled, tombstone: row })),
+  ]
+    .sort((a, b) => a.version - b.version)
+    .slice(0, limit + 1);
+
+  const page = changes.slice(0, limit);
+  const cursor = settledCursor(page, since);
+  const latest = page.length > 0 ? page[page.length - 1].version : since;
+  return {
+    statuses: page.flatMap((change) => ("status" in change ? [rowToPayload(change.status)] : [])),
+    deleted: page.flatMap((change) =>
+      "tombstone" in change
+        ? [{ filmId: change.tombstone.filmId, deletedAt: change.tombstone.deletedAt.toISOString() }]
+        : []
+    ),
+    cursor,
+    latest,
+    // The rest waits until this page has settled, rather than being re-read now
+    hasMore: changes.length > limit && cursor === latest,
+  };
+}
+
+/**
+ * The latest change cursor for a user (0 if they have no statuses), held
+ * back to before their oldest change that hasn't settled yet
+ */
+export async function getFilmStatusCursor(userId: string): Promise<number> {
+  const bounds = (version: AnyColumn, changedAt: AnyColumn) => ({
+    settled: sql<number | null>`max(${version}) filter (where ${isSettled(changedAt)})`.mapWith(Number),
+    unsettled: sql<number | null>`min(${version}) filter (where not ${isSettled(changedAt)})`.mapWith(Number),
+  });
+
+  const [[statuses], [tombstones]] = await Promise.all([
+    db
+      .select(bounds(userFilmStatuses.version, userFilmStatuses.changedAt))
+      .from(userFilmStatuses)
+      .where(eq(userFilmStatuses.userId, userId)),
+    db
+      .select(bounds(userFilmStatusTombstones.version, userFilmStatusTombstones.changedAt))
+      .from(userFilmStatusTombstones)
+      .where(eq(userFilmStatusTombstones.userId, userId)),
+  ]);
+
+  const settled = Math.max(statuses?.settled ?? 0, tombstones?.settled ?? 0);
+  const unsettled = Math.min(statuses?.unsettled ?? Infinity, tombstones?.unsettled ?? Infinity);
+  return Math.min(settled, unsettled - 1);
+}
@@ -4,3 +4,19 @@
  */
 
 export * from "./screening";
+export * from "./calendar-feed";
+export * from "./screening-change";
+export * from "./cinema-baseline";
+export * from "./scrape-schedule";
+export * from "./api-key";
+export * from "./public-api";
+export * from "./search";
+export * from "./availability";
+export * from "./notification";
+export * from "./festival-alert";
+export * from "./itinerary";
+export * from "./letterboxd";
+export * from "./watch-group";
+export * from "./recommendation";
+export * from "./film-status";
+export * from "./account";
@@ -0,0 +1,139 @@
+/**
+ * Itinerary Repository
+ * Loads showings for the watchlist planner and stores the plans users accept
+ */
+
+import { db } from "@/db";
+import { cinemas, films, screenings, userPlannedScreenings } from "@/db/schema";
+import { and, asc, eq, gte, inArray, lte, ne, or, isNull } from "drizzle-orm";
+import type { PlannerScreening } from "@/lib/festival-planner";
+import { getScreenings, type ScreeningWithDetails } from "./screening";
+
+/**
+ * Every bookable upcoming showing of the films between two dates, with the
+ * venue coordinates the planner needs for travel times
+ */
+export async function getItineraryScreenings(
+  filmIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<PlannerScreening[]> {
+  if (filmIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      screeningId: screenings.id,
+      filmId: films.id,
+      filmTitle: films.title,
+      datetime: screenings.datetime,
+      runtime: films.runtime,
+      cinemaId: cinemas.id,
+      cinemaName: cinemas.name,
+      cinemaShortName: cinemas.shortName,
+      coordinates: cinemas.coordinates,
+      bookingUrl: screenings.bookingUrl,
+    })
+    .from(screenings)
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
+    .where(
+      and(
+        inArray(screenings.filmId, filmIds),
+        gte(screenings.datetime, startDate),
+        lte(screenings.datetime, endDate),
+        ne(screenings.status, "cancelled"),
+        or(isNull(screenings.availabilityStatus), ne(screenings.availabilityStatus, "sold_out"))
+      )
+    )
+    .orderBy(asc(screenings.datetime));
+
+  return rows.map(({ cinemaName, cinemaShortName, ...row }) => ({
+    ...row,
+    cinemaName: cinemaShortName ?? cinemaName,
+  }));
+}
+
+/**
+ * Screening IDs in the user's accepted plan
+ */
+export async function getPlannedScreeningIds(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ screeningId: userPlannedScreenings.screeningId })
+    .from(userPlannedScreenings)
+    .where(eq(userPlannedScreenings.userId, userId));
+
+  return rows.map((r) => r.screeningId);
+}
+
+/**
+ * Upcoming screenings in the user's accepted plan
+ */
+export async function getPlannedScreenings(
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<ScreeningWithDetails[]> {
+  const screeningIds = await getPlannedScreeningIds(userId);
+
+  if (screeningIds.length === 0) {
+    return [];
+  }
+
+  return getScreenings({ startDate, endDate, screeningIds });
+}
+
+/**
+ * Add screenings to the user's plan (already planned ones are left alone)
+ */
+export async function addPlannedScreenings(
+  userId: string,
+  screeningIds: string[]
+): Promise<number> {
+  if (screeningIds.length === 0) {
+    return 0;
+  }
+
+  const existing = await db
+    .select({ id: screenings.id })
+    .from(screenings)
+    .where(inArray(screenings.id, screeningIds));
+
+  if (existing.length === 0) {
+    return 0;
+  }
+
+  const inserted = await db
+    .insert(userPlannedScreenings)
+    .values(existing.map((s) => ({ userId, screeningId: s.id })))
+    .onConflictDoNothing({
+      target: [userPlannedScreenings.userId, userPlannedScreenings.screeningId],
+    })
+    .returning({ id: userPlannedScreenings.id });
+
+  return inserted.length;
+}
+
+/**
+ * Remove screenings from the user's plan, or clear it when no IDs are given
+ */
+export async function removePlannedScreenings(
+  userId: string,
+  screeningIds?: string[]
+): Promise<number> {
+  const conditions = [eq(userPlannedScreenings.userId, userId)];
+  if (screeningIds) {
+    if (screeningIds.length === 0) {
+      return 0;
+    }
+    conditions.push(inArray(userPlannedScreenings.screeningId, screeningIds));
+  }
+
+  const deleted = await db
+    .delete(userPlannedScreenings)
+    .where(and(...conditions))
+    .returning({ id: userPlannedScreenings.id });
+
+  return deleted.length;
+}
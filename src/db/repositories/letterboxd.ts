@@ -0,0 +1,89 @@
+/**
+ * Letterboxd Repository
+ * Finds our films for Letterboxd import rows, and the IDs Letterboxd needs for exports
+ */
+
+import { db } from "@/db";
+import { films } from "@/db/schema";
+import { inArray, or, sql } from "drizzle-orm";
+import {
+  normalizeTitle,
+  resolveLetterboxdMatch,
+  type LetterboxdEntry,
+  type LetterboxdMatch,
+  type MatchCandidate,
+} from "@/lib/letterboxd/import";
+
+/** Rows looked up per query, to keep parameter lists reasonable */
+const MATCH_BATCH_SIZE = 500;
+
+export type LetterboxdLookup = Pick<LetterboxdEntry, "key" | "name" | "year" | "letterboxdUrl" | "tmdbId">;
+
+function candidateSelect() {
+  return {
+    id: films.id,
+    title: films.title,
+    originalTitle: films.originalTitle,
+    year: films.year,
+    directors: films.directors,
+    posterUrl: films.posterUrl,
+    tmdbId: films.tmdbId,
+    letterboxdUrl: films.letterboxdUrl,
+  };
+}
+
+async function findCandidates(entries: LetterboxdLookup[]): Promise<MatchCandidate[]> {
+  const urls = entries.flatMap((e) => (e.letterboxdUrl ? [e.letterboxdUrl, e.letterboxdUrl.replace(/\/$/, "")] : []));
+  const tmdbIds = entries.flatMap((e) => (e.tmdbId ? [e.tmdbId] : []));
+  const titles = [...new Set(entries.map((e) => normalizeTitle(e.name)))];
+
+  const conditions = [
+    inArray(sql`search_normalize(${films.title})`, titles),
+    inArray(sql`search_normalize(${films.originalTitle})`, titles),
+  ];
+  if (urls.length > 0) conditions.push(inArray(films.letterboxdUrl, urls));
+  if (tmdbIds.length > 0) conditions.push(inArray(films.tmdbId, tmdbIds));
+
+  return db.select(candidateSelect()).from(films).where(or(...conditions));
+}
+
+/**
+ * Match Letterboxd rows to our films, keyed by entry key
+ */
+export async function matchLetterboxdEntries(
+  entries: LetterboxdLookup[]
+): Promise<Record<string, LetterboxdMatch>> {
+  const matches: Record<string, LetterboxdMatch> = {};
+
+  for (let i = 0; i < entries.length; i += MATCH_BATCH_SIZE) {
+    const batch = entries.slice(i, i + MATCH_BATCH_SIZE);
+    const candidates = await findCandidates(batch);
+
+    for (const entry of batch) {
+      matches[entry.key] = resolveLetterboxdMatch(entry, candidates);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Title, year, directors and external IDs for exporting films to Letterboxd
+ */
+export async function getLetterboxdExportFilms(filmIds: string[]) {
+  if (filmIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select({
+      id: films.id,
+      title: films.title,
+      year: films.year,
+      directors: films.directors,
+      tmdbId: films.tmdbId,
+      letterboxdUrl: films.letterboxdUrl,
+    })
+    .from(films)
+    .where(inArray(films.id, filmIds));
+}
@@ -0,0 +1,254 @@
+/**
+ * Notification Repository
+ * Per-user notification opt-ins and the watchlist screenings behind digests
+ */
+
+import { db } from "@/db";
+import {
+  cinemas,
+  films,
+  notificationDeliveries,
+  screenings,
+  userFilmStatuses,
+  userNotificationSettings,
+  users,
+  type NotificationType,
+} from "@/db/schema";
+import { and, asc, eq, gt, gte, isNotNull, isNull, lt, lte, ne, notExists, or, sql, type SQL } from "drizzle-orm";
+import { addDays, subDays, subHours } from "date-fns";
+import type { DigestItem, DigestRecipient } from "@/lib/notifications/digest";
+
+/** A user gets at most one digest in this many hours */
+export const MIN_DIGEST_INTERVAL_HOURS = 12;
+
+/** Screenings first scraped longer ago than this never count as new */
+const NEW_SCREENING_LOOKBACK_DAYS = 14;
+
+export interface NotificationSettings {
+  newScreenings: boolean;
+  lastChance: boolean;
+  lastChanceDays: number;
+  sellingFast: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  newScreenings: false,
+  lastChance: false,
+  lastChanceDays: 7,
+  sellingFast: false,
+};
+
+export interface DigestRecipientWithSettings extends DigestRecipient, NotificationSettings {
+  /** Screenings first scraped after this count as new */
+  newSince: Date;
+}
+
+function settingsColumns() {
+  return {
+    newScreenings: userNotificationSettings.newScreenings,
+    lastChance: userNotificationSettings.lastChance,
+    lastChanceDays: userNotificationSettings.lastChanceDays,
+    sellingFast: userNotificationSettings.sellingFast,
+  };
+}
+
+/**
+ * The user's opt-ins (all off if they've never saved any)
+ */
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings> {
+  const [row] = await db
+    .select(settingsColumns())
+    .from(userNotificationSettings)
+    .where(eq(userNotificationSettings.userId, userId))
+    .limit(1);
+
+  return row ?? DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+/**
+ * Save the user's opt-ins
+ */
+export async function updateNotificationSettings(
+  userId: string,
+  settings: NotificationSettings
+): Promise<NotificationSettings> {
+  const [row] = await db
+    .insert(userNotificationSettings)
+    .values({ userId, ...settings })
+    .onConflictDoUpdate({
+      target: userNotificationSettings.userId,
+      set: { ...settings, updatedAt: new Date() },
+    })
+    .returning(settingsColumns());
+
+  return row;
+}
+
+/**
+ * Users with an email, at least one notification type on, and no digest in
+ * the last MIN_DIGEST_INTERVAL_HOURS
+ */
+export async function getDigestRecipients(now = new Date()): Promise<DigestRecipientWithSettings[]> {
+  const rows = await db
+    .select({
+      userId: users.id,
+      email: users.email,
+      displayName: users.displayName,
+      ...settingsColumns(),
+      lastDigestAt: userNotificationSettings.lastDigestAt,
+      createdAt: userNotificationSettings.createdAt,
+    })
+    .from(userNotificationSettings)
+    .innerJoin(users, eq(userNotificationSettings.userId, users.id))
+    .where(
+      and(
+        isNotNull(users.email),
+        or(
+          eq(userNotificationSettings.newScreenings, true),
+          eq(userNotificationSettings.lastChance, true),
+          eq(userNotificationSettings.sellingFast, true)
+        ),
+        or(
+          isNull(userNotificationSettings.lastDigestAt),
+          lt(userNotificationSettings.lastDigestAt, subHours(now, MIN_DIGEST_INTERVAL_HOURS))
+        )
+      )
+    );
+
+  return rows.map(({ lastDigestAt, createdAt, email, ...row }) => ({
+    ...row,
+    email: email!,
+    newSince: lastDigestAt ?? createdAt,
+  }));
+}
+
+/**
+ * Upcoming, non-cancelled screenings of films on the user's watchlist that
+ * haven't been in a digest of this type yet
+ */
+async function getWatchlistItems(
+  userId: string,
+  type: NotificationType,
+  condition: SQL | undefined,
+  now: Date
+): Promise<DigestItem[]> {
+  const rows = await db
+    .select({
+      screeningId: screenings.id,
+      filmId: films.id,
+      filmTitle: films.title,
+      filmYear: films.year,
+      cinemaName: cinemas.name,
+      datetime: screenings.datetime,
+      bookingUrl: screenings.bookingUrl,
+    })
+    .from(screenings)
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
+    .innerJoin(
+      userFilmStatuses,
+      and(
+        eq(userFilmStatuses.filmId, screenings.filmId),
+        eq(userFilmStatuses.userId, userId),
+        eq(userFilmStatuses.status, "want_to_see")
+      )
+    )
+    .where(
+      and(
+        gte(screenings.datetime, now),
+        ne(screenings.status, "cancelled"),
+        condition,
+        notExists(
+          db
+            .select({ id: notificationDeliveries.id })
+            .from(notificationDeliveries)
+            .where(
+              and(
+                eq(notificationDeliveries.userId, userId),
+                eq(notificationDeliveries.type, type),
+                eq(notificationDeliveries.screeningId, screenings.id)
+              )
+            )
+        )
+      )
+    )
+    .orderBy(asc(screenings.datetime));
+
+  return rows.map((row) => ({ ...row, type }));
+}
+
+/**
+ * Everything the recipient has opted into and not been told about yet
+ */
+export async function getDigestItems(
+  recipient: DigestRecipientWithSettings,
+  now = new Date()
+): Promise<DigestItem[]> {
+  const items: DigestItem[] = [];
+
+  if (recipient.newScreenings) {
+    const since = new Date(
+      Math.max(recipient.newSince.getTime(), subDays(now, NEW_SCREENING_LOOKBACK_DAYS).getTime())
+    );
+    items.push(
+      ...(await getWatchlistItems(
+        recipient.userId,
+        "new_screenings",
+        // Screenings already on when the film was added aren't news
+        and(gt(screenings.createdAt, since), gt(screenings.createdAt, userFilmStatuses.addedAt)),
+        now
+      ))
+    );
+  }
+
+  if (recipient.lastChance) {
+    const finalScreening = sql`${screenings.datetime} = (
+      SELECT max(s2.datetime) FROM screenings s2
+      WHERE s2.film_id = ${screenings.filmId} AND s2.status <> 'cancelled'
+    )`;
+    items.push(
+      ...(await getWatchlistItems(
+        recipient.userId,
+        "last_chance",
+        and(lte(screenings.datetime, addDays(now, recipient.lastChanceDays)), finalScreening),
+        now
+      ))
+    );
+  }
+
+  if (recipient.sellingFast) {
+    items.push(
+      ...(await getWatchlistItems(
+        recipient.userId,
+        "selling_fast",
+        eq(screenings.availabilityStatus, "low"),
+        now
+      ))
+    );
+  }
+
+  return items;
+}
+
+/**
+ * Record a sent digest so its screenings aren't sent again
+ */
+export async function recordDigestDelivery(
+  userId: string,
+  items: DigestItem[],
+  now = new Date()
+): Promise<void> {
+  if (items.length > 0) {
+    await db
+      .insert(notificationDeliveries)
+      .values(
+        items.map((item) => ({ userId, type: item.type, screeningId: item.screeningId, sentAt: now }))
+      )
+      .onConflictDoNothing();
+  }
+
+  await db
+    .update(userNotificationSettings)
+    .set({ lastDigestAt: now })
+    .where(eq(userNotificationSettings.userId, userId));
+}
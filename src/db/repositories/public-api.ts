@@ -0,0 +1,338 @@
+/**
+ * Public API Repository
+ * Keyset-paginated lists and lookups behind /api/v1
+ *
+ * List functions fetch `limit + 1` rows so the caller can tell whether
+ * another page exists (see toPage in lib/public-api/pagination.ts).
+ */
+
+import { db } from "@/db";
+import {
+  cinemas,
+  festivals,
+  festivalScreenings,
+  films,
+  screenings,
+  seasonFilms,
+  seasons,
+} from "@/db/schema";
+import { and, asc, eq, gt, gte, ne, sql, type SQL } from "drizzle-orm";
+import type { CursorKey } from "@/lib/public-api/pagination";
+
+export interface PageQuery {
+  /** Sort key of the last row of the previous page */
+  after: CursorKey | null;
+  limit: number;
+}
+
+function todayDate(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// ============================================================================
+// Films
+// ============================================================================
+
+const filmSelect = {
+  id: films.id,
+  title: films.title,
+  originalTitle: films.originalTitle,
+  year: films.year,
+  runtime: films.runtime,
+  directors: films.directors,
+  genres: films.genres,
+  countries: films.countries,
+  languages: films.languages,
+  certification: films.certification,
+  synopsis: films.synopsis,
+  posterUrl: films.posterUrl,
+  backdropUrl: films.backdropUrl,
+  trailerUrl: films.trailerUrl,
+  isRepertory: films.isRepertory,
+  tmdbId: films.tmdbId,
+  imdbId: films.imdbId,
+  letterboxdUrl: films.letterboxdUrl,
+  letterboxdRating: films.letterboxdRating,
+} as const;
+
+export interface PublicFilmFilters {
+  /** Only films with an upcoming, non-cancelled screening */
+  showing?: boolean;
+  isRepertory?: boolean;
+  year?: number;
+}
+
+/**
+ * Films ordered by ID
+ */
+export async function listPublicFilms(
+  filters: PublicFilmFilters,
+  page: PageQuery
+) {
+  const conditions: SQL[] = [];
+
+  if (filters.showing) {
+    const upcoming = db
+      .select({ filmId: screenings.filmId })
+      .from(screenings)
+      .where(and(gte(screenings.datetime, new Date()), ne(screenings.status, "cancelled")));
+    conditions.push(sql`${films.id} in ${upcoming}`);
+  }
+  if (filters.isRepertory !== undefined) {
+    conditions.push(eq(films.isRepertory, filters.isRepertory));
+  }
+  if (filters.year !== undefined) {
+    conditions.push(eq(films.year, filters.year));
+  }
+  if (page.after) {
+    conditions.push(gt(films.id, page.after[0]));
+  }
+
+  return db
+    .select(filmSelect)
+    .from(films)
+    .where(and(...conditions))
+    .orderBy(asc(films.id))
+    .limit(page.limit + 1);
+}
+
+export async function getPublicFilm(id: string) {
+  const [film] = await db.select(filmSelect).from(films).where(eq(films.id, id)).limit(1);
+  return film ?? null;
+}
+
+// ============================================================================
+// Cinemas
+// ============================================================================
+
+const cinemaSelect = {
+  id: cinemas.id,
+  name: cinemas.name,
+  shortName: cinemas.shortName,
+  chain: cinemas.chain,
+  address: cinemas.address,
+  coordinates: cinemas.coordinates,
+  screens: cinemas.screens,
+  features: cinemas.features,
+  programmingFocus: cinemas.programmingFocus,
+  website: cinemas.website,
+  bookingUrl: cinemas.bookingUrl,
+  description: cinemas.description,
+  imageUrl: cinemas.imageUrl,
+} as const;
+
+/**
+ * Active cinemas ordered by ID
+ */
+export async function listPublicCinemas(
+  filters: { chain?: string },
+  page: PageQuery
+) {
+  const conditions: SQL[] = [eq(cinemas.isActive, true)];
+
+  if (filters.chain) {
+    conditions.push(sql`lower(${cinemas.chain}) = lower(${filters.chain})`);
+  }
+  if (page.after) {
+    conditions.push(gt(cinemas.id, page.after[0]));
+  }
+
+  return db
+    .select(cinemaSelect)
+    .from(cinemas)
+    .where(and(...conditions))
+    .orderBy(asc(cinemas.id))
+    .limit(page.limit + 1);
+}
+
+export async function getPublicCinema(id: string) {
+  const [cinema] = await db
+    .select(cinemaSelect)
+    .from(cinemas)
+    .where(and(eq(cinemas.id, id), eq(cinemas.isActive, true)))
+    .limit(1);
+  return cinema ?? null;
+}
+
+// ============================================================================
+// Seasons
+// ============================================================================
+
+const seasonSelect = {
+  id: seasons.id,
+  name: seasons.name,
+  slug: seasons.slug,
+  description: seasons.description,
+  directorName: seasons.directorName,
+  startDate: seasons.startDate,
+  endDate: seasons.endDate,
+  posterUrl: seasons.posterUrl,
+  websiteUrl: seasons.websiteUrl,
+  sourceCinemas: seasons.sourceCinemas,
+  isActive: seasons.isActive,
+} as const;
+
+function toSeasonResource<T extends { sourceCinemas: string[] | null }>({
+  sourceCinemas,
+  ...season
+}: T) {
+  return { ...season, cinemas: sourceCinemas ?? [] };
+}
+
+/**
+ * Seasons ordered by start date
+ */
+export async function listPublicSeasons(
+  filters: { isActive?: boolean; upcoming?: boolean },
+  page: PageQuery
+) {
+  const conditions: SQL[] = [];
+
+  if (filters.isActive !== undefined) {
+    conditions.push(eq(seasons.isActive, filters.isActive));
+  }
+  if (filters.upcoming) {
+    conditions.push(gte(seasons.endDate, todayDate()));
+  }
+  if (page.after) {
+    conditions.push(sql`(${seasons.startDate}, ${seasons.id}) > (${page.after[0]}::date, ${page.after[1]})`);
+  }
+
+  const rows = await db
+    .select(seasonSelect)
+    .from(seasons)
+    .where(and(...conditions))
+    .orderBy(asc(seasons.startDate), asc(seasons.id))
+    .limit(page.limit + 1);
+
+  return rows.map(toSeasonResource);
+}
+
+export async function getPublicSeason(slug: string) {
+  const [season] = await db.select(seasonSelect).from(seasons).where(eq(seasons.slug, slug)).limit(1);
+  return season ? toSeasonResource(season) : null;
+}
+
+// ============================================================================
+// Festivals
+// ============================================================================
+
+const festivalSelect = {
+  id: festivals.id,
+  name: festivals.name,
+  slug: festivals.slug,
+  shortName: festivals.shortName,
+  year: festivals.year,
+  description: festivals.description,
+  websiteUrl: festivals.websiteUrl,
+  logoUrl: festivals.logoUrl,
+  startDate: festivals.startDate,
+  endDate: festivals.endDate,
+  programmeAnnouncedDate: festivals.programmAnnouncedDate,
+  memberSaleDate: festivals.memberSaleDate,
+  publicSaleDate: festivals.publicSaleDate,
+  genreFocus: festivals.genreFocus,
+  venues: festivals.venues,
+  isActive: festivals.isActive,
+} as const;
+
+export interface PublicFestivalFilters {
+  year?: number;
+  isActive?: boolean;
+  upcoming?: boolean;
+  genre?: string;
+}
+
+function toFestivalResource<T extends { genreFocus: string[] | null; venues: string[] | null }>(
+  festival: T
+) {
+  return { ...festival, genreFocus: festival.genreFocus ?? [], venues: festival.venues ?? [] };
+}
+
+/**
+ * Festivals ordered by start date
+ */
+export async function listPublicFestivals(
+  filters: PublicFestivalFilters,
+  page: PageQuery
+) {
+  const conditions: SQL[] = [];
+
+  if (filters.year !== undefined) {
+    conditions.push(eq(festivals.year, filters.year));
+  }
+  if (filters.isActive !== undefined) {
+    conditions.push(eq(festivals.isActive, filters.isActive));
+  }
+  if (filters.upcoming) {
+    conditions.push(gte(festivals.endDate, todayDate()));
+  }
+  if (filters.genre) {
+    conditions.push(sql`${filters.genre} = ANY(${festivals.genreFocus})`);
+  }
+  if (page.after) {
+    conditions.push(
+      sql`(${festivals.startDate}, ${festivals.id}) > (${page.after[0]}::date, ${page.after[1]})`
+    );
+  }
+
+  const rows = await db
+    .select(festivalSelect)
+    .from(festivals)
+    .where(and(...conditions))
+    .orderBy(asc(festivals.startDate), asc(festivals.id))
+    .limit(page.limit + 1);
+
+  return rows.map(toFestivalResource);
+}
+
+export async function getPublicFestival(slug: string) {
+  const [festival] = await db
+    .select(festivalSelect)
+    .from(festivals)
+    .where(eq(festivals.slug, slug))
+    .limit(1);
+  return festival ? toFestivalResource(festival) : null;
+}
+
+// ============================================================================
+// Screening scopes
+// ============================================================================
+
+/**
+ * Screening IDs of a festival, or null if the festival doesn't exist
+ */
+export async function getFestivalScreeningIds(slug: string): Promise<string[] | null> {
+  const [festival] = await db
+    .select({ id: festivals.id })
+    .from(festivals)
+    .where(eq(festivals.slug, slug))
+    .limit(1);
+
+  if (!festival) return null;
+
+  const rows = await db
+    .select({ screeningId: festivalScreenings.screeningId })
+    .from(festivalScreenings)
+    .where(eq(festivalScreenings.festivalId, festival.id));
+  return rows.map((r) => r.screeningId);
+}
+
+/**
+ * Film IDs of a season, or null if the season doesn't exist
+ */
+export async function getSeasonFilmIds(slug: string): Promise<string[] | null> {
+  const [season] = await db
+    .select({ id: seasons.id })
+    .from(seasons)
+    .where(eq(seasons.slug, slug))
+    .limit(1);
+
+  if (!season) return null;
+
+  const rows = await db
+    .select({ filmId: seasonFilms.filmId })
+    .from(seasonFilms)
+    .where(eq(seasonFilms.seasonId, season.id));
+  return rows.map((r) => r.filmId);
+}
@@ -0,0 +1,113 @@
+/**
+ * Recommendation Repository
+ * Loads a user's taste signals and the upcoming films to score against them
+ */
+
+import { db } from "@/db";
+import { films, screenings, seasonFilms, seasons, userFilmStatuses } from "@/db/schema";
+import { and, asc, count, eq, gte, inArray, lt, min, ne } from "drizzle-orm";
+import { addDays } from "date-fns";
+import {
+  RECOMMENDATION_HORIZON_DAYS,
+  type RecommendationFilm,
+  type TasteSignal,
+} from "@/lib/recommendations";
+
+export interface RecommendationCandidate extends RecommendationFilm {
+  year: number | null;
+  posterUrl: string | null;
+  nextScreening: Date;
+  upcomingCount: number;
+}
+
+const filmFeatureSelect = {
+  id: films.id,
+  title: films.title,
+  directors: films.directors,
+  genres: films.genres,
+  countries: films.countries,
+  decade: films.decade,
+  letterboxdRating: films.letterboxdRating,
+};
+
+/**
+ * Seasons each film belongs to, keyed by film ID
+ */
+async function getFilmSeasons(filmIds: string[]): Promise<Map<string, { id: string; name: string }[]>> {
+  const bySeason = new Map<string, { id: string; name: string }[]>();
+  if (filmIds.length === 0) {
+    return bySeason;
+  }
+
+  const rows = await db
+    .select({ filmId: seasonFilms.filmId, id: seasons.id, name: seasons.name })
+    .from(seasonFilms)
+    .innerJoin(seasons, eq(seasonFilms.seasonId, seasons.id))
+    .where(inArray(seasonFilms.filmId, filmIds));
+
+  for (const row of rows) {
+    const list = bySeason.get(row.filmId) ?? [];
+    list.push({ id: row.id, name: row.name });
+    bySeason.set(row.filmId, list);
+  }
+  return bySeason;
+}
+
+/**
+ * A user's synced film statuses with the features of each film
+ */
+export async function getTasteSignals(userId: string): Promise<TasteSignal[]> {
+  const rows = await db
+    .select({
+      ...filmFeatureSelect,
+      status: userFilmStatuses.status,
+      rating: userFilmStatuses.rating,
+    })
+    .from(userFilmStatuses)
+    .innerJoin(films, eq(userFilmStatuses.filmId, films.id))
+    .where(eq(userFilmStatuses.userId, userId));
+
+  const filmSeasons = await getFilmSeasons(rows.map((row) => row.id));
+
+  return rows.map(({ status, rating, ...film }) => ({
+    film: { ...film, seasons: filmSeasons.get(film.id) ?? [] },
+    status,
+    rating,
+  }));
+}
+
+/**
+ * Films with screenings in the next fortnight that haven't been cancelled,
+ * with their features, first screening and number of screenings
+ */
+export async function getRecommendationCandidates(
+  now: Date = new Date()
+): Promise<RecommendationCandidate[]> {
+  const rows = await db
+    .select({
+      ...filmFeatureSelect,
+      year: films.year,
+      posterUrl: films.posterUrl,
+      nextScreening: min(screenings.datetime),
+      upcomingCount: count(),
+    })
+    .from(screenings)
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .where(
+      and(
+        gte(screenings.datetime, now),
+        lt(screenings.datetime, addDays(now, RECOMMENDATION_HORIZON_DAYS)),
+        ne(screenings.status, "cancelled")
+      )
+    )
+    .groupBy(films.id)
+    .orderBy(asc(min(screenings.datetime)));
+
+  const filmSeasons = await getFilmSeasons(rows.map((row) => row.id));
+
+  return rows.map((row) => ({
+    ...row,
+    nextScreening: row.nextScreening!,
+    seasons: filmSeasons.get(row.id) ?? [],
+  }));
+}
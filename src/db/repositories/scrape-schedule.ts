@@ -0,0 +1,106 @@
+/**
+ * Scrape Schedule Repository
+ * Works out which cinemas are due a scrape from their schedule and recent activity
+ */
+
+import { db } from "@/db";
+import { scraperRuns, screeningChanges } from "@/db/schema";
+import { and, count, gte, inArray, max, sql } from "drizzle-orm";
+import { subHours } from "date-fns";
+import {
+  ADAPTIVE_WINDOW_HOURS,
+  computeScrapeInterval,
+  isScrapeDue,
+  type ScheduleReason,
+  type ScheduleSignals,
+} from "@/lib/scrape-schedule";
+import { getCinemaBaselines } from "./cinema-baseline";
+
+export interface CinemaScrapeSchedule {
+  cinemaId: string;
+  lastRunAt: Date | null;
+  baseHours: number;
+  intervalHours: number;
+  reason: ScheduleReason;
+  due: boolean;
+}
+
+/**
+ * Start of the most recent scraper run per cinema
+ */
+async function getLastRunTimes(cinemaIds: string[]): Promise<Map<string, Date>> {
+  const rows = await db
+    .select({ cinemaId: scraperRuns.cinemaId, lastRunAt: max(scraperRuns.startedAt) })
+    .from(scraperRuns)
+    .where(inArray(scraperRuns.cinemaId, cinemaIds))
+    .groupBy(scraperRuns.cinemaId);
+
+  return new Map(
+    rows.filter((row) => row.lastRunAt !== null).map((row) => [row.cinemaId, row.lastRunAt!])
+  );
+}
+
+/**
+ * Screening changes and sell-outs per cinema since `since`
+ */
+async function getScheduleSignals(
+  cinemaIds: string[],
+  since: Date
+): Promise<Map<string, ScheduleSignals>> {
+  const rows = await db
+    .select({
+      cinemaId: screeningChanges.cinemaId,
+      recentChanges: count(screeningChanges.id),
+      sellingOut: sql<number>`count(*) filter (where ${screeningChanges.field} = 'availabilityStatus' and ${screeningChanges.newValue} in ('low', 'sold_out'))`.mapWith(
+        Number
+      ),
+    })
+    .from(screeningChanges)
+    .where(and(inArray(screeningChanges.cinemaId, cinemaIds), gte(screeningChanges.detectedAt, since)))
+    .groupBy(screeningChanges.cinemaId);
+
+  return new Map(
+    rows.map((row) => [
+      row.cinemaId,
+      { recentChanges: row.recentChanges, sellingOut: row.sellingOut },
+    ])
+  );
+}
+
+/**
+ * Current schedule for each of the given cinemas
+ *
+ * Cinemas without a baseline row get the standard tier defaults.
+ */
+export async function getCinemaScrapeSchedules(
+  cinemaIds: string[],
+  now = new Date()
+): Promise<CinemaScrapeSchedule[]> {
+  if (cinemaIds.length === 0) return [];
+
+  const [baselines, lastRuns, signals] = await Promise.all([
+    getCinemaBaselines(),
+    getLastRunTimes(cinemaIds),
+    getScheduleSignals(cinemaIds, subHours(now, ADAPTIVE_WINDOW_HOURS)),
+  ]);
+
+  return cinemaIds.map((cinemaId) => {
+    const baseline = baselines.get(cinemaId);
+    const lastRunAt = lastRuns.get(cinemaId) ?? null;
+    const interval = computeScrapeInterval(
+      {
+        tier: baseline?.tier ?? "standard",
+        scrapeIntervalHours: baseline?.scrapeIntervalHours ?? null,
+        adaptiveSchedule: baseline?.adaptiveSchedule ?? true,
+      },
+      signals.get(cinemaId) ?? { recentChanges: 0, sellingOut: 0 }
+    );
+
+    return {
+      cinemaId,
+      lastRunAt,
+      ...interval,
+      due: isScrapeDue(lastRunAt, interval.intervalHours, now),
+    };
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * Screening Change Repository
+ * Queries the per-screening change log written by the scraper pipeline
+ */
+
+import { db } from "@/db";
+import { screeningChanges, screenings, films, cinemas } from "@/db/schema";
+import type { TrackedScreeningField } from "@/db/schema";
+import { and, count, desc, eq, gte, SQL } from "drizzle-orm";
+
+export interface ScreeningChangeFilters {
+  since: Date;
+  cinemaId?: string;
+  screeningId?: string;
+  field?: TrackedScreeningField;
+}
+
+export type ScreeningChangeWithDetails = {
+  id: string;
+  field: TrackedScreeningField;
+  oldValue: string | null;
+  newValue: string | null;
+  scraperRunId: string | null;
+  detectedAt: Date;
+  screening: {
+    id: string;
+    datetime: Date;
+    bookingUrl: string;
+  };
+  film: {
+    id: string;
+    title: string;
+    year: number | null;
+  };
+  cinema: {
+    id: string;
+    name: string;
+    shortName: string | null;
+  };
+};
+
+function buildConditions(filters: ScreeningChangeFilters): SQL[] {
+  const conditions: SQL[] = [gte(screeningChanges.detectedAt, filters.since)];
+
+  if (filters.cinemaId) {
+    conditions.push(eq(screeningChanges.cinemaId, filters.cinemaId));
+  }
+
+  if (filters.screeningId) {
+    conditions.push(eq(screeningChanges.screeningId, filters.screeningId));
+  }
+
+  if (filters.field) {
+    conditions.push(eq(screeningChanges.field, filters.field));
+  }
+
+  return conditions;
+}
+
+/**
+ * Get recorded screening changes, newest first
+ */
+export async function getScreeningChanges(
+  filters: ScreeningChangeFilters,
+  limit = 200
+): Promise<ScreeningChangeWithDetails[]> {
+  return db
+    .select({
+      id: screeningChanges.id,
+      field: screeningChanges.field,
+      oldValue: screeningChanges.oldValue,
+      newValue: screeningChanges.newValue,
+      scraperRunId: screeningChanges.scraperRunId,
+      detectedAt: screeningChanges.detectedAt,
+      screening: {
+        id: screenings.id,
+        datetime: screenings.datetime,
+        bookingUrl: screenings.bookingUrl,
+      },
+      film: {
+        id: films.id,
+        title: films.title,
+        year: films.year,
+      },
+      cinema: {
+        id: cinemas.id,
+        name: cinemas.name,
+        shortName: cinemas.shortName,
+      },
+    })
+    .from(screeningChanges)
+    .innerJoin(screenings, eq(screeningChanges.screeningId, screenings.id))
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .innerJoin(cinemas, eq(screeningChanges.cinemaId, cinemas.id))
+    .where(and(...buildConditions(filters)))
+    .orderBy(desc(screeningChanges.detectedAt))
+    .limit(limit);
+}
+
+/**
+ * Count changes per field (for summary cards)
+ */
+export async function getScreeningChangeCounts(
+  filters: ScreeningChangeFilters
+): Promise<Record<TrackedScreeningField, number>> {
+  const rows = await db
+    .select({
+      field: screeningChanges.field,
+      count: count(screeningChanges.id),
+    })
+    .from(screeningChanges)
+    .where(and(...buildConditions(filters)))
+    .groupBy(screeningChanges.field);
+
+  const counts: Record<TrackedScreeningField, number> = {
+    datetime: 0,
+    screen: 0,
+    format: 0,
+    eventType: 0,
+    bookingUrl: 0,
+    availabilityStatus: 0,
+    status: 0,
+  };
+  for (const row of rows) {
+    counts[row.field] = row.count;
+  }
+  return counts;
+}
@@ -6,6 +6,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+import { db } from "@/db";
 import type { ScreeningFilters } from "./screening";
 
 // Create a chainable mock that handles all query patterns
@@ -136,6 +139,102 @@ describe("getScreenings", () => {
   });
 });
 
+describe("getScreenings filters", () => {
+  const dialect = new PgDialect();
+  const range = { startDate: new Date("2026-10-18"), endDate: new Date("2026-11-01") };
+
+  /** Run getScreenings and render the WHERE clause it built */
+  async function whereFor(filters: Partial<ScreeningFilters>) {
+    const chain = createQueryChain();
+    vi.mocked(db.select).mockReturnValueOnce(chain as never);
+
+    const { getScreenings } = await import("./screening");
+    await getScreenings({ ...range, ...filters });
+
+    const where = vi.mocked(chain.where as (sql: SQL) => unknown).mock.calls[0][0];
+    return dialect.sqlToQuery(where);
+  }
+
+  it("matches decades, deriving them from the year when the film has none", async () => {
+    const { sql, params } = await whereFor({ decades: ["1970s", "Pre-1950"] });
+
+    expect(sql).toContain(`coalesce("films"."decade", case`);
+    expect(params).toEqual(expect.arrayContaining(["1970s", "Pre-1950"]));
+  });
+
+  it("matches any of the genres", async () => {
+    const { sql } = await whereFor({ genres: ["Horror", "Comedy"] });
+
+    expect(sql).toContain(`"films"."genres" && `);
+  });
+
+  it("compares start hours in London time", async () => {
+    const { sql, params } = await whereFor({ hourFrom: 17, hourTo: 20 });
+
+    expect(sql).toContain(`extract(hour from "screenings"."datetime" AT TIME ZONE 'Europe/London') >= `);
+    expect(sql).toContain(`extract(hour from "screenings"."datetime" AT TIME ZONE 'Europe/London') <= `);
+    expect(params).toEqual(expect.arrayContaining([17, 20]));
+  });
+
+  it("ORs programming types together", async () => {
+    const { sql, params } = await whereFor({ programmingTypes: ["repertory", "preview"] });
+
+    expect(sql).toContain(`("films"."is_repertory" = $`);
+    expect(sql).toContain(` or "screenings"."event_type" in (`);
+    expect(params).toEqual(expect.arrayContaining(["preview", "premiere"]));
+  });
+
+  it("requires every accessibility flag", async () => {
+    const { sql } = await whereFor({ accessibility: ["subtitled", "relaxed", "baby_friendly", "dementia_friendly"] });
+
+    expect(sql).toContain(`"screenings"."has_subtitles" = $`);
+    expect(sql).toContain(`"screenings"."is_relaxed_screening" = $`);
+    expect(sql).toContain(`"screenings"."is_baby_friendly" = $`);
+    expect(sql).toContain(`"screenings"."is_dementia_friendly" = $`);
+  });
+
+  it("caps the standard ticket price", async () => {
+    const { sql, params } = await whereFor({ maxPrice: 1000 });
+
+    expect(sql).toContain(`"screenings"."price_standard" <= $`);
+    expect(params).toContain(1000);
+  });
+
+  it("treats unchecked availability as unknown", async () => {
+    const { sql, params } = await whereFor({ availability: ["available", "unknown"] });
+
+    expect(sql).toContain(`coalesce("screenings"."availability_status", 'unknown') in (`);
+    expect(params).toEqual(expect.arrayContaining(["available", "unknown"]));
+  });
+
+  it("searches titles and directors with LIKE wildcards escaped", async () => {
+    const { sql, params } = await whereFor({ search: " 100%_Kubrick " });
+
+    expect(sql).toContain(`"films"."title" ilike $`);
+    expect(sql).toContain(`unnest("films"."directors")`);
+    expect(params).toContain("%100\\%\\_Kubrick%");
+  });
+
+  it("excludes films with another screening the same London day", async () => {
+    // The NOT EXISTS subquery is built first, so it takes the first select
+    const { sql, params } = await whereFor({ singleShowingOnly: true });
+
+    expect(sql).toContain(`"other_screenings"."film_id" = "screenings"."film_id"`);
+    expect(sql).toContain(`"other_screenings"."id" <> "screenings"."id"`);
+    expect(sql).toContain(
+      `("other_screenings"."datetime" AT TIME ZONE 'Europe/London')::date = ("screenings"."datetime" AT TIME ZONE 'Europe/London')::date`
+    );
+    expect(params).toEqual(["cancelled"]);
+  });
+
+  it("adds no conditions for empty lists", async () => {
+    const { sql } = await whereFor({ decades: [], genres: [], programmingTypes: [], search: "  " });
+
+    expect(sql).not.toContain("decade");
+    expect(sql).not.toContain("ilike");
+  });
+});
+
 describe("getScreeningsByFestival", () => {
   it("should return festival and screenings", async () => {
     const { getScreeningsByFestival } = await import("./screening");
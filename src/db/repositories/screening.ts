@@ -13,8 +13,26 @@ import {
   seasons,
   seasonFilms,
 } from "@/db/schema";
-import { eq, gte, lte, and, inArray, SQL } from "drizzle-orm";
-import type { ScreeningFormat } from "@/types/screening";
+import {
+  eq,
+  gte,
+  lte,
+  ne,
+  and,
+  or,
+  ilike,
+  inArray,
+  isNotNull,
+  arrayOverlaps,
+  notExists,
+  sql,
+  SQL,
+  type AnyColumn,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { AvailabilityStatus, ScreeningFormat, ScreeningStatus } from "@/types/screening";
+import type { AccessibilityFlag, ProgrammingType } from "@/lib/filter-constants";
+import type { PageQuery } from "./public-api";
 
 /**
  * Standard screening select with film and cinema data
@@ -27,9 +45,21 @@ export const screeningWithDetailsSelect = {
   screen: screenings.screen,
   eventType: screenings.eventType,
   eventDescription: screenings.eventDescription,
+  isSpecialEvent: screenings.isSpecialEvent,
   bookingUrl: screenings.bookingUrl,
   isFestivalScreening: screenings.isFestivalScreening,
   availabilityStatus: screenings.availabilityStatus,
+  status: screenings.status,
+  hasSubtitles: screenings.hasSubtitles,
+  subtitleLanguage: screenings.subtitleLanguage,
+  hasAudioDescription: screenings.hasAudioDescription,
+  isRelaxedScreening: screenings.isRelaxedScreening,
+  isBabyFriendly: screenings.isBabyFriendly,
+  isDementiaFriendly: screenings.isDementiaFriendly,
+  priceCurrency: screenings.priceCurrency,
+  priceStandard: screenings.priceStandard,
+  priceConcession: screenings.priceConcession,
+  priceMember: screenings.priceMember,
   film: {
     id: films.id,
     title: films.title,
@@ -38,6 +68,8 @@ export const screeningWithDetailsSelect = {
     posterUrl: films.posterUrl,
     runtime: films.runtime,
     isRepertory: films.isRepertory,
+    genres: films.genres,
+    decade: films.decade,
     letterboxdRating: films.letterboxdRating,
   },
   cinema: {
@@ -64,9 +96,21 @@ export type ScreeningWithDetails = {
   screen: string | null;
   eventType: string | null;
   eventDescription: string | null;
+  isSpecialEvent: boolean;
   bookingUrl: string;
   isFestivalScreening: boolean;
   availabilityStatus: string | null;
+  status: ScreeningStatus;
+  hasSubtitles: boolean;
+  subtitleLanguage: string | null;
+  hasAudioDescription: boolean;
+  isRelaxedScreening: boolean;
+  isBabyFriendly: boolean;
+  isDementiaFriendly: boolean;
+  priceCurrency: string | null;
+  priceStandard: number | null;
+  priceConcession: number | null;
+  priceMember: number | null;
   film: {
     id: string;
     title: string;
@@ -75,6 +119,8 @@ export type ScreeningWithDetails = {
     posterUrl: string | null;
     runtime: number | null;
     isRepertory: boolean;
+    genres: string[];
+    decade: string | null;
     letterboxdRating: number | null;
   };
   cinema: {
@@ -98,6 +144,90 @@ export interface ScreeningFilters {
   isRepertory?: boolean;
   festivalOnly?: boolean;
   filmIds?: string[];
+  screeningIds?: string[];
+  /** Include screenings the pipeline has marked cancelled (hidden by default) */
+  includeCancelled?: boolean;
+  /** "1970s", "Pre-1950"... - derived from the release year when the film has no decade */
+  decades?: string[];
+  /** Films with any of these genres */
+  genres?: string[];
+  /** Start hour range in London time, both inclusive */
+  hourFrom?: number;
+  hourTo?: number;
+  /** Screenings matching any of these programming types */
+  programmingTypes?: ProgrammingType[];
+  /** Screenings with all of these accessibility features */
+  accessibility?: AccessibilityFlag[];
+  /** Highest standard ticket price in pence - unpriced screenings are excluded */
+  maxPrice?: number;
+  /** Availability statuses to include (unchecked screenings count as "unknown") */
+  availability?: AvailabilityStatus[];
+  /** Only films with no other screening that day anywhere in London */
+  singleShowingOnly?: boolean;
+  /** Case-insensitive substring of the film title or a director */
+  search?: string;
+}
+
+/**
+ * Calendar date / hour of a timestamp in London, matching what the calendar shows
+ */
+function londonDate(column: AnyColumn): SQL {
+  return sql`(${column} AT TIME ZONE 'Europe/London')::date`;
+}
+
+function londonHour(column: AnyColumn): SQL {
+  return sql`extract(hour from ${column} AT TIME ZONE 'Europe/London')`;
+}
+
+/**
+ * Film decade, falling back to the release year (same rule as the calendar)
+ */
+function filmDecade(): SQL {
+  return sql`coalesce(${films.decade}, case
+    when ${films.year} < 1950 then 'Pre-1950'
+    when ${films.year} is not null then (${films.year} / 10 * 10)::text || 's'
+  end)`;
+}
+
+/** Mirrors the programming type filter in calendar-view.tsx */
+const programmingTypeConditions: Record<ProgrammingType, () => SQL | undefined> = {
+  repertory: () => eq(films.isRepertory, true),
+  new_release: () => and(eq(films.isRepertory, false), eq(screenings.isSpecialEvent, false)),
+  special_event: () => or(eq(screenings.isSpecialEvent, true), isNotNull(screenings.eventType)),
+  preview: () => inArray(screenings.eventType, ["preview", "premiere"]),
+};
+
+const accessibilityColumns: Record<AccessibilityFlag, () => AnyColumn> = {
+  subtitled: () => screenings.hasSubtitles,
+  audio_described: () => screenings.hasAudioDescription,
+  relaxed: () => screenings.isRelaxedScreening,
+  baby_friendly: () => screenings.isBabyFriendly,
+  dementia_friendly: () => screenings.isDementiaFriendly,
+};
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * No other non-cancelled screening of the same film on the same London day
+ */
+function isSingleShowing(): SQL {
+  const other = alias(screenings, "other_screenings");
+
+  return notExists(
+    db
+      .select({ id: other.id })
+      .from(other)
+      .where(
+        and(
+          eq(other.filmId, screenings.filmId),
+          ne(other.id, screenings.id),
+          ne(other.status, "cancelled"),
+          sql`${londonDate(other.datetime)} = ${londonDate(screenings.datetime)}`
+        )
+      )
+  );
 }
 
 /**
@@ -129,6 +259,64 @@ function buildConditions(filters: ScreeningFilters): SQL[] {
     conditions.push(inArray(screenings.filmId, filters.filmIds));
   }
 
+  if (filters.screeningIds && filters.screeningIds.length > 0) {
+    conditions.push(inArray(screenings.id, filters.screeningIds));
+  }
+
+  if (!filters.includeCancelled) {
+    conditions.push(ne(screenings.status, "cancelled"));
+  }
+
+  if (filters.decades && filters.decades.length > 0) {
+    conditions.push(inArray(filmDecade(), filters.decades));
+  }
+
+  if (filters.genres && filters.genres.length > 0) {
+    conditions.push(arrayOverlaps(films.genres, filters.genres));
+  }
+
+  if (filters.hourFrom !== undefined) {
+    conditions.push(gte(londonHour(screenings.datetime), filters.hourFrom));
+  }
+
+  if (filters.hourTo !== undefined) {
+    conditions.push(lte(londonHour(screenings.datetime), filters.hourTo));
+  }
+
+  if (filters.programmingTypes && filters.programmingTypes.length > 0) {
+    const typeConditions = filters.programmingTypes.map((type) => programmingTypeConditions[type]());
+    conditions.push(or(...typeConditions)!);
+  }
+
+  for (const flag of filters.accessibility ?? []) {
+    conditions.push(eq(accessibilityColumns[flag](), true));
+  }
+
+  if (filters.maxPrice !== undefined) {
+    conditions.push(lte(screenings.priceStandard, filters.maxPrice));
+  }
+
+  if (filters.availability && filters.availability.length > 0) {
+    conditions.push(
+      inArray(sql`coalesce(${screenings.availabilityStatus}, 'unknown')`, filters.availability)
+    );
+  }
+
+  if (filters.singleShowingOnly) {
+    conditions.push(isSingleShowing());
+  }
+
+  const search = filters.search?.trim();
+  if (search) {
+    const pattern = `%${escapeLike(search)}%`;
+    conditions.push(
+      or(
+        ilike(films.title, pattern),
+        sql`exists (select 1 from unnest(${films.directors}) as director where director ilike ${pattern})`
+      )!
+    );
+  }
+
   return conditions;
 }
 
@@ -151,6 +339,32 @@ export async function getScreenings(
     .limit(limit);
 }
 
+/**
+ * Get one page of screenings ordered by time, for cursor pagination
+ * The cursor key is [datetime ISO string, screening ID]; fetches `limit + 1` rows
+ */
+export async function getScreeningsPage(
+  filters: ScreeningFilters,
+  page: PageQuery
+): Promise<ScreeningWithDetails[]> {
+  const conditions = buildConditions(filters);
+
+  if (page.after) {
+    conditions.push(
+      sql`(${screenings.datetime}, ${screenings.id}) > (${page.after[0]}::timestamptz, ${page.after[1]})`
+    );
+  }
+
+  return db
+    .select(screeningWithDetailsSelect)
+    .from(screenings)
+    .innerJoin(films, eq(screenings.filmId, films.id))
+    .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
+    .where(and(...conditions))
+    .orderBy(screenings.datetime, screenings.id)
+    .limit(page.limit + 1);
+}
+
 /**
  * Get screenings for a specific festival
  */
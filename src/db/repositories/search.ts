@@ -0,0 +1,333 @@
+/**
+ * Search Repository
+ * Ranked full-text and fuzzy search behind /api/search and /api/films/search
+ *
+ * Films match on their search_vector (title, original title, directors and top
+ * cast - see migration 0010) or by trigram similarity on their titles, so
+ * partial words, typos and missing accents still find them.
+ */
+
+import { db } from "@/db";
+import { cinemas, festivals, films, screenings, seasons } from "@/db/schema";
+import { and, asc, desc, eq, gte, lt, ne, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { toPrefixTsQuery } from "@/lib/search-query";
+import type { CinemaAddress } from "@/types/cinema";
+
+/** How far ahead screenings count as "upcoming" for ranking */
+const UPCOMING_DAYS = 30;
+
+/** Only the top-billed cast are searchable, matching the film search_vector */
+const SEARCHABLE_CAST = 5;
+
+export interface SearchFilmResult {
+  id: string;
+  title: string;
+  originalTitle: string | null;
+  year: number | null;
+  directors: string[];
+  posterUrl: string | null;
+  /** Non-cancelled screenings in the next 30 days */
+  screeningCount: number;
+  href: string;
+}
+
+export interface SearchPersonResult {
+  name: string;
+  roles: ("director" | "cast")[];
+  /** Upcoming films they directed or star in, most-screened first */
+  films: { id: string; title: string; year: number | null }[];
+  /** Director page when a season covers them, otherwise their first film */
+  href: string;
+}
+
+export interface SearchCinemaResult {
+  id: string;
+  name: string;
+  shortName: string | null;
+  address: string | null;
+  href: string;
+}
+
+export interface SearchSeasonResult {
+  kind: "season" | "festival";
+  id: string;
+  name: string;
+  subtitle: string | null;
+  startDate: string;
+  endDate: string;
+  href: string;
+}
+
+export interface SearchResults {
+  films: SearchFilmResult[];
+  people: SearchPersonResult[];
+  cinemas: SearchCinemaResult[];
+  seasons: SearchSeasonResult[];
+}
+
+export interface FilmSearchOptions {
+  limit?: number;
+  /** Only return films screening within this many days */
+  showingWithinDays?: number;
+}
+
+/** The query lower-cased and unaccented the same way the indexes are */
+function normalized(query: string): SQL {
+  return sql`search_normalize(${query})`;
+}
+
+/** Trigram match, tolerant of typos and of the query being one word of a longer name */
+function fuzzyMatch(column: AnyColumn, query: string): SQL {
+  return sql`(search_normalize(${column}) % ${normalized(query)} OR search_normalize(${column}) %> ${normalized(query)})`;
+}
+
+function fuzzyScore(column: AnyColumn, query: string): SQL<number> {
+  return sql<number>`greatest(
+    similarity(search_normalize(${column}), ${normalized(query)}),
+    word_similarity(${normalized(query)}, search_normalize(${column}))
+  )`;
+}
+
+function formatCinemaAddress(address: CinemaAddress | null): string | null {
+  if (!address) return null;
+  const parts = [address.street, address.area, address.postcode].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/**
+ * Search films by title, original title, director and cast.
+ * Ranked by text relevance plus title similarity; films with upcoming screenings
+ * are boosted so what's actually on comes first.
+ */
+export async function searchFilms(
+  query: string,
+  { limit = 10, showingWithinDays }: FilmSearchOptions = {}
+): Promise<SearchFilmResult[]> {
+  const now = new Date();
+  const until = addDays(now, showingWithinDays ?? UPCOMING_DAYS);
+  const tsQuery = toPrefixTsQuery(query);
+
+  const textMatch = tsQuery
+    ? sql`${films.searchVector} @@ to_tsquery('simple', search_normalize(${tsQuery}))`
+    : sql`false`;
+  const textRank = tsQuery
+    ? sql`ts_rank(${films.searchVector}, to_tsquery('simple', search_normalize(${tsQuery})))`
+    : sql`0`;
+  const titleScore = sql`greatest(
+    ${fuzzyScore(films.title, query)},
+    coalesce(${fuzzyScore(films.originalTitle, query)}, 0)
+  )`;
+  const screeningCount = sql<number>`count(${screenings.id})`.mapWith(Number);
+
+  const rows = await db
+    .select({
+      id: films.id,
+      title: films.title,
+      originalTitle: films.originalTitle,
+      year: films.year,
+      directors: films.directors,
+      posterUrl: films.posterUrl,
+      screeningCount,
+    })
+    .from(films)
+    .leftJoin(
+      screenings,
+      and(
+        eq(screenings.filmId, films.id),
+        gte(screenings.datetime, now),
+        lt(screenings.datetime, until),
+        ne(screenings.status, "cancelled")
+      )
+    )
+    .where(
+      or(textMatch, fuzzyMatch(films.title, query), fuzzyMatch(films.originalTitle, query))
+    )
+    .groupBy(films.id)
+    .having(showingWithinDays !== undefined ? sql`count(${screenings.id}) > 0` : undefined)
+    .orderBy(
+      desc(sql`${textRank} + ${titleScore} + (CASE WHEN count(${screenings.id}) > 0 THEN 0.5 ELSE 0 END)`),
+      asc(films.title)
+    )
+    .limit(limit);
+
+  return rows.map((row) => ({ ...row, href: `/film/${row.id}` }));
+}
+
+/**
+ * Search directors and top-billed cast of films with upcoming screenings.
+ * People are grouped by name, so "Tony Leung" returns one result listing all
+ * his films that are on.
+ */
+export async function searchPeople(query: string, limit = 5): Promise<SearchPersonResult[]> {
+  const now = new Date();
+  const until = addDays(now, UPCOMING_DAYS);
+
+  const result = await db.execute(sql`
+    WITH upcoming AS (
+      SELECT f.id, f.title, f.year, f.directors, f.cast, count(s.id) AS screening_count
+      FROM films f
+      JOIN screenings s ON s.film_id = f.id
+      WHERE s.datetime >= ${now} AND s.datetime < ${until} AND s.status <> 'cancelled'
+      GROUP BY f.id
+    ),
+    credits AS (
+      SELECT d.name, 'director' AS role, u.id, u.title, u.year, u.screening_count
+      FROM upcoming u, unnest(u.directors) AS d(name)
+      UNION ALL
+      SELECT c.member->>'name', 'cast', u.id, u.title, u.year, u.screening_count
+      FROM upcoming u, jsonb_array_elements(u.cast) WITH ORDINALITY AS c(member, position)
+      WHERE c.position <= ${SEARCHABLE_CAST}
+    )
+    SELECT
+      name,
+      array_agg(DISTINCT role) AS roles,
+      json_agg(json_build_object('id', id, 'title', title, 'year', year) ORDER BY screening_count DESC) AS films,
+      (
+        SELECT director_tmdb_id FROM seasons
+        WHERE director_name = credits.name AND director_tmdb_id IS NOT NULL
+        LIMIT 1
+      ) AS director_tmdb_id
+    FROM credits
+    WHERE name IS NOT NULL
+      AND (
+        search_normalize(name) LIKE '%' || ${normalized(query)} || '%'
+        OR search_normalize(name) %> ${normalized(query)}
+      )
+    GROUP BY name
+    ORDER BY max(word_similarity(${normalized(query)}, search_normalize(name))) DESC, count(*) DESC
+    LIMIT ${limit}
+  `);
+
+  const rows = result as unknown as Array<{
+    name: string;
+    roles: ("director" | "cast")[];
+    films: { id: string; title: string; year: number | null }[];
+    director_tmdb_id: number | null;
+  }>;
+
+  return rows.map((row) => ({
+    name: row.name,
+    roles: row.roles,
+    // A director who also acts in their own film is credited twice
+    films: row.films.filter((film, i) => row.films.findIndex((f) => f.id === film.id) === i),
+    href: row.director_tmdb_id ? `/directors/${row.director_tmdb_id}` : `/film/${row.films[0].id}`,
+  }));
+}
+
+/** Search active cinemas by name and short name */
+export async function searchCinemas(query: string, limit = 5): Promise<SearchCinemaResult[]> {
+  const rows = await db
+    .select({
+      id: cinemas.id,
+      name: cinemas.name,
+      shortName: cinemas.shortName,
+      address: cinemas.address,
+    })
+    .from(cinemas)
+    .where(
+      and(
+        eq(cinemas.isActive, true),
+        or(
+          fuzzyMatch(cinemas.name, query),
+          sql`search_normalize(${cinemas.name}) LIKE '%' || ${normalized(query)} || '%'`,
+          sql`search_normalize(${cinemas.shortName}) LIKE '%' || ${normalized(query)} || '%'`
+        )
+      )
+    )
+    .orderBy(desc(fuzzyScore(cinemas.name, query)), asc(cinemas.name))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    ...row,
+    address: formatCinemaAddress(row.address),
+    href: `/cinemas/${row.id}`,
+  }));
+}
+
+/**
+ * Search current and upcoming seasons (by name or featured director) and
+ * festivals (by name or short name), soonest first.
+ */
+export async function searchSeasons(query: string, limit = 5): Promise<SearchSeasonResult[]> {
+  const today = new Date().toISOString().split("T")[0];
+  const nameMatches = (column: AnyColumn) =>
+    sql`(search_normalize(${column}) LIKE '%' || ${normalized(query)} || '%' OR search_normalize(${column}) %> ${normalized(query)})`;
+
+  const [seasonRows, festivalRows] = await Promise.all([
+    db
+      .select({
+        id: seasons.id,
+        name: seasons.name,
+        slug: seasons.slug,
+        directorName: seasons.directorName,
+        startDate: seasons.startDate,
+        endDate: seasons.endDate,
+      })
+      .from(seasons)
+      .where(
+        and(
+          eq(seasons.isActive, true),
+          gte(seasons.endDate, today),
+          or(nameMatches(seasons.name), nameMatches(seasons.directorName))
+        )
+      )
+      .orderBy(asc(seasons.startDate))
+      .limit(limit),
+    db
+      .select({
+        id: festivals.id,
+        name: festivals.name,
+        slug: festivals.slug,
+        shortName: festivals.shortName,
+        year: festivals.year,
+        startDate: festivals.startDate,
+        endDate: festivals.endDate,
+      })
+      .from(festivals)
+      .where(
+        and(
+          eq(festivals.isActive, true),
+          gte(festivals.endDate, today),
+          or(nameMatches(festivals.name), nameMatches(festivals.shortName))
+        )
+      )
+      .orderBy(asc(festivals.startDate))
+      .limit(limit),
+  ]);
+
+  const results: SearchSeasonResult[] = [
+    ...seasonRows.map((s) => ({
+      kind: "season" as const,
+      id: s.id,
+      name: s.name,
+      subtitle: s.directorName,
+      startDate: s.startDate,
+      endDate: s.endDate,
+      href: `/seasons/${s.slug}`,
+    })),
+    ...festivalRows.map((f) => ({
+      kind: "festival" as const,
+      id: f.id,
+      name: f.name,
+      subtitle: f.shortName ? `${f.shortName} ${f.year}` : String(f.year),
+      startDate: f.startDate,
+      endDate: f.endDate,
+      href: `/festivals/${f.slug}`,
+    })),
+  ];
+
+  return results.sort((a, b) => a.startDate.localeCompare(b.startDate)).slice(0, limit);
+}
+
+/** Search every result type at once, for the search dialog */
+export async function searchAll(query: string): Promise<SearchResults> {
+  const [filmResults, people, cinemaResults, seasonResults] = await Promise.all([
+    searchFilms(query),
+    searchPeople(query),
+    searchCinemas(query),
+    searchSeasons(query),
+  ]);
+
+  return { films: filmResults, people, cinemas: cinemaResults, seasons: seasonResults };
+}
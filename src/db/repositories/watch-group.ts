@@ -0,0 +1,436 @@
+/**
+ * Watch Group Repository
+ * Groups, invite links, members' watchlists and screening proposals with votes
+ */
+
+import { randomBytes } from "crypto";
+import { db } from "@/db";
+import {
+  films,
+  screenings,
+  userFilmStatuses,
+  users,
+  watchGroupMembers,
+  watchGroupProposals,
+  watchGroups,
+  watchGroupVotes,
+  type WatchGroupRole,
+  type WatchGroupSelect,
+  type WatchGroupVote,
+} from "@/db/schema";
+import { and, asc, count, eq, gte, inArray, min, ne, sql } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { MAX_GROUP_MEMBERS } from "@/lib/watch-groups";
+import { getScreenings, type ScreeningWithDetails } from "./screening";
+
+/** How far ahead proposed screenings are loaded */
+const PROPOSAL_HORIZON_DAYS = 365;
+
+export interface WatchGroupSummary {
+  id: string;
+  name: string;
+  role: WatchGroupRole;
+  memberCount: number;
+  createdAt: Date;
+}
+
+export interface WatchGroupMember {
+  userId: string;
+  displayName: string | null;
+  role: WatchGroupRole;
+  joinedAt: Date;
+}
+
+export interface WatchGroupWant {
+  userId: string;
+  filmId: string;
+  title: string;
+  year: number | null;
+  posterUrl: string | null;
+}
+
+export interface WatchGroupProposal {
+  id: string;
+  proposedBy: string | null;
+  note: string | null;
+  createdAt: Date;
+  screening: ScreeningWithDetails;
+  votes: { userId: string; vote: WatchGroupVote }[];
+}
+
+export interface JoinResult {
+  status: "joined" | "already_member" | "full";
+  groupId: string;
+}
+
+function generateInviteToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+/**
+ * Make sure the user has a users row (for foreign keys), filling in their
+ * display name if we didn't have one
+ */
+async function ensureUser(userId: string, displayName: string | null): Promise<void> {
+  await db
+    .insert(users)
+    .values({ id: userId, displayName })
+    .onConflictDoUpdate({
+      target: users.id,
+      set: { displayName: sql`coalesce(${users.displayName}, excluded.display_name)` },
+    });
+}
+
+/**
+ * Groups the user belongs to, newest first
+ */
+export async function listWatchGroups(userId: string): Promise<WatchGroupSummary[]> {
+  const memberCounts = db
+    .select({ groupId: watchGroupMembers.groupId, memberCount: count().as("member_count") })
+    .from(watchGroupMembers)
+    .groupBy(watchGroupMembers.groupId)
+    .as("member_counts");
+
+  const rows = await db
+    .select({
+      id: watchGroups.id,
+      name: watchGroups.name,
+      role: watchGroupMembers.role,
+      memberCount: memberCounts.memberCount,
+      createdAt: watchGroups.createdAt,
+    })
+    .from(watchGroupMembers)
+    .innerJoin(watchGroups, eq(watchGroupMembers.groupId, watchGroups.id))
+    .innerJoin(memberCounts, eq(memberCounts.groupId, watchGroups.id))
+    .where(eq(watchGroupMembers.userId, userId))
+    .orderBy(sql`${watchGroups.createdAt} desc`);
+
+  return rows.map((row) => ({ ...row, memberCount: Number(row.memberCount) }));
+}
+
+export async function countOwnedWatchGroups(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ value: count() })
+    .from(watchGroups)
+    .where(eq(watchGroups.ownerId, userId));
+
+  return row?.value ?? 0;
+}
+
+/**
+ * Create a group with the user as its owner
+ */
+export async function createWatchGroup(
+  userId: string,
+  name: string,
+  displayName: string | null
+): Promise<WatchGroupSelect> {
+  await ensureUser(userId, displayName);
+
+  const [group] = await db
+    .insert(watchGroups)
+    .values({ name, ownerId: userId, inviteToken: generateInviteToken() })
+    .returning();
+
+  await db.insert(watchGroupMembers).values({ groupId: group.id, userId, role: "owner" });
+
+  return group;
+}
+
+export async function getWatchGroup(groupId: string): Promise<WatchGroupSelect | null> {
+  const group = await db.query.watchGroups.findFirst({
+    where: eq(watchGroups.id, groupId),
+  });
+
+  return group ?? null;
+}
+
+/**
+ * The user's role in the group, or null if they aren't a member
+ */
+export async function getWatchGroupRole(groupId: string, userId: string): Promise<WatchGroupRole | null> {
+  const [member] = await db
+    .select({ role: watchGroupMembers.role })
+    .from(watchGroupMembers)
+    .where(and(eq(watchGroupMembers.groupId, groupId), eq(watchGroupMembers.userId, userId)));
+
+  return member?.role ?? null;
+}
+
+/**
+ * Members in the order they joined
+ */
+export async function getWatchGroupMembers(groupId: string): Promise<WatchGroupMember[]> {
+  return db
+    .select({
+      userId: watchGroupMembers.userId,
+      displayName: users.displayName,
+      role: watchGroupMembers.role,
+      joinedAt: watchGroupMembers.joinedAt,
+    })
+    .from(watchGroupMembers)
+    .innerJoin(users, eq(watchGroupMembers.userId, users.id))
+    .where(eq(watchGroupMembers.groupId, groupId))
+    .orderBy(asc(watchGroupMembers.joinedAt));
+}
+
+export async function renameWatchGroup(groupId: string, name: string): Promise<void> {
+  await db
+    .update(watchGroups)
+    .set({ name, updatedAt: new Date() })
+    .where(eq(watchGroups.id, groupId));
+}
+
+export async function deleteWatchGroup(groupId: string): Promise<void> {
+  await db.delete(watchGroups).where(eq(watchGroups.id, groupId));
+}
+
+/**
+ * Replace the group's invite token, invalidating existing invite links
+ */
+export async function rotateWatchGroupInvite(groupId: string): Promise<string> {
+  const token = generateInviteToken();
+  await db
+    .update(watchGroups)
+    .set({ inviteToken: token, updatedAt: new Date() })
+    .where(eq(watchGroups.id, groupId));
+
+  return token;
+}
+
+/**
+ * Join the group behind an invite token; null if the token isn't valid
+ */
+export async function joinWatchGroup(
+  token: string,
+  userId: string,
+  displayName: string | null
+): Promise<JoinResult | null> {
+  const group = await db.query.watchGroups.findFirst({
+    where: eq(watchGroups.inviteToken, token),
+  });
+
+  if (!group) {
+    return null;
+  }
+
+  if (await getWatchGroupRole(group.id, userId)) {
+    return { status: "already_member", groupId: group.id };
+  }
+
+  const [{ value: memberCount }] = await db
+    .select({ value: count() })
+    .from(watchGroupMembers)
+    .where(eq(watchGroupMembers.groupId, group.id));
+
+  if (memberCount >= MAX_GROUP_MEMBERS) {
+    return { status: "full", groupId: group.id };
+  }
+
+  await ensureUser(userId, displayName);
+  await db
+    .insert(watchGroupMembers)
+    .values({ groupId: group.id, userId, role: "member" })
+    .onConflictDoNothing();
+
+  return { status: "joined", groupId: group.id };
+}
+
+/**
+ * Remove a member and their votes on the group's proposals
+ */
+export async function removeWatchGroupMember(groupId: string, userId: string): Promise<boolean> {
+  const proposalIds = db
+    .select({ id: watchGroupProposals.id })
+    .from(watchGroupProposals)
+    .where(eq(watchGroupProposals.groupId, groupId));
+
+  await db
+    .delete(watchGroupVotes)
+    .where(and(eq(watchGroupVotes.userId, userId), inArray(watchGroupVotes.proposalId, proposalIds)));
+
+  const removed = await db
+    .delete(watchGroupMembers)
+    .where(and(eq(watchGroupMembers.groupId, groupId), eq(watchGroupMembers.userId, userId)))
+    .returning({ userId: watchGroupMembers.userId });
+
+  return removed.length > 0;
+}
+
+/**
+ * Members' want-to-see films, with details from the films table when we still
+ * have the film (falling back to what the member's store saved)
+ */
+export async function getWatchGroupWants(memberIds: string[]): Promise<WatchGroupWant[]> {
+  if (memberIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      userId: userFilmStatuses.userId,
+      filmId: userFilmStatuses.filmId,
+      title: sql<string | null>`coalesce(${films.title}, ${userFilmStatuses.filmTitle})`,
+      year: sql<number | null>`coalesce(${films.year}, ${userFilmStatuses.filmYear})`,
+      posterUrl: sql<string | null>`coalesce(${films.posterUrl}, ${userFilmStatuses.filmPosterUrl})`,
+    })
+    .from(userFilmStatuses)
+    .leftJoin(films, eq(userFilmStatuses.filmId, films.id))
+    .where(and(inArray(userFilmStatuses.userId, memberIds), eq(userFilmStatuses.status, "want_to_see")));
+
+  return rows.map((row) => ({ ...row, title: row.title ?? "Untitled film" }));
+}
+
+/**
+ * Number of upcoming screenings and the next one, per film
+ */
+export async function getUpcomingScreeningCounts(
+  filmIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, { count: number; next: Date }>> {
+  if (filmIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      filmId: screenings.filmId,
+      count: count(),
+      next: min(screenings.datetime),
+    })
+    .from(screenings)
+    .where(
+      and(
+        inArray(screenings.filmId, filmIds),
+        gte(screenings.datetime, now),
+        ne(screenings.status, "cancelled")
+      )
+    )
+    .groupBy(screenings.filmId);
+
+  return new Map(rows.map((row) => [row.filmId, { count: row.count, next: row.next! }]));
+}
+
+/**
+ * Proposals for screenings that haven't started yet, with their votes
+ */
+export async function getWatchGroupProposals(
+  groupId: string,
+  now: Date = new Date()
+): Promise<WatchGroupProposal[]> {
+  const proposals = await db
+    .select()
+    .from(watchGroupProposals)
+    .where(eq(watchGroupProposals.groupId, groupId));
+
+  if (proposals.length === 0) {
+    return [];
+  }
+
+  const [details, votes] = await Promise.all([
+    getScreenings({
+      startDate: now,
+      endDate: addDays(now, PROPOSAL_HORIZON_DAYS),
+      screeningIds: proposals.map((p) => p.screeningId),
+      includeCancelled: true,
+    }),
+    db
+      .select({ proposalId: watchGroupVotes.proposalId, userId: watchGroupVotes.userId, vote: watchGroupVotes.vote })
+      .from(watchGroupVotes)
+      .where(inArray(watchGroupVotes.proposalId, proposals.map((p) => p.id))),
+  ]);
+
+  const screeningsById = new Map(details.map((s) => [s.id, s]));
+
+  return proposals.flatMap((proposal) => {
+    const screening = screeningsById.get(proposal.screeningId);
+    if (!screening) return [];
+
+    return [
+      {
+        id: proposal.id,
+        proposedBy: proposal.proposedBy,
+        note: proposal.note,
+        createdAt: proposal.createdAt,
+        screening,
+        votes: votes
+          .filter((v) => v.proposalId === proposal.id)
+          .map(({ userId, vote }) => ({ userId, vote })),
+      },
+    ];
+  });
+}
+
+export async function getWatchGroupProposal(groupId: string, proposalId: string) {
+  const proposal = await db.query.watchGroupProposals.findFirst({
+    where: and(eq(watchGroupProposals.id, proposalId), eq(watchGroupProposals.groupId, groupId)),
+  });
+
+  return proposal ?? null;
+}
+
+/**
+ * Propose a screening to the group (the proposer votes yes). Returns the
+ * proposal ID - the existing one if it was already proposed - or null if the
+ * screening doesn't exist or has started.
+ */
+export async function addWatchGroupProposal(
+  groupId: string,
+  userId: string,
+  screeningId: string,
+  note: string | null,
+  now: Date = new Date()
+): Promise<string | null> {
+  const screening = await db.query.screenings.findFirst({
+    where: and(eq(screenings.id, screeningId), gte(screenings.datetime, now)),
+    columns: { id: true },
+  });
+
+  if (!screening) {
+    return null;
+  }
+
+  const [created] = await db
+    .insert(watchGroupProposals)
+    .values({ groupId, screeningId, proposedBy: userId, note })
+    .onConflictDoNothing({ target: [watchGroupProposals.groupId, watchGroupProposals.screeningId] })
+    .returning({ id: watchGroupProposals.id });
+
+  if (!created) {
+    const existing = await db.query.watchGroupProposals.findFirst({
+      where: and(eq(watchGroupProposals.groupId, groupId), eq(watchGroupProposals.screeningId, screeningId)),
+    });
+    return existing!.id;
+  }
+
+  await setWatchGroupVote(created.id, userId, "yes");
+  return created.id;
+}
+
+export async function deleteWatchGroupProposal(proposalId: string): Promise<void> {
+  await db.delete(watchGroupProposals).where(eq(watchGroupProposals.id, proposalId));
+}
+
+/**
+ * Record a member's vote, or clear it with null
+ */
+export async function setWatchGroupVote(
+  proposalId: string,
+  userId: string,
+  vote: WatchGroupVote | null
+): Promise<void> {
+  if (vote === null) {
+    await db
+      .delete(watchGroupVotes)
+      .where(and(eq(watchGroupVotes.proposalId, proposalId), eq(watchGroupVotes.userId, userId)));
+    return;
+  }
+
+  await db
+    .insert(watchGroupVotes)
+    .values({ proposalId, userId, vote })
+    .onConflictDoUpdate({
+      target: [watchGroupVotes.proposalId, watchGroupVotes.userId],
+      set: { vote, updatedAt: new Date() },
+    });
+}
@@ -0,0 +1,60 @@
+import { pgTable, text, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+
+/**
+ * Where an account deletion was started
+ */
+export type AccountDeletionSource = "self_service" | "clerk_webhook";
+
+/**
+ * What happened to the user's PostHog person
+ * skipped - the PostHog API isn't configured here
+ */
+export type PostHogDeletionStatus = "deleted" | "not_found" | "skipped" | "failed";
+
+/**
+ * What happened to the Clerk account
+ * already_deleted - Clerk told us (webhook), so there was nothing to do
+ */
+export type AuthAccountDeletionStatus = "deleted" | "already_deleted" | "failed";
+
+/**
+ * Row counts per table, e.g. { user_film_statuses: 42 }
+ */
+export type DeletionRowCounts = Record<string, number>;
+
+/**
+ * Account Deletion Receipts table - an audit of each account deletion
+ * Deliberately not linked to users: the receipt outlives the account, and
+ * only holds a hash of the user ID so it can't be traced back without it.
+ */
+export const accountDeletionReceipts = pgTable(
+  "account_deletion_receipts",
+  {
+    // Primary key - UUID, given to the user as their receipt number
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+
+    // SHA-256 of the Clerk user ID
+    subjectHash: text("subject_hash").notNull(),
+    source: text("source").$type<AccountDeletionSource>().notNull(),
+
+    requestedAt: timestamp("requested_at", { withTimezone: true }).notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }).notNull(),
+
+    rowsDeleted: jsonb("rows_deleted").$type<DeletionRowCounts>().notNull(),
+    // Rows kept for other people (group proposals), with the user removed
+    rowsAnonymised: jsonb("rows_anonymised").$type<DeletionRowCounts>().notNull(),
+
+    posthogStatus: text("posthog_status").$type<PostHogDeletionStatus>().notNull(),
+    accountStatus: text("account_status").$type<AuthAccountDeletionStatus>().notNull(),
+
+    // HMAC-SHA256 over the fields above (DELETION_RECEIPT_SECRET), so a
+    // receipt can be checked later. Null when the secret wasn't set.
+    digest: text("digest"),
+  },
+  (table) => [index("idx_account_deletion_receipts_subject").on(table.subjectHash)]
+);
+
+export type AccountDeletionReceiptInsert = typeof accountDeletionReceipts.$inferInsert;
+export type AccountDeletionReceiptSelect = typeof accountDeletionReceipts.$inferSelect;
@@ -12,6 +12,9 @@ import {
   jsonb,
   uuid,
   pgEnum,
+  index,
+  date,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { cinemas } from "./cinemas";
 
@@ -23,6 +26,7 @@ export const scraperRunStatusEnum = pgEnum("scraper_run_status", [
   "failed",
   "anomaly",
   "partial",
+  "running", // Not finished yet (or crashed, if it stays this way)
 ]);
 
 /**
@@ -36,56 +40,74 @@ export const anomalyTypeEnum = pgEnum("anomaly_type", [
 ]);
 
 /**
- * Cinema tier enum - determines verification sensitivity
+ * Cinema tier enum - determines verification sensitivity and the default
+ * scrape interval ("small" venues are scraped every two days)
  */
-export const cinemaTierEnum = pgEnum("cinema_tier", ["top", "standard"]);
+export const cinemaTierEnum = pgEnum("cinema_tier", ["top", "standard", "small"]);
+
+export type CinemaTier = (typeof cinemaTierEnum.enumValues)[number];
 
 /**
  * Scraper runs table - tracks every scraper execution
  * Used for anomaly detection via same-day-last-week comparison
  */
-export const scraperRuns = pgTable("scraper_runs", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  cinemaId: text("cinema_id")
-    .notNull()
-    .references(() => cinemas.id, { onDelete: "cascade" }),
-
-  // Timing
-  startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
-  completedAt: timestamp("completed_at", { withTimezone: true }),
-
-  // Status
-  status: scraperRunStatusEnum("status").notNull(),
-
-  // Counts for comparison
-  screeningCount: integer("screening_count"),
-  baselineCount: integer("baseline_count"),
-
-  // Anomaly details (if any)
-  anomalyType: anomalyTypeEnum("anomaly_type"),
-  anomalyDetails: jsonb("anomaly_details").$type<{
-    expectedRange?: { min: number; max: number };
-    percentChange?: number;
-    errorMessage?: string;
-  }>(),
-
-  // Resolution
-  autoFixed: boolean("auto_fixed").notNull().default(false),
-  autoRetried: boolean("auto_retried").notNull().default(false),
-  fixedByAi: boolean("fixed_by_ai").notNull().default(false),
-
-  // Notes and metadata
-  notes: text("notes"),
-  metadata: jsonb("metadata").$type<{
-    duration?: number;
-    userAgent?: string;
-    proxyUsed?: boolean;
-  }>(),
-
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .notNull()
-    .defaultNow(),
-});
+export const scraperRuns = pgTable(
+  "scraper_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    cinemaId: text("cinema_id")
+      .notNull()
+      .references(() => cinemas.id, { onDelete: "cascade" }),
+
+    // Timing
+    startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+
+    // Status
+    status: scraperRunStatusEnum("status").notNull(),
+
+    // Counts for comparison
+    screeningCount: integer("screening_count"),
+    baselineCount: integer("baseline_count"),
+
+    // Anomaly details (if any)
+    anomalyType: anomalyTypeEnum("anomaly_type"),
+    anomalyDetails: jsonb("anomaly_details").$type<{
+      expectedRange?: { min: number; max: number };
+      percentChange?: number;
+      errorMessage?: string;
+    }>(),
+
+    // Resolution
+    autoFixed: boolean("auto_fixed").notNull().default(false),
+    autoRetried: boolean("auto_retried").notNull().default(false),
+    fixedByAi: boolean("fixed_by_ai").notNull().default(false),
+
+    // Notes and metadata
+    notes: text("notes"),
+    metadata: jsonb("metadata").$type<{
+      duration?: number;
+      userAgent?: string;
+      proxyUsed?: boolean;
+      // Written by the runner factory (src/scrapers/runner-factory.ts)
+      retryCount?: number;
+      attemptErrors?: string[];
+      added?: number;
+      updated?: number;
+      failed?: number;
+      rejected?: number;
+      blocked?: boolean;
+    }>(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Last run per cinema (scrape scheduling)
+    index("idx_scraper_runs_cinema_started").on(table.cinemaId, table.startedAt),
+  ]
+);
 
 /**
  * Admin actions table - audit trail for all admin operations
@@ -149,6 +171,10 @@ export const cinemaBaselines = pgTable("cinema_baselines", {
   scrapeHorizonDays: integer("scrape_horizon_days").notNull().default(60),
   maxScrapeDate: timestamp("max_scrape_date", { withTimezone: true }),
 
+  // Scrape scheduling (null interval = tier default, see lib/scrape-schedule.ts)
+  scrapeIntervalHours: integer("scrape_interval_hours"),
+  adaptiveSchedule: boolean("adaptive_schedule").notNull().default(true),
+
   // Metadata
   lastCalculated: timestamp("last_calculated", { withTimezone: true }),
   notes: text("notes"),
@@ -158,6 +184,29 @@ export const cinemaBaselines = pgTable("cinema_baselines", {
     .defaultNow(),
 });
 
+/**
+ * Cinema daily counts table - screenings per cinema per London day
+ * Kept after the cleanup cron deletes past screenings, so baselines have
+ * weeks of history to average over
+ */
+export const cinemaDailyCounts = pgTable(
+  "cinema_daily_counts",
+  {
+    cinemaId: text("cinema_id")
+      .notNull()
+      .references(() => cinemas.id, { onDelete: "cascade" }),
+    // London calendar day, YYYY-MM-DD
+    day: date("day", { mode: "string" }).notNull(),
+    // Non-cancelled screenings that day
+    screeningCount: integer("screening_count").notNull(),
+
+    recordedAt: timestamp("recorded_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.cinemaId, table.day] })]
+);
+
 // Type exports
 export type ScraperRunInsert = typeof scraperRuns.$inferInsert;
 export type ScraperRunSelect = typeof scraperRuns.$inferSelect;
@@ -165,3 +214,4 @@ export type AdminActionInsert = typeof adminActions.$inferInsert;
 export type AdminActionSelect = typeof adminActions.$inferSelect;
 export type CinemaBaselineInsert = typeof cinemaBaselines.$inferInsert;
 export type CinemaBaselineSelect = typeof cinemaBaselines.$inferSelect;
+export type CinemaDailyCountSelect = typeof cinemaDailyCounts.$inferSelect;
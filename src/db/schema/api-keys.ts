@@ -0,0 +1,34 @@
+import { pgTable, text, integer, timestamp, uuid } from "drizzle-orm/pg-core";
+
+/**
+ * API Keys table - credentials for the public /api/v1 surface
+ * Only a SHA-256 hash of each key is stored; the key itself is shown once
+ * when it is issued from the admin dashboard.
+ */
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+
+  // Who or what the key is for ("Discord bot", "Weekly newsletter")
+  name: text("name").notNull(),
+
+  // First characters of the key, shown in the admin list to tell keys apart
+  keyPrefix: text("key_prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+
+  // Requests allowed per minute
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+
+  // Clerk user ID of the admin who issued it
+  createdBy: text("created_by"),
+
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  // Revoked keys are kept for the audit trail but rejected
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+export type ApiKeyInsert = typeof apiKeys.$inferInsert;
+export type ApiKeySelect = typeof apiKeys.$inferSelect;
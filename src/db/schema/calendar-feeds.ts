@@ -0,0 +1,30 @@
+import { pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+/**
+ * User Calendar Feeds table - secret tokens for subscribable .ics feeds
+ * Calendar apps can't send Clerk session cookies, so personal feeds are
+ * authenticated by an unguessable token embedded in the feed URL.
+ */
+export const userCalendarFeeds = pgTable("user_calendar_feeds", {
+  // Primary key - one feed token per user
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+
+  // Secret token used in feed URLs (rotating it invalidates old subscriptions)
+  token: text("token").notNull().unique(),
+
+  // Last time a calendar app fetched one of this user's feeds
+  lastAccessedAt: timestamp("last_accessed_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+export type UserCalendarFeedInsert = typeof userCalendarFeeds.$inferInsert;
+export type UserCalendarFeedSelect = typeof userCalendarFeeds.$inferSelect;
@@ -52,6 +52,10 @@ export const festivals = pgTable(
     memberSaleDate: timestamp("member_sale_date", { withTimezone: true }),
     publicSaleDate: timestamp("public_sale_date", { withTimezone: true }),
 
+    // Programme tracking (for announcement alerts)
+    programmeScreeningCount: integer("programme_screening_count").notNull().default(0), // Last seen festival_screenings count
+    programmeUpdatedAt: timestamp("programme_updated_at", { withTimezone: true }), // Last big jump in that count
+
     // Classification
     genreFocus: text("genre_focus").array().default([]), // ["horror", "documentary"]
     venues: text("venues").array().default([]), // Cinema slugs: ["bfi-southbank", "curzon-soho"]
@@ -7,10 +7,17 @@ import {
   jsonb,
   real,
   index,
+  customType,
   // vector,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import type { CastMember, ReleaseStatus, ContentType } from "@/types/film";
 
+/** Postgres full-text search document (read via SQL, never written) */
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
 // OpenAI text-embedding-3-small produces 1536-dimensional vectors
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const EMBEDDING_DIMENSIONS = 1536;
@@ -78,6 +85,11 @@ export const films = pgTable("films", {
   // Embedding of title + year + director for semantic similarity search
   // titleEmbedding: vector("title_embedding", { dimensions: EMBEDDING_DIMENSIONS }),
 
+  // Full-text search over titles, directors and top cast (see migration 0010)
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`film_search_vector("title", "original_title", "directors", "cast")`
+  ),
+
   // Metadata
   createdAt: timestamp("created_at", { withTimezone: true })
     .notNull()
@@ -96,6 +108,13 @@ export const films = pgTable("films", {
   index("idx_films_match_strategy").on(table.matchStrategy),
   // Index for content type filtering
   index("idx_films_content_type").on(table.contentType),
+  // Indexes for full-text and fuzzy (trigram) search
+  index("idx_films_search_vector").using("gin", table.searchVector),
+  index("idx_films_title_trgm").using("gin", sql`search_normalize(${table.title}) gin_trgm_ops`),
+  index("idx_films_original_title_trgm").using(
+    "gin",
+    sql`search_normalize(${table.originalTitle}) gin_trgm_ops`
+  ),
 ]);
 
 export type FilmInsert = typeof films.$inferInsert;
@@ -14,9 +14,18 @@ export * from "./seasons";
 export * from "./users";
 export * from "./user-film-statuses";
 export * from "./user-preferences";
+export * from "./calendar-feeds";
+export * from "./notifications";
+export * from "./user-planned-screenings";
+export * from "./watch-groups";
+export * from "./account-deletion-receipts";
 
 // Admin & data completeness schemas
 export * from "./admin";
+export * from "./screening-changes";
+
+// Public API credentials
+export * from "./api-keys";
 
 // Season schemas
 export * from "./seasons";
@@ -0,0 +1,119 @@
+import { pgTable, text, boolean, integer, timestamp, uuid, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { users } from "./users";
+import { screenings } from "./screenings";
+import { festivals } from "./festivals";
+
+/**
+ * Kinds of watchlist notification, each opted into separately
+ */
+export type NotificationType = "new_screenings" | "last_chance" | "selling_fast";
+
+/**
+ * User Notification Settings table - per-type opt-ins for watchlist digests
+ * Every type is off until the user turns it on in /settings.
+ */
+export const userNotificationSettings = pgTable("user_notification_settings", {
+  // Primary key - one row per user
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+
+  // New screenings of watchlisted films
+  newScreenings: boolean("new_screenings").notNull().default(false),
+  // A watchlisted film's final screening is coming up
+  lastChance: boolean("last_chance").notNull().default(false),
+  // How close the final screening has to be, in days
+  lastChanceDays: integer("last_chance_days").notNull().default(7),
+  // A screening of a watchlisted film dropped to low availability
+  sellingFast: boolean("selling_fast").notNull().default(false),
+
+  // When the last digest went out (null until the first one)
+  lastDigestAt: timestamp("last_digest_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * Notification Deliveries table - what each user has already been told about
+ * A screening appears in at most one digest per type, however many runs see it.
+ */
+export const notificationDeliveries = pgTable(
+  "notification_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: text("type").$type<NotificationType>().notNull(),
+    screeningId: text("screening_id")
+      .notNull()
+      .references(() => screenings.id, { onDelete: "cascade" }),
+
+    sentAt: timestamp("sent_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Dedup key
+    uniqueIndex("idx_notification_deliveries_unique").on(
+      table.userId,
+      table.type,
+      table.screeningId
+    ),
+    // Pruning old deliveries
+    index("idx_notification_deliveries_sent").on(table.sentAt),
+  ]
+);
+
+/**
+ * Kinds of festival alert, gated by the notify flags on user_festival_interests
+ */
+export type FestivalAlertType = "member_sale" | "public_sale" | "programme" | "screening_reminder";
+
+/**
+ * Festival Alert Deliveries table - festival alerts already sent
+ * alert_key identifies the occasion (e.g. "public_sale:<sale time>",
+ * "reminder:<screening id>"), so a moved sale date is a new alert.
+ */
+export const festivalAlertDeliveries = pgTable(
+  "festival_alert_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    festivalId: text("festival_id")
+      .notNull()
+      .references(() => festivals.id, { onDelete: "cascade" }),
+    type: text("type").$type<FestivalAlertType>().notNull(),
+    alertKey: text("alert_key").notNull(),
+
+    sentAt: timestamp("sent_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Dedup key
+    uniqueIndex("idx_festival_alert_deliveries_unique").on(
+      table.userId,
+      table.festivalId,
+      table.alertKey
+    ),
+    // Pruning old deliveries
+    index("idx_festival_alert_deliveries_sent").on(table.sentAt),
+  ]
+);
+
+export type UserNotificationSettingsInsert = typeof userNotificationSettings.$inferInsert;
+export type UserNotificationSettingsSelect = typeof userNotificationSettings.$inferSelect;
+export type NotificationDeliveryInsert = typeof notificationDeliveries.$inferInsert;
+export type NotificationDeliverySelect = typeof notificationDeliveries.$inferSelect;
+export type FestivalAlertDeliveryInsert = typeof festivalAlertDeliveries.$inferInsert;
+export type FestivalAlertDeliverySelect = typeof festivalAlertDeliveries.$inferSelect;
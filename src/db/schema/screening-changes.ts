@@ -0,0 +1,61 @@
+import { pgTable, text, timestamp, uuid, index } from "drizzle-orm/pg-core";
+import { screenings } from "./screenings";
+import { cinemas } from "./cinemas";
+import { scraperRuns } from "./admin";
+
+/**
+ * Fields whose changes are recorded when a screening is re-scraped
+ */
+export type TrackedScreeningField =
+  | "datetime"
+  | "screen"
+  | "format"
+  | "eventType"
+  | "bookingUrl"
+  | "availabilityStatus"
+  | "status";
+
+/**
+ * Screening changes table - per-field change log for existing screenings
+ * Written by the scraper pipeline whenever a re-scrape alters a tracked field,
+ * so reschedules, format swaps and sell-outs are visible after the fact.
+ */
+export const screeningChanges = pgTable(
+  "screening_changes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    screeningId: text("screening_id")
+      .notNull()
+      .references(() => screenings.id, { onDelete: "cascade" }),
+    // Denormalized for per-cinema filtering without a join
+    cinemaId: text("cinema_id")
+      .notNull()
+      .references(() => cinemas.id, { onDelete: "cascade" }),
+
+    // What changed (values are stringified; datetimes as ISO strings)
+    field: text("field").$type<TrackedScreeningField>().notNull(),
+    oldValue: text("old_value"),
+    newValue: text("new_value"),
+
+    // Which scrape detected it (null for runs not tracked in scraper_runs)
+    scraperRunId: uuid("scraper_run_id").references(() => scraperRuns.id, {
+      onDelete: "set null",
+    }),
+
+    detectedAt: timestamp("detected_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // History for a single screening
+    index("idx_screening_changes_screening").on(table.screeningId),
+    // "What changed this week" feed
+    index("idx_screening_changes_detected").on(table.detectedAt),
+    // Per-cinema history
+    index("idx_screening_changes_cinema_detected").on(table.cinemaId, table.detectedAt),
+  ]
+);
+
+export type ScreeningChangeInsert = typeof screeningChanges.$inferInsert;
+export type ScreeningChangeSelect = typeof screeningChanges.$inferSelect;
@@ -2,13 +2,14 @@ import {
   pgTable,
   text,
   boolean,
+  integer,
   timestamp,
   index,
   uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { films } from "./films";
 import { cinemas } from "./cinemas";
-import type { ScreeningFormat, EventType } from "@/types/screening";
+import type { ScreeningFormat, EventType, ScreeningStatus } from "@/types/screening";
 
 /**
  * Screenings table - individual film showings at cinemas
@@ -46,18 +47,30 @@ export const screenings = pgTable(
     isSoldOut: boolean("is_sold_out").notNull().default(false),
 
     // Accessibility
-    hasSubtitles: boolean("has_subtitles").notNull().default(false),
+    hasSubtitles: boolean("has_subtitles").notNull().default(false), // Captioned / SDH
     subtitleLanguage: text("subtitle_language"),
     hasAudioDescription: boolean("has_audio_description")
       .notNull()
       .default(false),
     isRelaxedScreening: boolean("is_relaxed_screening").notNull().default(false),
+    isBabyFriendly: boolean("is_baby_friendly").notNull().default(false), // Parent & baby
+    isDementiaFriendly: boolean("is_dementia_friendly").notNull().default(false),
+
+    // Ticket prices in pence - cheapest of each kind, null when unknown
+    priceCurrency: text("price_currency"),
+    priceStandard: integer("price_standard"),
+    priceConcession: integer("price_concession"),
+    priceMember: integer("price_member"),
 
     // Source tracking
     sourceId: text("source_id"), // Original ID from cinema website
     scrapedAt: timestamp("scraped_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
+    // First time the screening was scraped (scrapedAt moves on every scrape)
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -77,6 +90,14 @@ export const screenings = pgTable(
       "available" | "low" | "sold_out" | "returns" | "unknown"
     >(),
     availabilityCheckedAt: timestamp("availability_checked_at", { withTimezone: true }),
+
+    // Lifecycle - rows are never deleted when they vanish from a cinema's site;
+    // consecutive missed scrapes move them to possibly_cancelled, then cancelled
+    status: text("status").$type<ScreeningStatus>().notNull().default("scheduled"),
+    missedScrapeCount: integer("missed_scrape_count").notNull().default(0),
+    statusChangedAt: timestamp("status_changed_at", { withTimezone: true }),
+    // Set when an admin pins the status - the pipeline then leaves it alone
+    statusOverridden: boolean("status_overridden").notNull().default(false),
   },
   (table) => [
     // Primary datetime index for range scans (most queries filter by date)
@@ -85,6 +106,8 @@ export const screenings = pgTable(
     index("idx_screenings_film_datetime").on(table.filmId, table.datetime),
     // Compound index for cinema calendar: WHERE cinemaId = ? AND datetime >= ?
     index("idx_screenings_cinema_datetime").on(table.cinemaId, table.datetime),
+    // Admin review list of flagged (possibly) cancelled screenings
+    index("idx_screenings_status_datetime").on(table.status, table.datetime),
     // Unique constraint to prevent duplicate screenings
     uniqueIndex("idx_screenings_unique").on(table.filmId, table.cinemaId, table.datetime),
   ]
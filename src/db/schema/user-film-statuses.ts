@@ -1,6 +1,33 @@
-import { pgTable, text, timestamp, integer, uniqueIndex } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  pgSequence,
+  text,
+  timestamp,
+  integer,
+  real,
+  bigint,
+  uniqueIndex,
+  index,
+  primaryKey,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { users } from "./users";
 
+/**
+ * Change cursor for film statuses, shared with the tombstones table so one
+ * number orders every change a user's devices need to see
+ */
+export const userFilmStatusVersionSeq = pgSequence("user_film_status_version_seq");
+
+/** Default for `version`, and its value when updating a status or tombstone */
+export const nextFilmStatusVersion = sql`nextval('user_film_status_version_seq')`;
+
+/**
+ * Default for `changed_at`, set alongside `version`. The clock time rather
+ * than the transaction's start, so it tracks the order versions are taken.
+ */
+export const filmStatusChangedAt = sql`clock_timestamp()`;
+
 /**
  * User Film Statuses table - tracks user's relationship with films
  * Syncs with the local film-status Zustand store
@@ -32,12 +59,20 @@ export const userFilmStatuses = pgTable(
     // When marked as seen (null if not seen)
     seenAt: timestamp("seen_at", { withTimezone: true }),
 
-    // User's rating (1-5 stars)
-    rating: integer("rating"),
+    // User's rating (0.5-5 stars, in half stars)
+    rating: real("rating"),
 
     // User's notes about the film
     notes: text("notes"),
 
+    // Where it was seen (diary entries). Like filmId these come from the
+    // local store, so there are no foreign keys; the cinema name and format
+    // are kept so history survives old screenings being cleaned up
+    seenScreeningId: text("seen_screening_id"),
+    seenCinemaId: text("seen_cinema_id"),
+    seenCinemaName: text("seen_cinema_name"),
+    seenFormat: text("seen_format"),
+
     // Denormalized film metadata for display
     // (so we don't need to join with films table for simple lists)
     filmTitle: text("film_title"),
@@ -49,12 +84,42 @@ export const userFilmStatuses = pgTable(
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
+
+    // Change cursor, bumped on every write
+    version: bigint("version", { mode: "number" }).notNull().default(nextFilmStatusVersion),
+    // When the version was taken, so reads can tell if it may still be uncommitted
+    changedAt: timestamp("changed_at", { withTimezone: true }).notNull().default(filmStatusChangedAt),
   },
   (table) => [
     // Each user can only have one status per film
     uniqueIndex("user_film_unique").on(table.userId, table.filmId),
+    // Changes since a cursor
+    index("idx_user_film_statuses_version").on(table.userId, table.version),
+  ]
+);
+
+/**
+ * Deleted film statuses, kept so the deletion reaches the user's other
+ * devices instead of a stale copy bringing the status back
+ */
+export const userFilmStatusTombstones = pgTable(
+  "user_film_status_tombstones",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    filmId: text("film_id").notNull(),
+    // When the client deleted it; edits older than this are ignored
+    deletedAt: timestamp("deleted_at", { withTimezone: true }).notNull(),
+    version: bigint("version", { mode: "number" }).notNull().default(nextFilmStatusVersion),
+    changedAt: timestamp("changed_at", { withTimezone: true }).notNull().default(filmStatusChangedAt),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.filmId] }),
+    index("idx_user_film_status_tombstones_version").on(table.userId, table.version),
   ]
 );
 
 export type UserFilmStatusInsert = typeof userFilmStatuses.$inferInsert;
 export type UserFilmStatusSelect = typeof userFilmStatuses.$inferSelect;
+export type UserFilmStatusTombstoneSelect = typeof userFilmStatusTombstones.$inferSelect;
@@ -0,0 +1,51 @@
+import { pgTable, text, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { users } from "./users";
+import { screenings } from "./screenings";
+
+/**
+ * Planned screening status
+ */
+export type PlannedScreeningStatus = "planned" | "booked";
+
+/**
+ * User Planned Screenings table - accepted itineraries from the watchlist planner
+ * Works like user_festival_schedule, for any screening
+ */
+export const userPlannedScreenings = pgTable(
+  "user_planned_screenings",
+  {
+    // Primary key - UUID for easy reference
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    screeningId: text("screening_id")
+      .notNull()
+      .references(() => screenings.id, { onDelete: "cascade" }),
+
+    // Status tracking
+    status: text("status")
+      .$type<PlannedScreeningStatus>()
+      .notNull()
+      .default("planned"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // One entry per user and screening
+    uniqueIndex("idx_user_planned_screenings_unique").on(table.userId, table.screeningId),
+    // For listing a user's plan
+    index("idx_user_planned_screenings_user").on(table.userId),
+  ]
+);
+
+export type UserPlannedScreeningInsert = typeof userPlannedScreenings.$inferInsert;
+export type UserPlannedScreeningSelect = typeof userPlannedScreenings.$inferSelect;
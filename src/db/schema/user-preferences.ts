@@ -1,6 +1,6 @@
 import { pgTable, text, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { users } from "./users";
-import type { ProgrammingType, TimeOfDay } from "@/stores/filters";
+import type { AccessibilityFlag, ProgrammingType, TimeOfDay } from "@/stores/filters";
 
 /**
  * Types matching the Zustand stores for JSON storage
@@ -23,6 +23,8 @@ export interface StoredFilters {
   decades: string[];
   genres: string[];
   timesOfDay: TimeOfDay[];
+  accessibility?: AccessibilityFlag[]; // Absent in rows saved before accessibility filters
+  maxPrice?: number | null; // Pounds; absent in rows saved before price filters
   hideSeen: boolean;
   hideNotInterested: boolean;
 }
@@ -0,0 +1,130 @@
+import { pgTable, text, timestamp, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
+import { users } from "./users";
+import { screenings } from "./screenings";
+
+/**
+ * Group member role - the owner created the group and manages it
+ */
+export type WatchGroupRole = "owner" | "member";
+
+/**
+ * A member's answer to a proposed screening
+ */
+export type WatchGroupVote = "yes" | "maybe" | "no";
+
+/**
+ * Watch Groups table - people who go to screenings together
+ * Anyone with the invite token can join; rotating it invalidates old links.
+ */
+export const watchGroups = pgTable("watch_groups", {
+  // Primary key - UUID for easy reference
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  name: text("name").notNull(),
+
+  ownerId: text("owner_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+
+  // Secret token used in invite links
+  inviteToken: text("invite_token").notNull().unique(),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * Watch Group Members table - who is in each group
+ */
+export const watchGroupMembers = pgTable(
+  "watch_group_members",
+  {
+    groupId: text("group_id")
+      .notNull()
+      .references(() => watchGroups.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+
+    role: text("role").$type<WatchGroupRole>().notNull().default("member"),
+
+    joinedAt: timestamp("joined_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.groupId, table.userId] }),
+    // For listing a user's groups
+    index("idx_watch_group_members_user").on(table.userId),
+  ]
+);
+
+/**
+ * Watch Group Proposals table - screenings suggested for a group outing
+ */
+export const watchGroupProposals = pgTable(
+  "watch_group_proposals",
+  {
+    // Primary key - UUID for easy reference
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+
+    groupId: text("group_id")
+      .notNull()
+      .references(() => watchGroups.id, { onDelete: "cascade" }),
+    screeningId: text("screening_id")
+      .notNull()
+      .references(() => screenings.id, { onDelete: "cascade" }),
+    // Kept (as null) if the proposer leaves the site
+    proposedBy: text("proposed_by").references(() => users.id, { onDelete: "set null" }),
+
+    note: text("note"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // A screening is proposed once per group
+    uniqueIndex("idx_watch_group_proposals_unique").on(table.groupId, table.screeningId),
+  ]
+);
+
+/**
+ * Watch Group Votes table - one vote per member per proposal
+ */
+export const watchGroupVotes = pgTable(
+  "watch_group_votes",
+  {
+    proposalId: text("proposal_id")
+      .notNull()
+      .references(() => watchGroupProposals.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+
+    vote: text("vote").$type<WatchGroupVote>().notNull(),
+
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.proposalId, table.userId] }),
+    // For removing a member's votes when they leave
+    index("idx_watch_group_votes_user").on(table.userId),
+  ]
+);
+
+export type WatchGroupInsert = typeof watchGroups.$inferInsert;
+export type WatchGroupSelect = typeof watchGroups.$inferSelect;
+export type WatchGroupMemberSelect = typeof watchGroupMembers.$inferSelect;
+export type WatchGroupProposalSelect = typeof watchGroupProposals.$inferSelect;
+export type WatchGroupVoteSelect = typeof watchGroupVotes.$inferSelect;
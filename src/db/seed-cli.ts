@@ -13,211 +13,148 @@
 
 import { db } from "./index";
 import { cinemas, films, screenings, festivals } from "./schema";
+import type { CinemaInsert } from "./schema";
 import { v4 as uuidv4, v4 } from "uuid";
 import { addDays, setHours, setMinutes } from "date-fns";
 import type { ScreeningFormat, EventType } from "@/types/screening";
+import { getRegisteredVenues } from "@/scrapers/registry";
 
 // ============================================================================
 // Cinema Seed Data
 // ============================================================================
 
-const LONDON_CINEMAS = [
-  {
-    id: "bfi-southbank",
-    name: "BFI Southbank",
-    shortName: "BFI",
-    chain: "BFI",
-    address: { street: "Belvedere Road", area: "South Bank", postcode: "SE1 8XT", borough: "Lambeth" },
+/**
+ * Seed-only details for registered venues (see scrapers/registry.ts, which
+ * owns names, addresses and websites). Every registered venue is seeded;
+ * venues without details get the registry data only.
+ */
+interface CinemaDetails {
+  borough: string;
+  coordinates?: { lat: number; lng: number };
+  screens?: number;
+  features?: string[];
+  programmingFocus?: string[];
+  bookingUrl?: string;
+  description?: string;
+}
+
+const CINEMA_DETAILS: Record<string, CinemaDetails> = {
+  "bfi-southbank": {
+    borough: "Lambeth",
     coordinates: { lat: 51.5069, lng: -0.1150 },
     screens: 4,
     features: ["35mm", "70mm", "bar", "restaurant", "accessible"],
     programmingFocus: ["repertory", "arthouse", "documentary", "events"],
-    website: "https://whatson.bfi.org.uk",
     bookingUrl: "https://whatson.bfi.org.uk/Online/",
-    dataSourceType: "scrape" as const,
     description: "The UK's leading repertory cinema, home to seasons, retrospectives, and restorations.",
   },
-  {
-    id: "bfi-imax",
-    name: "BFI IMAX",
-    shortName: "IMAX",
-    chain: "BFI",
-    address: { street: "1 Charlie Chaplin Walk", area: "Waterloo", postcode: "SE1 8XR", borough: "Lambeth" },
+  "bfi-imax": {
+    borough: "Lambeth",
     coordinates: { lat: 51.5033, lng: -0.1134 },
     screens: 1,
     features: ["imax", "70mm", "accessible"],
     programmingFocus: ["mainstream", "events", "repertory"],
-    website: "https://whatson.bfi.org.uk",
     bookingUrl: "https://whatson.bfi.org.uk/Online/",
-    dataSourceType: "scrape" as const,
     description: "The UK's largest IMAX screen.",
   },
-  {
-    id: "prince-charles",
-    name: "Prince Charles Cinema",
-    shortName: "PCC",
-    chain: null,
-    address: { street: "7 Leicester Place", area: "Leicester Square", postcode: "WC2H 7BY", borough: "Westminster" },
+  "prince-charles": {
+    borough: "Westminster",
     coordinates: { lat: 51.5114, lng: -0.1302 },
     screens: 2,
     features: ["35mm", "bar", "accessible"],
     programmingFocus: ["repertory", "events"],
-    website: "https://princecharlescinema.com",
     bookingUrl: "https://princecharlescinema.com/whats-on/",
-    dataSourceType: "scrape" as const,
     description: "London's legendary repertory cinema. Home to sing-alongs, marathons, and the best double bills.",
   },
-  {
-    id: "ica",
-    name: "ICA Cinema",
-    shortName: "ICA",
-    chain: null,
-    address: { street: "The Mall", area: "St James's", postcode: "SW1Y 5AH", borough: "Westminster" },
+  "ica": {
+    borough: "Westminster",
     coordinates: { lat: 51.5063, lng: -0.1310 },
     screens: 2,
     features: ["accessible", "bar"],
     programmingFocus: ["arthouse", "experimental", "documentary"],
-    website: "https://www.ica.art/films",
     bookingUrl: "https://www.ica.art/films",
-    dataSourceType: "scrape" as const,
     description: "Institute of Contemporary Arts cinema. Cutting-edge and avant-garde cinema.",
   },
-  {
-    id: "barbican",
-    name: "Barbican Cinema",
-    shortName: "Barbican",
-    chain: null,
-    address: { street: "Silk Street", area: "Barbican", postcode: "EC2Y 8DS", borough: "City of London" },
+  "barbican": {
+    borough: "City of London",
     coordinates: { lat: 51.5200, lng: -0.0935 },
     screens: 3,
     features: ["accessible", "bar", "hearing_loop"],
     programmingFocus: ["arthouse", "repertory", "documentary", "events"],
-    website: "https://www.barbican.org.uk/whats-on/cinema",
     bookingUrl: "https://www.barbican.org.uk/whats-on/cinema",
-    dataSourceType: "scrape" as const,
     description: "Part of Europe's largest arts centre. International cinema and director retrospectives.",
   },
-  {
-    id: "rio-dalston",
-    name: "Rio Cinema",
-    shortName: "Rio",
-    chain: null,
-    address: { street: "107 Kingsland High Street", area: "Dalston", postcode: "E8 2PB", borough: "Hackney" },
+  "rio-dalston": {
+    borough: "Hackney",
     coordinates: { lat: 51.5485, lng: -0.0755 },
     screens: 2,
     features: ["35mm", "bar", "accessible"],
     programmingFocus: ["repertory", "arthouse", "community"],
-    website: "https://riocinema.org.uk",
     bookingUrl: "https://riocinema.org.uk/whats-on/",
-    dataSourceType: "scrape" as const,
     description: "East London's beloved Art Deco cinema.",
   },
-  {
-    id: "genesis-mile-end",
-    name: "Genesis Cinema",
-    shortName: "Genesis",
-    chain: null,
-    address: { street: "93-95 Mile End Road", area: "Mile End", postcode: "E1 4UJ", borough: "Tower Hamlets" },
+  "genesis": {
+    borough: "Tower Hamlets",
     coordinates: { lat: 51.5232, lng: -0.0408 },
     screens: 5,
     features: ["bar", "accessible"],
     programmingFocus: ["mainstream", "repertory", "arthouse"],
-    website: "https://genesiscinema.co.uk",
     bookingUrl: "https://genesiscinema.co.uk/whats-on/",
-    dataSourceType: "scrape" as const,
     description: "Independent East London cinema with eclectic programming.",
   },
-  {
-    id: "garden-cinema",
-    name: "The Garden Cinema",
-    shortName: "Garden",
-    chain: null,
-    address: { street: "39-41 Golders Green Road", area: "Golders Green", postcode: "NW11 8EE", borough: "Barnet" },
-    coordinates: { lat: 51.5726, lng: -0.1944 },
-    screens: 1,
+  "garden": {
+    borough: "Camden",
     features: ["bar", "accessible", "35mm"],
     programmingFocus: ["arthouse", "repertory", "documentary"],
-    website: "https://thegardencinema.co.uk",
     bookingUrl: "https://thegardencinema.co.uk",
-    dataSourceType: "scrape" as const,
-    description: "Beautiful single-screen independent cinema in North London.",
+    description: "Independent art-house and repertory cinema in Covent Garden.",
   },
-  {
-    id: "close-up-cinema",
-    name: "Close-Up Cinema",
-    shortName: "Close-Up",
-    chain: null,
-    address: { street: "97 Sclater Street", area: "Shoreditch", postcode: "E1 6HR", borough: "Tower Hamlets" },
+  "close-up": {
+    borough: "Tower Hamlets",
     coordinates: { lat: 51.5233, lng: -0.0718 },
     screens: 1,
     features: ["bar", "accessible"],
     programmingFocus: ["repertory", "arthouse", "documentary", "events"],
-    website: "https://www.closeupfilmcentre.com",
     bookingUrl: "https://www.closeupfilmcentre.com",
-    dataSourceType: "scrape" as const,
     description: "Intimate single-screen cinema in Shoreditch specializing in repertory.",
   },
-  {
-    id: "cine-lumiere",
-    name: "Cine Lumiere",
-    shortName: "Lumiere",
-    chain: null,
-    address: { street: "17 Queensberry Place", area: "South Kensington", postcode: "SW7 2DT", borough: "Kensington and Chelsea" },
+  "cine-lumiere": {
+    borough: "Kensington and Chelsea",
     coordinates: { lat: 51.4947, lng: -0.1765 },
     screens: 1,
     features: ["accessible", "bar"],
     programmingFocus: ["arthouse", "repertory", "french", "european"],
-    website: "https://www.institut-francais.org.uk/cine-lumiere/",
     bookingUrl: "https://cinelumiere.savoysystems.co.uk/CineLumiere.dll/",
-    dataSourceType: "scrape" as const,
     description: "French and European arthouse cinema at Institut Francais.",
   },
-  {
-    id: "phoenix-east-finchley",
-    name: "Phoenix Cinema",
-    shortName: "Phoenix",
-    chain: null,
-    address: { street: "52 High Rd", area: "East Finchley", postcode: "N2 9PJ", borough: "Barnet" },
+  "phoenix": {
+    borough: "Barnet",
     coordinates: { lat: 51.5871, lng: -0.1642 },
     screens: 2,
     features: ["accessible", "bar", "cafe"],
     programmingFocus: ["repertory", "arthouse", "mainstream", "events"],
-    website: "https://phoenixcinema.co.uk",
     bookingUrl: "https://phoenixcinema.co.uk/whats-on/",
-    dataSourceType: "scrape" as const,
     description: "One of the oldest purpose-built cinemas in the UK (1910).",
   },
-  {
-    id: "coldharbour-blue",
-    name: "Coldharbour Blue",
-    shortName: "Coldharbour",
-    chain: null,
-    address: { street: "259-260 Hardess Street", area: "Loughborough Junction", postcode: "SE24 0HN", borough: "Lambeth" },
+  "coldharbour-blue": {
+    borough: "Lambeth",
     coordinates: { lat: 51.4630, lng: -0.1010 },
     screens: 1,
     features: ["bar", "accessible", "community"],
     programmingFocus: ["arthouse", "repertory", "documentary", "events"],
-    website: "https://www.coldharbourblue.com",
     bookingUrl: "https://www.coldharbourblue.com/screenings/",
-    dataSourceType: "scrape" as const,
     description: "Independent cinema in Brixton. New releases, art-house, classics and documentaries.",
   },
-  {
-    id: "romford-lumiere",
-    name: "Lumiere Romford",
-    shortName: "Lumiere",
-    chain: null,
-    address: { street: "Mercury Gardens", area: "Romford", postcode: "RM1 3EE", borough: "Havering" },
+  "romford-lumiere": {
+    borough: "Havering",
     coordinates: { lat: 51.5757, lng: 0.1838 },
     screens: 4,
     features: ["bar", "accessible", "community"],
     programmingFocus: ["mainstream", "arthouse", "repertory", "events"],
-    website: "https://www.lumiereromford.com",
     bookingUrl: "https://www.lumiereromford.com/en/buy-tickets",
-    dataSourceType: "scrape" as const,
     description: "Community co-operative cinema in Romford championing independent films alongside mainstream releases.",
   },
-];
+};
 
 // ============================================================================
 // Festival Seed Data
@@ -361,11 +298,47 @@ const TEST_FILMS = [
 // Seed Functions
 // ============================================================================
 
+/**
+ * Build cinema rows from the scraper registry plus seed-only details
+ */
+function buildCinemaSeed(): CinemaInsert[] {
+  const venues = getRegisteredVenues();
+
+  const unknown = Object.keys(CINEMA_DETAILS).filter((id) => !venues.some((v) => v.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Seed details for unregistered cinemas: ${unknown.join(", ")}`);
+  }
+
+  return venues.map((venue) => {
+    const details = CINEMA_DETAILS[venue.id];
+    return {
+      id: venue.id,
+      name: venue.name,
+      shortName: venue.shortName,
+      chain: venue.chain ?? null,
+      address: {
+        street: venue.address?.street ?? "",
+        area: venue.address?.area ?? "",
+        postcode: venue.address?.postcode ?? "",
+        borough: details?.borough ?? "",
+      },
+      coordinates: details?.coordinates ?? null,
+      screens: details?.screens ?? null,
+      features: details?.features ?? venue.features ?? [],
+      programmingFocus: details?.programmingFocus ?? [],
+      website: venue.website ?? "",
+      bookingUrl: details?.bookingUrl ?? venue.website ?? null,
+      dataSourceType: "scrape",
+      description: details?.description ?? null,
+    };
+  });
+}
+
 async function seedCinemas(): Promise<number> {
   console.log("  Seeding cinemas...");
   let count = 0;
 
-  for (const cinema of LONDON_CINEMAS) {
+  for (const cinema of buildCinemaSeed()) {
     await db
       .insert(cinemas)
       .values(cinema)
@@ -530,7 +503,7 @@ function listOperations(): void {
   console.log(`
 Available seed operations:
 
-  --cinemas     ${LONDON_CINEMAS.length} London cinemas (production data)
+  --cinemas     ${getRegisteredVenues().length} London cinemas (production data)
   --festivals   ${LONDON_FESTIVALS.length} London festivals (production data)
   --screenings  ${TEST_FILMS.length} test films + random screenings (development only)
 
@@ -81,6 +81,12 @@ export function useUrlFilters(options: UseUrlFiltersOptions = {}) {
       if (urlFilters.genres?.length) {
         filters.setGenres(urlFilters.genres);
       }
+      if (urlFilters.accessibility?.length) {
+        filters.setAccessibility(urlFilters.accessibility);
+      }
+      if (urlFilters.maxPrice !== undefined) {
+        filters.setMaxPrice(urlFilters.maxPrice);
+      }
       if (urlFilters.festivalSlug) {
         filters.setFestivalFilter(urlFilters.festivalSlug);
       }
@@ -131,6 +137,8 @@ export function useUrlFilters(options: UseUrlFiltersOptions = {}) {
       decades: filters.decades,
       genres: filters.genres,
       timesOfDay: filters.timesOfDay,
+      accessibility: filters.accessibility,
+      maxPrice: filters.maxPrice,
       festivalSlug: filters.festivalSlug,
       festivalOnly: filters.festivalOnly,
       onlySingleShowings: filters.onlySingleShowings,
@@ -182,6 +190,8 @@ export function useUrlFilters(options: UseUrlFiltersOptions = {}) {
     filters.decades,
     filters.genres,
     filters.timesOfDay,
+    filters.accessibility,
+    filters.maxPrice,
     filters.festivalSlug,
     filters.festivalOnly,
     filters.onlySingleShowings,
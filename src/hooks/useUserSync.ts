@@ -11,11 +11,12 @@
  * Features:
  * - Initial sync on sign-in
  * - Debounced sync on store changes
+ * - Live film status changes from other devices (server-sent events)
  * - Online/offline awareness
  * - Anonymous-to-authenticated tracking
  */
 
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useState } from "react";
 import { useUser } from "@/hooks/useClerkSafe";
 import { useFilmStatus } from "@/stores/film-status";
 import { usePreferences } from "@/stores/preferences";
@@ -25,6 +26,7 @@ import {
   performFullSync,
   pushFilmStatuses,
   pushPreferences,
+  subscribeToFilmStatusChanges,
 } from "@/lib/sync/user-sync-service";
 import {
   performFestivalSync,
@@ -44,7 +46,11 @@ const SYNC_DEBOUNCE_MS = 500;
 let storedAnonymousId: string | null = null;
 
 export function useUserSync() {
-  const { isSignedIn, isLoaded } = useUser();
+  const { isSignedIn, isLoaded, user } = useUser();
+  const userId = user?.id ?? null;
+
+  // The user whose initial sync has finished (the change stream starts from it)
+  const [syncedUserId, setSyncedUserId] = useState<string | null>(null);
 
   // Debounce refs for all sync operations
   const filmStatusDebounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -137,6 +143,7 @@ export function useUserSync() {
         performFestivalSync(),
       ]).then(([userSyncSuccess]) => {
         isSyncingRef.current = false;
+        if (userSyncSuccess) setSyncedUserId(userId);
 
         // Track anonymous-to-authenticated conversion
         if (userSyncSuccess && storedAnonymousId) {
@@ -171,7 +178,16 @@ export function useUserSync() {
     if (!isSignedIn) {
       initialSyncPerformedRef.current = false;
     }
-  }, [isSignedIn, isLoaded]);
+  }, [isSignedIn, isLoaded, userId]);
+
+  // ============================================================================
+  // Live film status changes
+  // ============================================================================
+
+  useEffect(() => {
+    if (!isSignedIn || !userId || syncedUserId !== userId) return;
+    return subscribeToFilmStatusChanges();
+  }, [isSignedIn, userId, syncedUserId]);
 
   // ============================================================================
   // Store subscriptions
@@ -224,6 +240,8 @@ export function useUserSync() {
         state.decades !== prevState.decades ||
         state.genres !== prevState.genres ||
         state.timesOfDay !== prevState.timesOfDay ||
+        state.accessibility !== prevState.accessibility ||
+        state.maxPrice !== prevState.maxPrice ||
         state.hideSeen !== prevState.hideSeen ||
         state.hideNotInterested !== prevState.hideNotInterested;
 
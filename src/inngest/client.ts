@@ -20,6 +20,60 @@ export type ScraperEvent = {
   };
 };
 
+/** A scraper run finished - digests and other follow-ups hang off this */
+export type ScraperCompletedEvent = {
+  name: "scraper/completed";
+  data: {
+    cinemaId: string;
+    scraperId: string;
+    added: number;
+    updated: number;
+  };
+};
+
+export type AvailabilityCheckEvent = {
+  name: "availability/check";
+  data: {
+    cinemaId: string;
+    scraperId: string;
+    triggeredBy: string;
+  };
+};
+
+/**
+ * A polled screening started selling fast, sold out or has returns -
+ * for alerting (see scrapers/availability.ts)
+ */
+export type AvailabilityChangedEvent = {
+  name: "screening/availability-changed";
+  data: {
+    screeningId: string;
+    cinemaId: string;
+    filmId: string;
+    datetime: string;
+    from: string | null;
+    to: string;
+    transition: "selling_fast" | "sold_out" | "returns_available";
+  };
+};
+
+/**
+ * An account deletion's PostHog or Clerk step failed - retried in the
+ * background (see lib/account-deletion.ts)
+ */
+export type AccountDeletionRetryEvent = {
+  name: "account/deletion.retry";
+  data: {
+    receiptId: string;
+    userId: string;
+    steps: ("posthog" | "account")[];
+  };
+};
+
 export type Events = {
   "scraper/run": ScraperEvent;
+  "scraper/completed": ScraperCompletedEvent;
+  "availability/check": AvailabilityCheckEvent;
+  "screening/availability-changed": AvailabilityChangedEvent;
+  "account/deletion.retry": AccountDeletionRetryEvent;
 };
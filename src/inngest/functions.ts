@@ -1,523 +1,46 @@
 import { inngest } from "./client";
-import { saveScreenings, ensureCinemaExists } from "@/scrapers/pipeline";
-import type { RawScreening } from "@/scrapers/types";
+import { runScraper } from "@/scrapers/runner-factory";
+import { getScraperForCinema, getScrapersBySchedule, resolveCinemaId } from "@/scrapers/registry";
 import { captureServerException } from "@/lib/posthog-server";
-
-// Venue definition with required website for Inngest scrapers
-interface InnggestVenueDefinition {
-  id: string;
-  name: string;
-  shortName: string;
-  website: string;
-  address: { street: string; area: string; postcode: string };
-  features: string[];
-}
-
-/**
- * Scraper Registry
- * Maps cinema IDs to their scraper configurations
- *
- * Note: Playwright-based scrapers require a browser runtime.
- * On Vercel serverless, only API/Cheerio-based scrapers will work.
- * For Playwright scrapers, use a dedicated server or cloud browser service.
- */
-
-interface ScraperResult {
-  venueId: string;
-  added: number;
-  updated: number;
-  failed: number;
-}
-
-interface ScraperEntry {
-  venue: InnggestVenueDefinition;
-  /** Whether this scraper requires Playwright (won't work on Vercel serverless) */
-  requiresPlaywright: boolean;
-  /** The scrape function */
-  scrape: () => Promise<ScraperResult[]>;
-}
-
-// Helper to create a scraper entry for independent cinemas
-function createIndependentEntry(
-  venue: InnggestVenueDefinition,
-  requiresPlaywright: boolean,
-  scraperFactory: () => Promise<{ scrape: () => Promise<RawScreening[]> }>
-): ScraperEntry {
-  return {
-    venue,
-    requiresPlaywright,
-    scrape: async () => {
-      await ensureCinemaExists(venue);
-      const scraper = await scraperFactory();
-      const screenings = await scraper.scrape();
-      const result = await saveScreenings(venue.id, screenings);
-      return [{
-        venueId: venue.id,
-        added: result.added,
-        updated: result.updated,
-        failed: result.failed,
-      }];
-    },
-  };
-}
-
-// Cheerio-based cinemas that can run on Vercel serverless (no browser required)
-const CHEERIO_CINEMAS = [
-  "rio-dalston",
-  "prince-charles",
-  "ica",
-  "genesis",
-  "peckhamplex",
-  "nickel",
-  "garden",
-  "castle",
-  "rich-mix",
-  // Additional Cheerio-based cinemas
-  "close-up-cinema",
-  "cine-lumiere",
-  "castle-sidcup",
-  "arthouse-crouch-end",
-  "coldharbour-blue",
-  "olympic-studios",
-  "david-lean-cinema",
-  "riverside-studios",
-  // Note: "phoenix" and "regent-street" removed - they use Playwright
-];
-
-// Lazy-loaded scraper registry
-const getScraperRegistry = (): Record<string, () => Promise<ScraperEntry>> => ({
-  // ============================================================================
-  // Independent Cinemas (Cheerio-based - work on Vercel)
-  // ============================================================================
-  "rio-dalston": async () => {
-    const { createRioScraper } = await import("@/scrapers/cinemas/rio");
-    return createIndependentEntry(
-      {
-        id: "rio-dalston",
-        name: "Rio Cinema",
-        shortName: "Rio",
-        website: "https://riocinema.org.uk",
-        address: { street: "107 Kingsland High Street", area: "Dalston", postcode: "E8 2PB" },
-        features: ["independent", "repertory", "bar", "35mm", "art-deco"],
-      },
-      false,
-      async () => createRioScraper()
-    );
-  },
-
-  "prince-charles": async () => {
-    const { createPrinceCharlesScraper } = await import("@/scrapers/cinemas/prince-charles");
-    return createIndependentEntry(
-      {
-        id: "prince-charles",
-        name: "Prince Charles Cinema",
-        shortName: "PCC",
-        website: "https://princecharlescinema.com",
-        address: { street: "7 Leicester Place", area: "Leicester Square", postcode: "WC2H 7BY" },
-        features: ["independent", "repertory", "sing-along", "marathons", "35mm", "70mm"],
-      },
-      false,
-      async () => createPrinceCharlesScraper()
-    );
-  },
-
-  "ica": async () => {
-    const { createICAScraper } = await import("@/scrapers/cinemas/ica");
-    return createIndependentEntry(
-      {
-        id: "ica",
-        name: "Institute of Contemporary Arts",
-        shortName: "ICA",
-        website: "https://www.ica.art",
-        address: { street: "The Mall", area: "St James's", postcode: "SW1Y 5AH" },
-        features: ["independent", "repertory", "art-house", "gallery"],
-      },
-      false,
-      async () => createICAScraper()
-    );
-  },
-
-  "genesis": async () => {
-    const { createGenesisScraper } = await import("@/scrapers/cinemas/genesis");
-    return createIndependentEntry(
-      {
-        id: "genesis",
-        name: "Genesis Cinema",
-        shortName: "Genesis",
-        website: "https://genesiscinema.co.uk",
-        address: { street: "93-95 Mile End Road", area: "Mile End", postcode: "E1 4UJ" },
-        features: ["independent", "affordable", "5-screens"],
-      },
-      false,
-      async () => createGenesisScraper()
-    );
-  },
-
-  "peckhamplex": async () => {
-    const { createPeckhamplexScraper } = await import("@/scrapers/cinemas/peckhamplex");
-    return createIndependentEntry(
-      {
-        id: "peckhamplex",
-        name: "Peckhamplex",
-        shortName: "Plex",
-        website: "https://peckhamplex.london",
-        address: { street: "95A Rye Lane", area: "Peckham", postcode: "SE15 4ST" },
-        features: ["independent", "affordable", "community"],
-      },
-      false,
-      async () => createPeckhamplexScraper()
-    );
-  },
-
-  "nickel": async () => {
-    const { createNickelScraper } = await import("@/scrapers/cinemas/the-nickel");
-    return createIndependentEntry(
-      {
-        id: "nickel",
-        name: "The Nickel",
-        shortName: "Nickel",
-        website: "https://thenickel.co.uk",
-        address: { street: "194 Upper Street", area: "Islington", postcode: "N1 1RQ" },
-        features: ["independent", "bar", "restaurant"],
-      },
-      false,
-      async () => createNickelScraper()
-    );
-  },
-
-  "garden": async () => {
-    const { createGardenCinemaScraper } = await import("@/scrapers/cinemas/garden");
-    return createIndependentEntry(
-      {
-        id: "garden",
-        name: "Garden Cinema",
-        shortName: "Garden",
-        website: "https://thegardencinema.co.uk",
-        address: { street: "39-41 Parker Street", area: "Covent Garden", postcode: "WC2B 5PQ" },
-        features: ["independent", "art-house", "bar", "luxury"],
-      },
-      false,
-      async () => createGardenCinemaScraper()
-    );
-  },
-
-  "castle": async () => {
-    const { createCastleScraper } = await import("@/scrapers/cinemas/castle");
-    return createIndependentEntry(
-      {
-        id: "castle",
-        name: "Castle Cinema",
-        shortName: "Castle",
-        website: "https://thecastlecinema.com",
-        address: { street: "64-66 Brooksby's Walk", area: "Hackney", postcode: "E9 6DA" },
-        features: ["independent", "community", "cafe-bar"],
-      },
-      false,
-      async () => createCastleScraper()
-    );
-  },
-
-  "phoenix": async () => {
-    const { createPhoenixScraper } = await import("@/scrapers/cinemas/phoenix");
-    return createIndependentEntry(
-      {
-        id: "phoenix",
-        name: "Phoenix Cinema",
-        shortName: "Phoenix",
-        website: "https://phoenixcinema.co.uk",
-        address: { street: "52 High Road", area: "East Finchley", postcode: "N2 9PJ" },
-        features: ["independent", "historic", "repertory", "art-deco"],
-      },
-      true, // Requires Playwright
-      async () => createPhoenixScraper()
-    );
-  },
-
-  "rich-mix": async () => {
-    const { createRichMixScraper } = await import("@/scrapers/cinemas/rich-mix");
-    return createIndependentEntry(
-      {
-        id: "rich-mix",
-        name: "Rich Mix",
-        shortName: "Rich Mix",
-        website: "https://richmix.org.uk",
-        address: { street: "35-47 Bethnal Green Road", area: "Shoreditch", postcode: "E1 6LA" },
-        features: ["independent", "arts-centre", "community", "world-cinema"],
-      },
-      false,
-      async () => createRichMixScraper()
-    );
-  },
-
-  "close-up-cinema": async () => {
-    const { CloseUpCinemaScraper } = await import("@/scrapers/cinemas/close-up");
-    return createIndependentEntry(
-      {
-        id: "close-up-cinema",
-        name: "Close-Up Cinema",
-        shortName: "Close-Up",
-        website: "https://www.closeupfilmcentre.com",
-        address: { street: "97 Sclater Street", area: "Shoreditch", postcode: "E1 6HR" },
-        features: ["independent", "repertory", "filmmaker-seasons"],
-      },
-      false,
-      async () => new CloseUpCinemaScraper()
-    );
-  },
-
-  "cine-lumiere": async () => {
-    const { CineLumiereScraper } = await import("@/scrapers/cinemas/cine-lumiere");
-    return createIndependentEntry(
-      {
-        id: "cine-lumiere",
-        name: "Cine Lumiere",
-        shortName: "Cine Lumiere",
-        website: "https://www.institut-francais.org.uk/cine-lumiere/",
-        address: { street: "17 Queensberry Place", area: "South Kensington", postcode: "SW7 2DT" },
-        features: ["independent", "french-cinema", "world-cinema"],
-      },
-      false,
-      async () => new CineLumiereScraper()
-    );
-  },
-
-  "castle-sidcup": async () => {
-    const { createCastleSidcupScraper } = await import("@/scrapers/cinemas/castle-sidcup");
-    return createIndependentEntry(
-      {
-        id: "castle-sidcup",
-        name: "Castle Sidcup",
-        shortName: "Castle Sidcup",
-        website: "https://thecastlecinema.com/sidcup",
-        address: { street: "44 Main Road", area: "Sidcup", postcode: "DA14 6NJ" },
-        features: ["independent", "community"],
-      },
-      false,
-      async () => createCastleSidcupScraper()
-    );
-  },
-
-  "arthouse-crouch-end": async () => {
-    const { createArtHouseCrouchEndScraper } = await import("@/scrapers/cinemas/arthouse-crouch-end");
-    return createIndependentEntry(
-      {
-        id: "arthouse-crouch-end",
-        name: "ArtHouse Crouch End",
-        shortName: "ArtHouse",
-        website: "https://arthousecrouchend.co.uk",
-        address: { street: "159a Tottenham Lane", area: "Crouch End", postcode: "N8 9BT" },
-        features: ["independent", "community", "single-screen"],
-      },
-      false,
-      async () => createArtHouseCrouchEndScraper()
-    );
-  },
-
-  "coldharbour-blue": async () => {
-    const { createColdharbourBlueScraper } = await import("@/scrapers/cinemas/coldharbour-blue");
-    return createIndependentEntry(
-      {
-        id: "coldharbour-blue",
-        name: "Coldharbour Blue",
-        shortName: "Coldharbour",
-        website: "https://www.coldharbourblue.com",
-        address: { street: "259-260 Hardess Street", area: "Loughborough Junction", postcode: "SE24 0HN" },
-        features: ["independent", "community", "bar"],
-      },
-      false,
-      async () => createColdharbourBlueScraper()
-    );
-  },
-
-  "olympic-studios": async () => {
-    const { createOlympicScraper } = await import("@/scrapers/cinemas/olympic");
-    return createIndependentEntry(
-      {
-        id: "olympic-studios",
-        name: "Olympic Studios",
-        shortName: "Olympic",
-        website: "https://olympiccinema.co.uk",
-        address: { street: "117-123 Church Road", area: "Barnes", postcode: "SW13 9HL" },
-        features: ["independent", "luxury", "bar", "restaurant"],
-      },
-      false,
-      async () => createOlympicScraper()
-    );
-  },
-
-  "david-lean-cinema": async () => {
-    const { createDavidLeanScraper } = await import("@/scrapers/cinemas/david-lean");
-    return createIndependentEntry(
-      {
-        id: "david-lean-cinema",
-        name: "The David Lean Cinema",
-        shortName: "David Lean",
-        website: "https://www.davidleancinema.org.uk",
-        address: { street: "Croydon Clocktower", area: "Croydon", postcode: "CR9 1ET" },
-        features: ["independent", "community", "repertory"],
-      },
-      false,
-      async () => createDavidLeanScraper()
-    );
-  },
-
-  "riverside-studios": async () => {
-    const { createRiversideStudiosScraper } = await import("@/scrapers/cinemas/riverside-studios");
-    return createIndependentEntry(
-      {
-        id: "riverside-studios",
-        name: "Riverside Studios",
-        shortName: "Riverside",
-        website: "https://riversidestudios.co.uk",
-        address: { street: "101 Queen Caroline Street", area: "Hammersmith", postcode: "W6 9BN" },
-        features: ["arts-centre", "independent", "theatre"],
-      },
-      false,
-      async () => createRiversideStudiosScraper()
-    );
-  },
-
-  // ============================================================================
-  // Playwright-based Cinemas (require browser - won't work on Vercel serverless)
-  // ============================================================================
-  "bfi-southbank": async () => {
-    const { createBFIScraper } = await import("@/scrapers/cinemas/bfi");
-    return createIndependentEntry(
-      {
-        id: "bfi-southbank",
-        name: "BFI Southbank",
-        shortName: "BFI",
-        website: "https://www.bfi.org.uk/bfi-southbank",
-        address: { street: "Belvedere Road", area: "South Bank", postcode: "SE1 8XT" },
-        features: ["independent", "repertory", "archive", "world-cinema"],
-      },
-      true, // Requires Playwright
-      async () => createBFIScraper("bfi-southbank")
-    );
-  },
-
-  "barbican": async () => {
-    const { createBarbicanScraper } = await import("@/scrapers/cinemas/barbican");
-    return createIndependentEntry(
-      {
-        id: "barbican",
-        name: "Barbican Cinema",
-        shortName: "Barbican",
-        website: "https://www.barbican.org.uk",
-        address: { street: "Silk Street", area: "City of London", postcode: "EC2Y 8DS" },
-        features: ["arts-centre", "repertory", "world-cinema", "accessible"],
-      },
-      true, // Requires Playwright
-      async () => createBarbicanScraper()
-    );
-  },
-
-  "electric-portobello": async () => {
-    const { createElectricScraper } = await import("@/scrapers/cinemas/electric");
-    return createIndependentEntry(
-      {
-        id: "electric-portobello",
-        name: "Electric Cinema Portobello",
-        shortName: "Electric",
-        website: "https://www.electriccinema.co.uk",
-        address: { street: "191 Portobello Road", area: "Notting Hill", postcode: "W11 2ED" },
-        features: ["independent", "luxury", "historic", "bar"],
-      },
-      true, // Requires Playwright
-      async () => createElectricScraper()
-    );
-  },
-
-  "lexi": async () => {
-    const { createLexiScraper } = await import("@/scrapers/cinemas/lexi");
-    return createIndependentEntry(
-      {
-        id: "lexi",
-        name: "The Lexi Cinema",
-        shortName: "Lexi",
-        website: "https://thelexicinema.co.uk",
-        address: { street: "194B Chamberlayne Road", area: "Kensal Rise", postcode: "NW10 3JU" },
-        features: ["independent", "community", "charity", "art-deco"],
-      },
-      true, // Requires Playwright
-      async () => createLexiScraper()
-    );
-  },
-});
-
-// Chain cinema IDs map to their chain scraper
-const CHAIN_CINEMA_MAPPING: Record<string, string> = {
-  // Curzon venues
-  "curzon-soho": "curzon",
-  "curzon-mayfair": "curzon",
-  "curzon-bloomsbury": "curzon",
-  "curzon-victoria": "curzon",
-  "curzon-hoxton": "curzon",
-  "curzon-kingston": "curzon",
-  "curzon-aldgate": "curzon",
-  // Picturehouse venues
-  "picturehouse-central": "picturehouse",
-  "hackney-picturehouse": "picturehouse",
-  "crouch-end-picturehouse": "picturehouse",
-  "east-dulwich-picturehouse": "picturehouse",
-  "greenwich-picturehouse": "picturehouse",
-  "finsbury-park-picturehouse": "picturehouse",
-  "gate-picturehouse": "picturehouse",
-  "picturehouse-ritzy": "picturehouse",
-  "clapham-picturehouse": "picturehouse",
-  // Everyman venues
-  "everyman-belsize-park": "everyman",
-  "everyman-baker-street": "everyman",
-  "everyman-canary-wharf": "everyman",
-  "everyman-hampstead": "everyman",
-  "everyman-kings-cross": "everyman",
-  "everyman-maida-vale": "everyman",
-  "everyman-muswell-hill": "everyman",
-  "everyman-screen-on-the-green": "everyman",
-  "everyman-stratford": "everyman",
-};
+import { scheduleSlot } from "@/lib/scrape-schedule";
 
 /**
  * Inngest Function: Run Cinema Scraper
  *
  * Triggered by the "scraper/run" event.
- * Runs the appropriate scraper for the given cinema.
+ * Runs the registered scraper (see scrapers/registry.ts) for the given cinema.
+ *
+ * Note: browser-tier scrapers require Playwright, which isn't available on
+ * Vercel serverless - they report that and return without scraping.
+ *
+ * Concurrency: a venue is never scraped twice at once, and each scraper
+ * (i.e. each chain) runs at most SCRAPER_CONCURRENCY venues at a time so a
+ * fan-out doesn't hammer one booking site.
  */
+const SCRAPER_CONCURRENCY = 2;
+
 export const runCinemaScraper = inngest.createFunction(
   {
     id: "run-cinema-scraper",
     retries: 2,
+    concurrency: [
+      { key: "event.data.cinemaId", limit: 1 },
+      { key: "event.data.scraperId", limit: SCRAPER_CONCURRENCY },
+    ],
   },
   { event: "scraper/run" },
   async ({ event, step }) => {
-    const { cinemaId, scraperId, triggeredBy } = event.data;
+    const { triggeredBy } = event.data;
+    const cinemaId = resolveCinemaId(event.data.cinemaId);
     const startTime = Date.now();
 
     console.log(`[Inngest] Starting scraper for ${cinemaId} (triggered by ${triggeredBy})`);
 
-    // Check if this is a chain cinema
-    const chainId = CHAIN_CINEMA_MAPPING[cinemaId];
-    if (chainId) {
-      // Chain cinemas require Playwright, which doesn't work on Vercel serverless
-      return {
-        cinemaId,
-        scraperId,
-        triggeredBy,
-        success: false,
-        error: `Chain cinema ${cinemaId} requires Playwright which is not available on Vercel serverless. Run the chain scraper (${chainId}) from a local machine or dedicated server.`,
-        requiresPlaywright: true,
-        durationMs: Date.now() - startTime,
-      };
-    }
-
-    // Get the scraper entry
-    const registry = getScraperRegistry();
-    const getEntry = registry[cinemaId];
-
-    if (!getEntry) {
+    const scraper = getScraperForCinema(cinemaId);
+    if (!scraper) {
       return {
         cinemaId,
-        scraperId,
+        scraperId: event.data.scraperId,
         triggeredBy,
         success: false,
         error: `No scraper configured for cinema: ${cinemaId}`,
@@ -525,45 +48,57 @@ export const runCinemaScraper = inngest.createFunction(
       };
     }
 
-    // Load the scraper entry
-    const entry = await step.run("load-scraper", async () => {
-      const e = await getEntry();
-      return {
-        requiresPlaywright: e.requiresPlaywright,
-        venueName: e.venue.name,
-      };
-    });
+    const scraperId = scraper.id;
 
-    // Check if Playwright is required
-    if (entry.requiresPlaywright) {
+    if (scraper.tier === "browser") {
       return {
         cinemaId,
         scraperId,
         triggeredBy,
         success: false,
-        error: `${entry.venueName} scraper requires Playwright which is not available on Vercel serverless. Run this scraper from a local machine or dedicated server.`,
+        error: `${scraper.name} scraper requires Playwright which is not available on Vercel serverless. Run it with \`npm run scrape ${scraperId}\` from a local machine or dedicated server.`,
         requiresPlaywright: true,
         durationMs: Date.now() - startTime,
       };
     }
 
-    // Run the scraper
+    // Run the scraper for this venue only - Inngest retries the step, so the
+    // runner makes a single attempt
     const result = await step.run("run-scraper", async () => {
-      const scraperEntry = await getEntry();
-      const results = await scraperEntry.scrape();
-      const totalAdded = results.reduce((sum, r) => sum + r.added, 0);
-      const totalUpdated = results.reduce((sum, r) => sum + r.updated, 0);
-      const totalFailed = results.reduce((sum, r) => sum + r.failed, 0);
+      const config = await scraper.createConfig();
+      const run = await runScraper(config, {
+        useValidation: true,
+        ...scraper.runnerOptions,
+        venueIds: [cinemaId],
+        retryAttempts: 0,
+      });
+
+      const failed = run.venueResults.filter((r) => !r.success);
+      if (failed.length > 0) {
+        throw new Error(failed.map((r) => `${r.venueId}: ${r.error}`).join("; "));
+      }
+
+      const venues = run.venueResults.map((r) => ({
+        venueId: r.venueId,
+        added: r.screeningsAdded,
+        updated: r.screeningsUpdated,
+        failed: r.screeningsFailed,
+      }));
       return {
-        venues: results,
-        totalAdded,
-        totalUpdated,
-        totalFailed,
+        venues,
+        totalAdded: venues.reduce((sum, r) => sum + r.added, 0),
+        totalUpdated: venues.reduce((sum, r) => sum + r.updated, 0),
+        totalFailed: venues.reduce((sum, r) => sum + r.failed, 0),
       };
     });
 
     console.log(`[Inngest] Scraper completed for ${cinemaId}:`, result);
 
+    await step.sendEvent("scraper-completed", {
+      name: "scraper/completed",
+      data: { cinemaId, scraperId, added: result.totalAdded, updated: result.totalUpdated },
+    });
+
     return {
       cinemaId,
       scraperId,
@@ -581,39 +116,249 @@ export const runCinemaScraper = inngest.createFunction(
 /**
  * Inngest Function: Scheduled Scrape All
  *
- * Runs daily at 6:00 AM UTC to scrape all Cheerio-based cinemas.
- * Fans out to individual scraper runs via events.
+ * Runs hourly and scrapes the venues of "scheduled" scrapers that are due,
+ * according to each cinema's scrape interval and recent activity
+ * (see lib/scrape-schedule.ts). Fans out to individual scraper runs via events,
+ * each with an ID per cinema and hourly slot so Inngest drops duplicate sends.
  */
 export const scheduledScrapeAll = inngest.createFunction(
   {
     id: "scheduled-scrape-all",
     retries: 0, // Don't retry the scheduler itself - individual scrapers have their own retries
   },
-  { cron: "0 6 * * *" }, // 6:00 AM UTC daily
+  { cron: "0 * * * *" }, // Hourly
   async ({ step }) => {
-    console.log(`[Inngest] Starting scheduled scrape for ${CHEERIO_CINEMAS.length} cinemas`);
+    const scraperIdByVenue = new Map(
+      getScrapersBySchedule("scheduled").flatMap((scraper) =>
+        scraper.venues.map((venue) => [venue.id, scraper.id] as const)
+      )
+    );
 
-    // Create events for all Cheerio-based scrapers
-    const events = CHEERIO_CINEMAS.map((cinemaId) => ({
-      name: "scraper/run" as const,
-      data: {
-        cinemaId,
-        scraperId: cinemaId,
-        triggeredBy: "scheduled-cron",
-      },
-    }));
+    const { slot, due } = await step.run("find-due-cinemas", async () => {
+      const { getCinemaScrapeSchedules } = await import("@/db/repositories/scrape-schedule");
+      const now = new Date();
+      const schedules = await getCinemaScrapeSchedules([...scraperIdByVenue.keys()], now);
+      return {
+        slot: scheduleSlot(now),
+        due: schedules
+          .filter((schedule) => schedule.due)
+          .map(({ cinemaId, intervalHours, reason }) => ({ cinemaId, intervalHours, reason })),
+      };
+    });
 
-    // Fan out to individual scraper runs
-    await step.sendEvent("trigger-scrapers", events);
+    console.log(
+      `[Inngest] ${due.length} of ${scraperIdByVenue.size} scheduled cinemas due for a scrape`
+    );
+
+    if (due.length > 0) {
+      const events = due.map(({ cinemaId }) => ({
+        id: `scheduled-scrape-${cinemaId}-${slot}`,
+        name: "scraper/run" as const,
+        data: {
+          cinemaId,
+          scraperId: scraperIdByVenue.get(cinemaId)!,
+          triggeredBy: "scheduled-cron",
+        },
+      }));
+
+      // Fan out to individual scraper runs
+      await step.sendEvent("trigger-scrapers", events);
+    }
 
     return {
-      triggered: CHEERIO_CINEMAS.length,
-      cinemas: CHEERIO_CINEMAS,
+      triggered: due.length,
+      cinemas: due,
+      slot,
       scheduledAt: new Date().toISOString(),
     };
   }
 );
 
+/**
+ * Inngest Function: Check Seat Availability
+ *
+ * Triggered by the "availability/check" event.
+ * Polls a cinema's booking system for the screenings due a check and emits
+ * "screening/availability-changed" for each one that started selling fast,
+ * sold out or has returns. Concurrency mirrors runCinemaScraper.
+ */
+export const runAvailabilityCheck = inngest.createFunction(
+  {
+    id: "run-availability-check",
+    retries: 1,
+    concurrency: [
+      { key: "event.data.cinemaId", limit: 1 },
+      { key: "event.data.scraperId", limit: SCRAPER_CONCURRENCY },
+    ],
+  },
+  { event: "availability/check" },
+  async ({ event, step }) => {
+    const { cinemaId, scraperId, triggeredBy } = event.data;
+
+    const result = await step.run("check-availability", async () => {
+      const { checkAvailability } = await import("@/scrapers/availability");
+      const [venueResult] = await checkAvailability(scraperId, [cinemaId]);
+      return venueResult;
+    });
+
+    const alerts = result.changes.filter((change) => change.transition !== null);
+    if (alerts.length > 0) {
+      await step.sendEvent(
+        "emit-availability-changes",
+        alerts.map((change) => ({
+          name: "screening/availability-changed" as const,
+          data: {
+            screeningId: change.screeningId,
+            cinemaId: change.cinemaId,
+            filmId: change.filmId,
+            datetime: change.datetime,
+            from: change.from,
+            to: change.to,
+            transition: change.transition!,
+          },
+        }))
+      );
+    }
+
+    return {
+      cinemaId,
+      scraperId,
+      triggeredBy,
+      checked: result.checked,
+      missing: result.missing,
+      changed: result.changes.length,
+      alerts: alerts.length,
+    };
+  }
+);
+
+/**
+ * Inngest Function: Scheduled Availability Check
+ *
+ * Runs every 15 minutes and fans out an availability check to each cinema
+ * with screenings due one (see lib/availability.ts). Only HTTP-tier chains -
+ * Curzon needs Playwright and is checked with `npm run scrape:availability`.
+ */
+export const scheduledAvailabilityCheck = inngest.createFunction(
+  {
+    id: "scheduled-availability-check",
+    retries: 0,
+  },
+  { cron: "*/15 * * * *" },
+  async ({ step }) => {
+    const due = await step.run("find-due-cinemas", async () => {
+      const { getAvailabilityVenues } = await import("@/scrapers/availability");
+      const { getAvailabilityTargets } = await import("@/db/repositories/availability");
+
+      const venues = getAvailabilityVenues("http");
+      const targets = await getAvailabilityTargets(venues.map((v) => v.cinemaId));
+      const dueCinemaIds = new Set(targets.map((t) => t.cinemaId));
+
+      return venues
+        .filter((v) => dueCinemaIds.has(v.cinemaId))
+        .map(({ cinemaId, scraperId }) => ({ cinemaId, scraperId }));
+    });
+
+    if (due.length > 0) {
+      await step.sendEvent(
+        "trigger-availability-checks",
+        due.map(({ cinemaId, scraperId }) => ({
+          name: "availability/check" as const,
+          data: { cinemaId, scraperId, triggeredBy: "scheduled-cron" },
+        }))
+      );
+    }
+
+    return {
+      triggered: due.length,
+      cinemas: due.map((d) => d.cinemaId),
+      scheduledAt: new Date().toISOString(),
+    };
+  }
+);
+
+/**
+ * Inngest Function: Send Watchlist Digests
+ *
+ * Runs once scraping settles - debounced on scraper completions and
+ * availability changes, so an hourly wave of scrapes sends one round of
+ * digests. Each user gets at most one digest per MIN_DIGEST_INTERVAL_HOURS
+ * (see lib/notifications/send-digests.ts).
+ */
+export const sendNotificationDigests = inngest.createFunction(
+  {
+    id: "send-notification-digests",
+    retries: 1,
+    debounce: { period: "30m", timeout: "3h" },
+  },
+  [{ event: "scraper/completed" }, { event: "screening/availability-changed" }],
+  async ({ step }) => {
+    const result = await step.run("send-digests", async () => {
+      const { sendWatchlistDigests } = await import("@/lib/notifications/send-digests");
+      return sendWatchlistDigests();
+    });
+
+    return { success: result.failed === 0, ...result };
+  }
+);
+
+/**
+ * Inngest Function: Scheduled Festival Alerts
+ *
+ * Runs hourly: spots programme announcements and sends followers their
+ * sale, programme and booked-screening alerts
+ * (see lib/notifications/send-festival-alerts.ts).
+ */
+export const scheduledFestivalAlerts = inngest.createFunction(
+  {
+    id: "scheduled-festival-alerts",
+    retries: 1,
+  },
+  { cron: "30 * * * *" },
+  async ({ step }) => {
+    const result = await step.run("send-festival-alerts", async () => {
+      const { sendFestivalAlerts } = await import("@/lib/notifications/send-festival-alerts");
+      return sendFestivalAlerts();
+    });
+
+    return { success: result.failed === 0, ...result };
+  }
+);
+
+/**
+ * Inngest Function: Retry Account Deletion
+ *
+ * Triggered when an account deletion's PostHog or Clerk step failed. Retries
+ * each failed step with Inngest's backoff, and updates the deletion receipt
+ * as each one succeeds (see lib/account-deletion.ts).
+ */
+export const retryAccountDeletion = inngest.createFunction(
+  {
+    id: "retry-account-deletion",
+    retries: 10,
+  },
+  { event: "account/deletion.retry" },
+  async ({ event, step }) => {
+    const { receiptId, userId, steps } = event.data;
+
+    const posthogStatus = steps.includes("posthog")
+      ? await step.run("delete-posthog-person", async () => {
+          const { retryPostHogDeletion } = await import("@/lib/account-deletion");
+          return retryPostHogDeletion(receiptId, userId);
+        })
+      : undefined;
+
+    const accountStatus = steps.includes("account")
+      ? await step.run("delete-clerk-user", async () => {
+          const { retryAuthAccountDeletion } = await import("@/lib/account-deletion");
+          return retryAuthAccountDeletion(receiptId, userId);
+        })
+      : undefined;
+
+    return { success: true, receiptId, posthogStatus, accountStatus };
+  }
+);
+
 /**
  * Inngest Function: Handle Function Failures
  *
@@ -815,7 +560,7 @@ export const scheduledBFIChanges = inngest.createFunction(
 /**
  * Inngest Function: Scheduled Letterboxd Enrichment
  *
- * Runs daily at 8:00 AM UTC (after scrapers complete) to enrich films with Letterboxd ratings.
+ * Runs daily at 8:00 AM UTC to enrich films with Letterboxd ratings.
  * Processes films with upcoming screenings that don't have ratings yet.
  * Limited to 100 films per run to avoid hitting rate limits.
  */
@@ -824,7 +569,7 @@ export const scheduledLetterboxdEnrichment = inngest.createFunction(
     id: "scheduled-letterboxd-enrichment",
     retries: 1,
   },
-  { cron: "0 8 * * *" }, // 8:00 AM UTC daily (2 hours after scrapers)
+  { cron: "0 8 * * *" }, // 8:00 AM UTC daily
   async ({ step }) => {
     console.log("[Inngest] Starting scheduled Letterboxd enrichment...");
 
@@ -845,6 +590,38 @@ export const scheduledLetterboxdEnrichment = inngest.createFunction(
   }
 );
 
+/**
+ * Inngest Function: Scheduled Cinema Baseline Recalculation
+ *
+ * Runs daily at 5:00 AM UTC to recompute rolling
+ * weekday/weekend screening averages per cinema. Baselines drive scrape-diff
+ * blocking and the admin anomalies page. Manual overrides are left alone.
+ */
+export const scheduledBaselineRecalculation = inngest.createFunction(
+  {
+    id: "scheduled-baseline-recalculation",
+    retries: 1,
+  },
+  { cron: "0 5 * * *" }, // 5:00 AM UTC daily
+  async ({ step }) => {
+    console.log("[Inngest] Starting cinema baseline recalculation...");
+
+    const result = await step.run("recalculate-baselines", async () => {
+      const { recalculateCinemaBaselines } = await import("@/db/repositories/cinema-baseline");
+      return recalculateCinemaBaselines();
+    });
+
+    console.log("[Inngest] Baseline recalculation complete:", result);
+
+    return {
+      success: true,
+      updated: result.updated,
+      skippedManual: result.skippedManual,
+      insufficientData: result.insufficientData,
+    };
+  }
+);
+
 // Export all functions for the serve handler
 export const functions = [
   runCinemaScraper,
@@ -853,4 +630,10 @@ export const functions = [
   scheduledBFIPDFImport,
   scheduledBFIChanges,
   scheduledLetterboxdEnrichment,
+  scheduledBaselineRecalculation,
+  runAvailabilityCheck,
+  scheduledAvailabilityCheck,
+  sendNotificationDigests,
+  scheduledFestivalAlerts,
+  retryAccountDeletion,
 ];
@@ -0,0 +1,198 @@
+/**
+ * Account Data Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  buildAccountExportBundle,
+  buildAccountExportCsvs,
+  buildDeletionReceipt,
+  hashSubject,
+  updateDeletionReceiptStatus,
+  verifyDeletionReceipt,
+  type AccountExport,
+} from "./account-data";
+import { parseCsv } from "./letterboxd/csv";
+
+const EXPORT: AccountExport = {
+  exportedAt: new Date("2026-10-18T12:00:00Z"),
+  profile: { id: "user_1", email: "a@example.com", displayName: "A", createdAt: new Date("2026-01-01T00:00:00Z") },
+  filmStatuses: [
+    {
+      filmId: "film-1",
+      filmTitle: "Stalker",
+      filmYear: 1979,
+      status: "seen",
+      rating: 4.5,
+      notes: "Long, slow, \"perfect\"",
+      addedAt: new Date("2026-10-01T00:00:00Z"),
+      seenAt: new Date("2026-10-02T00:00:00Z"),
+      seenCinemaName: "BFI Southbank",
+      seenFormat: "35mm",
+      updatedAt: new Date("2026-10-02T00:00:00Z"),
+    },
+  ],
+  preferences: null,
+  notificationSettings: null,
+  festivalInterests: [],
+  festivalSchedule: [
+    {
+      festivalName: "LFF",
+      filmTitle: "Opening Gala",
+      datetime: new Date("2026-10-08T18:00:00Z"),
+      cinemaName: "Royal Festival Hall",
+      status: "booked",
+      bookingConfirmation: "ABC123",
+      notes: null,
+      createdAt: new Date("2026-09-01T00:00:00Z"),
+    },
+  ],
+  plannedScreenings: [],
+  watchGroups: [],
+  hasCalendarFeed: false,
+};
+
+const RECEIPT_INPUT = {
+  userId: "user_1",
+  source: "self_service" as const,
+  requestedAt: new Date("2026-10-18T12:00:00Z"),
+  completedAt: new Date("2026-10-18T12:00:01Z"),
+  rowsDeleted: { users: 1, user_film_statuses: 3 },
+  rowsAnonymised: { watch_group_proposals: 1 },
+  posthogStatus: "deleted" as const,
+  accountStatus: "deleted" as const,
+};
+
+describe("buildAccountExportCsvs", () => {
+  it("writes ratings, notes and the festival schedule as CSV rows", () => {
+    const csvs = buildAccountExportCsvs(EXPORT);
+
+    const statuses = parseCsv(csvs["film-statuses.csv"]);
+    expect(statuses).toHaveLength(2);
+    expect(statuses[1]).toEqual([
+      "film-1",
+      "Stalker",
+      "1979",
+      "seen",
+      "4.5",
+      'Long, slow, "perfect"',
+      "2026-10-01T00:00:00.000Z",
+      "2026-10-02T00:00:00.000Z",
+      "BFI Southbank",
+      "35mm",
+      "2026-10-02T00:00:00.000Z",
+    ]);
+
+    const schedule = parseCsv(csvs["festival-schedule.csv"]);
+    expect(schedule[1].slice(0, 6)).toEqual([
+      "LFF",
+      "Opening Gala",
+      "2026-10-08T18:00:00.000Z",
+      "Royal Festival Hall",
+      "booked",
+      "ABC123",
+    ]);
+  });
+
+  it("still writes headers for empty lists", () => {
+    const csvs = buildAccountExportCsvs(EXPORT);
+    expect(parseCsv(csvs["planned-screenings.csv"])).toEqual([["Film", "Screening", "Cinema", "Status", "Added"]]);
+    expect(parseCsv(csvs["preferences.csv"])).toEqual([["Group", "Setting", "Value"]]);
+  });
+});
+
+describe("buildAccountExportBundle", () => {
+  it("includes account.json and every CSV", () => {
+    const text = new TextDecoder().decode(buildAccountExportBundle(EXPORT));
+
+    for (const name of ["account.json", "film-statuses.csv", "festival-schedule.csv", "preferences.csv"]) {
+      expect(text).toContain(name);
+    }
+    expect(text).toContain('"filmTitle": "Stalker"');
+  });
+});
+
+describe("deletion receipts", () => {
+  beforeEach(() => {
+    vi.stubEnv("DELETION_RECEIPT_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("stores a hash of the user ID, not the ID", () => {
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+
+    expect(receipt.subjectHash).toBe(hashSubject("user_1"));
+    expect(JSON.stringify(receipt)).not.toContain("user_1");
+  });
+
+  it("verifies an untouched receipt, and for its own user only", () => {
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+
+    expect(verifyDeletionReceipt(receipt)).toBe(true);
+    expect(verifyDeletionReceipt(receipt, "user_1")).toBe(true);
+    expect(verifyDeletionReceipt(receipt, "user_2")).toBe(false);
+  });
+
+  it("doesn't depend on the order of the row counts", () => {
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+    const reordered = { ...receipt, rowsDeleted: { user_film_statuses: 3, users: 1 } };
+
+    expect(verifyDeletionReceipt(reordered)).toBe(true);
+  });
+
+  it("fails verification once a field is changed", () => {
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+
+    expect(verifyDeletionReceipt({ ...receipt, rowsDeleted: { users: 1, user_film_statuses: 2 } })).toBe(false);
+    expect(verifyDeletionReceipt({ ...receipt, posthogStatus: "failed" })).toBe(false);
+    expect(verifyDeletionReceipt({ ...receipt, completedAt: new Date("2026-10-19T00:00:00Z") })).toBe(false);
+  });
+
+  it("signs the digest with the server secret", () => {
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+
+    vi.stubEnv("DELETION_RECEIPT_SECRET", "another-secret");
+    expect(verifyDeletionReceipt(receipt)).toBe(false);
+  });
+
+  it("builds an unsigned receipt without the secret, which never verifies", () => {
+    vi.stubEnv("DELETION_RECEIPT_SECRET", undefined);
+
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+
+    expect(receipt.digest).toBeNull();
+    expect(verifyDeletionReceipt(receipt)).toBe(false);
+    vi.stubEnv("DELETION_RECEIPT_SECRET", "test-secret");
+    expect(verifyDeletionReceipt(receipt)).toBe(false);
+  });
+
+  it("can't verify a signed receipt once the secret is gone", () => {
+    const receipt = buildDeletionReceipt(RECEIPT_INPUT);
+
+    vi.stubEnv("DELETION_RECEIPT_SECRET", "");
+    expect(verifyDeletionReceipt(receipt)).toBe(false);
+  });
+
+  it("re-signs a receipt when a retried step succeeds", () => {
+    const receipt = buildDeletionReceipt({ ...RECEIPT_INPUT, posthogStatus: "failed", accountStatus: "failed" });
+
+    const updated = updateDeletionReceiptStatus(receipt, { accountStatus: "deleted" });
+
+    expect(updated).toMatchObject({ id: receipt.id, posthogStatus: "failed", accountStatus: "deleted" });
+    expect(updated.digest).not.toBe(receipt.digest);
+    expect(verifyDeletionReceipt(updated)).toBe(true);
+  });
+
+  it("leaves an unsigned receipt unsigned when a retried step succeeds", () => {
+    vi.stubEnv("DELETION_RECEIPT_SECRET", undefined);
+    const receipt = buildDeletionReceipt({ ...RECEIPT_INPUT, accountStatus: "failed" });
+
+    vi.stubEnv("DELETION_RECEIPT_SECRET", "test-secret");
+    const updated = updateDeletionReceiptStatus(receipt, { accountStatus: "deleted" });
+
+    expect(updated).toMatchObject({ accountStatus: "deleted", digest: null });
+  });
+});
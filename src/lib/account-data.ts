@@ -0,0 +1,254 @@
+/**
+ * Account Data
+ * Builds the self-service data export bundle, and the receipts recorded when
+ * an account is deleted.
+ *
+ * A receipt's digest is an HMAC-SHA256 over its fields in a fixed order,
+ * keyed with DELETION_RECEIPT_SECRET, so the user can keep the receipt number
+ * and digest and check later that the stored record hasn't changed - and
+ * nobody without the key can write a receipt that passes. It holds a hash of
+ * the user ID, never the ID. Without the key a receipt is saved unsigned
+ * (null digest) and never verifies - the deletion itself doesn't wait on it.
+ */
+
+import { createHash, createHmac } from "crypto";
+import { toCsv } from "@/lib/letterboxd/csv";
+import { createZip } from "@/lib/zip";
+import type {
+  AccountDeletionReceiptSelect,
+  AccountDeletionSource,
+  AuthAccountDeletionStatus,
+  DeletionRowCounts,
+  FestivalInterestLevel,
+  FestivalScheduleStatus,
+  PlannedScreeningStatus,
+  PostHogDeletionStatus,
+  StoredFilters,
+  StoredPreferences,
+  WatchGroupRole,
+} from "@/db/schema";
+import type { FilmStatus } from "@/stores/film-status";
+
+export interface AccountExport {
+  exportedAt: Date;
+  profile: {
+    id: string;
+    email: string | null;
+    displayName: string | null;
+    createdAt: Date;
+  } | null;
+  filmStatuses: {
+    filmId: string;
+    filmTitle: string | null;
+    filmYear: number | null;
+    status: NonNullable<FilmStatus>;
+    rating: number | null;
+    notes: string | null;
+    addedAt: Date;
+    seenAt: Date | null;
+    seenCinemaName: string | null;
+    seenFormat: string | null;
+    updatedAt: Date;
+  }[];
+  preferences: {
+    preferences: StoredPreferences;
+    persistedFilters: StoredFilters;
+    updatedAt: Date;
+  } | null;
+  notificationSettings: {
+    newScreenings: boolean;
+    lastChance: boolean;
+    lastChanceDays: number;
+    sellingFast: boolean;
+  } | null;
+  festivalInterests: {
+    festivalId: string;
+    festivalName: string;
+    interestLevel: FestivalInterestLevel;
+    notifyOnSale: boolean;
+    notifyProgramme: boolean;
+    notifyReminders: boolean;
+    createdAt: Date;
+  }[];
+  festivalSchedule: {
+    festivalName: string;
+    filmTitle: string;
+    datetime: Date;
+    cinemaName: string;
+    status: FestivalScheduleStatus;
+    bookingConfirmation: string | null;
+    notes: string | null;
+    createdAt: Date;
+  }[];
+  plannedScreenings: {
+    filmTitle: string;
+    datetime: Date;
+    cinemaName: string;
+    status: PlannedScreeningStatus;
+    createdAt: Date;
+  }[];
+  watchGroups: {
+    name: string;
+    role: WatchGroupRole;
+    joinedAt: Date;
+  }[];
+  hasCalendarFeed: boolean;
+}
+
+function iso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * One CSV per list in the export (preferences are one key/value row each)
+ */
+export function buildAccountExportCsvs(data: AccountExport): Record<string, string> {
+  const preferenceRows = data.preferences
+    ? [
+        ...Object.entries(data.preferences.preferences).map(([key, value]) => ["preferences", key, JSON.stringify(value)]),
+        ...Object.entries(data.preferences.persistedFilters).map(([key, value]) => ["filters", key, JSON.stringify(value)]),
+      ]
+    : [];
+
+  return {
+    "film-statuses.csv": toCsv([
+      ["Film ID", "Title", "Year", "Status", "Rating", "Notes", "Added", "Seen", "Cinema", "Format", "Updated"],
+      ...data.filmStatuses.map((s) => [
+        s.filmId,
+        s.filmTitle,
+        s.filmYear,
+        s.status,
+        s.rating,
+        s.notes,
+        iso(s.addedAt),
+        iso(s.seenAt),
+        s.seenCinemaName,
+        s.seenFormat,
+        iso(s.updatedAt),
+      ]),
+    ]),
+    "festival-schedule.csv": toCsv([
+      ["Festival", "Film", "Screening", "Cinema", "Status", "Booking Confirmation", "Notes", "Added"],
+      ...data.festivalSchedule.map((s) => [
+        s.festivalName,
+        s.filmTitle,
+        iso(s.datetime),
+        s.cinemaName,
+        s.status,
+        s.bookingConfirmation,
+        s.notes,
+        iso(s.createdAt),
+      ]),
+    ]),
+    "festival-interests.csv": toCsv([
+      ["Festival", "Interest", "Notify On Sale", "Notify Programme", "Notify Reminders", "Added"],
+      ...data.festivalInterests.map((i) => [
+        i.festivalName,
+        i.interestLevel,
+        String(i.notifyOnSale),
+        String(i.notifyProgramme),
+        String(i.notifyReminders),
+        iso(i.createdAt),
+      ]),
+    ]),
+    "planned-screenings.csv": toCsv([
+      ["Film", "Screening", "Cinema", "Status", "Added"],
+      ...data.plannedScreenings.map((p) => [p.filmTitle, iso(p.datetime), p.cinemaName, p.status, iso(p.createdAt)]),
+    ]),
+    "preferences.csv": toCsv([["Group", "Setting", "Value"], ...preferenceRows]),
+  };
+}
+
+/**
+ * The export as a zip: everything in account.json, plus the lists as CSVs
+ */
+export function buildAccountExportBundle(data: AccountExport): Uint8Array {
+  const csvs = buildAccountExportCsvs(data);
+  return createZip(
+    [
+      { name: "account.json", content: JSON.stringify(data, null, 2) + "\n" },
+      ...Object.entries(csvs).map(([name, content]) => ({ name, content })),
+    ],
+    data.exportedAt
+  );
+}
+
+export type DeletionReceipt = Omit<AccountDeletionReceiptSelect, "digest">;
+
+export function hashSubject(userId: string): string {
+  return createHash("sha256").update(userId).digest("hex");
+}
+
+/** Row counts with their keys sorted, so the digest doesn't depend on order */
+function sortedCounts(counts: DeletionRowCounts): [string, number][] {
+  return Object.entries(counts).sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * The key receipt digests are signed with, or null when it isn't set
+ */
+export function getDeletionReceiptSecret(): string | null {
+  return process.env.DELETION_RECEIPT_SECRET || null;
+}
+
+/** The receipt's HMAC, or null when there's no key to sign it with */
+export function digestDeletionReceipt(receipt: DeletionReceipt): string | null {
+  const secret = getDeletionReceiptSecret();
+  if (!secret) return null;
+
+  const canonical = JSON.stringify([
+    receipt.id,
+    receipt.subjectHash,
+    receipt.source,
+    receipt.requestedAt.toISOString(),
+    receipt.completedAt.toISOString(),
+    sortedCounts(receipt.rowsDeleted),
+    sortedCounts(receipt.rowsAnonymised),
+    receipt.posthogStatus,
+    receipt.accountStatus,
+  ]);
+  return createHmac("sha256", secret).update(canonical).digest("hex");
+}
+
+export function buildDeletionReceipt(input: {
+  userId: string;
+  source: AccountDeletionSource;
+  requestedAt: Date;
+  completedAt: Date;
+  rowsDeleted: DeletionRowCounts;
+  rowsAnonymised: DeletionRowCounts;
+  posthogStatus: PostHogDeletionStatus;
+  accountStatus: AuthAccountDeletionStatus;
+}): AccountDeletionReceiptSelect {
+  const { userId, ...fields } = input;
+  const receipt: DeletionReceipt = {
+    id: crypto.randomUUID(),
+    subjectHash: hashSubject(userId),
+    ...fields,
+  };
+  return { ...receipt, digest: digestDeletionReceipt(receipt) };
+}
+
+/**
+ * The receipt with a PostHog or Clerk step's new status (after a retry),
+ * re-signed. An unsigned receipt stays unsigned - signing it now would vouch
+ * for fields nobody signed at the time.
+ */
+export function updateDeletionReceiptStatus(
+  receipt: AccountDeletionReceiptSelect,
+  status: { posthogStatus?: PostHogDeletionStatus; accountStatus?: AuthAccountDeletionStatus }
+): AccountDeletionReceiptSelect {
+  const updated = { ...receipt, ...status };
+  return { ...updated, digest: updated.digest === null ? null : digestDeletionReceipt(updated) };
+}
+
+/**
+ * Whether a stored receipt still matches its digest, and (if given) belongs
+ * to the user ID
+ */
+export function verifyDeletionReceipt(receipt: AccountDeletionReceiptSelect, userId?: string): boolean {
+  const { digest, ...fields } = receipt;
+  // Unsigned, or no key to check it with
+  if (digest === null || digestDeletionReceipt(fields) !== digest) return false;
+  return userId === undefined || hashSubject(userId) === receipt.subjectHash;
+}
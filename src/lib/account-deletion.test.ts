@@ -0,0 +1,67 @@
+/**
+ * Account Deletion Tests
+ * A missing receipt secret must never stop the user's data being erased
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/db/repositories", () => ({
+  deleteAccountData: vi.fn(),
+  saveDeletionReceipt: vi.fn(),
+  getDeletionReceipt: vi.fn(),
+  updateDeletionReceipt: vi.fn(),
+}));
+
+vi.mock("@/inngest/client", () => ({
+  inngest: { send: vi.fn() },
+}));
+
+vi.mock("@/lib/auth", () => ({
+  deleteClerkUser: vi.fn(),
+}));
+
+vi.mock("@/lib/posthog-api", () => ({
+  isPostHogApiConfigured: vi.fn(() => false),
+  deletePersonByDistinctId: vi.fn(),
+}));
+
+import { deleteAccount } from "./account-deletion";
+import { verifyDeletionReceipt } from "./account-data";
+import { deleteAccountData, saveDeletionReceipt } from "@/db/repositories";
+
+describe("deleteAccount", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(deleteAccountData).mockResolvedValue({
+      rowsDeleted: { users: 1, user_film_statuses: 4 },
+      rowsAnonymised: {},
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("erases the data and saves an unsigned receipt when the secret isn't set", async () => {
+    vi.stubEnv("DELETION_RECEIPT_SECRET", undefined);
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const receipt = await deleteAccount("user_1", "clerk_webhook");
+
+    expect(deleteAccountData).toHaveBeenCalledWith("user_1");
+    expect(receipt).toMatchObject({ rowsDeleted: { users: 1, user_film_statuses: 4 }, digest: null });
+    expect(saveDeletionReceipt).toHaveBeenCalledWith(receipt);
+    expect(verifyDeletionReceipt(receipt!)).toBe(false);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("DELETION_RECEIPT_SECRET is not set"));
+  });
+
+  it("signs the receipt when the secret is set", async () => {
+    vi.stubEnv("DELETION_RECEIPT_SECRET", "test-secret");
+
+    const receipt = await deleteAccount("user_1", "clerk_webhook");
+
+    expect(receipt?.digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyDeletionReceipt(receipt!, "user_1")).toBe(true);
+  });
+});
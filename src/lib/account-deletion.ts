@@ -0,0 +1,149 @@
+/**
+ * Account Deletion
+ * Removes everything we hold about a user - database rows, their PostHog
+ * person and (when they asked us, rather than Clerk telling us) their Clerk
+ * account - and records a receipt of what was removed. PostHog and Clerk
+ * steps that fail are retried in the background (the retry-account-deletion
+ * Inngest function), which updates the receipt once they succeed.
+ */
+
+import { isClerkAPIResponseError } from "@clerk/nextjs/errors";
+import type {
+  AccountDeletionReceiptSelect,
+  AccountDeletionSource,
+  AuthAccountDeletionStatus,
+  PostHogDeletionStatus,
+} from "@/db/schema";
+import {
+  deleteAccountData,
+  getDeletionReceipt,
+  saveDeletionReceipt,
+  updateDeletionReceipt,
+} from "@/db/repositories";
+import { inngest, type AccountDeletionRetryEvent } from "@/inngest/client";
+import { deleteClerkUser } from "@/lib/auth";
+import { deletePersonByDistinctId, isPostHogApiConfigured } from "@/lib/posthog-api";
+import { buildDeletionReceipt, updateDeletionReceiptStatus } from "@/lib/account-data";
+
+async function deletePostHogPerson(userId: string): Promise<PostHogDeletionStatus> {
+  if (!isPostHogApiConfigured()) return "skipped";
+  try {
+    return await deletePersonByDistinctId(userId);
+  } catch (error) {
+    console.error("[Account deletion] PostHog person deletion failed:", error);
+    return "failed";
+  }
+}
+
+async function deleteAuthAccount(
+  userId: string,
+  source: AccountDeletionSource
+): Promise<AuthAccountDeletionStatus> {
+  if (source === "clerk_webhook") return "already_deleted";
+  try {
+    await deleteClerkUser(userId);
+    return "deleted";
+  } catch (error) {
+    console.error("[Account deletion] Clerk user deletion failed:", error);
+    return "failed";
+  }
+}
+
+/**
+ * Delete the account and save its receipt.
+ * Returns null if there was nothing left to delete - the user.deleted
+ * webhook that follows a self-service deletion lands here.
+ */
+export async function deleteAccount(
+  userId: string,
+  source: AccountDeletionSource
+): Promise<AccountDeletionReceiptSelect | null> {
+  const requestedAt = new Date();
+
+  // Our data first: if anything later fails, the user's data is still gone
+  const { rowsDeleted, rowsAnonymised } = await deleteAccountData(userId);
+  const posthogStatus = await deletePostHogPerson(userId);
+  const accountStatus = await deleteAuthAccount(userId, source);
+
+  const removed =
+    Object.values(rowsDeleted).some((n) => n > 0) ||
+    Object.values(rowsAnonymised).some((n) => n > 0) ||
+    posthogStatus === "deleted";
+  if (source === "clerk_webhook" && !removed) {
+    return null;
+  }
+
+  const receipt = buildDeletionReceipt({
+    userId,
+    source,
+    requestedAt,
+    completedAt: new Date(),
+    rowsDeleted,
+    rowsAnonymised,
+    posthogStatus,
+    accountStatus,
+  });
+  if (receipt.digest === null) {
+    // The data is gone either way; the receipt just can't be verified
+    console.error(
+      `[Account deletion] DELETION_RECEIPT_SECRET is not set - receipt ${receipt.id} saved unsigned`
+    );
+  }
+  await saveDeletionReceipt(receipt);
+
+  const retry: AccountDeletionRetryEvent["data"]["steps"] = [];
+  if (posthogStatus === "failed") retry.push("posthog");
+  if (accountStatus === "failed") retry.push("account");
+  if (retry.length > 0) {
+    try {
+      await inngest.send({
+        name: "account/deletion.retry",
+        data: { receiptId: receipt.id, userId, steps: retry },
+      });
+    } catch (error) {
+      // The receipt still says which step failed
+      console.error("[Account deletion] Failed to schedule a retry:", error);
+    }
+  }
+
+  return receipt;
+}
+
+async function recordRetriedStatus(
+  receiptId: string,
+  status: Parameters<typeof updateDeletionReceiptStatus>[1]
+): Promise<void> {
+  const receipt = await getDeletionReceipt(receiptId);
+  if (!receipt) {
+    throw new Error(`Deletion receipt not found: ${receiptId}`);
+  }
+  await updateDeletionReceipt(updateDeletionReceiptStatus(receipt, status));
+}
+
+/**
+ * Retry deleting the PostHog person, and record it on the receipt.
+ * Throws while PostHog is still failing, so Inngest retries it.
+ */
+export async function retryPostHogDeletion(receiptId: string, userId: string): Promise<PostHogDeletionStatus> {
+  const posthogStatus = await deletePersonByDistinctId(userId);
+  await recordRetriedStatus(receiptId, { posthogStatus });
+  return posthogStatus;
+}
+
+/**
+ * Retry deleting the Clerk account, and record it on the receipt.
+ * Throws while Clerk is still failing, so Inngest retries it.
+ */
+export async function retryAuthAccountDeletion(
+  receiptId: string,
+  userId: string
+): Promise<AuthAccountDeletionStatus> {
+  try {
+    await deleteClerkUser(userId);
+  } catch (error) {
+    // Already gone - the earlier attempt went through, or the user deleted it in Clerk
+    if (!isClerkAPIResponseError(error) || error.status !== 404) throw error;
+  }
+  await recordRetriedStatus(receiptId, { accountStatus: "deleted" });
+  return "deleted";
+}
@@ -0,0 +1,17 @@
+/**
+ * Admin allowlist
+ * Plain module so server routes and the client PostHog provider share one list
+ */
+
+export const ADMIN_EMAILS = [
+  "jdwbarge@gmail.com",
+  // Add other admin emails here
+];
+
+/**
+ * Check if an email belongs to an admin
+ */
+export function isAdminEmail(email: string | undefined | null): boolean {
+  if (!email) return false;
+  return ADMIN_EMAILS.includes(email.toLowerCase());
+}
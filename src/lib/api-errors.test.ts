@@ -3,6 +3,7 @@ import {
   ApiError,
   UnauthorizedError,
   BadRequestError,
+  ForbiddenError,
   NotFoundError,
   RateLimitError,
   HttpStatus,
@@ -55,6 +56,14 @@ describe("ApiError classes", () => {
     });
   });
 
+  describe("ForbiddenError", () => {
+    it("should have 403 status code", () => {
+      const error = new ForbiddenError();
+      expect(error.statusCode).toBe(403);
+      expect(error.code).toBe("FORBIDDEN");
+    });
+  });
+
   describe("NotFoundError", () => {
     it("should have 404 status code", () => {
       const error = new NotFoundError();
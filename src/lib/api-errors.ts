@@ -52,6 +52,16 @@ export class BadRequestError extends ApiError {
   }
 }
 
+/**
+ * Forbidden error (403) - signed in, but not allowed to do this
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message = "Forbidden") {
+    super(message, HttpStatus.FORBIDDEN, "FORBIDDEN");
+    this.name = "ForbiddenError";
+  }
+}
+
 /**
  * Not found error (404)
  */
@@ -1,4 +1,5 @@
-import { auth } from "@clerk/nextjs/server";
+import { auth, clerkClient, currentUser } from "@clerk/nextjs/server";
+import { isAdminEmail } from "@/lib/admin";
 
 /**
  * Get the current user's ID, or null if not signed in.
@@ -21,6 +22,32 @@ export async function requireAuth(): Promise<string> {
   return userId;
 }
 
+/**
+ * Whether any of the signed-in user's emails is on the admin allowlist
+ */
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  const clerkUser = await currentUser();
+  return clerkUser?.emailAddresses.some((e) => isAdminEmail(e.emailAddress)) ?? false;
+}
+
+/**
+ * The signed-in user's name from Clerk, as stored in users.display_name
+ */
+export async function getCurrentUserDisplayName(): Promise<string | null> {
+  const clerkUser = await currentUser();
+  if (!clerkUser?.firstName) return null;
+  return `${clerkUser.firstName}${clerkUser.lastName ? ` ${clerkUser.lastName}` : ""}`;
+}
+
+/**
+ * Delete a user's Clerk account (signs them out everywhere).
+ * Clerk then sends a user.deleted webhook.
+ */
+export async function deleteClerkUser(userId: string): Promise<void> {
+  const client = await clerkClient();
+  await client.users.deleteUser(userId);
+}
+
 /**
  * Create a standardized unauthorized response
  */
@@ -0,0 +1,81 @@
+/**
+ * Seat Availability Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { addHours, subMinutes } from "date-fns";
+import {
+  availabilityCheckIntervalMinutes,
+  classifyAvailabilityTransition,
+  isAvailabilityCheckDue,
+  resolveAvailabilityStatus,
+  statusFromSeats,
+} from "./availability";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+describe("availabilityCheckIntervalMinutes", () => {
+  it.each([
+    [2, 15],
+    [6, 15],
+    [12, 30],
+    [48, 60],
+    [24 * 10, 240],
+  ])("checks a screening %i hours away every %i minutes", (hours, minutes) => {
+    expect(availabilityCheckIntervalMinutes(addHours(NOW, hours), NOW)).toBe(minutes);
+  });
+});
+
+describe("isAvailabilityCheckDue", () => {
+  const soon = addHours(NOW, 3);
+
+  it("is due when never checked", () => {
+    expect(isAvailabilityCheckDue(null, soon, NOW)).toBe(true);
+  });
+
+  it("waits for the interval, with a little slack", () => {
+    expect(isAvailabilityCheckDue(subMinutes(NOW, 5), soon, NOW)).toBe(false);
+    expect(isAvailabilityCheckDue(subMinutes(NOW, 13), soon, NOW)).toBe(true);
+    expect(isAvailabilityCheckDue(subMinutes(NOW, 30), addHours(NOW, 60), NOW)).toBe(false);
+  });
+});
+
+describe("statusFromSeats", () => {
+  it("maps seat counts to a status", () => {
+    expect(statusFromSeats(0, 200)).toBe("sold_out");
+    expect(statusFromSeats(12, 200)).toBe("low");
+    expect(statusFromSeats(25, 200)).toBe("low");
+    expect(statusFromSeats(25, null)).toBe("available");
+    expect(statusFromSeats(120, 200)).toBe("available");
+  });
+});
+
+describe("resolveAvailabilityStatus", () => {
+  it("treats seats on a sold-out screening as returns", () => {
+    expect(resolveAvailabilityStatus("sold_out", "available")).toBe("returns");
+    expect(resolveAvailabilityStatus("returns", "low")).toBe("returns");
+  });
+
+  it("otherwise stores what the booking system reports", () => {
+    expect(resolveAvailabilityStatus("returns", "sold_out")).toBe("sold_out");
+    expect(resolveAvailabilityStatus("available", "low")).toBe("low");
+    expect(resolveAvailabilityStatus(null, "available")).toBe("available");
+  });
+});
+
+describe("classifyAvailabilityTransition", () => {
+  it.each([
+    ["available", "low", "selling_fast"],
+    [null, "low", "selling_fast"],
+    ["low", "sold_out", "sold_out"],
+    ["sold_out", "returns", "returns_available"],
+  ] as const)("%s → %s is %s", (from, to, expected) => {
+    expect(classifyAvailabilityTransition(from, to)).toBe(expected);
+  });
+
+  it("ignores changes nobody needs telling about", () => {
+    expect(classifyAvailabilityTransition("low", "low")).toBeNull();
+    expect(classifyAvailabilityTransition("low", "available")).toBeNull();
+    expect(classifyAvailabilityTransition("unknown", "available")).toBeNull();
+  });
+});
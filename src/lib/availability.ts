@@ -0,0 +1,100 @@
+/**
+ * Seat Availability
+ *
+ * The daily scrape only sees availability once a day, which is too coarse for
+ * screenings that sell out in an afternoon. The availability checker (see
+ * scheduledAvailabilityCheck) polls booking systems for screenings in the next
+ * 72 hours and anything on a user's festival schedule, more often the closer
+ * a screening is. Status changes are recorded in screening_changes, and the
+ * notable ones ("selling fast", "returns available") are raised as events.
+ */
+
+import type { AvailabilityStatus } from "@/types/screening";
+
+/** Screenings starting within this many hours are polled */
+export const AVAILABILITY_WINDOW_HOURS = 72;
+
+/**
+ * Minutes between checks by hours until the screening starts, closest first.
+ * Festival schedule screenings beyond the window use the last entry.
+ */
+export const CHECK_INTERVALS: { withinHours: number; minutes: number }[] = [
+  { withinHours: 6, minutes: 15 },
+  { withinHours: 24, minutes: 30 },
+  { withinHours: AVAILABILITY_WINDOW_HOURS, minutes: 60 },
+  { withinHours: Infinity, minutes: 240 },
+];
+
+/** Seats left at or below which a screening counts as "low" */
+export const LOW_SEAT_COUNT = 15;
+
+/** Fraction of the screen left at or below which a screening counts as "low" */
+export const LOW_SEAT_FRACTION = 0.15;
+
+/**
+ * The checker runs every 15 minutes and runs take a while to start, so a
+ * screening counts as due slightly early rather than slipping a whole run
+ */
+const DUE_SLACK_MINUTES = 3;
+
+export type AvailabilityTransition = "selling_fast" | "sold_out" | "returns_available";
+
+/**
+ * Minutes between availability checks for a screening starting at `datetime`
+ */
+export function availabilityCheckIntervalMinutes(datetime: Date, now: Date): number {
+  const hoursUntil = (datetime.getTime() - now.getTime()) / 3_600_000;
+  return CHECK_INTERVALS.find((interval) => hoursUntil <= interval.withinHours)!.minutes;
+}
+
+/**
+ * Whether a screening last checked at `checkedAt` is due another check
+ */
+export function isAvailabilityCheckDue(checkedAt: Date | null, datetime: Date, now: Date): boolean {
+  if (!checkedAt) return true;
+
+  const elapsedMinutes = (now.getTime() - checkedAt.getTime()) / 60_000;
+  return elapsedMinutes >= availabilityCheckIntervalMinutes(datetime, now) - DUE_SLACK_MINUTES;
+}
+
+/**
+ * Status from a seat count, for booking systems that report one
+ */
+export function statusFromSeats(available: number, total?: number | null): AvailabilityStatus {
+  if (available <= 0) return "sold_out";
+  if (available <= LOW_SEAT_COUNT) return "low";
+  if (total && available / total <= LOW_SEAT_FRACTION) return "low";
+  return "available";
+}
+
+/**
+ * Status to store given the previous one and what the booking system reports
+ *
+ * Booking systems only say whether seats are left. Seats appearing on a
+ * screening that had sold out are returns, and it stays "returns" until it
+ * sells out again.
+ */
+export function resolveAvailabilityStatus(
+  previous: AvailabilityStatus | null,
+  observed: AvailabilityStatus
+): AvailabilityStatus {
+  const wasSoldOut = previous === "sold_out" || previous === "returns";
+  if (wasSoldOut && (observed === "available" || observed === "low")) return "returns";
+  return observed;
+}
+
+/**
+ * The change worth telling people about, if any
+ */
+export function classifyAvailabilityTransition(
+  previous: AvailabilityStatus | null,
+  next: AvailabilityStatus
+): AvailabilityTransition | null {
+  if (previous === next) return null;
+  if (next === "sold_out") return "sold_out";
+  if (next === "returns") return "returns_available";
+  if (next === "low" && (previous === null || previous === "available" || previous === "unknown")) {
+    return "selling_fast";
+  }
+  return null;
+}
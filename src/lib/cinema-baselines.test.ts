@@ -0,0 +1,132 @@
+/**
+ * Cinema Baseline Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  computeBaselineAverages,
+  evaluateAgainstBaseline,
+  getExpectedCount,
+  getExpectedCountForRange,
+  isLondonWeekend,
+  startOfLondonDay,
+  toDayKey,
+  MIN_SAMPLE_DAYS,
+} from "./cinema-baselines";
+
+/** Midnight on a March 2025 day (GMT, so London midnight too) */
+const march = (day: number) => new Date(Date.UTC(2025, 2, day));
+
+// Monday 3 March 2025 → Monday 17 March 2025 (two full weeks)
+const FROM = march(3);
+const TO = march(17);
+
+function countsFor(fn: (day: Date) => number, from = FROM, to = TO): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let day = from; day < to; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    counts.set(toDayKey(day), fn(day));
+  }
+  return counts;
+}
+
+describe("London days", () => {
+  it("keys instants by their London date, not the server's", () => {
+    // 23:30 UTC on Sunday 1 June is 00:30 on Monday 2 June in London (BST)
+    expect(toDayKey(new Date("2025-06-01T23:30:00Z"))).toBe("2025-06-02");
+    expect(isLondonWeekend(new Date("2025-06-01T23:30:00Z"))).toBe(false);
+    expect(isLondonWeekend(new Date("2025-06-01T22:30:00Z"))).toBe(true);
+  });
+
+  it("finds London midnight across the clock change", () => {
+    expect(startOfLondonDay(new Date("2025-03-29T12:00:00Z"))).toEqual(new Date("2025-03-29T00:00:00Z"));
+    expect(startOfLondonDay(new Date("2025-03-29T12:00:00Z"), 2)).toEqual(new Date("2025-03-30T23:00:00Z"));
+  });
+
+  it("averages London days across the clock change", () => {
+    // Saturday 29 March → Tuesday 1 April; the clocks go forward on the Sunday
+    const from = startOfLondonDay(new Date("2025-03-29T12:00:00Z"));
+    const to = startOfLondonDay(from, 4);
+    const counts = new Map([
+      ["2025-03-29", 20],
+      ["2025-03-30", 20],
+      ["2025-03-31", 10],
+      ["2025-04-01", 10],
+    ]);
+
+    expect(computeBaselineAverages(counts, from, to)).toMatchObject({ weekdaySamples: 2, weekendSamples: 2 });
+  });
+});
+
+describe("computeBaselineAverages", () => {
+  it("averages weekdays and weekends separately", () => {
+    const counts = countsFor((day) => (day.getUTCDay() === 0 || day.getUTCDay() === 6 ? 20 : 10));
+    const result = computeBaselineAverages(counts, FROM, TO);
+
+    expect(result).toEqual({ weekdayAvg: 10, weekendAvg: 20, weekdaySamples: 10, weekendSamples: 4 });
+  });
+
+  it("counts days with no screenings as zero once the cinema has history", () => {
+    // Closed on Mondays
+    const counts = countsFor((day) => (day.getUTCDay() === 1 ? 0 : 10));
+
+    // First Monday has no screenings, so history starts on Tuesday
+    const result = computeBaselineAverages(counts, FROM, TO);
+    expect(result.weekdaySamples).toBe(9);
+    expect(result.weekdayAvg).toBe(9);
+  });
+
+  it("ignores days before the cinema's first screening", () => {
+    const counts = countsFor(() => 12, march(10), TO);
+    const result = computeBaselineAverages(counts, FROM, TO);
+
+    expect(result.weekdayAvg).toBe(12);
+    expect(result.weekdaySamples).toBe(5);
+  });
+
+  it("returns null averages with too few samples", () => {
+    const counts = countsFor(() => 8, march(14), TO);
+    const result = computeBaselineAverages(counts, FROM, TO);
+
+    expect(result.weekendSamples).toBeLessThan(MIN_SAMPLE_DAYS);
+    expect(result.weekendAvg).toBeNull();
+    expect(result.weekdayAvg).toBeNull();
+  });
+});
+
+describe("getExpectedCount", () => {
+  const baseline = { weekdayAvg: 10, weekendAvg: 25, tolerancePercent: 30 };
+
+  it("picks the average for the day type", () => {
+    expect(getExpectedCount(baseline, march(5))).toBe(10);
+    expect(getExpectedCount(baseline, march(8))).toBe(25);
+  });
+
+  it("sums a range of days", () => {
+    expect(getExpectedCountForRange(baseline, FROM, 7)).toBe(5 * 10 + 2 * 25);
+  });
+
+  it("returns null for a range if any day type lacks a baseline", () => {
+    expect(getExpectedCountForRange({ ...baseline, weekendAvg: null }, FROM, 7)).toBeNull();
+  });
+});
+
+describe("evaluateAgainstBaseline", () => {
+  it("accepts counts within tolerance", () => {
+    expect(evaluateAgainstBaseline(8, 10, 30).status).toBe("ok");
+    expect(evaluateAgainstBaseline(12, 10, 30).status).toBe("ok");
+  });
+
+  it("flags zero and low counts", () => {
+    expect(evaluateAgainstBaseline(0, 10, 30).status).toBe("zero");
+    expect(evaluateAgainstBaseline(6, 10, 30)).toMatchObject({ status: "low", min: 7, percentChange: -40 });
+  });
+
+  it("does not flag low counts for tiny baselines", () => {
+    expect(evaluateAgainstBaseline(1, 2, 30).status).toBe("ok");
+  });
+
+  it("only flags high counts well above the expectation", () => {
+    expect(evaluateAgainstBaseline(15, 10, 30).status).toBe("ok");
+    expect(evaluateAgainstBaseline(25, 10, 30).status).toBe("high");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Cinema Baselines
+ *
+ * Rolling expected screening counts per cinema, split into weekdays and
+ * weekends. Computed nightly from recent screenings (see
+ * recalculateCinemaBaselines) and used by scrape-diff blocking and the
+ * admin anomalies page.
+ */
+
+import { parseZonedDateTime } from "@/scrapers/utils/date-parser";
+
+/** Weeks of history used for the rolling averages */
+export const BASELINE_WINDOW_WEEKS = 4;
+
+/** Minimum days of a type before an average is trusted */
+export const MIN_SAMPLE_DAYS = 3;
+
+/** Tolerance used when a cinema has no configured value */
+export const DEFAULT_TOLERANCE_PERCENT = 30;
+
+/** Below this many expected screenings, low counts are not flagged */
+const MIN_EXPECTED_FOR_LOW = 3;
+
+/** A high count must also exceed the expectation by this many screenings */
+const MIN_EXCESS_FOR_HIGH = 10;
+
+export interface BaselineAverages {
+  weekdayAvg: number | null;
+  weekendAvg: number | null;
+  weekdaySamples: number;
+  weekendSamples: number;
+}
+
+export interface BaselineThresholds {
+  weekdayAvg: number | null;
+  weekendAvg: number | null;
+  tolerancePercent: number;
+}
+
+export type BaselineStatus = "ok" | "zero" | "low" | "high";
+
+export interface BaselineEvaluation {
+  status: BaselineStatus;
+  expected: number;
+  min: number;
+  max: number;
+  percentChange: number;
+}
+
+/**
+ * London calendar day of an instant, as used for per-day counts (matches the
+ * SQL date grouping, whatever timezone the server runs in)
+ */
+export function toDayKey(date: Date): string {
+  return date.toLocaleDateString("en-CA", { timeZone: "Europe/London" });
+}
+
+/** Day key `days` calendar days after `key` */
+function addDaysToKey(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function isWeekendKey(key: string): boolean {
+  const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Midnight in London at the start of the London day containing `date`,
+ * moved on `days` calendar days (so DST changes don't shift it off midnight)
+ */
+export function startOfLondonDay(date: Date, days = 0): Date {
+  return parseZonedDateTime(`${addDaysToKey(toDayKey(date), days)}T00:00`)!;
+}
+
+/**
+ * Whether the London day containing `date` is a Saturday or Sunday
+ */
+export function isLondonWeekend(date: Date): boolean {
+  return isWeekendKey(toDayKey(date));
+}
+
+/**
+ * Average screenings per weekday / weekend London day over [from, to)
+ *
+ * Days before the cinema's first screening in the window are ignored, so a
+ * recently added cinema isn't averaged down by days we never scraped. Days
+ * after that with no screenings count as zero (e.g. closed on Mondays).
+ */
+export function computeBaselineAverages(
+  dailyCounts: Map<string, number>,
+  from: Date,
+  to: Date
+): BaselineAverages {
+  let weekdayTotal = 0;
+  let weekendTotal = 0;
+  let weekdaySamples = 0;
+  let weekendSamples = 0;
+  let seenFirst = false;
+
+  const end = toDayKey(to);
+  for (let day = toDayKey(from); day < end; day = addDaysToKey(day, 1)) {
+    const count = dailyCounts.get(day) ?? 0;
+    if (!seenFirst && count === 0) continue;
+    seenFirst = true;
+
+    if (isWeekendKey(day)) {
+      weekendTotal += count;
+      weekendSamples++;
+    } else {
+      weekdayTotal += count;
+      weekdaySamples++;
+    }
+  }
+
+  return {
+    weekdayAvg: weekdaySamples >= MIN_SAMPLE_DAYS ? Math.round(weekdayTotal / weekdaySamples) : null,
+    weekendAvg: weekendSamples >= MIN_SAMPLE_DAYS ? Math.round(weekendTotal / weekendSamples) : null,
+    weekdaySamples,
+    weekendSamples,
+  };
+}
+
+/**
+ * Expected screening count for a single London day, or null without a baseline
+ */
+export function getExpectedCount(baseline: BaselineThresholds, date: Date): number | null {
+  return isLondonWeekend(date) ? baseline.weekendAvg : baseline.weekdayAvg;
+}
+
+/**
+ * Expected screening count summed over `days` London days starting with the
+ * day containing `from`. Returns null if any day has no baseline
+ */
+export function getExpectedCountForRange(
+  baseline: BaselineThresholds,
+  from: Date,
+  days: number
+): number | null {
+  let total = 0;
+  const first = toDayKey(from);
+  for (let i = 0; i < days; i++) {
+    const day = addDaysToKey(first, i);
+    const expected = isWeekendKey(day) ? baseline.weekendAvg : baseline.weekdayAvg;
+    if (expected === null) return null;
+    total += expected;
+  }
+  return total;
+}
+
+/**
+ * Compare an actual count with the expected count and tolerance
+ */
+export function evaluateAgainstBaseline(
+  actual: number,
+  expected: number,
+  tolerancePercent: number
+): BaselineEvaluation {
+  const min = Math.floor(expected * (1 - tolerancePercent / 100));
+  const max = Math.ceil(expected * (1 + tolerancePercent / 100));
+  const percentChange = expected > 0 ? ((actual - expected) / expected) * 100 : actual > 0 ? 100 : 0;
+
+  let status: BaselineStatus = "ok";
+  if (actual === 0 && expected > 0) {
+    status = "zero";
+  } else if (actual < min && expected >= MIN_EXPECTED_FOR_LOW) {
+    status = "low";
+  } else if (actual > max && actual >= expected + MIN_EXCESS_FOR_HIGH) {
+    status = "high";
+  }
+
+  return { status, expected, min, max, percentChange };
+}
@@ -0,0 +1,135 @@
+/**
+ * Festival Planner Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  detectClashes,
+  findGaps,
+  suggestAlternatives,
+  venueHops,
+  type PlannerScreening,
+} from "./festival-planner";
+
+const NOW = new Date("2026-10-01T09:00:00Z");
+
+function screening(
+  id: string,
+  time: string,
+  overrides: Partial<PlannerScreening> = {}
+): PlannerScreening {
+  return {
+    screeningId: id,
+    filmId: `film-${id}`,
+    filmTitle: `Film ${id}`,
+    datetime: new Date(`2026-10-10T${time}:00Z`),
+    runtime: 100,
+    cinemaId: "bfi-southbank",
+    cinemaName: "BFI Southbank",
+    coordinates: null,
+    bookingUrl: `https://example.com/${id}`,
+    ...overrides,
+  };
+}
+
+// 30 minutes between any two different venues
+const travel = (from: string, to: string) => (from === to ? 0 : 30);
+
+describe("detectClashes", () => {
+  it("finds overlapping screenings using runtimes", () => {
+    const a = screening("a", "18:00", { runtime: 150 });
+    const b = screening("b", "20:00");
+    const c = screening("c", "21:00");
+
+    const clashes = detectClashes([c, b, a]);
+
+    expect(clashes.map((x) => [x.first.screeningId, x.second.screeningId, x.overlapMinutes])).toEqual([
+      ["a", "b", 30],
+      ["b", "c", 40],
+    ]);
+  });
+
+  it("assumes two hours when the runtime is unknown", () => {
+    const a = screening("a", "18:00", { runtime: null });
+    expect(detectClashes([a, screening("b", "19:50")])).toHaveLength(1);
+    expect(detectClashes([a, screening("b", "20:00")])).toHaveLength(0);
+  });
+});
+
+describe("findGaps", () => {
+  it("flags changeovers shorter than travel time between venues", () => {
+    const plan = [
+      screening("a", "14:00"),
+      screening("b", "16:10", { cinemaId: "curzon-soho", cinemaName: "Curzon Soho" }),
+      screening("c", "18:30"),
+    ];
+
+    const gaps = findGaps(plan, travel);
+
+    expect(gaps.map((g) => [g.to.screeningId, g.gapMinutes, g.tight])).toEqual([
+      ["b", 30, true],
+      ["c", 40, false],
+    ]);
+  });
+
+  it("never flags gaps at the same venue", () => {
+    const [gap] = findGaps([screening("a", "14:00"), screening("b", "15:45")], travel);
+    expect(gap).toMatchObject({ gapMinutes: 5, travelMinutes: 0, tight: false });
+  });
+
+  it("doesn't flag venues without a travel time", () => {
+    const plan = [screening("a", "14:00"), screening("b", "15:45", { cinemaId: "rio" })];
+    expect(findGaps(plan, () => null)[0]).toMatchObject({ travelMinutes: null, tight: false });
+  });
+
+  it("skips overlapping and overnight pairs", () => {
+    expect(findGaps([screening("a", "14:00"), screening("b", "14:30")], travel)).toEqual([]);
+    const nextDay = screening("b", "14:00", { datetime: new Date("2026-10-11T14:00:00Z") });
+    expect(findGaps([screening("a", "10:00"), nextDay], travel)).toEqual([]);
+  });
+});
+
+describe("suggestAlternatives", () => {
+  const planned = screening("a", "18:00");
+  const clashing = screening("b", "19:00", { filmId: "film-x" });
+  const plan = [planned, clashing];
+
+  it("offers other showings of the film that fit the plan", () => {
+    const programme = [
+      clashing,
+      screening("x2", "13:00", { filmId: "film-x" }),
+      screening("x3", "19:30", { filmId: "film-x" }),
+      screening("x4", "20:00", { filmId: "film-x", cinemaId: "curzon-soho" }),
+      screening("x5", "20:50", { filmId: "film-x", cinemaId: "curzon-soho" }),
+      screening("other", "21:00"),
+    ];
+
+    const alternatives = suggestAlternatives(clashing, plan, programme, travel, NOW);
+
+    expect(alternatives.map((s) => s.screeningId)).toEqual(["x2", "x5"]);
+  });
+
+  it("skips showings that have already started", () => {
+    const past = screening("x2", "13:00", { filmId: "film-x" });
+    const later = new Date("2026-10-10T15:00:00Z");
+    expect(suggestAlternatives(clashing, plan, [past], travel, later)).toEqual([]);
+  });
+});
+
+describe("venueHops", () => {
+  it("lists each change of venue once", () => {
+    const soho = { cinemaId: "curzon-soho", cinemaName: "Curzon Soho" };
+    const hops = venueHops([
+      screening("a", "12:00"),
+      screening("b", "15:00", soho),
+      screening("c", "18:00"),
+      screening("d", "20:00"),
+      screening("e", "22:00", soho),
+    ]);
+
+    expect(hops.map((h) => `${h.from.cinemaId}->${h.to.cinemaId}`)).toEqual([
+      "bfi-southbank->curzon-soho",
+      "curzon-soho->bfi-southbank",
+    ]);
+  });
+});
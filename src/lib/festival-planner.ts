@@ -0,0 +1,177 @@
+/**
+ * Festival Planner
+ *
+ * Checks that a festival plan can actually be done: screenings that overlap
+ * (using film runtimes), changeovers too short to get between venues, and
+ * other showings of a clashing film that would fit instead. Travel times
+ * come from the caller - the planner view uses Distance Matrix times from
+ * lib/travel-time.ts, falling back to estimates.
+ */
+
+import { addMinutes, differenceInMinutes } from "date-fns";
+import type { Coordinates } from "@/stores/reachable";
+
+/** Assumed runtime when a film's is unknown (as for "What Can I Catch?") */
+export const DEFAULT_RUNTIME_MINUTES = 120;
+
+/** Time to get out of one screening and into the next, on top of travel */
+export const CHANGEOVER_MINUTES = 10;
+
+/** Alternatives offered per clashing film */
+const MAX_ALTERNATIVES = 3;
+
+export interface PlannerScreening {
+  screeningId: string;
+  filmId: string;
+  filmTitle: string;
+  datetime: Date;
+  runtime: number | null;
+  cinemaId: string;
+  cinemaName: string;
+  coordinates: Coordinates | null;
+  bookingUrl: string;
+}
+
+export interface PlanClash {
+  first: PlannerScreening;
+  second: PlannerScreening;
+  overlapMinutes: number;
+}
+
+export interface PlanGap {
+  from: PlannerScreening;
+  to: PlannerScreening;
+  gapMinutes: number;
+  /** null when there's no travel time for the two venues */
+  travelMinutes: number | null;
+  /** Not enough time to get there (including changeover) */
+  tight: boolean;
+}
+
+/** Minutes between two venues, or null if unknown */
+export type TravelLookup = (fromCinemaId: string, toCinemaId: string) => number | null;
+
+export function screeningEnd(screening: PlannerScreening): Date {
+  return addMinutes(screening.datetime, screening.runtime ?? DEFAULT_RUNTIME_MINUTES);
+}
+
+function byStart(a: PlannerScreening, b: PlannerScreening): number {
+  return a.datetime.getTime() - b.datetime.getTime();
+}
+
+/**
+ * Every pair of screenings in the plan that overlap
+ */
+export function detectClashes(plan: PlannerScreening[]): PlanClash[] {
+  const sorted = [...plan].sort(byStart);
+  const clashes: PlanClash[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const first = sorted[i];
+    const firstEnd = screeningEnd(first);
+
+    for (let j = i + 1; j < sorted.length && sorted[j].datetime < firstEnd; j++) {
+      const second = sorted[j];
+      const overlapEnd = Math.min(firstEnd.getTime(), screeningEnd(second).getTime());
+      clashes.push({
+        first,
+        second,
+        overlapMinutes: differenceInMinutes(overlapEnd, second.datetime),
+      });
+    }
+  }
+
+  return clashes;
+}
+
+/**
+ * The gap before each screening that follows another without overlapping it,
+ * flagged as tight when it's shorter than the travel time plus changeover.
+ * Only same-day gaps count - overnight there's always time.
+ */
+export function findGaps(plan: PlannerScreening[], travel: TravelLookup): PlanGap[] {
+  const sorted = [...plan].sort(byStart);
+  const gaps: PlanGap[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    const gapMinutes = differenceInMinutes(to.datetime, screeningEnd(from));
+
+    if (gapMinutes < 0 || gapMinutes > 12 * 60) continue;
+
+    const travelMinutes = from.cinemaId === to.cinemaId ? 0 : travel(from.cinemaId, to.cinemaId);
+    const needed = travelMinutes === null ? null : travelMinutes + CHANGEOVER_MINUTES;
+    gaps.push({
+      from,
+      to,
+      gapMinutes,
+      travelMinutes,
+      tight: from.cinemaId !== to.cinemaId && needed !== null && gapMinutes < needed,
+    });
+  }
+
+  return gaps;
+}
+
+/**
+ * Whether a screening fits around the rest of the plan: no overlaps, and
+ * time to travel from the screening before and to the one after
+ */
+function fitsPlan(
+  candidate: PlannerScreening,
+  rest: PlannerScreening[],
+  travel: TravelLookup
+): boolean {
+  const plan = [...rest, candidate];
+  if (detectClashes(plan).some((c) => c.first === candidate || c.second === candidate)) {
+    return false;
+  }
+  return !findGaps(plan, travel).some(
+    (gap) => gap.tight && (gap.from === candidate || gap.to === candidate)
+  );
+}
+
+/**
+ * Other showings of `screening`'s film in the programme that would fit the
+ * plan in its place, soonest first
+ */
+export function suggestAlternatives(
+  screening: PlannerScreening,
+  plan: PlannerScreening[],
+  programme: PlannerScreening[],
+  travel: TravelLookup,
+  now = new Date()
+): PlannerScreening[] {
+  const planned = new Set(plan.map((s) => s.screeningId));
+  const rest = plan.filter((s) => s.screeningId !== screening.screeningId);
+
+  return programme
+    .filter(
+      (candidate) =>
+        candidate.filmId === screening.filmId &&
+        !planned.has(candidate.screeningId) &&
+        candidate.datetime > now &&
+        fitsPlan(candidate, rest, travel)
+    )
+    .sort(byStart)
+    .slice(0, MAX_ALTERNATIVES);
+}
+
+/**
+ * Pairs of venues the plan moves between, for fetching travel times
+ */
+export function venueHops(plan: PlannerScreening[]): { from: PlannerScreening; to: PlannerScreening }[] {
+  const sorted = [...plan].sort(byStart);
+  const hops = new Map<string, { from: PlannerScreening; to: PlannerScreening }>();
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    if (from.cinemaId !== to.cinemaId) {
+      hops.set(`${from.cinemaId}->${to.cinemaId}`, { from, to });
+    }
+  }
+
+  return [...hops.values()];
+}
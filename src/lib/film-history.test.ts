@@ -0,0 +1,99 @@
+/**
+ * Film History Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import type { FilmStatusEntry } from "@/stores/film-status";
+import { buildHistoryStats, getDiaryItems, groupDiaryByMonth } from "./film-history";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+function seen(seenAt: string | undefined, overrides: Partial<FilmStatusEntry> = {}): FilmStatusEntry {
+  return {
+    status: "seen",
+    addedAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    seenAt,
+    ...overrides,
+  };
+}
+
+describe("getDiaryItems / groupDiaryByMonth", () => {
+  it("lists seen films with a date, newest first, grouped by month", () => {
+    const films = {
+      a: seen("2026-09-02T19:00:00.000Z"),
+      b: seen("2026-10-10T19:00:00.000Z"),
+      c: seen("2026-09-20T19:00:00.000Z"),
+      undated: seen(undefined),
+      watchlist: { ...seen("2026-10-01T19:00:00.000Z"), status: "want_to_see" as const },
+    };
+
+    const items = getDiaryItems(films);
+    expect(items.map((i) => i.filmId)).toEqual(["b", "c", "a"]);
+
+    expect(groupDiaryByMonth(items).map((m) => [m.label, m.items.map((i) => i.filmId)])).toEqual([
+      ["October 2026", ["b"]],
+      ["September 2026", ["c", "a"]],
+    ]);
+  });
+});
+
+describe("buildHistoryStats", () => {
+  it("counts films per month over the last year", () => {
+    const stats = buildHistoryStats(
+      {
+        a: seen("2026-10-02T19:00:00.000Z"),
+        b: seen("2026-10-05T19:00:00.000Z"),
+        c: seen("2026-08-05T19:00:00.000Z"),
+        old: seen("2025-08-05T19:00:00.000Z"),
+      },
+      NOW
+    );
+
+    expect(stats.perMonth).toHaveLength(12);
+    expect(stats.perMonth[0]).toEqual({ month: "2025-11", label: "Nov", count: 0 });
+    expect(stats.perMonth.at(-1)).toEqual({ month: "2026-10", label: "Oct", count: 2 });
+    expect(stats.perMonth.find((m) => m.month === "2026-08")?.count).toBe(1);
+    expect(stats.loggedCount).toBe(4);
+  });
+
+  it("ranks cinemas by visits, named after the latest visit", () => {
+    const stats = buildHistoryStats(
+      {
+        a: seen("2026-01-01T19:00:00.000Z", { seenCinemaId: "bfi", seenCinemaName: "BFI" }),
+        b: seen("2026-02-01T19:00:00.000Z", { seenCinemaId: "bfi", seenCinemaName: "BFI Southbank" }),
+        c: seen("2026-03-01T19:00:00.000Z", { seenCinemaId: "rio", seenCinemaName: "Rio" }),
+        d: seen("2026-03-02T19:00:00.000Z"),
+      },
+      NOW
+    );
+
+    expect(stats.cinemas).toEqual([
+      { id: "bfi", name: "BFI Southbank", count: 2 },
+      { id: "rio", name: "Rio", count: 1 },
+    ]);
+  });
+
+  it("counts formats, decades and the average rating", () => {
+    const stats = buildHistoryStats(
+      {
+        a: seen(undefined, { seenFormat: "35mm", filmYear: 1979, rating: 4.5 }),
+        b: seen(undefined, { seenFormat: "35mm", filmYear: 1975, rating: 3 }),
+        c: seen(undefined, { seenFormat: "dcp", filmYear: 2001 }),
+        d: seen(undefined, { seenFormat: "unknown", filmYear: 1962, rating: 5 }),
+      },
+      NOW
+    );
+
+    expect(stats.formats).toEqual([
+      { label: "35mm", count: 2 },
+      { label: "Digital", count: 1 },
+    ]);
+    expect(stats.decades).toEqual([
+      { decade: "1960s", count: 1 },
+      { decade: "1970s", count: 2 },
+      { decade: "2000s", count: 1 },
+    ]);
+    expect(stats).toMatchObject({ seenCount: 4, loggedCount: 0, ratedCount: 3, averageRating: 4.2 });
+  });
+});
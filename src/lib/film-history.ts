@@ -0,0 +1,136 @@
+/**
+ * Film History
+ * Diary entries and viewing stats built from the films a user has marked seen
+ */
+
+import { format, startOfMonth, subMonths } from "date-fns";
+import type { FilmStatusEntry } from "@/stores/film-status";
+import { FORMAT_OPTIONS } from "@/lib/filter-constants";
+
+/** Months shown in the films-per-month chart, including the current one */
+const CHART_MONTHS = 12;
+const TOP_CINEMAS = 5;
+
+export interface DiaryItem {
+  filmId: string;
+  entry: FilmStatusEntry;
+}
+
+export interface DiaryMonth {
+  /** yyyy-MM */
+  month: string;
+  label: string;
+  items: DiaryItem[];
+}
+
+export interface HistoryStats {
+  /** Films marked seen */
+  seenCount: number;
+  /** Seen films with a watch date, i.e. diary entries */
+  loggedCount: number;
+  ratedCount: number;
+  averageRating: number | null;
+  perMonth: { month: string; label: string; count: number }[];
+  cinemas: { id: string; name: string; count: number }[];
+  formats: { label: string; count: number }[];
+  decades: { decade: string; count: number }[];
+}
+
+/**
+ * Label for a screening format in stats, or null for formats we don't know
+ */
+export function formatLabel(value: string): string | null {
+  if (value === "unknown") return null;
+  if (value === "dcp") return "Digital";
+  return FORMAT_OPTIONS.find((o) => o.value === value)?.label ?? value.toUpperCase();
+}
+
+/**
+ * Seen films with a watch date, most recent first
+ */
+export function getDiaryItems(films: Record<string, FilmStatusEntry>): DiaryItem[] {
+  return Object.entries(films)
+    .filter(([, entry]) => entry.status === "seen" && entry.seenAt)
+    .map(([filmId, entry]) => ({ filmId, entry }))
+    .sort((a, b) => b.entry.seenAt!.localeCompare(a.entry.seenAt!));
+}
+
+/**
+ * Diary items grouped by the month they were seen, keeping their order
+ */
+export function groupDiaryByMonth(items: DiaryItem[]): DiaryMonth[] {
+  const months: DiaryMonth[] = [];
+
+  for (const item of items) {
+    const seenAt = new Date(item.entry.seenAt!);
+    const month = format(seenAt, "yyyy-MM");
+    const last = months[months.length - 1];
+
+    if (last?.month === month) {
+      last.items.push(item);
+    } else {
+      months.push({ month, label: format(seenAt, "MMMM yyyy"), items: [item] });
+    }
+  }
+
+  return months;
+}
+
+function countBy<T>(values: T[], key: (value: T) => string | null): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const k = key(value);
+    if (k) counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function buildHistoryStats(
+  films: Record<string, FilmStatusEntry>,
+  now: Date = new Date()
+): HistoryStats {
+  const seen = Object.values(films).filter((entry) => entry.status === "seen");
+  const logged = seen.filter((entry) => entry.seenAt);
+  const rated = seen.filter((entry) => entry.rating);
+
+  const monthCounts = countBy(logged, (entry) => format(new Date(entry.seenAt!), "yyyy-MM"));
+  const perMonth = Array.from({ length: CHART_MONTHS }, (_, i) => {
+    const month = startOfMonth(subMonths(now, CHART_MONTHS - 1 - i));
+    const key = format(month, "yyyy-MM");
+    return { month: key, label: format(month, "MMM"), count: monthCounts.get(key) ?? 0 };
+  });
+
+  // Cinemas by ID, named after the most recent entry
+  const cinemaNames = new Map<string, string>();
+  for (const entry of [...logged].sort((a, b) => a.seenAt!.localeCompare(b.seenAt!))) {
+    if (entry.seenCinemaId) cinemaNames.set(entry.seenCinemaId, entry.seenCinemaName ?? entry.seenCinemaId);
+  }
+  const cinemas = [...countBy(seen, (entry) => entry.seenCinemaId ?? null)]
+    .map(([id, count]) => ({ id, name: cinemaNames.get(id) ?? id, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_CINEMAS);
+
+  const formats = [...countBy(seen, (entry) => (entry.seenFormat ? formatLabel(entry.seenFormat) : null))]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  const decades = [...countBy(seen, (entry) => (entry.filmYear ? `${Math.floor(entry.filmYear / 10) * 10}s` : null))]
+    .map(([decade, count]) => ({ decade, count }))
+    .sort((a, b) => a.decade.localeCompare(b.decade));
+
+  const averageRating =
+    rated.length > 0
+      ? Math.round((rated.reduce((sum, entry) => sum + entry.rating!, 0) / rated.length) * 10) / 10
+      : null;
+
+  return {
+    seenCount: seen.length,
+    loggedCount: logged.length,
+    ratedCount: rated.length,
+    averageRating,
+    perMonth,
+    cinemas,
+    formats,
+    decades,
+  };
+}
@@ -8,12 +8,23 @@
 // ============================================================================
 
 export type TimeOfDay = "morning" | "afternoon" | "evening" | "late_night";
-export type ProgrammingType = "repertory" | "new_release" | "special_event" | "preview";
+export type ProgrammingType = (typeof PROGRAMMING_TYPES)[number];
+export type AccessibilityFlag = (typeof ACCESSIBILITY_FLAGS)[number];
 
 // ============================================================================
 // Constants
 // ============================================================================
 
+export const PROGRAMMING_TYPES = ["repertory", "new_release", "special_event", "preview"] as const;
+
+export const ACCESSIBILITY_FLAGS = [
+  "subtitled",
+  "audio_described",
+  "relaxed",
+  "baby_friendly",
+  "dementia_friendly",
+] as const;
+
 export const DECADES = [
   "Pre-1950",
   "1950s",
@@ -55,6 +66,9 @@ export const TIME_PRESETS = [
   { label: "Late", shortLabel: "Late", from: 21, to: 23, description: "After 9pm" },
 ] as const;
 
+// Max-price filter choices, in pounds (standard ticket)
+export const MAX_PRICE_OPTIONS = [6, 8, 10, 12, 15] as const;
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -86,6 +100,53 @@ export function getProgrammingTypeLabel(type: ProgrammingType): string {
   return labels[type];
 }
 
+export function getAccessibilityLabel(flag: AccessibilityFlag): string {
+  const labels: Record<AccessibilityFlag, string> = {
+    subtitled: "Subtitled / Captioned (SDH)",
+    audio_described: "Audio Described",
+    relaxed: "Relaxed",
+    baby_friendly: "Parent & Baby",
+    dementia_friendly: "Dementia Friendly",
+  };
+  return labels[flag];
+}
+
+/** Screening accessibility fields, as returned by /api/screenings */
+export interface ScreeningAccessibility {
+  hasSubtitles?: boolean;
+  hasAudioDescription?: boolean;
+  isRelaxedScreening?: boolean;
+  isBabyFriendly?: boolean;
+  isDementiaFriendly?: boolean;
+}
+
+/** Check whether a screening has an accessibility feature */
+export function hasAccessibilityFlag(screening: ScreeningAccessibility, flag: AccessibilityFlag): boolean {
+  switch (flag) {
+    case "subtitled":
+      return !!screening.hasSubtitles;
+    case "audio_described":
+      return !!screening.hasAudioDescription;
+    case "relaxed":
+      return !!screening.isRelaxedScreening;
+    case "baby_friendly":
+      return !!screening.isBabyFriendly;
+    case "dementia_friendly":
+      return !!screening.isDementiaFriendly;
+  }
+}
+
+/**
+ * Format a price in minor units for display ("£8", "£12.50")
+ */
+export function formatPrice(amount: number, currency = "GBP"): string {
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: amount % 100 === 0 ? 0 : 2,
+  }).format(amount / 100);
+}
+
 /** Check if a cinema is independent (BFI is treated as independent despite having a chain value) */
 export function isIndependentCinema(chain: string | null): boolean {
   return chain === null || chain === "BFI";
@@ -0,0 +1,168 @@
+/**
+ * iCalendar Feed Builder Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildCalendar,
+  escapeText,
+  foldLine,
+  formatICalDate,
+  screeningToEvent,
+  getWebcalUrl,
+  DEFAULT_RUNTIME_MINUTES,
+} from "./ical";
+import type { ScreeningWithDetails } from "@/db/repositories/screening";
+
+function makeScreening(overrides: Partial<ScreeningWithDetails> = {}): ScreeningWithDetails {
+  return {
+    id: "screening-123",
+    datetime: new Date("2025-01-14T19:30:00Z"),
+    format: "35mm",
+    screen: "NFT1",
+    eventType: null,
+    eventDescription: null,
+    isSpecialEvent: false,
+    bookingUrl: "https://whatson.bfi.org.uk/book/123",
+    isFestivalScreening: false,
+    availabilityStatus: null,
+    status: "scheduled",
+    hasSubtitles: false,
+    subtitleLanguage: null,
+    hasAudioDescription: false,
+    isRelaxedScreening: false,
+    isBabyFriendly: false,
+    isDementiaFriendly: false,
+    priceCurrency: null,
+    priceStandard: null,
+    priceConcession: null,
+    priceMember: null,
+    film: {
+      id: "film-1",
+      title: "Seven Samurai",
+      year: 1954,
+      directors: ["Akira Kurosawa"],
+      posterUrl: null,
+      runtime: 207,
+      isRepertory: true,
+      genres: ["Drama", "Action"],
+      decade: "1950s",
+      letterboxdRating: 4.6,
+    },
+    cinema: {
+      id: "bfi-southbank",
+      name: "BFI Southbank",
+      shortName: "BFI",
+    },
+    ...overrides,
+  };
+}
+
+describe("escapeText", () => {
+  it("escapes commas, semicolons, backslashes and newlines", () => {
+    expect(escapeText("a,b;c\\d\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines untouched", () => {
+    expect(foldLine("SUMMARY:Short")).toBe("SUMMARY:Short");
+  });
+
+  it("folds long lines at 75 octets with a leading space", () => {
+    const line = "DESCRIPTION:" + "x".repeat(200);
+    const folded = foldLine(line);
+    const parts = folded.split("\r\n");
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts[0]).toHaveLength(75);
+    for (const part of parts.slice(1)) {
+      expect(part.startsWith(" ")).toBe(true);
+      expect(part.length).toBeLessThanOrEqual(75);
+    }
+    expect(parts.map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe(line);
+  });
+
+  it("does not split multi-byte characters", () => {
+    const line = "SUMMARY:" + "é".repeat(60);
+    const folded = foldLine(line);
+    for (const part of folded.split("\r\n")) {
+      expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75);
+    }
+  });
+});
+
+describe("formatICalDate", () => {
+  it("formats dates as UTC basic format", () => {
+    expect(formatICalDate(new Date("2025-01-14T19:30:00.000Z"))).toBe("20250114T193000Z");
+  });
+});
+
+describe("screeningToEvent", () => {
+  it("uses a stable UID based on the screening ID", () => {
+    const event = screeningToEvent(makeScreening());
+    expect(event.uid).toBe("screening-screening-123@pictures.london");
+  });
+
+  it("derives the end time from the film runtime", () => {
+    const event = screeningToEvent(makeScreening());
+    expect(event.end.toISOString()).toBe("2025-01-14T22:57:00.000Z");
+  });
+
+  it("falls back to the default runtime when unknown", () => {
+    const screening = makeScreening();
+    screening.film.runtime = null;
+    const event = screeningToEvent(screening);
+
+    expect(event.end.getTime() - event.start.getTime()).toBe(DEFAULT_RUNTIME_MINUTES * 60_000);
+    expect(event.description).toContain("end time is approximate");
+  });
+
+  it("includes booking URL, screen and format", () => {
+    const event = screeningToEvent(makeScreening());
+
+    expect(event.url).toBe("https://whatson.bfi.org.uk/book/123");
+    expect(event.location).toBe("BFI Southbank, NFT1");
+    expect(event.summary).toBe("Seven Samurai (1954) [35mm]");
+    expect(event.description).toContain("Screen: NFT1");
+    expect(event.description).toContain("Format: 35mm");
+  });
+
+  it("omits uninteresting formats", () => {
+    const event = screeningToEvent(makeScreening({ format: "dcp", screen: null }));
+
+    expect(event.summary).toBe("Seven Samurai (1954)");
+    expect(event.location).toBe("BFI Southbank");
+  });
+});
+
+describe("buildCalendar", () => {
+  it("produces a valid VCALENDAR with CRLF line endings", () => {
+    const body = buildCalendar({
+      name: "BFI Southbank | Pictures",
+      events: [screeningToEvent(makeScreening())],
+      generatedAt: new Date("2025-01-01T00:00:00Z"),
+    });
+
+    expect(body.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(body.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(body).toContain("BEGIN:VEVENT\r\n");
+    expect(body).toContain("DTSTART:20250114T193000Z");
+    expect(body).toContain("DTSTAMP:20250101T000000Z");
+    expect(body).toContain("X-WR-CALNAME:BFI Southbank | Pictures");
+    expect(body).not.toMatch(/[^\r]\n/);
+  });
+
+  it("produces an empty calendar when there are no events", () => {
+    const body = buildCalendar({ name: "Empty", events: [] });
+    expect(body).not.toContain("BEGIN:VEVENT");
+  });
+});
+
+describe("getWebcalUrl", () => {
+  it("swaps the scheme for webcal", () => {
+    expect(getWebcalUrl("/api/calendar/cinemas/bfi-southbank")).toBe(
+      "webcal://pictures.london/api/calendar/cinemas/bfi-southbank"
+    );
+  });
+});
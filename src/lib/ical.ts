@@ -0,0 +1,222 @@
+/**
+ * iCalendar (.ics) Feed Builder
+ *
+ * Serialises screenings into RFC 5545 calendars that Google/Apple Calendar
+ * can subscribe to. Event UIDs are derived from screening IDs so that when a
+ * feed is refreshed, changed screenings replace their old entries instead of
+ * being duplicated.
+ */
+
+import { addMinutes } from "date-fns";
+import { FORMAT_OPTIONS } from "@/lib/filter-constants";
+import type { ScreeningWithDetails } from "@/db/repositories/screening";
+
+const BASE_URL = "https://pictures.london";
+const PRODUCT_ID = "-//Pictures//London Cinema Calendar//EN";
+const UID_DOMAIN = "pictures.london";
+
+/**
+ * Fallback event length when a film has no runtime (feature + trailers)
+ */
+export const DEFAULT_RUNTIME_MINUTES = 120;
+
+/**
+ * How often calendar apps should re-fetch the feed
+ */
+const REFRESH_INTERVAL = "PT6H";
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  events: CalendarEvent[];
+  /** Timestamp written to DTSTAMP (defaults to now) */
+  generatedAt?: Date;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Format a date as a UTC DATE-TIME value (e.g. 20250114T193000Z)
+ */
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Human-readable label for a screening format, or null if not worth showing
+ */
+function getFormatLabel(format: string | null): string | null {
+  if (!format || format === "unknown" || format === "dcp") return null;
+  const option = FORMAT_OPTIONS.find((o) => o.value === format);
+  return option?.label ?? format.toUpperCase();
+}
+
+/**
+ * Convert a screening into a calendar event
+ * End time is derived from the film runtime, falling back to DEFAULT_RUNTIME_MINUTES
+ */
+export function screeningToEvent(screening: ScreeningWithDetails): CalendarEvent {
+  const start = new Date(screening.datetime);
+  const runtime = screening.film.runtime ?? DEFAULT_RUNTIME_MINUTES;
+  const formatLabel = getFormatLabel(screening.format);
+
+  const title = screening.film.year
+    ? `${screening.film.title} (${screening.film.year})`
+    : screening.film.title;
+
+  const descriptionLines: string[] = [];
+  if (screening.film.directors.length > 0) {
+    descriptionLines.push(`Directed by ${screening.film.directors.join(", ")}`);
+  }
+  if (screening.screen) {
+    descriptionLines.push(`Screen: ${screening.screen}`);
+  }
+  if (formatLabel) {
+    descriptionLines.push(`Format: ${formatLabel}`);
+  }
+  if (screening.eventDescription) {
+    descriptionLines.push(screening.eventDescription);
+  }
+  if (!screening.film.runtime) {
+    descriptionLines.push("Runtime unknown - end time is approximate");
+  }
+  descriptionLines.push(`Book: ${screening.bookingUrl}`);
+
+  return {
+    uid: `screening-${screening.id}@${UID_DOMAIN}`,
+    start,
+    end: addMinutes(start, runtime),
+    summary: formatLabel ? `${title} [${formatLabel}]` : title,
+    description: descriptionLines.join("\n"),
+    location: screening.screen
+      ? `${screening.cinema.name}, ${screening.screen}`
+      : screening.cinema.name,
+    url: screening.bookingUrl,
+  };
+}
+
+/**
+ * Serialise events into a complete VCALENDAR document
+ */
+export function buildCalendar(options: CalendarOptions): string {
+  const stamp = formatICalDate(options.generatedAt ?? new Date());
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    "X-WR-TIMEZONE:Europe/London",
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+
+  for (const event of options.events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDate(event.start)}`,
+      `DTEND:${formatICalDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Build an HTTP response for a calendar feed
+ */
+export function calendarResponse(
+  body: string,
+  filename: string,
+  cacheControl = "public, s-maxage=900, stale-while-revalidate=1800"
+): Response {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename}.ics"`,
+      "Cache-Control": cacheControl,
+    },
+  });
+}
+
+/**
+ * Absolute URL for a feed path (used when showing subscription links)
+ */
+export function getFeedUrl(path: string): string {
+  return `${BASE_URL}${path}`;
+}
+
+/**
+ * webcal:// URL for a feed path - opens the subscription dialog in calendar apps
+ */
+export function getWebcalUrl(path: string): string {
+  return getFeedUrl(path).replace(/^https?:/, "webcal:");
+}
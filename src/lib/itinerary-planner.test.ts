@@ -0,0 +1,151 @@
+/**
+ * Itinerary Planner Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import type { PlannerScreening } from "./festival-planner";
+import { planItinerary, type ItineraryRequest } from "./itinerary-planner";
+
+const NOW = new Date("2026-10-20T09:00:00Z");
+const SATURDAY = { start: new Date("2026-10-24T11:00:00Z"), end: new Date("2026-10-24T23:00:00Z") };
+
+const BFI = { cinemaId: "bfi-southbank", cinemaName: "BFI Southbank", coordinates: { lat: 51.5069, lng: -0.1149 } };
+const PCC = { cinemaId: "prince-charles", cinemaName: "Prince Charles", coordinates: { lat: 51.5113, lng: -0.1302 } };
+const RIO = { cinemaId: "rio-dalston", cinemaName: "Rio", coordinates: { lat: 51.5485, lng: -0.0754 } };
+
+function showing(
+  filmId: string,
+  datetime: string,
+  overrides: Partial<PlannerScreening> = {}
+): PlannerScreening {
+  return {
+    screeningId: `${filmId}@${datetime}`,
+    filmId,
+    filmTitle: filmId.toUpperCase(),
+    datetime: new Date(datetime),
+    runtime: 100,
+    ...BFI,
+    bookingUrl: "https://example.com",
+    ...overrides,
+  };
+}
+
+// Showings after the window, so films aren't last chance unless a test says so
+const later = (filmId: string) => [
+  showing(filmId, "2026-11-10T18:00:00Z"),
+  showing(filmId, "2026-11-11T18:00:00Z"),
+  showing(filmId, "2026-11-12T18:00:00Z"),
+];
+
+function plan(screenings: PlannerScreening[], overrides: Partial<ItineraryRequest> = {}) {
+  return planItinerary({ screenings, windows: [SATURDAY], travelMode: "transit", now: NOW, ...overrides });
+}
+
+const filmIds = (itinerary: ReturnType<typeof plan>) => itinerary.stops.map((s) => s.filmId);
+
+describe("planItinerary", () => {
+  it("maximizes films seen rather than taking the earliest showing", () => {
+    const itinerary = plan([
+      // A's only showing blocks both B and C
+      showing("a", "2026-10-24T13:00:00Z", { runtime: 240 }),
+      showing("b", "2026-10-24T13:00:00Z"),
+      showing("c", "2026-10-24T15:00:00Z"),
+      ...later("a"),
+      ...later("b"),
+      ...later("c"),
+    ]);
+
+    expect(filmIds(itinerary)).toEqual(["b", "c"]);
+    expect(itinerary.unscheduled).toEqual([{ filmId: "a", filmTitle: "A", reason: "no_room" }]);
+    expect(itinerary.complete).toBe(true);
+  });
+
+  it("uses another showing of a film to fit more in", () => {
+    const itinerary = plan([
+      showing("a", "2026-10-24T13:00:00Z"),
+      showing("a", "2026-10-24T18:00:00Z"),
+      showing("b", "2026-10-24T13:30:00Z"),
+      ...later("a"),
+      ...later("b"),
+    ]);
+
+    expect(itinerary.stops.map((s) => s.screeningId)).toEqual([
+      "b@2026-10-24T13:30:00Z",
+      "a@2026-10-24T18:00:00Z",
+    ]);
+  });
+
+  it("prefers last-chance and rare films when it can't fit everything", () => {
+    const itinerary = plan([
+      showing("common", "2026-10-24T14:00:00Z"),
+      ...later("common"),
+      showing("leaving", "2026-10-24T14:00:00Z"),
+    ]);
+
+    expect(filmIds(itinerary)).toEqual(["leaving"]);
+    expect(itinerary.stops[0].reasons).toEqual(["last_chance", "rare"]);
+  });
+
+  it("leaves time to travel between venues", () => {
+    const screenings = [
+      showing("a", "2026-10-24T14:00:00Z", { ...BFI }),
+      showing("b", "2026-10-24T15:50:00Z", { ...RIO }),
+      ...later("a"),
+      ...later("b"),
+    ];
+
+    expect(filmIds(plan(screenings))).toHaveLength(1);
+
+    const sameVenue = screenings.map((s) => ({ ...s, ...BFI }));
+    expect(filmIds(plan(sameVenue))).toEqual(["a", "b"]);
+  });
+
+  it("reports travel before each stop", () => {
+    const itinerary = plan(
+      [
+        showing("a", "2026-10-24T14:00:00Z", { ...BFI }),
+        showing("b", "2026-10-24T17:00:00Z", { ...PCC }),
+        ...later("a"),
+        ...later("b"),
+      ],
+      { home: RIO.coordinates }
+    );
+
+    expect(itinerary.stops[0].travelMinutesBefore).toBeGreaterThan(20);
+    expect(itinerary.stops[1].travelMinutesBefore).toBeGreaterThan(0);
+    expect(itinerary.stops[1].travelMinutesBefore).toBeLessThan(itinerary.stops[0].travelMinutesBefore!);
+  });
+
+  it("fits showings inside the windows, including the journey from home", () => {
+    const screenings = [showing("a", "2026-10-24T11:10:00Z"), ...later("a")];
+
+    expect(filmIds(plan(screenings))).toEqual(["a"]);
+    expect(plan(screenings, { home: RIO.coordinates }).unscheduled).toEqual([
+      { filmId: "a", filmTitle: "A", reason: "no_showing" },
+    ]);
+  });
+
+  it("only uses the chosen cinemas", () => {
+    const screenings = [showing("a", "2026-10-24T14:00:00Z", { ...PCC }), ...later("a")];
+
+    expect(plan(screenings, { cinemaIds: ["bfi-southbank"] }).stops).toEqual([]);
+    expect(filmIds(plan(screenings, { cinemaIds: ["prince-charles"] }))).toEqual(["a"]);
+  });
+
+  it("handles a full watchlist quickly", () => {
+    const screenings = Array.from({ length: 30 }, (_, film) =>
+      Array.from({ length: 6 }, (_, i) =>
+        showing(`film-${film}`, new Date(SATURDAY.start.getTime() + ((film * 7 + i * 53) % 600) * 60_000).toISOString(), {
+          ...[BFI, PCC, RIO][(film + i) % 3],
+        })
+      )
+    ).flat();
+
+    const started = Date.now();
+    const itinerary = plan(screenings);
+
+    expect(itinerary.stops.length).toBeGreaterThanOrEqual(4);
+    expect(itinerary.complete).toBe(true);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
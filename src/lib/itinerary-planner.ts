@@ -0,0 +1,254 @@
+/**
+ * Itinerary Planner
+ *
+ * Proposes a plan for a stretch of free time: one screening each of as many
+ * watchlist films as possible, without overlaps and with time to get between
+ * venues. Films that are about to leave cinemas or rarely shown win ties.
+ *
+ * Picking at most one showing per film makes this harder than plain interval
+ * scheduling, so it's a depth-first search that builds plans in time order,
+ * pruned by an interval-scheduling bound and by skipping showings another
+ * film could fit in front of. A node budget keeps pathological inputs fast;
+ * the best plan found is returned.
+ */
+
+import { differenceInMinutes } from "date-fns";
+import type { Coordinates, TravelMode } from "@/stores/reachable";
+import { estimateTravelMinutes } from "@/lib/travel-time";
+import { CHANGEOVER_MINUTES, screeningEnd, type PlannerScreening } from "@/lib/festival-planner";
+
+/** Films with this many upcoming showings or fewer count as rare */
+export const RARE_SHOWING_THRESHOLD = 3;
+
+/** Assumed travel between venues (or home) with unknown coordinates */
+export const UNKNOWN_TRAVEL_MINUTES = 30;
+
+/** Search nodes explored before settling for the best plan so far */
+const SEARCH_NODE_BUDGET = 200_000;
+
+export type PriorityReason = "last_chance" | "rare";
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface ItineraryRequest {
+  /** Every upcoming showing of the films, at any cinema (used to judge rarity) */
+  screenings: PlannerScreening[];
+  windows: TimeWindow[];
+  /** Cinemas the user will go to (all when empty or missing) */
+  cinemaIds?: string[];
+  /** Start and end each window here, if given */
+  home?: Coordinates | null;
+  travelMode: TravelMode;
+  now?: Date;
+}
+
+export interface ItineraryStop extends PlannerScreening {
+  reasons: PriorityReason[];
+  /** From the previous stop in the same window, or from home */
+  travelMinutesBefore: number | null;
+}
+
+export interface UnscheduledFilm {
+  filmId: string;
+  filmTitle: string;
+  /** no_showing: nothing fits the windows at those cinemas; no_room: squeezed out */
+  reason: "no_showing" | "no_room";
+}
+
+export interface Itinerary {
+  stops: ItineraryStop[];
+  unscheduled: UnscheduledFilm[];
+  /** False if the search hit its budget (the plan is good, maybe not the best) */
+  complete: boolean;
+}
+
+interface Score {
+  films: number;
+  priority: number;
+  travel: number;
+}
+
+/** Better plan first: more films, then more priority, then less travel */
+function compareScores(a: Score, b: Score): number {
+  return b.films - a.films || b.priority - a.priority || a.travel - b.travel;
+}
+
+export function filmPriority(reasons: PriorityReason[]): number {
+  return (reasons.includes("last_chance") ? 2 : 0) + (reasons.includes("rare") ? 1 : 0);
+}
+
+export function planItinerary(request: ItineraryRequest): Itinerary {
+  const now = request.now ?? new Date();
+  const windows = [...request.windows].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const lastWindowEnd = Math.max(...windows.map((w) => w.end.getTime()));
+  const allowedCinemas = request.cinemaIds?.length ? new Set(request.cinemaIds) : null;
+
+  const travel = (from: Coordinates | null, to: Coordinates | null): number =>
+    from && to ? estimateTravelMinutes(from, to, request.travelMode) : UNKNOWN_TRAVEL_MINUTES;
+
+  const venueTravel = (a: PlannerScreening, b: PlannerScreening): number =>
+    a.cinemaId === b.cinemaId ? 0 : travel(a.coordinates, b.coordinates) + CHANGEOVER_MINUTES;
+
+  // The window each showing fits in (with time to get there from home and back)
+  const windowCache = new Map<PlannerScreening, TimeWindow | undefined>();
+  const windowFor = (s: PlannerScreening): TimeWindow | undefined => {
+    if (!windowCache.has(s)) {
+      const toVenue = request.home ? travel(request.home, s.coordinates) : 0;
+      const fromVenue = request.home ? travel(s.coordinates, request.home) : 0;
+      windowCache.set(
+        s,
+        windows.find(
+          (w) =>
+            differenceInMinutes(s.datetime, w.start) >= toVenue &&
+            differenceInMinutes(w.end, screeningEnd(s)) >= fromVenue
+        )
+      );
+    }
+    return windowCache.get(s);
+  };
+
+  // Group showings by film
+  const byFilm = new Map<string, PlannerScreening[]>();
+  for (const s of request.screenings) {
+    if (s.datetime <= now) continue;
+    byFilm.set(s.filmId, [...(byFilm.get(s.filmId) ?? []), s]);
+  }
+
+  const films = [...byFilm.entries()].map(([filmId, showings]) => {
+    const reasons: PriorityReason[] = [];
+    if (!showings.some((s) => s.datetime.getTime() > lastWindowEnd)) reasons.push("last_chance");
+    if (showings.length <= RARE_SHOWING_THRESHOLD) reasons.push("rare");
+    return {
+      filmId,
+      filmTitle: showings[0].filmTitle,
+      reasons,
+      priority: filmPriority(reasons),
+      candidates: showings
+        .filter((s) => (!allowedCinemas || allowedCinemas.has(s.cinemaId)) && windowFor(s))
+        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime()),
+    };
+  });
+
+  const priorityByFilm = new Map(films.map((f) => [f.filmId, f.priority]));
+  const maxPriority = Math.max(0, ...films.map((f) => f.priority));
+
+  // All fitting showings in start order, and the index of the first showing
+  // that starts after each one ends
+  const pool = films
+    .flatMap((f) => f.candidates)
+    .sort((a, b) => a.datetime.getTime() - b.datetime.getTime() || screeningEnd(a).getTime() - screeningEnd(b).getTime());
+  const firstAfter = (time: Date): number => {
+    let lo = 0;
+    let hi = pool.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pool[mid].datetime < time) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const nextIndex = pool.map((s) => firstAfter(screeningEnd(s)));
+
+  // Most showings that could still be chained from each index, ignoring
+  // travel and repeats of a film (classic interval scheduling) - an upper bound
+  const chainBound = new Array<number>(pool.length + 1).fill(0);
+  for (let i = pool.length - 1; i >= 0; i--) {
+    chainBound[i] = Math.max(chainBound[i + 1], 1 + chainBound[nextIndex[i]]);
+  }
+
+  const travelTotal = (chosen: PlannerScreening[]): number =>
+    chosen.reduce((total, s, i) => {
+      const previous = chosen[i - 1];
+      if (previous && windowFor(previous) === windowFor(s)) return total + venueTravel(previous, s);
+      return request.home ? total + travel(request.home, s.coordinates) : total;
+    }, 0);
+
+  let best: { chosen: PlannerScreening[]; score: Score } = {
+    chosen: [],
+    score: { films: 0, priority: 0, travel: 0 },
+  };
+  let nodes = 0;
+  const used = new Set<string>();
+
+  // Builds the plan in time order: each step picks the next showing
+  const search = (from: number, chosen: PlannerScreening[], priority: number) => {
+    if (++nodes > SEARCH_NODE_BUDGET) return;
+
+    const score = { films: chosen.length, priority, travel: travelTotal(chosen) };
+    if (compareScores(score, best.score) < 0) best = { chosen: [...chosen], score };
+
+    // Prune when no continuation can see more (or higher-priority) films.
+    // Travel only breaks ties between plans the search reaches.
+    const more = Math.min(chainBound[from], films.length - used.size);
+    const filmsBound = chosen.length + more;
+    const priorityBound = priority + more * maxPriority;
+    if (
+      more === 0 ||
+      filmsBound < best.score.films ||
+      (filmsBound === best.score.films && priorityBound <= best.score.priority)
+    ) {
+      return;
+    }
+
+    const last = chosen.at(-1);
+    const reachable: PlannerScreening[] = [];
+
+    for (let i = from; i < pool.length; i++) {
+      const candidate = pool[i];
+      if (used.has(candidate.filmId)) continue;
+      if (last && differenceInMinutes(candidate.datetime, screeningEnd(last)) < venueTravel(last, candidate)) {
+        continue;
+      }
+
+      // Skip showings that an earlier reachable showing of another film
+      // could go before - that plan sees one more film
+      const dominated = reachable.some(
+        (earlier) =>
+          earlier.filmId !== candidate.filmId &&
+          differenceInMinutes(candidate.datetime, screeningEnd(earlier)) >= venueTravel(earlier, candidate)
+      );
+      reachable.push(candidate);
+      if (dominated) continue;
+
+      used.add(candidate.filmId);
+      chosen.push(candidate);
+      search(nextIndex[i], chosen, priority + priorityByFilm.get(candidate.filmId)!);
+      chosen.pop();
+      used.delete(candidate.filmId);
+    }
+  };
+
+  search(0, [], 0);
+
+  const reasonsByFilm = new Map(films.map((f) => [f.filmId, f.reasons]));
+  const sorted = [...best.chosen].sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+  const stops: ItineraryStop[] = sorted.map((s, i) => {
+    const previous = sorted[i - 1];
+    const sameWindow = previous && windowFor(previous) === windowFor(s);
+    return {
+      ...s,
+      reasons: reasonsByFilm.get(s.filmId) ?? [],
+      travelMinutesBefore: sameWindow
+        ? previous.cinemaId === s.cinemaId
+          ? 0
+          : travel(previous.coordinates, s.coordinates)
+        : request.home
+          ? travel(request.home, s.coordinates)
+          : null,
+    };
+  });
+
+  const planned = new Set(stops.map((s) => s.filmId));
+  const unscheduled: UnscheduledFilm[] = films
+    .filter((f) => !planned.has(f.filmId))
+    .map((f) => ({
+      filmId: f.filmId,
+      filmTitle: f.filmTitle,
+      reason: f.candidates.length > 0 ? "no_room" : "no_showing",
+    }));
+
+  return { stops, unscheduled, complete: nodes <= SEARCH_NODE_BUDGET };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { buildLetterboxdCsv, type LetterboxdExportFilm } from "./export";
+import { parseCsv } from "./csv";
+
+function film(overrides: Partial<LetterboxdExportFilm> = {}): LetterboxdExportFilm {
+  return {
+    title: "Stalker",
+    year: 1979,
+    directors: ["Andrei Tarkovsky"],
+    tmdbId: 1398,
+    letterboxdUrl: "https://letterboxd.com/film/stalker/",
+    rating: 5,
+    seenAt: "2024-03-04T19:30:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("buildLetterboxdCsv", () => {
+  it("writes seen films in Letterboxd's import format, oldest first", () => {
+    const csv = buildLetterboxdCsv(
+      [
+        film(),
+        film({
+          title: 'Crouching Tiger, "Hidden" Dragon',
+          year: 2000,
+          directors: ["Ang Lee"],
+          tmdbId: 146,
+          letterboxdUrl: null,
+          rating: null,
+          seenAt: "2023-12-01T20:00:00.000Z",
+        }),
+      ],
+      "diary"
+    );
+
+    expect(parseCsv(csv)).toEqual([
+      ["LetterboxdURI", "tmdbID", "Title", "Year", "Directors", "Rating", "WatchedDate"],
+      ["", "146", 'Crouching Tiger, "Hidden" Dragon', "2000", "Ang Lee", "", "2023-12-01"],
+      ["https://letterboxd.com/film/stalker/", "1398", "Stalker", "1979", "Andrei Tarkovsky", "5", "2024-03-04"],
+    ]);
+  });
+
+  it("leaves ratings and dates out of the watchlist", () => {
+    const csv = buildLetterboxdCsv([film({ rating: null, seenAt: null })], "watchlist");
+
+    expect(parseCsv(csv)).toEqual([
+      ["LetterboxdURI", "tmdbID", "Title", "Year", "Directors"],
+      ["https://letterboxd.com/film/stalker/", "1398", "Stalker", "1979", "Andrei Tarkovsky"],
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Letterboxd Export
+ *
+ * Writes seen films (with ratings and watch dates) and the watchlist in
+ * Letterboxd's import format, so they can be uploaded at
+ * letterboxd.com/import. Letterboxd matches on the URI or TMDB ID when
+ * present and falls back to title, year and directors.
+ */
+
+import { toCsv, type CsvValue } from "./csv";
+
+export type ExportList = "diary" | "watchlist";
+
+export interface LetterboxdExportFilm {
+  title: string;
+  year: number | null;
+  directors: string[];
+  tmdbId: number | null;
+  letterboxdUrl: string | null;
+  /** Half stars, 0.5-5 */
+  rating: number | null;
+  /** ISO timestamp */
+  seenAt: string | null;
+}
+
+const COLUMNS: Record<ExportList, string[]> = {
+  diary: ["LetterboxdURI", "tmdbID", "Title", "Year", "Directors", "Rating", "WatchedDate"],
+  watchlist: ["LetterboxdURI", "tmdbID", "Title", "Year", "Directors"],
+};
+
+export function buildLetterboxdCsv(films: LetterboxdExportFilm[], list: ExportList): string {
+  const rows: CsvValue[][] = [...films]
+    .sort((a, b) => (a.seenAt ?? "").localeCompare(b.seenAt ?? "") || a.title.localeCompare(b.title))
+    .map((film) => {
+      const row: CsvValue[] = [
+        film.letterboxdUrl,
+        film.tmdbId,
+        film.title,
+        film.year,
+        film.directors.join(", "),
+      ];
+      return list === "diary" ? [...row, film.rating, film.seenAt?.slice(0, 10)] : row;
+    });
+
+  return toCsv([COLUMNS[list], ...rows]);
+}
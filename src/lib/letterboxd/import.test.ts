@@ -0,0 +1,245 @@
+import { describe, it, expect } from "vitest";
+import type { FilmStatusEntry } from "@/stores/film-status";
+import {
+  letterboxdFilmUrl,
+  mergeLetterboxdEntries,
+  parseLetterboxdFile,
+  planLetterboxdImport,
+  resolveLetterboxdMatch,
+  type LetterboxdEntry,
+  type MatchCandidate,
+} from "./import";
+
+function candidate(overrides: Partial<MatchCandidate> = {}): MatchCandidate {
+  return {
+    id: "film-1",
+    title: "Stalker",
+    originalTitle: "Сталкер",
+    year: 1979,
+    directors: ["Andrei Tarkovsky"],
+    posterUrl: null,
+    tmdbId: 1398,
+    letterboxdUrl: "https://letterboxd.com/film/stalker/",
+    ...overrides,
+  };
+}
+
+function entry(overrides: Partial<LetterboxdEntry> = {}): LetterboxdEntry {
+  return {
+    key: "stalker|1979",
+    name: "Stalker",
+    year: 1979,
+    letterboxdUrl: null,
+    tmdbId: null,
+    status: "seen",
+    rating: null,
+    date: null,
+    ...overrides,
+  };
+}
+
+describe("parseLetterboxdFile", () => {
+  it("reads diary rows as seen, with half-star ratings and watch dates", () => {
+    const csv = [
+      "Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date",
+      '2024-03-02,"Crouching Tiger, Hidden Dragon",2000,https://boxd.it/abc,4.5,,,2024-03-01',
+      "2024-03-05,Stalker,1979,https://boxd.it/def,,,,2024-03-04",
+    ].join("\r\n");
+
+    const file = parseLetterboxdFile("diary.csv", csv);
+
+    expect(file.status).toBe("seen");
+    expect(file.entries).toEqual([
+      expect.objectContaining({
+        name: "Crouching Tiger, Hidden Dragon",
+        year: 2000,
+        rating: 4.5,
+        date: "2024-03-01",
+        letterboxdUrl: null,
+      }),
+      expect.objectContaining({ name: "Stalker", rating: null, date: "2024-03-04" }),
+    ]);
+  });
+
+  it("reads the watchlist as want to see", () => {
+    const file = parseLetterboxdFile(
+      "watchlist.csv",
+      "Date,Name,Year,Letterboxd URI\n2024-01-01,Mirror,1975,https://boxd.it/x\n"
+    );
+
+    expect(file.status).toBe("want_to_see");
+    expect(file.entries[0]).toMatchObject({ name: "Mirror", year: 1975, status: "want_to_see" });
+  });
+
+  it("reads list exports (after their header block) as not interested", () => {
+    const csv = [
+      "Letterboxd list export v7",
+      "Date,Name,Tags,URL,Description",
+      "2024-01-01,Not interested,,https://letterboxd.com/someone/list/not-interested/,",
+      "",
+      "Position,Name,Year,URL,Description",
+      "1,Cats,2019,https://letterboxd.com/film/cats-2019/,",
+    ].join("\n");
+
+    const file = parseLetterboxdFile("lists/not-interested.csv", csv);
+
+    expect(file.status).toBe("not_interested");
+    expect(file.entries).toEqual([
+      expect.objectContaining({
+        name: "Cats",
+        year: 2019,
+        letterboxdUrl: "https://letterboxd.com/film/cats-2019/",
+      }),
+    ]);
+  });
+
+  it("skips files it doesn't recognise", () => {
+    const file = parseLetterboxdFile("comments.csv", "Date,Content,Comment\n2024-01-01,x,y\n");
+
+    expect(file).toEqual({ fileName: "comments.csv", status: null, entries: [] });
+  });
+
+  it("reads our own export format back in", () => {
+    const file = parseLetterboxdFile(
+      "pictures-letterboxd-diary.csv",
+      "LetterboxdURI,tmdbID,Title,Year,Directors,Rating,WatchedDate\n,1398,Stalker,1979,Andrei Tarkovsky,4,2024-03-04\n"
+    );
+
+    expect(file.status).toBe("seen");
+    expect(file.entries[0]).toMatchObject({ name: "Stalker", tmdbId: 1398, rating: 4 });
+  });
+});
+
+describe("mergeLetterboxdEntries", () => {
+  it("combines a film across files: strongest status, latest rating", () => {
+    const merged = mergeLetterboxdEntries([
+      { fileName: "watchlist.csv", status: "want_to_see", entries: [entry({ status: "want_to_see" })] },
+      {
+        fileName: "diary.csv",
+        status: "seen",
+        entries: [entry({ rating: 3, date: "2023-01-01" }), entry({ rating: 5, date: "2024-01-01" })],
+      },
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ status: "seen", rating: 5, date: "2024-01-01" });
+  });
+});
+
+describe("letterboxdFilmUrl", () => {
+  it("normalises film pages and ignores short links", () => {
+    expect(letterboxdFilmUrl("https://letterboxd.com/film/stalker")).toBe(
+      "https://letterboxd.com/film/stalker/"
+    );
+    expect(letterboxdFilmUrl("https://letterboxd.com/someone/film/stalker/1/")).toBe(
+      "https://letterboxd.com/film/stalker/"
+    );
+    expect(letterboxdFilmUrl("https://boxd.it/abc")).toBeNull();
+  });
+});
+
+describe("resolveLetterboxdMatch", () => {
+  it("matches by Letterboxd URL, then TMDB ID", () => {
+    const film = candidate();
+
+    expect(
+      resolveLetterboxdMatch(entry({ name: "Other", letterboxdUrl: "https://letterboxd.com/film/stalker/" }), [film])
+    ).toEqual({ status: "matched", film, by: "letterboxd" });
+    expect(resolveLetterboxdMatch(entry({ name: "Other", tmdbId: 1398 }), [film])).toEqual({
+      status: "matched",
+      film,
+      by: "tmdb",
+    });
+  });
+
+  it("matches a unique title and year, ignoring case and accents", () => {
+    const film = candidate({ title: "Amélie", originalTitle: null, year: 2001 });
+
+    expect(resolveLetterboxdMatch(entry({ name: "AMELIE", year: 2001 }), [film])).toMatchObject({
+      status: "matched",
+      by: "title_year",
+    });
+  });
+
+  it("matches on the original title", () => {
+    const film = candidate();
+
+    expect(resolveLetterboxdMatch(entry({ name: "сталкер" }), [film])).toMatchObject({
+      status: "matched",
+    });
+  });
+
+  it("asks the user when several films fit or the year is a near miss", () => {
+    const remake = candidate({ id: "film-2", year: 1979, tmdbId: 2 });
+    const near = candidate({ id: "film-3", year: 1980, tmdbId: 3 });
+
+    expect(resolveLetterboxdMatch(entry(), [candidate(), remake])).toMatchObject({
+      status: "ambiguous",
+      candidates: [{ id: "film-1" }, { id: "film-2" }],
+    });
+    expect(resolveLetterboxdMatch(entry(), [near])).toMatchObject({
+      status: "ambiguous",
+      candidates: [{ id: "film-3" }],
+    });
+  });
+
+  it("doesn't match a different film with the same title", () => {
+    const remake = candidate({ year: 2024 });
+
+    expect(resolveLetterboxdMatch(entry(), [remake])).toEqual({ status: "unmatched" });
+  });
+});
+
+describe("planLetterboxdImport", () => {
+  const now = new Date("2024-06-01T10:00:00Z");
+
+  function existing(overrides: Partial<FilmStatusEntry>): FilmStatusEntry {
+    return { status: "want_to_see", addedAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-01T00:00:00.000Z", ...overrides };
+  }
+
+  it("adds new films with their rating and watch date", () => {
+    const plan = planLetterboxdImport(
+      {},
+      [{ entry: entry({ rating: 4, date: "2024-03-04" }), film: candidate() }],
+      now
+    );
+
+    expect(plan.added).toBe(1);
+    expect(plan.changes["film-1"]).toMatchObject({
+      status: "seen",
+      rating: 4,
+      seenAt: "2024-03-04T12:00:00.000Z",
+      filmTitle: "Stalker",
+      updatedAt: now.toISOString(),
+    });
+  });
+
+  it("moves watchlist films to seen but never downgrades", () => {
+    const plan = planLetterboxdImport(
+      {
+        "film-1": existing({ status: "want_to_see" }),
+        "film-2": existing({ status: "seen", rating: 2, seenAt: "2024-02-01T00:00:00.000Z" }),
+      },
+      [
+        { entry: entry({ rating: 4 }), film: candidate() },
+        { entry: entry({ status: "want_to_see" }), film: candidate({ id: "film-2" }) },
+      ],
+      now
+    );
+
+    expect(plan.changes["film-1"]).toMatchObject({ status: "seen", rating: 4 });
+    expect(plan.changes["film-2"]).toBeUndefined();
+    expect(plan).toMatchObject({ added: 0, updated: 1, unchanged: 1 });
+  });
+
+  it("keeps an existing rating", () => {
+    const plan = planLetterboxdImport(
+      { "film-1": existing({ status: "seen", rating: 2, seenAt: "2024-02-01T00:00:00.000Z" }) },
+      [{ entry: entry({ rating: 5 }), film: candidate() }],
+      now
+    );
+
+    expect(plan.changes).toEqual({});
+    expect(plan.unchanged).toBe(1);
+  });
+});
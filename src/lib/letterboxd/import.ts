@@ -0,0 +1,304 @@
+/**
+ * Letterboxd Import
+ *
+ * Reads the CSVs in a Letterboxd data export, matches the films to ours and
+ * works out what changes in the film status store. Pure - candidate films
+ * are loaded by the letterboxd repository.
+ *
+ * watched, diary, ratings and reviews become "seen", watchlist becomes
+ * "want to see", and any list export (e.g. a custom "Not interested" list)
+ * becomes "not interested".
+ */
+
+import type { FilmStatusEntry } from "@/stores/film-status";
+import { parseCsv } from "./csv";
+
+export type ImportStatus = "seen" | "want_to_see" | "not_interested";
+
+export interface LetterboxdEntry {
+  /** Identifies the film across files (normalised title and year) */
+  key: string;
+  name: string;
+  year: number | null;
+  /** letterboxd.com film page - boxd.it short links can't be matched */
+  letterboxdUrl: string | null;
+  tmdbId: number | null;
+  status: ImportStatus;
+  /** Half stars, 0.5-5 */
+  rating: number | null;
+  /** yyyy-MM-dd, when watched (or logged) */
+  date: string | null;
+}
+
+export interface ParsedLetterboxdFile {
+  fileName: string;
+  status: ImportStatus | null;
+  entries: LetterboxdEntry[];
+}
+
+export interface MatchCandidate {
+  id: string;
+  title: string;
+  originalTitle: string | null;
+  year: number | null;
+  directors: string[];
+  posterUrl: string | null;
+  tmdbId: number | null;
+  letterboxdUrl: string | null;
+}
+
+export type LetterboxdMatch =
+  | { status: "matched"; film: MatchCandidate; by: "letterboxd" | "tmdb" | "title_year" }
+  | { status: "ambiguous"; candidates: MatchCandidate[] }
+  | { status: "unmatched" };
+
+/** Stronger statuses replace weaker ones, never the reverse */
+const STATUS_RANK: Record<ImportStatus, number> = {
+  not_interested: 1,
+  want_to_see: 2,
+  seen: 3,
+};
+
+const SEEN_FILES = ["watched", "diary", "ratings", "reviews"];
+
+/** Lower-cased and unaccented, like search_normalize() in the database */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Canonical https://letterboxd.com/film/<slug>/ URL, or null for anything else */
+export function letterboxdFilmUrl(uri: string | null | undefined): string | null {
+  const slug = uri?.match(/letterboxd\.com\/(?:[^/]+\/)?film\/([^/?#]+)/)?.[1];
+  return slug ? `https://letterboxd.com/film/${slug}/` : null;
+}
+
+function headerKey(cell: string): string {
+  return cell.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function toInt(value: string | undefined): number | null {
+  const n = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Letterboxd rates in half stars (or out of 10), like we do */
+function toStars(rating: string | undefined, rating10: string | undefined): number | null {
+  const value = rating ? Number.parseFloat(rating) : rating10 ? Number.parseFloat(rating10) / 2 : NaN;
+  if (!Number.isFinite(value) || value <= 0) return null;
+  return Math.min(5, Math.max(0.5, Math.round(value * 2) / 2));
+}
+
+function fileStatus(fileName: string, rows: string[][], header: string[]): ImportStatus | null {
+  const base = fileName.toLowerCase().replace(/^.*[\\/]/, "").replace(/\.csv$/, "");
+
+  if (base.includes("watchlist")) return "want_to_see";
+  if (rows[0]?.[0]?.startsWith("Letterboxd list export")) return "not_interested";
+  if (SEEN_FILES.includes(base) || header.includes("rating") || header.includes("watcheddate")) {
+    return "seen";
+  }
+  return null;
+}
+
+/**
+ * Parse one CSV from a Letterboxd export (or one of our own exports).
+ * Unrecognised files come back with a null status and no entries.
+ */
+export function parseLetterboxdFile(fileName: string, text: string): ParsedLetterboxdFile {
+  const rows = parseCsv(text);
+
+  // List exports start with a description of the list; films follow a "Position" header
+  const headerIndex = Math.max(
+    0,
+    rows.findIndex((row) => row.map(headerKey).includes("position"))
+  );
+  const header = (rows[headerIndex] ?? []).map(headerKey);
+  const status = fileStatus(fileName, rows, header);
+
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const nameCol = column("name", "title");
+
+  if (!status || nameCol === -1) {
+    return { fileName, status: null, entries: [] };
+  }
+
+  const yearCol = column("year");
+  const uriCol = column("letterboxduri", "url");
+  const tmdbCol = column("tmdbid");
+  const ratingCol = column("rating");
+  const rating10Col = column("rating10");
+  const watchedCol = column("watcheddate");
+  const dateCol = column("date");
+
+  const entries: LetterboxdEntry[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const name = row[nameCol]?.trim();
+    if (!name) continue;
+
+    const year = toInt(row[yearCol]);
+    const date = row[watchedCol]?.trim() || row[dateCol]?.trim() || null;
+
+    entries.push({
+      key: `${normalizeTitle(name)}|${year ?? ""}`,
+      name,
+      year,
+      letterboxdUrl: letterboxdFilmUrl(row[uriCol]),
+      tmdbId: toInt(row[tmdbCol]),
+      status,
+      rating: status === "seen" ? toStars(row[ratingCol], row[rating10Col]) : null,
+      date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+    });
+  }
+
+  return { fileName, status, entries };
+}
+
+/**
+ * One entry per film across all files: the strongest status, the most
+ * recent rating and the latest date
+ */
+export function mergeLetterboxdEntries(files: ParsedLetterboxdFile[]): LetterboxdEntry[] {
+  const byKey = new Map<string, LetterboxdEntry>();
+
+  for (const entry of files.flatMap((f) => f.entries)) {
+    const existing = byKey.get(entry.key);
+    if (!existing) {
+      byKey.set(entry.key, { ...entry });
+      continue;
+    }
+
+    const newer = (entry.date ?? "") >= (existing.date ?? "");
+    byKey.set(entry.key, {
+      ...existing,
+      status: STATUS_RANK[entry.status] > STATUS_RANK[existing.status] ? entry.status : existing.status,
+      letterboxdUrl: existing.letterboxdUrl ?? entry.letterboxdUrl,
+      tmdbId: existing.tmdbId ?? entry.tmdbId,
+      rating: (newer ? entry.rating ?? existing.rating : existing.rating ?? entry.rating) ?? null,
+      date: newer ? entry.date ?? existing.date : existing.date,
+    });
+  }
+
+  return [...byKey.values()];
+}
+
+/**
+ * Pick our film for an entry from the candidates the repository found.
+ * Letterboxd URL and TMDB ID matches are certain; a title needs a single
+ * film of that year. Near misses (a year out, or films without a year) are
+ * left for the user to choose between.
+ */
+export function resolveLetterboxdMatch(
+  entry: Pick<LetterboxdEntry, "name" | "year" | "letterboxdUrl" | "tmdbId">,
+  candidates: MatchCandidate[]
+): LetterboxdMatch {
+  const byUrl = entry.letterboxdUrl
+    ? candidates.find((c) => c.letterboxdUrl && letterboxdFilmUrl(c.letterboxdUrl) === entry.letterboxdUrl)
+    : undefined;
+  if (byUrl) return { status: "matched", film: byUrl, by: "letterboxd" };
+
+  const byTmdb = entry.tmdbId ? candidates.find((c) => c.tmdbId === entry.tmdbId) : undefined;
+  if (byTmdb) return { status: "matched", film: byTmdb, by: "tmdb" };
+
+  const title = normalizeTitle(entry.name);
+  const sameTitle = candidates.filter(
+    (c) =>
+      normalizeTitle(c.title) === title ||
+      (c.originalTitle !== null && normalizeTitle(c.originalTitle) === title)
+  );
+
+  if (entry.year === null) {
+    return sameTitle.length === 1
+      ? { status: "matched", film: sameTitle[0], by: "title_year" }
+      : sameTitle.length > 1
+        ? { status: "ambiguous", candidates: sameTitle }
+        : { status: "unmatched" };
+  }
+
+  const sameYear = sameTitle.filter((c) => c.year === entry.year);
+  if (sameYear.length === 1) return { status: "matched", film: sameYear[0], by: "title_year" };
+  if (sameYear.length > 1) return { status: "ambiguous", candidates: sameYear };
+
+  const near = sameTitle.filter((c) => c.year === null || Math.abs(c.year - entry.year!) <= 1);
+  return near.length > 0 ? { status: "ambiguous", candidates: near } : { status: "unmatched" };
+}
+
+export interface ImportChoice {
+  entry: LetterboxdEntry;
+  film: MatchCandidate;
+}
+
+export interface ImportPlan {
+  /** New or changed store entries, by film ID */
+  changes: Record<string, FilmStatusEntry>;
+  added: number;
+  updated: number;
+  /** Already known here with the same or a stronger status */
+  unchanged: number;
+}
+
+/**
+ * Store entries to write for the chosen matches. Imports only ever move a
+ * film up (not interested -> want to see -> seen) and fill in missing
+ * ratings and watch dates; they never overwrite what's already here.
+ */
+export function planLetterboxdImport(
+  existing: Record<string, FilmStatusEntry>,
+  choices: ImportChoice[],
+  now = new Date()
+): ImportPlan {
+  const timestamp = now.toISOString();
+  const plan: ImportPlan = { changes: {}, added: 0, updated: 0, unchanged: 0 };
+
+  for (const { entry, film } of choices) {
+    const current = plan.changes[film.id] ?? existing[film.id];
+    const seenAt = entry.date ? new Date(`${entry.date}T12:00:00Z`).toISOString() : undefined;
+    const filmData = {
+      filmTitle: film.title,
+      filmYear: film.year,
+      filmDirectors: film.directors,
+      filmPosterUrl: film.posterUrl,
+    };
+
+    if (!current?.status) {
+      plan.changes[film.id] = {
+        status: entry.status,
+        addedAt: entry.date ? new Date(`${entry.date}T12:00:00Z`).toISOString() : timestamp,
+        ...(entry.status === "seen" && { seenAt: seenAt ?? timestamp }),
+        ...(entry.rating !== null && { rating: entry.rating }),
+        ...filmData,
+        updatedAt: timestamp,
+      };
+      plan.added++;
+      continue;
+    }
+
+    const upgrade = STATUS_RANK[entry.status] > STATUS_RANK[current.status];
+    const sameSeen = entry.status === "seen" && current.status === "seen";
+    const fillRating = (upgrade || sameSeen) && entry.rating !== null && !current.rating;
+    const fillSeenAt = (upgrade || sameSeen) && entry.status === "seen" && !current.seenAt;
+
+    if (!upgrade && !fillRating && !fillSeenAt) {
+      plan.unchanged++;
+      continue;
+    }
+
+    plan.changes[film.id] = {
+      ...current,
+      ...(upgrade && { status: entry.status }),
+      ...(fillSeenAt && { seenAt: seenAt ?? timestamp }),
+      ...(fillRating && { rating: entry.rating! }),
+      filmTitle: current.filmTitle ?? filmData.filmTitle,
+      filmYear: current.filmYear ?? filmData.filmYear,
+      filmDirectors: current.filmDirectors ?? filmData.filmDirectors,
+      filmPosterUrl: current.filmPosterUrl ?? filmData.filmPosterUrl,
+      updatedAt: timestamp,
+    };
+    if (existing[film.id]) plan.updated++;
+  }
+
+  return plan;
+}
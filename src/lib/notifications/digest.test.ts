@@ -0,0 +1,77 @@
+/**
+ * Watchlist Digest Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildDigest, digestSubject, type DigestItem } from "./digest";
+
+const recipient = { userId: "user_1", email: "ada@example.com", displayName: "Ada" };
+
+function item(overrides: Partial<DigestItem> = {}): DigestItem {
+  return {
+    type: "new_screenings",
+    screeningId: "s1",
+    filmId: "film-1",
+    filmTitle: "Stalker",
+    filmYear: 1979,
+    cinemaName: "BFI Southbank",
+    datetime: new Date("2026-10-20T18:30:00Z"),
+    bookingUrl: "https://example.com/book/s1",
+    ...overrides,
+  };
+}
+
+describe("digestSubject", () => {
+  it("counts a single type", () => {
+    expect(digestSubject([item(), item({ screeningId: "s2" })])).toBe(
+      "2 new screenings from your watchlist"
+    );
+  });
+
+  it("lists types in section order", () => {
+    expect(
+      digestSubject([
+        item(),
+        item({ screeningId: "s2", type: "last_chance" }),
+        item({ screeningId: "s3", type: "selling_fast" }),
+      ])
+    ).toBe("1 last chance, 1 selling fast and 1 new screening from your watchlist");
+  });
+});
+
+describe("buildDigest", () => {
+  it("returns null with nothing to send", () => {
+    expect(buildDigest(recipient, [])).toBeNull();
+  });
+
+  it("groups screenings by film under each section", () => {
+    const message = buildDigest(recipient, [
+      item({
+        screeningId: "s2",
+        datetime: new Date("2026-10-22T18:30:00Z"),
+        bookingUrl: "https://example.com/book/s2",
+      }),
+      item(),
+      item({ screeningId: "s3", filmId: "film-2", filmTitle: "Mirror", filmYear: 1975 }),
+      item({ screeningId: "s4", type: "last_chance", filmTitle: "Solaris", filmId: "film-3" }),
+    ])!;
+
+    expect(message.to).toBe("ada@example.com");
+    expect(message.text.startsWith("Hi Ada,")).toBe(true);
+    expect(message.text.indexOf("LAST CHANCE")).toBeLessThan(message.text.indexOf("NEW SCREENINGS"));
+    expect(message.text.match(/Stalker \(1979\)/g)).toHaveLength(1);
+    expect(message.text.indexOf("book/s1")).toBeLessThan(message.text.indexOf("book/s2"));
+    expect(message.html).toContain('href="https://pictures.london/film/film-2"');
+    expect(message.text).toContain("https://pictures.london/settings");
+  });
+
+  it("escapes HTML in titles and names", () => {
+    const message = buildDigest({ ...recipient, displayName: null }, [
+      item({ filmTitle: "<b>Bold</b> & Co", filmYear: null }),
+    ])!;
+
+    expect(message.text.startsWith("Hi,")).toBe(true);
+    expect(message.html).toContain("&lt;b&gt;Bold&lt;/b&gt; &amp; Co");
+    expect(message.html).not.toContain("<b>Bold</b>");
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Watchlist Digests
+ *
+ * Turns the screenings a user should hear about into one email: new
+ * screenings of films on their watchlist, final screenings coming up, and
+ * screenings selling fast. Pure - the queries live in the notification
+ * repository and sending in send-digests.ts.
+ */
+
+import type { NotificationType } from "@/db/schema";
+import type { EmailMessage } from "./transport";
+
+const BASE_URL = "https://pictures.london";
+
+export interface DigestItem {
+  type: NotificationType;
+  screeningId: string;
+  filmId: string;
+  filmTitle: string;
+  filmYear: number | null;
+  cinemaName: string;
+  datetime: Date;
+  bookingUrl: string;
+}
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  displayName: string | null;
+}
+
+/** Section order and wording */
+const SECTIONS: { type: NotificationType; heading: string; noun: [string, string] }[] = [
+  { type: "last_chance", heading: "Last chance", noun: ["last chance", "last chances"] },
+  { type: "selling_fast", heading: "Selling fast", noun: ["selling fast", "selling fast"] },
+  { type: "new_screenings", heading: "New screenings", noun: ["new screening", "new screenings"] },
+];
+
+export function formatWhen(datetime: Date): string {
+  return datetime.toLocaleString("en-GB", {
+    timeZone: "Europe/London",
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function filmLabel(item: DigestItem): string {
+  return item.filmYear ? `${item.filmTitle} (${item.filmYear})` : item.filmTitle;
+}
+
+/** Items of one type, grouped by film in order of each film's first screening */
+function groupByFilm(items: DigestItem[]): DigestItem[][] {
+  const byFilm = new Map<string, DigestItem[]>();
+  for (const item of [...items].sort((a, b) => a.datetime.getTime() - b.datetime.getTime())) {
+    byFilm.set(item.filmId, [...(byFilm.get(item.filmId) ?? []), item]);
+  }
+  return [...byFilm.values()];
+}
+
+/**
+ * "2 new screenings and 1 last chance from your watchlist"
+ */
+export function digestSubject(items: DigestItem[]): string {
+  const parts = SECTIONS.flatMap(({ type, noun }) => {
+    const count = items.filter((item) => item.type === type).length;
+    return count > 0 ? [`${count} ${noun[count === 1 ? 0 : 1]}`] : [];
+  });
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(", ")} and ${parts.at(-1)}` : parts[0];
+  return `${list} from your watchlist`;
+}
+
+/**
+ * Build the digest email. Returns null when there's nothing to send.
+ */
+export function buildDigest(recipient: DigestRecipient, items: DigestItem[]): EmailMessage | null {
+  if (items.length === 0) return null;
+
+  const greeting = recipient.displayName ? `Hi ${recipient.displayName},` : "Hi,";
+  const textSections: string[] = [];
+  const htmlSections: string[] = [];
+
+  for (const { type, heading } of SECTIONS) {
+    const films = groupByFilm(items.filter((item) => item.type === type));
+    if (films.length === 0) continue;
+
+    textSections.push(
+      [
+        heading.toUpperCase(),
+        ...films.flatMap((screenings) => [
+          filmLabel(screenings[0]),
+          ...screenings.map((s) => `  ${formatWhen(s.datetime)} - ${s.cinemaName}: ${s.bookingUrl}`),
+        ]),
+      ].join("\n")
+    );
+
+    htmlSections.push(
+      `<h2>${heading}</h2>` +
+        films
+          .map(
+            (screenings) =>
+              `<p><a href="${BASE_URL}/film/${escapeHtml(screenings[0].filmId)}"><strong>${escapeHtml(filmLabel(screenings[0]))}</strong></a></p><ul>` +
+              screenings
+                .map(
+                  (s) =>
+                    `<li>${escapeHtml(formatWhen(s.datetime))} &middot; ${escapeHtml(s.cinemaName)} &middot; <a href="${escapeHtml(s.bookingUrl)}">Book</a></li>`
+                )
+                .join("") +
+              "</ul>"
+          )
+          .join("")
+    );
+  }
+
+  const footer = `You're getting this because you turned on watchlist notifications. Change them at ${BASE_URL}/settings`;
+
+  return {
+    to: recipient.email,
+    subject: digestSubject(items),
+    text: [greeting, ...textSections, footer].join("\n\n"),
+    html:
+      `<p>${escapeHtml(greeting)}</p>${htmlSections.join("")}` +
+      `<p style="color:#888;font-size:12px">You're getting this because you turned on watchlist notifications. ` +
+      `<a href="${BASE_URL}/settings">Change them in settings</a>.</p>`,
+  };
+}
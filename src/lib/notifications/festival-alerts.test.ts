@@ -0,0 +1,165 @@
+/**
+ * Festival Alert Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { addHours, subDays, subHours } from "date-fns";
+import {
+  buildFestivalAlertEmail,
+  isProgrammeAnnouncement,
+  planFestivalAlerts,
+  type FestivalFollow,
+} from "./festival-alerts";
+
+const NOW = new Date("2026-09-01T09:00:00Z");
+
+function follow(overrides: Partial<FestivalFollow> = {}): FestivalFollow {
+  return {
+    userId: "user_1",
+    festivalId: "lff-2026",
+    festivalName: "BFI London Film Festival",
+    festivalSlug: "bfi-lff-2026",
+    interestLevel: "following",
+    notifyOnSale: true,
+    notifyProgramme: true,
+    notifyReminders: true,
+    followedAt: subDays(NOW, 30),
+    memberSaleDate: null,
+    publicSaleDate: null,
+    programmeScreeningCount: 0,
+    programmeUpdatedAt: null,
+    booked: [],
+    ...overrides,
+  };
+}
+
+const types = (f: FestivalFollow, delivered = new Set<string>()) =>
+  planFestivalAlerts(f, delivered, NOW).map((alert) => alert.type);
+
+describe("isProgrammeAnnouncement", () => {
+  it.each([
+    [0, 150, true],
+    [0, 5, false],
+    [200, 260, true],
+    [200, 215, false],
+    [10, 8, false],
+  ])("%i -> %i screenings is an announcement: %s", (previous, current, expected) => {
+    expect(isProgrammeAnnouncement(previous, current)).toBe(expected);
+  });
+});
+
+describe("planFestivalAlerts", () => {
+  const saleTomorrow = addHours(NOW, 20);
+
+  it("sends followers the public sale only", () => {
+    const f = follow({ memberSaleDate: saleTomorrow, publicSaleDate: saleTomorrow });
+    expect(types(f)).toEqual(["public_sale"]);
+  });
+
+  it("sends keener interest levels the member sale too", () => {
+    const f = follow({
+      interestLevel: "highly_interested",
+      memberSaleDate: saleTomorrow,
+      publicSaleDate: addHours(NOW, 30),
+    });
+    expect(types(f)).toEqual(["member_sale"]);
+  });
+
+  it("gives attendees more notice", () => {
+    const f = { memberSaleDate: addHours(NOW, 40) };
+    expect(types(follow({ ...f, interestLevel: "highly_interested" }))).toEqual([]);
+    expect(types(follow({ ...f, interestLevel: "attending" }))).toEqual(["member_sale"]);
+  });
+
+  it("skips sales that have opened", () => {
+    expect(types(follow({ publicSaleDate: subHours(NOW, 1) }))).toEqual([]);
+  });
+
+  it("honors the notify flags", () => {
+    const f = follow({
+      publicSaleDate: saleTomorrow,
+      programmeUpdatedAt: subHours(NOW, 2),
+      booked: [
+        {
+          screeningId: "s1",
+          filmTitle: "Opening Gala",
+          cinemaName: "Royal Festival Hall",
+          datetime: addHours(NOW, 10),
+          bookingConfirmation: null,
+        },
+      ],
+    });
+    expect(types(f)).toEqual(["public_sale", "programme", "screening_reminder"]);
+    expect(
+      types({ ...f, notifyOnSale: false, notifyProgramme: false, notifyReminders: false })
+    ).toEqual([]);
+  });
+
+  it("announces the programme only to people following before it, for a few days", () => {
+    const announced = { programmeUpdatedAt: subHours(NOW, 2) };
+    expect(types(follow({ ...announced, followedAt: subHours(NOW, 1) }))).toEqual([]);
+    expect(types(follow({ programmeUpdatedAt: subDays(NOW, 5) }))).toEqual([]);
+  });
+
+  it("reminds about booked screenings within a day", () => {
+    const screening = {
+      screeningId: "s1",
+      filmTitle: "Opening Gala",
+      cinemaName: "Royal Festival Hall",
+      bookingConfirmation: null,
+    };
+    const f = follow({
+      booked: [
+        { ...screening, datetime: addHours(NOW, 10) },
+        { ...screening, screeningId: "s2", datetime: addHours(NOW, 30) },
+      ],
+    });
+    expect(planFestivalAlerts(f, new Set(), NOW).map((a) => a.key)).toEqual(["reminder:s1"]);
+  });
+
+  it("skips alerts already delivered", () => {
+    const f = follow({ publicSaleDate: saleTomorrow });
+    expect(types(f, new Set([`public_sale:${saleTomorrow.toISOString()}`]))).toEqual([]);
+  });
+});
+
+describe("buildFestivalAlertEmail", () => {
+  const recipient = { userId: "user_1", email: "ada@example.com", displayName: null };
+
+  it("returns null with nothing to send", () => {
+    expect(buildFestivalAlertEmail(recipient, [])).toBeNull();
+  });
+
+  it("uses a single alert as the subject", () => {
+    const [alert] = planFestivalAlerts(
+      follow({ programmeUpdatedAt: subHours(NOW, 1), programmeScreeningCount: 240 }),
+      new Set(),
+      NOW
+    );
+    const message = buildFestivalAlertEmail(recipient, [alert])!;
+
+    expect(message.subject).toBe("BFI London Film Festival: the programme is out (240 screenings)");
+    expect(message.text).toContain("https://pictures.london/festivals/bfi-lff-2026");
+  });
+
+  it("counts several alerts and lists them soonest first", () => {
+    const alerts = planFestivalAlerts(
+      follow({
+        interestLevel: "attending",
+        memberSaleDate: addHours(NOW, 5),
+        publicSaleDate: addHours(NOW, 40),
+        programmeUpdatedAt: subHours(NOW, 1),
+        programmeScreeningCount: 240,
+      }),
+      new Set(),
+      NOW
+    );
+    const message = buildFestivalAlertEmail(recipient, alerts)!;
+
+    expect(message.subject).toBe("3 festival updates");
+    const lines = message.text.split("\n\n").slice(1, 4);
+    expect(lines[0]).toContain("the programme is out");
+    expect(lines[1]).toContain("member booking opens");
+    expect(lines[2]).toContain(": booking opens");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Festival Alerts
+ *
+ * Decides which alerts a festival follower is due - member and public sale
+ * opening, the programme being announced, and reminders for screenings
+ * they've booked - and turns them into one email. Pure - the queries live in
+ * the festival-alert repository and sending in send-festival-alerts.ts.
+ */
+
+import { subHours } from "date-fns";
+import type { FestivalAlertType, FestivalInterestLevel } from "@/db/schema";
+import { escapeHtml, formatWhen, type DigestRecipient } from "./digest";
+import type { EmailMessage } from "./transport";
+
+const BASE_URL = "https://pictures.london";
+
+/**
+ * What each interest level hears about. Followers only get the public sale;
+ * people planning to go also get member sales, and attendees get more notice.
+ */
+export const FESTIVAL_ALERT_POLICY: Record<
+  FestivalInterestLevel,
+  { sales: ("member_sale" | "public_sale")[]; saleLeadHours: number }
+> = {
+  following: { sales: ["public_sale"], saleLeadHours: 24 },
+  highly_interested: { sales: ["member_sale", "public_sale"], saleLeadHours: 24 },
+  attending: { sales: ["member_sale", "public_sale"], saleLeadHours: 48 },
+};
+
+/** Booked screenings are reminded this long before they start */
+export const REMINDER_LEAD_HOURS = 24;
+
+/** Programme alerts still go out this long after the announcement is spotted */
+export const PROGRAMME_ALERT_WINDOW_HOURS = 72;
+
+/** The fewest new festival screenings that count as a programme announcement */
+const PROGRAMME_JUMP_MIN_SCREENINGS = 10;
+
+/** ...and the smallest increase on the previous count */
+const PROGRAMME_JUMP_MIN_FRACTION = 0.25;
+
+export interface BookedScreening {
+  screeningId: string;
+  filmTitle: string;
+  cinemaName: string;
+  datetime: Date;
+  bookingConfirmation: string | null;
+}
+
+export interface FestivalFollow {
+  userId: string;
+  festivalId: string;
+  festivalName: string;
+  festivalSlug: string;
+  interestLevel: FestivalInterestLevel;
+  notifyOnSale: boolean;
+  notifyProgramme: boolean;
+  notifyReminders: boolean;
+  followedAt: Date;
+  memberSaleDate: Date | null;
+  publicSaleDate: Date | null;
+  programmeScreeningCount: number;
+  programmeUpdatedAt: Date | null;
+  /** Upcoming screenings the user has marked as booked */
+  booked: BookedScreening[];
+}
+
+export interface FestivalAlert {
+  type: FestivalAlertType;
+  /** Dedup key, unique per user and festival */
+  key: string;
+  festivalId: string;
+  festivalName: string;
+  festivalSlug: string;
+  /** When the sale opens, the programme was spotted or the screening starts */
+  at: Date;
+  screeningCount?: number;
+  screening?: BookedScreening;
+}
+
+/**
+ * Whether a festival's screening count grew enough to be a programme
+ * announcement rather than a few screenings trickling in
+ */
+export function isProgrammeAnnouncement(previous: number, current: number): boolean {
+  const added = current - previous;
+  return (
+    added >= PROGRAMME_JUMP_MIN_SCREENINGS && added >= previous * PROGRAMME_JUMP_MIN_FRACTION
+  );
+}
+
+/**
+ * The alerts a follower is due now, honoring their notify flags and
+ * interest level. Keys in `delivered` have already been sent.
+ */
+export function planFestivalAlerts(
+  follow: FestivalFollow,
+  delivered: Set<string>,
+  now = new Date()
+): FestivalAlert[] {
+  const festival = {
+    festivalId: follow.festivalId,
+    festivalName: follow.festivalName,
+    festivalSlug: follow.festivalSlug,
+  };
+  const alerts: FestivalAlert[] = [];
+  const add = (alert: FestivalAlert) => {
+    if (!delivered.has(alert.key)) alerts.push(alert);
+  };
+
+  if (follow.notifyOnSale) {
+    const policy = FESTIVAL_ALERT_POLICY[follow.interestLevel];
+    for (const type of policy.sales) {
+      const saleDate = type === "member_sale" ? follow.memberSaleDate : follow.publicSaleDate;
+      if (!saleDate || saleDate <= now || subHours(saleDate, policy.saleLeadHours) > now) continue;
+      add({ ...festival, type, key: `${type}:${saleDate.toISOString()}`, at: saleDate });
+    }
+  }
+
+  const announcedAt = follow.programmeUpdatedAt;
+  if (
+    follow.notifyProgramme &&
+    announcedAt &&
+    announcedAt > follow.followedAt &&
+    announcedAt > subHours(now, PROGRAMME_ALERT_WINDOW_HOURS)
+  ) {
+    add({
+      ...festival,
+      type: "programme",
+      key: `programme:${announcedAt.toISOString()}`,
+      at: announcedAt,
+      screeningCount: follow.programmeScreeningCount,
+    });
+  }
+
+  if (follow.notifyReminders) {
+    for (const screening of follow.booked) {
+      if (screening.datetime <= now || subHours(screening.datetime, REMINDER_LEAD_HOURS) > now) {
+        continue;
+      }
+      add({
+        ...festival,
+        type: "screening_reminder",
+        key: `reminder:${screening.screeningId}`,
+        at: screening.datetime,
+        screening,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+function describeAlert(alert: FestivalAlert): string {
+  switch (alert.type) {
+    case "member_sale":
+      return `${alert.festivalName}: member booking opens ${formatWhen(alert.at)}`;
+    case "public_sale":
+      return `${alert.festivalName}: booking opens ${formatWhen(alert.at)}`;
+    case "programme":
+      return `${alert.festivalName}: the programme is out (${alert.screeningCount} screenings)`;
+    case "screening_reminder": {
+      const { filmTitle, cinemaName, datetime, bookingConfirmation } = alert.screening!;
+      const reference = bookingConfirmation ? ` (booking ${bookingConfirmation})` : "";
+      return `Reminder: ${filmTitle} at ${cinemaName}, ${formatWhen(datetime)}${reference}`;
+    }
+  }
+}
+
+/**
+ * Build one email for a user's due alerts, soonest first.
+ * Returns null when there's nothing to send.
+ */
+export function buildFestivalAlertEmail(
+  recipient: DigestRecipient,
+  alerts: FestivalAlert[]
+): EmailMessage | null {
+  if (alerts.length === 0) return null;
+
+  const sorted = [...alerts].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const greeting = recipient.displayName ? `Hi ${recipient.displayName},` : "Hi,";
+  const lines = sorted.map((alert) => ({
+    text: describeAlert(alert),
+    url: `${BASE_URL}/festivals/${alert.festivalSlug}`,
+  }));
+  const footer = "You're getting this because you follow these festivals. Unfollow one on its page to stop its alerts.";
+
+  return {
+    to: recipient.email,
+    subject: sorted.length === 1 ? lines[0].text : `${sorted.length} festival updates`,
+    text: [greeting, ...lines.map((line) => `${line.text}\n  ${line.url}`), footer].join("\n\n"),
+    html:
+      `<p>${escapeHtml(greeting)}</p><ul>` +
+      lines
+        .map((line) => `<li><a href="${escapeHtml(line.url)}">${escapeHtml(line.text)}</a></li>`)
+        .join("") +
+      `</ul><p style="color:#888;font-size:12px">${escapeHtml(footer)}</p>`,
+  };
+}
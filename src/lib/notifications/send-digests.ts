@@ -0,0 +1,62 @@
+/**
+ * Send Watchlist Digests
+ *
+ * Runs after scrapes (see sendNotificationDigests in inngest/functions.ts):
+ * finds users due a digest, collects what they haven't been told about, and
+ * sends one email each. Deliveries are recorded only after a successful send,
+ * so a failed send is retried by the next run, and never for preview
+ * transports (console, file).
+ */
+
+import {
+  getDigestItems,
+  getDigestRecipients,
+  recordDigestDelivery,
+} from "@/db/repositories/notification";
+import { buildDigest } from "./digest";
+import { getNotificationTransport, type NotificationTransport } from "./transport";
+
+export interface DigestRunResult {
+  transport: string;
+  recipients: number;
+  sent: number;
+  items: number;
+  failed: number;
+}
+
+export async function sendWatchlistDigests(
+  transport: NotificationTransport = getNotificationTransport(),
+  now = new Date()
+): Promise<DigestRunResult> {
+  const recipients = await getDigestRecipients(now);
+  const result: DigestRunResult = {
+    transport: transport.name,
+    recipients: recipients.length,
+    sent: 0,
+    items: 0,
+    failed: 0,
+  };
+
+  for (const recipient of recipients) {
+    try {
+      const items = await getDigestItems(recipient, now);
+      const message = buildDigest(recipient, items);
+      if (!message) continue;
+
+      await transport.send(message);
+      if (transport.delivers) {
+        await recordDigestDelivery(recipient.userId, items, now);
+      }
+      result.sent++;
+      result.items += items.length;
+    } catch (error) {
+      result.failed++;
+      console.error(`[Notifications] Digest failed for ${recipient.userId}:`, error);
+    }
+  }
+
+  console.log(
+    `[Notifications] ${result.sent} digests sent via ${result.transport} (${result.items} screenings, ${result.failed} failed)`
+  );
+  return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * Send Festival Alerts
+ *
+ * Runs hourly (see scheduledFestivalAlerts in inngest/functions.ts): spots
+ * programme announcements, then sends each follower one email with the
+ * alerts they're due. Deliveries are recorded only after a successful send,
+ * so a failed send is retried by the next run, and never for preview
+ * transports (console, file).
+ */
+
+import {
+  getFestivalAlertRecipients,
+  recordFestivalAlertDeliveries,
+  refreshProgrammeCounts,
+} from "@/db/repositories/festival-alert";
+import { buildFestivalAlertEmail, planFestivalAlerts } from "./festival-alerts";
+import { getNotificationTransport, type NotificationTransport } from "./transport";
+
+export interface FestivalAlertRunResult {
+  transport: string;
+  announced: string[];
+  recipients: number;
+  sent: number;
+  alerts: number;
+  failed: number;
+}
+
+export async function sendFestivalAlerts(
+  transport: NotificationTransport = getNotificationTransport(),
+  now = new Date()
+): Promise<FestivalAlertRunResult> {
+  const announced = await refreshProgrammeCounts(now);
+  const recipients = await getFestivalAlertRecipients(now);
+  const result: FestivalAlertRunResult = {
+    transport: transport.name,
+    announced,
+    recipients: recipients.length,
+    sent: 0,
+    alerts: 0,
+    failed: 0,
+  };
+
+  for (const recipient of recipients) {
+    const alerts = recipient.follows.flatMap((follow) =>
+      planFestivalAlerts(follow, recipient.delivered.get(follow.festivalId) ?? new Set(), now)
+    );
+    const message = buildFestivalAlertEmail(recipient, alerts);
+    if (!message) continue;
+
+    try {
+      await transport.send(message);
+      if (transport.delivers) {
+        await recordFestivalAlertDeliveries(recipient.userId, alerts, now);
+      }
+      result.sent++;
+      result.alerts += alerts.length;
+    } catch (error) {
+      result.failed++;
+      console.error(`[Notifications] Festival alerts failed for ${recipient.userId}:`, error);
+    }
+  }
+
+  console.log(
+    `[Notifications] ${result.sent} festival alert emails sent via ${result.transport} (${result.alerts} alerts, ${result.failed} failed)`
+  );
+  return result;
+}
@@ -0,0 +1,97 @@
+/**
+ * Notification Transport and Delivery Recording Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/db/repositories/notification", () => ({
+  getDigestRecipients: vi.fn(),
+  getDigestItems: vi.fn(),
+  recordDigestDelivery: vi.fn(),
+}));
+
+import {
+  getDigestItems,
+  getDigestRecipients,
+  recordDigestDelivery,
+} from "@/db/repositories/notification";
+import { sendWatchlistDigests } from "./send-digests";
+import { ConsoleTransport, getNotificationTransport, type NotificationTransport } from "./transport";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("getNotificationTransport", () => {
+  it("defaults to the console in development", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    vi.stubEnv("NOTIFICATION_TRANSPORT", undefined);
+
+    expect(getNotificationTransport().name).toBe("console");
+  });
+
+  it("throws outside development when no transport is set", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("NOTIFICATION_TRANSPORT", undefined);
+
+    expect(() => getNotificationTransport()).toThrow("NOTIFICATION_TRANSPORT is not set");
+  });
+
+  it("uses the configured transport", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("NOTIFICATION_TRANSPORT", "resend");
+    vi.stubEnv("RESEND_API_KEY", "re_test");
+
+    expect(getNotificationTransport()).toMatchObject({ name: "resend", delivers: true });
+  });
+});
+
+describe("sendWatchlistDigests", () => {
+  const now = new Date("2026-10-18T12:00:00Z");
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.mocked(recordDigestDelivery).mockReset();
+    vi.mocked(getDigestRecipients).mockResolvedValue([
+      {
+        userId: "user_1",
+        email: "ada@example.com",
+        displayName: "Ada",
+        newScreenings: true,
+        lastChance: true,
+        lastChanceDays: 3,
+        sellingFast: true,
+        newSince: new Date("2026-10-17T12:00:00Z"),
+      },
+    ]);
+    vi.mocked(getDigestItems).mockResolvedValue([
+      {
+        type: "new_screenings",
+        screeningId: "s1",
+        filmId: "film-1",
+        filmTitle: "Stalker",
+        filmYear: 1979,
+        cinemaName: "BFI Southbank",
+        datetime: new Date("2026-10-20T18:30:00Z"),
+        bookingUrl: "https://example.com/book/s1",
+      },
+    ]);
+  });
+
+  it("records deliveries once the email is sent", async () => {
+    const transport: NotificationTransport = { name: "resend", delivers: true, send: vi.fn() };
+
+    const result = await sendWatchlistDigests(transport, now);
+
+    expect(result.sent).toBe(1);
+    expect(recordDigestDelivery).toHaveBeenCalledWith("user_1", expect.any(Array), now);
+  });
+
+  it("doesn't record a console preview as delivered", async () => {
+    const result = await sendWatchlistDigests(new ConsoleTransport(), now);
+
+    expect(result.sent).toBe(1);
+    expect(recordDigestDelivery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Notification Transports
+ *
+ * Digests are plain email messages handed to a transport. Production sends
+ * through Resend's HTTP API; development can print messages to the console
+ * or write them to files to open in a browser. Pick one with
+ * NOTIFICATION_TRANSPORT ("resend" | "file" | "console"). It must be set
+ * outside development, where it defaults to console.
+ *
+ * Console and file are previews: nothing reaches the recipient, so senders
+ * don't record those messages as delivered.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface NotificationTransport {
+  name: string;
+  /** False for previews - deliveries aren't recorded, so the real send still happens */
+  delivers: boolean;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Pictures <alerts@pictures.london>";
+const DEFAULT_OUTBOX_DIR = ".notifications";
+
+/**
+ * Logs messages - the development default, so nothing is emailed by accident
+ */
+export class ConsoleTransport implements NotificationTransport {
+  name = "console";
+  delivers = false;
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[Notifications] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message as an HTML file to a local outbox directory
+ */
+export class FileTransport implements NotificationTransport {
+  name = "file";
+  delivers = false;
+
+  constructor(private readonly dir = DEFAULT_OUTBOX_DIR) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const slug = message.to.replace(/[^a-z0-9]+/gi, "-");
+    const file = path.join(this.dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}.html`);
+    await writeFile(
+      file,
+      `<!-- To: ${message.to} | Subject: ${message.subject} -->\n${message.html}`,
+      "utf8"
+    );
+    console.log(`[Notifications] Wrote ${file}`);
+  }
+}
+
+/**
+ * Sends through Resend (https://resend.com/docs/api-reference/emails/send-email)
+ */
+export class ResendTransport implements NotificationTransport {
+  name = "resend";
+  delivers = true;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly from = DEFAULT_FROM
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend API error ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Transport configured by the environment.
+ * Throws outside development when none is configured, rather than quietly
+ * logging messages that were meant to be emailed.
+ */
+export function getNotificationTransport(): NotificationTransport {
+  const kind =
+    process.env.NOTIFICATION_TRANSPORT ??
+    (process.env.NODE_ENV === "development" ? "console" : undefined);
+
+  switch (kind) {
+    case undefined:
+      throw new Error(
+        'NOTIFICATION_TRANSPORT is not set - use "resend" to send, or "console" / "file" to preview'
+      );
+    case "resend": {
+      const apiKey = process.env.RESEND_API_KEY;
+      if (!apiKey) {
+        throw new Error("NOTIFICATION_TRANSPORT=resend requires RESEND_API_KEY");
+      }
+      return new ResendTransport(apiKey, process.env.NOTIFICATION_FROM || DEFAULT_FROM);
+    }
+    case "file":
+      return new FileTransport(process.env.NOTIFICATION_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown NOTIFICATION_TRANSPORT: ${kind}`);
+  }
+}
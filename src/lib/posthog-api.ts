@@ -62,9 +62,21 @@ async function posthogFetch<T>(
     throw new Error(`PostHog API error (${response.status}): ${errorText}`);
   }
 
+  // DELETE returns 204 with no body
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
   return response.json();
 }
 
+/**
+ * Whether the personal API key and project ID are both set
+ */
+export function isPostHogApiConfigured(): boolean {
+  return Boolean(process.env.POSTHOG_PERSONAL_API_KEY && process.env.POSTHOG_PROJECT_ID);
+}
+
 // ============================================
 // TYPES
 // ============================================
@@ -293,6 +305,28 @@ export async function getPersonByDistinctId(
   }
 }
 
+/**
+ * Delete a person and their events (for account deletion)
+ * Unlike getPersonByDistinctId, lookup errors are thrown - "not_found" must
+ * mean PostHog has nothing for this user, not that the request failed.
+ */
+export async function deletePersonByDistinctId(
+  distinctId: string
+): Promise<"deleted" | "not_found"> {
+  const projectId = getProjectId();
+  const result = await posthogFetch<PaginatedResponse<PostHogPerson>>(
+    `/api/projects/${projectId}/persons/?distinct_id=${encodeURIComponent(distinctId)}`
+  );
+  const person = result.results[0];
+  if (!person) return "not_found";
+
+  await posthogFetch<void>(
+    `/api/projects/${projectId}/persons/${encodeURIComponent(person.id)}/?delete_events=true`,
+    { method: "DELETE" }
+  );
+  return "deleted";
+}
+
 // ============================================
 // INSIGHTS & TRENDS
 // ============================================
@@ -0,0 +1,115 @@
+/**
+ * Public API Request Handling
+ *
+ * Wraps /api/v1 route handlers with API key authentication, per-key rate
+ * limiting and the standard error format.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { z } from "zod";
+import {
+  BadRequestError,
+  RateLimitError,
+  UnauthorizedError,
+  handleApiError,
+} from "@/lib/api-errors";
+import { checkRateLimit, type RateLimitResult } from "@/lib/rate-limit";
+import { findActiveApiKey, type ApiKeySummary } from "@/db/repositories/api-key";
+import { getApiKeyFromRequest } from "./keys";
+import { selectFields, type Page } from "./pagination";
+
+const RATE_LIMIT_WINDOW_SEC = 60;
+
+/**
+ * Responses depend on the key, so shared caches must not store them
+ */
+const CACHE_HEADERS = {
+  "Cache-Control": "private, max-age=60",
+};
+
+type RouteHandler<C> = (
+  request: NextRequest,
+  context: C & { apiKey: ApiKeySummary }
+) => Promise<NextResponse>;
+
+function setRateLimitHeaders(response: NextResponse, limit: number, result: RateLimitResult) {
+  response.headers.set("X-RateLimit-Limit", String(limit));
+  response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+  response.headers.set("X-RateLimit-Reset", String(result.resetIn));
+}
+
+/**
+ * Require a valid API key and apply its rate limit before running `handler`
+ */
+export function withApiKey<C extends object = object>(operation: string, handler: RouteHandler<C>) {
+  return async (request: NextRequest, context: C): Promise<NextResponse> => {
+    try {
+      const key = getApiKeyFromRequest(request);
+      if (!key) {
+        throw new UnauthorizedError("Missing API key");
+      }
+
+      const apiKey = await findActiveApiKey(key);
+      if (!apiKey) {
+        throw new UnauthorizedError("Invalid or revoked API key");
+      }
+
+      const rateLimit = checkRateLimit(apiKey.id, {
+        limit: apiKey.rateLimitPerMinute,
+        windowSec: RATE_LIMIT_WINDOW_SEC,
+        prefix: "api-v1",
+      });
+      if (!rateLimit.success) {
+        throw new RateLimitError("Rate limit exceeded", rateLimit.resetIn);
+      }
+
+      const response = await handler(request, { ...context, apiKey });
+      setRateLimitHeaders(response, apiKey.rateLimitPerMinute, rateLimit);
+      return response;
+    } catch (error) {
+      return handleApiError(error, operation);
+    }
+  };
+}
+
+/**
+ * Validate query parameters against a schema (empty values count as absent)
+ */
+export function parseQuery<T extends z.ZodType>(request: NextRequest, schema: T): z.output<T> {
+  const params = Object.fromEntries(
+    [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== "")
+  );
+
+  const parseResult = schema.safeParse(params);
+  if (!parseResult.success) {
+    throw new BadRequestError("Invalid query parameters", parseResult.error.flatten());
+  }
+  return parseResult.data;
+}
+
+/**
+ * "true"/"false" query values as a boolean filter (absent = no filter)
+ */
+export function parseBooleanParam(value: "true" | "false" | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === "true";
+}
+
+/**
+ * List response: `{ data, meta: { count, nextCursor } }`
+ */
+export function listResponse<T extends object>(page: Page<T>, fields: string[] | null): NextResponse {
+  return NextResponse.json(
+    {
+      data: page.data.map((item) => selectFields(item, fields)),
+      meta: { count: page.data.length, nextCursor: page.nextCursor },
+    },
+    { headers: CACHE_HEADERS }
+  );
+}
+
+/**
+ * Single resource response: `{ data }`
+ */
+export function itemResponse<T extends object>(item: T, fields: string[] | null): NextResponse {
+  return NextResponse.json({ data: selectFields(item, fields) }, { headers: CACHE_HEADERS });
+}
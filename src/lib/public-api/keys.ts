@@ -0,0 +1,44 @@
+/**
+ * API Key Helpers
+ * Generating, hashing and reading public API keys
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+/** Every key starts with this, so leaked keys are easy to recognise */
+export const API_KEY_PREFIX = "pl_";
+
+/** Characters of the key stored in the clear for display */
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export interface GeneratedApiKey {
+  /** The full key - shown once, never stored */
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Read the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || null;
+  }
+
+  return request.headers.get("x-api-key")?.trim() || null;
+}
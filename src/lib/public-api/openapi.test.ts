@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { buildOpenApiDocument } from "./openapi";
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument("https://example.com");
+
+  it("points at the versioned server", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.servers).toEqual([{ url: "https://example.com/api/v1" }]);
+  });
+
+  it("documents every list and item endpoint", () => {
+    expect(Object.keys(doc.paths).sort()).toEqual([
+      "/cinemas",
+      "/cinemas/{id}",
+      "/festivals",
+      "/festivals/{slug}",
+      "/films",
+      "/films/{id}",
+      "/screenings",
+      "/seasons",
+      "/seasons/{slug}",
+    ]);
+  });
+
+  it("derives query parameters from the zod schemas", () => {
+    const screenings = doc.paths["/screenings"] as {
+      get: { parameters: { name: string; description?: string; schema: Record<string, unknown> }[] };
+    };
+    const params = Object.fromEntries(screenings.get.parameters.map((p) => [p.name, p]));
+
+    expect(Object.keys(params)).toEqual(
+      expect.arrayContaining(["startDate", "cinemas", "festival", "film", "cursor", "limit", "fields"])
+    );
+    expect(params.cinemas.description).toBe("Comma-separated cinema IDs");
+    expect(params.limit.schema).toMatchObject({ type: "integer", maximum: 200 });
+    expect(params.repertory.schema).toMatchObject({ enum: ["true", "false"] });
+  });
+
+  it("generates component schemas for each resource", () => {
+    const schemas = doc.components.schemas as Record<string, { properties?: object; $schema?: string }>;
+
+    for (const name of ["Film", "Cinema", "Screening", "Season", "Festival"]) {
+      expect(schemas[name].properties).toBeDefined();
+      expect(schemas[name].$schema).toBeUndefined();
+    }
+    expect(schemas.Screening.properties).toHaveProperty("film");
+  });
+});
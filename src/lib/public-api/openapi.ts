@@ -0,0 +1,265 @@
+/**
+ * Public API OpenAPI Document
+ *
+ * Built from the zod schemas in schemas.ts, so the document can't drift from
+ * the validation the routes actually run. Served at /api/v1/openapi.json.
+ */
+
+import { z } from "zod";
+import {
+  cinemaResource,
+  festivalResource,
+  filmResource,
+  itemQuerySchema,
+  screeningResource,
+  seasonResource,
+  v1CinemasQuerySchema,
+  v1FestivalsQuerySchema,
+  v1FilmsQuerySchema,
+  v1ScreeningsQuerySchema,
+  v1SeasonsQuerySchema,
+} from "./schemas";
+
+export const API_VERSION = "1.0.0";
+
+type JsonSchema = Record<string, unknown>;
+
+interface ListEndpoint {
+  path: string;
+  summary: string;
+  resource: string;
+  query: z.ZodObject;
+}
+
+interface ItemEndpoint {
+  path: string;
+  summary: string;
+  resource: string;
+  param: { name: string; description: string };
+}
+
+const RESOURCES: Record<string, z.ZodObject> = {
+  Film: filmResource,
+  Cinema: cinemaResource,
+  Screening: screeningResource,
+  Season: seasonResource,
+  Festival: festivalResource,
+};
+
+const LIST_ENDPOINTS: ListEndpoint[] = [
+  { path: "/films", summary: "List films", resource: "Film", query: v1FilmsQuerySchema },
+  { path: "/cinemas", summary: "List cinemas", resource: "Cinema", query: v1CinemasQuerySchema },
+  {
+    path: "/screenings",
+    summary: "List screenings in time order",
+    resource: "Screening",
+    query: v1ScreeningsQuerySchema,
+  },
+  { path: "/seasons", summary: "List seasons", resource: "Season", query: v1SeasonsQuerySchema },
+  {
+    path: "/festivals",
+    summary: "List festivals",
+    resource: "Festival",
+    query: v1FestivalsQuerySchema,
+  },
+];
+
+const ITEM_ENDPOINTS: ItemEndpoint[] = [
+  {
+    path: "/films/{id}",
+    summary: "Get a film",
+    resource: "Film",
+    param: { name: "id", description: "Film ID" },
+  },
+  {
+    path: "/cinemas/{id}",
+    summary: "Get a cinema",
+    resource: "Cinema",
+    param: { name: "id", description: "Cinema ID, e.g. bfi-southbank" },
+  },
+  {
+    path: "/seasons/{slug}",
+    summary: "Get a season",
+    resource: "Season",
+    param: { name: "slug", description: "Season slug" },
+  },
+  {
+    path: "/festivals/{slug}",
+    summary: "Get a festival",
+    resource: "Festival",
+    param: { name: "slug", description: "Festival slug, e.g. bfi-lff-2025" },
+  },
+];
+
+const ERROR_RESPONSES = {
+  "400": { $ref: "#/components/responses/BadRequest" },
+  "401": { $ref: "#/components/responses/Unauthorized" },
+  "429": { $ref: "#/components/responses/RateLimited" },
+};
+
+function ref(resource: string) {
+  return { $ref: `#/components/schemas/${resource}` };
+}
+
+/**
+ * Component schemas are embedded, so they drop their own $schema/$id
+ */
+function toComponent(schema: JsonSchema): JsonSchema {
+  const component = { ...schema };
+  delete component.$schema;
+  delete component.$id;
+  return component;
+}
+
+/**
+ * One OpenAPI parameter per property of a query schema
+ */
+function queryParameters(schema: z.ZodObject) {
+  const json = z.toJSONSchema(schema, { io: "input" }) as {
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(json.properties).map(([name, { description, ...property }]) => ({
+    name,
+    in: "query",
+    required: json.required?.includes(name) ?? false,
+    ...(description ? { description } : {}),
+    schema: property,
+  }));
+}
+
+function componentSchemas(): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(RESOURCES)) {
+    registry.add(schema, { id });
+  }
+
+  const { schemas } = z.toJSONSchema(registry, {
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => [id, toComponent(schema as JsonSchema)])
+  );
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: ref("Error") } },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, unknown> = {};
+
+  for (const endpoint of LIST_ENDPOINTS) {
+    paths[endpoint.path] = {
+      get: {
+        summary: endpoint.summary,
+        tags: [endpoint.resource],
+        parameters: queryParameters(endpoint.query),
+        responses: {
+          "200": {
+            description: `A page of ${endpoint.resource.toLowerCase()}s`,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: ref(endpoint.resource) },
+                    meta: ref("PageMeta"),
+                  },
+                  required: ["data", "meta"],
+                },
+              },
+            },
+          },
+          ...ERROR_RESPONSES,
+        },
+      },
+    };
+  }
+
+  for (const endpoint of ITEM_ENDPOINTS) {
+    paths[endpoint.path] = {
+      get: {
+        summary: endpoint.summary,
+        tags: [endpoint.resource],
+        parameters: [
+          {
+            name: endpoint.param.name,
+            in: "path",
+            required: true,
+            description: endpoint.param.description,
+            schema: { type: "string" },
+          },
+          ...queryParameters(itemQuerySchema),
+        ],
+        responses: {
+          "200": {
+            description: `The ${endpoint.resource.toLowerCase()}`,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: ref(endpoint.resource) },
+                  required: ["data"],
+                },
+              },
+            },
+          },
+          ...ERROR_RESPONSES,
+          "404": errorResponse(`${endpoint.resource} not found`),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Pictures London API",
+      version: API_VERSION,
+      description:
+        "Read-only access to London cinema listings. Send your API key as `Authorization: Bearer <key>` or `X-API-Key: <key>`. Lists are cursor-paginated: pass `meta.nextCursor` back as `cursor` until it is null.",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        ...componentSchemas(),
+        PageMeta: {
+          type: "object",
+          properties: {
+            count: { type: "integer" },
+            nextCursor: { type: ["string", "null"] },
+          },
+          required: ["count", "nextCursor"],
+        },
+        Error: {
+          type: "object",
+          properties: {
+            error: { type: "string" },
+            code: { type: "string" },
+            details: {},
+          },
+          required: ["error"],
+        },
+      },
+      responses: {
+        BadRequest: errorResponse("Invalid parameters or cursor"),
+        Unauthorized: errorResponse("Missing, invalid or revoked API key"),
+        RateLimited: {
+          ...errorResponse("Rate limit exceeded - retry after `Retry-After` seconds"),
+          headers: { "Retry-After": { schema: { type: "integer" } } },
+        },
+      },
+    },
+  };
+}
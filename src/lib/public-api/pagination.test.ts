@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { BadRequestError } from "@/lib/api-errors";
+import {
+  decodeCursor,
+  encodeCursor,
+  isDateCursor,
+  isDateTimeCursor,
+  parseFields,
+  selectFields,
+  toPage,
+} from "./pagination";
+
+describe("cursors", () => {
+  it("round-trips a sort key", () => {
+    const key = ["2026-10-18T19:30:00.000Z", "screening-1"];
+    expect(decodeCursor(encodeCursor(key), 2)).toEqual(key);
+  });
+
+  it("rejects cursors that aren't base64url JSON", () => {
+    expect(() => decodeCursor("not-a-cursor", 1)).toThrow(BadRequestError);
+  });
+
+  it("rejects cursors of the wrong shape", () => {
+    expect(() => decodeCursor(encodeCursor(["a"]), 2)).toThrow("Invalid cursor");
+    expect(() =>
+      decodeCursor(Buffer.from(JSON.stringify([1, 2])).toString("base64url"), 2)
+    ).toThrow("Invalid cursor");
+  });
+
+  it("rejects keys the validator refuses", () => {
+    expect(() => decodeCursor(encodeCursor(["yesterday", "id"]), 2, isDateTimeCursor)).toThrow(
+      "Invalid cursor"
+    );
+    expect(() => decodeCursor(encodeCursor(["2026-10-18T10", "id"]), 2, isDateCursor)).toThrow(
+      "Invalid cursor"
+    );
+    expect(decodeCursor(encodeCursor(["2026-10-18", "id"]), 2, isDateCursor)).toEqual([
+      "2026-10-18",
+      "id",
+    ]);
+  });
+});
+
+describe("toPage", () => {
+  const keyOf = (row: { id: string }) => [row.id];
+
+  it("has no next cursor when the extra row wasn't fetched", () => {
+    const page = toPage([{ id: "a" }, { id: "b" }], 2, keyOf);
+    expect(page).toEqual({ data: [{ id: "a" }, { id: "b" }], nextCursor: null });
+  });
+
+  it("drops the extra row and points the cursor at the last returned row", () => {
+    const page = toPage([{ id: "a" }, { id: "b" }, { id: "c" }], 2, keyOf);
+    expect(page.data).toEqual([{ id: "a" }, { id: "b" }]);
+    expect(decodeCursor(page.nextCursor!, 1)).toEqual(["b"]);
+  });
+});
+
+describe("field selection", () => {
+  const allowed = ["id", "title", "year"];
+
+  it("returns null when no fields are requested", () => {
+    expect(parseFields(undefined, allowed)).toBeNull();
+    expect(parseFields(" , ", allowed)).toBeNull();
+  });
+
+  it("trims and de-duplicates fields", () => {
+    expect(parseFields("title, id,title", allowed)).toEqual(["title", "id"]);
+  });
+
+  it("rejects unknown fields", () => {
+    expect(() => parseFields("title,rating", allowed)).toThrow("Unknown fields: rating");
+  });
+
+  it("keeps only the selected fields", () => {
+    const film = { id: "f1", title: "Stalker", year: 1979 };
+    expect(selectFields(film, ["id", "year"])).toEqual({ id: "f1", year: 1979 });
+    expect(selectFields(film, null)).toBe(film);
+  });
+});
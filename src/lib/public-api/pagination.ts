@@ -0,0 +1,103 @@
+/**
+ * Public API Pagination
+ *
+ * Lists are keyset-paginated: the cursor is the sort key of the last row
+ * returned, so pages stay stable while screenings are added or removed.
+ * Cursors are opaque to clients (base64url JSON).
+ */
+
+import { BadRequestError } from "@/lib/api-errors";
+import { DEFAULT_PAGE_SIZE } from "./schemas";
+
+/** Sort key of a row, e.g. [datetime ISO string, id] */
+export type CursorKey = string[];
+
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+export function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced for a list sorted by `length` columns
+ * `isValid` can reject keys whose parts don't parse (e.g. a bad date).
+ */
+export function decodeCursor(
+  cursor: string,
+  length: number,
+  isValid: (key: CursorKey) => boolean = () => true
+): CursorKey {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new BadRequestError("Invalid cursor");
+  }
+
+  if (
+    !Array.isArray(key) ||
+    key.length !== length ||
+    !key.every((part) => typeof part === "string") ||
+    !isValid(key)
+  ) {
+    throw new BadRequestError("Invalid cursor");
+  }
+  return key;
+}
+
+/** Cursor validator for lists keyed by [YYYY-MM-DD, id] */
+export function isDateCursor([date]: CursorKey): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date);
+}
+
+/** Cursor validator for lists keyed by [ISO datetime, id] */
+export function isDateTimeCursor([datetime]: CursorKey): boolean {
+  return !Number.isNaN(Date.parse(datetime));
+}
+
+/**
+ * Turn `limit + 1` fetched rows into a page
+ * The extra row only signals that another page exists.
+ */
+export function toPage<T>(rows: T[], limit: number, keyOf: (row: T) => CursorKey): Page<T> {
+  if (rows.length <= limit) {
+    return { data: rows, nextCursor: null };
+  }
+
+  const data = rows.slice(0, limit);
+  return { data, nextCursor: encodeCursor(keyOf(data[data.length - 1])) };
+}
+
+export function resolvePageSize(limit: number | undefined): number {
+  return limit ?? DEFAULT_PAGE_SIZE;
+}
+
+/**
+ * Parse a `fields` parameter against a resource's fields
+ * Returns null when every field should be returned.
+ */
+export function parseFields(fields: string | undefined, allowed: readonly string[]): string[] | null {
+  if (!fields) return null;
+
+  const requested = [...new Set(fields.split(",").map((f) => f.trim()).filter(Boolean))];
+  const unknown = requested.filter((f) => !allowed.includes(f));
+  if (unknown.length > 0) {
+    throw new BadRequestError(`Unknown fields: ${unknown.join(", ")}`, { allowed });
+  }
+
+  return requested.length > 0 ? requested : null;
+}
+
+/**
+ * Keep only the selected top-level fields of a resource
+ */
+export function selectFields<T extends object>(item: T, fields: string[] | null): Partial<T> {
+  if (!fields) return item;
+
+  return Object.fromEntries(
+    Object.entries(item).filter(([key]) => fields.includes(key))
+  ) as Partial<T>;
+}
@@ -0,0 +1,264 @@
+/**
+ * Public API Schemas
+ *
+ * Query parameter schemas shared by the app's own routes and /api/v1, and
+ * the resource shapes /api/v1 returns. The OpenAPI document is generated
+ * from these (see openapi.ts), so descriptions here are the API docs.
+ */
+
+import { z } from "zod";
+import { ACCESSIBILITY_FLAGS, PROGRAMMING_TYPES } from "@/lib/filter-constants";
+
+/** Page size when `limit` is not given */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/** Largest page a client can ask for */
+export const MAX_PAGE_SIZE = 200;
+
+const booleanParam = z.enum(["true", "false"]);
+
+const hourParam = z.coerce.number().int().min(0).max(23);
+
+/**
+ * Comma-separated list whose items must all be one of `values`
+ * (stays a string - routes split it)
+ */
+function csvEnumParam(values: readonly string[]) {
+  return z
+    .string()
+    .max(200)
+    .refine((value) => value.split(",").every((item) => !item || values.includes(item)), {
+      message: `Expected a comma-separated list of: ${values.join(", ")}`,
+    });
+}
+
+export const AVAILABILITY_VALUES = ["available", "low", "sold_out", "returns", "unknown"] as const;
+
+// ============================================================================
+// Query parameters
+// ============================================================================
+
+/**
+ * GET /api/screenings and /api/v1/screenings
+ */
+export const screeningsQuerySchema = z.object({
+  startDate: z.string().datetime().optional().describe("Earliest screening time (default: now)"),
+  endDate: z.string().datetime().optional().describe("Latest screening time (default: 14 days ahead)"),
+  cinemas: z.string().max(500).optional().describe("Comma-separated cinema IDs"),
+  formats: z.string().max(200).optional().describe("Comma-separated formats, e.g. 35mm,70mm"),
+  repertory: booleanParam.optional().describe("Only repertory (true) or only new releases (false)"),
+  festival: z.string().max(100).optional().describe("Festival slug"),
+  festivalOnly: booleanParam.optional().describe("Only festival screenings"),
+  season: z.string().max(100).optional().describe("Season slug (e.g. director retrospectives)"),
+  includeCancelled: booleanParam.optional().describe("Include screenings marked cancelled"),
+  decades: z.string().max(200).optional().describe("Comma-separated decades, e.g. Pre-1950,1970s"),
+  genres: z.string().max(300).optional().describe("Comma-separated genres (matches any)"),
+  timeFrom: hourParam.optional().describe("Earliest start hour, 0-23 London time (inclusive)"),
+  timeTo: hourParam.optional().describe("Latest start hour, 0-23 London time (inclusive)"),
+  types: csvEnumParam(PROGRAMMING_TYPES)
+    .optional()
+    .describe(`Comma-separated programming types (matches any): ${PROGRAMMING_TYPES.join(", ")}`),
+  accessibility: csvEnumParam(ACCESSIBILITY_FLAGS)
+    .optional()
+    .describe(`Comma-separated accessibility flags (matches all): ${ACCESSIBILITY_FLAGS.join(", ")}`),
+  availability: csvEnumParam(AVAILABILITY_VALUES)
+    .optional()
+    .describe("Comma-separated availability statuses (unchecked screenings count as unknown)"),
+  maxPrice: z.coerce
+    .number()
+    .positive()
+    .max(1000)
+    .optional()
+    .describe("Highest standard ticket price in pounds, e.g. 12.50 (excludes screenings without a known price)"),
+  singleShowing: booleanParam
+    .optional()
+    .describe("Only films showing once that day across London"),
+  q: z.string().trim().max(100).optional().describe("Search film titles and directors"),
+});
+
+/**
+ * GET /api/festivals and /api/v1/festivals
+ */
+export const festivalsQuerySchema = z.object({
+  year: z.coerce.number().int().min(2020).max(2030).optional().describe("Festival year"),
+  active: booleanParam.optional().describe("Only active (true) or inactive (false) festivals"),
+  upcoming: booleanParam.optional().describe("Only festivals that haven't ended"),
+  genre: z.string().max(50).optional().describe("Genre focus, e.g. horror"),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+/**
+ * Cursor pagination and field selection, accepted by every /api/v1 list
+ */
+export const paginationQuerySchema = z.object({
+  cursor: z.string().max(500).optional().describe("`meta.nextCursor` from the previous page"),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(`Page size (default ${DEFAULT_PAGE_SIZE})`),
+  fields: z
+    .string()
+    .max(500)
+    .optional()
+    .describe("Comma-separated top-level fields to return (default: all)"),
+});
+
+/**
+ * Single-resource endpoints only take field selection
+ */
+export const itemQuerySchema = paginationQuerySchema.pick({ fields: true });
+
+export const v1FilmsQuerySchema = z
+  .object({
+    showing: booleanParam.optional().describe("Only films with upcoming screenings"),
+    repertory: booleanParam.optional().describe("Only repertory (true) or only new releases (false)"),
+    year: z.coerce.number().int().min(1880).max(2100).optional().describe("Release year"),
+  })
+  .extend(paginationQuerySchema.shape);
+
+export const v1CinemasQuerySchema = z
+  .object({
+    chain: z.string().max(100).optional().describe("Chain name, e.g. Curzon"),
+  })
+  .extend(paginationQuerySchema.shape);
+
+export const v1ScreeningsQuerySchema = screeningsQuerySchema
+  .extend({
+    film: z.string().max(100).optional().describe("Film ID"),
+  })
+  .extend(paginationQuerySchema.shape);
+
+export const v1SeasonsQuerySchema = z
+  .object({
+    active: booleanParam.optional().describe("Only active (true) or inactive (false) seasons"),
+    upcoming: booleanParam.optional().describe("Only seasons that haven't ended"),
+  })
+  .extend(paginationQuerySchema.shape);
+
+export const v1FestivalsQuerySchema = festivalsQuerySchema
+  .omit({ limit: true })
+  .extend(paginationQuerySchema.shape);
+
+// ============================================================================
+// Resources
+// ============================================================================
+
+const isoDateTime = z.iso.datetime();
+const isoDate = z.iso.date();
+
+export const filmResource = z.object({
+  id: z.string(),
+  title: z.string(),
+  originalTitle: z.string().nullable(),
+  year: z.number().int().nullable(),
+  runtime: z.number().int().nullable().describe("Minutes"),
+  directors: z.array(z.string()),
+  genres: z.array(z.string()),
+  countries: z.array(z.string()),
+  languages: z.array(z.string()),
+  certification: z.string().nullable(),
+  synopsis: z.string().nullable(),
+  posterUrl: z.string().nullable(),
+  backdropUrl: z.string().nullable(),
+  trailerUrl: z.string().nullable(),
+  isRepertory: z.boolean(),
+  tmdbId: z.number().int().nullable(),
+  imdbId: z.string().nullable(),
+  letterboxdUrl: z.string().nullable(),
+  letterboxdRating: z.number().nullable().describe("0-5"),
+});
+
+export const cinemaResource = z.object({
+  id: z.string(),
+  name: z.string(),
+  shortName: z.string().nullable(),
+  chain: z.string().nullable(),
+  address: z
+    .object({ street: z.string(), area: z.string(), postcode: z.string(), borough: z.string() })
+    .nullable(),
+  coordinates: z.object({ lat: z.number(), lng: z.number() }).nullable(),
+  screens: z.number().int().nullable(),
+  features: z.array(z.string()),
+  programmingFocus: z.array(z.string()),
+  website: z.string(),
+  bookingUrl: z.string().nullable(),
+  description: z.string().nullable(),
+  imageUrl: z.string().nullable(),
+});
+
+export const screeningResource = z.object({
+  id: z.string(),
+  datetime: isoDateTime,
+  format: z.string().nullable(),
+  screen: z.string().nullable(),
+  eventType: z.string().nullable(),
+  eventDescription: z.string().nullable(),
+  isSpecialEvent: z.boolean(),
+  bookingUrl: z.string(),
+  isFestivalScreening: z.boolean(),
+  availabilityStatus: z.enum(["available", "low", "sold_out", "returns", "unknown"]).nullable(),
+  status: z.enum(["scheduled", "possibly_cancelled", "cancelled"]),
+  hasSubtitles: z.boolean().describe("Captioned / subtitled for deaf and hard-of-hearing audiences"),
+  subtitleLanguage: z.string().nullable(),
+  hasAudioDescription: z.boolean(),
+  isRelaxedScreening: z.boolean(),
+  isBabyFriendly: z.boolean().describe("Parent-and-baby screening"),
+  isDementiaFriendly: z.boolean(),
+  priceCurrency: z.string().nullable().describe("ISO 4217 currency of the prices, e.g. GBP"),
+  priceStandard: z.number().int().nullable().describe("Cheapest standard ticket in minor units (pence)"),
+  priceConcession: z.number().int().nullable().describe("Cheapest concession ticket in minor units"),
+  priceMember: z.number().int().nullable().describe("Cheapest member ticket in minor units"),
+  film: z.object({
+    id: z.string(),
+    title: z.string(),
+    year: z.number().int().nullable(),
+    directors: z.array(z.string()),
+    posterUrl: z.string().nullable(),
+    runtime: z.number().int().nullable(),
+    isRepertory: z.boolean(),
+    genres: z.array(z.string()),
+    decade: z.string().nullable(),
+    letterboxdRating: z.number().nullable(),
+  }),
+  cinema: z.object({
+    id: z.string(),
+    name: z.string(),
+    shortName: z.string().nullable(),
+  }),
+});
+
+export const seasonResource = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  directorName: z.string().nullable(),
+  startDate: isoDate,
+  endDate: isoDate,
+  posterUrl: z.string().nullable(),
+  websiteUrl: z.string().nullable(),
+  cinemas: z.array(z.string()).describe("Cinema IDs"),
+  isActive: z.boolean(),
+});
+
+export const festivalResource = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  shortName: z.string().nullable(),
+  year: z.number().int(),
+  description: z.string().nullable(),
+  websiteUrl: z.string().nullable(),
+  logoUrl: z.string().nullable(),
+  startDate: isoDate,
+  endDate: isoDate,
+  programmeAnnouncedDate: isoDate.nullable(),
+  memberSaleDate: isoDateTime.nullable(),
+  publicSaleDate: isoDateTime.nullable(),
+  genreFocus: z.array(z.string()),
+  venues: z.array(z.string()).describe("Cinema IDs"),
+  isActive: z.boolean(),
+});
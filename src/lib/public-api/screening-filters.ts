@@ -0,0 +1,47 @@
+/**
+ * Screening Query Filters
+ * Turns validated /api/screenings and /api/v1/screenings query parameters
+ * into repository filters, so both endpoints filter the same way.
+ */
+
+import { addDays, endOfDay } from "date-fns";
+import type { z } from "zod";
+import type { ScreeningFilters } from "@/db/repositories/screening";
+import type { AccessibilityFlag, ProgrammingType } from "@/lib/filter-constants";
+import type { AvailabilityStatus, ScreeningFormat } from "@/types/screening";
+import type { screeningsQuerySchema } from "./schemas";
+
+/** Window returned when no endDate is given */
+const DEFAULT_RANGE_DAYS = 14;
+
+export type ScreeningsQuery = z.output<typeof screeningsQuerySchema>;
+
+function splitList<T extends string = string>(value: string | undefined): T[] | undefined {
+  const items = value?.split(",").filter(Boolean);
+  return items && items.length > 0 ? (items as T[]) : undefined;
+}
+
+export function toScreeningFilters(params: ScreeningsQuery, now = new Date()): ScreeningFilters {
+  return {
+    startDate: params.startDate ? new Date(params.startDate) : now,
+    endDate: params.endDate
+      ? new Date(params.endDate)
+      : endOfDay(addDays(now, DEFAULT_RANGE_DAYS)),
+    cinemaIds: splitList(params.cinemas),
+    formats: splitList<ScreeningFormat>(params.formats),
+    isRepertory: params.repertory === undefined ? undefined : params.repertory === "true",
+    festivalOnly: params.festivalOnly === "true",
+    includeCancelled: params.includeCancelled === "true",
+    decades: splitList(params.decades),
+    genres: splitList(params.genres),
+    hourFrom: params.timeFrom,
+    hourTo: params.timeTo,
+    programmingTypes: splitList<ProgrammingType>(params.types),
+    accessibility: splitList<AccessibilityFlag>(params.accessibility),
+    availability: splitList<AvailabilityStatus>(params.availability),
+    // Pounds in the query, pence in the database
+    maxPrice: params.maxPrice === undefined ? undefined : Math.round(params.maxPrice * 100),
+    singleShowingOnly: params.singleShowing === "true",
+    search: params.q || undefined,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Recommendations Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildTasteProfile,
+  recommendFilms,
+  scoreFilm,
+  signalWeight,
+  type RecommendationFilm,
+  type TasteSignal,
+} from "./recommendations";
+
+function film(id: string, overrides: Partial<RecommendationFilm> = {}): RecommendationFilm {
+  return {
+    id,
+    title: id,
+    directors: [],
+    genres: [],
+    countries: [],
+    decade: null,
+    seasons: [],
+    letterboxdRating: null,
+    ...overrides,
+  };
+}
+
+const KUROSAWA = { directors: ["Akira Kurosawa"], countries: ["JP"], decade: "1950s", genres: ["drama"] };
+
+function rated(f: RecommendationFilm, rating: number): TasteSignal {
+  return { film: f, status: "seen", rating };
+}
+
+describe("signalWeight", () => {
+  it("pulls towards high ratings and the watchlist, and away from low ratings and dismissals", () => {
+    expect(signalWeight({ status: "seen", rating: 5 })).toBe(2);
+    expect(signalWeight({ status: "seen", rating: 1.5 })).toBe(-1.5);
+    expect(signalWeight({ status: "seen", rating: null })).toBe(0.5);
+    expect(signalWeight({ status: "want_to_see", rating: null })).toBe(1);
+    expect(signalWeight({ status: "not_interested", rating: null })).toBeLessThan(0);
+  });
+});
+
+describe("scoreFilm", () => {
+  it("explains a director match with the director's name", () => {
+    const profile = buildTasteProfile([
+      rated(film("Ikiru", KUROSAWA), 5),
+      rated(film("Rashomon", KUROSAWA), 4.5),
+    ]);
+
+    const scored = scoreFilm(profile, film("Seven Samurai", KUROSAWA));
+
+    expect(scored.score).toBeGreaterThan(0);
+    expect(scored.reasons[0]).toMatchObject({
+      kind: "director",
+      basis: "rated",
+      example: "Ikiru",
+      text: "Because you rated Akira Kurosawa films highly",
+    });
+  });
+
+  it("names countries and seasons in their reasons", () => {
+    const season = { id: "s1", name: "Ozu: Quietly Radical" };
+    const profile = buildTasteProfile([
+      { film: film("Late Spring", { countries: ["jp"], seasons: [season] }), status: "want_to_see", rating: null },
+    ]);
+
+    const texts = scoreFilm(profile, film("Tokyo Story", { countries: ["JP"], seasons: [season] })).reasons.map(
+      (r) => r.text
+    );
+
+    expect(texts).toEqual([
+      "Part of Ozu: Quietly Radical, alongside Late Spring from your watchlist",
+      "Because films from Japan are on your watchlist",
+    ]);
+  });
+
+  it("scores films like ones the user disliked below zero", () => {
+    const profile = buildTasteProfile([rated(film("Saw", { genres: ["horror"] }), 1)]);
+
+    const scored = scoreFilm(profile, film("Saw II", { genres: ["horror"] }));
+
+    expect(scored.score).toBeLessThan(0);
+    expect(scored.reasons).toEqual([]);
+  });
+});
+
+describe("recommendFilms", () => {
+  const signals: TasteSignal[] = [
+    rated(film("Ikiru", KUROSAWA), 5),
+    { film: film("Hereditary", { genres: ["horror"], decade: "2010s" }), status: "not_interested", rating: null },
+  ];
+
+  it("ranks matching films first and leaves out films without a reason or with a status", () => {
+    const recommendations = recommendFilms(signals, [
+      film("Hereditary", { genres: ["horror"] }),
+      film("Midsommar", { genres: ["horror"], decade: "2010s" }),
+      film("Paddington", { genres: ["family"] }),
+      film("Tokyo Story", { countries: ["JP"], genres: ["drama"], decade: "1950s" }),
+      film("Seven Samurai", KUROSAWA),
+    ]);
+
+    expect(recommendations.map((r) => r.film.title)).toEqual(["Seven Samurai", "Tokyo Story"]);
+    expect(recommendations[0].reasons.length).toBeLessThanOrEqual(2);
+  });
+
+  it("uses Letterboxd ratings to break ties between matching films", () => {
+    const recommendations = recommendFilms(signals, [
+      film("Dodes'ka-den", { ...KUROSAWA, letterboxdRating: 3.6 }),
+      film("Red Beard", { ...KUROSAWA, letterboxdRating: 4.4 }),
+    ]);
+
+    expect(recommendations.map((r) => r.film.title)).toEqual(["Red Beard", "Dodes'ka-den"]);
+  });
+
+  it("respects the limit", () => {
+    const candidates = ["A", "B", "C"].map((id) => film(id, KUROSAWA));
+    expect(recommendFilms(signals, candidates, 2)).toHaveLength(2);
+  });
+});
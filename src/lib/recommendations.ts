@@ -0,0 +1,252 @@
+/**
+ * Recommendations
+ * Builds a taste profile from a user's film statuses and scores upcoming
+ * films against it, keeping the strongest matches as explanations
+ */
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 12;
+export const MAX_RECOMMENDATION_LIMIT = 30;
+
+/** Only films screening within this many days are recommended */
+export const RECOMMENDATION_HORIZON_DAYS = 14;
+
+export type FeatureKind = "director" | "genre" | "decade" | "country" | "season";
+
+export interface RecommendationFilm {
+  id: string;
+  title: string;
+  directors: string[];
+  genres: string[];
+  countries: string[];
+  decade: string | null;
+  seasons: { id: string; name: string }[];
+  letterboxdRating: number | null;
+}
+
+export interface TasteSignal {
+  film: RecommendationFilm;
+  status: "want_to_see" | "seen" | "not_interested";
+  rating: number | null;
+}
+
+/** Why a film was recommended, most relevant first */
+export type ReasonBasis = "rated" | "watchlist" | "seen";
+
+export interface RecommendationReason {
+  kind: FeatureKind;
+  /** Display form of the feature: "Akira Kurosawa", "horror", "1970s", "Japan" */
+  label: string;
+  basis: ReasonBasis;
+  /** A film from the user's history sharing the feature */
+  example: string;
+  text: string;
+}
+
+export interface ScoredFilm<T extends RecommendationFilm = RecommendationFilm> {
+  film: T;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+interface FeatureAffinity {
+  label: string;
+  total: number;
+  count: number;
+  /** Titles behind the affinity, per basis, in the order they were seen */
+  examples: Record<ReasonBasis, string[]>;
+}
+
+export type TasteProfile = Record<FeatureKind, Map<string, FeatureAffinity>>;
+
+/** How much a match on each kind of feature counts towards the score */
+const KIND_WEIGHTS: Record<FeatureKind, number> = {
+  director: 3,
+  season: 2,
+  genre: 1,
+  country: 1,
+  decade: 0.75,
+};
+
+/** Pulls affinities from a single film towards zero */
+const SMOOTHING = 1;
+
+/** Contributions below this aren't worth explaining */
+const MIN_REASON_CONTRIBUTION = 0.25;
+
+const MAX_REASONS = 2;
+
+const regionNames = new Intl.DisplayNames(["en-GB"], { type: "region" });
+
+function countryName(code: string): string {
+  try {
+    return regionNames.of(code.toUpperCase()) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * How strongly a status counts: ratings above 3 stars pull towards similar
+ * films and ratings below push away; unrated watches count a little
+ */
+export function signalWeight(signal: Pick<TasteSignal, "status" | "rating">): number {
+  switch (signal.status) {
+    case "seen":
+      return signal.rating == null ? 0.5 : signal.rating - 3;
+    case "want_to_see":
+      return 1;
+    case "not_interested":
+      return -1.5;
+  }
+}
+
+function signalBasis(signal: TasteSignal): ReasonBasis | null {
+  if (signal.status === "want_to_see") return "watchlist";
+  if (signal.status !== "seen") return null;
+  if (signal.rating == null) return "seen";
+  return signal.rating >= 4 ? "rated" : null;
+}
+
+/** Feature keys (normalised) and labels for a film */
+function filmFeatures(film: RecommendationFilm): Record<FeatureKind, { key: string; label: string }[]> {
+  return {
+    director: film.directors.map((name) => ({ key: name.toLowerCase(), label: name })),
+    genre: film.genres.map((genre) => ({ key: genre.toLowerCase(), label: genre.toLowerCase() })),
+    country: film.countries.map((code) => ({ key: code.toUpperCase(), label: countryName(code) })),
+    decade: film.decade ? [{ key: film.decade, label: film.decade }] : [],
+    season: film.seasons.map((season) => ({ key: season.id, label: season.name })),
+  };
+}
+
+export function buildTasteProfile(signals: TasteSignal[]): TasteProfile {
+  const profile: TasteProfile = {
+    director: new Map(),
+    genre: new Map(),
+    country: new Map(),
+    decade: new Map(),
+    season: new Map(),
+  };
+
+  for (const signal of signals) {
+    const weight = signalWeight(signal);
+    const basis = signalBasis(signal);
+    const features = filmFeatures(signal.film);
+
+    for (const kind of Object.keys(profile) as FeatureKind[]) {
+      for (const { key, label } of features[kind]) {
+        const affinity = profile[kind].get(key) ?? {
+          label,
+          total: 0,
+          count: 0,
+          examples: { rated: [], watchlist: [], seen: [] },
+        };
+        affinity.total += weight;
+        affinity.count += 1;
+        if (basis) affinity.examples[basis].push(signal.film.title);
+        profile[kind].set(key, affinity);
+      }
+    }
+  }
+
+  return profile;
+}
+
+function affinityScore(affinity: FeatureAffinity): number {
+  return affinity.total / (affinity.count + SMOOTHING);
+}
+
+function describeReason(kind: FeatureKind, label: string, basis: ReasonBasis, example: string): string {
+  if (kind === "season") {
+    const from = {
+      rated: `${example}, which you rated highly`,
+      watchlist: `${example} from your watchlist`,
+      seen: `${example}, which you've seen`,
+    }[basis];
+    return `Part of ${label}, alongside ${from}`;
+  }
+
+  const phrase = {
+    director: `${label} films`,
+    genre: `${label} films`,
+    decade: `films from the ${label}`,
+    country: `films from ${label}`,
+  }[kind];
+
+  switch (basis) {
+    case "rated":
+      return `Because you rated ${phrase} highly`;
+    case "watchlist":
+      return `Because ${phrase} are on your watchlist`;
+    case "seen":
+      return `Because you've been watching ${phrase}`;
+  }
+}
+
+function explain(kind: FeatureKind, affinity: FeatureAffinity): RecommendationReason | null {
+  const basis = (["rated", "watchlist", "seen"] as const).find((b) => affinity.examples[b].length > 0);
+  if (!basis) return null;
+  const example = affinity.examples[basis][0];
+  return {
+    kind,
+    label: affinity.label,
+    basis,
+    example,
+    text: describeReason(kind, affinity.label, basis, example),
+  };
+}
+
+/**
+ * Score one film against a profile. Genres and countries are averaged so that
+ * films tagged with many of them aren't favoured; a film's Letterboxd rating
+ * only breaks ties between films that already match.
+ */
+export function scoreFilm<T extends RecommendationFilm>(profile: TasteProfile, film: T): ScoredFilm<T> {
+  const features = filmFeatures(film);
+  const contributions: { kind: FeatureKind; value: number; affinity: FeatureAffinity }[] = [];
+
+  for (const kind of Object.keys(KIND_WEIGHTS) as FeatureKind[]) {
+    const values = features[kind];
+    const divisor = kind === "genre" || kind === "country" ? Math.max(values.length, 1) : 1;
+    for (const { key } of values) {
+      const affinity = profile[kind].get(key);
+      if (!affinity) continue;
+      contributions.push({
+        kind,
+        value: (affinityScore(affinity) * KIND_WEIGHTS[kind]) / divisor,
+        affinity,
+      });
+    }
+  }
+
+  const taste = contributions.reduce((sum, c) => sum + c.value, 0);
+  const quality = taste > 0 && film.letterboxdRating != null ? (film.letterboxdRating - 3.5) * 0.25 : 0;
+
+  const reasons = contributions
+    .filter((c) => c.value >= MIN_REASON_CONTRIBUTION)
+    .sort((a, b) => b.value - a.value)
+    .map((c) => explain(c.kind, c.affinity))
+    .filter((reason): reason is RecommendationReason => reason !== null)
+    .slice(0, MAX_REASONS);
+
+  return { film, score: Math.round((taste + quality) * 100) / 100, reasons };
+}
+
+/**
+ * Rank candidate films for a user, best first. Films the user already has a
+ * status for are skipped, as are films without a reason to show.
+ */
+export function recommendFilms<T extends RecommendationFilm>(
+  signals: TasteSignal[],
+  candidates: T[],
+  limit: number = DEFAULT_RECOMMENDATION_LIMIT
+): ScoredFilm<T>[] {
+  const profile = buildTasteProfile(signals);
+  const known = new Set(signals.map((signal) => signal.film.id));
+
+  return candidates
+    .filter((film) => !known.has(film.id))
+    .map((film) => scoreFilm(profile, film))
+    .filter((scored) => scored.score > 0 && scored.reasons.length > 0)
+    .sort((a, b) => b.score - a.score || a.film.title.localeCompare(b.film.title))
+    .slice(0, limit);
+}
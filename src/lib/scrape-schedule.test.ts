@@ -0,0 +1,117 @@
+/**
+ * Scrape Schedule Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { subHours, subMinutes } from "date-fns";
+import {
+  computeScrapeInterval,
+  isScrapeDue,
+  scheduleSlot,
+  DEFAULT_INTERVAL_HOURS,
+  HIGH_CHANGE_COUNT,
+  MIN_INTERVAL_HOURS,
+  MODERATE_CHANGE_COUNT,
+} from "./scrape-schedule";
+
+const QUIET = { recentChanges: 0, sellingOut: 0 };
+
+describe("computeScrapeInterval", () => {
+  it("uses the tier default when no interval is configured", () => {
+    expect(
+      computeScrapeInterval({ tier: "standard", scrapeIntervalHours: null, adaptiveSchedule: true }, QUIET)
+    ).toEqual({ baseHours: DEFAULT_INTERVAL_HOURS.standard, intervalHours: 24, reason: "base" });
+    expect(
+      computeScrapeInterval({ tier: "top", scrapeIntervalHours: null, adaptiveSchedule: true }, QUIET)
+        .intervalHours
+    ).toBe(DEFAULT_INTERVAL_HOURS.top);
+  });
+
+  it("scrapes small venues every two days", () => {
+    expect(
+      computeScrapeInterval({ tier: "small", scrapeIntervalHours: null, adaptiveSchedule: true }, QUIET)
+    ).toEqual({ baseHours: 48, intervalHours: 48, reason: "base" });
+  });
+
+  it("prefers the configured interval", () => {
+    const result = computeScrapeInterval(
+      { tier: "standard", scrapeIntervalHours: 48, adaptiveSchedule: true },
+      QUIET
+    );
+    expect(result.intervalHours).toBe(48);
+  });
+
+  it("halves the interval for a moderate number of changes", () => {
+    const result = computeScrapeInterval(
+      { tier: "standard", scrapeIntervalHours: 24, adaptiveSchedule: true },
+      { recentChanges: MODERATE_CHANGE_COUNT, sellingOut: 0 }
+    );
+    expect(result).toEqual({ baseHours: 24, intervalHours: 12, reason: "some_changes" });
+  });
+
+  it("quarters the interval for many changes or screenings selling out", () => {
+    const settings = { tier: "standard" as const, scrapeIntervalHours: 24, adaptiveSchedule: true };
+
+    expect(computeScrapeInterval(settings, { recentChanges: HIGH_CHANGE_COUNT, sellingOut: 0 })).toEqual({
+      baseHours: 24,
+      intervalHours: 6,
+      reason: "many_changes",
+    });
+    expect(computeScrapeInterval(settings, { recentChanges: 1, sellingOut: 1 })).toEqual({
+      baseHours: 24,
+      intervalHours: 6,
+      reason: "selling_out",
+    });
+  });
+
+  it("never adapts below the minimum interval", () => {
+    const result = computeScrapeInterval(
+      { tier: "top", scrapeIntervalHours: 6, adaptiveSchedule: true },
+      { recentChanges: 0, sellingOut: 3 }
+    );
+    expect(result.intervalHours).toBe(MIN_INTERVAL_HOURS);
+  });
+
+  it("keeps a configured interval that is already below the minimum", () => {
+    const result = computeScrapeInterval(
+      { tier: "top", scrapeIntervalHours: 2, adaptiveSchedule: true },
+      { recentChanges: HIGH_CHANGE_COUNT, sellingOut: 0 }
+    );
+    expect(result).toEqual({ baseHours: 2, intervalHours: 2, reason: "base" });
+  });
+
+  it("ignores activity when adaptive scheduling is off", () => {
+    const result = computeScrapeInterval(
+      { tier: "standard", scrapeIntervalHours: 48, adaptiveSchedule: false },
+      { recentChanges: 100, sellingOut: 5 }
+    );
+    expect(result).toEqual({ baseHours: 48, intervalHours: 48, reason: "base" });
+  });
+});
+
+describe("isScrapeDue", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+
+  it("is due when the cinema has never been scraped", () => {
+    expect(isScrapeDue(null, 24, now)).toBe(true);
+  });
+
+  it("is due once the interval has elapsed", () => {
+    expect(isScrapeDue(subHours(now, 25), 24, now)).toBe(true);
+    expect(isScrapeDue(subHours(now, 12), 24, now)).toBe(false);
+  });
+
+  it("allows for runs that started a little after the hour", () => {
+    // Last run started at 06:05, dispatcher fires at 12:00 for a 6 hour interval
+    expect(isScrapeDue(subMinutes(now, 6 * 60 - 5), 6, now)).toBe(true);
+    expect(isScrapeDue(subMinutes(now, 5 * 60), 6, now)).toBe(false);
+  });
+});
+
+describe("scheduleSlot", () => {
+  it("is the same for every dispatch within the hour", () => {
+    expect(scheduleSlot(new Date("2025-03-10T12:00:00Z"))).toBe("2025-03-10T12:00:00.000Z");
+    expect(scheduleSlot(new Date("2025-03-10T12:59:59Z"))).toBe("2025-03-10T12:00:00.000Z");
+    expect(scheduleSlot(new Date("2025-03-10T13:00:00Z"))).toBe("2025-03-10T13:00:00.000Z");
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Scrape Schedule
+ *
+ * How often each cinema is scraped. Every cinema has a base interval (its
+ * configured `scrapeIntervalHours`, or the default for its tier). With
+ * adaptive scheduling on, the interval shrinks while the cinema's programme
+ * is changing or its screenings are selling out. The hourly dispatcher (see
+ * scheduledScrapeAll) scrapes the cinemas that are due.
+ */
+
+import type { CinemaTier } from "@/db/schema";
+
+/** Base interval when a cinema has none configured */
+export const DEFAULT_INTERVAL_HOURS: Record<CinemaTier, number> = {
+  top: 12,
+  standard: 24,
+  small: 48,
+};
+
+/** Adaptive scheduling never scrapes more often than this */
+export const MIN_INTERVAL_HOURS = 3;
+
+/** Hours of change history that adaptive scheduling looks at */
+export const ADAPTIVE_WINDOW_HOURS = 48;
+
+/** Changes in the window at which the interval is halved */
+export const MODERATE_CHANGE_COUNT = 10;
+
+/** Changes in the window at which the interval is quartered */
+export const HIGH_CHANGE_COUNT = 40;
+
+/**
+ * The dispatcher runs on the hour but runs take a while to start, so a
+ * cinema counts as due slightly early rather than slipping a whole hour
+ */
+const DUE_SLACK_MINUTES = 15;
+
+export interface ScheduleSettings {
+  tier: CinemaTier;
+  scrapeIntervalHours: number | null;
+  adaptiveSchedule: boolean;
+}
+
+export interface ScheduleSignals {
+  /** Screening changes recorded in the adaptive window */
+  recentChanges: number;
+  /** Changes in the window that moved a screening to "low" or "sold_out" */
+  sellingOut: number;
+}
+
+export type ScheduleReason = "base" | "some_changes" | "many_changes" | "selling_out";
+
+export interface ScrapeInterval {
+  baseHours: number;
+  intervalHours: number;
+  reason: ScheduleReason;
+}
+
+/**
+ * Interval for a cinema given its settings and recent activity
+ */
+export function computeScrapeInterval(
+  settings: ScheduleSettings,
+  signals: ScheduleSignals
+): ScrapeInterval {
+  const baseHours = settings.scrapeIntervalHours ?? DEFAULT_INTERVAL_HOURS[settings.tier];
+
+  if (!settings.adaptiveSchedule) {
+    return { baseHours, intervalHours: baseHours, reason: "base" };
+  }
+
+  let divisor = 1;
+  let reason: ScheduleReason = "base";
+  if (signals.sellingOut > 0) {
+    divisor = 4;
+    reason = "selling_out";
+  } else if (signals.recentChanges >= HIGH_CHANGE_COUNT) {
+    divisor = 4;
+    reason = "many_changes";
+  } else if (signals.recentChanges >= MODERATE_CHANGE_COUNT) {
+    divisor = 2;
+    reason = "some_changes";
+  }
+
+  if (divisor === 1) {
+    return { baseHours, intervalHours: baseHours, reason };
+  }
+
+  // A configured interval below the floor is respected, never lengthened
+  const intervalHours = Math.min(baseHours, Math.max(MIN_INTERVAL_HOURS, baseHours / divisor));
+  return { baseHours, intervalHours, reason: intervalHours < baseHours ? reason : "base" };
+}
+
+/**
+ * Whether a cinema last scraped at `lastRunAt` is due another scrape
+ */
+export function isScrapeDue(lastRunAt: Date | null, intervalHours: number, now: Date): boolean {
+  if (!lastRunAt) return true;
+
+  const elapsedMinutes = (now.getTime() - lastRunAt.getTime()) / 60_000;
+  return elapsedMinutes >= intervalHours * 60 - DUE_SLACK_MINUTES;
+}
+
+/**
+ * The dispatcher slot `now` falls in (the UTC hour). Scheduled scrape events
+ * are keyed by cinema and slot, so a repeated or overlapping dispatch within
+ * the hour can't scrape a cinema twice.
+ */
+export function scheduleSlot(now: Date): string {
+  const slot = new Date(now);
+  slot.setUTCMinutes(0, 0, 0);
+  return slot.toISOString();
+}
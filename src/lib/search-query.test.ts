@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { isSearchable, searchTerms, toPrefixTsQuery } from "./search-query";
+
+describe("searchTerms", () => {
+  it("splits on whitespace and punctuation", () => {
+    expect(searchTerms("  Schindler's  List ")).toEqual(["schindler", "s", "list"]);
+  });
+
+  it("keeps accented and non-Latin letters", () => {
+    expect(searchTerms("Amélie 2001")).toEqual(["amélie", "2001"]);
+    expect(searchTerms("花樣年華")).toEqual(["花樣年華"]);
+  });
+
+  it("drops tsquery operators", () => {
+    expect(searchTerms("a & b | !c:* 'd'")).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("caps the number of terms", () => {
+    expect(searchTerms("a b c d e f g h i j")).toHaveLength(8);
+  });
+});
+
+describe("toPrefixTsQuery", () => {
+  it("treats the last term as a prefix", () => {
+    expect(toPrefixTsQuery("In the Mo")).toBe("in & the & mo:*");
+    expect(toPrefixTsQuery("kurosawa")).toBe("kurosawa:*");
+  });
+
+  it("returns null when nothing is searchable", () => {
+    expect(toPrefixTsQuery("")).toBeNull();
+    expect(toPrefixTsQuery(" &|! ")).toBeNull();
+  });
+});
+
+describe("isSearchable", () => {
+  it("requires at least two non-space characters", () => {
+    expect(isSearchable(null)).toBe(false);
+    expect(isSearchable(" a ")).toBe(false);
+    expect(isSearchable("ab")).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Search Query Helpers
+ * Turns what a user typed into the search box into a Postgres tsquery
+ *
+ * The films search index (migration 0010) uses the 'simple' configuration over
+ * unaccented, lower-cased text, so terms are only split into words here - the
+ * database normalises them the same way it normalised the documents.
+ */
+
+/** Queries shorter than this return no results */
+export const MIN_SEARCH_LENGTH = 2;
+
+/** Extra words beyond this are ignored rather than making the query ever stricter */
+const MAX_TERMS = 8;
+
+/**
+ * Split a query into search terms: runs of letters and digits.
+ * Punctuation and tsquery operators (&, |, !, :, quotes) are dropped.
+ */
+export function searchTerms(query: string): string[] {
+  return (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, MAX_TERMS);
+}
+
+/**
+ * Build a tsquery matching every term, treating the last one as a prefix so
+ * results appear while the user is still typing: "in the mo" → "in & the & mo:*".
+ * Returns null when the query has no searchable terms.
+ */
+export function toPrefixTsQuery(query: string): string | null {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return null;
+
+  return terms.map((term, i) => (i === terms.length - 1 ? `${term}:*` : term)).join(" & ");
+}
+
+/** Whether a query is long enough to search for */
+export function isSearchable(query: string | null | undefined): query is string {
+  return !!query && query.trim().length >= MIN_SEARCH_LENGTH;
+}
@@ -0,0 +1,156 @@
+/**
+ * Film Status Changes Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { mergeFilmStatusChanges, resolveFilmStatusWrites, settledCursor } from "./film-status-changes";
+import type { FilmStatusPayload } from "./film-status-payload";
+import type { FilmStatusEntry } from "@/stores/film-status";
+
+const FILM_A = "00000000-0000-4000-8000-00000000000a";
+const FILM_B = "00000000-0000-4000-8000-00000000000b";
+
+function payload(filmId: string, updatedAt: string, status: FilmStatusPayload["status"] = "want_to_see") {
+  return { filmId, status, addedAt: "2026-10-01T00:00:00.000Z", updatedAt };
+}
+
+function entry(updatedAt: string): FilmStatusEntry {
+  return { status: "want_to_see", addedAt: "2026-10-01T00:00:00.000Z", updatedAt };
+}
+
+describe("resolveFilmStatusWrites", () => {
+  const none = { statuses: new Map<string, Date>(), tombstones: new Map<string, Date>() };
+
+  it("applies writes newer than what the server has", () => {
+    const result = resolveFilmStatusWrites(
+      { statuses: new Map([[FILM_A, new Date("2026-10-02T00:00:00Z")]]), tombstones: new Map() },
+      {
+        statuses: [payload(FILM_A, "2026-10-03T00:00:00.000Z"), payload(FILM_B, "2026-10-01T00:00:00.000Z")],
+        deleted: [],
+      }
+    );
+
+    expect(result.upserts.map((s) => s.filmId)).toEqual([FILM_A, FILM_B]);
+    expect(result.deletions).toEqual([]);
+  });
+
+  it("doesn't let a stale copy bring back a deleted status", () => {
+    const result = resolveFilmStatusWrites(
+      { statuses: new Map(), tombstones: new Map([[FILM_A, new Date("2026-10-05T00:00:00Z")]]) },
+      { statuses: [payload(FILM_A, "2026-10-04T00:00:00.000Z")], deleted: [] }
+    );
+
+    expect(result.upserts).toEqual([]);
+  });
+
+  it("lets a status re-added after the deletion through", () => {
+    const result = resolveFilmStatusWrites(
+      { statuses: new Map(), tombstones: new Map([[FILM_A, new Date("2026-10-05T00:00:00Z")]]) },
+      { statuses: [payload(FILM_A, "2026-10-06T00:00:00.000Z")], deleted: [] }
+    );
+
+    expect(result.upserts).toHaveLength(1);
+  });
+
+  it("keeps an edit made after the deletion", () => {
+    const result = resolveFilmStatusWrites(
+      { statuses: new Map([[FILM_A, new Date("2026-10-06T00:00:00Z")]]), tombstones: new Map() },
+      { statuses: [], deleted: [{ filmId: FILM_A, deletedAt: "2026-10-05T00:00:00.000Z" }] }
+    );
+
+    expect(result.deletions).toEqual([]);
+  });
+
+  it("records deletions of films the server never had, and uses the later of a status and deletion", () => {
+    const result = resolveFilmStatusWrites(none, {
+      statuses: [payload(FILM_A, "2026-10-02T00:00:00.000Z"), payload(FILM_B, "2026-10-04T00:00:00.000Z")],
+      deleted: [
+        { filmId: FILM_A, deletedAt: "2026-10-03T00:00:00.000Z" },
+        { filmId: FILM_B, deletedAt: "2026-10-03T00:00:00.000Z" },
+      ],
+    });
+
+    expect(result.deletions.map((d) => d.filmId)).toEqual([FILM_A]);
+    expect(result.upserts.map((s) => s.filmId)).toEqual([FILM_B]);
+  });
+});
+
+describe("mergeFilmStatusChanges", () => {
+  it("applies newer remote statuses and deletions", () => {
+    const merged = mergeFilmStatusChanges(
+      { [FILM_A]: entry("2026-10-01T00:00:00.000Z") },
+      {},
+      {
+        statuses: [payload(FILM_B, "2026-10-02T00:00:00.000Z", "seen")],
+        deleted: [{ filmId: FILM_A, deletedAt: "2026-10-02T00:00:00.000Z" }],
+      }
+    );
+
+    expect(merged.applied).toBe(2);
+    expect(Object.keys(merged.films)).toEqual([FILM_B]);
+    expect(merged.films[FILM_B]).toMatchObject({ status: "seen", updatedAt: "2026-10-02T00:00:00.000Z" });
+  });
+
+  it("keeps local edits and deletions that are newer than the change", () => {
+    const films = { [FILM_A]: entry("2026-10-05T00:00:00.000Z") };
+    const tombstones = { [FILM_B]: "2026-10-05T00:00:00.000Z" };
+
+    const merged = mergeFilmStatusChanges(films, tombstones, {
+      statuses: [payload(FILM_A, "2026-10-04T00:00:00.000Z", "seen"), payload(FILM_B, "2026-10-04T00:00:00.000Z")],
+      deleted: [{ filmId: FILM_A, deletedAt: "2026-10-04T00:00:00.000Z" }],
+    });
+
+    expect(merged.applied).toBe(0);
+    expect(merged.films).toBe(films);
+    expect(merged.tombstones).toBe(tombstones);
+  });
+
+  it("drops a pending tombstone once the server has the deletion", () => {
+    const merged = mergeFilmStatusChanges({}, { [FILM_A]: "2026-10-05T00:00:00.000Z" }, {
+      statuses: [],
+      deleted: [{ filmId: FILM_A, deletedAt: "2026-10-05T00:00:00.000Z" }],
+    });
+
+    expect(merged.tombstones).toEqual({});
+  });
+
+  it("ignores its own changes coming back from the server", () => {
+    const films = { [FILM_A]: entry("2026-10-05T00:00:00.000Z") };
+
+    const merged = mergeFilmStatusChanges(films, {}, {
+      statuses: [payload(FILM_A, "2026-10-05T00:00:00.000Z")],
+      deleted: [],
+    });
+
+    expect(merged.films).toBe(films);
+  });
+});
+
+describe("settledCursor", () => {
+  it("moves to the last change when every change has settled", () => {
+    const changes = [
+      { version: 11, settled: true },
+      { version: 14, settled: true },
+    ];
+
+    expect(settledCursor(changes, 10)).toBe(14);
+  });
+
+  it("stops before the first recent change, so an earlier version committing late isn't skipped", () => {
+    // Version 12 was taken before 13 but hasn't committed, so it isn't in the read yet
+    const changes = [
+      { version: 11, settled: true },
+      { version: 13, settled: false },
+      { version: 14, settled: false },
+    ];
+
+    expect(settledCursor(changes, 10)).toBe(11);
+    // Once 12 commits, reading from that cursor still includes it
+    expect(settledCursor([{ version: 12, settled: true }, ...changes.slice(1)], 11)).toBe(12);
+  });
+
+  it("stays put when nothing has settled", () => {
+    expect(settledCursor([{ version: 13, settled: false }], 10)).toBe(10);
+    expect(settledCursor([], 10)).toBe(10);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Film Status Changes
+ * Incremental sync of film statuses: deletions travel as tombstones, and
+ * every change is ordered by a server-assigned cursor. Conflicts are still
+ * resolved by updatedAt, newest wins, with a deletion counting as an edit.
+ */
+
+import { z } from "zod";
+import type { FilmStatusEntry } from "@/stores/film-status";
+import { payloadToEntry, type FilmStatusPayload } from "./film-status-payload";
+
+/** Most changes returned per request (and accepted per push) */
+export const FILM_STATUS_CHANGES_PAGE_SIZE = 500;
+
+/**
+ * How long after a write its version is trusted as a cursor. Versions are
+ * taken before the write commits, so a lower version can become visible after
+ * a higher one; a write still uncommitted this long after taking its version
+ * isn't expected.
+ */
+export const FILM_STATUS_SETTLE_SECONDS = 30;
+
+export const filmStatusTombstoneSchema = z.object({
+  filmId: z.string().uuid(),
+  deletedAt: z.string().datetime(),
+});
+
+export type FilmStatusTombstone = z.infer<typeof filmStatusTombstoneSchema>;
+
+/** A change cursor from the query string or Last-Event-ID; 0 means everything */
+export const cursorSchema = z.coerce.number().int().min(0).default(0);
+
+export interface FilmStatusChanges {
+  statuses: FilmStatusPayload[];
+  deleted: FilmStatusTombstone[];
+  /** Pass back as `since` to get the next changes */
+  cursor: number;
+  /** Version of the newest change included, which can be ahead of the cursor */
+  latest: number;
+  hasMore: boolean;
+}
+
+const time = (iso: string | Date) => new Date(iso).getTime();
+
+/**
+ * The cursor for a page of changes, oldest first: the last version before the
+ * first change younger than FILM_STATUS_SETTLE_SECONDS. Newer changes are still
+ * sent, and sent again from this cursor, which merging newest-wins ignores.
+ */
+export function settledCursor(changes: { version: number; settled: boolean }[], since: number): number {
+  let cursor = since;
+  for (const change of changes) {
+    if (!change.settled) break;
+    cursor = change.version;
+  }
+  return cursor;
+}
+
+/**
+ * Decide which incoming writes the server should apply, given when each film
+ * was last written (`statuses`) or deleted (`tombstones`). A write only wins
+ * if it's newer than both; if a request has a status and a deletion for the
+ * same film, the later one counts.
+ */
+export function resolveFilmStatusWrites(
+  stored: { statuses: Map<string, Date>; tombstones: Map<string, Date> },
+  incoming: { statuses: FilmStatusPayload[]; deleted: FilmStatusTombstone[] }
+): { upserts: FilmStatusPayload[]; deletions: FilmStatusTombstone[] } {
+  const latest = new Map<string, { at: number; status?: FilmStatusPayload; deletion?: FilmStatusTombstone }>();
+
+  for (const status of incoming.statuses) {
+    const at = time(status.updatedAt);
+    if ((latest.get(status.filmId)?.at ?? -Infinity) < at) latest.set(status.filmId, { at, status });
+  }
+  for (const deletion of incoming.deleted) {
+    const at = time(deletion.deletedAt);
+    if ((latest.get(deletion.filmId)?.at ?? -Infinity) < at) latest.set(deletion.filmId, { at, deletion });
+  }
+
+  const upserts: FilmStatusPayload[] = [];
+  const deletions: FilmStatusTombstone[] = [];
+
+  for (const [filmId, write] of latest) {
+    const storedAt = stored.statuses.get(filmId);
+    const deletedAt = stored.tombstones.get(filmId);
+    if (write.status) {
+      if ((storedAt && time(storedAt) >= write.at) || (deletedAt && time(deletedAt) >= write.at)) continue;
+      upserts.push(write.status);
+    } else if (write.deletion) {
+      if ((storedAt && time(storedAt) > write.at) || (deletedAt && time(deletedAt) >= write.at)) continue;
+      deletions.push(write.deletion);
+    }
+  }
+
+  return { upserts, deletions };
+}
+
+/**
+ * Apply changes from the server to the local store's films and pending
+ * tombstones. Local edits newer than a change are kept (they're still to be
+ * pushed). Returns the inputs unchanged when nothing applies.
+ */
+export function mergeFilmStatusChanges(
+  films: Record<string, FilmStatusEntry>,
+  tombstones: Record<string, string>,
+  changes: Pick<FilmStatusChanges, "statuses" | "deleted">
+): { films: Record<string, FilmStatusEntry>; tombstones: Record<string, string>; applied: number } {
+  const nextFilms = { ...films };
+  const nextTombstones = { ...tombstones };
+  let applied = 0;
+
+  for (const status of changes.statuses) {
+    const local = nextFilms[status.filmId];
+    const localDeletedAt = nextTombstones[status.filmId];
+    if (local && time(local.updatedAt) >= time(status.updatedAt)) continue;
+    if (localDeletedAt && time(localDeletedAt) >= time(status.updatedAt)) continue;
+
+    nextFilms[status.filmId] = payloadToEntry(status);
+    delete nextTombstones[status.filmId];
+    applied += 1;
+  }
+
+  for (const deletion of changes.deleted) {
+    const local = nextFilms[deletion.filmId];
+    const localDeletedAt = nextTombstones[deletion.filmId];
+    // The server already has this deletion (or a later one)
+    if (localDeletedAt && time(localDeletedAt) <= time(deletion.deletedAt)) {
+      delete nextTombstones[deletion.filmId];
+    }
+    if (!local || time(local.updatedAt) > time(deletion.deletedAt)) continue;
+
+    delete nextFilms[deletion.filmId];
+    applied += 1;
+  }
+
+  if (applied === 0 && Object.keys(nextTombstones).length === Object.keys(tombstones).length) {
+    return { films, tombstones, applied };
+  }
+  return { films: applied > 0 ? nextFilms : films, tombstones: nextTombstones, applied };
+}
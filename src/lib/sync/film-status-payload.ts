@@ -0,0 +1,141 @@
+/**
+ * Film Status Payload
+ * The wire format for film statuses, shared by the sync endpoints and the client
+ */
+
+import { z } from "zod";
+import type { FilmStatusEntry } from "@/stores/film-status";
+
+/** Half stars, 0.5 to 5 */
+export const ratingSchema = z.number().min(0.5).max(5).multipleOf(0.5);
+
+export const filmStatusPayloadSchema = z.object({
+  filmId: z.string().uuid(),
+  status: z.enum(["want_to_see", "seen", "not_interested"]),
+  addedAt: z.string().datetime(),
+  seenAt: z.string().datetime().nullable().optional(),
+  rating: ratingSchema.nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+  // Where it was seen (diary entries)
+  seenScreeningId: z.string().max(200).nullable().optional(),
+  seenCinemaId: z.string().max(200).nullable().optional(),
+  seenCinemaName: z.string().max(200).nullable().optional(),
+  seenFormat: z.string().max(50).nullable().optional(),
+  filmTitle: z.string().max(500).nullable().optional(),
+  filmYear: z.number().int().min(1800).max(2100).nullable().optional(),
+  filmDirectors: z.array(z.string().max(200)).nullable().optional(),
+  filmPosterUrl: z.string().url().max(500).nullable().optional(),
+  updatedAt: z.string().datetime(),
+});
+
+export type FilmStatusPayload = z.infer<typeof filmStatusPayloadSchema>;
+
+/** A database row (or anything shaped like one) */
+interface FilmStatusRow {
+  filmId: string;
+  status: FilmStatusPayload["status"];
+  addedAt: Date;
+  seenAt: Date | null;
+  rating: number | null;
+  notes: string | null;
+  seenScreeningId: string | null;
+  seenCinemaId: string | null;
+  seenCinemaName: string | null;
+  seenFormat: string | null;
+  filmTitle: string | null;
+  filmYear: number | null;
+  filmDirectors: string[] | null;
+  filmPosterUrl: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Column values for a payload (everything but the user ID)
+ */
+export function payloadToRow(payload: FilmStatusPayload): FilmStatusRow {
+  return {
+    filmId: payload.filmId,
+    status: payload.status,
+    addedAt: new Date(payload.addedAt),
+    seenAt: payload.seenAt ? new Date(payload.seenAt) : null,
+    rating: payload.rating ?? null,
+    notes: payload.notes ?? null,
+    seenScreeningId: payload.seenScreeningId ?? null,
+    seenCinemaId: payload.seenCinemaId ?? null,
+    seenCinemaName: payload.seenCinemaName ?? null,
+    seenFormat: payload.seenFormat ?? null,
+    filmTitle: payload.filmTitle ?? null,
+    filmYear: payload.filmYear ?? null,
+    filmDirectors: payload.filmDirectors ?? null,
+    filmPosterUrl: payload.filmPosterUrl ?? null,
+    updatedAt: new Date(payload.updatedAt),
+  };
+}
+
+export function rowToPayload(row: FilmStatusRow): FilmStatusPayload {
+  return {
+    filmId: row.filmId,
+    status: row.status,
+    addedAt: row.addedAt.toISOString(),
+    seenAt: row.seenAt?.toISOString() || null,
+    rating: row.rating,
+    notes: row.notes,
+    seenScreeningId: row.seenScreeningId,
+    seenCinemaId: row.seenCinemaId,
+    seenCinemaName: row.seenCinemaName,
+    seenFormat: row.seenFormat,
+    filmTitle: row.filmTitle,
+    filmYear: row.filmYear,
+    filmDirectors: row.filmDirectors,
+    filmPosterUrl: row.filmPosterUrl,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Payload for a local store entry (entries with no status aren't sent)
+ */
+export function entryToPayload(filmId: string, entry: FilmStatusEntry): FilmStatusPayload | null {
+  if (entry.status == null) return null;
+
+  return {
+    filmId,
+    status: entry.status,
+    addedAt: entry.addedAt,
+    seenAt: entry.seenAt || null,
+    rating: entry.rating || null,
+    notes: entry.notes || null,
+    seenScreeningId: entry.seenScreeningId || null,
+    seenCinemaId: entry.seenCinemaId || null,
+    seenCinemaName: entry.seenCinemaName || null,
+    seenFormat: entry.seenFormat || null,
+    filmTitle: entry.filmTitle || null,
+    filmYear: entry.filmYear || null,
+    filmDirectors: entry.filmDirectors || null,
+    filmPosterUrl: entry.filmPosterUrl || null,
+    // Default to addedAt if updatedAt is missing (legacy data migration)
+    updatedAt: entry.updatedAt || entry.addedAt,
+  };
+}
+
+/**
+ * Local store entry for a payload from the server
+ */
+export function payloadToEntry(payload: FilmStatusPayload): FilmStatusEntry {
+  return {
+    status: payload.status,
+    addedAt: payload.addedAt,
+    seenAt: payload.seenAt ?? undefined,
+    rating: payload.rating ?? undefined,
+    notes: payload.notes ?? undefined,
+    seenScreeningId: payload.seenScreeningId ?? undefined,
+    seenCinemaId: payload.seenCinemaId ?? undefined,
+    seenCinemaName: payload.seenCinemaName ?? undefined,
+    seenFormat: payload.seenFormat ?? undefined,
+    filmTitle: payload.filmTitle ?? undefined,
+    filmYear: payload.filmYear,
+    filmDirectors: payload.filmDirectors ?? undefined,
+    filmPosterUrl: payload.filmPosterUrl,
+    updatedAt: payload.updatedAt,
+  };
+}
@@ -3,11 +3,20 @@
  * Handles bidirectional sync between localStorage and server
  * Strategy: localStorage is fast cache, server is source of truth
  * Conflict resolution: timestamp-based, newest wins
+ * Film statuses: a full merge on sign-in, then only changes in both
+ * directions (pushes of edited entries and deletions, a stream of changes
+ * from other devices)
  */
 
 import { useFilmStatus, type FilmStatusEntry } from "@/stores/film-status";
 import { usePreferences } from "@/stores/preferences";
 import { useFilters, type PersistedFilters } from "@/stores/filters";
+import { entryToPayload } from "./film-status-payload";
+import {
+  FILM_STATUS_CHANGES_PAGE_SIZE,
+  type FilmStatusChanges,
+  type FilmStatusTombstone,
+} from "./film-status-changes";
 import type { StoredPreferences, StoredFilters } from "@/db/schema/user-preferences";
 import {
   trackSyncInitiated,
@@ -18,10 +27,21 @@ import {
   type SyncStats,
 } from "@/lib/analytics";
 
+/** Largest batch POST /api/user/film-statuses accepts */
+const FILM_STATUS_BATCH_SIZE = FILM_STATUS_CHANGES_PAGE_SIZE;
+
+/**
+ * The updatedAt the server has for each film, as far as this tab knows.
+ * Pushes only send entries that differ; filled by full syncs, pushes and
+ * changes from other devices.
+ */
+const serverUpdatedAt = new Map<string, string>();
+
 interface SyncResponse {
   success: boolean;
   isNewUser?: boolean;
   filmStatuses: Record<string, FilmStatusEntry>;
+  filmStatusCursor?: number;
   preferences: StoredPreferences | null;
   persistedFilters: StoredFilters | null;
   preferencesUpdatedAt: string | null;
@@ -54,6 +74,8 @@ function filtersToServerFormat(): StoredFilters {
     decades: filters.decades,
     genres: filters.genres,
     timesOfDay: filters.timesOfDay,
+    accessibility: filters.accessibility,
+    maxPrice: filters.maxPrice,
     hideSeen: filters.hideSeen,
     hideNotInterested: filters.hideNotInterested,
   };
@@ -61,26 +83,26 @@ function filtersToServerFormat(): StoredFilters {
 
 /**
  * Transform local film statuses to API format
+ * @param changedOnly - Only entries the server doesn't have yet
  */
-function filmStatusesToApiFormat() {
+function filmStatusesToApiFormat(changedOnly = false) {
   const films = useFilmStatus.getState().getAllFilms();
-  return Object.entries(films)
-    // Filter out entries with null status (shouldn't happen but be defensive)
-    .filter(([, entry]) => entry.status != null)
-    .map(([filmId, entry]) => ({
-      filmId,
-      status: entry.status!,
-      addedAt: entry.addedAt,
-      seenAt: entry.seenAt || null,
-      rating: entry.rating || null,
-      notes: entry.notes || null,
-      filmTitle: entry.filmTitle || null,
-      filmYear: entry.filmYear || null,
-      filmDirectors: entry.filmDirectors || null,
-      filmPosterUrl: entry.filmPosterUrl || null,
-      // Default to addedAt if updatedAt is missing (legacy data migration)
-      updatedAt: entry.updatedAt || entry.addedAt,
-    }));
+  return Object.entries(films).flatMap(([filmId, entry]) => {
+    if (changedOnly && serverUpdatedAt.get(filmId) === entry.updatedAt) return [];
+    // Entries with a null status are skipped (shouldn't happen but be defensive)
+    const payload = entryToPayload(filmId, entry);
+    return payload ? [payload] : [];
+  });
+}
+
+/**
+ * Local deletions to send to the server
+ */
+function tombstonesToApiFormat(): FilmStatusTombstone[] {
+  return Object.entries(useFilmStatus.getState().tombstones).map(([filmId, deletedAt]) => ({
+    filmId,
+    deletedAt,
+  }));
 }
 
 /**
@@ -105,6 +127,7 @@ function getPreferencesUpdatedAt(): string {
 export async function performFullSync(source: SyncSource = "manual"): Promise<boolean> {
   const startTime = performance.now();
   const localStatuses = filmStatusesToApiFormat();
+  const localDeletions = tombstonesToApiFormat();
 
   // Track sync initiation
   trackSyncInitiated(source, localStatuses.length);
@@ -115,6 +138,7 @@ export async function performFullSync(source: SyncSource = "manual"): Promise<bo
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         filmStatuses: localStatuses,
+        deletedFilmStatuses: localDeletions,
         preferences: preferencesToServerFormat(),
         persistedFilters: filtersToServerFormat(),
         preferencesUpdatedAt: getPreferencesUpdatedAt(),
@@ -149,6 +173,18 @@ export async function performFullSync(source: SyncSource = "manual"): Promise<bo
         };
       }
       useFilmStatus.getState().bulkSet(transformed);
+
+      // The server now has exactly these, and the deletions we sent
+      serverUpdatedAt.clear();
+      for (const [filmId, entry] of Object.entries(transformed)) {
+        serverUpdatedAt.set(filmId, entry.updatedAt);
+      }
+      useFilmStatus
+        .getState()
+        .clearTombstones(Object.fromEntries(localDeletions.map((d) => [d.filmId, d.deletedAt])));
+      if (data.filmStatusCursor != null) {
+        useFilmStatus.getState().setSyncCursor(data.filmStatusCursor);
+      }
     }
 
     // Apply merged preferences
@@ -228,21 +264,42 @@ function syncUserEngagementPropertiesToPostHog(
 }
 
 /**
- * Push only film status changes to server (for debounced updates)
+ * Push film statuses changed since the last sync, and local deletions,
+ * to the server (for debounced updates)
  */
 export async function pushFilmStatuses(): Promise<boolean> {
   try {
-    const response = await fetch("/api/user/film-statuses", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        statuses: filmStatusesToApiFormat(),
-      }),
-    });
+    const statuses = filmStatusesToApiFormat(true);
+    const deleted = tombstonesToApiFormat();
+    if (statuses.length === 0 && deleted.length === 0) return true;
+
+    // Sent in batches the endpoint accepts (imports can add thousands)
+    const batches = Math.ceil(Math.max(statuses.length, deleted.length) / FILM_STATUS_BATCH_SIZE);
+    for (let batch = 0; batch < batches; batch++) {
+      const start = batch * FILM_STATUS_BATCH_SIZE;
+      const batchStatuses = statuses.slice(start, start + FILM_STATUS_BATCH_SIZE);
+      const batchDeleted = deleted.slice(start, start + FILM_STATUS_BATCH_SIZE);
+
+      const response = await fetch("/api/user/film-statuses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ statuses: batchStatuses, deleted: batchDeleted }),
+      });
 
-    if (!response.ok) {
-      if (response.status === 401) return false;
-      throw new Error(`Film status sync failed: ${response.status}`);
+      if (!response.ok) {
+        if (response.status === 401) return false;
+        throw new Error(`Film status sync failed: ${response.status}`);
+      }
+
+      for (const status of batchStatuses) {
+        serverUpdatedAt.set(status.filmId, status.updatedAt);
+      }
+      for (const deletion of batchDeleted) {
+        serverUpdatedAt.delete(deletion.filmId);
+      }
+      useFilmStatus
+        .getState()
+        .clearTombstones(Object.fromEntries(batchDeleted.map((d) => [d.filmId, d.deletedAt])));
     }
 
     console.log("[Sync] Film statuses pushed successfully");
@@ -253,6 +310,64 @@ export async function pushFilmStatuses(): Promise<boolean> {
   }
 }
 
+/**
+ * Apply film status changes made on another device
+ */
+export function applyRemoteFilmStatusChanges(changes: FilmStatusChanges): number {
+  // Record what the server has first, so the store update doesn't push it back
+  for (const status of changes.statuses) {
+    serverUpdatedAt.set(status.filmId, status.updatedAt);
+  }
+  for (const deletion of changes.deleted) {
+    serverUpdatedAt.delete(deletion.filmId);
+  }
+  return useFilmStatus.getState().applyRemoteChanges(changes);
+}
+
+/**
+ * Listen for film status changes from the user's other devices (server-sent
+ * events) while the tab is visible. Returns a function that stops listening.
+ */
+export function subscribeToFilmStatusChanges(): () => void {
+  let source: EventSource | null = null;
+
+  const open = () => {
+    // Picks up from whatever the store has seen, including while hidden
+    const since = useFilmStatus.getState().syncCursor;
+    source = new EventSource(`/api/user/film-statuses/stream?since=${since}`);
+
+    source.addEventListener("changes", (event) => {
+      try {
+        const applied = applyRemoteFilmStatusChanges(JSON.parse((event as MessageEvent<string>).data));
+        if (applied > 0) {
+          console.log("[Sync] Applied", applied, "film status changes from another device");
+        }
+      } catch (error) {
+        console.error("[Sync] Failed to apply film status changes:", error);
+      }
+    });
+  };
+
+  const close = () => {
+    source?.close();
+    source = null;
+  };
+
+  // Hidden tabs don't need live changes, so they don't hold a stream open
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") close();
+    else if (!source) open();
+  };
+
+  if (document.visibilityState !== "hidden") open();
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+    close();
+  };
+}
+
 /**
  * Push only preferences to server (for debounced updates)
  */
@@ -294,18 +409,7 @@ export async function pushSingleFilmStatus(filmId: string): Promise<boolean> {
     const response = await fetch(`/api/user/film-statuses/${encodeURIComponent(filmId)}`, {
       method: "PUT",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        status: entry.status,
-        addedAt: entry.addedAt,
-        seenAt: entry.seenAt || null,
-        rating: entry.rating || null,
-        notes: entry.notes || null,
-        filmTitle: entry.filmTitle || null,
-        filmYear: entry.filmYear || null,
-        filmDirectors: entry.filmDirectors || null,
-        filmPosterUrl: entry.filmPosterUrl || null,
-        updatedAt: entry.updatedAt,
-      }),
+      body: JSON.stringify(entryToPayload(filmId, entry)),
     });
 
     if (!response.ok) {
@@ -325,9 +429,11 @@ export async function pushSingleFilmStatus(filmId: string): Promise<boolean> {
  */
 export async function deleteFilmStatus(filmId: string): Promise<boolean> {
   try {
-    const response = await fetch(`/api/user/film-statuses/${encodeURIComponent(filmId)}`, {
-      method: "DELETE",
-    });
+    const deletedAt = encodeURIComponent(new Date().toISOString());
+    const response = await fetch(
+      `/api/user/film-statuses/${encodeURIComponent(filmId)}?deletedAt=${deletedAt}`,
+      { method: "DELETE" }
+    );
 
     if (!response.ok) {
       if (response.status === 401) return false;
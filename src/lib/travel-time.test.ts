@@ -9,6 +9,7 @@ import {
   getReachableScreenings,
   groupByUrgency,
   formatLeaveBy,
+  estimateTravelMinutes,
   type Screening,
   type ReachableScreening,
 } from "./travel-time";
@@ -314,3 +315,26 @@ describe("formatLeaveBy", () => {
     expect(result).toMatch(/Leave by/);
   });
 });
+
+describe("estimateTravelMinutes", () => {
+  const bfiSouthbank = { lat: 51.5069, lng: -0.1149 };
+  const princeCharles = { lat: 51.5113, lng: -0.1302 };
+  const rioDalston = { lat: 51.5485, lng: -0.0754 };
+
+  it("is zero at the same venue", () => {
+    expect(estimateTravelMinutes(bfiSouthbank, bfiSouthbank, "transit")).toBe(0);
+  });
+
+  it("grows with distance", () => {
+    const near = estimateTravelMinutes(bfiSouthbank, princeCharles, "transit");
+    const far = estimateTravelMinutes(bfiSouthbank, rioDalston, "transit");
+    expect(near).toBeGreaterThan(10);
+    expect(far).toBeGreaterThan(near);
+  });
+
+  it("is slower on foot than by bike", () => {
+    expect(estimateTravelMinutes(bfiSouthbank, rioDalston, "walking")).toBeGreaterThan(
+      estimateTravelMinutes(bfiSouthbank, rioDalston, "bicycling")
+    );
+  });
+});
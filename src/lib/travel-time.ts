@@ -94,6 +94,39 @@ async function fetchTravelTimesBatch(
   }
 }
 
+/** Average speeds (km/h) and fixed overheads (min) for rough estimates */
+const ESTIMATE_SPEEDS: Record<TravelMode, { kmh: number; overhead: number }> = {
+  transit: { kmh: 18, overhead: 10 },
+  walking: { kmh: 4.8, overhead: 0 },
+  bicycling: { kmh: 14, overhead: 3 },
+};
+
+/** Streets are longer than the straight line */
+const ROUTE_FACTOR = 1.3;
+
+/**
+ * Rough travel time between two points from the straight-line distance.
+ * Used when Distance Matrix times aren't available.
+ */
+export function estimateTravelMinutes(
+  from: Coordinates,
+  to: Coordinates,
+  mode: TravelMode
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  const km = 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  if (km < 0.05) return 0;
+
+  const { kmh, overhead } = ESTIMATE_SPEEDS[mode];
+  return Math.round(overhead + ((km * ROUTE_FACTOR) / kmh) * 60);
+}
+
 // ============================================================================
 // Screening Filtering
 // ============================================================================
@@ -4,7 +4,12 @@
  */
 
 import { format, parseISO } from "date-fns";
-import type { ProgrammingType, TimeOfDay } from "@/lib/filter-constants";
+import {
+  ACCESSIBILITY_FLAGS,
+  type AccessibilityFlag,
+  type ProgrammingType,
+  type TimeOfDay,
+} from "@/lib/filter-constants";
 
 // Filters that make sense to share via URL
 // Excludes: filmSearch (session-only), hideSeen/hideNotInterested (personal data dependent)
@@ -19,6 +24,8 @@ export interface ShareableFilters {
   decades: string[];
   genres: string[];
   timesOfDay: TimeOfDay[];
+  accessibility: AccessibilityFlag[];
+  maxPrice: number | null;
   festivalSlug: string | null;
   festivalOnly: boolean;
   onlySingleShowings: boolean;
@@ -36,6 +43,8 @@ const PARAM_KEYS = {
   decades: "dec",
   genres: "g",
   timesOfDay: "tod",
+  accessibility: "acc",
+  maxPrice: "maxp",
   festivalSlug: "festival",
   festivalOnly: "festonly",
   onlySingleShowings: "single",
@@ -67,6 +76,9 @@ export function filtersToSearchParams(filters: Partial<ShareableFilters>): URLSe
   if (filters.timesOfDay?.length) {
     params.set(PARAM_KEYS.timesOfDay, filters.timesOfDay.join(","));
   }
+  if (filters.accessibility?.length) {
+    params.set(PARAM_KEYS.accessibility, filters.accessibility.join(","));
+  }
 
   // Dates - ISO date format (YYYY-MM-DD)
   if (filters.dateFrom) {
@@ -84,6 +96,10 @@ export function filtersToSearchParams(filters: Partial<ShareableFilters>): URLSe
     params.set(PARAM_KEYS.timeTo, String(filters.timeTo));
   }
 
+  if (filters.maxPrice !== null && filters.maxPrice !== undefined) {
+    params.set(PARAM_KEYS.maxPrice, String(filters.maxPrice));
+  }
+
   // Strings
   if (filters.festivalSlug) {
     params.set(PARAM_KEYS.festivalSlug, filters.festivalSlug);
@@ -137,6 +153,16 @@ export function searchParamsToFilters(params: URLSearchParams): Partial<Shareabl
     filters.timesOfDay = timesOfDay.split(",").filter(Boolean) as TimeOfDay[];
   }
 
+  // Unknown flags would be rejected by /api/screenings, so drop them here
+  const accessibility = params.get(PARAM_KEYS.accessibility);
+  if (accessibility) {
+    filters.accessibility = accessibility
+      .split(",")
+      .filter((flag): flag is AccessibilityFlag =>
+        (ACCESSIBILITY_FLAGS as readonly string[]).includes(flag)
+      );
+  }
+
   // Dates
   const dateFrom = params.get(PARAM_KEYS.dateFrom);
   if (dateFrom) {
@@ -173,6 +199,14 @@ export function searchParamsToFilters(params: URLSearchParams): Partial<Shareabl
     }
   }
 
+  const maxPrice = params.get(PARAM_KEYS.maxPrice);
+  if (maxPrice !== null) {
+    const parsed = parseFloat(maxPrice);
+    if (!isNaN(parsed) && parsed > 0 && parsed <= 1000) {
+      filters.maxPrice = parsed;
+    }
+  }
+
   // Strings
   const festival = params.get(PARAM_KEYS.festivalSlug);
   if (festival) {
@@ -207,3 +241,65 @@ export function buildShareableUrl(filters: Partial<ShareableFilters>, baseUrl?:
 export function hasFilterParams(params: URLSearchParams): boolean {
   return Object.values(PARAM_KEYS).some(key => params.has(key));
 }
+
+// Filters /api/screenings evaluates in SQL, so the calendar only downloads matches
+// Excludes: dates (the loader pages by date), timesOfDay (legacy, not a single hour range),
+// hideSeen/hideNotInterested (personal data dependent)
+export interface ServerScreeningFilters {
+  filmSearch: string;
+  cinemaIds: string[];
+  timeFrom: number | null;
+  timeTo: number | null;
+  formats: string[];
+  programmingTypes: ProgrammingType[];
+  decades: string[];
+  genres: string[];
+  accessibility: AccessibilityFlag[];
+  maxPrice: number | null;
+  onlySingleShowings: boolean;
+}
+
+/**
+ * Serialize filters to /api/screenings query params
+ * Empty when no server-side filter is active
+ */
+export function filtersToScreeningsQuery(filters: ServerScreeningFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  const search = filters.filmSearch.trim();
+  if (search) {
+    params.set("q", search);
+  }
+  if (filters.cinemaIds.length) {
+    params.set("cinemas", filters.cinemaIds.join(","));
+  }
+  if (filters.formats.length) {
+    params.set("formats", filters.formats.join(","));
+  }
+  if (filters.programmingTypes.length) {
+    params.set("types", filters.programmingTypes.join(","));
+  }
+  if (filters.decades.length) {
+    params.set("decades", filters.decades.join(","));
+  }
+  if (filters.genres.length) {
+    params.set("genres", filters.genres.join(","));
+  }
+  if (filters.accessibility.length) {
+    params.set("accessibility", filters.accessibility.join(","));
+  }
+  if (filters.maxPrice !== null) {
+    params.set("maxPrice", String(filters.maxPrice));
+  }
+  if (filters.timeFrom !== null) {
+    params.set("timeFrom", String(filters.timeFrom));
+  }
+  if (filters.timeTo !== null) {
+    params.set("timeTo", String(filters.timeTo));
+  }
+  if (filters.onlySingleShowings) {
+    params.set("singleShowing", "true");
+  }
+
+  return params;
+}
@@ -0,0 +1,29 @@
+/**
+ * Watch Group Access
+ * Membership checks shared by the /api/user/groups routes
+ */
+
+import { ForbiddenError, NotFoundError } from "@/lib/api-errors";
+import { getWatchGroupRole } from "@/db/repositories";
+import type { WatchGroupRole } from "@/db/schema";
+
+/**
+ * The user's role in the group. Non-members get a 404 so group IDs can't be
+ * probed; members without the required role get a 403.
+ */
+export async function requireWatchGroupRole(
+  groupId: string,
+  userId: string,
+  required?: WatchGroupRole
+): Promise<WatchGroupRole> {
+  const role = await getWatchGroupRole(groupId, userId);
+
+  if (!role) {
+    throw new NotFoundError("Group not found");
+  }
+  if (required === "owner" && role !== "owner") {
+    throw new ForbiddenError("Only the group owner can do that");
+  }
+
+  return role;
+}
@@ -0,0 +1,64 @@
+/**
+ * Watch Groups Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { combineWatchlists, rankProposals, tallyVotes, type VoteTally } from "./watch-groups";
+
+const MEMBERS = ["ada", "bo", "cy"];
+
+function want(userId: string, filmId: string, title = filmId.toUpperCase()) {
+  return { userId, filmId, title };
+}
+
+describe("combineWatchlists", () => {
+  it("lists every member's films, most wanted first, marking the ones everyone wants", () => {
+    const films = combineWatchlists(MEMBERS, [
+      want("ada", "stalker", "Stalker"),
+      want("bo", "mirror", "Mirror"),
+      want("cy", "stalker", "Stalker"),
+      want("bo", "stalker", "Stalker"),
+      want("ada", "solaris", "Solaris"),
+      want("cy", "mirror", "Mirror"),
+    ]);
+
+    expect(films).toEqual([
+      { filmId: "stalker", title: "Stalker", memberIds: ["ada", "bo", "cy"], wantedByAll: true },
+      { filmId: "mirror", title: "Mirror", memberIds: ["bo", "cy"], wantedByAll: false },
+      { filmId: "solaris", title: "Solaris", memberIds: ["ada"], wantedByAll: false },
+    ]);
+  });
+
+  it("ignores people who have left and duplicate rows", () => {
+    const films = combineWatchlists(["ada"], [want("ada", "stalker"), want("ada", "stalker"), want("gone", "mirror")]);
+
+    expect(films).toEqual([{ filmId: "stalker", title: "STALKER", memberIds: ["ada"], wantedByAll: true }]);
+  });
+});
+
+describe("tallyVotes", () => {
+  it("counts current members' votes and who is still to vote", () => {
+    expect(
+      tallyVotes(MEMBERS, [
+        { userId: "ada", vote: "yes" },
+        { userId: "bo", vote: "maybe" },
+        { userId: "gone", vote: "no" },
+      ])
+    ).toEqual({ yes: 1, maybe: 1, no: 0, pending: 1 });
+  });
+});
+
+describe("rankProposals", () => {
+  const tally = (yes: number, maybe = 0): VoteTally => ({ yes, maybe, no: 0, pending: 0 });
+
+  it("puts the most popular first, then the soonest", () => {
+    const ranked = rankProposals([
+      { id: "late", tally: tally(2), datetime: "2026-10-25T19:00:00Z" },
+      { id: "popular", tally: tally(3), datetime: "2026-10-30T19:00:00Z" },
+      { id: "soon", tally: tally(2), datetime: "2026-10-20T19:00:00Z" },
+      { id: "maybes", tally: tally(2, 1), datetime: "2026-10-28T19:00:00Z" },
+    ]);
+
+    expect(ranked.map((p) => p.id)).toEqual(["popular", "maybes", "soon", "late"]);
+  });
+});
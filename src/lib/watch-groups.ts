@@ -0,0 +1,90 @@
+/**
+ * Watch Groups
+ * Combines members' watchlists and tallies votes on proposed screenings
+ */
+
+import type { WatchGroupVote } from "@/db/schema";
+
+export const MAX_GROUP_MEMBERS = 20;
+export const MAX_GROUPS_PER_USER = 20;
+export const GROUP_NAME_MAX_LENGTH = 80;
+
+export interface GroupWant {
+  userId: string;
+  filmId: string;
+  title: string;
+}
+
+export interface GroupFilm {
+  filmId: string;
+  title: string;
+  /** Members who want to see it, in member order */
+  memberIds: string[];
+  wantedByAll: boolean;
+}
+
+export interface VoteTally {
+  yes: number;
+  maybe: number;
+  no: number;
+  /** Members who haven't voted */
+  pending: number;
+}
+
+/**
+ * The union of members' want-to-see films, most wanted first; films wanted by
+ * every member are the intersection. Wants from non-members are ignored.
+ */
+export function combineWatchlists(memberIds: string[], wants: GroupWant[]): GroupFilm[] {
+  const members = new Set(memberIds);
+  const films = new Map<string, { title: string; wantedBy: Set<string> }>();
+
+  for (const want of wants) {
+    if (!members.has(want.userId)) continue;
+    const film = films.get(want.filmId) ?? { title: want.title, wantedBy: new Set<string>() };
+    film.wantedBy.add(want.userId);
+    films.set(want.filmId, film);
+  }
+
+  return [...films]
+    .map(([filmId, film]) => ({
+      filmId,
+      title: film.title,
+      memberIds: memberIds.filter((id) => film.wantedBy.has(id)),
+      wantedByAll: film.wantedBy.size === members.size,
+    }))
+    .sort((a, b) => b.memberIds.length - a.memberIds.length || a.title.localeCompare(b.title));
+}
+
+/**
+ * Count current members' votes on a proposal
+ */
+export function tallyVotes(
+  memberIds: string[],
+  votes: { userId: string; vote: WatchGroupVote }[]
+): VoteTally {
+  const members = new Set(memberIds);
+  const tally: VoteTally = { yes: 0, maybe: 0, no: 0, pending: 0 };
+  const voted = new Set<string>();
+
+  for (const { userId, vote } of votes) {
+    if (!members.has(userId) || voted.has(userId)) continue;
+    voted.add(userId);
+    tally[vote] += 1;
+  }
+
+  tally.pending = members.size - voted.size;
+  return tally;
+}
+
+/**
+ * Proposals with the most support first (yes, then maybe), soonest first on a tie
+ */
+export function rankProposals<T extends { tally: VoteTally; datetime: Date | string }>(proposals: T[]): T[] {
+  return [...proposals].sort(
+    (a, b) =>
+      b.tally.yes - a.tally.yes ||
+      b.tally.maybe - a.tally.maybe ||
+      new Date(a.datetime).getTime() - new Date(b.datetime).getTime()
+  );
+}
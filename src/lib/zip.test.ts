@@ -0,0 +1,33 @@
+/**
+ * Zip Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { crc32, createZip } from "./zip";
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("createZip", () => {
+  it("stores each file after its header and lists them in the central directory", () => {
+    const zip = createZip([
+      { name: "a.txt", content: "hello" },
+      { name: "b.csv", content: "x,y\n1,2\n" },
+    ]);
+    const view = new DataView(zip.buffer);
+    const text = (start: number, end: number) => new TextDecoder().decode(zip.subarray(start, end));
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(text(30, 35)).toBe("a.txt");
+    expect(text(35, 40)).toBe("hello");
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+});
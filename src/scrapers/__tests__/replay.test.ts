@@ -0,0 +1,131 @@
+/**
+ * Scraper Fixture Replay Tests
+ *
+ * Replays each cinema's recorded fixtures through its scraper and compares the
+ * output with the committed snapshot in the fixture directory. Runs offline.
+ *
+ *   npm run scrape:snapshot -- record <cinema-id>                # Record fixtures
+ *   npx vitest run src/scrapers/__tests__/replay.test.ts -u      # Write snapshots
+ *
+ * Cinemas in REPLAY_CINEMAS must have committed fixtures - a missing fixture
+ * directory, scraper entry or snapshot fails rather than skipping. Fixtures
+ * with Playwright pages need Chromium and only run with
+ * SCRAPER_REPLAY_BROWSER=1.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as path from "path";
+import { SCRAPERS } from "./scrapers";
+import { createSnapshot } from "./snapshot";
+import {
+  endFixtureSession,
+  getFixturePath,
+  listFixtures,
+  loadFixtureManifest,
+  startFixtureSession,
+} from "../utils/fixture-recorder";
+import { createPicturehouseScraper } from "../chains/picturehouse";
+
+const REPLAY_TIMEOUT_MS = 120_000;
+const replayBrowser = process.env.SCRAPER_REPLAY_BROWSER === "1";
+
+// Several scrapers read listed times in the server's timezone; the sites are
+// in London, and snapshots must not depend on where the suite runs
+process.env.TZ = "Europe/London";
+
+/** Cinemas with committed fixtures (HTTP-only, so they run everywhere) */
+const REPLAY_CINEMAS = [
+  "genesis-mile-end",
+  "lexi",
+  "picturehouse-central",
+  "prince-charles",
+  "rich-mix",
+  "rio-dalston",
+  "screen-on-the-green",
+];
+
+/**
+ * Drive a promise to completion under fake timers - rate limiting delays fire
+ * immediately, and the clock only moves by the delays the scraper asked for
+ */
+async function runWithFakeTimers<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(
+    () => (settled = true),
+    () => (settled = true)
+  );
+
+  while (!settled) {
+    await vi.advanceTimersToNextTimerAsync();
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  return promise;
+}
+
+afterEach(() => {
+  endFixtureSession();
+  vi.useRealTimers();
+});
+
+describe("scraper fixture replay", () => {
+  const cinemaIds = [...new Set([...REPLAY_CINEMAS, ...listFixtures()])].sort();
+
+  for (const cinemaId of cinemaIds) {
+    const entry = SCRAPERS.find((s) => s.cinemaId === cinemaId);
+    const manifest = loadFixtureManifest(cinemaId);
+    const usesBrowser = (manifest?.harFiles.length ?? 0) > 0;
+
+    it.skipIf(usesBrowser && !replayBrowser)(
+      `${cinemaId} matches its snapshot`,
+      async () => {
+        expect(manifest, `no fixtures - npm run scrape:snapshot -- record ${cinemaId}`).not.toBeNull();
+        expect(entry, `${cinemaId} is not in the snapshot scraper registry`).toBeDefined();
+
+        const recordedAt = new Date(manifest!.recordedAt);
+        const scraper = entry!.createScraper();
+
+        startFixtureSession(cinemaId, "replay");
+
+        let screenings;
+        if (usesBrowser) {
+          // Playwright needs real timers; only pin the clock
+          vi.useFakeTimers({ now: recordedAt, toFake: ["Date"], shouldAdvanceTime: true });
+          screenings = await scraper.scrape();
+        } else {
+          vi.useFakeTimers({
+            now: recordedAt,
+            toFake: ["Date", "setTimeout", "clearTimeout", "setInterval", "clearInterval"],
+          });
+          screenings = await runWithFakeTimers(scraper.scrape());
+        }
+
+        const summary = endFixtureSession();
+        expect(summary?.misses).toEqual([]);
+        expect(screenings.length).toBeGreaterThan(0);
+
+        const snapshot = { ...createSnapshot(cinemaId, screenings), capturedAt: manifest!.recordedAt };
+        await expect(`${JSON.stringify(snapshot, null, 2)}\n`).toMatchFileSnapshot(
+          path.join(getFixturePath(cinemaId), "snapshot.json")
+        );
+      },
+      REPLAY_TIMEOUT_MS
+    );
+  }
+});
+
+describe("availability lookup replay", () => {
+  it("reads Picturehouse seat counts", async () => {
+    startFixtureSession("picturehouse-central", "replay");
+    const statuses = await createPicturehouseScraper().fetchAvailability("picturehouse-central");
+
+    expect(endFixtureSession()?.misses).toEqual([]);
+    expect(Object.fromEntries(statuses)).toEqual({
+      "picturehouse-picturehouse-central-61544": "available",
+      "picturehouse-picturehouse-central-61545": "low",
+      "picturehouse-picturehouse-central-61560": "sold_out",
+      "picturehouse-picturehouse-central-61602": "available",
+      "picturehouse-picturehouse-central-61603": "sold_out",
+    });
+  });
+});
@@ -5,6 +5,7 @@
  *   npx tsx src/scrapers/__tests__/run-snapshot.ts capture bfi-southbank
  *   npx tsx src/scrapers/__tests__/run-snapshot.ts compare bfi-southbank
  *   npx tsx src/scrapers/__tests__/run-snapshot.ts list
+ *   npx tsx src/scrapers/__tests__/run-snapshot.ts record rio-dalston
  */
 
 import {
@@ -17,98 +18,12 @@ import {
   printComparison,
 } from "./snapshot";
 
-// Import scraper factories - add more as needed
-import { createBFIScraper } from "../cinemas/bfi";
-import { createRioScraper } from "../cinemas/rio";
-import { createGenesisScraper } from "../cinemas/genesis";
-import { createPrinceCharlesScraper } from "../cinemas/prince-charles";
-import { createICAScraper } from "../cinemas/ica";
-import { createBarbicanScraper } from "../cinemas/barbican";
-import { createPeckhamplexScraper } from "../cinemas/peckhamplex";
-import { createNickelScraper } from "../cinemas/the-nickel";
-import { createElectricScraper } from "../cinemas/electric";
-import { createLexiScraper } from "../cinemas/lexi";
-import { createGardenCinemaScraper } from "../cinemas/garden";
-
-// ============================================================================
-// Scraper Registry
-// ============================================================================
-
-interface ScraperEntry {
-  cinemaId: string;
-  name: string;
-  createScraper: (venueId?: string) => { scrape: () => Promise<unknown[]> };
-  venues?: string[];
-}
-
-const SCRAPERS: ScraperEntry[] = [
-  // Playwright-based (slower)
-  {
-    cinemaId: "bfi-southbank",
-    name: "BFI Southbank",
-    createScraper: () => createBFIScraper("bfi-southbank"),
-  },
-  {
-    cinemaId: "bfi-imax",
-    name: "BFI IMAX",
-    createScraper: () => createBFIScraper("bfi-imax"),
-  },
-  // Cheerio-based (faster)
-  {
-    cinemaId: "rio-dalston",
-    name: "Rio Cinema",
-    createScraper: () => createRioScraper(),
-  },
-  {
-    cinemaId: "genesis-mile-end",
-    name: "Genesis Cinema",
-    createScraper: () => createGenesisScraper(),
-  },
-  {
-    cinemaId: "prince-charles",
-    name: "Prince Charles Cinema",
-    createScraper: () => createPrinceCharlesScraper(),
-  },
-  {
-    cinemaId: "ica",
-    name: "ICA Cinema",
-    createScraper: () => createICAScraper(),
-  },
-  {
-    cinemaId: "barbican",
-    name: "Barbican Cinema",
-    createScraper: () => createBarbicanScraper(),
-  },
-  {
-    cinemaId: "peckhamplex",
-    name: "Peckham Plex",
-    createScraper: () => createPeckhamplexScraper(),
-  },
-  {
-    cinemaId: "nickel",
-    name: "The Nickel",
-    createScraper: () => createNickelScraper(),
-  },
-  {
-    cinemaId: "electric-portobello",
-    name: "Electric Cinema Portobello",
-    createScraper: () => createElectricScraper(),
-  },
-  {
-    cinemaId: "lexi",
-    name: "The Lexi Cinema",
-    createScraper: () => createLexiScraper(),
-  },
-  {
-    cinemaId: "garden",
-    name: "Garden Cinema",
-    createScraper: () => createGardenCinemaScraper(),
-  },
-];
-
-function getScraperEntry(cinemaId: string): ScraperEntry | undefined {
-  return SCRAPERS.find((s) => s.cinemaId === cinemaId);
-}
+import { SCRAPERS, getScraperEntry } from "./scrapers";
+import {
+  endFixtureSession,
+  getFixturePath,
+  startFixtureSession,
+} from "../utils/fixture-recorder";
 
 // ============================================================================
 // Commands
@@ -128,8 +43,7 @@ async function captureSnapshot(cinemaId: string): Promise<void> {
     const scraper = entry.createScraper();
     const screenings = await scraper.scrape();
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const snapshot = createSnapshot(cinemaId, screenings as any);
+    const snapshot = createSnapshot(cinemaId, screenings);
     const filePath = saveSnapshot(snapshot);
 
     printSnapshot(snapshot);
@@ -161,8 +75,7 @@ async function compareSnapshot(cinemaId: string): Promise<void> {
     const scraper = entry.createScraper();
     const screenings = await scraper.scrape();
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const comparison = compareSnapshots(cinemaId, screenings as any);
+    const comparison = compareSnapshots(cinemaId, screenings);
     printComparison(comparison);
 
     if (!comparison.match) {
@@ -174,6 +87,33 @@ async function compareSnapshot(cinemaId: string): Promise<void> {
   }
 }
 
+async function recordFixtures(cinemaId: string): Promise<void> {
+  const entry = getScraperEntry(cinemaId);
+  if (!entry) {
+    console.error(`Unknown cinema: ${cinemaId}`);
+    console.log("Available cinemas:", SCRAPERS.map((s) => s.cinemaId).join(", "));
+    process.exit(1);
+  }
+
+  console.log(`🎙️  Recording fixtures for ${entry.name}...`);
+
+  startFixtureSession(cinemaId, "record");
+  try {
+    const scraper = entry.createScraper();
+    const screenings = await scraper.scrape();
+    const summary = endFixtureSession();
+
+    console.log(`✅ Recorded ${summary?.requests ?? 0} requests (${screenings.length} screenings)`);
+    console.log(`   Saved to: ${getFixturePath(cinemaId)}`);
+    console.log("\nWrite the replay snapshot with:");
+    console.log("  npx vitest run src/scrapers/__tests__/replay.test.ts -u");
+  } catch (error) {
+    endFixtureSession();
+    console.error(`❌ Failed to record fixtures:`, error);
+    process.exit(1);
+  }
+}
+
 function listAllSnapshots(): void {
   const snapshots = listSnapshots();
 
@@ -208,8 +148,7 @@ async function captureAll(): Promise<void> {
     try {
       const scraper = entry.createScraper();
       const screenings = await scraper.scrape();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const snapshot = createSnapshot(entry.cinemaId, screenings as any);
+      const snapshot = createSnapshot(entry.cinemaId, screenings);
       saveSnapshot(snapshot);
       results.push({ cinemaId: entry.cinemaId, success: true, count: snapshot.screeningCount });
       console.log(`  ✅ ${snapshot.screeningCount} screenings`);
@@ -252,8 +191,7 @@ async function compareAll(): Promise<void> {
     try {
       const scraper = entry.createScraper();
       const screenings = await scraper.scrape();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const comparison = compareSnapshots(cinemaId, screenings as any);
+      const comparison = compareSnapshots(cinemaId, screenings);
 
       if (comparison.match) {
         console.log(`  ✅ Match (${comparison.currentCount} screenings)`);
@@ -315,6 +253,14 @@ async function main(): Promise<void> {
       listAllSnapshots();
       break;
 
+    case "record":
+      if (args.length === 0) {
+        console.error("Usage: record <cinema-id>");
+        process.exit(1);
+      }
+      await recordFixtures(args[0]);
+      break;
+
     case "capture-all":
       await captureAll();
       break;
@@ -332,6 +278,7 @@ async function main(): Promise<void> {
       console.log("  list                 - List available snapshots");
       console.log("  capture-all          - Capture all registered scrapers");
       console.log("  compare-all          - Compare all against baselines");
+      console.log("  record <cinema-id>   - Record fixtures for offline replay tests");
       console.log("");
       console.log("Examples:");
       console.log("  npx tsx src/scrapers/__tests__/run-snapshot.ts capture bfi-southbank");
@@ -0,0 +1,191 @@
+/**
+ * Snapshot Scraper Registry
+ *
+ * Scrapers available to the snapshot CLI and the fixture replay tests, keyed
+ * by the cinema ID used for snapshot and fixture file names. Chain scrapers
+ * get one entry per active venue.
+ */
+
+import type { ChainScraper, RawScreening, VenueConfig } from "../types";
+
+import { createBFIScraper } from "../cinemas/bfi";
+import { createGenesisScraper } from "../cinemas/genesis";
+import { createPrinceCharlesScraper } from "../cinemas/prince-charles";
+import { createICAScraper } from "../cinemas/ica";
+import { createBarbicanScraper } from "../cinemas/barbican";
+import { createPeckhamplexScraper } from "../cinemas/peckhamplex";
+import { createNickelScraper } from "../cinemas/the-nickel";
+import { createElectricScraper } from "../cinemas/electric";
+import { createGardenCinemaScraper } from "../cinemas/garden";
+import { createCastleScraper } from "../cinemas/castle";
+import { createCastleSidcupScraper } from "../cinemas/castle-sidcup";
+import { createCloseUpCinemaScraper } from "../cinemas/close-up";
+import { createColdharbourBlueScraper } from "../cinemas/coldharbour-blue";
+import { createDavidLeanScraper } from "../cinemas/david-lean";
+import { createElectricScraperV2 } from "../cinemas/electric-v2";
+import { createNickelScraperV2 } from "../cinemas/nickel-v2";
+import { createOlympicScraper } from "../cinemas/olympic";
+import { createPhoenixScraper } from "../cinemas/phoenix";
+import { createRegentStreetScraper } from "../cinemas/regent-street";
+import { createRiversideStudiosScraper } from "../cinemas/riverside-studios";
+import { createRomfordLumiereScraper } from "../cinemas/romford-lumiere";
+import { createCurzonScraper, getActiveCurzonVenues } from "../chains/curzon";
+import { createPicturehouseScraper, getActivePicturehouseVenues } from "../chains/picturehouse";
+import { createEverymanScraper, getActiveEverymanVenues } from "../chains/everyman";
+import { createOdeonScraper, getActiveOdeonVenues } from "../chains/odeon";
+import { createBookingSystemScraper, BOOKING_SYSTEM_VENUES } from "../booking-systems";
+
+export interface ScraperEntry {
+  cinemaId: string;
+  name: string;
+  createScraper: () => { scrape: () => Promise<RawScreening[]> };
+}
+
+/**
+ * Wrap a single chain venue as a scraper (scrapeVenues handles browser cleanup)
+ */
+function chainVenueEntries(
+  venues: VenueConfig[],
+  createChain: () => ChainScraper
+): ScraperEntry[] {
+  return venues.map((venue) => ({
+    cinemaId: venue.id,
+    name: venue.name,
+    createScraper: () => ({
+      scrape: async () => {
+        const results = await createChain().scrapeVenues([venue.id]);
+        return results.get(venue.id) ?? [];
+      },
+    }),
+  }));
+}
+
+export const SCRAPERS: ScraperEntry[] = [
+  // Playwright-based (slower)
+  {
+    cinemaId: "bfi-southbank",
+    name: "BFI Southbank",
+    createScraper: () => createBFIScraper("bfi-southbank"),
+  },
+  {
+    cinemaId: "bfi-imax",
+    name: "BFI IMAX",
+    createScraper: () => createBFIScraper("bfi-imax"),
+  },
+  {
+    cinemaId: "phoenix-east-finchley",
+    name: "Phoenix Cinema",
+    createScraper: () => createPhoenixScraper(),
+  },
+  {
+    cinemaId: "regent-street-cinema",
+    name: "Regent Street Cinema",
+    createScraper: () => createRegentStreetScraper(),
+  },
+  {
+    cinemaId: "romford-lumiere",
+    name: "Lumiere Romford",
+    createScraper: () => createRomfordLumiereScraper(),
+  },
+  // Cheerio-based (faster)
+  {
+    cinemaId: "genesis-mile-end",
+    name: "Genesis Cinema",
+    createScraper: () => createGenesisScraper(),
+  },
+  {
+    cinemaId: "prince-charles",
+    name: "Prince Charles Cinema",
+    createScraper: () => createPrinceCharlesScraper(),
+  },
+  {
+    cinemaId: "ica",
+    name: "ICA Cinema",
+    createScraper: () => createICAScraper(),
+  },
+  {
+    cinemaId: "barbican",
+    name: "Barbican Cinema",
+    createScraper: () => createBarbicanScraper(),
+  },
+  {
+    cinemaId: "peckhamplex",
+    name: "Peckham Plex",
+    createScraper: () => createPeckhamplexScraper(),
+  },
+  {
+    cinemaId: "nickel",
+    name: "The Nickel",
+    createScraper: () => createNickelScraper(),
+  },
+  {
+    cinemaId: "the-nickel",
+    name: "The Nickel (v2)",
+    createScraper: () => createNickelScraperV2(),
+  },
+  {
+    cinemaId: "electric-portobello",
+    name: "Electric Cinema Portobello",
+    createScraper: () => createElectricScraper(),
+  },
+  {
+    cinemaId: "electric",
+    name: "Electric Cinemas (v2)",
+    createScraper: () => createElectricScraperV2(),
+  },
+  {
+    cinemaId: "garden",
+    name: "Garden Cinema",
+    createScraper: () => createGardenCinemaScraper(),
+  },
+  {
+    cinemaId: "castle",
+    name: "Castle Cinema",
+    createScraper: () => createCastleScraper(),
+  },
+  {
+    cinemaId: "castle-sidcup",
+    name: "Castle Sidcup",
+    createScraper: () => createCastleSidcupScraper(),
+  },
+  {
+    cinemaId: "close-up-cinema",
+    name: "Close-Up Cinema",
+    createScraper: () => createCloseUpCinemaScraper(),
+  },
+  {
+    cinemaId: "coldharbour-blue",
+    name: "Coldharbour Blue",
+    createScraper: () => createColdharbourBlueScraper(),
+  },
+  {
+    cinemaId: "david-lean-cinema",
+    name: "David Lean Cinema",
+    createScraper: () => createDavidLeanScraper(),
+  },
+  {
+    cinemaId: "olympic-studios",
+    name: "Olympic Studios",
+    createScraper: () => createOlympicScraper(),
+  },
+  {
+    cinemaId: "riverside-studios",
+    name: "Riverside Studios",
+    createScraper: () => createRiversideStudiosScraper(),
+  },
+  // Savoy and Spektrix venues
+  ...BOOKING_SYSTEM_VENUES.map((entry) => ({
+    cinemaId: entry.venue.id,
+    name: entry.venue.name,
+    createScraper: () => createBookingSystemScraper(entry.scraper),
+  })),
+  // Chains (one entry per active venue)
+  ...chainVenueEntries(getActiveCurzonVenues(), createCurzonScraper),
+  ...chainVenueEntries(getActivePicturehouseVenues(), createPicturehouseScraper),
+  ...chainVenueEntries(getActiveEverymanVenues(), createEverymanScraper),
+  ...chainVenueEntries(getActiveOdeonVenues(), createOdeonScraper),
+];
+
+export function getScraperEntry(cinemaId: string): ScraperEntry | undefined {
+  return SCRAPERS.find((s) => s.cinemaId === cinemaId);
+}
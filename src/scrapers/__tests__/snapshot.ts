@@ -14,6 +14,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import type { RawScreening } from "../types";
+import type { AvailabilityStatus, TicketPrices } from "@/types/screening";
 
 // ============================================================================
 // Types
@@ -26,6 +27,8 @@ export interface ScreeningSnapshot {
   format?: string;
   hasBookingUrl: boolean;
   eventType?: string;
+  price?: TicketPrices;
+  availabilityStatus?: AvailabilityStatus;
 }
 
 export interface ScraperSnapshot {
@@ -109,6 +112,8 @@ export function createSnapshot(
     format: s.format,
     hasBookingUrl: !!s.bookingUrl,
     eventType: s.eventType,
+    price: s.price,
+    availabilityStatus: s.availabilityStatus,
   }));
 
   return {
@@ -0,0 +1,51 @@
+/**
+ * Availability Checker Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/db", () => ({ db: {} }));
+
+import { getAvailabilityVenues, planAvailabilityUpdates } from "./availability";
+import type { AvailabilityTarget } from "@/db/repositories/availability";
+
+function target(id: string, availabilityStatus: AvailabilityTarget["availabilityStatus"]): AvailabilityTarget {
+  return {
+    id,
+    cinemaId: "picturehouse-central",
+    filmId: "film-1",
+    sourceId: `source-${id}`,
+    datetime: new Date("2026-10-19T19:00:00Z"),
+    availabilityStatus,
+    availabilityCheckedAt: null,
+  };
+}
+
+describe("planAvailabilityUpdates", () => {
+  it("separates changed, unchanged and missing screenings", () => {
+    const plan = planAvailabilityUpdates(
+      [target("a", "available"), target("b", "available"), target("c", "sold_out"), target("d", null)],
+      new Map([
+        ["source-a", "available"],
+        ["source-b", "sold_out"],
+        ["source-c", "available"],
+      ])
+    );
+
+    expect(plan.unchangedIds).toEqual(["a"]);
+    expect(plan.missingIds).toEqual(["d"]);
+    expect(plan.changes.map(({ screeningId, from, to, transition }) => ({ screeningId, from, to, transition }))).toEqual([
+      { screeningId: "b", from: "available", to: "sold_out", transition: "sold_out" },
+      { screeningId: "c", from: "sold_out", to: "returns", transition: "returns_available" },
+    ]);
+  });
+});
+
+describe("getAvailabilityVenues", () => {
+  it("lists checkable venues by tier", () => {
+    const http = getAvailabilityVenues("http");
+    expect(http.length).toBeGreaterThan(0);
+    expect(http.every((v) => v.scraperId === "picturehouse")).toBe(true);
+    expect(getAvailabilityVenues().some((v) => v.scraperId === "curzon")).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Availability Checker
+ *
+ * Polls booking systems for the seat availability of screenings that are
+ * about to start or on someone's festival schedule (see lib/availability.ts
+ * for the schedule). Each chain with a cheap availability lookup registers an
+ * adapter here; the scrapers themselves implement AvailabilityChecker.
+ *
+ * Changes are written to the screening and recorded in screening_changes
+ * like a re-scrape's, and returned so callers can raise alerts.
+ */
+
+import { db } from "@/db";
+import { screenings } from "@/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import type { AvailabilityStatus } from "@/types/screening";
+import {
+  classifyAvailabilityTransition,
+  resolveAvailabilityStatus,
+  type AvailabilityTransition,
+} from "@/lib/availability";
+import type { AvailabilityTarget } from "@/db/repositories/availability";
+import type { AvailabilityChecker } from "./types";
+import { getScraper, resolveCinemaId, type ScraperTier } from "./registry";
+import { diffScreeningFields, recordScreeningChanges } from "./utils/screening-changes";
+
+/**
+ * Scrapers with an availability lookup, by scraper ID.
+ * Loaded lazily like the scrapers in registry.ts.
+ *
+ * Curzon's lookup needs a Playwright login, so it is local-only: Inngest
+ * schedules HTTP-tier checkers, and Curzon is checked by
+ * `npm run scrape:availability` on a machine with a browser.
+ */
+const AVAILABILITY_CHECKERS: Record<string, () => Promise<AvailabilityChecker>> = {
+  picturehouse: async () => (await import("./chains/picturehouse")).createPicturehouseScraper(),
+  curzon: async () => (await import("./chains/curzon")).createCurzonScraper(),
+};
+
+export interface AvailabilityVenue {
+  cinemaId: string;
+  scraperId: string;
+  tier: ScraperTier;
+}
+
+export interface AvailabilityChange {
+  screeningId: string;
+  cinemaId: string;
+  filmId: string;
+  datetime: Date;
+  from: AvailabilityStatus | null;
+  to: AvailabilityStatus;
+  transition: AvailabilityTransition | null;
+}
+
+export interface AvailabilityPlan {
+  changes: AvailabilityChange[];
+  /** Checked and unchanged - only availabilityCheckedAt moves */
+  unchangedIds: string[];
+  /** Not in the booking system's response */
+  missingIds: string[];
+}
+
+export interface AvailabilityCheckResult {
+  cinemaId: string;
+  checked: number;
+  missing: number;
+  changes: AvailabilityChange[];
+}
+
+/**
+ * Venues whose availability can be checked, optionally limited to a tier
+ * (browser-tier checkers need Playwright, like their scrapers)
+ */
+export function getAvailabilityVenues(tier?: ScraperTier): AvailabilityVenue[] {
+  return Object.keys(AVAILABILITY_CHECKERS).flatMap((scraperId) => {
+    const scraper = getScraper(scraperId);
+    if (!scraper || (tier && scraper.tier !== tier)) return [];
+    return scraper.venues.map((venue) => ({ cinemaId: venue.id, scraperId, tier: scraper.tier }));
+  });
+}
+
+/** London calendar date, which is what booking systems list showtimes by */
+function londonDate(datetime: Date): string {
+  return datetime.toLocaleDateString("en-CA", { timeZone: "Europe/London" });
+}
+
+/**
+ * Compare checked screenings against the booking system's statuses
+ * (keyed by sourceId)
+ */
+export function planAvailabilityUpdates(
+  targets: AvailabilityTarget[],
+  statuses: Map<string, AvailabilityStatus>
+): AvailabilityPlan {
+  const plan: AvailabilityPlan = { changes: [], unchangedIds: [], missingIds: [] };
+
+  for (const target of targets) {
+    const observed = statuses.get(target.sourceId);
+    if (!observed) {
+      plan.missingIds.push(target.id);
+      continue;
+    }
+
+    const to = resolveAvailabilityStatus(target.availabilityStatus, observed);
+    if (to === target.availabilityStatus) {
+      plan.unchangedIds.push(target.id);
+      continue;
+    }
+
+    plan.changes.push({
+      screeningId: target.id,
+      cinemaId: target.cinemaId,
+      filmId: target.filmId,
+      datetime: target.datetime,
+      from: target.availabilityStatus,
+      to,
+      transition: classifyAvailabilityTransition(target.availabilityStatus, to),
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Write a plan: changed statuses (with their change history) and the check time
+ */
+async function applyAvailabilityPlan(plan: AvailabilityPlan, now: Date): Promise<void> {
+  for (const change of plan.changes) {
+    const fieldChanges = diffScreeningFields(
+      { availabilityStatus: change.from },
+      { availabilityStatus: change.to }
+    );
+    await recordScreeningChanges(change.screeningId, change.cinemaId, fieldChanges);
+    await db
+      .update(screenings)
+      .set({ availabilityStatus: change.to, availabilityCheckedAt: now })
+      .where(eq(screenings.id, change.screeningId));
+  }
+
+  if (plan.unchangedIds.length > 0) {
+    await db
+      .update(screenings)
+      .set({ availabilityCheckedAt: now })
+      .where(inArray(screenings.id, plan.unchangedIds));
+  }
+}
+
+/**
+ * Check the due screenings at some of one scraper's venues.
+ * The checker is shared across the venues and closed at the end.
+ */
+export async function checkAvailability(
+  scraperId: string,
+  cinemaIds: string[],
+  now = new Date()
+): Promise<AvailabilityCheckResult[]> {
+  const createChecker = AVAILABILITY_CHECKERS[scraperId];
+  if (!createChecker) {
+    throw new Error(`No availability checker for scraper: ${scraperId}`);
+  }
+
+  const { getAvailabilityTargets } = await import("@/db/repositories/availability");
+  const checker = await createChecker();
+  const results: AvailabilityCheckResult[] = [];
+
+  try {
+    for (const cinemaId of cinemaIds.map(resolveCinemaId)) {
+      const targets = await getAvailabilityTargets([cinemaId], now);
+      if (targets.length === 0) {
+        results.push({ cinemaId, checked: 0, missing: 0, changes: [] });
+        continue;
+      }
+
+      const dates = [...new Set(targets.map((t) => londonDate(t.datetime)))];
+      const statuses = await checker.fetchAvailability(cinemaId, dates);
+      const plan = planAvailabilityUpdates(targets, statuses);
+      await applyAvailabilityPlan(plan, now);
+
+      console.log(
+        `[Availability] ${cinemaId}: ${targets.length} checked, ${plan.changes.length} changed, ${plan.missingIds.length} not found`
+      );
+      results.push({
+        cinemaId,
+        checked: targets.length - plan.missingIds.length,
+        missing: plan.missingIds.length,
+        changes: plan.changes,
+      });
+    }
+  } finally {
+    await checker.close?.();
+  }
+
+  return results;
+}
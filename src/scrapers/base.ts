@@ -5,6 +5,7 @@
 
 import * as cheerio from "cheerio";
 import type { RawScreening, ScraperConfig, CinemaScraper } from "./types";
+import { isReplayingFixtures } from "./utils/fixture-recorder";
 
 export abstract class BaseScraper implements CinemaScraper {
   abstract config: ScraperConfig;
@@ -81,8 +82,10 @@ export abstract class BaseScraper implements CinemaScraper {
 
   /**
    * Fetch a single URL with rate limiting
+   * Recorded/replayed via utils/fixture-recorder when a fixture session is active
+   * Extra headers (API keys, Accept overrides) are merged over the defaults
    */
-  protected async fetchUrl(url: string): Promise<string> {
+  protected async fetchUrl(url: string, headers: Record<string, string> = {}): Promise<string> {
     // Rate limiting delay
     await this.delay(this.config.delayBetweenRequests);
 
@@ -92,6 +95,7 @@ export abstract class BaseScraper implements CinemaScraper {
           "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
         Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
         "Accept-Language": "en-GB,en;q=0.9",
+        ...headers,
       },
     });
 
@@ -110,9 +114,12 @@ export abstract class BaseScraper implements CinemaScraper {
   }
 
   /**
-   * Delay helper for rate limiting
+   * Delay helper for rate limiting (skipped when replaying fixtures)
    */
   protected delay(ms: number): Promise<void> {
+    if (isReplayingFixtures()) {
+      return Promise.resolve();
+    }
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
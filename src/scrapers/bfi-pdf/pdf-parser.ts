@@ -19,6 +19,7 @@
 
 import { extractText as unpdfExtractText, getDocumentProxy } from "unpdf";
 import type { RawScreening } from "../types";
+import { accessibilityFromCodes } from "../utils/accessibility";
 import type { FetchedPDF } from "./fetcher";
 
 // Venue mapping from PDF screen names to our cinema IDs
@@ -419,6 +420,7 @@ function convertToRawScreenings(films: ParsedFilm[], pdfLabel: string): RawScree
         format: film.format,
         bookingUrl,
         eventType,
+        ...accessibilityFromCodes(screening.accessibilityFlags),
         sourceId: `bfi-pdf-${pdfLabel}-${cleanTitle.toLowerCase().replace(/\s+/g, "-")}-${screening.datetime.toISOString()}`,
         year: film.year,
         director: film.director,
@@ -18,6 +18,7 @@
 
 import * as cheerio from "cheerio";
 import type { RawScreening } from "../types";
+import { accessibilityFromCodes } from "../utils/accessibility";
 import type { CheerioAPI, CheerioSelection } from "../utils/cheerio-types";
 
 /**
@@ -422,6 +423,7 @@ function convertChangesToRawScreenings(changes: ProgrammeChange[]): RawScreening
         format: change.metadata?.format,
         bookingUrl,
         eventType,
+        ...accessibilityFromCodes(screening.accessibilityFlags),
         sourceId: `bfi-changes-${change.filmTitle.toLowerCase().replace(/\s+/g, "-")}-${screening.datetime.toISOString()}`,
         year: change.metadata?.year,
         director: change.metadata?.director,
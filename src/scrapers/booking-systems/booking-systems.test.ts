@@ -0,0 +1,378 @@
+/**
+ * Booking System Scraper Engine Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BOOKING_SYSTEM_VENUES,
+  createBookingSystemScraper,
+  createBookingSystemVenueScraper,
+  type SavoyScraperConfig,
+  type SpektrixScraperConfig,
+  type VeeziScraperConfig,
+} from "./index";
+
+/** Read a captured API response from __fixtures__/<system>/<name>.json */
+function fixture(system: string, name: string): string {
+  return fs.readFileSync(path.join(__dirname, "__fixtures__", system, `${name}.json`), "utf-8");
+}
+
+let pages: Record<string, string>;
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  pages = {};
+  fetchMock.mockImplementation(async (input: RequestInfo | URL) => {
+    const body = pages[input.toString()];
+    return body === undefined ? new Response("", { status: 404 }) : new Response(body);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+const noDelay = { requestsPerMinute: 60, delayBetweenRequests: 0 };
+
+describe("SavoyScraper", () => {
+  const savoy = (config: Partial<SavoyScraperConfig>): SavoyScraperConfig => ({
+    system: "savoy",
+    cinemaId: "savoy-test",
+    baseUrl: "https://savoy.example",
+    dllPath: "/Test.dll/",
+    layout: "programme-html",
+    sourceIdPrefix: "savoy",
+    ...noDelay,
+    ...config,
+  });
+
+  it("reads the embedded Events JSON", async () => {
+    const events = {
+      Events: [
+        {
+          ID: 1,
+          Title: "Paris, Texas (1984) + Q&A with the programmer",
+          TypeDescription: "Film",
+          Performances: [
+            { ID: 10, StartDate: "2099-07-01", StartTime: "1415", URL: "Booking?perf=10", IsSoldOut: "N", IsOpenForSale: true, AuditoriumName: "Screen 1", Notes: "35mm" },
+            { ID: 11, StartDate: "2099-07-01", StartTime: "930", URL: "Booking?perf=11", IsSoldOut: "N", IsOpenForSale: true, AuditoriumName: "Screen 1", Notes: "" },
+            { ID: 12, StartDate: "2099-07-02", StartTime: "2000", URL: "Booking?perf=12", IsSoldOut: "Y", IsOpenForSale: true, AuditoriumName: "Screen 1", Notes: "" },
+            { ID: 13, StartDate: "2099-07-03", StartTime: "2000", URL: "Booking?perf=13", IsSoldOut: "N", IsOpenForSale: false, AuditoriumName: "Screen 1", Notes: "" },
+          ],
+        },
+        { ID: 2, Title: "Quiz Night", TypeDescription: "Event", Performances: [] },
+      ],
+    };
+    pages["https://savoy.example/Test.dll/Home"] =
+      `<script>var Events = ${JSON.stringify(events)};\nvar Other = {};</script>`;
+
+    const scraper = createBookingSystemScraper(
+      savoy({ layout: "events-json", page: "Home", formatMappings: { "35mm": "35mm" } })
+    );
+    const screenings = await scraper.scrape();
+
+    expect(screenings).toEqual([
+      {
+        filmTitle: "Paris, Texas",
+        datetime: new Date("2099-07-01T13:15:00Z"),
+        screen: "Screen 1",
+        format: "35mm",
+        bookingUrl: "https://savoy.example/Test.dll/Booking?perf=10",
+        sourceId: "savoy-1-10",
+      },
+      {
+        filmTitle: "Paris, Texas",
+        datetime: new Date("2099-07-01T08:30:00Z"),
+        screen: "Screen 1",
+        format: undefined,
+        bookingUrl: "https://savoy.example/Test.dll/Booking?perf=11",
+        sourceId: "savoy-1-11",
+      },
+      {
+        filmTitle: "Paris, Texas",
+        datetime: new Date("2099-07-02T19:00:00Z"),
+        screen: "Screen 1",
+        format: undefined,
+        bookingUrl: "https://savoy.example/Test.dll/Booking?perf=12",
+        sourceId: "savoy-1-12",
+        availabilityStatus: "sold_out",
+      },
+      {
+        filmTitle: "Paris, Texas",
+        datetime: new Date("2099-07-03T19:00:00Z"),
+        screen: "Screen 1",
+        format: undefined,
+        bookingUrl: "https://savoy.example/Test.dll/Booking?perf=13",
+        sourceId: "savoy-1-13",
+        availabilityStatus: "sold_out",
+      },
+    ]);
+  });
+
+  it("reads Rio's homepage with its film-page booking links", async () => {
+    const rio = BOOKING_SYSTEM_VENUES.find((v) => v.venue.id === "rio-dalston")!;
+    const config = { ...(rio.scraper as SavoyScraperConfig), ...noDelay };
+    const events = {
+      Events: [
+        {
+          ID: 4521,
+          Title: "Mulholland Drive",
+          Director: "David Lynch",
+          Year: "2001",
+          RunningTime: 147,
+          URL: "WhatsOn?f=4521",
+          Performances: [
+            { StartDate: "2099-07-01", StartTime: "2030", AuditoriumName: "Screen 1", URL: "Booking?Booking=TSelectItems.waSelectItemsPrices.TcsWebMenuItem_1234.TcsPerformance_98765", IsSoldOut: "N", Notes: "35mm" },
+          ],
+        },
+      ],
+    };
+    pages["https://riocinema.org.uk/"] = `<script>var Events = ${JSON.stringify(events)};</script>`;
+
+    const screenings = await createBookingSystemScraper(config).scrape();
+
+    expect(screenings).toEqual([
+      {
+        filmTitle: "Mulholland Drive",
+        datetime: new Date("2099-07-01T19:30:00Z"),
+        screen: "Screen 1",
+        format: "35mm",
+        bookingUrl: "https://riocinema.org.uk/Rio.dll/WhatsOn?f=4521",
+        sourceId: "rio-dalston-4521-2099-07-01T19:30:00.000Z",
+        year: 2001,
+        director: "David Lynch",
+      },
+    ]);
+  });
+
+  it("reads programme blocks and marks performances closed for booking as sold out", async () => {
+    pages["https://savoy.example/Test.dll/"] = `
+      <div class="programme">
+        <h1 class="title"><a href="TcsProgramme_1">Aftersun (15)</a></h1>
+        <table>
+          <tr>
+            <td class="PeformanceListDate">Tuesday 1 Dec 2099</td>
+            <td class="PeformanceListTimes">
+              <span><a href="https://savoy.example/Test.dll/TcsPerformance_1">11:45am</a></span>
+              <span><a href="TcsPerformance_2">6:30pm</a> (Closed for Booking)</span>
+            </td>
+          </tr>
+        </table>
+      </div>`;
+
+    const screenings = await createBookingSystemScraper(savoy({})).scrape();
+
+    expect(screenings).toEqual([
+      {
+        filmTitle: "Aftersun",
+        datetime: new Date("2099-12-01T11:45:00Z"),
+        format: undefined,
+        bookingUrl: "https://savoy.example/Test.dll/TcsPerformance_1",
+        sourceId: "savoy-aftersun-2099-12-01T11:45:00.000Z",
+      },
+      {
+        filmTitle: "Aftersun",
+        datetime: new Date("2099-12-01T18:30:00Z"),
+        format: undefined,
+        bookingUrl: "https://savoy.example/Test.dll/TcsPerformance_2",
+        sourceId: "savoy-aftersun-2099-12-01T18:30:00.000Z",
+        availabilityStatus: "sold_out",
+      },
+    ]);
+  });
+
+  it("falls back to document order without programme blocks", async () => {
+    pages["https://savoy.example/Test.dll/"] = `
+      <table>
+        <tr><td><a href="TcsProgramme_1">La Haine Cert. 15</a></td></tr>
+        <tr><td>Friday 3 Jul 2099</td></tr>
+        <tr><td><a href="TcsPerformance_9">16:00</a></td></tr>
+      </table>`;
+
+    const screenings = await createBookingSystemScraper(savoy({})).scrape();
+
+    expect(screenings.map((s) => [s.filmTitle, s.datetime.toISOString(), s.bookingUrl])).toEqual([
+      ["La Haine", "2099-07-03T15:00:00.000Z", "https://savoy.example/Test.dll/TcsPerformance_9"],
+    ]);
+  });
+});
+
+describe("SpektrixScraper", () => {
+  it("joins API events and instances", async () => {
+    const endpoint = "https://system.spektrix.com/arts/api/v3";
+    pages[`${endpoint}/events`] = fixture("spektrix-api", "events");
+    pages[`${endpoint}/instances`] = fixture("spektrix-api", "instances");
+
+    const config: SpektrixScraperConfig = {
+      system: "spectrix",
+      cinemaId: "spektrix-test",
+      baseUrl: "https://arts.example",
+      source: "api",
+      endpoint,
+      bookingUrl: "https://arts.example/book/{eventId}?instance={instanceId}",
+      eventFilter: { attribute: "attribute_Genre", values: ["Film"] },
+      formatAttribute: "attribute_Format",
+      formatMappings: { "70mm": "70mm" },
+      sourceIdPrefix: "arts",
+      ...noDelay,
+    };
+
+    const screenings = await createBookingSystemScraper(config).scrape();
+
+    // Comedy Night is filtered out by genre and the cancelled instance is skipped
+    expect(screenings).toEqual([
+      {
+        filmTitle: "Vertigo",
+        datetime: new Date("2099-07-01T18:00:00Z"),
+        format: "70mm",
+        bookingUrl: "https://arts.example/book/4801ACVDHLRPLTSBDSLCKQQPKJQQNGSMN?instance=19001ADRMJTLSQGVBBQHJPLKDKNCTPLKR",
+        sourceId: "arts-19001ADRMJTLSQGVBBQHJPLKDKNCTPLKR",
+      },
+      {
+        filmTitle: "Vertigo",
+        datetime: new Date("2099-07-02T20:30:00Z"),
+        format: "70mm",
+        bookingUrl: "https://arts.example/book/4801ACVDHLRPLTSBDSLCKQQPKJQQNGSMN?instance=19003CKTSMPRHLDBQGVJNKLCTPDRMQSKL",
+        sourceId: "arts-19003CKTSMPRHLDBQGVJNKLCTPDRMQSKL",
+        availabilityStatus: "sold_out",
+      },
+    ]);
+  });
+
+  it("reads the WordPress plugin feed", async () => {
+    const richMix = BOOKING_SYSTEM_VENUES.find((v) => v.venue.id === "rich-mix")!;
+    const config = { ...(richMix.scraper as SpektrixScraperConfig), ...noDelay };
+    pages[config.endpoint] = JSON.stringify([
+      {
+        id: 7,
+        post_title: "Perfect Days",
+        slug: "perfect-days",
+        spektrix_data: {
+          instances: {
+            "2099-12-30": [
+              { id: "1", instanceId: "501", start: "2099-12-30 14:30:00", onSale: "1" },
+              { id: "2", instanceId: "502", start: "2099-12-30 18:00:00", onSale: "0" },
+              { id: "3", instanceId: "503", start: "2099-12-30 20:45:00", onSale: "1", cancelled: "1" },
+            ],
+          },
+        },
+      },
+    ]);
+
+    const screenings = await createBookingSystemScraper(config).scrape();
+
+    expect(screenings).toEqual([
+      {
+        filmTitle: "Perfect Days",
+        datetime: new Date("2099-12-30T14:30:00Z"),
+        format: undefined,
+        bookingUrl: "https://richmix.org.uk/whats-on/cinema/perfect-days/",
+        sourceId: "richmix-501",
+      },
+      {
+        filmTitle: "Perfect Days",
+        datetime: new Date("2099-12-30T18:00:00Z"),
+        format: undefined,
+        bookingUrl: "https://richmix.org.uk/whats-on/cinema/perfect-days/",
+        sourceId: "richmix-502",
+        availabilityStatus: "sold_out",
+      },
+    ]);
+  });
+});
+
+describe("VeeziScraper", () => {
+  const apiBase = "https://api.uk.veezi.com";
+  const veezi = (config: Partial<VeeziScraperConfig> = {}): VeeziScraperConfig => ({
+    system: "veezi",
+    cinemaId: "veezi-test",
+    baseUrl: "https://veezi-cinema.example",
+    apiBase,
+    tokenEnv: "VEEZI_TOKEN_TEST",
+    formatMappings: { "35mm": "35mm" },
+    sourceIdPrefix: "veezi",
+    ...noDelay,
+    ...config,
+  });
+
+  beforeEach(() => {
+    pages[`${apiBase}/v1/websession`] = fixture("veezi", "websession");
+    pages[`${apiBase}/v1/screen`] = fixture("veezi", "screen");
+    pages[`${apiBase}/v1/film`] = fixture("veezi", "film");
+  });
+
+  it("reads open public web sessions with the access token", async () => {
+    vi.stubEnv("VEEZI_TOKEN_TEST", "secret");
+
+    const screenings = await createBookingSystemScraper(veezi()).scrape();
+
+    expect(fetchMock.mock.calls[0][1].headers.VeeziAccessToken).toBe("secret");
+    // The private hire and the closed session are dropped
+    expect(screenings).toEqual([
+      {
+        filmTitle: "Stalker",
+        datetime: new Date("2099-07-01T19:00:00Z"),
+        screen: "Screen 2",
+        format: "35mm",
+        bookingUrl: "https://ticketing.uk.veezi.com/purchase/10234?siteToken=abc123",
+        sourceId: "veezi-10234",
+        availabilityStatus: "sold_out",
+      },
+      {
+        filmTitle: "Mirror (4K restoration)",
+        datetime: new Date("2099-07-03T17:15:00Z"),
+        screen: "Screen 1",
+        format: undefined,
+        bookingUrl: "https://ticketing.uk.veezi.com/purchase/10236?siteToken=abc123",
+        sourceId: "veezi-10236",
+        availabilityStatus: "available",
+      },
+    ]);
+  });
+
+  it("keeps configured show types and fills the booking URL template", async () => {
+    vi.stubEnv("VEEZI_TOKEN_TEST", "secret");
+
+    const screenings = await createBookingSystemScraper(
+      veezi({
+        showTypes: ["Public", "Private"],
+        bookingUrl: "https://veezi-cinema.example/book?session={sessionId}",
+      })
+    ).scrape();
+
+    expect(screenings.map((s) => s.bookingUrl)).toEqual([
+      "https://veezi-cinema.example/book?session=10234",
+      "https://veezi-cinema.example/book?session=10235",
+      "https://veezi-cinema.example/book?session=10236",
+    ]);
+  });
+
+  it("fails clearly without a token", async () => {
+    vi.stubEnv("VEEZI_TOKEN_TEST", "");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(createBookingSystemScraper(veezi()).scrape()).rejects.toThrow(
+      "Missing Veezi access token - set VEEZI_TOKEN_TEST"
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("booking system venues", () => {
+  it("creates a scraper for each registered venue", () => {
+    for (const entry of BOOKING_SYSTEM_VENUES) {
+      expect(entry.scraper.cinemaId).toBe(entry.venue.id);
+      expect(createBookingSystemVenueScraper(entry.venue.id).config.cinemaId).toBe(entry.venue.id);
+    }
+  });
+
+  it("rejects unknown venues", () => {
+    expect(() => createBookingSystemVenueScraper("nowhere")).toThrow("nowhere");
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Booking System Engine Base
+ *
+ * Shared behaviour for the config-driven scrapers: rate limit defaults,
+ * timezone-aware datetimes, format mapping and source ID de-duplication.
+ */
+
+import { BaseScraper } from "../base";
+import type { RawScreening, ScraperConfig } from "../types";
+import type { ScreeningFormat } from "@/types/screening";
+import { parseZonedDateTime } from "../utils/date-parser";
+import type { BookingSystemScraperConfig } from "./types";
+
+const DEFAULT_TIMEZONE = "Europe/London";
+
+export abstract class BookingSystemScraper<
+  C extends BookingSystemScraperConfig = BookingSystemScraperConfig,
+> extends BaseScraper {
+  config: ScraperConfig;
+
+  constructor(protected definition: C) {
+    super();
+    this.config = {
+      cinemaId: definition.cinemaId,
+      baseUrl: definition.baseUrl,
+      requestsPerMinute: definition.requestsPerMinute ?? 10,
+      delayBetweenRequests: definition.delayBetweenRequests ?? 1000,
+    };
+  }
+
+  /**
+   * Convert a listed wall-clock time ("2025-12-30T14:15", "2025-12-30 14:15:00")
+   * to an absolute Date in the venue's timezone
+   */
+  protected toDate(localDateTime: string): Date | null {
+    return parseZonedDateTime(localDateTime, this.definition.timezone ?? DEFAULT_TIMEZONE);
+  }
+
+  /**
+   * Map source text (format fields, notes, titles) onto a screening format
+   * First configured key found in any of the sources wins
+   */
+  protected mapFormat(...sources: (string | null | undefined)[]): ScreeningFormat | undefined {
+    const mappings = this.definition.formatMappings;
+    if (!mappings) return undefined;
+
+    const haystack = sources.filter(Boolean).join(" ").toLowerCase();
+    if (!haystack) return undefined;
+
+    for (const [text, format] of Object.entries(mappings)) {
+      if (haystack.includes(text.toLowerCase())) return format;
+    }
+    return undefined;
+  }
+
+  protected sourceId(...parts: (string | number)[]): string {
+    return [this.definition.sourceIdPrefix, ...parts].join("-");
+  }
+
+  /**
+   * Strip certificates, years and event suffixes that booking systems append
+   */
+  protected cleanTitle(title: string): string {
+    return title
+      .replace(/\s*\+\s*(Q\s*&?\s*A|intro|discussion).*$/i, "")
+      .replace(/\s*\((?:U|PG|12A?|15|18|TBC)\)\s*/gi, " ")
+      .replace(/\s*Cert\.?\s*(?:U|PG|12A?|15|18|TBC)\b\s*/gi, " ")
+      .replace(/\s*\(\d{4}\)\s*$/, "")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  protected validate(screenings: RawScreening[]): RawScreening[] {
+    const seen = new Set<string>();
+
+    return super.validate(screenings).filter((s) => {
+      if (!s.sourceId) return true;
+      if (seen.has(s.sourceId)) return false;
+      seen.add(s.sourceId);
+      return true;
+    });
+  }
+}
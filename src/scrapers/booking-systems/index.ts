@@ -0,0 +1,51 @@
+/**
+ * Booking System Scrapers
+ *
+ * Config-driven scraper engines for booking systems shared by several
+ * venues. See venues.ts for the registered venues.
+ */
+
+import type { BookingSystemScraper } from "./engine";
+import { SavoyScraper } from "./savoy";
+import { SpektrixScraper } from "./spektrix";
+import { VeeziScraper } from "./veezi";
+import { getBookingSystemVenue } from "./venues";
+import type { BookingSystemScraperConfig } from "./types";
+
+export { BookingSystemScraper } from "./engine";
+export { SavoyScraper } from "./savoy";
+export { SpektrixScraper } from "./spektrix";
+export { VeeziScraper } from "./veezi";
+export { BOOKING_SYSTEM_VENUES, getBookingSystemVenue } from "./venues";
+export type {
+  BookingSystemScraperConfig,
+  BookingSystemVenue,
+  SavoyScraperConfig,
+  SpektrixScraperConfig,
+  VeeziScraperConfig,
+} from "./types";
+
+/**
+ * Create the engine for a booking system config
+ */
+export function createBookingSystemScraper(config: BookingSystemScraperConfig): BookingSystemScraper {
+  switch (config.system) {
+    case "savoy":
+      return new SavoyScraper(config);
+    case "spectrix":
+      return new SpektrixScraper(config);
+    case "veezi":
+      return new VeeziScraper(config);
+  }
+}
+
+/**
+ * Create the scraper for a venue registered in venues.ts
+ */
+export function createBookingSystemVenueScraper(cinemaId: string): BookingSystemScraper {
+  const entry = getBookingSystemVenue(cinemaId);
+  if (!entry) {
+    throw new Error(`No booking system venue registered for ${cinemaId}`);
+  }
+  return createBookingSystemScraper(entry.scraper);
+}
@@ -0,0 +1,266 @@
+/**
+ * Savoy Systems Scraper Engine
+ *
+ * Savoy Systems ("TCS") sites serve the whole programme from a single dll
+ * page, in one of two layouts:
+ *
+ * - events-json: the page embeds every film and performance as
+ *   `var Events = {"Events": [...]}` (e.g. The Lexi, and Rio on its homepage)
+ * - programme-html: one `div.programme` per film, with
+ *   `td.PeformanceListDate` rows and `a[href*="TcsPerformance"]` time links
+ *   (e.g. ArtHouse Crouch End, Cine Lumiere)
+ */
+
+import { format } from "date-fns";
+import type { RawScreening } from "../types";
+import type { CheerioAPI, CheerioSelection } from "../utils/cheerio-types";
+import { parseScreeningDate, parseScreeningTime } from "../utils/date-parser";
+import { detectAccessibility } from "../utils/accessibility";
+import { BookingSystemScraper } from "./engine";
+import type { SavoyScraperConfig } from "./types";
+
+// Types for the embedded JSON structure
+interface SavoyPerformance {
+  ID?: number;              // Absent on Rio's homepage listing
+  StartDate: string;        // "2025-12-30"
+  StartTime: string;        // "1415" or "930"
+  URL: string;              // Booking URL, relative to the dll
+  IsSoldOut: string;        // "Y" or "N"
+  IsOpenForSale?: boolean;  // Absent on pages that only list what's on sale
+  AuditoriumName: string;   // "Screen 1"
+  Notes: string;            // "HOH Subtitled", "35mm", etc.
+}
+
+interface SavoyEvent {
+  ID: number;
+  Title: string;
+  TypeDescription?: string; // "Film", etc. (absent on film-only pages)
+  Director?: string;
+  Year?: string;            // "1984"
+  Performances: SavoyPerformance[];
+}
+
+interface SavoyEventsData {
+  Events: SavoyEvent[];
+}
+
+const DAY_HEADING = /^(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)\s+\d{1,2}\s+\w+\s*\d*$/i;
+const TIME_TEXT = /^\d{1,2}[:.]\d{2}\s*(am|pm)?$/i;
+
+export class SavoyScraper extends BookingSystemScraper<SavoyScraperConfig> {
+  private get listingUrl(): string {
+    const { baseUrl, dllPath, page, listingPath } = this.definition;
+    return listingPath !== undefined ? `${baseUrl}${listingPath}` : `${baseUrl}${dllPath}${page ?? ""}`;
+  }
+
+  protected async fetchPages(): Promise<string[]> {
+    console.log(`[${this.config.cinemaId}] Fetching listings: ${this.listingUrl}`);
+    return [await this.fetchUrl(this.listingUrl)];
+  }
+
+  protected async parsePages(htmlPages: string[]): Promise<RawScreening[]> {
+    const screenings =
+      this.definition.layout === "events-json"
+        ? this.parseEventsJson(htmlPages[0])
+        : this.parseProgrammeHtml(this.parseHtml(htmlPages[0]));
+
+    console.log(`[${this.config.cinemaId}] Found ${screenings.length} screenings total`);
+    return screenings;
+  }
+
+  // ==========================================================================
+  // events-json
+  // ==========================================================================
+
+  private parseEventsJson(html: string): RawScreening[] {
+    const data = extractEventsJson(html);
+    if (!data) {
+      throw new Error("Could not find Events JSON in page");
+    }
+
+    const eventTypes = this.definition.eventTypes ?? ["Film"];
+    const films = data.Events.filter((e) => !e.TypeDescription || eventTypes.includes(e.TypeDescription));
+    console.log(`[${this.config.cinemaId}] Found ${films.length} films in ${data.Events.length} events`);
+
+    const screenings: RawScreening[] = [];
+
+    for (const film of films) {
+      const filmTitle = this.cleanTitle(film.Title);
+      const year = film.Year ? parseInt(film.Year, 10) : undefined;
+
+      for (const perf of film.Performances ?? []) {
+        const time = perf.StartTime?.padStart(4, "0");
+        if (!perf.StartDate || !/^\d{4}$/.test(time ?? "")) continue;
+
+        const datetime = this.toDate(`${perf.StartDate}T${time.slice(0, 2)}:${time.slice(2)}`);
+        if (!datetime) continue;
+
+        screenings.push({
+          filmTitle,
+          datetime,
+          screen: perf.AuditoriumName || undefined,
+          format: this.mapFormat(perf.Notes, film.Title),
+          bookingUrl: this.definition.bookingUrl
+            ? this.definition.bookingUrl
+                .replace("{eventId}", String(film.ID))
+                .replace("{performanceId}", String(perf.ID ?? ""))
+            : this.resolveUrl(perf.URL),
+          sourceId: this.sourceId(film.ID, perf.ID ?? datetime.toISOString()),
+          // Passed on for better TMDB matching
+          year: Number.isNaN(year) ? undefined : year,
+          director: film.Director || undefined,
+          // Kept rather than skipped, so a sell-out isn't mistaken for a cancellation
+          ...(perf.IsSoldOut === "Y" || perf.IsOpenForSale === false ? { availabilityStatus: "sold_out" as const } : {}),
+          ...detectAccessibility(perf.Notes),
+        });
+      }
+    }
+
+    return screenings;
+  }
+
+  // ==========================================================================
+  // programme-html
+  // ==========================================================================
+
+  private parseProgrammeHtml($: CheerioAPI): RawScreening[] {
+    const programmes = $("div.programme");
+
+    if (programmes.length === 0) {
+      console.log(`[${this.config.cinemaId}] No programme blocks, reading page in document order`);
+      return this.parseDocumentOrder($);
+    }
+
+    const screenings: RawScreening[] = [];
+
+    programmes.each((_, prog) => {
+      const $prog = $(prog);
+      const rawTitle = $prog.find('a[href*="TcsProgramme_"]').first().text().trim();
+      if (!rawTitle) return;
+
+      $prog.find("td.PeformanceListDate").each((_, dateCell) => {
+        const date = parseScreeningDate($(dateCell).text().trim());
+        if (!date) return;
+
+        $(dateCell)
+          .siblings("td.PeformanceListTimes")
+          .find('a[href*="TcsPerformance"]')
+          .each((_, link) => {
+            const screening = this.buildScreening($, $(link), rawTitle, date);
+            if (screening) screenings.push(screening);
+          });
+      });
+    });
+
+    return screenings;
+  }
+
+  /**
+   * Fallback for templates without programme blocks: film links, day headings
+   * and time links appear in that order down the page
+   */
+  private parseDocumentOrder($: CheerioAPI): RawScreening[] {
+    const screenings: RawScreening[] = [];
+    let rawTitle: string | null = null;
+    let date: Date | null = null;
+
+    $("body")
+      .find("a, td")
+      .each((_, el) => {
+        const $el = $(el);
+        const text = $el.text().trim();
+
+        if ($el.is("a") && $el.attr("href")?.includes("TcsProgramme_")) {
+          rawTitle = text;
+          date = null;
+          return;
+        }
+
+        if (rawTitle && DAY_HEADING.test(text)) {
+          date = parseScreeningDate(text);
+          return;
+        }
+
+        if (rawTitle && date && $el.is("a") && TIME_TEXT.test(text)) {
+          const screening = this.buildScreening($, $el, rawTitle, date);
+          if (screening) screenings.push(screening);
+        }
+      });
+
+    return screenings;
+  }
+
+  private buildScreening(
+    $: CheerioAPI,
+    $link: CheerioSelection,
+    rawTitle: string,
+    date: Date
+  ): RawScreening | null {
+    // "(Closed for Booking)" is appended next to the time link
+    const closed = $link.parent().text().toLowerCase().includes("closed for booking");
+
+    const time = parseScreeningTime($link.text().trim());
+    if (!time) return null;
+
+    const hh = String(time.hours).padStart(2, "0");
+    const mm = String(time.minutes).padStart(2, "0");
+    const datetime = this.toDate(`${format(date, "yyyy-MM-dd")}T${hh}:${mm}`);
+    if (!datetime) return null;
+
+    const filmTitle = this.cleanTitle(rawTitle);
+    const slug = filmTitle.toLowerCase().replace(/\s+/g, "-");
+
+    return {
+      filmTitle,
+      datetime,
+      format: this.mapFormat(rawTitle),
+      bookingUrl: this.resolveUrl($link.attr("href")),
+      sourceId: this.sourceId(slug, datetime.toISOString()),
+      ...(closed ? { availabilityStatus: "sold_out" as const } : {}),
+    };
+  }
+
+  private resolveUrl(href: string | undefined): string {
+    if (!href) return this.listingUrl;
+    return new URL(href, `${this.definition.baseUrl}${this.definition.dllPath}`).toString();
+  }
+}
+
+/**
+ * Extract `var Events = {...}` from the page
+ * Uses bracket matching rather than a regex so nested objects and strings
+ * containing "};" don't cut the JSON short
+ */
+export function extractEventsJson(html: string): SavoyEventsData | null {
+  const startMatch = html.match(/var Events\s*=\s*/);
+  if (!startMatch || startMatch.index === undefined) return null;
+
+  const startIndex = startMatch.index + startMatch[0].length;
+  if (html[startIndex] !== "{") return null;
+
+  let depth = 0;
+  let inString = false;
+  let escape = false;
+
+  for (let i = startIndex; i < html.length; i++) {
+    const char = html[i];
+
+    if (escape) {
+      escape = false;
+    } else if (char === "\\") {
+      escape = true;
+    } else if (char === '"') {
+      inString = !inString;
+    } else if (!inString && char === "{") {
+      depth++;
+    } else if (!inString && char === "}" && --depth === 0) {
+      try {
+        return JSON.parse(html.substring(startIndex, i + 1)) as SavoyEventsData;
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,152 @@
+/**
+ * Spektrix Scraper Engine
+ *
+ * Two ways in, depending on what the venue exposes:
+ *
+ * - api: the public Spektrix API v3 - `/events` for titles and attributes,
+ *   `/instances` for performances (start is local time, startUtc is UTC)
+ * - wordpress-feed: sites on the Spektrix WordPress plugin publish the whole
+ *   programme as JSON (`?ajax=1&json=1`), one post per film with its
+ *   instances grouped by date (e.g. Rich Mix)
+ */
+
+import type { RawScreening } from "../types";
+import { BookingSystemScraper } from "./engine";
+import type { SpektrixScraperConfig } from "./types";
+
+// Spektrix API v3
+interface SpektrixEvent {
+  id: string;
+  name: string;
+  [attribute: string]: unknown;
+}
+
+interface SpektrixInstance {
+  id: string;
+  start: string;            // "2025-12-30T14:30:00" (local time)
+  cancelled: boolean;
+  isOnSale: boolean;
+  event: { id: string };
+}
+
+// WordPress plugin feed
+interface FeedInstance {
+  id: string;
+  start: string;            // "2025-12-30 14:30:00" (local time)
+  instanceId: string;
+  onSale: string;           // "1" when on sale
+  cancelled?: string;       // "1" when cancelled
+}
+
+interface FeedFilm {
+  id: number;
+  post_title: string;
+  slug: string;
+  spektrix_data?: {
+    instances?: Record<string, FeedInstance[]>;
+  };
+}
+
+export class SpektrixScraper extends BookingSystemScraper<SpektrixScraperConfig> {
+  protected async fetchPages(): Promise<string[]> {
+    const { endpoint } = this.definition;
+
+    if (this.definition.source === "wordpress-feed") {
+      console.log(`[${this.config.cinemaId}] Fetching Spektrix feed: ${endpoint}`);
+      return [await this.fetchUrl(endpoint, { Accept: "application/json" })];
+    }
+
+    console.log(`[${this.config.cinemaId}] Fetching Spektrix API: ${endpoint}`);
+    const events = await this.fetchUrl(`${endpoint}/events`, { Accept: "application/json" });
+    const instances = await this.fetchUrl(`${endpoint}/instances`, { Accept: "application/json" });
+    return [events, instances];
+  }
+
+  protected async parsePages(jsonPages: string[]): Promise<RawScreening[]> {
+    const screenings =
+      this.definition.source === "wordpress-feed"
+        ? this.parseFeed(JSON.parse(jsonPages[0]))
+        : this.parseApi(JSON.parse(jsonPages[0]), JSON.parse(jsonPages[1]));
+
+    console.log(`[${this.config.cinemaId}] Found ${screenings.length} screenings total`);
+    return screenings;
+  }
+
+  private parseApi(events: SpektrixEvent[], instances: SpektrixInstance[]): RawScreening[] {
+    const { eventFilter, formatAttribute } = this.definition;
+
+    const eventsById = new Map(
+      events
+        .filter((e) => !eventFilter || eventFilter.values.includes(String(e[eventFilter.attribute] ?? "")))
+        .map((e) => [e.id, e])
+    );
+    console.log(`[${this.config.cinemaId}] Found ${eventsById.size} events`);
+
+    const screenings: RawScreening[] = [];
+
+    for (const instance of instances) {
+      const event = eventsById.get(instance.event?.id);
+      if (!event || instance.cancelled) continue;
+
+      const datetime = this.toDate(instance.start);
+      if (!datetime) continue;
+
+      const formatValue = formatAttribute ? event[formatAttribute] : undefined;
+
+      screenings.push({
+        filmTitle: this.cleanTitle(event.name),
+        datetime,
+        format: this.mapFormat(typeof formatValue === "string" ? formatValue : undefined, event.name),
+        bookingUrl: this.bookingUrl({ instanceId: instance.id, eventId: event.id }),
+        sourceId: this.sourceId(instance.id),
+        // Kept rather than skipped, so going off sale isn't mistaken for a cancellation
+        ...(instance.isOnSale ? {} : { availabilityStatus: "sold_out" as const }),
+      });
+    }
+
+    return screenings;
+  }
+
+  private parseFeed(films: FeedFilm[]): RawScreening[] {
+    console.log(`[${this.config.cinemaId}] Found ${films.length} films`);
+    const screenings: RawScreening[] = [];
+
+    for (const film of films) {
+      const instancesByDate = film.spektrix_data?.instances ?? {};
+
+      for (const dateInstances of Object.values(instancesByDate)) {
+        if (!Array.isArray(dateInstances)) continue;
+
+        for (const instance of dateInstances) {
+          if (instance.cancelled === "1") continue;
+
+          const datetime = this.toDate(instance.start);
+          if (!datetime) {
+            console.log(`[${this.config.cinemaId}] Failed to parse datetime: ${instance.start}`);
+            continue;
+          }
+
+          const instanceId = instance.instanceId || instance.id;
+
+          screenings.push({
+            filmTitle: film.post_title,
+            datetime,
+            format: this.mapFormat(film.post_title),
+            bookingUrl: this.bookingUrl({ instanceId, eventId: String(film.id), slug: film.slug }),
+            sourceId: this.sourceId(instanceId),
+            ...(instance.onSale === "1" ? {} : { availabilityStatus: "sold_out" as const }),
+          });
+        }
+      }
+    }
+
+    return screenings;
+  }
+
+  private bookingUrl(values: { instanceId: string; eventId: string; slug?: string }): string {
+    return this.definition.bookingUrl
+      .replace("{instanceId}", values.instanceId)
+      .replace("{eventId}", values.eventId)
+      .replace("{slug}", values.slug ?? "");
+  }
+}
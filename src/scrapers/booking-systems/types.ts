@@ -0,0 +1,113 @@
+/**
+ * Booking System Scraper Types
+ *
+ * Declarative configs for the shared booking system engines. A venue on a
+ * supported system is a config entry in venues.ts rather than a hand-written
+ * scraper.
+ */
+
+import type { ScreeningFormat } from "@/types/screening";
+import type { VenueDefinition } from "../runner-factory";
+
+// ============================================================================
+// Engine Configs
+// ============================================================================
+
+interface BookingSystemScraperBase {
+  /** Cinema ID screenings are saved under */
+  cinemaId: string;
+  /** Origin of the booking site, without a trailing slash */
+  baseUrl: string;
+  /** Prefix for generated source IDs, e.g. "lexi" -> "lexi-123-456" */
+  sourceIdPrefix: string;
+  /** IANA timezone of the listed times (default "Europe/London") */
+  timezone?: string;
+  /**
+   * Text in the source's format field, notes or title mapped onto a screening
+   * format, matched case-insensitively, e.g. { "35mm": "35mm", "4K": "dcp_4k" }
+   */
+  formatMappings?: Record<string, ScreeningFormat>;
+  requestsPerMinute?: number;
+  delayBetweenRequests?: number;
+}
+
+/**
+ * Savoy Systems ("TCS") sites, served from a per-cinema .dll
+ */
+export interface SavoyScraperConfig extends BookingSystemScraperBase {
+  system: "savoy";
+  /** Path of the cinema's dll, e.g. "/TheLexiCinema.dll/" */
+  dllPath: string;
+  /** Page to fetch, relative to dllPath (default: the listings home) */
+  page?: string;
+  /** Path to fetch instead, for sites that embed the listings outside the dll (e.g. "/" for the homepage) */
+  listingPath?: string;
+  /**
+   * - events-json: listings embedded as `var Events = {"Events": [...]}`
+   * - programme-html: `div.programme` blocks with date rows and time links
+   */
+  layout: "events-json" | "programme-html";
+  /** events-json only - event TypeDescriptions to keep (default ["Film"]) */
+  eventTypes?: string[];
+  /**
+   * events-json only - booking link template ({eventId} and {performanceId}
+   * are substituted), for sites whose performance URLs carry session
+   * parameters that expire. Default: the performance URL
+   */
+  bookingUrl?: string;
+}
+
+/**
+ * Spektrix ticketing, read from the public API or from a site's own feed
+ */
+export interface SpektrixScraperConfig extends BookingSystemScraperBase {
+  system: "spectrix";
+  /**
+   * - api: Spektrix API v3 events + instances
+   * - wordpress-feed: the Spektrix WordPress plugin's JSON listing
+   *   (`?ajax=1&json=1`), with instances grouped by date per post
+   */
+  source: "api" | "wordpress-feed";
+  /** API v3 root (https://system.spektrix.com/<client>/api/v3) or the feed URL */
+  endpoint: string;
+  /** Booking URL template - {instanceId}, {eventId} and {slug} are substituted */
+  bookingUrl: string;
+  /** api only - keep events whose attribute has one of these values */
+  eventFilter?: { attribute: string; values: string[] };
+  /** api only - event attribute holding the screening format */
+  formatAttribute?: string;
+}
+
+/**
+ * Veezi sites, read from the Veezi web session API
+ */
+export interface VeeziScraperConfig extends BookingSystemScraperBase {
+  system: "veezi";
+  /** Regional API root, e.g. "https://api.uk.veezi.com" */
+  apiBase: string;
+  /** Environment variable holding the site's VeeziAccessToken */
+  tokenEnv: string;
+  /** Session ShowTypes to keep (default ["Public"]) */
+  showTypes?: string[];
+  /**
+   * Booking link template ({sessionId} is substituted), for sites that sell
+   * through their own pages. Default: the session's Veezi purchase URL
+   */
+  bookingUrl?: string;
+}
+
+export type BookingSystemScraperConfig =
+  | SavoyScraperConfig
+  | SpektrixScraperConfig
+  | VeeziScraperConfig;
+
+// ============================================================================
+// Venue Registry
+// ============================================================================
+
+export interface BookingSystemVenue {
+  /** ID used by the scraper CLI (npm run scrape <id>) */
+  scraperId: string;
+  venue: VenueDefinition;
+  scraper: BookingSystemScraperConfig;
+}
@@ -0,0 +1,88 @@
+/**
+ * Veezi Scraper Engine
+ *
+ * Reads the Veezi web session API (`/v1/websession`) with the site's
+ * VeeziAccessToken. Sessions carry local start times and a ready-made
+ * purchase URL; screen names come from `/v1/screen` and film formats from
+ * `/v1/film`.
+ */
+
+import type { RawScreening } from "../types";
+import { BookingSystemScraper } from "./engine";
+import type { VeeziScraperConfig } from "./types";
+
+interface VeeziSession {
+  Id: number;
+  FilmId: string;
+  Title: string;
+  ScreenId: number;
+  FeatureStartTime: string; // "2025-12-30T19:00:00" (local time)
+  ShowType: string;         // "Public" or "Private"
+  Status: string;           // "Open", "Closed", "Planned"
+  SeatsAvailable: number;
+  Url?: string;             // Purchase URL
+}
+
+interface VeeziScreen {
+  Id: number;
+  Name: string;
+}
+
+interface VeeziFilm {
+  Id: string;
+  Title: string;
+  Format?: string;          // "2D Film", "35mm", etc.
+}
+
+export class VeeziScraper extends BookingSystemScraper<VeeziScraperConfig> {
+  protected async fetchPages(): Promise<string[]> {
+    const token = process.env[this.definition.tokenEnv];
+    if (!token) {
+      throw new Error(`Missing Veezi access token - set ${this.definition.tokenEnv}`);
+    }
+
+    const headers = { Accept: "application/json", VeeziAccessToken: token };
+    console.log(`[${this.config.cinemaId}] Fetching Veezi sessions: ${this.definition.apiBase}`);
+
+    const sessions = await this.fetchUrl(`${this.definition.apiBase}/v1/websession`, headers);
+    const screens = await this.fetchUrl(`${this.definition.apiBase}/v1/screen`, headers);
+    const films = await this.fetchUrl(`${this.definition.apiBase}/v1/film`, headers);
+    return [sessions, screens, films];
+  }
+
+  protected async parsePages(jsonPages: string[]): Promise<RawScreening[]> {
+    const sessions: VeeziSession[] = JSON.parse(jsonPages[0]);
+    const screens: VeeziScreen[] = JSON.parse(jsonPages[1]);
+    const films: VeeziFilm[] = JSON.parse(jsonPages[2]);
+    const screenNames = new Map(screens.map((s) => [s.Id, s.Name]));
+    const filmFormats = new Map(films.map((f) => [f.Id, f.Format]));
+    const showTypes = this.definition.showTypes ?? ["Public"];
+
+    const screenings: RawScreening[] = [];
+
+    for (const session of sessions) {
+      if (session.Status !== "Open" || !showTypes.includes(session.ShowType)) continue;
+
+      const datetime = this.toDate(session.FeatureStartTime);
+      if (!datetime) continue;
+
+      const bookingUrl = this.definition.bookingUrl
+        ? this.definition.bookingUrl.replace("{sessionId}", String(session.Id))
+        : session.Url;
+      if (!bookingUrl) continue;
+
+      screenings.push({
+        filmTitle: this.cleanTitle(session.Title),
+        datetime,
+        screen: screenNames.get(session.ScreenId),
+        format: this.mapFormat(filmFormats.get(session.FilmId), session.Title),
+        bookingUrl,
+        sourceId: this.sourceId(session.Id),
+        availabilityStatus: session.SeatsAvailable > 0 ? "available" : "sold_out",
+      });
+    }
+
+    console.log(`[${this.config.cinemaId}] Found ${screenings.length} screenings total`);
+    return screenings;
+  }
+}
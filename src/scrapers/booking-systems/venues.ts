@@ -0,0 +1,138 @@
+/**
+ * Booking System Venues
+ *
+ * Venues scraped by the shared booking system engines. Adding a venue on
+ * Savoy, Spektrix or Veezi is an entry here - it is picked up by the scraper
+ * CLI (npm run scrape <scraperId>) and createBookingSystemVenueScraper.
+ */
+
+import type { BookingSystemVenue } from "./types";
+
+export const BOOKING_SYSTEM_VENUES: BookingSystemVenue[] = [
+  // ==========================================================================
+  // Savoy Systems
+  // ==========================================================================
+  {
+    scraperId: "lexi",
+    venue: {
+      id: "lexi",
+      name: "The Lexi Cinema",
+      shortName: "Lexi",
+      website: "https://thelexicinema.co.uk",
+      address: { street: "194B Chamberlayne Road", area: "Kensal Rise", postcode: "NW10 3JU" },
+      features: ["independent", "community", "charity", "art-deco"],
+    },
+    scraper: {
+      system: "savoy",
+      cinemaId: "lexi",
+      baseUrl: "https://thelexicinema.co.uk",
+      dllPath: "/TheLexiCinema.dll/",
+      page: "Home",
+      layout: "events-json",
+      sourceIdPrefix: "lexi",
+      formatMappings: { "35mm": "35mm", "70mm": "70mm" },
+      requestsPerMinute: 10,
+      delayBetweenRequests: 500,
+    },
+  },
+  {
+    scraperId: "rio",
+    venue: {
+      id: "rio-dalston",
+      name: "Rio Cinema",
+      shortName: "Rio",
+      website: "https://riocinema.org.uk",
+      address: { street: "107 Kingsland High Street", area: "Dalston", postcode: "E8 2PB" },
+      features: ["independent", "repertory", "bar", "35mm", "art-deco"],
+    },
+    scraper: {
+      system: "savoy",
+      cinemaId: "rio-dalston",
+      baseUrl: "https://riocinema.org.uk",
+      dllPath: "/Rio.dll/",
+      // The Events JSON is embedded in the homepage
+      listingPath: "/",
+      layout: "events-json",
+      // Performance URLs carry session parameters that expire; the film page doesn't
+      bookingUrl: "https://riocinema.org.uk/Rio.dll/WhatsOn?f={eventId}",
+      sourceIdPrefix: "rio-dalston",
+      formatMappings: { "35mm": "35mm", "70mm": "70mm" },
+      requestsPerMinute: 10,
+      delayBetweenRequests: 1000,
+    },
+  },
+  {
+    scraperId: "arthouse",
+    venue: {
+      id: "arthouse-crouch-end",
+      name: "ArtHouse Crouch End",
+      shortName: "ArtHouse",
+      website: "https://www.arthousecrouchend.co.uk",
+      address: { street: "159A Tottenham Lane", area: "Crouch End", postcode: "N8 9BT" },
+      features: ["independent", "art-house", "cafe-bar"],
+    },
+    scraper: {
+      system: "savoy",
+      cinemaId: "arthouse-crouch-end",
+      baseUrl: "https://arthousecrouchend.savoysystems.co.uk",
+      dllPath: "/ArtHouseCrouchEnd.dll/",
+      layout: "programme-html",
+      sourceIdPrefix: "arthouse",
+      formatMappings: { "35mm": "35mm" },
+      requestsPerMinute: 6,
+      delayBetweenRequests: 2000,
+    },
+  },
+  {
+    scraperId: "cine-lumiere",
+    venue: {
+      id: "cine-lumiere",
+      name: "Ciné Lumière",
+      shortName: "Ciné Lumière",
+      website: "https://www.institut-francais.org.uk",
+      address: { street: "17 Queensberry Place", area: "South Kensington", postcode: "SW7 2DT" },
+      features: ["independent", "french", "art-house", "cultural-institute"],
+    },
+    scraper: {
+      system: "savoy",
+      cinemaId: "cine-lumiere",
+      baseUrl: "https://cinelumiere.savoysystems.co.uk",
+      dllPath: "/CineLumiere.dll/",
+      layout: "programme-html",
+      sourceIdPrefix: "cine-lumiere",
+      formatMappings: { "35mm": "35mm" },
+      requestsPerMinute: 6,
+      delayBetweenRequests: 2000,
+    },
+  },
+
+  // ==========================================================================
+  // Spektrix
+  // ==========================================================================
+  {
+    scraperId: "rich-mix",
+    venue: {
+      id: "rich-mix",
+      name: "Rich Mix",
+      shortName: "Rich Mix",
+      website: "https://richmix.org.uk",
+      address: { street: "35-47 Bethnal Green Road", area: "Shoreditch", postcode: "E1 6LA" },
+      features: ["independent", "arts-centre", "community", "world-cinema"],
+    },
+    scraper: {
+      system: "spectrix",
+      cinemaId: "rich-mix",
+      baseUrl: "https://richmix.org.uk",
+      source: "wordpress-feed",
+      endpoint: "https://richmix.org.uk/whats-on/cinema/?ajax=1&json=1",
+      bookingUrl: "https://richmix.org.uk/whats-on/cinema/{slug}/",
+      sourceIdPrefix: "richmix",
+      requestsPerMinute: 30,
+      delayBetweenRequests: 500,
+    },
+  },
+];
+
+export function getBookingSystemVenue(cinemaId: string): BookingSystemVenue | undefined {
+  return BOOKING_SYSTEM_VENUES.find((v) => v.venue.id === cinemaId);
+}
@@ -0,0 +1,124 @@
+/**
+ * Curzon Scraper Tests
+ *
+ * Vista OCAPI responses are served from memory. The auth token normally comes
+ * from a Playwright page load, so it is set directly.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CurzonScraper } from "./curzon";
+
+const API = "https://vwc.curzon.com/WSVistaWebClient/ocapi/v1";
+
+let responses: Record<string, unknown>;
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  responses = {};
+  fetchMock.mockImplementation(async (input: RequestInfo | URL) => {
+    const body = responses[input.toString()];
+    return body === undefined ? new Response("", { status: 404 }) : Response.json(body);
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.useFakeTimers({ now: new Date("2026-10-12T09:00:00Z"), toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function createScraper(): CurzonScraper {
+  const scraper = new CurzonScraper();
+  Object.assign(scraper, { authToken: "Bearer test" });
+  return scraper;
+}
+
+const showtime = (id: string, businessDate: string, startsAt: string, screenId = "SOH1-01") => ({
+  id,
+  schedule: { businessDate, startsAt, filmStartsAt: startsAt },
+  filmId: "HO00012345",
+  siteId: "SOH1",
+  screenId,
+  isSoldOut: false,
+  attributeIds: ["0000000001"],
+  eventId: null,
+});
+
+const ticketPrices = (adult: number) => ({
+  ticketTypes: [
+    { description: { text: "Adult" }, price: { valueInCents: adult } },
+    { description: { text: "Concession" }, price: { valueInCents: adult - 200 } },
+    { description: { text: "Curzon Member" }, price: { valueInCents: adult - 400 } },
+    { description: { text: "Companion" }, price: { valueInCents: 0 } },
+  ],
+});
+
+function serveDay(businessDate: string, showtimes: ReturnType<typeof showtime>[]) {
+  responses[`${API}/showtimes/by-business-date/${businessDate}?siteIds=SOH1`] = {
+    businessDate,
+    showtimes,
+    relatedData: {
+      films: [{ id: "HO00012345", title: { text: "Sirât" }, releaseDate: "2025-09-05" }],
+      attributes: [{ id: "0000000001", name: { text: "2D" } }],
+    },
+  };
+}
+
+const priceRequests = () =>
+  fetchMock.mock.calls.map(([url]) => url.toString()).filter((url) => url.endsWith("/ticket-prices"));
+
+describe("CurzonScraper ticket prices", () => {
+  it("reads standard, concession and member prices from the showtime's ticket types", async () => {
+    responses[`${API}/film-screening-dates?siteIds=SOH1`] = {
+      filmScreeningDates: [{ businessDate: "2026-10-13" }],
+    };
+    serveDay("2026-10-13", [showtime("SOH1-40001", "2026-10-13", "2026-10-13T18:30:00+01:00")]);
+    responses[`${API}/showtimes/SOH1-40001/ticket-prices`] = ticketPrices(1950);
+
+    const [screening] = await createScraper().scrapeVenue("curzon-soho");
+
+    expect(screening.price).toEqual({ currency: "GBP", standard: 1950, concession: 1750, member: 1550 });
+  });
+
+  it("shares a lookup between showtimes at the same London weekday and time", async () => {
+    // BST ends on 25 October: both Tuesdays start at 18:30 in London, an hour apart in UTC
+    responses[`${API}/film-screening-dates?siteIds=SOH1`] = {
+      filmScreeningDates: [{ businessDate: "2026-10-20" }, { businessDate: "2026-10-27" }],
+    };
+    serveDay("2026-10-20", [
+      showtime("SOH1-40010", "2026-10-20", "2026-10-20T17:30:00Z"),
+      showtime("SOH1-40011", "2026-10-20", "2026-10-20T13:00:00Z"),
+    ]);
+    serveDay("2026-10-27", [showtime("SOH1-40020", "2026-10-27", "2026-10-27T18:30:00Z")]);
+    responses[`${API}/showtimes/SOH1-40010/ticket-prices`] = ticketPrices(1950);
+    responses[`${API}/showtimes/SOH1-40011/ticket-prices`] = ticketPrices(1450);
+
+    const screenings = await createScraper().scrapeVenue("curzon-soho");
+
+    expect(priceRequests()).toEqual([
+      `${API}/showtimes/SOH1-40010/ticket-prices`,
+      `${API}/showtimes/SOH1-40011/ticket-prices`,
+    ]);
+    const standard = Object.fromEntries(screenings.map((s) => [s.sourceId, s.price?.standard]));
+    expect(standard).toEqual({
+      "curzon-SOH1-40010": 1950,
+      "curzon-SOH1-40011": 1450,
+      "curzon-SOH1-40020": 1950,
+    });
+  });
+
+  it("leaves screenings unpriced when the price lookup fails", async () => {
+    responses[`${API}/film-screening-dates?siteIds=SOH1`] = {
+      filmScreeningDates: [{ businessDate: "2026-10-13" }],
+    };
+    serveDay("2026-10-13", [showtime("SOH1-40030", "2026-10-13", "2026-10-13T18:30:00+01:00")]);
+
+    const [screening] = await createScraper().scrapeVenue("curzon-soho");
+
+    expect(screening.filmTitle).toBe("Sirât");
+    expect(screening.price).toBeUndefined();
+  });
+});
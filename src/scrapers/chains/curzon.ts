@@ -12,9 +12,11 @@
  * 2. Find the venue's Vista siteId (e.g., "SOH1" for Soho)
  */
 
-import type { ChainConfig, VenueConfig, RawScreening, ChainScraper } from "../types";
+import type { ChainConfig, VenueConfig, RawScreening, ChainScraper, AvailabilityChecker } from "../types";
 import { getBrowser, closeBrowser, createPage } from "../utils/browser";
 import type { Page } from "playwright";
+import type { AvailabilityStatus, TicketPrices } from "@/types/screening";
+import { ticketPricesFromTypes } from "../utils/prices";
 
 // ============================================================================
 // Curzon Venue Configurations
@@ -153,6 +155,15 @@ export const CURZON_CONFIG: ChainConfig = {
   delayBetweenRequests: 500,
 };
 
+// Price cards vary by day and time; Curzon's are set in London time
+const LONDON_WEEKDAY_TIME = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/London",
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
 // ============================================================================
 // Vista OCAPI Response Types
 // ============================================================================
@@ -205,6 +216,13 @@ interface VistaShowtimesResponse {
   };
 }
 
+interface VistaTicketPricesResponse {
+  ticketTypes: Array<{
+    description: { text: string };
+    price: { valueInCents: number };
+  }>;
+}
+
 interface VistaScreeningDatesResponse {
   filmScreeningDates: Array<{
     businessDate: string;
@@ -215,11 +233,14 @@ interface VistaScreeningDatesResponse {
 // Curzon Scraper Implementation (Hybrid: Playwright for auth, API for data)
 // ============================================================================
 
-export class CurzonScraper implements ChainScraper {
+export class CurzonScraper implements ChainScraper, AvailabilityChecker {
   chainConfig = CURZON_CONFIG;
   private page: Page | null = null;
   private authToken: string | null = null;
   private apiBase = "https://vwc.curzon.com/WSVistaWebClient/ocapi/v1";
+  // Vista prices by site, screen, attributes and London weekday and start
+  // time, so a weekly repeat of a showtime reuses its price card lookup
+  private priceCache = new Map<string, TicketPrices | null>();
 
   /**
    * Scrape all active venues
@@ -327,6 +348,7 @@ export class CurzonScraper implements ChainScraper {
 
           const data: VistaShowtimesResponse = await response.json();
           const screenings = this.convertToRawScreenings(data, venue);
+          await this.addTicketPrices(screenings, data.showtimes || []);
           allScreenings.push(...screenings);
 
           // Small delay between dates
@@ -367,6 +389,46 @@ export class CurzonScraper implements ChainScraper {
     }
   }
 
+  /**
+   * Attach ticket prices, fetching each price card once per weekday and time.
+   * Prices are optional - failures leave screenings unpriced.
+   */
+  private async addTicketPrices(screenings: RawScreening[], showtimes: VistaShowtime[]): Promise<void> {
+    const bySourceId = new Map(screenings.map(s => [s.sourceId, s]));
+
+    for (const showtime of showtimes) {
+      const screening = bySourceId.get(`curzon-${showtime.id}`);
+      if (!screening) continue;
+
+      const key = [
+        showtime.siteId,
+        showtime.screenId,
+        [...(showtime.attributeIds || [])].sort().join(","),
+        LONDON_WEEKDAY_TIME.format(new Date(showtime.schedule.startsAt)),
+      ].join("|");
+
+      if (!this.priceCache.has(key)) {
+        this.priceCache.set(key, await this.fetchTicketPrices(showtime.id));
+      }
+      screening.price = this.priceCache.get(key) ?? undefined;
+    }
+  }
+
+  private async fetchTicketPrices(showtimeId: string): Promise<TicketPrices | null> {
+    try {
+      const response = await this.fetchWithAuth(`${this.apiBase}/showtimes/${showtimeId}/ticket-prices`);
+      if (!response.ok) return null;
+
+      const data: VistaTicketPricesResponse = await response.json();
+      return ticketPricesFromTypes(
+        (data.ticketTypes || []).map(t => ({ name: t.description?.text || "", amount: t.price?.valueInCents }))
+      ) ?? null;
+    } catch (error) {
+      console.warn(`[curzon] Error fetching prices for ${showtimeId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Make authenticated API request
    */
@@ -452,18 +514,29 @@ export class CurzonScraper implements ChainScraper {
 
       // Check for accessibility features
       const eventDescriptions: string[] = [];
+      const accessibility: Pick<
+        RawScreening,
+        "hasSubtitles" | "hasAudioDescription" | "isRelaxedScreening" | "isBabyFriendly"
+      > = {};
       for (const attrId of showtime.attributeIds || []) {
         const attrName = attrMap.get(attrId);
         if (attrName) {
           // Common Vista attribute patterns
           if (attrName.toLowerCase().includes("caption") || attrName.toLowerCase().includes("subtitled")) {
             eventDescriptions.push("Subtitled");
+            accessibility.hasSubtitles = true;
           }
           if (attrName.toLowerCase().includes("audio") && attrName.toLowerCase().includes("descri")) {
             eventDescriptions.push("Audio Described");
+            accessibility.hasAudioDescription = true;
+          }
+          if (attrName.toLowerCase().includes("relaxed")) {
+            eventDescriptions.push("Relaxed");
+            accessibility.isRelaxedScreening = true;
           }
           if (attrName.toLowerCase().includes("baby")) {
             eventDescriptions.push("Baby Friendly");
+            accessibility.isBabyFriendly = true;
           }
           if (attrName.toLowerCase().includes("q&a") || attrName.toLowerCase().includes("q & a")) {
             eventDescriptions.push("Q&A");
@@ -481,6 +554,7 @@ export class CurzonScraper implements ChainScraper {
         year,
         director,
         eventDescription: eventDescriptions.length > 0 ? eventDescriptions.join(", ") : undefined,
+        ...accessibility,
         // Availability status from Vista API
         availabilityStatus: showtime.isSoldOut ? "sold_out" : "available",
       });
@@ -548,6 +622,50 @@ export class CurzonScraper implements ChainScraper {
     console.log(`[curzon] Browser closed`);
   }
 
+  /**
+   * Current sold-out state of a venue's showtimes on the given business dates.
+   * The auth token (and its browser) is kept until close(), so several venues
+   * can be checked with one login.
+   */
+  async fetchAvailability(venueId: string, dates: string[]): Promise<Map<string, AvailabilityStatus>> {
+    const statuses = new Map<string, AvailabilityStatus>();
+    const siteId = this.chainConfig.venues.find(v => v.id === venueId)?.chainVenueId;
+    if (!siteId) return statuses;
+
+    if (!this.authToken) {
+      await this.initialize();
+    }
+    if (!this.authToken) {
+      console.error("[curzon] No auth token available");
+      return statuses;
+    }
+
+    for (const date of dates) {
+      try {
+        const response = await this.fetchWithAuth(
+          `${this.apiBase}/showtimes/by-business-date/${date}?siteIds=${siteId}`
+        );
+        if (!response.ok) {
+          console.warn(`[curzon] Availability API error for ${date}: ${response.status}`);
+          continue;
+        }
+
+        const data: VistaShowtimesResponse = await response.json();
+        for (const showtime of data.showtimes || []) {
+          statuses.set(`curzon-${showtime.id}`, showtime.isSoldOut ? "sold_out" : "available");
+        }
+      } catch (error) {
+        console.warn(`[curzon] Error checking availability for ${date}:`, error);
+      }
+    }
+
+    return statuses;
+  }
+
+  async close(): Promise<void> {
+    await this.cleanup();
+  }
+
   /**
    * Remove duplicate screenings
    */
@@ -16,6 +16,7 @@
 
 import type { ChainConfig, VenueConfig, RawScreening, ChainScraper } from "../types";
 import { addDays, format } from "date-fns";
+import { ticketPricesFromTypes } from "../utils/prices";
 
 // ============================================================================
 // Everyman Venue Configurations - London Locations
@@ -252,6 +253,12 @@ interface ShowtimeData {
       type: string;
       provider: string;
     }>;
+    // Box office price list, amounts in pence
+    prices?: Array<{
+      label: string;
+      amount: number;
+      currency?: string;
+    }>;
   };
 }
 
@@ -462,11 +469,18 @@ export class EverymanScraper implements ChainScraper {
 
           const sourceId = `everyman-${venue.id}-${showtime.id}`;
 
+          const prices = showtime.data?.prices ?? [];
+          const price = ticketPricesFromTypes(
+            prices.map(p => ({ name: p.label, amount: p.amount })),
+            prices[0]?.currency
+          );
+
           screenings.push({
             filmTitle,
             datetime,
             bookingUrl,
             sourceId,
+            price,
           });
         }
       }
@@ -10,7 +10,11 @@
  * 2. Find the cinema_id from network requests on their website
  */
 
-import type { ChainConfig, VenueConfig, RawScreening, ChainScraper } from "../types";
+import type { ChainConfig, VenueConfig, RawScreening, ChainScraper, AvailabilityChecker } from "../types";
+import type { AvailabilityStatus } from "@/types/screening";
+import { statusFromSeats } from "@/lib/availability";
+import { detectAccessibility } from "../utils/accessibility";
+import { parsePrice, ticketPricesFromTypes } from "../utils/prices";
 
 // ============================================================================
 // Picturehouse Venue Configurations
@@ -178,6 +182,9 @@ interface PicturehouseShowTime {
   ScreenName: string;
   SessionAttributesNames: string[]; // ["2D", "Audio D"]
   SoldoutStatus: number; // 0 = available, 1 = sold out
+  // Vista seat counts, only sent for sessions on sale online
+  SeatsAvailable?: number;
+  SeatsTotal?: number;
   date_f: string; // "2025-12-21"
   time: string; // "18:30"
   attributes?: Array<{
@@ -185,6 +192,11 @@ interface PicturehouseShowTime {
     attribute_full: string;
     description: string;
   }>;
+  // Only sent for sessions on sale online
+  ticket_prices?: Array<{
+    ticket_type: string; // "Adult", "Senior 60+", "Member Adult"
+    price: string; // "£14.50"
+  }>;
 }
 
 interface PicturehouseMovie {
@@ -206,7 +218,18 @@ interface PicturehouseApiResponse {
 // Picturehouse Scraper Implementation
 // ============================================================================
 
-export class PicturehouseScraper implements ChainScraper {
+/**
+ * Availability from the seat count when the session has one, else the sold-out flag
+ */
+function showtimeAvailability(showTime: PicturehouseShowTime): AvailabilityStatus {
+  if (showTime.SoldoutStatus === 1) return "sold_out";
+  if (typeof showTime.SeatsAvailable === "number") {
+    return statusFromSeats(showTime.SeatsAvailable, showTime.SeatsTotal);
+  }
+  return "available";
+}
+
+export class PicturehouseScraper implements ChainScraper, AvailabilityChecker {
   chainConfig = PICTUREHOUSE_CONFIG;
 
   /**
@@ -299,9 +322,13 @@ export class PicturehouseScraper implements ChainScraper {
           bookingUrl,
           eventType,
           eventDescription,
+          // Session attributes include "Subtitled", "Autism Friendly", "Big Scream!"...
+          ...detectAccessibility(...attrs),
+          price: ticketPricesFromTypes(
+            (showTime.ticket_prices ?? []).map(t => ({ name: t.ticket_type, amount: parsePrice(t.price) ?? 0 }))
+          ),
           sourceId: `picturehouse-${venue.id}-${showTime.SessionId}`,
-          // Availability status from API: 0 = available, 1 = sold out
-          availabilityStatus: showTime.SoldoutStatus === 1 ? "sold_out" : "available",
+          availabilityStatus: showtimeAvailability(showTime),
         });
       }
     }
@@ -360,6 +387,26 @@ export class PicturehouseScraper implements ChainScraper {
     return screenings;
   }
 
+  /**
+   * Current availability for a venue's sessions. The API returns the whole
+   * programme in one call, so `dates` isn't needed.
+   */
+  async fetchAvailability(venueId: string): Promise<Map<string, AvailabilityStatus>> {
+    const statuses = new Map<string, AvailabilityStatus>();
+    const venue = this.chainConfig.venues.find(v => v.id === venueId);
+    if (!venue) return statuses;
+
+    const data = await this.fetchVenueShowtimes(venue);
+    if (data?.response !== "success" || !data.movies) return statuses;
+
+    for (const movie of data.movies) {
+      for (const showTime of movie.show_times) {
+        statuses.set(`picturehouse-${venue.id}-${showTime.SessionId}`, showtimeAvailability(showTime));
+      }
+    }
+    return statuses;
+  }
+
   /**
    * Health check - verify API is accessible
    */
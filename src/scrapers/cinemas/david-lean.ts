@@ -12,6 +12,7 @@
 
 import { BaseScraper } from "../base";
 import type { RawScreening, ScraperConfig } from "../types";
+import { accessibilityFromCodes } from "../utils/accessibility";
 import { parse, getYear, addYears } from "date-fns";
 
 export class DavidLeanScraper extends BaseScraper {
@@ -81,7 +82,11 @@ export class DavidLeanScraper extends BaseScraper {
   ): RawScreening[] {
     const screenings: RawScreening[] = [];
 
-    // Remove annotations like (DF), (HOH), (BIA) - these are accessibility notes
+    // Annotations like (DF), (HOH), (BIA) are accessibility notes - keep them
+    // as flags, then remove them before parsing the date
+    const accessibility = accessibilityFromCodes(
+      Array.from(caption.matchAll(/\(([A-Z]+)\)/g), (m) => m[1])
+    );
     const cleanCaption = caption.replace(/\s*\([A-Z]+\)\s*/g, " ").trim();
 
     // Match pattern: "Day DD Mon at HH:MM" with optional "and HH:MM"
@@ -102,6 +107,7 @@ export class DavidLeanScraper extends BaseScraper {
             filmTitle,
             datetime: adjustedDatetime,
             bookingUrl,
+            ...accessibility,
             sourceId: `david-lean-${filmTitle.toLowerCase().replace(/\s+/g, "-")}-${adjustedDatetime.toISOString()}`,
           });
         }
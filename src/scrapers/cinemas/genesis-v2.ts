@@ -138,19 +138,17 @@ export class GenesisScraper extends BaseScraper {
       // Check for special screening types
       const screeningContext = $link.parent().text().toLowerCase();
       let format: string | undefined;
-      let eventType: string | undefined;
 
       if (screeningContext.includes("35mm")) format = "35mm";
-      if (screeningContext.includes("subtitled") || screeningContext.includes("sub)")) {
-        eventType = "subtitled";
-      }
+      const hasSubtitles =
+        screeningContext.includes("subtitled") || screeningContext.includes("sub)");
 
       screenings.push({
         filmTitle,
         datetime,
         format,
         bookingUrl,
-        eventType,
+        hasSubtitles,
         sourceId: `genesis-${perfCode}`,
       });
     });
@@ -89,6 +89,8 @@ export class NickelScraperV2 extends BaseScraper {
         year: item.film.year ?? undefined,
         director: item.film.director ?? undefined,
         posterUrl: item.film.imageUrl ?? undefined,
+        // Single flat price per screening
+        price: item.price > 0 ? { currency: "GBP", standard: item.price } : undefined,
       };
     });
   }
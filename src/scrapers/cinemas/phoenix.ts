@@ -9,7 +9,7 @@
  * Captures data by intercepting GraphQL responses from the page
  */
 
-import { chromium, type Page } from "playwright";
+import { closeBrowser, createPage } from "../utils/browser";
 import type { RawScreening, ScraperConfig, CinemaScraper } from "../types";
 
 const PHOENIX_CONFIG: ScraperConfig & { graphqlUrl: string } = {
@@ -46,9 +46,7 @@ export class PhoenixScraper implements CinemaScraper {
   async scrape(): Promise<RawScreening[]> {
     console.log("[" + this.config.cinemaId + "] Starting Phoenix Cinema scrape...");
 
-    const browser = await chromium.launch({ headless: true });
-    const context = await browser.newContext();
-    const page = await context.newPage();
+    const page = await createPage();
 
     const movies: PhoenixMovie[] = [];
     const allShowings: PhoenixShowing[] = [];
@@ -160,7 +158,7 @@ export class PhoenixScraper implements CinemaScraper {
       console.log("[" + this.config.cinemaId + "] Found " + screenings.length + " screenings total");
       return screenings;
     } finally {
-      await browser.close();
+      await closeBrowser();
     }
   }
 
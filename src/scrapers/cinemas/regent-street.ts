@@ -13,7 +13,7 @@
  * Captures data by intercepting GraphQL responses from the page
  */
 
-import { chromium } from "playwright";
+import { closeBrowser, createPage } from "../utils/browser";
 import type { RawScreening, ScraperConfig, CinemaScraper } from "../types";
 
 const REGENT_STREET_CONFIG: ScraperConfig & { programmeUrl: string } = {
@@ -48,9 +48,7 @@ export class RegentStreetScraper implements CinemaScraper {
   async scrape(): Promise<RawScreening[]> {
     console.log(`[${this.config.cinemaId}] Starting Regent Street Cinema scrape...`);
 
-    const browser = await chromium.launch({ headless: true });
-    const context = await browser.newContext();
-    const page = await context.newPage();
+    const page = await createPage();
 
     const allShowings: RegentStreetShowing[] = [];
 
@@ -142,7 +140,7 @@ export class RegentStreetScraper implements CinemaScraper {
       console.log(`[${this.config.cinemaId}] Found ${screenings.length} screenings total`);
       return screenings;
     } finally {
-      await browser.close();
+      await closeBrowser();
     }
   }
 
@@ -7,16 +7,13 @@
  *
  * 2 screens: Cinema 1 (200 seats), Cinema 2 (48 seats)
  * Uses custom AJAX API at /ajax/filter_stream/
- * Ticketing: Spektrix (spektrix.riversidestudios.co.uk)
+ * Ticketing: Spektrix (spektrix.riversidestudios.co.uk), but listings come
+ * from the site's own feed rather than a Spektrix one, so this isn't on the
+ * booking system engine
  */
 
-import type { RawScreening } from "../types";
-
-const RIVERSIDE_CONFIG = {
-  cinemaId: "riverside-studios",
-  apiUrl: "https://riversidestudios.co.uk/ajax/filter_stream/ZWhHVEdwSDNuekJLUWI1OXVDQ0Fvdz09/?offset=0&limit=500",
-  baseUrl: "https://riversidestudios.co.uk",
-};
+import { BaseScraper } from "../base";
+import type { RawScreening, ScraperConfig } from "../types";
 
 // API response types
 interface RiversidePerformance {
@@ -41,33 +38,32 @@ interface RiversideEvent {
   end_date?: string;
 }
 
-export interface CinemaScraper {
-  config: { cinemaId: string };
-  scrape(): Promise<RawScreening[]>;
-}
-
-export class RiversideStudiosScraper implements CinemaScraper {
-  config = RIVERSIDE_CONFIG;
-
-  async scrape(): Promise<RawScreening[]> {
-    console.log(`[${this.config.cinemaId}] Starting Riverside Studios scrape...`);
-
-    // Fetch the API
-    console.log(`[${this.config.cinemaId}] Fetching API...`);
-    const response = await fetch(this.config.apiUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch Riverside API: ${response.status}`);
-    }
+export class RiversideStudiosScraper extends BaseScraper {
+  config: ScraperConfig = {
+    cinemaId: "riverside-studios",
+    baseUrl: "https://riversidestudios.co.uk",
+    requestsPerMinute: 30,
+    delayBetweenRequests: 500,
+  };
+
+  private apiUrl =
+    "https://riversidestudios.co.uk/ajax/filter_stream/ZWhHVEdwSDNuekJLUWI1OXVDQ0Fvdz09/?offset=0&limit=500";
+
+  protected async fetchPages(): Promise<string[]> {
+    console.log("[riverside-studios] Fetching API...");
+    const json = await this.fetchUrl(this.apiUrl);
+    return [json];
+  }
 
-    const events: RiversideEvent[] = await response.json();
-    console.log(`[${this.config.cinemaId}] Found ${events.length} events`);
+  protected async parsePages(jsonPages: string[]): Promise<RawScreening[]> {
+    const events: RiversideEvent[] = JSON.parse(jsonPages[0]);
+    console.log(`[riverside-studios] Found ${events.length} events`);
 
     // Filter for cinema events only
-    const cinemaEvents = events.filter(event => event.slot_tag === "Cinema");
-    console.log(`[${this.config.cinemaId}] Found ${cinemaEvents.length} cinema events`);
+    const cinemaEvents = events.filter((event) => event.slot_tag === "Cinema");
+    console.log(`[riverside-studios] Found ${cinemaEvents.length} cinema events`);
 
     const screenings: RawScreening[] = [];
-    const now = new Date();
     const seenIds = new Set<string>();
 
     for (const event of cinemaEvents) {
@@ -85,7 +81,6 @@ export class RiversideStudiosScraper implements CinemaScraper {
           if (isNaN(timestamp)) continue;
 
           const datetime = new Date(timestamp * 1000);
-          if (datetime < now) continue;
 
           // Extract booking URL from HTML
           // Format: <a class="performance button" href="https://riversidestudios.co.uk/seats/43001/">
@@ -107,9 +102,19 @@ export class RiversideStudiosScraper implements CinemaScraper {
       }
     }
 
-    console.log(`[${this.config.cinemaId}] Found ${screenings.length} screenings total`);
     return screenings;
   }
+
+  protected validate(screenings: RawScreening[]): RawScreening[] {
+    const baseValidated = super.validate(screenings);
+    const seen = new Set<string>();
+
+    return baseValidated.filter((s) => {
+      if (s.sourceId && seen.has(s.sourceId)) return false;
+      if (s.sourceId) seen.add(s.sourceId);
+      return true;
+    });
+  }
 }
 
 export function createRiversideStudiosScraper(): RiversideStudiosScraper {
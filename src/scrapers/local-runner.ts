@@ -2,20 +2,22 @@
 /**
  * Local Scraper Runner
  *
- * Interactive CLI for running Playwright scrapers locally.
+ * Interactive CLI for running the scrapers the scheduled Inngest runs don't cover
+ * (registered with the "manual" schedule in registry.ts - Playwright scrapers and chains).
  * Shows scraper status and lets you easily run the ones that need updating.
  *
  * Usage:
  *   npm run scrape:local          # Interactive mode
- *   npm run scrape:local -- --all # Run all Playwright scrapers
+ *   npm run scrape:local -- --all # Run all local scrapers
  *   npm run scrape:local -- --stale # Run only stale scrapers (>24h old)
  */
 
 import { db } from "@/db";
-import { screenings, cinemas } from "@/db/schema";
-import { sql, desc, eq } from "drizzle-orm";
+import { screenings } from "@/db/schema";
+import { sql, inArray } from "drizzle-orm";
 import { spawn } from "child_process";
 import * as readline from "readline";
+import { getScrapersBySchedule } from "./registry";
 
 // ANSI color codes
 const colors = {
@@ -30,28 +32,12 @@ const colors = {
   cyan: "\x1b[36m",
 };
 
-// Playwright scrapers that need local execution (Cloudflare protected)
-const PLAYWRIGHT_SCRAPERS = [
-  { id: "bfi-southbank", name: "BFI Southbank", script: "scrape:bfi", priority: 1 },
-  { id: "bfi-imax", name: "BFI IMAX", script: "scrape:bfi", priority: 1 }, // Same script as BFI
-  { id: "barbican-cinema", name: "Barbican Cinema", script: "scrape:barbican", priority: 2 },
-  { id: "curzon-soho", name: "Curzon (all venues)", script: "scrape:curzon", priority: 1, isChain: true },
-  { id: "picturehouse-central", name: "Picturehouse (all venues)", script: "scrape:picturehouse", priority: 1, isChain: true },
-  { id: "everyman-screen-on-the-green", name: "Everyman (all venues)", script: "scrape:everyman", priority: 1, isChain: true },
-  { id: "electric-portobello", name: "Electric Portobello", script: "scrape:electric", priority: 3 },
-  { id: "lexi-cinema", name: "Lexi Cinema", script: "scrape:lexi", priority: 3 },
-  { id: "phoenix-cinema", name: "Phoenix Cinema", script: "scrape:phoenix", priority: 3 },
-];
-
-// Dedupe by script (chains share the same script)
-const UNIQUE_SCRIPTS = Array.from(
-  new Map(PLAYWRIGHT_SCRAPERS.map(s => [s.script, s])).values()
-).sort((a, b) => a.priority - b.priority);
+// Scrapers that need local execution (Playwright, or too slow for serverless)
+const LOCAL_SCRAPERS = getScrapersBySchedule("manual");
 
 interface ScraperStatus {
   id: string;
   name: string;
-  script: string;
   lastScreening: Date | null;
   screeningCount: number;
   hoursAgo: number | null;
@@ -61,29 +47,15 @@ interface ScraperStatus {
 async function getScraperStatus(): Promise<ScraperStatus[]> {
   const results: ScraperStatus[] = [];
 
-  for (const scraper of UNIQUE_SCRIPTS) {
-    // For chains, we check any cinema that starts with the prefix
-    let cinemaFilter: string;
-    if (scraper.isChain) {
-      const prefix = scraper.id.split("-")[0]; // "curzon", "picturehouse", "everyman"
-      cinemaFilter = `${prefix}%`;
-    } else {
-      cinemaFilter = scraper.id;
-    }
-
-    // Get latest screening and count for this cinema
+  for (const scraper of LOCAL_SCRAPERS) {
+    // Get latest screening and count across the scraper's venues
     const [stats] = await db
       .select({
         lastScreening: sql<Date>`MAX(${screenings.scrapedAt})`,
         count: sql<number>`COUNT(*)`,
       })
       .from(screenings)
-      .innerJoin(cinemas, eq(screenings.cinemaId, cinemas.id))
-      .where(
-        scraper.isChain
-          ? sql`${cinemas.id} LIKE ${cinemaFilter}`
-          : eq(cinemas.id, scraper.id)
-      );
+      .where(inArray(screenings.cinemaId, scraper.venues.map((v) => v.id)));
 
     const lastScreening = stats?.lastScreening ? new Date(stats.lastScreening) : null;
     const hoursAgo = lastScreening
@@ -93,7 +65,6 @@ async function getScraperStatus(): Promise<ScraperStatus[]> {
     results.push({
       id: scraper.id,
       name: scraper.name,
-      script: scraper.script,
       lastScreening,
       screeningCount: Number(stats?.count) || 0,
       hoursAgo,
@@ -133,11 +104,11 @@ function formatStatus(status: ScraperStatus): string {
   return `${statusIcon} ${name.padEnd(25)} ${timeColor}${timeStr.padEnd(12)}${colors.reset} ${countStr}`;
 }
 
-async function runScraper(script: string, name: string): Promise<boolean> {
+async function runScraper(id: string, name: string): Promise<boolean> {
   return new Promise((resolve) => {
     console.log(`\n${colors.cyan}━━━ Running ${name} ━━━${colors.reset}\n`);
 
-    const proc = spawn("npm", ["run", script], {
+    const proc = spawn("npm", ["run", "scrape", "--", id], {
       stdio: "inherit",
       shell: true,
     });
@@ -184,7 +155,7 @@ async function main() {
   const statuses = await getScraperStatus();
 
   // Display status
-  console.log(`${colors.bright}Playwright Scrapers (require local execution):${colors.reset}\n`);
+  console.log(`${colors.bright}Local Scrapers (not covered by the scheduled Inngest runs):${colors.reset}\n`);
   statuses.forEach((s, i) => {
     console.log(`  ${colors.dim}${i + 1}.${colors.reset} ${formatStatus(s)}`);
   });
@@ -203,7 +174,7 @@ async function main() {
 
   if (runAll) {
     toRun = statuses;
-    console.log(`\n${colors.cyan}Running all Playwright scrapers...${colors.reset}`);
+    console.log(`\n${colors.cyan}Running all local scrapers...${colors.reset}`);
   } else if (runStale) {
     toRun = statuses.filter(s => s.isStale);
     if (toRun.length === 0) {
@@ -214,7 +185,7 @@ async function main() {
   } else {
     // Interactive mode
     console.log(`\n${colors.bright}Options:${colors.reset}`);
-    console.log(`  ${colors.cyan}a${colors.reset} - Run all Playwright scrapers`);
+    console.log(`  ${colors.cyan}a${colors.reset} - Run all local scrapers`);
     console.log(`  ${colors.cyan}s${colors.reset} - Run only stale scrapers (${staleCount})`);
     console.log(`  ${colors.cyan}1-${statuses.length}${colors.reset} - Run specific scraper`);
     console.log(`  ${colors.cyan}q${colors.reset} - Quit`);
@@ -249,7 +220,7 @@ async function main() {
   const results: { name: string; success: boolean }[] = [];
 
   for (const scraper of toRun) {
-    const success = await runScraper(scraper.script, scraper.name);
+    const success = await runScraper(scraper.id, scraper.name);
     results.push({ name: scraper.name, success });
   }
 
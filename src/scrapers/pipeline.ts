@@ -24,6 +24,15 @@ import { v4 as uuidv4 } from "uuid";
 import { validateScreenings, printValidationSummary } from "./utils/screening-validator";
 import { generateScrapeDiff, printDiffReport, shouldBlockScrape } from "./utils/scrape-diff";
 import { linkFilmToMatchingSeasons } from "./seasons/season-linker";
+import { diffScreeningFields, recordScreeningChanges } from "./utils/screening-changes";
+import { markMissingScreenings } from "./utils/screening-lifecycle";
+import {
+  detectAccessibility,
+  mergeAccessibility,
+  type AccessibilityFields,
+} from "./utils/accessibility";
+import { priceColumns } from "./utils/prices";
+import { resolveAvailabilityStatus } from "@/lib/availability";
 
 // Agent imports - conditionally used when ENABLE_AGENTS=true
 const AGENTS_ENABLED = process.env.ENABLE_AGENTS === "true";
@@ -34,9 +43,25 @@ interface PipelineResult {
   updated: number;
   failed: number;
   rejected: number;  // Validation failures
+  blocked: boolean;  // Diff report looked like a broken scrape - nothing was written
+  blockReason?: string;
+  baselineCount?: number;  // Expected screenings for the coming week, if the cinema has a baseline
+  baselineWarning?: string;  // BELOW_BASELINE warning - saved anyway, but missing screenings weren't flagged
   scrapedAt: Date;
 }
 
+export interface ProcessScreeningsOptions {
+  /** scraper_runs row this scrape belongs to (recorded against screening changes) */
+  scraperRunId?: string;
+  /**
+   * The screenings are the venue's whole programme, so existing ones missing
+   * from it are flagged (see utils/screening-lifecycle.ts). Only full scrapes
+   * from runScraper set this - partial imports (BFI programme changes, manual
+   * loads) would otherwise cancel everything they don't mention.
+   */
+  trackMissing?: boolean;
+}
+
 // Film cache for efficient lookups during pipeline run
 // Maps normalizedTitle -> film record
 type FilmRecord = typeof films.$inferSelect;
@@ -109,10 +134,14 @@ function addToFilmCache(film: FilmRecord) {
  * It NEVER DELETES existing screenings. If a scraper returns fewer
  * results than before, existing screenings are preserved.
  * See CLAUDE.md for the "Never Delete Valid Screenings" rule.
+ *
+ * Screenings missing from consecutive clean full scrapes (`trackMissing`) are
+ * instead flagged possibly_cancelled / cancelled (see utils/screening-lifecycle.ts).
  */
 export async function processScreenings(
   cinemaId: string,
-  rawScreenings: RawScreening[]
+  rawScreenings: RawScreening[],
+  options: ProcessScreeningsOptions = {}
 ): Promise<PipelineResult> {
   console.log(`[Pipeline] Processing ${rawScreenings.length} screenings for ${cinemaId}`);
 
@@ -142,6 +171,9 @@ export async function processScreenings(
         updated: 0,
         failed: rawScreenings.length,
         rejected: rejectedScreenings.length,
+        blocked: true,
+        blockReason: diffReport.warnings.join("; "),
+        baselineCount: diffReport.baseline?.expected,
         scrapedAt: new Date(),
       };
     }
@@ -156,6 +188,9 @@ export async function processScreenings(
     updated: 0,
     failed: 0,
     rejected: rejectedScreenings.length,
+    blocked: false,
+    baselineCount: diffReport.baseline?.expected,
+    baselineWarning: diffReport.warnings.find((w) => w.startsWith("BELOW_BASELINE")),
     scrapedAt: new Date(),
   };
 
@@ -212,7 +247,7 @@ export async function processScreenings(
 
       // Insert screenings
       for (const screening of filmScreenings) {
-        const added = await insertScreening(filmId, cinemaId, screening);
+        const added = await insertScreening(filmId, cinemaId, screening, options.scraperRunId);
         if (added) {
           result.added++;
         } else {
@@ -225,6 +260,23 @@ export async function processScreenings(
     }
   }
 
+  // Screenings still absent after a clean run edge towards cancelled.
+  // Partial failures and scrapes well below the baseline skip this, so a
+  // broken film lookup or a half-loaded listings page can't cancel screenings.
+  if (options.trackMissing && result.failed === 0 && !result.baselineWarning) {
+    const lifecycle = await markMissingScreenings(
+      cinemaId,
+      diffReport.removed.map((s) => s.id),
+      result.scrapedAt,
+      options.scraperRunId
+    );
+    if (lifecycle.missed > 0) {
+      console.log(
+        `[Pipeline] Missing from source: ${lifecycle.missed} screenings (${lifecycle.possiblyCancelled} now possibly cancelled, ${lifecycle.cancelled} now cancelled)`
+      );
+    }
+  }
+
   // Update cinema's lastScrapedAt
   await db
     .update(cinemas)
@@ -489,6 +541,7 @@ async function getOrCreateFilm(
         matchConfidence: match.confidence ?? null,
         matchStrategy: "auto-with-year",
         matchedAt: new Date(),
+        searchVector: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
@@ -575,6 +628,7 @@ async function getOrCreateFilm(
     matchConfidence: null,
     matchStrategy: null,
     matchedAt: null,
+    searchVector: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   });
@@ -621,11 +675,16 @@ async function tryUpdatePoster(
  * Insert or update a screening
  * If scraper didn't provide event data and title looks like it needs classification,
  * use Claude to extract event type, format, and accessibility info
+ *
+ * Updates to tracked fields (time, format, availability, booking URL...) are
+ * recorded in screening_changes before being overwritten. A screening flagged
+ * as missing that turns up again is restored to scheduled.
  */
 async function insertScreening(
   filmId: string,
   cinemaId: string,
-  screening: RawScreening
+  screening: RawScreening,
+  scraperRunId?: string
 ): Promise<boolean> {
   // Determine screening metadata - use scraper-provided data or classify
   let eventType = screening.eventType as EventType | undefined;
@@ -633,12 +692,15 @@ async function insertScreening(
   let format = screening.format as ScreeningFormat | undefined;
   let isSpecialEvent = false;
   let is3D = false;
-  let hasSubtitles = false;
-  let subtitleLanguage: string | null = null;
-  let hasAudioDescription = false;
-  let isRelaxedScreening = false;
+  let subtitleLanguage = screening.subtitleLanguage ?? null;
   let season: string | null = null;
 
+  // Accessibility: scraper-provided flags, plus anything spelled out in the listing text
+  const accessibilitySources: AccessibilityFields[] = [
+    screening,
+    detectAccessibility(screening.filmTitle, screening.eventType, screening.eventDescription),
+  ];
+
   // If scraper didn't provide event data, try to classify the title
   const needsClassification =
     !screening.eventType &&
@@ -664,10 +726,8 @@ async function insertScreening(
           : classification.eventDescription ?? undefined;
       format = classification.format || format;
       is3D = classification.is3D;
-      hasSubtitles = classification.hasSubtitles;
-      subtitleLanguage = classification.subtitleLanguage;
-      hasAudioDescription = classification.hasAudioDescription;
-      isRelaxedScreening = classification.isRelaxedScreening;
+      accessibilitySources.push(classification);
+      subtitleLanguage = subtitleLanguage ?? classification.subtitleLanguage;
       season = classification.season;
     } catch (e) {
       console.warn(`[Pipeline] Event classification failed:`, e);
@@ -675,9 +735,11 @@ async function insertScreening(
     }
   }
 
+  const accessibility = mergeAccessibility(...accessibilitySources);
+
   // Check for existing screening using exact composite key
   // (Direct query is more efficient and doesn't have the .limit(100) bug)
-  const [duplicate] = await db
+  let [duplicate] = await db
     .select()
     .from(screeningsTable)
     .where(
@@ -689,29 +751,76 @@ async function insertScreening(
     )
     .limit(1);
 
+  // No exact match - if the booking system's performance ID matches an existing
+  // row, the showtime was moved rather than a new screening added
+  if (!duplicate && screening.sourceId) {
+    [duplicate] = await db
+      .select()
+      .from(screeningsTable)
+      .where(
+        and(
+          eq(screeningsTable.filmId, filmId),
+          eq(screeningsTable.cinemaId, cinemaId),
+          eq(screeningsTable.sourceId, screening.sourceId)
+        )
+      )
+      .limit(1);
+
+    if (duplicate) {
+      console.log(
+        `[Pipeline] Rescheduled: "${screening.filmTitle}" ${duplicate.datetime.toISOString()} → ${screening.datetime.toISOString()}`
+      );
+    }
+  }
+
   if (duplicate) {
+    // Seen again - restore anything flagged as missing unless an admin pinned it
+    const status = duplicate.statusOverridden ? undefined : "scheduled";
+    // Seats back on a sold-out screening are returns, as in the availability checker
+    const availabilityStatus =
+      screening.availabilityStatus &&
+      resolveAvailabilityStatus(duplicate.availabilityStatus, screening.availabilityStatus);
+
+    // Record what this re-scrape changes before overwriting it
+    const changes = diffScreeningFields(duplicate, {
+      status,
+      datetime: screening.datetime,
+      screen: screening.screen,
+      format,
+      eventType,
+      bookingUrl: screening.bookingUrl,
+      availabilityStatus,
+    });
+    await recordScreeningChanges(duplicate.id, cinemaId, changes, scraperRunId);
+
     // Update existing
     const now = new Date();
     await db
       .update(screeningsTable)
       .set({
+        datetime: screening.datetime,
         format,
         screen: screening.screen,
         isSpecialEvent,
         eventType,
         eventDescription,
         is3D,
-        hasSubtitles,
+        ...accessibility,
         subtitleLanguage,
-        hasAudioDescription,
-        isRelaxedScreening,
         season,
         bookingUrl: screening.bookingUrl,
+        // Keep known prices when a scrape doesn't include them
+        ...(screening.price && priceColumns(screening.price)),
         // Update availability if provided by scraper
-        ...(screening.availabilityStatus && {
-          availabilityStatus: screening.availabilityStatus,
+        ...(availabilityStatus && {
+          availabilityStatus,
           availabilityCheckedAt: now,
         }),
+        ...(status && {
+          status,
+          missedScrapeCount: 0,
+          ...(duplicate.status !== status && { statusChangedAt: now }),
+        }),
         scrapedAt: now,
         updatedAt: now,
       })
@@ -733,10 +842,8 @@ async function insertScreening(
     eventType,
     eventDescription,
     is3D,
-    hasSubtitles,
+    ...accessibility,
     subtitleLanguage,
-    hasAudioDescription,
-    isRelaxedScreening,
     season,
     bookingUrl: screening.bookingUrl,
     sourceId: screening.sourceId,
@@ -746,6 +853,7 @@ async function insertScreening(
     // Availability status from scraper
     availabilityStatus: screening.availabilityStatus ?? null,
     availabilityCheckedAt: screening.availabilityStatus ? now : null,
+    ...priceColumns(screening.price),
   });
 
   // Handle festival linking
@@ -999,7 +1107,8 @@ export async function ensureCinemaExists(cinema: CinemaInput): Promise<void> {
  */
 export async function saveScreenings(
   cinemaId: string,
-  rawScreenings: RawScreening[]
+  rawScreenings: RawScreening[],
+  options: ProcessScreeningsOptions = {}
 ): Promise<PipelineResult> {
-  return processScreenings(cinemaId, rawScreenings);
+  return processScreenings(cinemaId, rawScreenings, options);
 }
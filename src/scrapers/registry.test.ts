@@ -0,0 +1,94 @@
+/**
+ * Scraper Registry Consistency Tests
+ *
+ * Catches drift between the registry, the package scripts and the cinemas
+ * table. The database check runs when DATABASE_URL is set.
+ */
+
+import { describe, it, expect } from "vitest";
+import { and, eq, isNull, ne, or } from "drizzle-orm";
+import { db, isDatabaseAvailable } from "@/db";
+import { cinemas } from "@/db/schema";
+import packageJson from "../../package.json";
+import {
+  SCRAPER_REGISTRY,
+  getRegisteredVenues,
+  getScraper,
+  getScraperForCinema,
+  getScrapersBySchedule,
+  resolveCinemaId,
+} from "./registry";
+
+describe("scraper registry", () => {
+  it("has unique scraper and venue IDs", () => {
+    const scraperIds = SCRAPER_REGISTRY.map((s) => s.id);
+    const venueIds = getRegisteredVenues().map((v) => v.id);
+
+    expect(new Set(scraperIds).size).toBe(scraperIds.length);
+    expect(new Set(venueIds).size).toBe(venueIds.length);
+  });
+
+  it("maps every alias to a registered venue that doesn't reuse the alias", () => {
+    const venueIds = new Set(getRegisteredVenues().map((v) => v.id));
+
+    for (const scraper of SCRAPER_REGISTRY) {
+      for (const [alias, venueId] of Object.entries(scraper.aliases ?? {})) {
+        expect(venueIds.has(alias), alias).toBe(false);
+        expect(scraper.venues.map((v) => v.id), alias).toContain(venueId);
+      }
+    }
+  });
+
+  it("builds runner configs for the registered venues", async () => {
+    for (const scraper of SCRAPER_REGISTRY) {
+      const config = await scraper.createConfig();
+      const configured = config.type === "single" ? [config.venue] : config.venues;
+
+      expect(configured.map((v) => v.id), scraper.id).toEqual(scraper.venues.map((v) => v.id));
+    }
+  });
+
+  it("only schedules scrapers that can run without a browser", () => {
+    for (const scraper of getScrapersBySchedule("scheduled")) {
+      expect(scraper.tier, scraper.id).toBe("http");
+    }
+  });
+
+  it("resolves cinemas by current and superseded IDs", () => {
+    expect(getScraperForCinema("rio-dalston")?.id).toBe("rio");
+    expect(getScraperForCinema("nickel")?.id).toBe("nickel");
+    expect(resolveCinemaId("nickel")).toBe("the-nickel");
+    expect(getScraperForCinema("hackney-picturehouse")?.id).toBe("picturehouse");
+    expect(resolveCinemaId("hackney-picturehouse")).toBe("picturehouse-hackney");
+    expect(getScraperForCinema("nowhere")).toBeUndefined();
+  });
+
+  it("registers every scraper the package scripts run", () => {
+    const scripts: Record<string, string> = packageJson.scripts;
+    const cliIds = Object.values(scripts)
+      .map((command) => command.match(/src\/scrapers\/cli\.ts ([a-z0-9-]+)/)?.[1])
+      .filter((id): id is string => Boolean(id));
+
+    expect(cliIds.length).toBeGreaterThan(0);
+    for (const id of cliIds) {
+      expect(getScraper(id), id).toBeDefined();
+    }
+  });
+});
+
+describe.skipIf(!isDatabaseAvailable)("scraper registry against the database", () => {
+  it("has a scraper for every active scraped cinema", async () => {
+    const rows = await db
+      .select({ id: cinemas.id })
+      .from(cinemas)
+      .where(
+        and(
+          eq(cinemas.isActive, true),
+          or(isNull(cinemas.dataSourceType), ne(cinemas.dataSourceType, "manual"))
+        )
+      );
+
+    const unscraped = rows.map((r) => r.id).filter((id) => !getScraperForCinema(id));
+    expect(unscraped).toEqual([]);
+  });
+});
@@ -0,0 +1,565 @@
+/**
+ * Scraper Registry
+ *
+ * The single list of scrapers and the venues they write to. The scraper CLI,
+ * the admin re-scrape endpoints, the Inngest functions, the local runner and
+ * the cinema seed are all generated from it - adding a scraper is an entry
+ * here (plus an `npm run scrape:<id>` alias if wanted).
+ *
+ * Venue IDs are the cinema IDs the scrapers write. IDs used by older code
+ * paths are kept as aliases so existing rows and links still resolve.
+ */
+
+import type {
+  ChainConfig,
+  MultiVenueConfig,
+  RunnerOptions,
+  ScraperRunnerConfig,
+  SingleVenueConfig,
+  VenueDefinition,
+} from "./runner-factory";
+import type { CinemaScraper, ChainScraper, VenueConfig } from "./types";
+import { BOOKING_SYSTEM_VENUES } from "./booking-systems/venues";
+import type { BookingSystemVenue } from "./booking-systems/types";
+import { CURZON_VENUES, createCurzonScraper } from "./chains/curzon";
+import { PICTUREHOUSE_VENUES, createPicturehouseScraper } from "./chains/picturehouse";
+import { EVERYMAN_VENUES, createEverymanScraper } from "./chains/everyman";
+import { ODEON_VENUES, createOdeonScraper } from "./chains/odeon";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a scraper needs to run
+ * - http: fetch/Cheerio/JSON APIs only - runs anywhere, including Vercel
+ * - browser: needs Playwright - local machine or GitHub Actions only
+ */
+export type ScraperTier = "http" | "browser";
+
+/**
+ * When a scraper runs unattended
+ * - scheduled: scraped by the hourly Inngest dispatcher when the venue is due
+ *   (see lib/scrape-schedule.ts)
+ * - manual: CLI, GitHub Actions or the admin re-scrape button only
+ */
+export type ScraperSchedule = "scheduled" | "manual";
+
+export interface ScraperRegistration {
+  /** CLI ID - `npm run scrape <id>` */
+  id: string;
+  name: string;
+  type: "independent" | "chain";
+  tier: ScraperTier;
+  schedule: ScraperSchedule;
+  /** Every venue the scraper writes screenings for */
+  venues: VenueDefinition[];
+  /** Superseded cinema IDs mapped to the venue ID that replaced them */
+  aliases?: Record<string, string>;
+  /** Runner options this scraper needs, applied wherever it is run */
+  runnerOptions?: RunnerOptions;
+  /** Lazily load the scraper and build its runner config */
+  createConfig: () => Promise<ScraperRunnerConfig>;
+}
+
+interface IndependentOptions {
+  id: string;
+  tier: ScraperTier;
+  schedule: ScraperSchedule;
+  venue: VenueDefinition;
+  aliases?: Record<string, string>;
+  runnerOptions?: RunnerOptions;
+  /** Import the scraper module and return its factory */
+  load: () => Promise<() => CinemaScraper>;
+}
+
+interface ChainOptions {
+  id: string;
+  chainName: string;
+  tier: ScraperTier;
+  schedule: ScraperSchedule;
+  venues: VenueConfig[];
+  website: (venue: VenueConfig) => string;
+  aliases?: Record<string, string>;
+  createScraper: () => ChainScraper;
+}
+
+// ============================================================================
+// Entry Builders
+// ============================================================================
+
+function independent(options: IndependentOptions): ScraperRegistration {
+  return {
+    id: options.id,
+    name: options.venue.name,
+    type: "independent",
+    tier: options.tier,
+    schedule: options.schedule,
+    venues: [options.venue],
+    aliases: options.aliases,
+    runnerOptions: options.runnerOptions,
+    createConfig: async () => {
+      const createScraper = await options.load();
+      return {
+        type: "single",
+        venue: options.venue,
+        createScraper,
+      } satisfies SingleVenueConfig;
+    },
+  };
+}
+
+/**
+ * Chains register their active venues - inactive ones are not scraped
+ */
+function chain(options: ChainOptions): ScraperRegistration {
+  const venues: VenueDefinition[] = options.venues
+    .filter((v) => v.active !== false)
+    .map((v) => ({
+      id: v.id,
+      name: v.name,
+      shortName: v.shortName,
+      chain: options.chainName,
+      website: options.website(v),
+      address: { street: v.address, area: v.area, postcode: v.postcode },
+      features: v.features ?? [],
+    }));
+
+  return {
+    id: options.id,
+    name: options.chainName,
+    type: "chain",
+    tier: options.tier,
+    schedule: options.schedule,
+    venues,
+    aliases: options.aliases,
+    createConfig: async () =>
+      ({
+        type: "chain",
+        chainName: options.chainName,
+        venues,
+        createScraper: options.createScraper,
+      }) satisfies ChainConfig,
+  };
+}
+
+/**
+ * Venues on the shared booking system engines (see booking-systems/venues.ts)
+ */
+function bookingSystem(entry: BookingSystemVenue): ScraperRegistration {
+  return independent({
+    id: entry.scraperId,
+    tier: "http",
+    schedule: "scheduled",
+    venue: entry.venue,
+    load: async () => {
+      const { createBookingSystemScraper } = await import("./booking-systems");
+      return () => createBookingSystemScraper(entry.scraper);
+    },
+  });
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const BFI_VENUES: VenueDefinition[] = [
+  {
+    id: "bfi-southbank",
+    name: "BFI Southbank",
+    shortName: "BFI",
+    chain: "BFI",
+    website: "https://whatson.bfi.org.uk/Online",
+    address: { street: "Belvedere Road", area: "South Bank", postcode: "SE1 8XT" },
+    features: ["repertory", "35mm", "70mm", "bar", "cafe", "archive"],
+  },
+  {
+    id: "bfi-imax",
+    name: "BFI IMAX",
+    shortName: "IMAX",
+    chain: "BFI",
+    website: "https://whatson.bfi.org.uk/imax/Online",
+    address: { street: "1 Charlie Chaplin Walk", area: "Waterloo", postcode: "SE1 8XR" },
+    features: ["imax", "3d", "dolby-atmos"],
+  },
+];
+
+export const SCRAPER_REGISTRY: ScraperRegistration[] = [
+  // ==========================================================================
+  // Independent cinemas
+  // ==========================================================================
+  {
+    id: "bfi",
+    name: "BFI Southbank & IMAX",
+    type: "independent",
+    tier: "browser",
+    schedule: "manual",
+    venues: BFI_VENUES,
+    createConfig: async () => {
+      const { createBFIScraper } = await import("./cinemas/bfi");
+      return {
+        type: "multi",
+        venues: BFI_VENUES,
+        createScraper: (venueId) => createBFIScraper(venueId as "bfi-southbank" | "bfi-imax"),
+      } satisfies MultiVenueConfig;
+    },
+  },
+  independent({
+    id: "pcc",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "prince-charles",
+      name: "Prince Charles Cinema",
+      shortName: "PCC",
+      website: "https://princecharlescinema.com",
+      address: { street: "7 Leicester Place", area: "Leicester Square", postcode: "WC2H 7BY" },
+      features: ["independent", "repertory", "sing-along", "marathons", "35mm", "70mm"],
+    },
+    load: async () => (await import("./cinemas/prince-charles")).createPrinceCharlesScraper,
+  }),
+  independent({
+    id: "ica",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "ica",
+      name: "Institute of Contemporary Arts",
+      shortName: "ICA",
+      website: "https://www.ica.art",
+      address: { street: "The Mall", area: "St James's", postcode: "SW1Y 5AH" },
+      features: ["independent", "repertory", "art-house", "gallery"],
+    },
+    load: async () => (await import("./cinemas/ica")).createICAScraper,
+  }),
+  independent({
+    id: "barbican",
+    tier: "http",
+    schedule: "manual",
+    venue: {
+      id: "barbican",
+      name: "Barbican Cinema",
+      shortName: "Barbican",
+      website: "https://www.barbican.org.uk",
+      address: { street: "Silk Street", area: "City of London", postcode: "EC2Y 8DS" },
+      features: ["arts-centre", "repertory", "world-cinema", "accessible"],
+    },
+    load: async () => (await import("./cinemas/barbican")).createBarbicanScraper,
+  }),
+  independent({
+    id: "genesis",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "genesis",
+      name: "Genesis Cinema",
+      shortName: "Genesis",
+      website: "https://genesiscinema.co.uk",
+      address: { street: "93-95 Mile End Road", area: "Mile End", postcode: "E1 4NS" },
+      features: ["independent", "bar", "cafe", "35mm", "repertory"],
+    },
+    aliases: { "genesis-mile-end": "genesis" },
+    runnerOptions: { useValidation: false },
+    load: async () => (await import("./cinemas/genesis")).createGenesisScraper,
+  }),
+  independent({
+    id: "peckhamplex",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "peckhamplex",
+      name: "Peckhamplex",
+      shortName: "Plex",
+      website: "https://peckhamplex.london",
+      address: { street: "95A Rye Lane", area: "Peckham", postcode: "SE15 4ST" },
+      features: ["independent", "affordable", "community"],
+    },
+    load: async () => (await import("./cinemas/peckhamplex")).createPeckhamplexScraper,
+  }),
+  independent({
+    id: "nickel",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "the-nickel",
+      name: "The Nickel",
+      shortName: "The Nickel",
+      website: "https://thenickel.co.uk",
+      address: { street: "117-119 Clerkenwell Road", area: "Clerkenwell", postcode: "EC1R 5BY" },
+      features: ["independent", "cult", "grindhouse", "16mm", "vhs", "bar", "repertory"],
+    },
+    aliases: { nickel: "the-nickel" },
+    load: async () => (await import("./cinemas/nickel-v2")).createNickelScraperV2,
+  }),
+  independent({
+    id: "electric",
+    tier: "http",
+    schedule: "manual",
+    venue: {
+      id: "electric-portobello",
+      name: "Electric Cinema Portobello",
+      shortName: "Electric",
+      website: "https://www.electriccinema.co.uk",
+      address: { street: "191 Portobello Road", area: "Notting Hill", postcode: "W11 2ED" },
+      features: ["independent", "luxury", "historic", "bar"],
+    },
+    load: async () => (await import("./cinemas/electric-v2")).createElectricScraperV2,
+  }),
+  independent({
+    id: "garden",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "garden",
+      name: "Garden Cinema",
+      shortName: "Garden",
+      website: "https://thegardencinema.co.uk",
+      address: { street: "39-41 Parker Street", area: "Covent Garden", postcode: "WC2B 5PQ" },
+      features: ["independent", "art-house", "bar", "luxury"],
+    },
+    aliases: { "garden-cinema": "garden" },
+    load: async () => (await import("./cinemas/garden")).createGardenCinemaScraper,
+  }),
+  independent({
+    id: "close-up",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "close-up",
+      name: "Close-Up Film Centre",
+      shortName: "Close-Up",
+      website: "https://www.closeupfilmcentre.com",
+      address: { street: "97 Sclater Street", area: "Shoreditch", postcode: "E1 6HR" },
+      features: ["independent", "art-house", "cafe", "community"],
+    },
+    aliases: { "close-up-cinema": "close-up" },
+    load: async () => (await import("./cinemas/close-up")).createCloseUpCinemaScraper,
+  }),
+  independent({
+    id: "castle",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "castle",
+      name: "Castle Cinema",
+      shortName: "Castle",
+      website: "https://thecastlecinema.com",
+      address: { street: "64-66 Brooksby's Walk", area: "Hackney", postcode: "E9 6DA" },
+      features: ["independent", "community", "cafe-bar"],
+    },
+    load: async () => (await import("./cinemas/castle")).createCastleScraper,
+  }),
+  independent({
+    id: "castle-sidcup",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "castle-sidcup",
+      name: "Castle Sidcup",
+      shortName: "Castle Sidcup",
+      website: "https://castlesidcup.com",
+      address: { street: "88 Main Road", area: "Sidcup", postcode: "DA14 6NG" },
+      features: ["independent", "community"],
+    },
+    load: async () => (await import("./cinemas/castle-sidcup")).createCastleSidcupScraper,
+  }),
+  independent({
+    id: "phoenix",
+    tier: "browser",
+    schedule: "manual",
+    venue: {
+      id: "phoenix",
+      name: "Phoenix Cinema",
+      shortName: "Phoenix",
+      website: "https://phoenixcinema.co.uk",
+      address: { street: "52 High Road", area: "East Finchley", postcode: "N2 9PJ" },
+      features: ["independent", "historic", "repertory", "art-deco"],
+    },
+    aliases: { "phoenix-east-finchley": "phoenix" },
+    load: async () => (await import("./cinemas/phoenix")).createPhoenixScraper,
+  }),
+  independent({
+    id: "regent-street",
+    tier: "browser",
+    schedule: "manual",
+    venue: {
+      id: "regent-street",
+      name: "Regent Street Cinema",
+      shortName: "Regent Street",
+      website: "https://www.regentstreetcinema.com",
+      address: { street: "309 Regent Street", area: "West End", postcode: "W1B 2HW" },
+      features: ["independent", "historic", "university"],
+    },
+    load: async () => (await import("./cinemas/regent-street")).createRegentStreetScraper,
+  }),
+  independent({
+    id: "riverside",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "riverside",
+      name: "Riverside Studios",
+      shortName: "Riverside",
+      website: "https://riversidestudios.co.uk",
+      address: { street: "101 Queen Caroline Street", area: "Hammersmith", postcode: "W6 9BN" },
+      features: ["independent", "arts-centre", "riverside"],
+    },
+    aliases: { "riverside-studios": "riverside" },
+    load: async () => (await import("./cinemas/riverside-studios")).createRiversideStudiosScraper,
+  }),
+  independent({
+    id: "olympic",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "olympic",
+      name: "Olympic Cinema",
+      shortName: "Olympic",
+      website: "https://www.olympiccinema.com",
+      address: { street: "117-123 Church Road", area: "Barnes", postcode: "SW13 9HL" },
+      features: ["independent", "historic", "studio-heritage"],
+    },
+    aliases: { "olympic-studios": "olympic" },
+    load: async () => (await import("./cinemas/olympic")).createOlympicScraper,
+  }),
+  independent({
+    id: "david-lean",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "david-lean",
+      name: "David Lean Cinema",
+      shortName: "David Lean",
+      website: "https://www.davidleancinema.org.uk",
+      address: { street: "The Clocktower, Croydon Airport", area: "Croydon", postcode: "CR0 0XZ" },
+      features: ["independent", "community", "volunteer-run"],
+    },
+    aliases: { "david-lean-cinema": "david-lean" },
+    load: async () => (await import("./cinemas/david-lean")).createDavidLeanScraper,
+  }),
+  independent({
+    id: "coldharbour-blue",
+    tier: "http",
+    schedule: "scheduled",
+    venue: {
+      id: "coldharbour-blue",
+      name: "Coldharbour Blue",
+      shortName: "Coldharbour",
+      website: "https://www.coldharbourblue.com",
+      address: { street: "259-260 Hardess Street", area: "Loughborough Junction", postcode: "SE24 0HN" },
+      features: ["bar", "accessible", "community", "repertory"],
+    },
+    load: async () => (await import("./cinemas/coldharbour-blue")).createColdharbourBlueScraper,
+  }),
+  independent({
+    id: "romford-lumiere",
+    tier: "browser",
+    schedule: "manual",
+    venue: {
+      id: "romford-lumiere",
+      name: "Lumiere Romford",
+      shortName: "Lumiere",
+      website: "https://www.lumiereromford.com",
+      address: { street: "Mercury Gardens", area: "Romford", postcode: "RM1 3EE" },
+      features: ["community", "bar", "accessible"],
+    },
+    load: async () => (await import("./cinemas/romford-lumiere")).createRomfordLumiereScraper,
+  }),
+  // Savoy, Spektrix and Veezi venues
+  ...BOOKING_SYSTEM_VENUES.map(bookingSystem),
+
+  // ==========================================================================
+  // Chains
+  // ==========================================================================
+  chain({
+    id: "curzon",
+    chainName: "Curzon",
+    tier: "browser",
+    schedule: "manual",
+    venues: CURZON_VENUES,
+    website: (v) => `https://www.curzon.com/venues/${v.slug}/`,
+    createScraper: createCurzonScraper,
+  }),
+  chain({
+    id: "picturehouse",
+    chainName: "Picturehouse",
+    tier: "http",
+    schedule: "scheduled",
+    venues: PICTUREHOUSE_VENUES,
+    website: (v) => `https://www.picturehouses.com/cinema/${v.slug}`,
+    aliases: {
+      "hackney-picturehouse": "picturehouse-hackney",
+      "crouch-end-picturehouse": "picturehouse-crouch-end",
+      "east-dulwich-picturehouse": "picturehouse-east-dulwich",
+      "greenwich-picturehouse": "picturehouse-greenwich",
+      "finsbury-park-picturehouse": "picturehouse-finsbury-park",
+      "clapham-picturehouse": "picturehouse-clapham",
+      "gate-picturehouse": "gate-notting-hill",
+      "picturehouse-ritzy": "ritzy-brixton",
+    },
+    createScraper: createPicturehouseScraper,
+  }),
+  chain({
+    id: "everyman",
+    chainName: "Everyman",
+    tier: "http",
+    schedule: "scheduled",
+    venues: EVERYMAN_VENUES,
+    website: (v) => `https://www.everymancinema.com/venues/${v.slug}`,
+    aliases: { "everyman-screen-on-the-green": "screen-on-the-green" },
+    createScraper: createEverymanScraper,
+  }),
+  chain({
+    id: "odeon",
+    chainName: "ODEON",
+    tier: "browser",
+    schedule: "manual",
+    venues: ODEON_VENUES,
+    website: (v) => `https://www.odeon.co.uk/cinemas/${v.slug}/`,
+    createScraper: createOdeonScraper,
+  }),
+];
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+const BY_VENUE = new Map<string, ScraperRegistration>();
+const ALIASES = new Map<string, string>();
+for (const registration of SCRAPER_REGISTRY) {
+  for (const venue of registration.venues) {
+    BY_VENUE.set(venue.id, registration);
+  }
+  for (const [alias, venueId] of Object.entries(registration.aliases ?? {})) {
+    ALIASES.set(alias, venueId);
+  }
+}
+
+export function getScraper(id: string): ScraperRegistration | undefined {
+  return SCRAPER_REGISTRY.find((s) => s.id === id);
+}
+
+/**
+ * Map a cinema ID (current or superseded) to the venue ID scrapers write
+ */
+export function resolveCinemaId(cinemaId: string): string {
+  return ALIASES.get(cinemaId) ?? cinemaId;
+}
+
+/**
+ * Find the scraper that covers a cinema, accepting superseded IDs
+ */
+export function getScraperForCinema(cinemaId: string): ScraperRegistration | undefined {
+  return BY_VENUE.get(resolveCinemaId(cinemaId));
+}
+
+/**
+ * Every registered venue, each with the ID of the scraper that covers it
+ */
+export function getRegisteredVenues(): (VenueDefinition & { scraperId: string })[] {
+  return SCRAPER_REGISTRY.flatMap((s) => s.venues.map((v) => ({ ...v, scraperId: s.id })));
+}
+
+export function getScrapersBySchedule(schedule: ScraperSchedule): ScraperRegistration[] {
+  return SCRAPER_REGISTRY.filter((s) => s.schedule === schedule);
+}
@@ -0,0 +1,54 @@
+/**
+ * Availability Check Runner
+ *
+ * Runs the availability checker from a local machine. Browser-tier chains
+ * (Curzon) can only be checked this way - Inngest checks the HTTP ones.
+ *
+ * Usage:
+ *   npm run scrape:availability            # Every chain with a checker
+ *   npm run scrape:availability curzon     # One chain
+ */
+
+import { checkAvailability, getAvailabilityVenues } from "./availability";
+
+async function main() {
+  const only = process.argv.slice(2);
+  const venues = getAvailabilityVenues().filter(
+    (v) => only.length === 0 || only.includes(v.scraperId)
+  );
+
+  const byScraper = new Map<string, string[]>();
+  for (const venue of venues) {
+    byScraper.set(venue.scraperId, [...(byScraper.get(venue.scraperId) ?? []), venue.cinemaId]);
+  }
+
+  if (byScraper.size === 0) {
+    console.error(`No availability checker for: ${only.join(", ")}`);
+    process.exit(1);
+  }
+
+  let failed = false;
+  for (const [scraperId, cinemaIds] of byScraper) {
+    console.log(`\n[Availability] Checking ${scraperId} (${cinemaIds.length} venues)...`);
+    try {
+      const results = await checkAvailability(scraperId, cinemaIds);
+      for (const result of results) {
+        for (const change of result.changes) {
+          console.log(
+            `  ${result.cinemaId} ${change.datetime.toISOString()}: ${change.from ?? "unknown"} → ${change.to}${change.transition ? ` (${change.transition})` : ""}`
+          );
+        }
+      }
+      const checked = results.reduce((sum, r) => sum + r.checked, 0);
+      const changed = results.reduce((sum, r) => sum + r.changes.length, 0);
+      console.log(`[Availability] ${scraperId}: ${checked} screenings checked, ${changed} changed`);
+    } catch (error) {
+      failed = true;
+      console.error(`[Availability] ${scraperId} failed:`, error);
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
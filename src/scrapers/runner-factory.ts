@@ -6,10 +6,12 @@
  * - Retry-then-continue error handling
  * - Support for single-venue, multi-venue, and chain scrapers
  * - Consistent health checks and pipeline processing
+ * - One scraper_runs row per venue per run (see utils/scraper-runs.ts)
  */
 
 import type { CinemaScraper, RawScreening, ChainScraper, VenueConfig } from "./types";
 import { processScreenings, saveScreenings, ensureCinemaExists } from "./pipeline";
+import { startScraperRun, completeScraperRun } from "./utils/scraper-runs";
 
 // ============================================================================
 // Types
@@ -77,9 +79,15 @@ export interface VenueResult {
   screeningsAdded: number;
   screeningsUpdated: number;
   screeningsFailed: number;
+  /** Rejected by validation before reaching the database */
+  screeningsRejected: number;
+  /** Pipeline refused to write because the scrape looked broken */
+  blocked: boolean;
   durationMs: number;
   error?: string;
   retryCount: number;
+  /** scraper_runs row for this venue (undefined if it couldn't be written) */
+  scraperRunId?: string;
 }
 
 export interface RunnerResult {
@@ -133,6 +141,62 @@ function log(entry: Omit<LogEntry, "timestamp">): void {
 // Core Runner
 // ============================================================================
 
+interface ProcessedCounts {
+  added: number;
+  updated: number;
+  failed: number;
+  rejected: number;
+  blocked: boolean;
+  blockReason?: string;
+  baselineCount?: number;
+  baselineWarning?: string;
+}
+
+/**
+ * Run scraped screenings through the pipeline for one venue
+ */
+async function processVenueScreenings(
+  venueId: string,
+  screenings: RawScreening[],
+  options: Required<RunnerOptions>,
+  scraperRunId?: string
+): Promise<ProcessedCounts> {
+  const counts: ProcessedCounts = { added: 0, updated: 0, failed: 0, rejected: 0, blocked: false };
+  if (screenings.length === 0) return counts;
+
+  // A runner scrape is the venue's whole programme, so missing screenings count
+  const pipelineOptions = { scraperRunId, trackMissing: true };
+
+  if (options.useValidation) {
+    const result = await processScreenings(venueId, screenings, pipelineOptions);
+    counts.added = result.added;
+    counts.updated = result.updated;
+    counts.failed = result.failed;
+    counts.rejected = result.rejected;
+    counts.blocked = result.blocked;
+    counts.blockReason = result.blockReason;
+    counts.baselineCount = result.baselineCount;
+    counts.baselineWarning = result.baselineWarning;
+  } else {
+    const result = await saveScreenings(venueId, screenings, pipelineOptions);
+    counts.added = screenings.length;
+    counts.blocked = result.blocked;
+    counts.blockReason = result.blockReason;
+    counts.baselineCount = result.baselineCount;
+    counts.baselineWarning = result.baselineWarning;
+  }
+
+  if (counts.blocked) {
+    log({
+      level: "warn",
+      event: "venue_blocked",
+      data: { venueId, reason: counts.blockReason },
+    });
+  }
+
+  return counts;
+}
+
 async function runSingleVenue(
   venue: VenueDefinition,
   scraper: CinemaScraper,
@@ -141,6 +205,8 @@ async function runSingleVenue(
   const startTime = Date.now();
   let retryCount = 0;
   let lastError: Error | null = null;
+  const attemptErrors: string[] = [];
+  const scraperRunId = await startScraperRun(venue.id, new Date(startTime));
 
   while (retryCount <= options.retryAttempts) {
     try {
@@ -166,22 +232,26 @@ async function runSingleVenue(
       });
 
       // Process/save
-      let added = 0, updated = 0, failed = 0;
-
-      if (screenings.length > 0) {
-        if (options.useValidation) {
-          const result = await processScreenings(venue.id, screenings);
-          added = result.added;
-          updated = result.updated;
-          failed = result.failed;
-        } else {
-          await saveScreenings(venue.id, screenings);
-          added = screenings.length;
-        }
-      }
+      const { added, updated, failed, rejected, blocked, blockReason, baselineCount, baselineWarning } =
+        await processVenueScreenings(venue.id, screenings, options, scraperRunId);
 
       const durationMs = Date.now() - startTime;
 
+      await completeScraperRun(scraperRunId, {
+        screeningsFound: screenings.length,
+        added,
+        updated,
+        failed,
+        rejected,
+        blocked,
+        blockReason,
+        baselineCount,
+        baselineWarning,
+        retryCount,
+        attemptErrors,
+        durationMs,
+      });
+
       log({
         level: "info",
         event: "venue_completed",
@@ -191,6 +261,7 @@ async function runSingleVenue(
           added,
           updated,
           failed,
+          rejected,
           durationMs,
           retryCount,
         },
@@ -204,11 +275,15 @@ async function runSingleVenue(
         screeningsAdded: added,
         screeningsUpdated: updated,
         screeningsFailed: failed,
+        screeningsRejected: rejected,
+        blocked,
         durationMs,
         retryCount,
+        scraperRunId,
       };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+      attemptErrors.push(lastError.message);
       retryCount++;
 
       if (retryCount <= options.retryAttempts) {
@@ -242,6 +317,21 @@ async function runSingleVenue(
     },
   });
 
+  const errorMessage = lastError?.message ?? "Unknown error";
+
+  await completeScraperRun(scraperRunId, {
+    screeningsFound: 0,
+    added: 0,
+    updated: 0,
+    failed: 0,
+    rejected: 0,
+    blocked: false,
+    error: errorMessage,
+    retryCount: retryCount - 1,
+    attemptErrors,
+    durationMs,
+  });
+
   return {
     venueId: venue.id,
     venueName: venue.name,
@@ -250,9 +340,12 @@ async function runSingleVenue(
     screeningsAdded: 0,
     screeningsUpdated: 0,
     screeningsFailed: 0,
+    screeningsRejected: 0,
+    blocked: false,
     durationMs,
-    error: lastError?.message,
+    error: errorMessage,
     retryCount: retryCount - 1,
+    scraperRunId,
   };
 }
 
@@ -357,6 +450,12 @@ export async function runScraper(
       const chainScraper = config.createScraper();
       const startTime = Date.now();
 
+      // One run row per venue, opened before the shared scrape
+      const runIds = new Map<string, string | undefined>();
+      for (const venue of venuesToScrape) {
+        runIds.set(venue.id, await startScraperRun(venue.id, new Date(startTime)));
+      }
+
       try {
         const results = await chainScraper.scrapeVenues(activeVenueIds);
 
@@ -365,19 +464,26 @@ export async function runScraper(
           const venue = venuesToScrape.find((v) => v.id === venueId);
           if (!venue) continue;
 
-          let added = 0, updated = 0, failed = 0;
+          const scraperRunId = runIds.get(venueId);
+          const { added, updated, failed, rejected, blocked, blockReason, baselineCount, baselineWarning } =
+            await processVenueScreenings(venueId, screenings, options, scraperRunId);
+          const durationMs = Date.now() - startTime;
 
-          if (screenings.length > 0) {
-            if (options.useValidation) {
-              const pipelineResult = await processScreenings(venueId, screenings);
-              added = pipelineResult.added;
-              updated = pipelineResult.updated;
-              failed = pipelineResult.failed;
-            } else {
-              await saveScreenings(venueId, screenings);
-              added = screenings.length;
-            }
-          }
+          await completeScraperRun(scraperRunId, {
+            screeningsFound: screenings.length,
+            added,
+            updated,
+            failed,
+            rejected,
+            blocked,
+            blockReason,
+            baselineCount,
+            baselineWarning,
+            retryCount: 0,
+            attemptErrors: [],
+            durationMs,
+          });
+          runIds.delete(venueId);
 
           venueResults.push({
             venueId,
@@ -387,8 +493,26 @@ export async function runScraper(
             screeningsAdded: added,
             screeningsUpdated: updated,
             screeningsFailed: failed,
-            durationMs: Date.now() - startTime,
+            screeningsRejected: rejected,
+            blocked,
+            durationMs,
             retryCount: 0,
+            scraperRunId,
+          });
+        }
+
+        // Venues the chain scraper returned nothing for
+        for (const scraperRunId of runIds.values()) {
+          await completeScraperRun(scraperRunId, {
+            screeningsFound: 0,
+            added: 0,
+            updated: 0,
+            failed: 0,
+            rejected: 0,
+            blocked: false,
+            retryCount: 0,
+            attemptErrors: [],
+            durationMs: Date.now() - startTime,
           });
         }
       } catch (error) {
@@ -399,8 +523,25 @@ export async function runScraper(
           data: { chain: config.chainName, error: errorMessage },
         });
 
-        // Mark all venues as failed
+        // Mark venues not yet processed as failed (processed venues keep their result)
         for (const venue of venuesToScrape) {
+          if (!runIds.has(venue.id)) continue;
+          const scraperRunId = runIds.get(venue.id);
+          const durationMs = Date.now() - startTime;
+
+          await completeScraperRun(scraperRunId, {
+            screeningsFound: 0,
+            added: 0,
+            updated: 0,
+            failed: 0,
+            rejected: 0,
+            blocked: false,
+            error: errorMessage,
+            retryCount: 0,
+            attemptErrors: [errorMessage],
+            durationMs,
+          });
+
           venueResults.push({
             venueId: venue.id,
             venueName: venue.name,
@@ -409,9 +550,12 @@ export async function runScraper(
             screeningsAdded: 0,
             screeningsUpdated: 0,
             screeningsFailed: 0,
-            durationMs: Date.now() - startTime,
+            screeningsRejected: 0,
+            blocked: false,
+            durationMs,
             error: errorMessage,
             retryCount: 0,
+            scraperRunId,
           });
         }
       }
@@ -3,6 +3,8 @@
  * Core types for cinema scrapers with support for chains and multi-venue setups
  */
 
+import type { TicketPrices } from "@/types/screening";
+
 // ============================================================================
 // Raw Data Types
 // ============================================================================
@@ -28,6 +30,19 @@ export interface RawScreening {
   festivalSection?: string;
   /** Ticket availability status from the booking system */
   availabilityStatus?: "available" | "low" | "sold_out" | "returns" | "unknown";
+  // Accessibility - set when the source says so; the pipeline also detects
+  // them from the title and event text (see utils/accessibility.ts)
+  /** Captioned / subtitled for deaf and hard-of-hearing audiences (SDH) */
+  hasSubtitles?: boolean;
+  /** Subtitle language code if given (e.g., "en") */
+  subtitleLanguage?: string;
+  hasAudioDescription?: boolean;
+  isRelaxedScreening?: boolean;
+  /** Parent-and-baby screening (Big Scream, Carers & Babies...) */
+  isBabyFriendly?: boolean;
+  isDementiaFriendly?: boolean;
+  /** Ticket prices in pence, from booking systems that list them */
+  price?: TicketPrices;
 }
 
 // ============================================================================
@@ -120,18 +135,39 @@ export interface ChainScraper {
   healthCheck(): Promise<boolean>;
 }
 
+/**
+ * Chain scrapers that can report seat availability without a full scrape.
+ * Used by the availability checker (see scrapers/availability.ts).
+ */
+export interface AvailabilityChecker {
+  /**
+   * Current availability for a venue's screenings, keyed by RawScreening.sourceId.
+   * `dates` (yyyy-MM-dd) are the days with screenings to check, for booking
+   * systems that list showtimes by day. Screenings missing from the result
+   * weren't found and are left alone.
+   */
+  fetchAvailability(
+    venueId: string,
+    dates: string[]
+  ): Promise<Map<string, NonNullable<RawScreening["availabilityStatus"]>>>;
+  /** Release anything held between venues (e.g. a browser session) */
+  close?(): Promise<void>;
+}
+
 // ============================================================================
 // Common Booking System Support
 // ============================================================================
 
 /**
  * Many UK cinemas use common booking systems like Vista, Veezi, or Spectrix
- * This allows us to potentially share scraping logic
+ * Veezi, Spectrix and Savoy venues share engines in booking-systems/
  */
 export type BookingSystem =
   | "vista"          // Vista (used by many chains)
   | "veezi"          // Veezi
   | "spectrix"       // Spectrix (arts venues)
+  | "savoy"          // Savoy Systems (small independents)
+  | "cinesync"       // CineSync
   | "ticketsolve"    // Ticketsolve
   | "custom"         // Custom/proprietary
   | "unknown";
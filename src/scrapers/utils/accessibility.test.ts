@@ -0,0 +1,59 @@
+/**
+ * Accessibility Detection Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { accessibilityFromCodes, detectAccessibility, mergeAccessibility } from "./accessibility";
+
+describe("detectAccessibility", () => {
+  it.each([
+    ["HOH Subtitled", { hasSubtitles: true }],
+    ["Closed Captions", { hasSubtitles: true }],
+    ["Audio Described", { hasAudioDescription: true }],
+    ["Relaxed Screening: Paddington", { isRelaxedScreening: true }],
+    ["Autism-friendly screening", { isRelaxedScreening: true }],
+    ["Parent & Baby: Barbie", { isBabyFriendly: true }],
+    ["Carers and Babies", { isBabyFriendly: true }],
+    ["Big Scream - babies welcome", { isBabyFriendly: true }],
+    ["Dementia Friendly Screening", { isDementiaFriendly: true }],
+  ])("detects %s", (text, expected) => {
+    expect(detectAccessibility(text)).toEqual(expected);
+  });
+
+  it("combines several texts", () => {
+    expect(detectAccessibility("Relaxed Screening: Wicked", undefined, "Subtitled, Audio Described")).toEqual({
+      hasSubtitles: true,
+      hasAudioDescription: true,
+      isRelaxedScreening: true,
+    });
+  });
+
+  it("ignores ordinary titles", () => {
+    expect(detectAccessibility("The Relaxed Man")).toEqual({});
+    expect(detectAccessibility("Babylon")).toEqual({});
+    expect(detectAccessibility(null, "")).toEqual({});
+  });
+});
+
+describe("accessibilityFromCodes", () => {
+  it("maps listing codes and ignores unknown ones", () => {
+    expect(accessibilityFromCodes(["AD", "hoh", "DF", "BIA", "BSL"])).toEqual({
+      hasAudioDescription: true,
+      hasSubtitles: true,
+      isDementiaFriendly: true,
+      isBabyFriendly: true,
+    });
+  });
+});
+
+describe("mergeAccessibility", () => {
+  it("sets a flag when any source has it", () => {
+    expect(mergeAccessibility({ hasSubtitles: true }, { isRelaxedScreening: true, hasSubtitles: false })).toEqual({
+      hasSubtitles: true,
+      hasAudioDescription: false,
+      isRelaxedScreening: true,
+      isBabyFriendly: false,
+      isDementiaFriendly: false,
+    });
+  });
+});
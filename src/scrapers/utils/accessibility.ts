@@ -0,0 +1,85 @@
+/**
+ * Accessibility Detection
+ *
+ * Cinemas mark accessible screenings in free text ("Parent & Baby: Barbie",
+ * "HOH Subtitled", "Relaxed Screening") or with short codes in listings
+ * ("2.30pm (HOH)", BFI's "AD", "CC"). These helpers turn both into the
+ * RawScreening accessibility flags.
+ */
+
+import type { RawScreening } from "../types";
+
+export type AccessibilityFields = Pick<
+  RawScreening,
+  | "hasSubtitles"
+  | "hasAudioDescription"
+  | "isRelaxedScreening"
+  | "isBabyFriendly"
+  | "isDementiaFriendly"
+>;
+
+type AccessibilityField = keyof AccessibilityFields;
+
+const TEXT_PATTERNS: Record<AccessibilityField, RegExp> = {
+  hasSubtitles:
+    /\b(hoh|sdh|subtitled|captioned|closed captions?|hard of hearing|deaf[- ]friendly)\b/i,
+  hasAudioDescription: /\baudio[- ]?descri(bed|ption)\b/i,
+  isRelaxedScreening:
+    /\b(relaxed (screening|performance|environment)s?|autism[- ]friendly|sensory[- ]friendly)\b/i,
+  isBabyFriendly:
+    /\b((parents?|carers?) ?(&|and|\+) ?bab(y|ies)|babies in arms|baby[- ]friendly|babies welcome|big scream|newbies)\b/i,
+  isDementiaFriendly: /\bdementia[- ]friendly\b/i,
+};
+
+/** Listing codes; the same code can appear in brackets or bare */
+const CODES: Record<string, AccessibilityField> = {
+  AD: "hasAudioDescription",
+  CC: "hasSubtitles",
+  DS: "hasSubtitles", // BFI "descriptive subtitles"
+  HOH: "hasSubtitles",
+  SDH: "hasSubtitles",
+  ST: "hasSubtitles",
+  RX: "isRelaxedScreening",
+  BIA: "isBabyFriendly", // "babies in arms"
+  DF: "isDementiaFriendly",
+};
+
+/**
+ * Detect accessibility flags from any free text about a screening
+ * (title, event description, booking notes). Only flags found are returned.
+ */
+export function detectAccessibility(...texts: (string | null | undefined)[]): AccessibilityFields {
+  const text = texts.filter(Boolean).join(" ");
+  const flags: AccessibilityFields = {};
+  if (!text) return flags;
+
+  for (const [field, pattern] of Object.entries(TEXT_PATTERNS) as [AccessibilityField, RegExp][]) {
+    if (pattern.test(text)) flags[field] = true;
+  }
+  return flags;
+}
+
+/**
+ * Map listing codes ("AD", "HOH", "DF"...) to accessibility flags.
+ * Unknown codes (e.g. BFI's "BSL") are ignored.
+ */
+export function accessibilityFromCodes(codes: string[]): AccessibilityFields {
+  const flags: AccessibilityFields = {};
+  for (const code of codes) {
+    const field = CODES[code.toUpperCase()];
+    if (field) flags[field] = true;
+  }
+  return flags;
+}
+
+/** Combine flags from several sources - a flag set by any of them wins */
+export function mergeAccessibility(...sources: AccessibilityFields[]): Required<AccessibilityFields> {
+  const any = (field: AccessibilityField) => sources.some((s) => s[field] === true);
+  return {
+    hasSubtitles: any("hasSubtitles"),
+    hasAudioDescription: any("hasAudioDescription"),
+    isRelaxedScreening: any("isRelaxedScreening"),
+    isBabyFriendly: any("isBabyFriendly"),
+    isDementiaFriendly: any("isDementiaFriendly"),
+  };
+}
@@ -2,31 +2,55 @@
  * Browser utilities for Playwright-based scraping
  * Handles sites with JavaScript rendering and bot protection
  * Uses playwright-extra with stealth plugin to bypass Cloudflare
+ * Pages are recorded to / replayed from HAR fixtures during a fixture session
  */
 
-import { chromium } from "playwright-extra";
-import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import type { Browser, Page, BrowserContext } from "playwright";
+import {
+  getReplayTime,
+  nextHarFixture,
+  recordRenderedPage,
+  replayRenderedPage,
+} from "./fixture-recorder";
 
-// Add stealth plugin with all evasions enabled
-const stealth = StealthPlugin();
-stealth.enabledEvasions.add("chrome.app");
-stealth.enabledEvasions.add("chrome.csi");
-stealth.enabledEvasions.add("chrome.loadTimes");
-stealth.enabledEvasions.add("chrome.runtime");
-stealth.enabledEvasions.add("defaultArgs");
-stealth.enabledEvasions.add("iframe.contentWindow");
-stealth.enabledEvasions.add("media.codecs");
-stealth.enabledEvasions.add("navigator.hardwareConcurrency");
-stealth.enabledEvasions.add("navigator.languages");
-stealth.enabledEvasions.add("navigator.permissions");
-stealth.enabledEvasions.add("navigator.plugins");
-stealth.enabledEvasions.add("navigator.webdriver");
-stealth.enabledEvasions.add("sourceurl");
-stealth.enabledEvasions.add("user-agent-override");
-stealth.enabledEvasions.add("webgl.vendor");
-stealth.enabledEvasions.add("window.outerdimensions");
-chromium.use(stealth);
+type Chromium = typeof import("playwright-extra").chromium;
+
+let chromiumLauncher: Promise<Chromium> | null = null;
+
+/**
+ * Load playwright-extra with the stealth plugin (all evasions enabled) on
+ * first launch, so importing a browser scraper for its venue list is cheap
+ */
+function getChromium(): Promise<Chromium> {
+  chromiumLauncher ??= (async () => {
+    const [{ chromium }, { default: StealthPlugin }] = await Promise.all([
+      import("playwright-extra"),
+      import("puppeteer-extra-plugin-stealth"),
+    ]);
+
+    const stealth = StealthPlugin();
+    stealth.enabledEvasions.add("chrome.app");
+    stealth.enabledEvasions.add("chrome.csi");
+    stealth.enabledEvasions.add("chrome.loadTimes");
+    stealth.enabledEvasions.add("chrome.runtime");
+    stealth.enabledEvasions.add("defaultArgs");
+    stealth.enabledEvasions.add("iframe.contentWindow");
+    stealth.enabledEvasions.add("media.codecs");
+    stealth.enabledEvasions.add("navigator.hardwareConcurrency");
+    stealth.enabledEvasions.add("navigator.languages");
+    stealth.enabledEvasions.add("navigator.permissions");
+    stealth.enabledEvasions.add("navigator.plugins");
+    stealth.enabledEvasions.add("navigator.webdriver");
+    stealth.enabledEvasions.add("sourceurl");
+    stealth.enabledEvasions.add("user-agent-override");
+    stealth.enabledEvasions.add("webgl.vendor");
+    stealth.enabledEvasions.add("window.outerdimensions");
+    chromium.use(stealth);
+
+    return chromium;
+  })();
+  return chromiumLauncher;
+}
 
 let browser: Browser | null = null;
 
@@ -35,6 +59,7 @@ let browser: Browser | null = null;
  */
 export async function getBrowser(): Promise<Browser> {
   if (!browser) {
+    const chromium = await getChromium();
     // Use "new" headless mode which is harder to detect than legacy headless
     browser = await chromium.launch({
       headless: true,
@@ -67,6 +92,10 @@ export async function getBrowser(): Promise<Browser> {
  */
 export async function closeBrowser(): Promise<void> {
   if (browser) {
+    // Close contexts first - recorded HAR fixtures are only written on context close
+    for (const context of browser.contexts()) {
+      await context.close();
+    }
     await browser.close();
     browser = null;
   }
@@ -101,8 +130,25 @@ export async function createPage(): Promise<Page> {
     ignoreHTTPSErrors: true,
   });
 
+  const har = nextHarFixture();
+  if (har) {
+    await context.routeFromHAR(
+      har.path,
+      har.update
+        ? { update: true, updateContent: "embed", updateMode: "minimal" }
+        : { notFound: "abort" }
+    );
+  }
+
   const page = await context.newPage();
 
+  // Replayed pages see the recording time, so client-side date logic requests
+  // the same URLs that were recorded
+  const replayTime = getReplayTime();
+  if (replayTime) {
+    await page.clock.setFixedTime(replayTime);
+  }
+
   // Comprehensive anti-detection script
   await page.addInitScript(() => {
     // Remove webdriver property
@@ -215,6 +261,11 @@ export async function fetchWithBrowser(
 ): Promise<string> {
   const { waitFor, timeout = 30000, delay = 2000 } = options;
 
+  const replayed = replayRenderedPage(url);
+  if (replayed !== undefined) {
+    return replayed;
+  }
+
   const page = await createPage();
 
   try {
@@ -233,7 +284,9 @@ export async function fetchWithBrowser(
       await page.waitForTimeout(delay);
     }
 
-    return await page.content();
+    const html = await page.content();
+    recordRenderedPage(url, html);
+    return html;
   } finally {
     await page.close();
   }
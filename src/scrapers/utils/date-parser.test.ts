@@ -4,6 +4,7 @@ import {
   parseScreeningTime,
   combineDateAndTime,
   parseDateTime,
+  parseZonedDateTime,
 } from "./date-parser";
 
 describe("parseScreeningDate", () => {
@@ -70,6 +71,11 @@ describe("parseScreeningDate", () => {
       expect(result?.getMonth()).toBe(0); // January
     });
 
+    it("should keep today in the current year", () => {
+      const result = parseScreeningDate("Sunday 15 December", new Date(2024, 11, 15, 18, 0));
+      expect(result?.getFullYear()).toBe(2024);
+    });
+
     it("should use current year for future dates without year", () => {
       // Reference is Dec 15, parsing Dec 22 should stay in 2024
       const result = parseScreeningDate("Sun 22 Dec", refDate);
@@ -240,3 +246,27 @@ describe("parseDateTime", () => {
     expect(parseDateTime("invalid")).toBeNull();
   });
 });
+
+describe("parseZonedDateTime", () => {
+  it("should apply British Summer Time", () => {
+    expect(parseZonedDateTime("2025-07-01T19:30")?.toISOString()).toBe("2025-07-01T18:30:00.000Z");
+  });
+
+  it("should treat winter London time as UTC", () => {
+    expect(parseZonedDateTime("2025-12-01 19:30:00")?.toISOString()).toBe("2025-12-01T19:30:00.000Z");
+  });
+
+  it("should use the given timezone", () => {
+    expect(parseZonedDateTime("2025-07-01T19:30", "America/New_York")?.toISOString()).toBe(
+      "2025-07-01T23:30:00.000Z"
+    );
+  });
+
+  it("should handle the day the clocks go forward", () => {
+    expect(parseZonedDateTime("2025-03-30T12:00")?.toISOString()).toBe("2025-03-30T11:00:00.000Z");
+  });
+
+  it("should return null for unparseable strings", () => {
+    expect(parseZonedDateTime("30/03/2025 12:00")).toBeNull();
+  });
+});
@@ -3,7 +3,7 @@
  * Handles various date formats used by UK cinemas
  */
 
-import { addYears, isAfter } from "date-fns";
+import { addYears, isAfter, startOfDay } from "date-fns";
 
 /**
  * Parse an ISO-like datetime string that represents UK local time.
@@ -28,6 +28,55 @@ export function parseUKLocalDateTime(isoString: string): Date {
   return new Date(year, month - 1, day, hours, minutes);
 }
 
+/**
+ * Parse a wall-clock datetime in a given IANA timezone into an absolute Date.
+ *
+ * Unlike parseUKLocalDateTime this does not depend on the server timezone, so
+ * "2025-07-01T19:30" in Europe/London is 18:30 UTC wherever the scraper runs.
+ *
+ * @param localDateTime - "2025-07-01T19:30", "2025-07-01 19:30:00", etc.
+ * @param timeZone - IANA timezone, e.g. "Europe/London"
+ * @returns Date, or null if the string isn't a recognisable datetime
+ */
+export function parseZonedDateTime(localDateTime: string, timeZone = "Europe/London"): Date | null {
+  const match = localDateTime
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes] = match.slice(1, 6).map(Number);
+  const seconds = match[6] ? Number(match[6]) : 0;
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // The zone's offset at the guessed instant, re-checked once for DST changes
+  const offset = getTimeZoneOffset(wallClock, timeZone);
+  const corrected = getTimeZoneOffset(wallClock - offset, timeZone);
+
+  return new Date(wallClock - corrected);
+}
+
+/**
+ * Offset (ms) of a timezone from UTC at a given instant
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const zoned = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return zoned - Math.floor(timestamp / 1000) * 1000;
+}
+
 /**
  * Parse a date string in various UK cinema formats
  * Examples:
@@ -85,8 +134,9 @@ export function parseScreeningDate(dateStr: string, referenceDate = new Date()):
 
     let parsed = new Date(year, month, day);
 
-    // If no year was specified and the date is in the past, assume next year
-    if (!yearMatch && isAfter(referenceDate, parsed)) {
+    // If no year was specified and the day is in the past, assume next year
+    // (today's listings stay this year, whatever the time of day)
+    if (!yearMatch && isAfter(startOfDay(referenceDate), parsed)) {
       parsed = addYears(parsed, 1);
     }
 
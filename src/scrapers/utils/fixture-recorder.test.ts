@@ -0,0 +1,175 @@
+/**
+ * Scraper Fixture Recorder Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BaseScraper } from "../base";
+import type { RawScreening } from "../types";
+import {
+  endFixtureSession,
+  FixtureMissingError,
+  listFixtures,
+  loadFixtureManifest,
+  nextHarFixture,
+  recordRenderedPage,
+  replayRenderedPage,
+  startFixtureSession,
+} from "./fixture-recorder";
+
+class SlowScraper extends BaseScraper {
+  config = {
+    cinemaId: "slow",
+    baseUrl: "https://slow.example",
+    requestsPerMinute: 1,
+    delayBetweenRequests: 60_000,
+  };
+
+  protected async fetchPages(): Promise<string[]> {
+    return [await this.fetchUrl(`${this.config.baseUrl}/whats-on`)];
+  }
+
+  protected async parsePages(pages: string[]): Promise<RawScreening[]> {
+    const $ = this.parseHtml(pages[0]);
+    return [
+      {
+        filmTitle: $("h1").text(),
+        datetime: new Date("2099-01-01T19:00:00Z"),
+        bookingUrl: `${this.config.baseUrl}/book`,
+      },
+    ];
+  }
+}
+
+let baseDir: string;
+const liveFetch = vi.fn();
+
+beforeEach(() => {
+  baseDir = fs.mkdtempSync(path.join(os.tmpdir(), "fixtures-"));
+  liveFetch.mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const body = typeof init?.body === "string" ? init.body : "";
+    return new Response(`<h1>${input.toString()} ${body}</h1>`, {
+      status: 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  });
+  vi.stubGlobal("fetch", liveFetch);
+});
+
+afterEach(() => {
+  endFixtureSession();
+  vi.unstubAllGlobals();
+  fs.rmSync(baseDir, { recursive: true, force: true });
+});
+
+async function record(cinemaId: string, run: () => Promise<void>): Promise<void> {
+  startFixtureSession(cinemaId, "record", { baseDir });
+  await run();
+  endFixtureSession();
+}
+
+describe("fixture sessions", () => {
+  it("replays recorded responses without touching the network", async () => {
+    await record("rio", async () => {
+      await fetch("https://rio.example/whats-on");
+    });
+    liveFetch.mockClear();
+
+    startFixtureSession("rio", "replay", { baseDir });
+    const response = await fetch("https://rio.example/whats-on");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/html");
+    expect(await response.text()).toBe("<h1>https://rio.example/whats-on </h1>");
+    expect(liveFetch).not.toHaveBeenCalled();
+  });
+
+  it("writes a manifest and restores fetch when the session ends", async () => {
+    await record("rio", async () => {
+      await fetch("https://rio.example/a");
+      await fetch("https://rio.example/b");
+    });
+
+    const manifest = loadFixtureManifest("rio", baseDir);
+    expect(manifest?.entries.map((e) => e.url)).toEqual([
+      "https://rio.example/a",
+      "https://rio.example/b",
+    ]);
+    expect(listFixtures(baseDir)).toEqual(["rio"]);
+    expect(globalThis.fetch).toBe(liveFetch);
+  });
+
+  it("keys POST requests by body", async () => {
+    await record("phoenix", async () => {
+      await fetch("https://phoenix.example/graphql", { method: "POST", body: '{"q":"movies"}' });
+      await fetch("https://phoenix.example/graphql", { method: "POST", body: '{"q":"showings"}' });
+    });
+
+    startFixtureSession("phoenix", "replay", { baseDir });
+    const response = await fetch("https://phoenix.example/graphql", {
+      method: "POST",
+      body: '{"q":"showings"}',
+    });
+
+    expect(await response.text()).toContain("showings");
+  });
+
+  it("throws and reports requests that were never recorded", async () => {
+    await record("rio", async () => {
+      await fetch("https://rio.example/whats-on");
+    });
+
+    startFixtureSession("rio", "replay", { baseDir });
+    await expect(fetch("https://rio.example/new-page")).rejects.toBeInstanceOf(FixtureMissingError);
+
+    expect(endFixtureSession()?.misses).toEqual(["GET https://rio.example/new-page"]);
+  });
+
+  it("skips BaseScraper rate limiting while replaying", async () => {
+    await record("slow", async () => {
+      await fetch("https://slow.example/whats-on");
+    });
+
+    startFixtureSession("slow", "replay", { baseDir });
+    const screenings = await new SlowScraper().scrape();
+
+    expect(screenings[0].filmTitle).toBe("https://slow.example/whats-on ");
+  });
+});
+
+describe("browser fixtures", () => {
+  it("numbers HAR files per page and replays them in order", () => {
+    startFixtureSession("bfi", "record", { baseDir });
+    const first = nextHarFixture();
+    const second = nextHarFixture();
+    endFixtureSession();
+
+    expect(first?.update).toBe(true);
+    expect(path.basename(second!.path)).toBe("browser-1.har");
+
+    startFixtureSession("bfi", "replay", { baseDir });
+    expect(nextHarFixture()).toEqual({ path: first!.path, update: false });
+    nextHarFixture();
+    expect(() => nextHarFixture()).toThrow(FixtureMissingError);
+  });
+
+  it("replays rendered pages in place of the browser", () => {
+    startFixtureSession("curzon", "record", { baseDir });
+    nextHarFixture();
+    recordRenderedPage("https://curzon.example/", "<html>rendered</html>");
+    nextHarFixture();
+    endFixtureSession();
+
+    startFixtureSession("curzon", "replay", { baseDir });
+    expect(replayRenderedPage("https://curzon.example/")).toBe("<html>rendered</html>");
+    // The rendered page's HAR slot is skipped
+    expect(path.basename(nextHarFixture()!.path)).toBe("browser-1.har");
+  });
+
+  it("leaves the browser alone outside a session", () => {
+    expect(nextHarFixture()).toBeNull();
+    expect(replayRenderedPage("https://curzon.example/")).toBeUndefined();
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Scraper Fixture Recorder
+ *
+ * Record/replay layer for scraper network traffic, so scrapers can be
+ * regression-tested offline against pages captured from the live sites.
+ *
+ * - fetch (BaseScraper.fetchUrl and scrapers calling fetch directly) is
+ *   patched for the duration of a session; responses are stored per cinema
+ *   under src/scrapers/__tests__/fixtures/<cinemaId>/
+ * - Playwright pages from utils/browser.ts record a HAR per page and replay
+ *   from it, with the page clock pinned to the recording time
+ * - fetchWithBrowser results are stored as rendered HTML and replayed without
+ *   launching a browser
+ *
+ * Usage:
+ *   npm run scrape:snapshot -- record rio-dalston   # Record fixtures
+ *   npx vitest run src/scrapers/__tests__/replay.test.ts
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FixtureMode = "record" | "replay";
+
+export interface FixtureEntry {
+  /** Request key - method, URL and a hash of any request body */
+  key: string;
+  method: string;
+  url: string;
+  status: number;
+  contentType: string | null;
+  /** Body file, relative to the cinema's fixture directory */
+  file: string;
+  /** "browser" entries are rendered HTML from fetchWithBrowser */
+  source: "fetch" | "browser";
+}
+
+export interface FixtureManifest {
+  cinemaId: string;
+  /** When recording started - replays pin the clock here */
+  recordedAt: string;
+  entries: FixtureEntry[];
+  /** One HAR per Playwright page, in creation order */
+  harFiles: string[];
+}
+
+export interface FixtureSessionSummary {
+  cinemaId: string;
+  mode: FixtureMode;
+  recordedAt: Date;
+  requests: number;
+  /** Requests with no recorded response (replay only) */
+  misses: string[];
+}
+
+interface FixtureSession {
+  cinemaId: string;
+  mode: FixtureMode;
+  dir: string;
+  recordedAt: Date;
+  entries: Map<string, FixtureEntry>;
+  harFiles: string[];
+  pagesCreated: number;
+  requests: number;
+  misses: string[];
+  originalFetch: typeof fetch;
+}
+
+export class FixtureMissingError extends Error {
+  constructor(
+    public cinemaId: string,
+    public key: string
+  ) {
+    super(`No recorded fixture for "${key}" (${cinemaId}) - re-record with: npm run scrape:snapshot -- record ${cinemaId}`);
+    this.name = "FixtureMissingError";
+  }
+}
+
+// ============================================================================
+// Fixture Directory
+// ============================================================================
+
+export const FIXTURE_DIR = path.join(process.cwd(), "src/scrapers/__tests__/fixtures");
+
+const MANIFEST_FILE = "manifest.json";
+
+export function getFixturePath(cinemaId: string, baseDir: string = FIXTURE_DIR): string {
+  return path.join(baseDir, cinemaId);
+}
+
+/**
+ * Load a cinema's fixture manifest, or null if nothing has been recorded
+ */
+export function loadFixtureManifest(
+  cinemaId: string,
+  baseDir: string = FIXTURE_DIR
+): FixtureManifest | null {
+  const manifestPath = path.join(getFixturePath(cinemaId, baseDir), MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+}
+
+/**
+ * List cinemas with recorded fixtures
+ */
+export function listFixtures(baseDir: string = FIXTURE_DIR): string[] {
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(baseDir)
+    .filter((name) => fs.existsSync(path.join(baseDir, name, MANIFEST_FILE)))
+    .sort();
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+let session: FixtureSession | null = null;
+
+/**
+ * Start recording or replaying a cinema's traffic
+ *
+ * Recording clears any previous fixtures for the cinema. Only one session can
+ * be active at a time since fetch is patched globally.
+ */
+export function startFixtureSession(
+  cinemaId: string,
+  mode: FixtureMode,
+  options: { baseDir?: string } = {}
+): void {
+  if (session) {
+    throw new Error(`Fixture session already active for ${session.cinemaId}`);
+  }
+
+  const dir = getFixturePath(cinemaId, options.baseDir);
+  const entries = new Map<string, FixtureEntry>();
+  let recordedAt = new Date();
+  let harFiles: string[] = [];
+
+  if (mode === "replay") {
+    const manifest = loadFixtureManifest(cinemaId, options.baseDir);
+    if (!manifest) {
+      throw new Error(`No fixtures recorded for ${cinemaId}`);
+    }
+    for (const entry of manifest.entries) {
+      entries.set(entry.key, entry);
+    }
+    recordedAt = new Date(manifest.recordedAt);
+    harFiles = manifest.harFiles;
+  } else {
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  session = {
+    cinemaId,
+    mode,
+    dir,
+    recordedAt,
+    entries,
+    harFiles,
+    pagesCreated: 0,
+    requests: 0,
+    misses: [],
+    originalFetch: globalThis.fetch,
+  };
+  globalThis.fetch = fixtureFetch;
+}
+
+/**
+ * End the active session, restoring fetch and writing the manifest when recording
+ */
+export function endFixtureSession(): FixtureSessionSummary | null {
+  if (!session) {
+    return null;
+  }
+
+  const ended = session;
+  session = null;
+  globalThis.fetch = ended.originalFetch;
+
+  if (ended.mode === "record") {
+    const manifest: FixtureManifest = {
+      cinemaId: ended.cinemaId,
+      recordedAt: ended.recordedAt.toISOString(),
+      entries: [...ended.entries.values()].sort((a, b) => a.key.localeCompare(b.key)),
+      harFiles: ended.harFiles,
+    };
+    fs.writeFileSync(path.join(ended.dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  }
+
+  return {
+    cinemaId: ended.cinemaId,
+    mode: ended.mode,
+    recordedAt: ended.recordedAt,
+    requests: ended.requests,
+    misses: ended.misses,
+  };
+}
+
+/**
+ * True while replaying - rate limiting delays can be skipped
+ */
+export function isReplayingFixtures(): boolean {
+  return session?.mode === "replay";
+}
+
+// ============================================================================
+// fetch
+// ============================================================================
+
+function hash(value: string): string {
+  return createHash("sha1").update(value).digest("hex");
+}
+
+function requestKey(method: string, url: string, body?: string): string {
+  const key = `${method.toUpperCase()} ${url}`;
+  return body ? `${key} #${hash(body).slice(0, 12)}` : key;
+}
+
+function extensionFor(contentType: string | null): string {
+  if (contentType?.includes("json")) return ".json";
+  if (contentType?.includes("html")) return ".html";
+  return ".txt";
+}
+
+function writeEntry(
+  active: FixtureSession,
+  entry: Omit<FixtureEntry, "file">,
+  body: string
+): void {
+  // First response wins - repeated requests replay the same page
+  if (active.entries.has(entry.key)) return;
+
+  const file = `${hash(entry.key).slice(0, 16)}${extensionFor(entry.contentType)}`;
+  fs.writeFileSync(path.join(active.dir, file), body);
+  active.entries.set(entry.key, { ...entry, file });
+}
+
+function readEntry(active: FixtureSession, key: string): { entry: FixtureEntry; body: string } | null {
+  const entry = active.entries.get(key);
+  if (!entry) return null;
+  return { entry, body: fs.readFileSync(path.join(active.dir, entry.file), "utf-8") };
+}
+
+function missing(active: FixtureSession, key: string): FixtureMissingError {
+  active.misses.push(key);
+  return new FixtureMissingError(active.cinemaId, key);
+}
+
+/**
+ * fetch replacement installed while a session is active
+ */
+async function fixtureFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const active = session;
+  if (!active) {
+    return fetch(input, init);
+  }
+
+  const request = input instanceof Request ? input : null;
+  const url = request ? request.url : input.toString();
+  const method = init?.method ?? request?.method ?? "GET";
+  const body = typeof init?.body === "string" ? init.body : undefined;
+  const key = requestKey(method, url, body);
+  active.requests++;
+
+  if (active.mode === "replay") {
+    const recorded = readEntry(active, key);
+    if (!recorded) {
+      throw missing(active, key);
+    }
+    const { entry } = recorded;
+    return new Response(method.toUpperCase() === "HEAD" ? null : recorded.body, {
+      status: entry.status,
+      headers: entry.contentType ? { "Content-Type": entry.contentType } : undefined,
+    });
+  }
+
+  const response = await active.originalFetch(input, init);
+  const text = await response.text();
+  const contentType = response.headers.get("content-type");
+  writeEntry(active, { key, method: method.toUpperCase(), url, status: response.status, contentType, source: "fetch" }, text);
+
+  // The body has been consumed, so hand back a copy
+  return new Response(method.toUpperCase() === "HEAD" ? null : text, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// ============================================================================
+// Browser
+// ============================================================================
+
+/**
+ * HAR file for the next Playwright page, or null outside a session
+ * `update` is true when recording (the HAR is written when the context closes)
+ */
+export function nextHarFixture(): { path: string; update: boolean } | null {
+  const active = session;
+  if (!active) return null;
+
+  const index = active.pagesCreated++;
+
+  if (active.mode === "record") {
+    const file = `browser-${index}.har`;
+    active.harFiles.push(file);
+    return { path: path.join(active.dir, file), update: true };
+  }
+
+  const file = active.harFiles[index];
+  if (!file) {
+    throw missing(active, `browser page #${index}`);
+  }
+  return { path: path.join(active.dir, file), update: false };
+}
+
+/**
+ * Time replayed pages should see as "now", or null when not replaying
+ */
+export function getReplayTime(): Date | null {
+  return session?.mode === "replay" ? session.recordedAt : null;
+}
+
+/**
+ * Replay rendered HTML for fetchWithBrowser
+ * Returns undefined when not replaying; throws if the page wasn't recorded
+ */
+export function replayRenderedPage(url: string): string | undefined {
+  const active = session;
+  if (active?.mode !== "replay") return undefined;
+
+  const key = requestKey("BROWSER", url);
+  active.requests++;
+  // The recorded page had its own HAR - skip it so later pages stay aligned
+  active.pagesCreated++;
+  const recorded = readEntry(active, key);
+  if (!recorded) {
+    throw missing(active, key);
+  }
+  return recorded.body;
+}
+
+/**
+ * Store rendered HTML from fetchWithBrowser when recording
+ */
+export function recordRenderedPage(url: string, html: string): void {
+  const active = session;
+  if (active?.mode !== "record") return;
+
+  active.requests++;
+  writeEntry(
+    active,
+    { key: requestKey("BROWSER", url), method: "BROWSER", url, status: 200, contentType: "text/html", source: "browser" },
+    html
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Ticket Price Helper Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { parsePrice, priceColumns, ticketPricesFromTypes } from "./prices";
+
+describe("parsePrice", () => {
+  it.each([
+    ["£12.50", 1250],
+    ["12.5", 1250],
+    ["£8", 800],
+    ["£1,012.00", 101200],
+  ])("parses %s", (text, expected) => {
+    expect(parsePrice(text)).toBe(expected);
+  });
+
+  it("returns undefined for free or missing prices", () => {
+    expect(parsePrice("£0.00")).toBeUndefined();
+    expect(parsePrice("Free")).toBeUndefined();
+    expect(parsePrice(undefined)).toBeUndefined();
+  });
+});
+
+describe("ticketPricesFromTypes", () => {
+  it("takes the cheapest standard, concession and member price", () => {
+    expect(
+      ticketPricesFromTypes([
+        { name: "Adult", amount: 1500 },
+        { name: "Adult Off-Peak", amount: 1200 },
+        { name: "Senior 60+", amount: 1000 },
+        { name: "Student", amount: 900 },
+        { name: "Member Adult", amount: 1100 },
+      ])
+    ).toEqual({ currency: "GBP", standard: 1200, concession: 900, member: 1100 });
+  });
+
+  it("skips bundles, add-ons and free carer tickets", () => {
+    expect(
+      ticketPricesFromTypes(
+        [
+          { name: "Family Ticket", amount: 3000 },
+          { name: "Meal Deal", amount: 2500 },
+          { name: "Carer", amount: 0 },
+          { name: "Standard", amount: 1350 },
+        ],
+        "EUR"
+      )
+    ).toEqual({ currency: "EUR", standard: 1350 });
+  });
+
+  it("returns undefined when nothing usable is listed", () => {
+    expect(ticketPricesFromTypes([])).toBeUndefined();
+    expect(ticketPricesFromTypes([{ name: "Gift Voucher", amount: 2000 }])).toBeUndefined();
+  });
+});
+
+describe("priceColumns", () => {
+  it("maps prices to screening columns", () => {
+    expect(priceColumns({ currency: "GBP", standard: 1200, member: 900 })).toEqual({
+      priceCurrency: "GBP",
+      priceStandard: 1200,
+      priceConcession: null,
+      priceMember: 900,
+    });
+  });
+
+  it("is all null without a price", () => {
+    expect(priceColumns(undefined)).toEqual({
+      priceCurrency: null,
+      priceStandard: null,
+      priceConcession: null,
+      priceMember: null,
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Ticket Price Helpers
+ *
+ * Booking systems list prices per ticket type ("Adult", "Senior 60+",
+ * "Member Adult", "Carer"...). These helpers reduce them to the standard,
+ * concession and member prices stored on a screening. Amounts are in minor
+ * units (pence), like The Nickel's API.
+ */
+
+import type { TicketPrices } from "@/types/screening";
+
+export interface TicketTypePrice {
+  name: string;
+  /** Price in minor units (pence) */
+  amount: number;
+}
+
+const MEMBER_PATTERN = /\b(members?|club|mbr|cinema ?card)\b/i;
+const CONCESSION_PATTERN =
+  /\b(concessions?|conc|seniors?|60\+|over ?6\d|students?|child(ren)?|kids?|under ?\d+|young|nhs|unwaged|jobseekers?|disabled)\b/i;
+// Bundles and add-ons aren't a single seat at the door price
+const EXCLUDED_PATTERN = /\b(family|group|bundle|meal|voucher|gift|upgrade|carer|companion)\b/i;
+
+/**
+ * Parse a displayed price ("£12.50", "12.5", "£8") to minor units.
+ * Returns undefined for free or unparseable text.
+ */
+export function parsePrice(text: string | null | undefined): number | undefined {
+  const match = text?.replace(/,/g, "").match(/(\d+(?:\.\d{1,2})?)/);
+  if (!match) return undefined;
+  const amount = Math.round(parseFloat(match[1]) * 100);
+  return amount > 0 ? amount : undefined;
+}
+
+/**
+ * Reduce a booking system's ticket types to standard / concession / member
+ * prices - the cheapest of each kind. Returns undefined when nothing usable
+ * is listed.
+ */
+export function ticketPricesFromTypes(
+  tickets: TicketTypePrice[],
+  currency = "GBP"
+): TicketPrices | undefined {
+  const prices: TicketPrices = { currency };
+  const lowest = (current: number | undefined, amount: number) =>
+    current === undefined ? amount : Math.min(current, amount);
+
+  for (const { name, amount } of tickets) {
+    if (!Number.isFinite(amount) || amount <= 0 || EXCLUDED_PATTERN.test(name)) continue;
+
+    if (MEMBER_PATTERN.test(name)) {
+      prices.member = lowest(prices.member, amount);
+    } else if (CONCESSION_PATTERN.test(name)) {
+      prices.concession = lowest(prices.concession, amount);
+    } else {
+      prices.standard = lowest(prices.standard, amount);
+    }
+  }
+
+  const hasAny =
+    prices.standard !== undefined || prices.concession !== undefined || prices.member !== undefined;
+  return hasAny ? prices : undefined;
+}
+
+/** Screening columns for a scraped price (all null when unknown) */
+export function priceColumns(price: TicketPrices | undefined) {
+  return {
+    priceCurrency: price?.currency ?? null,
+    priceStandard: price?.standard ?? null,
+    priceConcession: price?.concession ?? null,
+    priceMember: price?.member ?? null,
+  };
+}
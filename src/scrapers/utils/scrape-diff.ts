@@ -4,15 +4,24 @@
  * Compares new scrape data against existing database records to show:
  * - New screenings being added
  * - Screenings that will be removed (no longer on source)
+ * - Screenings that were rescheduled (same booking-system ID, new time)
  * - Changes in screening counts
  * - Suspicious patterns (sudden drops, holiday screenings, etc.)
+ * - Near-term counts below the cinema's rolling baseline
  */
 
 import { db } from "@/db";
 import { screenings, films, cinemas } from "@/db/schema";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { eq, and, gte, lte, ne } from "drizzle-orm";
 import type { RawScreening } from "../types";
 import { format, addDays } from "date-fns";
+import { getCinemaBaseline } from "@/db/repositories/cinema-baseline";
+import {
+  DEFAULT_TOLERANCE_PERCENT,
+  evaluateAgainstBaseline,
+  getExpectedCountForRange,
+  startOfLondonDay,
+} from "@/lib/cinema-baselines";
 
 export interface ScrapeDiffReport {
   cinemaId: string;
@@ -24,11 +33,21 @@ export interface ScrapeDiffReport {
   newCount: number;
   addedCount: number;
   removedCount: number;
+  rescheduledCount: number;
   unchangedCount: number;
 
   // Details
   added: Array<{ title: string; datetime: Date }>;
-  removed: Array<{ title: string; datetime: Date; daysSinceScraped: number }>;
+  removed: Array<{ id: string; title: string; datetime: Date; daysSinceScraped: number }>;
+  rescheduled: Array<{ title: string; from: Date; to: Date }>;
+
+  // Next-week counts against the cinema baseline (null without a baseline)
+  baseline: {
+    expected: number;
+    min: number;
+    newCount: number;
+    existingCount: number;
+  } | null;
 
   // Warnings
   warnings: string[];
@@ -41,6 +60,7 @@ export interface ScrapeDiffReport {
 const LARGE_DROP_THRESHOLD = 0.5;  // Warn if >50% of screenings removed
 const MIN_SCREENINGS_FOR_DROP_CHECK = 5;  // Don't warn about drops for small counts
 const MAX_DAYS_IN_FUTURE_FOR_COMPARISON = 30;  // Only compare next 30 days
+const BASELINE_CHECK_DAYS = 7;  // Compare the coming week against the baseline
 
 /**
  * Generate a diff report comparing new scrape data to existing database records
@@ -61,12 +81,14 @@ export async function generateScrapeDiff(
   const cinemaName = cinema?.name ?? cinemaId;
 
   // Get existing screenings for this cinema (next 30 days)
+  // Already-cancelled rows are excluded so they don't inflate the drop checks
   const existingScreenings = await db
     .select({
       id: screenings.id,
       datetime: screenings.datetime,
       filmTitle: films.title,
       scrapedAt: screenings.scrapedAt,
+      sourceId: screenings.sourceId,
     })
     .from(screenings)
     .innerJoin(films, eq(screenings.filmId, films.id))
@@ -74,7 +96,8 @@ export async function generateScrapeDiff(
       and(
         eq(screenings.cinemaId, cinemaId),
         gte(screenings.datetime, now),
-        lte(screenings.datetime, futureLimit)
+        lte(screenings.datetime, futureLimit),
+        ne(screenings.status, "cancelled")
       )
     );
 
@@ -83,12 +106,17 @@ export async function generateScrapeDiff(
     `${title.toLowerCase().trim()}|${datetime.toISOString()}`;
 
   // Build sets of existing and new screenings
-  const existingSet = new Map<string, { title: string; datetime: Date; scrapedAt: Date | null }>();
+  const existingSet = new Map<
+    string,
+    { id: string; title: string; datetime: Date; scrapedAt: Date | null; sourceId: string | null }
+  >();
   for (const s of existingScreenings) {
     existingSet.set(makeKey(s.filmTitle, s.datetime), {
+      id: s.id,
       title: s.filmTitle,
       datetime: s.datetime,
       scrapedAt: s.scrapedAt,
+      sourceId: s.sourceId,
     });
   }
 
@@ -99,27 +127,43 @@ export async function generateScrapeDiff(
     }
   }
 
-  // Find added and removed screenings
+  // Find added, removed and rescheduled screenings
   const added: Array<{ title: string; datetime: Date }> = [];
-  const removed: Array<{ title: string; datetime: Date; daysSinceScraped: number }> = [];
+  const removed: ScrapeDiffReport["removed"] = [];
+  const rescheduled: Array<{ title: string; from: Date; to: Date }> = [];
 
-  // New screenings not in existing
+  // New screenings not in existing, indexed by source ID for reschedule pairing
+  const addedBySourceId = new Map<string, { title: string; datetime: Date }>();
   for (const s of newScreenings) {
     if (s.datetime >= now && s.datetime <= futureLimit) {
       const key = makeKey(s.filmTitle, s.datetime);
       if (!existingSet.has(key)) {
-        added.push({ title: s.filmTitle, datetime: s.datetime });
+        const entry = { title: s.filmTitle, datetime: s.datetime };
+        added.push(entry);
+        if (s.sourceId) {
+          addedBySourceId.set(s.sourceId, entry);
+        }
       }
     }
   }
 
-  // Existing screenings not in new
+  // Existing screenings not in new - a matching source ID among the additions
+  // means the same performance moved, not a remove/add pair
   for (const [key, data] of existingSet) {
     if (!newSet.has(key)) {
+      const movedTo = data.sourceId ? addedBySourceId.get(data.sourceId) : undefined;
+      if (movedTo) {
+        rescheduled.push({ title: data.title, from: data.datetime, to: movedTo.datetime });
+        added.splice(added.indexOf(movedTo), 1);
+        addedBySourceId.delete(data.sourceId!);
+        continue;
+      }
+
       const daysSinceScraped = data.scrapedAt
         ? Math.floor((now.getTime() - data.scrapedAt.getTime()) / (1000 * 60 * 60 * 24))
         : 0;
       removed.push({
+        id: data.id,
         title: data.title,
         datetime: data.datetime,
         daysSinceScraped,
@@ -147,6 +191,40 @@ export async function generateScrapeDiff(
     );
   }
 
+  // Warning: Coming week well below the cinema's baseline, when what we already
+  // hold is not - the shortfall comes from this scrape, not a quiet week
+  const baselineWindowStart = startOfLondonDay(now);
+  const baselineWindowEnd = startOfLondonDay(now, BASELINE_CHECK_DAYS);
+  const inBaselineWindow = (d: Date) => d >= now && d < baselineWindowEnd;
+  let baselineCheck: ScrapeDiffReport["baseline"] = null;
+
+  const baseline = await getCinemaBaseline(cinemaId);
+  const expected = baseline
+    ? getExpectedCountForRange(baseline, baselineWindowStart, BASELINE_CHECK_DAYS)
+    : null;
+  if (baseline && expected !== null) {
+    const newInWindow = newScreenings.filter((s) => inBaselineWindow(s.datetime)).length;
+    const existingInWindow = existingScreenings.filter((s) => inBaselineWindow(s.datetime)).length;
+    const tolerance = baseline.tolerancePercent ?? DEFAULT_TOLERANCE_PERCENT;
+    const scraped = evaluateAgainstBaseline(newInWindow, expected, tolerance);
+    const held = evaluateAgainstBaseline(existingInWindow, expected, tolerance);
+
+    baselineCheck = {
+      expected,
+      min: scraped.min,
+      newCount: newInWindow,
+      existingCount: existingInWindow,
+    };
+
+    const scrapedLow = scraped.status === "low" || scraped.status === "zero";
+    const heldLow = held.status === "low" || held.status === "zero";
+    if (scrapedLow && !heldLow) {
+      warnings.push(
+        `BELOW_BASELINE: ${newInWindow} screenings in the next ${BASELINE_CHECK_DAYS} days vs ${expected} expected (min ${scraped.min}, currently ${existingInWindow}) - possible partial scrape`
+      );
+    }
+  }
+
   // Warning: New screenings on Christmas Day
   for (const s of added) {
     const month = s.datetime.getMonth() + 1;
@@ -165,7 +243,7 @@ export async function generateScrapeDiff(
     }
   }
 
-  const unchangedCount = existingSet.size - removed.length;
+  const unchangedCount = existingSet.size - removed.length - rescheduled.length;
 
   return {
     cinemaId,
@@ -175,9 +253,12 @@ export async function generateScrapeDiff(
     newCount: newSet.size,
     addedCount: added.length,
     removedCount: removed.length,
+    rescheduledCount: rescheduled.length,
     unchangedCount,
     added: added.sort((a, b) => a.datetime.getTime() - b.datetime.getTime()),
     removed: removed.sort((a, b) => a.datetime.getTime() - b.datetime.getTime()),
+    rescheduled: rescheduled.sort((a, b) => a.from.getTime() - b.from.getTime()),
+    baseline: baselineCheck,
     warnings,
     hasIssues: warnings.length > 0,
   };
@@ -191,7 +272,7 @@ export function printDiffReport(report: ScrapeDiffReport): void {
   console.log(`Timestamp: ${format(report.timestamp, "yyyy-MM-dd HH:mm:ss")}`);
   console.log(`Existing: ${report.existingCount} | New: ${report.newCount}`);
   console.log(
-    `Added: ${report.addedCount} | Removed: ${report.removedCount} | Unchanged: ${report.unchangedCount}`
+    `Added: ${report.addedCount} | Removed: ${report.removedCount} | Rescheduled: ${report.rescheduledCount} | Unchanged: ${report.unchangedCount}`
   );
 
   if (report.added.length > 0) {
@@ -217,6 +298,24 @@ export function printDiffReport(report: ScrapeDiffReport): void {
     }
   }
 
+  if (report.rescheduled.length > 0) {
+    console.log("\nRESCHEDULED:");
+    for (const s of report.rescheduled.slice(0, 10)) {
+      console.log(
+        `  ~ ${s.title} @ ${format(s.from, "EEE d MMM HH:mm")} → ${format(s.to, "EEE d MMM HH:mm")}`
+      );
+    }
+    if (report.rescheduled.length > 10) {
+      console.log(`  ... and ${report.rescheduled.length - 10} more`);
+    }
+  }
+
+  if (report.baseline) {
+    console.log(
+      `\nBaseline (next 7 days): expected ${report.baseline.expected} (min ${report.baseline.min}) | scraped ${report.baseline.newCount} | held ${report.baseline.existingCount}`
+    );
+  }
+
   if (report.warnings.length > 0) {
     console.log("\n⚠️  WARNINGS:");
     for (const w of report.warnings) {
@@ -231,10 +330,7 @@ export function printDiffReport(report: ScrapeDiffReport): void {
  * Check if diff report indicates serious issues that should block the scrape
  */
 export function shouldBlockScrape(report: ScrapeDiffReport): boolean {
-  // Block if it looks like the scraper is broken (all screenings removed)
-  const hasBrokenScraperWarning = report.warnings.some((w) =>
-    w.startsWith("SCRAPER_BROKEN")
-  );
-
-  return hasBrokenScraperWarning;
+  // Block only if it looks like the scraper is broken (all screenings removed).
+  // BELOW_BASELINE stays a warning: a partial scrape still saves what it found
+  return report.warnings.some((w) => w.startsWith("SCRAPER_BROKEN"));
 }
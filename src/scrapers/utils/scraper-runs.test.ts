@@ -0,0 +1,135 @@
+/**
+ * Scraper Run History Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockValues, mockSet, mockReturning } = vi.hoisted(() => ({
+  mockValues: vi.fn(),
+  mockSet: vi.fn(),
+  mockReturning: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  db: {
+    insert: () => ({
+      values: (values: unknown) => {
+        mockValues(values);
+        return { returning: mockReturning };
+      },
+    }),
+    update: () => ({ set: (values: unknown) => ({ where: () => mockSet(values) }) }),
+  },
+}));
+
+import {
+  classifyVenueRun,
+  completeScraperRun,
+  startScraperRun,
+  type VenueRunOutcome,
+} from "./scraper-runs";
+
+function makeOutcome(overrides: Partial<VenueRunOutcome> = {}): VenueRunOutcome {
+  return {
+    screeningsFound: 40,
+    added: 5,
+    updated: 35,
+    failed: 0,
+    rejected: 0,
+    blocked: false,
+    retryCount: 0,
+    attemptErrors: [],
+    durationMs: 1200,
+    ...overrides,
+  };
+}
+
+describe("classifyVenueRun", () => {
+  it("marks clean runs as success", () => {
+    expect(classifyVenueRun(makeOutcome())).toEqual({ status: "success", anomalyType: null });
+  });
+
+  it("marks runs with pipeline failures as partial", () => {
+    expect(classifyVenueRun(makeOutcome({ failed: 3 })).status).toBe("partial");
+  });
+
+  it("treats blocked scrapes as zero-result anomalies with the reason", () => {
+    expect(
+      classifyVenueRun(makeOutcome({ blocked: true, blockReason: "SCRAPER_BROKEN: ..." }))
+    ).toEqual({
+      status: "anomaly",
+      anomalyType: "zero_results",
+      errorMessage: "SCRAPER_BROKEN: ...",
+    });
+  });
+
+  it("treats saved baseline shortfalls as low-count anomalies", () => {
+    expect(classifyVenueRun(makeOutcome({ baselineWarning: "BELOW_BASELINE: 4 screenings" }))).toEqual({
+      status: "anomaly",
+      anomalyType: "low_count",
+      errorMessage: "BELOW_BASELINE: 4 screenings",
+    });
+  });
+
+  it("treats empty scrapes as zero-result anomalies", () => {
+    expect(classifyVenueRun(makeOutcome({ screeningsFound: 0 })).anomalyType).toBe("zero_results");
+  });
+
+  it("marks exhausted retries as failed with the error", () => {
+    expect(classifyVenueRun(makeOutcome({ error: "Health check failed" }))).toEqual({
+      status: "failed",
+      anomalyType: "error",
+      errorMessage: "Health check failed",
+    });
+  });
+});
+
+describe("scraper run persistence", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("opens runs as running until they complete", async () => {
+    mockReturning.mockResolvedValueOnce([{ id: "run-1" }]);
+    const startedAt = new Date("2026-10-18T09:00:00Z");
+
+    await expect(startScraperRun("rio-dalston", startedAt)).resolves.toBe("run-1");
+    expect(mockValues).toHaveBeenCalledWith({ cinemaId: "rio-dalston", startedAt, status: "running" });
+  });
+
+  it("returns undefined instead of throwing when the insert fails", async () => {
+    mockReturning.mockRejectedValueOnce(new Error("db down"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(startScraperRun("rio-dalston")).resolves.toBeUndefined();
+    warn.mockRestore();
+  });
+
+  it("writes counts, retries and attempt errors on completion", async () => {
+    await completeScraperRun(
+      "run-1",
+      makeOutcome({ retryCount: 1, attemptErrors: ["timeout"], rejected: 2 })
+    );
+
+    expect(mockSet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "success",
+        screeningCount: 40,
+        autoRetried: true,
+        completedAt: expect.any(Date),
+        metadata: expect.objectContaining({
+          duration: 1200,
+          retryCount: 1,
+          attemptErrors: ["timeout"],
+          rejected: 2,
+          blocked: false,
+        }),
+      })
+    );
+  });
+
+  it("skips completion when the run was never opened", async () => {
+    await completeScraperRun(undefined, makeOutcome());
+    expect(mockSet).not.toHaveBeenCalled();
+  });
+});
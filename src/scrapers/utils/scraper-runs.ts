@@ -0,0 +1,134 @@
+/**
+ * Scraper Run History
+ *
+ * Persists one `scraper_runs` row per venue per run so the admin dashboard,
+ * anomaly detection and baselines can work from real scrape history instead
+ * of recomputing from the screenings table.
+ *
+ * The row is inserted before scraping starts (so screening changes can point
+ * at it) as `running` with no `completedAt`, and gets its final status when
+ * the venue finishes. A run that crashes mid-way stays `running`, so it isn't
+ * counted as a scraper failure and can be told apart from one by its age.
+ */
+
+import { db } from "@/db";
+import { scraperRuns, type ScraperRunInsert } from "@/db/schema";
+import { eq } from "drizzle-orm";
+
+type ScraperRunStatus = ScraperRunInsert["status"];
+type AnomalyType = NonNullable<ScraperRunInsert["anomalyType"]>;
+
+export interface VenueRunOutcome {
+  /** Screenings returned by the scraper (before validation) */
+  screeningsFound: number;
+  added: number;
+  updated: number;
+  failed: number;
+  rejected: number;
+  blocked: boolean;
+  blockReason?: string;
+  /** Expected screenings for the coming week from the cinema baseline */
+  baselineCount?: number;
+  /** BELOW_BASELINE warning on a scrape that was saved anyway */
+  baselineWarning?: string;
+  /** Set when every attempt failed */
+  error?: string;
+  retryCount: number;
+  attemptErrors: string[];
+  durationMs: number;
+}
+
+export interface RunClassification {
+  status: Exclude<ScraperRunStatus, "running">;
+  anomalyType: AnomalyType | null;
+  errorMessage?: string;
+}
+
+/**
+ * Map a venue outcome onto scraper_runs status / anomaly type
+ */
+export function classifyVenueRun(outcome: VenueRunOutcome): RunClassification {
+  if (outcome.error !== undefined) {
+    return { status: "failed", anomalyType: "error", errorMessage: outcome.error };
+  }
+
+  // Blocked by shouldBlockScrape - every screening vanishing
+  if (outcome.blocked) {
+    return { status: "anomaly", anomalyType: "zero_results", errorMessage: outcome.blockReason };
+  }
+
+  if (outcome.screeningsFound === 0) {
+    return { status: "anomaly", anomalyType: "zero_results" };
+  }
+
+  // Saved, but well short of the cinema baseline - possibly a partial scrape
+  if (outcome.baselineWarning) {
+    return { status: "anomaly", anomalyType: "low_count", errorMessage: outcome.baselineWarning };
+  }
+
+  if (outcome.failed > 0) {
+    return { status: "partial", anomalyType: null };
+  }
+
+  return { status: "success", anomalyType: null };
+}
+
+/**
+ * Open a run row for a venue
+ * Never throws - returns undefined if the row couldn't be written
+ */
+export async function startScraperRun(
+  cinemaId: string,
+  startedAt: Date = new Date()
+): Promise<string | undefined> {
+  try {
+    const [run] = await db
+      .insert(scraperRuns)
+      .values({ cinemaId, startedAt, status: "running" })
+      .returning({ id: scraperRuns.id });
+    return run?.id;
+  } catch (error) {
+    console.warn(`[ScraperRuns] Failed to start run for ${cinemaId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Close a run row with the venue outcome
+ * Never throws - run history must not break a scrape
+ */
+export async function completeScraperRun(
+  runId: string | undefined,
+  outcome: VenueRunOutcome
+): Promise<void> {
+  if (!runId) return;
+
+  const { status, anomalyType, errorMessage } = classifyVenueRun(outcome);
+
+  try {
+    await db
+      .update(scraperRuns)
+      .set({
+        completedAt: new Date(),
+        status,
+        screeningCount: outcome.screeningsFound,
+        baselineCount: outcome.baselineCount ?? null,
+        anomalyType,
+        anomalyDetails: errorMessage ? { errorMessage } : null,
+        autoRetried: outcome.retryCount > 0,
+        metadata: {
+          duration: outcome.durationMs,
+          retryCount: outcome.retryCount,
+          attemptErrors: outcome.attemptErrors.length > 0 ? outcome.attemptErrors : undefined,
+          added: outcome.added,
+          updated: outcome.updated,
+          failed: outcome.failed,
+          rejected: outcome.rejected,
+          blocked: outcome.blocked,
+        },
+      })
+      .where(eq(scraperRuns.id, runId));
+  } catch (error) {
+    console.warn(`[ScraperRuns] Failed to complete run ${runId}:`, error);
+  }
+}
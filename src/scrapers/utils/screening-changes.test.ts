@@ -0,0 +1,67 @@
+/**
+ * Screening Change Tracking Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/db", () => ({ db: {} }));
+
+import { diffScreeningFields } from "./screening-changes";
+
+describe("diffScreeningFields", () => {
+  const existing = {
+    datetime: new Date("2025-03-01T19:30:00Z"),
+    screen: "Screen 1",
+    format: "dcp",
+    eventType: null,
+    bookingUrl: "https://example.com/book/1",
+    availabilityStatus: "available",
+  };
+
+  it("returns no changes when nothing differs", () => {
+    expect(
+      diffScreeningFields(existing, {
+        ...existing,
+        datetime: new Date("2025-03-01T19:30:00Z"),
+      })
+    ).toEqual([]);
+  });
+
+  it("detects a moved showtime", () => {
+    const changes = diffScreeningFields(existing, {
+      datetime: new Date("2025-03-01T20:45:00Z"),
+    });
+
+    expect(changes).toEqual([
+      {
+        field: "datetime",
+        oldValue: "2025-03-01T19:30:00.000Z",
+        newValue: "2025-03-01T20:45:00.000Z",
+      },
+    ]);
+  });
+
+  it("detects availability and booking URL changes", () => {
+    const changes = diffScreeningFields(existing, {
+      availabilityStatus: "sold_out",
+      bookingUrl: "https://example.com/book/2",
+    });
+
+    expect(changes.map((c) => c.field)).toEqual(["bookingUrl", "availabilityStatus"]);
+    expect(changes[1]).toMatchObject({ oldValue: "available", newValue: "sold_out" });
+  });
+
+  it("ignores fields the update does not write", () => {
+    expect(diffScreeningFields(existing, { format: undefined, screen: undefined })).toEqual([]);
+  });
+
+  it("treats null and empty string as equal", () => {
+    expect(diffScreeningFields({ screen: null }, { screen: "" })).toEqual([]);
+  });
+
+  it("records values being cleared", () => {
+    expect(diffScreeningFields(existing, { screen: null })).toEqual([
+      { field: "screen", oldValue: "Screen 1", newValue: null },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Screening Change Tracking
+ *
+ * Compares an existing screening row against the values a re-scrape is about
+ * to write, and records each tracked field that differs in `screening_changes`.
+ * Lets us see when a showtime moved, a format changed or a screening sold out,
+ * instead of the pipeline silently overwriting the old values.
+ */
+
+import { db } from "@/db";
+import { screeningChanges, type TrackedScreeningField } from "@/db/schema";
+
+/**
+ * Fields compared on re-scrape, in display order
+ */
+export const TRACKED_SCREENING_FIELDS: TrackedScreeningField[] = [
+  "datetime",
+  "screen",
+  "format",
+  "eventType",
+  "bookingUrl",
+  "availabilityStatus",
+  "status",
+];
+
+type FieldValue = string | Date | null | undefined;
+
+export type ScreeningFieldValues = Partial<Record<TrackedScreeningField, FieldValue>>;
+
+export interface ScreeningFieldChange {
+  field: TrackedScreeningField;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+function serialize(value: FieldValue): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Diff tracked fields between the stored row and the incoming update
+ *
+ * `undefined` in `next` means "not being written" (mirrors Drizzle's .set()
+ * semantics), so it never counts as a change. `null` and empty strings are
+ * treated as equivalent.
+ */
+export function diffScreeningFields(
+  existing: ScreeningFieldValues,
+  next: ScreeningFieldValues
+): ScreeningFieldChange[] {
+  const changes: ScreeningFieldChange[] = [];
+
+  for (const field of TRACKED_SCREENING_FIELDS) {
+    if (next[field] === undefined) continue;
+
+    const oldValue = serialize(existing[field]);
+    const newValue = serialize(next[field]);
+
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Persist detected changes for a screening
+ * Never throws - change history must not break a scrape
+ */
+export async function recordScreeningChanges(
+  screeningId: string,
+  cinemaId: string,
+  changes: ScreeningFieldChange[],
+  scraperRunId?: string
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  try {
+    const detectedAt = new Date();
+    await db.insert(screeningChanges).values(
+      changes.map((change) => ({
+        screeningId,
+        cinemaId,
+        field: change.field,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        scraperRunId: scraperRunId ?? null,
+        detectedAt,
+      }))
+    );
+  } catch (error) {
+    console.warn(`[Pipeline] Failed to record changes for screening ${screeningId}:`, error);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Screening Lifecycle Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockSelectResult, mockSet, mockInsertValues } = vi.hoisted(() => ({
+  mockSelectResult: vi.fn(),
+  mockSet: vi.fn(),
+  mockInsertValues: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  db: {
+    select: () => ({ from: () => ({ where: mockSelectResult }) }),
+    update: () => ({ set: (values: unknown) => ({ where: () => mockSet(values) }) }),
+    insert: () => ({ values: mockInsertValues }),
+  },
+}));
+
+import {
+  statusForMissedScrapes,
+  markMissingScreenings,
+  POSSIBLY_CANCELLED_AFTER_MISSES,
+  CANCELLED_AFTER_MISSES,
+} from "./screening-lifecycle";
+
+describe("statusForMissedScrapes", () => {
+  it("stays scheduled below the threshold", () => {
+    expect(statusForMissedScrapes(0)).toBe("scheduled");
+    expect(statusForMissedScrapes(POSSIBLY_CANCELLED_AFTER_MISSES - 1)).toBe("scheduled");
+  });
+
+  it("flags then cancels as misses accumulate", () => {
+    expect(statusForMissedScrapes(POSSIBLY_CANCELLED_AFTER_MISSES)).toBe("possibly_cancelled");
+    expect(statusForMissedScrapes(CANCELLED_AFTER_MISSES - 1)).toBe("possibly_cancelled");
+    expect(statusForMissedScrapes(CANCELLED_AFTER_MISSES)).toBe("cancelled");
+  });
+});
+
+describe("markMissingScreenings", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("does nothing when no screenings were removed", async () => {
+    const result = await markMissingScreenings("cinema-1", [], new Date());
+
+    expect(result).toEqual({ missed: 0, possiblyCancelled: 0, cancelled: 0 });
+    expect(mockSelectResult).not.toHaveBeenCalled();
+  });
+
+  it("increments missed counts and records status transitions", async () => {
+    mockSelectResult.mockResolvedValueOnce([
+      { id: "a", status: "scheduled", missedScrapeCount: 0 },
+      { id: "b", status: "scheduled", missedScrapeCount: POSSIBLY_CANCELLED_AFTER_MISSES - 1 },
+      { id: "c", status: "possibly_cancelled", missedScrapeCount: CANCELLED_AFTER_MISSES - 1 },
+    ]);
+
+    const result = await markMissingScreenings("cinema-1", ["a", "b", "c"], new Date(), "run-1");
+
+    expect(result).toEqual({ missed: 3, possiblyCancelled: 1, cancelled: 1 });
+    expect(mockSet).toHaveBeenCalledWith(
+      expect.objectContaining({ missedScrapeCount: 1, status: "scheduled" })
+    );
+    expect(mockSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "cancelled", statusChangedAt: expect.any(Date) })
+    );
+    expect(mockInsertValues).toHaveBeenCalledTimes(2);
+    expect(mockInsertValues).toHaveBeenCalledWith([
+      expect.objectContaining({
+        screeningId: "c",
+        field: "status",
+        oldValue: "possibly_cancelled",
+        newValue: "cancelled",
+        scraperRunId: "run-1",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Screening Lifecycle
+ *
+ * The pipeline never deletes screenings, so one that disappears from a
+ * cinema's site would otherwise stay bookable in our calendar forever.
+ * After each successful scrape, screenings the diff report lists as removed
+ * have their missed-scrape count bumped; enough consecutive misses move them
+ * to possibly_cancelled and then cancelled. Seeing a screening again resets
+ * it to scheduled (see insertScreening in pipeline.ts).
+ *
+ * Admin overrides (status_overridden) are never touched here.
+ */
+
+import { db } from "@/db";
+import { screenings } from "@/db/schema";
+import { and, eq, inArray, lt } from "drizzle-orm";
+import type { ScreeningStatus } from "@/types/screening";
+import { recordScreeningChanges } from "./screening-changes";
+
+/** Consecutive missed scrapes before a screening is flagged */
+export const POSSIBLY_CANCELLED_AFTER_MISSES = 2;
+
+/** Consecutive missed scrapes before a screening is hidden as cancelled */
+export const CANCELLED_AFTER_MISSES = 4;
+
+export interface MissingScreeningsResult {
+  missed: number;
+  possiblyCancelled: number;
+  cancelled: number;
+}
+
+/**
+ * Status a screening should have after missing `missedScrapeCount` scrapes in a row
+ */
+export function statusForMissedScrapes(missedScrapeCount: number): ScreeningStatus {
+  if (missedScrapeCount >= CANCELLED_AFTER_MISSES) return "cancelled";
+  if (missedScrapeCount >= POSSIBLY_CANCELLED_AFTER_MISSES) return "possibly_cancelled";
+  return "scheduled";
+}
+
+/**
+ * Record a missed scrape for screenings absent from a successful scrape
+ *
+ * Rows updated since `scrapeStartedAt` were matched during this run (the diff
+ * compares by title, which can differ from the canonical film title) and are
+ * skipped, as are admin-overridden rows.
+ */
+export async function markMissingScreenings(
+  cinemaId: string,
+  removedIds: string[],
+  scrapeStartedAt: Date,
+  scraperRunId?: string
+): Promise<MissingScreeningsResult> {
+  const result: MissingScreeningsResult = { missed: 0, possiblyCancelled: 0, cancelled: 0 };
+  if (removedIds.length === 0) return result;
+
+  const missing = await db
+    .select({
+      id: screenings.id,
+      status: screenings.status,
+      missedScrapeCount: screenings.missedScrapeCount,
+    })
+    .from(screenings)
+    .where(
+      and(
+        eq(screenings.cinemaId, cinemaId),
+        inArray(screenings.id, removedIds),
+        lt(screenings.scrapedAt, scrapeStartedAt),
+        eq(screenings.statusOverridden, false)
+      )
+    );
+
+  const now = new Date();
+  for (const screening of missing) {
+    const missedScrapeCount = screening.missedScrapeCount + 1;
+    const status = statusForMissedScrapes(missedScrapeCount);
+    const statusChanged = status !== screening.status;
+
+    await db
+      .update(screenings)
+      .set({
+        missedScrapeCount,
+        status,
+        ...(statusChanged && { statusChangedAt: now }),
+        updatedAt: now,
+      })
+      .where(eq(screenings.id, screening.id));
+
+    result.missed++;
+    if (statusChanged) {
+      if (status === "possibly_cancelled") result.possiblyCancelled++;
+      if (status === "cancelled") result.cancelled++;
+      await recordScreeningChanges(
+        screening.id,
+        cinemaId,
+        [{ field: "status", oldValue: screening.status, newValue: status }],
+        scraperRunId
+      );
+    }
+  }
+
+  return result;
+}
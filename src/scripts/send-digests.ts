@@ -0,0 +1,18 @@
+/**
+ * Send watchlist digests now, e.g. with NOTIFICATION_TRANSPORT=file to
+ * preview them locally in .notifications/
+ *
+ * Usage: npm run notifications:send
+ */
+
+import { sendWatchlistDigests } from "@/lib/notifications/send-digests";
+
+sendWatchlistDigests()
+  .then((result) => {
+    console.log(result);
+    process.exit(result.failed > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
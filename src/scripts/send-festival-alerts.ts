@@ -0,0 +1,18 @@
+/**
+ * Send festival alerts now, e.g. with NOTIFICATION_TRANSPORT=file to
+ * preview them locally in .notifications/
+ *
+ * Usage: npm run notifications:festivals
+ */
+
+import { sendFestivalAlerts } from "@/lib/notifications/send-festival-alerts";
+
+sendFestivalAlerts()
+  .then((result) => {
+    console.log(result);
+    process.exit(result.failed > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
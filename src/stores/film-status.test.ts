@@ -9,7 +9,7 @@ import { useFilmStatus, type FilmStatusEntry } from "./film-status";
 describe("useFilmStatus store", () => {
   beforeEach(() => {
     // Reset store state before each test
-    useFilmStatus.setState({ films: {} });
+    useFilmStatus.setState({ films: {}, tombstones: {}, syncCursor: 0 });
   });
 
   describe("setStatus", () => {
@@ -100,6 +100,53 @@ describe("useFilmStatus store", () => {
 
       expect(new Date(after).getTime()).toBeGreaterThanOrEqual(new Date(before).getTime());
     });
+
+    it("should round ratings to half stars", () => {
+      useFilmStatus.getState().setStatus("film-1", "seen");
+      useFilmStatus.getState().setRating("film-1", 3.7);
+
+      expect(useFilmStatus.getState().films["film-1"].rating).toBe(3.5);
+    });
+  });
+
+  describe("logDiaryEntry", () => {
+    it("should mark a watchlist film seen with the diary details", () => {
+      useFilmStatus.getState().setStatus("film-1", "want_to_see", { title: "Stalker", year: 1979 });
+      useFilmStatus.getState().logDiaryEntry("film-1", {
+        seenAt: "2026-10-10T19:30:00.000Z",
+        rating: 4.5,
+        notes: "  The room!  ",
+        screening: { id: "screening-1", cinemaId: "bfi", cinemaName: "BFI Southbank", format: "35mm" },
+      });
+
+      expect(useFilmStatus.getState().films["film-1"]).toMatchObject({
+        status: "seen",
+        filmTitle: "Stalker",
+        seenAt: "2026-10-10T19:30:00.000Z",
+        rating: 4.5,
+        notes: "The room!",
+        seenScreeningId: "screening-1",
+        seenCinemaId: "bfi",
+        seenCinemaName: "BFI Southbank",
+        seenFormat: "35mm",
+      });
+    });
+
+    it("should clear the rating, notes and screening when they're left empty", () => {
+      useFilmStatus.getState().logDiaryEntry("film-1", {
+        seenAt: "2026-10-10T12:00:00.000Z",
+        rating: 3,
+        notes: "Fine",
+        screening: { id: "screening-1", cinemaId: "bfi", cinemaName: "BFI Southbank", format: null },
+      });
+      useFilmStatus.getState().logDiaryEntry("film-1", { seenAt: "2026-10-11T12:00:00.000Z", notes: "" });
+
+      const entry = useFilmStatus.getState().films["film-1"];
+      expect(entry.seenAt).toBe("2026-10-11T12:00:00.000Z");
+      expect(entry.rating).toBeUndefined();
+      expect(entry.notes).toBeUndefined();
+      expect(entry.seenCinemaId).toBeUndefined();
+    });
   });
 
   describe("setNotes", () => {
@@ -325,4 +372,75 @@ describe("useFilmStatus store", () => {
       expect(allFilms["film-2"]).toBeDefined();
     });
   });
+
+  describe("tombstones", () => {
+    it("records removals so they can be synced, and forgets them when the film is re-added", () => {
+      useFilmStatus.getState().setStatus("film-1", "want_to_see");
+      useFilmStatus.getState().setStatus("film-2", "seen");
+
+      useFilmStatus.getState().setStatus("film-1", null);
+      useFilmStatus.getState().removeFilm("film-2");
+      useFilmStatus.getState().removeFilm("never-added");
+
+      expect(Object.keys(useFilmStatus.getState().tombstones).sort()).toEqual(["film-1", "film-2"]);
+
+      useFilmStatus.getState().setStatus("film-1", "seen");
+      expect(Object.keys(useFilmStatus.getState().tombstones)).toEqual(["film-2"]);
+    });
+
+    it("only clears tombstones the server has seen", () => {
+      useFilmStatus.setState({
+        tombstones: { "film-1": "2025-01-01T00:00:00.000Z", "film-2": "2025-01-03T00:00:00.000Z" },
+      });
+
+      useFilmStatus.getState().clearTombstones({
+        "film-1": "2025-01-01T00:00:00.000Z",
+        "film-2": "2025-01-02T00:00:00.000Z",
+      });
+
+      expect(useFilmStatus.getState().tombstones).toEqual({ "film-2": "2025-01-03T00:00:00.000Z" });
+    });
+
+    it("reset forgets every film without recording removals", () => {
+      useFilmStatus.getState().setStatus("film-1", "want_to_see");
+      useFilmStatus.getState().removeFilm("film-1");
+      useFilmStatus.getState().setStatus("film-2", "seen");
+      useFilmStatus.setState({ syncCursor: 7 });
+
+      useFilmStatus.getState().reset();
+
+      expect(useFilmStatus.getState()).toMatchObject({ films: {}, tombstones: {}, syncCursor: 0 });
+    });
+  });
+
+  describe("applyRemoteChanges", () => {
+    it("applies changes from another device and advances the cursor", () => {
+      useFilmStatus.setState({
+        films: {
+          "film-1": { status: "want_to_see", addedAt: "2025-01-01T00:00:00Z", updatedAt: "2025-01-01T00:00:00Z" },
+        },
+      });
+
+      const applied = useFilmStatus.getState().applyRemoteChanges({
+        statuses: [
+          {
+            filmId: "film-2",
+            status: "seen",
+            addedAt: "2025-01-02T00:00:00Z",
+            seenAt: "2025-01-02T00:00:00Z",
+            rating: 4.5,
+            updatedAt: "2025-01-02T00:00:00Z",
+          },
+        ],
+        deleted: [{ filmId: "film-1", deletedAt: "2025-01-03T00:00:00Z" }],
+        cursor: 42,
+      });
+
+      const { films, syncCursor } = useFilmStatus.getState();
+      expect(applied).toBe(2);
+      expect(films["film-1"]).toBeUndefined();
+      expect(films["film-2"]).toMatchObject({ status: "seen", rating: 4.5 });
+      expect(syncCursor).toBe(42);
+    });
+  });
 });
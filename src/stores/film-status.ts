@@ -11,6 +11,7 @@ import {
   trackFilmMarkedNotInterested,
   trackFilmStatusChange,
 } from "@/lib/analytics";
+import { mergeFilmStatusChanges, type FilmStatusChanges } from "@/lib/sync/film-status-changes";
 
 export type FilmStatus = "want_to_see" | "seen" | "not_interested" | null;
 
@@ -26,8 +27,13 @@ export interface FilmStatusEntry {
   status: FilmStatus;
   addedAt: string; // ISO date
   seenAt?: string; // ISO date when marked as seen
-  rating?: number; // 1-5 stars
+  rating?: number; // 0.5-5 stars, in half stars
   notes?: string;
+  // Where it was seen (diary entries)
+  seenScreeningId?: string;
+  seenCinemaId?: string;
+  seenCinemaName?: string;
+  seenFormat?: string;
   // Film metadata for display (e.g., in settings "Not Interested" list)
   filmTitle?: string;
   filmYear?: number | null;
@@ -37,6 +43,19 @@ export interface FilmStatusEntry {
   updatedAt: string; // ISO timestamp for conflict resolution
 }
 
+// A diary entry: when and where a film was seen, and what the user thought
+export interface DiaryEntryInput {
+  seenAt: string; // ISO date
+  rating?: number | null;
+  notes?: string | null;
+  screening?: {
+    id: string;
+    cinemaId: string;
+    cinemaName: string;
+    format: string | null;
+  } | null;
+}
+
 // Return type for getNotInterestedFilms
 export interface NotInterestedFilm {
   filmId: string;
@@ -50,16 +69,31 @@ export interface NotInterestedFilm {
 interface FilmStatusState {
   // Map of filmId -> status entry
   films: Record<string, FilmStatusEntry>;
+  // Removed films not yet confirmed by the server: filmId -> ISO deletion time
+  tombstones: Record<string, string>;
+  // Last server change applied locally (see /api/user/film-statuses/changes)
+  syncCursor: number;
 
   // Actions
   setStatus: (filmId: string, status: FilmStatus, filmData?: FilmMetadata) => void;
   setRating: (filmId: string, rating: number) => void;
   setNotes: (filmId: string, notes: string) => void;
+  // Mark as seen with a rating, notes and where it was seen
+  logDiaryEntry: (filmId: string, entry: DiaryEntryInput, filmData?: FilmMetadata) => void;
   removeFilm: (filmId: string) => void;
   clearAll: () => void;
 
   // Sync actions
   bulkSet: (films: Record<string, FilmStatusEntry>) => void;
+  // Merge in entries from an import (e.g. Letterboxd), replacing those films
+  importFilms: (films: Record<string, FilmStatusEntry>) => void;
+  // Apply changes from another device; returns how many films changed
+  applyRemoteChanges: (changes: Pick<FilmStatusChanges, "statuses" | "deleted" | "cursor">) => number;
+  // Forget tombstones the server has (unless the film was removed again since)
+  clearTombstones: (sent: Record<string, string>) => void;
+  setSyncCursor: (cursor: number) => void;
+  // Forget everything without recording deletions (the account is gone)
+  reset: () => void;
   getAllFilms: () => Record<string, FilmStatusEntry>;
 
   // Selectors
@@ -70,10 +104,44 @@ interface FilmStatusState {
   getNotInterestedFilms: () => NotInterestedFilm[];
 }
 
+/**
+ * Ratings are half stars from 0.5 to 5
+ */
+export function roundToHalfStar(rating: number): number {
+  return Math.min(5, Math.max(0.5, Math.round(rating * 2) / 2));
+}
+
+/**
+ * Tombstones after removing films, so the removal syncs to other devices
+ */
+function withTombstones(
+  state: Pick<FilmStatusState, "films" | "tombstones">,
+  filmIds: string[]
+): Record<string, string> {
+  const now = new Date().toISOString();
+  const tombstones = { ...state.tombstones };
+  for (const filmId of filmIds) {
+    if (state.films[filmId]) tombstones[filmId] = now;
+  }
+  return tombstones;
+}
+
+/**
+ * Tombstones without the given films (they have a status again)
+ */
+function withoutTombstones(tombstones: Record<string, string>, filmIds: string[]): Record<string, string> {
+  if (!filmIds.some((filmId) => filmId in tombstones)) return tombstones;
+  const rest = { ...tombstones };
+  for (const filmId of filmIds) delete rest[filmId];
+  return rest;
+}
+
 export const useFilmStatus = create<FilmStatusState>()(
   persist(
     (set, get) => ({
       films: {},
+      tombstones: {},
+      syncCursor: 0,
 
       setStatus: (filmId, status, filmData) =>
         set((state) => {
@@ -113,11 +181,12 @@ export const useFilmStatus = create<FilmStatusState>()(
           if (status === null) {
             const { [filmId]: _removed, ...rest } = state.films;
             void _removed; // Explicit unused acknowledgment
-            return { films: rest };
+            return { films: rest, tombstones: withTombstones(state, [filmId]) };
           }
 
           const now = new Date().toISOString();
           return {
+            tombstones: withoutTombstones(state.tombstones, [filmId]),
             films: {
               ...state.films,
               [filmId]: {
@@ -146,11 +215,43 @@ export const useFilmStatus = create<FilmStatusState>()(
           return {
             films: {
               ...state.films,
-              [filmId]: { ...existing, rating, updatedAt: new Date().toISOString() },
+              [filmId]: {
+                ...existing,
+                rating: roundToHalfStar(rating),
+                updatedAt: new Date().toISOString(),
+              },
             },
           };
         }),
 
+      logDiaryEntry: (filmId, entry, filmData) => {
+        if (get().films[filmId]?.status !== "seen") {
+          get().setStatus(filmId, "seen", filmData);
+        }
+
+        set((state) => {
+          const existing = state.films[filmId];
+          if (!existing) return state;
+
+          return {
+            films: {
+              ...state.films,
+              [filmId]: {
+                ...existing,
+                seenAt: entry.seenAt,
+                rating: entry.rating ? roundToHalfStar(entry.rating) : undefined,
+                notes: entry.notes?.trim() || undefined,
+                seenScreeningId: entry.screening?.id,
+                seenCinemaId: entry.screening?.cinemaId,
+                seenCinemaName: entry.screening?.cinemaName,
+                seenFormat: entry.screening?.format ?? undefined,
+                updatedAt: new Date().toISOString(),
+              },
+            },
+          };
+        });
+      },
+
       setNotes: (filmId, notes) =>
         set((state) => {
           const existing = state.films[filmId];
@@ -168,14 +269,45 @@ export const useFilmStatus = create<FilmStatusState>()(
         set((state) => {
           const { [filmId]: _removed, ...rest } = state.films;
           void _removed; // Explicit unused acknowledgment
-          return { films: rest };
+          return { films: rest, tombstones: withTombstones(state, [filmId]) };
         }),
 
-      clearAll: () => set({ films: {} }),
+      clearAll: () =>
+        set((state) => ({ films: {}, tombstones: withTombstones(state, Object.keys(state.films)) })),
 
       // Sync actions - replace all films with merged data from server
       bulkSet: (films) => set({ films }),
 
+      importFilms: (films) =>
+        set((state) => ({
+          films: { ...state.films, ...films },
+          tombstones: withoutTombstones(state.tombstones, Object.keys(films)),
+        })),
+
+      applyRemoteChanges: (changes) => {
+        const state = get();
+        const merged = mergeFilmStatusChanges(state.films, state.tombstones, changes);
+        set({
+          films: merged.films,
+          tombstones: merged.tombstones,
+          syncCursor: Math.max(state.syncCursor, changes.cursor),
+        });
+        return merged.applied;
+      },
+
+      clearTombstones: (sent) =>
+        set((state) => {
+          const tombstones = { ...state.tombstones };
+          for (const [filmId, deletedAt] of Object.entries(sent)) {
+            if (tombstones[filmId] === deletedAt) delete tombstones[filmId];
+          }
+          return { tombstones };
+        }),
+
+      setSyncCursor: (syncCursor) => set({ syncCursor }),
+
+      reset: () => set({ films: {}, tombstones: {}, syncCursor: 0 }),
+
       getAllFilms: () => get().films,
 
       getStatus: (filmId) => get().films[filmId]?.status ?? null,
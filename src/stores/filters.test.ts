@@ -13,7 +13,9 @@ import {
   isIndependentCinema,
   getTimeOfDayLabel,
   getProgrammingTypeLabel,
+  hasAccessibilityFlag,
   TIME_PRESETS,
+  type AccessibilityFlag,
 } from "./filters";
 
 // Initial state values for resetting between tests
@@ -29,6 +31,8 @@ const initialStateValues = {
   decades: [] as string[],
   genres: [] as string[],
   timesOfDay: [] as ("morning" | "afternoon" | "evening" | "late_night")[],
+  accessibility: [] as AccessibilityFlag[],
+  maxPrice: null as number | null,
   festivalSlug: null as string | null,
   festivalOnly: false,
   hideSeen: false,
@@ -174,6 +178,43 @@ describe("useFilters store", () => {
     });
   });
 
+  describe("toggleAccessibility", () => {
+    it("should add accessibility flag", () => {
+      useFilters.getState().toggleAccessibility("relaxed");
+      expect(useFilters.getState().accessibility).toEqual(["relaxed"]);
+    });
+
+    it("should remove accessibility flag if present", () => {
+      useFilters.setState({ accessibility: ["subtitled", "relaxed"] });
+      useFilters.getState().toggleAccessibility("subtitled");
+      expect(useFilters.getState().accessibility).toEqual(["relaxed"]);
+    });
+
+    it("should count each flag and be included in persisted filters", () => {
+      useFilters.getState().setAccessibility(["audio_described", "baby_friendly"]);
+      expect(useFilters.getState().getActiveFilterCount()).toBe(2);
+      expect(useFilters.getState().getPersistedFilters().accessibility).toEqual([
+        "audio_described",
+        "baby_friendly",
+      ]);
+    });
+  });
+
+  describe("setMaxPrice", () => {
+    it("should count and persist a max price", () => {
+      useFilters.getState().setMaxPrice(10);
+      expect(useFilters.getState().maxPrice).toBe(10);
+      expect(useFilters.getState().getActiveFilterCount()).toBe(1);
+      expect(useFilters.getState().getPersistedFilters().maxPrice).toBe(10);
+    });
+
+    it("should clear the max price with clearAllFilters", () => {
+      useFilters.getState().setMaxPrice(8);
+      useFilters.getState().clearAllFilters();
+      expect(useFilters.getState().maxPrice).toBeNull();
+    });
+  });
+
   describe("festival filters", () => {
     it("should set festival filter", () => {
       useFilters.getState().setFestivalFilter("london-film-festival");
@@ -475,3 +516,13 @@ describe("label helper functions", () => {
     });
   });
 });
+
+describe("hasAccessibilityFlag", () => {
+  it("should map flags to screening fields", () => {
+    const screening = { hasSubtitles: true, isDementiaFriendly: true, isRelaxedScreening: false };
+    expect(hasAccessibilityFlag(screening, "subtitled")).toBe(true);
+    expect(hasAccessibilityFlag(screening, "dementia_friendly")).toBe(true);
+    expect(hasAccessibilityFlag(screening, "relaxed")).toBe(false);
+    expect(hasAccessibilityFlag(screening, "audio_described")).toBe(false);
+  });
+});
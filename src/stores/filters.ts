@@ -12,20 +12,26 @@ import { isFeatureEnabled } from "@/lib/features";
 export {
   type TimeOfDay,
   type ProgrammingType,
+  type AccessibilityFlag,
   DECADES,
   COMMON_GENRES,
   FORMAT_OPTIONS,
   TIME_PRESETS,
+  MAX_PRICE_OPTIONS,
   getTimeOfDayLabel,
   getTimeOfDayFromHour,
   getProgrammingTypeLabel,
+  ACCESSIBILITY_FLAGS,
+  getAccessibilityLabel,
+  hasAccessibilityFlag,
   isIndependentCinema,
   formatHour,
+  formatPrice,
   formatTimeRange,
   matchesTimePreset,
 } from "@/lib/filter-constants";
 
-import type { TimeOfDay, ProgrammingType } from "@/lib/filter-constants";
+import type { TimeOfDay, ProgrammingType, AccessibilityFlag } from "@/lib/filter-constants";
 
 // Helper to track filter changes
 function trackFilterChange(filterType: string, value: unknown, action: "added" | "removed" | "set" | "cleared") {
@@ -64,6 +70,12 @@ export interface FilterState {
   // Time of day (legacy, kept for compatibility)
   timesOfDay: TimeOfDay[];
 
+  // Accessibility - screenings must have every selected feature
+  accessibility: AccessibilityFlag[];
+
+  // Highest standard ticket price in pounds (unpriced screenings are hidden)
+  maxPrice: number | null;
+
   // Festival filtering
   festivalSlug: string | null; // Filter by specific festival
   festivalOnly: boolean; // Only show festival screenings
@@ -88,6 +100,8 @@ export interface PersistedFilters {
   decades: string[];
   genres: string[];
   timesOfDay: TimeOfDay[];
+  accessibility: AccessibilityFlag[];
+  maxPrice: number | null;
   festivalSlug: string | null;
   festivalOnly: boolean;
   seasonSlug: string | null;
@@ -111,6 +125,9 @@ interface FilterActions {
   toggleGenre: (genre: string) => void;
   setGenres: (genres: string[]) => void;
   toggleTimeOfDay: (time: TimeOfDay) => void;
+  toggleAccessibility: (flag: AccessibilityFlag) => void;
+  setAccessibility: (flags: AccessibilityFlag[]) => void;
+  setMaxPrice: (maxPrice: number | null) => void;
   // Festival filters
   setFestivalFilter: (slug: string | null) => void;
   setFestivalOnly: (festivalOnly: boolean) => void;
@@ -142,6 +159,8 @@ const initialState: FilterState = {
   decades: [],
   genres: [],
   timesOfDay: [],
+  accessibility: [],
+  maxPrice: null,
   festivalSlug: null,
   festivalOnly: false,
   seasonSlug: null,
@@ -259,6 +278,27 @@ export const useFilters = create<FilterState & FilterActions>()(
         };
       }),
 
+      toggleAccessibility: (flag) => set((state) => {
+        const isRemoving = state.accessibility.includes(flag);
+        trackFilterChange("accessibility", flag, isRemoving ? "removed" : "added");
+        return {
+          accessibility: isRemoving
+            ? state.accessibility.filter((f) => f !== flag)
+            : [...state.accessibility, flag],
+          updatedAt: new Date().toISOString(),
+        };
+      }),
+
+      setAccessibility: (flags) => {
+        trackFilterChange("accessibility", flags, "set");
+        set({ accessibility: flags, updatedAt: new Date().toISOString() });
+      },
+
+      setMaxPrice: (maxPrice) => {
+        trackFilterChange("max_price", maxPrice, maxPrice === null ? "cleared" : "set");
+        set({ maxPrice, updatedAt: new Date().toISOString() });
+      },
+
       // Festival filter actions
       setFestivalFilter: (slug) => {
         trackFilterChange("festival", slug, slug ? "set" : "cleared");
@@ -319,6 +359,8 @@ export const useFilters = create<FilterState & FilterActions>()(
         count += state.decades.length;
         count += state.genres.length;
         count += state.timesOfDay.length;
+        count += state.accessibility.length;
+        if (state.maxPrice !== null) count++;
         // Festival filters
         if (state.festivalSlug) count++;
         if (state.festivalOnly) count++;
@@ -346,6 +388,8 @@ export const useFilters = create<FilterState & FilterActions>()(
           decades: state.decades,
           genres: state.genres,
           timesOfDay: state.timesOfDay,
+          accessibility: state.accessibility,
+          maxPrice: state.maxPrice,
           festivalSlug: state.festivalSlug,
           festivalOnly: state.festivalOnly,
           seasonSlug: state.seasonSlug,
@@ -373,6 +417,8 @@ export const useFilters = create<FilterState & FilterActions>()(
         decades: state.decades,
         genres: state.genres,
         timesOfDay: state.timesOfDay,
+        accessibility: state.accessibility,
+        maxPrice: state.maxPrice,
         festivalSlug: state.festivalSlug,
         festivalOnly: state.festivalOnly,
         seasonSlug: state.seasonSlug,
@@ -317,6 +317,8 @@ export function createFilterState(overrides: Partial<FilterState> = {}): FilterS
     decades: [],
     genres: [],
     timesOfDay: [],
+    accessibility: [],
+    maxPrice: null,
     festivalSlug: null,
     festivalOnly: false,
     seasonSlug: null,
@@ -29,6 +29,8 @@ const initialFiltersState = {
   decades: [],
   genres: [],
   timesOfDay: [],
+  accessibility: [],
+  maxPrice: null,
   festivalSlug: null,
   festivalOnly: false,
   hideSeen: false,
@@ -37,6 +37,23 @@ export type AvailabilityStatus =
   | "returns"
   | "unknown";
 
+/**
+ * Lifecycle status - screenings missing from consecutive scrapes are
+ * flagged rather than deleted (see scrapers/utils/screening-lifecycle.ts)
+ */
+export type ScreeningStatus = "scheduled" | "possibly_cancelled" | "cancelled";
+
+/**
+ * Ticket prices for a screening, in minor units (pence).
+ * Each is the cheapest ticket of its kind; missing when the source doesn't say.
+ */
+export interface TicketPrices {
+  currency: string; // ISO 4217, e.g. "GBP"
+  standard?: number;
+  concession?: number;
+  member?: number;
+}
+
 export interface Screening {
   id: string;
   filmId: string;
@@ -55,6 +72,13 @@ export interface Screening {
   subtitleLanguage: string | null;
   hasAudioDescription: boolean;
   isRelaxedScreening: boolean;
+  isBabyFriendly: boolean;
+  isDementiaFriendly: boolean;
+  // Prices in pence (see TicketPrices)
+  priceCurrency: string | null;
+  priceStandard: number | null;
+  priceConcession: number | null;
+  priceMember: number | null;
   sourceId: string | null;
   scrapedAt: Date;
   updatedAt: Date;
@@ -62,6 +86,11 @@ export interface Screening {
   isFestivalScreening: boolean;
   availabilityStatus: AvailabilityStatus | null;
   availabilityCheckedAt: Date | null;
+  // Lifecycle
+  status: ScreeningStatus;
+  missedScrapeCount: number;
+  statusChangedAt: Date | null;
+  statusOverridden: boolean;
 }
 
 /**